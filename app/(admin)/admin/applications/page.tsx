@@ -0,0 +1,220 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Topbar } from "@/components/platform/topbar"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Skeleton } from "@/components/ui/skeleton"
+import { HugeiconsIcon } from "@hugeicons/react"
+import { TeachingIcon } from "@hugeicons/core-free-icons"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { queryKeys } from "@/lib/hooks/queries/keys"
+import {
+  getInstructorApplications,
+  reviewInstructorApplication,
+  type InstructorApplicationItem,
+} from "@/lib/actions/instructor-applications"
+import type { InstructorApplicationStatus } from "@/lib/db/models"
+
+type ApplicationFilter = InstructorApplicationStatus | "all"
+
+const filters: { value: ApplicationFilter; label: string }[] = [
+  { value: "pending", label: "Pending" },
+  { value: "approved", label: "Approved" },
+  { value: "rejected", label: "Declined" },
+  { value: "all", label: "All" },
+]
+
+export default function AdminApplicationsPage() {
+  const [filter, setFilter] = useState<ApplicationFilter>("pending")
+
+  const { data: applications = [], isLoading } = useQuery({
+    queryKey: queryKeys.adminApplications(filter),
+    queryFn: () => getInstructorApplications(filter),
+  })
+
+  return (
+    <>
+      <Topbar title="Applications" variant="admin" />
+      <div className="p-4 md:p-6 space-y-6 pb-24 md:pb-8">
+        <div className="space-y-1">
+          <h1 className="text-xl font-bold">Instructor Applications</h1>
+          <p className="text-sm text-muted-foreground">
+            Watch the sample lesson, then approve the applicant to give them instructor access.
+            Applicants are emailed either way.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {filters.map((f) => (
+            <Button
+              key={f.value}
+              size="sm"
+              variant={filter === f.value ? "default" : "outline"}
+              onClick={() => setFilter(f.value)}
+            >
+              {f.label}
+            </Button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2].map((i) => (
+              <Card key={i}>
+                <CardContent className="p-4 space-y-2">
+                  <Skeleton className="h-4 w-1/3" />
+                  <Skeleton className="h-3 w-2/3" />
+                  <Skeleton className="h-40 w-full" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : applications.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center">
+            <HugeiconsIcon icon={TeachingIcon} size={48} className="text-muted-foreground/30 mb-4" />
+            <h3 className="font-semibold text-lg mb-1">No applications</h3>
+            <p className="text-sm text-muted-foreground">
+              {filter === "pending"
+                ? "No one is waiting for a decision right now."
+                : "No applications match this filter."}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {applications.map((application) => (
+              <ApplicationCard key={application.id} application={application} />
+            ))}
+          </div>
+        )}
+      </div>
+    </>
+  )
+}
+
+function ApplicationCard({ application }: { application: InstructorApplicationItem }) {
+  const queryClient = useQueryClient()
+  const [note, setNote] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState<"approve" | "reject" | null>(null)
+
+  const isPending = application.status === "pending"
+  const initials = application.applicantName
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .slice(0, 2)
+    .toUpperCase()
+
+  const socialLinks = [
+    { label: "X / Twitter", href: application.socialLinks.twitter },
+    { label: "LinkedIn", href: application.socialLinks.linkedin },
+    { label: "Website", href: application.socialLinks.website },
+  ].filter((l): l is { label: string; href: string } => !!l.href)
+
+  async function handleReview(decision: "approve" | "reject") {
+    setError(null)
+    setSubmitting(decision)
+    const result = await reviewInstructorApplication(application.id, decision, note)
+    setSubmitting(null)
+    if (result.success) {
+      setNote("")
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminApplications() })
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminOverview })
+    } else {
+      setError(result.error || "Something went wrong")
+    }
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start gap-3">
+          <Avatar className="h-10 w-10 shrink-0">
+            {application.applicantAvatarUrl && <AvatarImage src={application.applicantAvatarUrl} />}
+            <AvatarFallback className="text-xs">{initials}</AvatarFallback>
+          </Avatar>
+          <div className="min-w-0 flex-1 space-y-1">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-semibold truncate">{application.applicantName}</p>
+                <p className="text-xs text-muted-foreground truncate">{application.applicantEmail}</p>
+              </div>
+              <Badge
+                variant={application.status === "rejected" ? "destructive" : isPending ? "secondary" : "default"}
+                className="capitalize text-[10px] shrink-0"
+              >
+                {application.status === "rejected" ? "Declined" : application.status}
+              </Badge>
+            </div>
+            <p className="text-sm">{application.headline}</p>
+            <div className="flex flex-wrap gap-1">
+              {application.expertise.map((item) => (
+                <Badge key={item} variant="outline" className="text-[10px]">
+                  {item}
+                </Badge>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-[11px] text-muted-foreground">
+              <span>Applied {new Date(application.createdAt).toLocaleDateString()}</span>
+              <span>Terms {application.termsVersion}</span>
+              {socialLinks.map((link) => (
+                <a
+                  key={link.label}
+                  href={link.href}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary hover:underline"
+                >
+                  {link.label}
+                </a>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <video
+          src={application.sampleVideoUrl}
+          controls
+          preload="metadata"
+          className="w-full max-h-80 rounded-md bg-black"
+        />
+
+        {application.reviewNote && !isPending && (
+          <p className="text-xs text-muted-foreground border-l-2 border-border pl-2">
+            {application.reviewNote}
+          </p>
+        )}
+
+        {isPending && (
+          <div className="space-y-2">
+            <Textarea
+              placeholder="Note for the applicant (required when declining)"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={1000}
+              className="min-h-16"
+            />
+            {error && <p className="text-xs text-red-500">{error}</p>}
+            <div className="flex justify-end gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={submitting !== null}
+                onClick={() => handleReview("reject")}
+              >
+                {submitting === "reject" ? "Declining..." : "Decline"}
+              </Button>
+              <Button size="sm" disabled={submitting !== null} onClick={() => handleReview("approve")}>
+                {submitting === "approve" ? "Approving..." : "Approve"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
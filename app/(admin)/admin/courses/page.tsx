@@ -0,0 +1,241 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import Image from "next/image"
+import { Card, CardContent } from "@/components/ui/card"
+import { Topbar } from "@/components/platform/topbar"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Skeleton } from "@/components/ui/skeleton"
+import { HugeiconsIcon } from "@hugeicons/react"
+import { BookOpen01Icon, Search01Icon } from "@hugeicons/core-free-icons"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { queryKeys } from "@/lib/hooks/queries/keys"
+import {
+  getAdminCourses,
+  reviewCourse,
+  forceArchiveCourse,
+  liftCourseArchive,
+  type AdminCourseFilter,
+  type AdminCourseItem,
+} from "@/lib/actions/admin"
+
+const filters: { value: AdminCourseFilter; label: string }[] = [
+  { value: "pending", label: "Awaiting approval" },
+  { value: "published", label: "Published" },
+  { value: "draft", label: "Drafts" },
+  { value: "archived", label: "Archived" },
+  { value: "all", label: "All" },
+]
+
+export default function AdminCoursesPage() {
+  const [filter, setFilter] = useState<AdminCourseFilter>("pending")
+  const [search, setSearch] = useState("")
+  const [submittedSearch, setSubmittedSearch] = useState("")
+
+  const { data: courses = [], isLoading } = useQuery({
+    queryKey: queryKeys.adminCourses({ status: filter, search: submittedSearch }),
+    queryFn: () => getAdminCourses(filter, submittedSearch),
+  })
+
+  return (
+    <>
+      <Topbar title="Courses" variant="admin" />
+      <div className="p-4 md:p-6 space-y-6 pb-24 md:pb-8">
+        <div className="space-y-1">
+          <h1 className="text-xl font-bold">Courses</h1>
+          <p className="text-sm text-muted-foreground">
+            New courses go live only after an admin approves them. Archive a course here to take
+            it down — its instructor can&apos;t republish it until you lift the archive.
+          </p>
+        </div>
+
+        <form
+          className="flex flex-col sm:flex-row gap-3"
+          onSubmit={(e) => {
+            e.preventDefault()
+            setSubmittedSearch(search.trim())
+          }}
+        >
+          <div className="relative flex-1">
+            <HugeiconsIcon
+              icon={Search01Icon}
+              size={16}
+              className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground"
+            />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by title"
+              className="pl-9"
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {filters.map((f) => (
+              <Button
+                key={f.value}
+                type="button"
+                size="sm"
+                variant={filter === f.value ? "default" : "outline"}
+                onClick={() => setFilter(f.value)}
+              >
+                {f.label}
+              </Button>
+            ))}
+          </div>
+        </form>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <Card key={i}>
+                <CardContent className="p-4 space-y-2">
+                  <Skeleton className="h-4 w-1/3" />
+                  <Skeleton className="h-3 w-2/3" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : courses.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center">
+            <HugeiconsIcon icon={BookOpen01Icon} size={48} className="text-muted-foreground/30 mb-4" />
+            <h3 className="font-semibold text-lg mb-1">No courses</h3>
+            <p className="text-sm text-muted-foreground">
+              {filter === "pending"
+                ? "No course is waiting for approval right now."
+                : "No courses match this filter."}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {courses.map((course) => (
+              <AdminCourseCard key={course.id} course={course} />
+            ))}
+          </div>
+        )}
+      </div>
+    </>
+  )
+}
+
+function AdminCourseCard({ course }: { course: AdminCourseItem }) {
+  const queryClient = useQueryClient()
+  const [note, setNote] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState<"approve" | "reject" | "archive" | "lift" | null>(null)
+
+  const isPending = course.approvalStatus === "pending"
+
+  async function run(action: NonNullable<typeof submitting>) {
+    setError(null)
+    setSubmitting(action)
+    const result =
+      action === "approve" || action === "reject"
+        ? await reviewCourse(course.id, action, note)
+        : action === "archive"
+          ? await forceArchiveCourse(course.id, note)
+          : await liftCourseArchive(course.id)
+    setSubmitting(null)
+    if (result.success) {
+      setNote("")
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminCourses() })
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminOverview })
+    } else {
+      setError(result.error || "Something went wrong")
+    }
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start gap-3">
+          <div className="relative h-16 w-28 shrink-0 overflow-hidden rounded-md bg-muted">
+            {course.thumbnailUrl && (
+              <Image src={course.thumbnailUrl} alt={course.title} fill className="object-cover" sizes="112px" />
+            )}
+          </div>
+          <div className="min-w-0 flex-1 space-y-1">
+            <div className="flex items-start justify-between gap-2">
+              <Link
+                href={`/courses/${course.id}`}
+                className="text-sm font-semibold hover:text-primary transition-colors line-clamp-2"
+              >
+                {course.title}
+              </Link>
+              <div className="flex flex-wrap justify-end gap-1 shrink-0">
+                <Badge variant={course.status === "published" ? "default" : "outline"} className="capitalize text-[10px]">
+                  {course.status}
+                </Badge>
+                {isPending && <Badge variant="secondary" className="text-[10px]">Awaiting approval</Badge>}
+                {course.approvalStatus === "rejected" && (
+                  <Badge variant="destructive" className="text-[10px]">Changes requested</Badge>
+                )}
+                {course.forceArchived && (
+                  <Badge variant="destructive" className="text-[10px]">Archived by admin</Badge>
+                )}
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground truncate">
+              {course.instructorName} · {course.instructorEmail}
+            </p>
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-[11px] text-muted-foreground">
+              <span>{course.totalLessons} lessons</span>
+              <span>{course.enrolledCount.toLocaleString()} students</span>
+              <span>{course.pricing === "free" ? "Free" : `$${course.price}`}</span>
+              {course.submittedAt && (
+                <span>Submitted {new Date(course.submittedAt).toLocaleDateString()}</span>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {course.approvalNote && !isPending && (
+          <p className="text-xs text-muted-foreground border-l-2 border-border pl-2">
+            {course.approvalNote}
+          </p>
+        )}
+
+        <div className="space-y-2">
+          {!course.forceArchived && (
+            <Textarea
+              placeholder={
+                isPending
+                  ? "Note for the instructor (required when requesting changes)"
+                  : "Reason for archiving (optional, sent to the instructor)"
+              }
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={1000}
+              className="min-h-16"
+            />
+          )}
+          {error && <p className="text-xs text-red-500">{error}</p>}
+          <div className="flex flex-wrap justify-end gap-2">
+            {course.forceArchived ? (
+              <Button size="sm" variant="outline" disabled={submitting !== null} onClick={() => run("lift")}>
+                {submitting === "lift" ? "Restoring..." : "Lift archive"}
+              </Button>
+            ) : (
+              <Button size="sm" variant="outline" disabled={submitting !== null} onClick={() => run("archive")}>
+                {submitting === "archive" ? "Archiving..." : "Force archive"}
+              </Button>
+            )}
+            {isPending && (
+              <>
+                <Button size="sm" variant="outline" disabled={submitting !== null} onClick={() => run("reject")}>
+                  {submitting === "reject" ? "Sending..." : "Request changes"}
+                </Button>
+                <Button size="sm" disabled={submitting !== null} onClick={() => run("approve")}>
+                  {submitting === "approve" ? "Approving..." : "Approve & publish"}
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
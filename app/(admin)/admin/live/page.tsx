@@ -0,0 +1,124 @@
+"use client"
+
+import { Card, CardContent } from "@/components/ui/card"
+import { Topbar } from "@/components/platform/topbar"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { HugeiconsIcon } from "@hugeicons/react"
+import { Call02Icon, Video01Icon } from "@hugeicons/core-free-icons"
+import { useQuery } from "@tanstack/react-query"
+import { queryKeys } from "@/lib/hooks/queries/keys"
+import { getLiveActivity } from "@/lib/actions/admin"
+
+function elapsed(from: string) {
+  const mins = Math.max(0, Math.floor((Date.now() - new Date(from).getTime()) / 60000))
+  if (mins < 60) return `${mins}m`
+  return `${Math.floor(mins / 60)}h ${mins % 60}m`
+}
+
+export default function AdminLivePage() {
+  const { data, isLoading } = useQuery({
+    queryKey: queryKeys.adminLive,
+    queryFn: () => getLiveActivity(),
+    refetchInterval: 30_000,
+  })
+
+  const meetings = data?.meetings ?? []
+  const calls = data?.calls ?? []
+
+  return (
+    <>
+      <Topbar title="Live Activity" variant="admin" />
+      <div className="p-4 md:p-6 space-y-6 pb-24 md:pb-8">
+        <div className="space-y-1">
+          <h1 className="text-xl font-bold">Live Activity</h1>
+          <p className="text-sm text-muted-foreground">
+            Meetings and calls happening right now. Refreshes every 30 seconds.
+          </p>
+        </div>
+
+        <section className="space-y-3">
+          <div className="flex items-center gap-2">
+            <h2 className="text-sm font-semibold">Meetings</h2>
+            <Badge variant="secondary" className="text-[10px]">{meetings.length}</Badge>
+          </div>
+          {isLoading ? (
+            <Skeleton className="h-16 w-full" />
+          ) : meetings.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No meetings are running.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {meetings.map((m) => (
+                <Card key={m.id}>
+                  <CardContent className="p-4 flex items-center gap-3">
+                    <Avatar className="h-9 w-9 shrink-0">
+                      {m.hostAvatarUrl && <AvatarImage src={m.hostAvatarUrl} />}
+                      <AvatarFallback className="text-xs">
+                        <HugeiconsIcon icon={Video01Icon} size={14} />
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-semibold truncate">{m.title}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        Hosted by {m.hostName}
+                        {m.courseTitle && ` · ${m.courseTitle}`}
+                      </p>
+                      <p className="text-[11px] text-muted-foreground">
+                        {m.participantCount} in the room
+                        {m.startedAt && ` · running ${elapsed(m.startedAt)}`}
+                      </p>
+                    </div>
+                    <Badge variant={m.status === "active" ? "default" : "secondary"} className="capitalize text-[10px]">
+                      {m.status}
+                    </Badge>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <section className="space-y-3">
+          <div className="flex items-center gap-2">
+            <h2 className="text-sm font-semibold">Calls</h2>
+            <Badge variant="secondary" className="text-[10px]">{calls.length}</Badge>
+          </div>
+          {isLoading ? (
+            <Skeleton className="h-16 w-full" />
+          ) : calls.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No calls in progress.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {calls.map((c) => (
+                <Card key={c.id}>
+                  <CardContent className="p-4 flex items-center gap-3">
+                    <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-full bg-emerald-500/15">
+                      <HugeiconsIcon
+                        icon={c.type === "video" ? Video01Icon : Call02Icon}
+                        size={16}
+                        className="text-emerald-500"
+                      />
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-semibold truncate">
+                        {c.callerName} → {c.receiverName}
+                      </p>
+                      <p className="text-[11px] text-muted-foreground">
+                        {c.type === "video" ? "Video" : "Audio"} call
+                        {` · ${elapsed(c.answeredAt ?? c.createdAt)}`}
+                      </p>
+                    </div>
+                    <Badge variant={c.status === "ongoing" ? "default" : "secondary"} className="capitalize text-[10px]">
+                      {c.status}
+                    </Badge>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+    </>
+  )
+}
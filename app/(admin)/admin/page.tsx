@@ -0,0 +1,77 @@
+"use client"
+
+import Link from "next/link"
+import { Card, CardContent } from "@/components/ui/card"
+import { Topbar } from "@/components/platform/topbar"
+import { Skeleton } from "@/components/ui/skeleton"
+import { HugeiconsIcon } from "@hugeicons/react"
+import type { IconSvgElement } from "@hugeicons/react"
+import {
+  UserAccountIcon,
+  TeachingIcon,
+  BookOpen01Icon,
+  Flag01Icon,
+  Video01Icon,
+  Call02Icon,
+} from "@hugeicons/core-free-icons"
+import { useQuery } from "@tanstack/react-query"
+import { queryKeys } from "@/lib/hooks/queries/keys"
+import { getAdminOverview, type AdminOverview } from "@/lib/actions/admin"
+
+const stats: {
+  key: keyof AdminOverview
+  label: string
+  href: string
+  icon: IconSvgElement
+}[] = [
+  { key: "pendingApplications", label: "Instructor applications", href: "/admin/applications", icon: TeachingIcon },
+  { key: "pendingCourses", label: "Courses awaiting approval", href: "/admin/courses", icon: BookOpen01Icon },
+  { key: "reportedReviews", label: "Reported reviews", href: "/admin/reviews", icon: Flag01Icon },
+  { key: "activeMeetings", label: "Live meetings", href: "/admin/live", icon: Video01Icon },
+  { key: "activeCalls", label: "Calls in progress", href: "/admin/live", icon: Call02Icon },
+  { key: "totalUsers", label: "Users", href: "/admin/users", icon: UserAccountIcon },
+  { key: "totalInstructors", label: "Instructors", href: "/admin/users", icon: TeachingIcon },
+]
+
+export default function AdminOverviewPage() {
+  const { data: overview, isLoading } = useQuery({
+    queryKey: queryKeys.adminOverview,
+    queryFn: () => getAdminOverview(),
+  })
+
+  return (
+    <>
+      <Topbar title="Admin" variant="admin" />
+      <div className="p-4 md:p-6 space-y-6 pb-24 md:pb-8">
+        <div className="space-y-1">
+          <h1 className="text-xl font-bold">Admin Console</h1>
+          <p className="text-sm text-muted-foreground">
+            Manage users, approve courses and keep an eye on what&apos;s happening across the academy.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+          {stats.map((stat) => (
+            <Link key={stat.key} href={stat.href}>
+              <Card className="hover:shadow-md hover:border-primary/30 transition-all h-full">
+                <CardContent className="p-4 flex items-center gap-3">
+                  <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg bg-primary/10 text-primary">
+                    <HugeiconsIcon icon={stat.icon} size={20} />
+                  </div>
+                  <div className="min-w-0">
+                    {isLoading ? (
+                      <Skeleton className="h-6 w-12 mb-1" />
+                    ) : (
+                      <p className="text-xl font-bold">{(overview?.[stat.key] ?? 0).toLocaleString()}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground truncate">{stat.label}</p>
+                  </div>
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      </div>
+    </>
+  )
+}
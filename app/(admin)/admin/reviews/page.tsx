@@ -0,0 +1,24 @@
+"use client"
+
+import { Topbar } from "@/components/platform/topbar"
+import { ReviewModerationQueue } from "@/components/shared/review-moderation-queue"
+
+export default function AdminReviewsPage() {
+  return (
+    <>
+      <Topbar title="Reviews" variant="admin" />
+      <div className="p-4 md:p-6 space-y-6 pb-24 md:pb-8">
+        <div className="space-y-1">
+          <h1 className="text-xl font-bold">Review Moderation</h1>
+          <p className="text-sm text-muted-foreground">
+            Reviews reported by students across every course. Reviews are hidden automatically
+            once they collect enough reports, and hidden reviews stop counting towards the course
+            rating.
+          </p>
+        </div>
+
+        <ReviewModerationQueue showAdminStats />
+      </div>
+    </>
+  )
+}
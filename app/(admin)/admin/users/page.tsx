@@ -0,0 +1,324 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Topbar } from "@/components/platform/topbar"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  ResponsiveModal,
+  ResponsiveModalContent,
+  ResponsiveModalHeader,
+  ResponsiveModalFooter,
+  ResponsiveModalTitle,
+  ResponsiveModalDescription,
+} from "@/components/ui/responsive-modal"
+import { HugeiconsIcon } from "@hugeicons/react"
+import { Search01Icon, UserAccountIcon } from "@hugeicons/core-free-icons"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { queryKeys } from "@/lib/hooks/queries/keys"
+import { searchUsers, updateUser, type AdminRole, type AdminUserItem } from "@/lib/actions/admin"
+
+const roleFilters = [
+  { value: "all", label: "All" },
+  { value: "USER", label: "Students" },
+  { value: "INSTRUCTOR", label: "Instructors" },
+  { value: "ADMIN", label: "Admins" },
+] as const
+
+const roleItems = [
+  { value: "USER", label: "Student" },
+  { value: "INSTRUCTOR", label: "Instructor" },
+  { value: "ADMIN", label: "Admin" },
+]
+
+const roleLabels: Record<AdminRole, string> = {
+  USER: "Student",
+  INSTRUCTOR: "Instructor",
+  ADMIN: "Admin",
+}
+
+type RoleFilter = (typeof roleFilters)[number]["value"]
+
+export default function AdminUsersPage() {
+  const [search, setSearch] = useState("")
+  const [submittedSearch, setSubmittedSearch] = useState("")
+  const [role, setRole] = useState<RoleFilter>("all")
+  const [editing, setEditing] = useState<AdminUserItem | null>(null)
+
+  const { data: users = [], isLoading } = useQuery({
+    queryKey: queryKeys.adminUsers({ search: submittedSearch, role }),
+    queryFn: () => searchUsers(submittedSearch, role),
+  })
+
+  return (
+    <>
+      <Topbar title="Users" variant="admin" />
+      <div className="p-4 md:p-6 space-y-6 pb-24 md:pb-8">
+        <div className="space-y-1">
+          <h1 className="text-xl font-bold">Users</h1>
+          <p className="text-sm text-muted-foreground">
+            Search accounts, fix profile details and change roles — promote a student to
+            instructor so they can publish courses.
+          </p>
+        </div>
+
+        <form
+          className="flex flex-col sm:flex-row gap-3"
+          onSubmit={(e) => {
+            e.preventDefault()
+            setSubmittedSearch(search.trim())
+          }}
+        >
+          <div className="relative flex-1">
+            <HugeiconsIcon
+              icon={Search01Icon}
+              size={16}
+              className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground"
+            />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by name, username or email"
+              className="pl-9"
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {roleFilters.map((f) => (
+              <Button
+                key={f.value}
+                type="button"
+                size="sm"
+                variant={role === f.value ? "default" : "outline"}
+                onClick={() => setRole(f.value)}
+              >
+                {f.label}
+              </Button>
+            ))}
+          </div>
+        </form>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <Card key={i}>
+                <CardContent className="p-4 space-y-2">
+                  <Skeleton className="h-4 w-1/3" />
+                  <Skeleton className="h-3 w-1/2" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : users.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center">
+            <HugeiconsIcon icon={UserAccountIcon} size={48} className="text-muted-foreground/30 mb-4" />
+            <h3 className="font-semibold text-lg mb-1">No users found</h3>
+            <p className="text-sm text-muted-foreground">Try a different name or email.</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {users.map((user) => (
+              <UserRow key={user.id} user={user} onEdit={() => setEditing(user)} />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {editing && (
+        <EditUserModal
+          key={editing.id}
+          user={editing}
+          open={!!editing}
+          onOpenChange={(open) => !open && setEditing(null)}
+        />
+      )}
+    </>
+  )
+}
+
+function UserRow({ user, onEdit }: { user: AdminUserItem; onEdit: () => void }) {
+  const name = `${user.firstName} ${user.lastName}`.trim()
+  const initials = `${user.firstName?.[0] || ""}${user.lastName?.[0] || ""}`.toUpperCase() || "U"
+
+  return (
+    <Card>
+      <CardContent className="p-4 flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <Avatar className="h-9 w-9 shrink-0">
+            {user.avatarUrl && <AvatarImage src={user.avatarUrl} />}
+            <AvatarFallback className="text-xs">{initials}</AvatarFallback>
+          </Avatar>
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <p className="text-sm font-semibold truncate">{name}</p>
+              <Badge variant={user.role === "USER" ? "outline" : "secondary"} className="text-[10px]">
+                {roleLabels[user.role]}
+              </Badge>
+              {user.verified && (
+                <Badge variant="outline" className="text-[10px]">Verified</Badge>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground truncate">
+              @{user.username} · {user.email}
+            </p>
+            <p className="text-[11px] text-muted-foreground">
+              Joined {new Date(user.createdAt).toLocaleDateString()}
+              {user.role !== "USER" && ` · ${user.totalCourses} courses`}
+              {` · $${user.walletBalance.toFixed(2)} wallet`}
+            </p>
+          </div>
+        </div>
+        <Button size="sm" variant="outline" onClick={onEdit}>
+          Edit
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
+
+function EditUserModal({
+  user,
+  open,
+  onOpenChange,
+}: {
+  user: AdminUserItem
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}) {
+  const queryClient = useQueryClient()
+  const [firstName, setFirstName] = useState(user.firstName)
+  const [lastName, setLastName] = useState(user.lastName)
+  const [username, setUsername] = useState(user.username)
+  const [bio, setBio] = useState(user.bio ?? "")
+  const [role, setRole] = useState<AdminRole>(user.role)
+  const [verified, setVerified] = useState(user.verified)
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  async function handleSave() {
+    setError(null)
+    setIsSaving(true)
+    const result = await updateUser(user.id, {
+      firstName,
+      lastName,
+      username,
+      bio: bio || null,
+      role,
+      verified,
+    })
+    setIsSaving(false)
+
+    if (result.success) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminUsers() })
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminOverview })
+      onOpenChange(false)
+    } else {
+      setError(result.error || "Something went wrong")
+    }
+  }
+
+  return (
+    <ResponsiveModal open={open} onOpenChange={onOpenChange}>
+      <ResponsiveModalContent>
+        <ResponsiveModalHeader>
+          <ResponsiveModalTitle>Edit user</ResponsiveModalTitle>
+          <ResponsiveModalDescription>{user.email}</ResponsiveModalDescription>
+        </ResponsiveModalHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="user-first-name">First name</Label>
+              <Input
+                id="user-first-name"
+                value={firstName}
+                onChange={(e) => setFirstName(e.target.value)}
+                maxLength={50}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="user-last-name">Last name</Label>
+              <Input
+                id="user-last-name"
+                value={lastName}
+                onChange={(e) => setLastName(e.target.value)}
+                maxLength={50}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="user-username">Username</Label>
+            <Input
+              id="user-username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              maxLength={30}
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="user-bio">Bio</Label>
+            <Textarea
+              id="user-bio"
+              value={bio}
+              onChange={(e) => setBio(e.target.value)}
+              maxLength={500}
+              className="min-h-16"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 items-end">
+            <div className="space-y-1.5">
+              <Label>Role</Label>
+              <Select
+                items={roleItems}
+                value={role}
+                onValueChange={(v) => setRole((v ?? user.role) as AdminRole)}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {roleItems.map((item) => (
+                    <SelectItem key={item.value} value={item.value}>
+                      {item.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between gap-2 h-9">
+              <Label htmlFor="user-verified">Verified</Label>
+              <Switch id="user-verified" checked={verified} onCheckedChange={setVerified} />
+            </div>
+          </div>
+
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+
+        <ResponsiveModalFooter>
+          <Button variant="outline" size="sm" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button size="sm" disabled={isSaving} onClick={handleSave}>
+            {isSaving ? "Saving..." : "Save changes"}
+          </Button>
+        </ResponsiveModalFooter>
+      </ResponsiveModalContent>
+    </ResponsiveModal>
+  )
+}
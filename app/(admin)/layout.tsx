@@ -0,0 +1,37 @@
+import { redirect } from "next/navigation"
+import { SidebarProvider, SidebarInset } from "@/components/ui/sidebar"
+import { AdminSidebar } from "@/components/admin/admin-sidebar"
+import { UserProvider } from "@/components/providers/user-provider"
+import { QueryProvider } from "@/components/providers/query-provider"
+import { getCachedUser } from "@/lib/auth/cached"
+
+export default async function AdminLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  const user = await getCachedUser()
+
+  if (!user) {
+    const isLocalDev = process.env.NEXT_PUBLIC_CLERK_PUBLISHABLE_KEY?.startsWith("pk_test_")
+    redirect(isLocalDev ? "/login" : "https://www.worldstreetgold.com/login")
+  }
+
+  // Admin actions re-check the role server-side; this just keeps others out of the UI
+  if (user.role !== "ADMIN") {
+    redirect("/dashboard")
+  }
+
+  return (
+    <QueryProvider>
+      <UserProvider user={user}>
+        <SidebarProvider>
+          <AdminSidebar />
+          <SidebarInset>
+            {children}
+          </SidebarInset>
+        </SidebarProvider>
+      </UserProvider>
+    </QueryProvider>
+  )
+}
@@ -0,0 +1,24 @@
+import { Skeleton } from "@/components/ui/skeleton"
+
+export default function AdminLoading() {
+  return (
+    <div className="flex flex-col gap-6 p-6 animate-in fade-in-0 duration-300">
+      <div className="space-y-2">
+        <Skeleton className="h-8 w-56" />
+        <Skeleton className="h-4 w-80" />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <div key={i} className="rounded-xl border bg-card overflow-hidden">
+            <Skeleton className="aspect-video w-full rounded-none" />
+            <div className="p-4 space-y-2">
+              <Skeleton className="h-4 w-3/4" />
+              <Skeleton className="h-3 w-1/2" />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
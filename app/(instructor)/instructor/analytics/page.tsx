@@ -9,12 +9,14 @@ import { useInstructorCourses } from "@/lib/hooks/queries"
 import { EmptyState } from "@/components/shared/empty-state"
 import { useQuery } from "@tanstack/react-query"
 import { fetchInstructorCertificateStats } from "@/lib/actions/certificates"
+import { getCouponRedemptionStats } from "@/lib/actions/coupons"
 import { HugeiconsIcon } from "@hugeicons/react"
 import {
   StarIcon,
   Certificate01Icon,
   UserMultipleIcon,
   AnalyticsUpIcon,
+  DiscountTag01Icon,
 } from "@hugeicons/core-free-icons"
 
 export default function AnalyticsPage() {
@@ -24,6 +26,11 @@ export default function AnalyticsPage() {
     queryFn: () => fetchInstructorCertificateStats(),
   })
 
+  const { data: couponStats = [] } = useQuery({
+    queryKey: ["instructor", "coupon-stats"],
+    queryFn: () => getCouponRedemptionStats(),
+  })
+
   // Compute overall stats
   const totalStudents = courses.reduce((s, c) => s + c.enrolledCount, 0)
   const totalCertificates = certStats.reduce((s, c) => s + c.totalCertificates, 0)
@@ -238,6 +245,49 @@ export default function AnalyticsPage() {
             })}
           </div>
         )}
+
+        {/* Coupon redemptions */}
+        {couponStats.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-sm">
+                <HugeiconsIcon icon={DiscountTag01Icon} size={16} className="text-primary" />
+                Coupon Redemptions
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-muted-foreground border-b">
+                    <th className="py-2 pr-3 font-medium">Code</th>
+                    <th className="py-2 pr-3 font-medium">Course</th>
+                    <th className="py-2 pr-3 font-medium text-right">Redemptions</th>
+                    <th className="py-2 pr-3 font-medium text-right">Discount given</th>
+                    <th className="py-2 font-medium text-right">Revenue</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {couponStats.map((c) => (
+                    <tr key={c.couponId} className="border-b last:border-0">
+                      <td className="py-2 pr-3">
+                        <span className="font-mono text-xs font-semibold">{c.code}</span>
+                        {!c.isActive && (
+                          <span className="ml-1.5 text-[10px] text-muted-foreground">(inactive)</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-3 text-muted-foreground truncate max-w-48">
+                        {c.courseTitle ?? "All courses"}
+                      </td>
+                      <td className="py-2 pr-3 text-right font-medium">{c.redemptions}</td>
+                      <td className="py-2 pr-3 text-right">${c.totalDiscount.toFixed(2)}</td>
+                      <td className="py-2 text-right">${c.revenue.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </>
   )
@@ -0,0 +1,321 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Topbar } from "@/components/platform/topbar"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Skeleton } from "@/components/ui/skeleton"
+import { RichTextContent } from "@/components/ui/rich-text-editor"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { HugeiconsIcon } from "@hugeicons/react"
+import { AssignmentsIcon, Attachment01Icon } from "@hugeicons/core-free-icons"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { useInstructorCourses } from "@/lib/hooks/queries"
+import { queryKeys } from "@/lib/hooks/queries/keys"
+import {
+  getGradingQueue,
+  gradeAssignmentSubmission,
+  type GradingQueueItem,
+} from "@/lib/actions/assignments"
+
+const filters = [
+  { value: "submitted", label: "To grade" },
+  { value: "graded", label: "Graded" },
+  { value: "returned", label: "Returned" },
+  { value: "all", label: "All" },
+] as const
+
+type Filter = (typeof filters)[number]["value"]
+
+export default function InstructorAssignmentsPage() {
+  const [filter, setFilter] = useState<Filter>("submitted")
+  const [courseId, setCourseId] = useState("all")
+  const { data: courses = [] } = useInstructorCourses()
+
+  const selectedCourse = courseId === "all" ? undefined : courseId
+  const { data: submissions = [], isLoading } = useQuery({
+    queryKey: queryKeys.instructorAssignments(selectedCourse),
+    queryFn: () => getGradingQueue("all", selectedCourse),
+  })
+
+  const visible = filter === "all" ? submissions : submissions.filter((s) => s.status === filter)
+  const pendingCount = submissions.filter((s) => s.status === "submitted").length
+
+  const courseItems = [
+    { value: "all", label: "All courses" },
+    ...courses.map((c) => ({ value: c.id, label: c.title })),
+  ]
+
+  return (
+    <>
+      <Topbar title="Assignments" variant="instructor" />
+      <div className="p-4 md:p-6 space-y-6 pb-24 md:pb-8">
+        {/* Header */}
+        <div className="space-y-1">
+          <h1 className="text-xl font-bold">Assignment Grading</h1>
+          <p className="text-sm text-muted-foreground">
+            Score submissions against each lesson&apos;s rubric. Grading completes the lesson for
+            the student; returning it lets them revise and resubmit.
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-2">
+          {filters.map((f) => (
+            <Button
+              key={f.value}
+              size="sm"
+              variant={filter === f.value ? "default" : "outline"}
+              onClick={() => setFilter(f.value)}
+            >
+              {f.label}
+              {f.value === "submitted" && pendingCount > 0 && ` (${pendingCount})`}
+            </Button>
+          ))}
+          <Select
+            items={courseItems}
+            value={courseId}
+            onValueChange={(v) => setCourseId((v as string | null) ?? "all")}
+          >
+            <SelectTrigger size="sm" className="w-56 ml-auto">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {courseItems.map((item) => (
+                <SelectItem key={item.value} value={item.value}>
+                  {item.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <Card key={i}>
+                <CardContent className="p-4 space-y-2">
+                  <Skeleton className="h-4 w-1/3" />
+                  <Skeleton className="h-3 w-2/3" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center">
+            <HugeiconsIcon icon={AssignmentsIcon} size={48} className="text-muted-foreground/30 mb-4" />
+            <h3 className="font-semibold text-lg mb-1">No submissions</h3>
+            <p className="text-sm text-muted-foreground">
+              {filter === "submitted"
+                ? "You're all caught up — there's nothing waiting to be graded."
+                : "Assignment submissions from your students will appear here."}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {visible.map((submission) => (
+              <SubmissionCard key={submission.id} submission={submission} />
+            ))}
+          </div>
+        )}
+      </div>
+    </>
+  )
+}
+
+function SubmissionCard({ submission }: { submission: GradingQueueItem }) {
+  const queryClient = useQueryClient()
+  const [scores, setScores] = useState<Record<string, string>>({})
+  const [feedback, setFeedback] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState<"grade" | "return" | null>(null)
+
+  const isPending = submission.status === "submitted"
+  const scoredById = new Map(submission.rubricScores.map((r) => [r.criterionId, r]))
+  const maxScore = submission.rubric.reduce((s, c) => s + c.maxPoints, 0)
+  const draftTotal = submission.rubric.reduce((s, c) => s + (Number(scores[c.id]) || 0), 0)
+
+  async function handleGrade(decision: "grade" | "return") {
+    setError(null)
+    setSubmitting(decision)
+    const result = await gradeAssignmentSubmission(submission.id, {
+      decision,
+      feedback,
+      scores: submission.rubric
+        .filter((c) => scores[c.id] !== undefined && scores[c.id] !== "")
+        .map((c) => ({ criterionId: c.id, score: Number(scores[c.id]) })),
+    })
+    setSubmitting(null)
+    if (result.success) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.instructorAssignments() })
+    } else {
+      setError(result.error || "Something went wrong")
+    }
+  }
+
+  const initials = submission.studentName
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .slice(0, 2)
+    .toUpperCase()
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex items-center gap-3 min-w-0">
+            <Avatar className="h-9 w-9 shrink-0">
+              {submission.studentAvatarUrl && <AvatarImage src={submission.studentAvatarUrl} />}
+              <AvatarFallback className="text-xs">{initials}</AvatarFallback>
+            </Avatar>
+            <div className="min-w-0">
+              <p className="text-sm font-semibold truncate">{submission.studentName}</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {submission.lessonTitle} · {submission.courseTitle}
+              </p>
+            </div>
+          </div>
+          <div className="flex flex-col items-end gap-1 shrink-0">
+            {submission.score !== null && submission.status === "graded" && (
+              <span className="text-sm font-bold tabular-nums">
+                {submission.score}/{submission.maxScore}
+              </span>
+            )}
+            <Badge
+              variant={
+                submission.status === "submitted"
+                  ? "secondary"
+                  : submission.status === "graded"
+                    ? "default"
+                    : "outline"
+              }
+              className="capitalize"
+            >
+              {submission.status}
+            </Badge>
+          </div>
+        </div>
+
+        {submission.text && (
+          <div className="rounded-md border bg-muted/30 p-3 max-h-80 overflow-auto">
+            <RichTextContent content={submission.text} />
+          </div>
+        )}
+
+        {submission.attachments.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {submission.attachments.map((file) => (
+              <a
+                key={file.url}
+                href={file.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1.5 rounded-md border px-2.5 py-1.5 text-xs hover:bg-muted/50"
+              >
+                <HugeiconsIcon icon={Attachment01Icon} size={12} className="text-muted-foreground" />
+                <span className="max-w-48 truncate">{file.name}</span>
+              </a>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          <span>Submitted {new Date(submission.submittedAt).toLocaleDateString()}</span>
+          {submission.revision > 1 && <span>Revision {submission.revision}</span>}
+          {submission.gradedAt && (
+            <span>Reviewed {new Date(submission.gradedAt).toLocaleDateString()}</span>
+          )}
+        </div>
+
+        {/* Rubric */}
+        <div className="rounded-md border divide-y">
+          {submission.rubric.map((criterion) => {
+            const scored = scoredById.get(criterion.id)
+            return (
+              <div key={criterion.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                <div className="min-w-0">
+                  <p className="text-sm">{criterion.title}</p>
+                  {criterion.description && (
+                    <p className="text-xs text-muted-foreground">{criterion.description}</p>
+                  )}
+                </div>
+                {isPending ? (
+                  <div className="flex items-center gap-1.5 shrink-0">
+                    <Input
+                      type="number"
+                      min="0"
+                      max={criterion.maxPoints}
+                      className="w-16 h-8 text-xs"
+                      aria-label={`Score for ${criterion.title}`}
+                      value={scores[criterion.id] ?? ""}
+                      onChange={(e) =>
+                        setScores((prev) => ({ ...prev, [criterion.id]: e.target.value }))
+                      }
+                    />
+                    <span className="text-xs text-muted-foreground">/ {criterion.maxPoints}</span>
+                  </div>
+                ) : (
+                  <span className="text-xs text-muted-foreground tabular-nums shrink-0">
+                    {scored ? `${scored.score}/${scored.maxPoints}` : `— / ${criterion.maxPoints}`}
+                  </span>
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        {!isPending && submission.feedback && (
+          <p className="text-xs text-muted-foreground border-l-2 border-border pl-2 whitespace-pre-wrap">
+            {submission.feedback}
+          </p>
+        )}
+
+        {isPending && (
+          <div className="space-y-2 pt-1">
+            <Textarea
+              placeholder="Feedback for the student"
+              value={feedback}
+              onChange={(e) => setFeedback(e.target.value)}
+              maxLength={5000}
+              className="min-h-16"
+            />
+            {error && <p className="text-xs text-red-500">{error}</p>}
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs text-muted-foreground tabular-nums">
+                Total {draftTotal}/{maxScore}
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={submitting !== null}
+                  onClick={() => handleGrade("return")}
+                >
+                  {submitting === "return" ? "Returning..." : "Return for revision"}
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={submitting !== null}
+                  onClick={() => handleGrade("grade")}
+                >
+                  {submitting === "grade" ? "Grading..." : "Submit grade"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
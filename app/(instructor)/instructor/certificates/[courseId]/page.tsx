@@ -252,6 +252,24 @@ export default function CourseCertificatesPage() {
                             <HugeiconsIcon icon={Clock03Icon} size={12} />
                             {formatDate(cert.completedAt)}
                           </span>
+                          <Link
+                            href={`/verify/${cert.serialNumber}`}
+                            target="_blank"
+                            className="font-mono hover:text-foreground hover:underline"
+                          >
+                            {cert.serialNumber}
+                          </Link>
+                          {(["pdf", "png"] as const).map((format) => (
+                            <a
+                              key={format}
+                              href={`/api/certificates/${cert.serialNumber}/${format}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="uppercase hover:text-foreground hover:underline"
+                            >
+                              {format}
+                            </a>
+                          ))}
                         </div>
                       </div>
 
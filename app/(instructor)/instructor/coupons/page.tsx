@@ -0,0 +1,394 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Topbar } from "@/components/platform/topbar"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  ResponsiveModal,
+  ResponsiveModalContent,
+  ResponsiveModalHeader,
+  ResponsiveModalFooter,
+  ResponsiveModalTitle,
+  ResponsiveModalDescription,
+} from "@/components/ui/responsive-modal"
+import { HugeiconsIcon } from "@hugeicons/react"
+import { Add01Icon, Delete02Icon, DiscountTag01Icon } from "@hugeicons/core-free-icons"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { useInstructorCourses } from "@/lib/hooks/queries"
+import { queryKeys } from "@/lib/hooks/queries/keys"
+import {
+  getInstructorCoupons,
+  createCoupon,
+  setCouponActive,
+  deleteCoupon,
+  type CouponItem,
+} from "@/lib/actions/coupons"
+
+export default function InstructorCouponsPage() {
+  const [createOpen, setCreateOpen] = useState(false)
+
+  const { data: coupons = [], isLoading } = useQuery({
+    queryKey: queryKeys.instructorCoupons,
+    queryFn: () => getInstructorCoupons(),
+  })
+
+  return (
+    <>
+      <Topbar title="Coupons" variant="instructor" />
+      <div className="p-4 md:p-6 space-y-6 pb-24 md:pb-8">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <h1 className="text-xl font-bold">Coupons</h1>
+            <p className="text-sm text-muted-foreground">
+              Create discount codes for one course or all of your courses. Redemption stats
+              are on the Analytics page.
+            </p>
+          </div>
+          <Button size="sm" className="gap-1.5 shrink-0" onClick={() => setCreateOpen(true)}>
+            <HugeiconsIcon icon={Add01Icon} size={14} />
+            New coupon
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <Card key={i}>
+                <CardContent className="p-4 space-y-2">
+                  <Skeleton className="h-4 w-1/4" />
+                  <Skeleton className="h-3 w-1/2" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : coupons.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center">
+            <HugeiconsIcon icon={DiscountTag01Icon} size={48} className="text-muted-foreground/30 mb-4" />
+            <h3 className="font-semibold text-lg mb-1">No coupons yet</h3>
+            <p className="text-sm text-muted-foreground">
+              Coupons let students enter a code at checkout to get a discount.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {coupons.map((coupon) => (
+              <CouponCard key={coupon.id} coupon={coupon} />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <CreateCouponModal open={createOpen} onOpenChange={setCreateOpen} />
+    </>
+  )
+}
+
+function formatDiscount(coupon: Pick<CouponItem, "discountType" | "discountValue">) {
+  return coupon.discountType === "percent"
+    ? `${coupon.discountValue}% off`
+    : `$${coupon.discountValue.toFixed(2)} off`
+}
+
+function CouponCard({ coupon }: { coupon: CouponItem }) {
+  const queryClient = useQueryClient()
+  const [error, setError] = useState<string | null>(null)
+  const [isUpdating, setIsUpdating] = useState(false)
+
+  const expired = coupon.isExpired
+  const exhausted =
+    coupon.maxRedemptions !== null && coupon.redemptionCount >= coupon.maxRedemptions
+
+  async function handleToggle(isActive: boolean) {
+    setError(null)
+    setIsUpdating(true)
+    const result = await setCouponActive(coupon.id, isActive)
+    setIsUpdating(false)
+    if (result.success) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.instructorCoupons })
+    } else {
+      setError(result.error || "Something went wrong")
+    }
+  }
+
+  async function handleDelete() {
+    setError(null)
+    setIsUpdating(true)
+    const result = await deleteCoupon(coupon.id)
+    setIsUpdating(false)
+    if (result.success) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.instructorCoupons })
+    } else {
+      setError(result.error || "Something went wrong")
+    }
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-2">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0 space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-mono text-sm font-semibold">{coupon.code}</span>
+              <Badge variant="secondary">{formatDiscount(coupon)}</Badge>
+              {expired ? (
+                <Badge variant="destructive">Expired</Badge>
+              ) : exhausted ? (
+                <Badge variant="destructive">Used up</Badge>
+              ) : !coupon.isActive ? (
+                <Badge variant="outline">Inactive</Badge>
+              ) : null}
+            </div>
+            <p className="text-xs text-muted-foreground truncate">
+              {coupon.courseTitle ?? "All your courses"}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <Switch
+              checked={coupon.isActive}
+              disabled={isUpdating}
+              onCheckedChange={handleToggle}
+              aria-label="Active"
+            />
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              disabled={isUpdating}
+              onClick={handleDelete}
+              aria-label="Delete coupon"
+            >
+              <HugeiconsIcon icon={Delete02Icon} size={14} />
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          <span>
+            {coupon.redemptionCount}
+            {coupon.maxRedemptions !== null ? ` / ${coupon.maxRedemptions}` : ""} used
+          </span>
+          <span>
+            {coupon.maxRedemptionsPerUser} per student
+          </span>
+          <span>
+            {coupon.expiresAt
+              ? `${expired ? "Expired" : "Expires"} ${new Date(coupon.expiresAt).toLocaleDateString()}`
+              : "No expiry"}
+          </span>
+        </div>
+
+        {error && <p className="text-xs text-red-500">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
+
+function CreateCouponModal({
+  open,
+  onOpenChange,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}) {
+  const queryClient = useQueryClient()
+  const { data: courses = [] } = useInstructorCourses()
+  const paidCourses = courses.filter((c) => c.pricing === "paid")
+
+  const [code, setCode] = useState("")
+  const [courseId, setCourseId] = useState("all")
+  const [discountType, setDiscountType] = useState<"percent" | "fixed">("percent")
+  const [discountValue, setDiscountValue] = useState("")
+  const [expiresAt, setExpiresAt] = useState("")
+  const [maxRedemptions, setMaxRedemptions] = useState("")
+  const [maxPerUser, setMaxPerUser] = useState("1")
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const courseItems = [
+    { label: "All my courses", value: "all" },
+    ...paidCourses.map((c) => ({ label: c.title, value: c.id })),
+  ]
+  const typeItems = [
+    { label: "Percentage", value: "percent" },
+    { label: "Fixed amount", value: "fixed" },
+  ]
+
+  function reset() {
+    setCode("")
+    setCourseId("all")
+    setDiscountType("percent")
+    setDiscountValue("")
+    setExpiresAt("")
+    setMaxRedemptions("")
+    setMaxPerUser("1")
+    setError(null)
+  }
+
+  async function handleCreate() {
+    setError(null)
+    setIsSaving(true)
+    const result = await createCoupon({
+      code,
+      courseId: courseId === "all" ? null : courseId,
+      discountType,
+      discountValue: Number(discountValue),
+      // End of the chosen day, local time
+      expiresAt: expiresAt ? new Date(`${expiresAt}T23:59:59`).toISOString() : null,
+      maxRedemptions: maxRedemptions ? Number(maxRedemptions) : null,
+      maxRedemptionsPerUser: Number(maxPerUser) || 1,
+    })
+    setIsSaving(false)
+
+    if (result.success) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.instructorCoupons })
+      reset()
+      onOpenChange(false)
+    } else {
+      setError(result.error || "Something went wrong")
+    }
+  }
+
+  return (
+    <ResponsiveModal open={open} onOpenChange={onOpenChange}>
+      <ResponsiveModalContent>
+        <ResponsiveModalHeader>
+          <ResponsiveModalTitle>New coupon</ResponsiveModalTitle>
+          <ResponsiveModalDescription>
+            Students enter the code at checkout to get the discount.
+          </ResponsiveModalDescription>
+        </ResponsiveModalHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="coupon-code">Code</Label>
+            <Input
+              id="coupon-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              placeholder="SPRING25"
+              maxLength={32}
+              className="font-mono"
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>Applies to</Label>
+            <Select
+              items={courseItems}
+              value={courseId}
+              onValueChange={(v) => setCourseId((v as string | null) ?? "all")}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {courseItems.map((item) => (
+                  <SelectItem key={item.value} value={item.value}>
+                    {item.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label>Discount type</Label>
+              <Select
+                items={typeItems}
+                value={discountType}
+                onValueChange={(v) => setDiscountType((v ?? "percent") as "percent" | "fixed")}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {typeItems.map((item) => (
+                    <SelectItem key={item.value} value={item.value}>
+                      {item.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="coupon-value">
+                {discountType === "percent" ? "Percent off" : "Amount off (USD)"}
+              </Label>
+              <Input
+                id="coupon-value"
+                type="number"
+                min={0}
+                max={discountType === "percent" ? 100 : undefined}
+                step={discountType === "percent" ? 1 : 0.01}
+                value={discountValue}
+                onChange={(e) => setDiscountValue(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="coupon-expires">Expires</Label>
+              <Input
+                id="coupon-expires"
+                type="date"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="coupon-max">Total uses</Label>
+              <Input
+                id="coupon-max"
+                type="number"
+                min={1}
+                placeholder="Unlimited"
+                value={maxRedemptions}
+                onChange={(e) => setMaxRedemptions(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="coupon-per-user">Per student</Label>
+              <Input
+                id="coupon-per-user"
+                type="number"
+                min={1}
+                value={maxPerUser}
+                onChange={(e) => setMaxPerUser(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+
+        <ResponsiveModalFooter>
+          <Button variant="outline" size="sm" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleCreate}
+            disabled={isSaving || code.trim().length < 3 || !discountValue}
+          >
+            {isSaving ? "Creating..." : "Create coupon"}
+          </Button>
+        </ResponsiveModalFooter>
+      </ResponsiveModalContent>
+    </ResponsiveModal>
+  )
+}
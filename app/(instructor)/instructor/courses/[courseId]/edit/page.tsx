@@ -1,5 +1,7 @@
 import { notFound } from "next/navigation"
 import { fetchCourseForEdit } from "@/lib/actions/instructor"
+import { getCourseVersionState } from "@/lib/actions/course-versions"
+import { getCourseCaptions } from "@/lib/actions/captions"
 import { CourseEditor } from "@/components/instructor/course-editor"
 
 export default async function EditCoursePage({
@@ -8,7 +10,11 @@ export default async function EditCoursePage({
   params: Promise<{ courseId: string }>
 }) {
   const { courseId } = await params
-  const data = await fetchCourseForEdit(courseId)
+  const [data, versionState, captions] = await Promise.all([
+    fetchCourseForEdit(courseId),
+    getCourseVersionState(courseId),
+    getCourseCaptions(courseId),
+  ])
   
   if (!data) notFound()
 
@@ -23,6 +29,7 @@ export default async function EditCoursePage({
     price: data.course.price,
     status: data.course.status as "draft" | "published" | "archived",
     category: data.course.category,
+    certificateRules: data.course.certificateRules,
   }
 
   const lessons = data.lessons.map((l) => ({
@@ -30,14 +37,25 @@ export default async function EditCoursePage({
     courseId: courseId,
     title: l.title,
     description: l.description,
-    type: l.type as "video" | "live" | "text",
+    type: l.type as "video" | "live" | "text" | "quiz" | "assignment" | "scorm",
     videoUrl: l.videoUrl,
     thumbnailUrl: l.thumbnailUrl,
     content: l.content,
     duration: l.duration,
     order: 0, // Not used in form
     isFree: l.isFree,
+    quiz: l.quiz,
+    assignment: l.assignment,
+    scorm: l.scorm,
+    release: l.release,
   }))
 
-  return <CourseEditor course={course} existingLessons={lessons} />
+  return (
+    <CourseEditor
+      course={course}
+      existingLessons={lessons}
+      versionState={versionState}
+      captions={captions}
+    />
+  )
 }
@@ -5,7 +5,11 @@ import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { Topbar } from "@/components/platform/topbar"
 import { fetchCourseForEdit } from "@/lib/actions/instructor"
+import { getCourseQuizStats } from "@/lib/actions/quizzes"
+import { getCourseVersionState } from "@/lib/actions/course-versions"
+import { getCurrentUser } from "@/lib/auth"
 import { LessonManager } from "@/components/instructor/lesson-manager"
+import { CourseVersionBar } from "@/components/instructor/course-version-bar"
 import { HugeiconsIcon } from "@hugeicons/react"
 import { ArrowLeft01Icon, Edit01Icon } from "@hugeicons/core-free-icons"
 
@@ -15,11 +19,16 @@ export default async function CourseLessonsPage({
   params: Promise<{ courseId: string }>
 }) {
   const { courseId } = await params
-  const data = await fetchCourseForEdit(courseId)
+  const [data, quizStats, currentUser, versionState] = await Promise.all([
+    fetchCourseForEdit(courseId),
+    getCourseQuizStats(courseId),
+    getCurrentUser(),
+    getCourseVersionState(courseId),
+  ])
   
-  if (!data) notFound()
+  if (!data || !currentUser) notFound()
 
-  const { course, lessons: rawLessons } = data
+  const { course, lessons: rawLessons, sections } = data
   
   // Transform lessons to match expected format
   const lessons = rawLessons.map((l, idx) => ({
@@ -27,13 +36,17 @@ export default async function CourseLessonsPage({
     courseId: courseId,
     title: l.title,
     description: l.description,
-    type: l.type as "video" | "live" | "text",
+    type: l.type as "video" | "live" | "text" | "quiz" | "assignment" | "scorm",
     videoUrl: l.videoUrl,
     thumbnailUrl: l.thumbnailUrl ?? null,
     content: l.content,
     duration: l.duration,
     order: idx,
     isFree: l.isFree,
+    quiz: l.quiz,
+    assignment: l.assignment,
+    scorm: l.scorm,
+    sectionId: l.sectionId,
   }))
 
   return (
@@ -83,10 +96,18 @@ export default async function CourseLessonsPage({
           </Button>
         </div>
 
+        {versionState && <CourseVersionBar courseId={courseId} state={versionState} />}
+
         <Separator />
 
         {/* Lesson Manager */}
-        <LessonManager courseId={courseId} lessons={lessons} />
+        <LessonManager
+          courseId={courseId}
+          instructorId={currentUser.id}
+          lessons={lessons}
+          sections={sections}
+          quizStats={quizStats}
+        />
       </div>
     </>
   )
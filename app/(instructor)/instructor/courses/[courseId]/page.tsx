@@ -11,6 +11,7 @@ import {
   Edit01Icon,
   ArrowLeft01Icon,
   Delete01Icon,
+  Download01Icon,
 } from "@hugeicons/core-free-icons"
 import { deleteCourse, fetchCourseForEdit } from "@/lib/actions/instructor"
 
@@ -226,6 +227,14 @@ export default async function InstructorCourseInfoPage({
                     <HugeiconsIcon icon={Edit01Icon} size={16} />
                     Edit Course
                   </Button>
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    render={<a href={`/api/courses/${course.id}/export`} download />}
+                  >
+                    <HugeiconsIcon icon={Download01Icon} size={16} />
+                    Export Course
+                  </Button>
                   <form action={deleteCourse} className="w-full">
                     <input type="hidden" name="courseId" value={course.id} />
                     <Button
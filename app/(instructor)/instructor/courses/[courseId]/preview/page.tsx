@@ -0,0 +1,131 @@
+import Link from "next/link"
+import Image from "next/image"
+import { notFound } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Separator } from "@/components/ui/separator"
+import { Topbar } from "@/components/platform/topbar"
+import { LessonPreviewAccordion } from "@/components/courses/lesson-preview-accordion"
+import { getCourseDraftPreview } from "@/lib/actions/course-versions"
+import { HugeiconsIcon } from "@hugeicons/react"
+import { ArrowLeft01Icon, Edit01Icon } from "@hugeicons/core-free-icons"
+
+export default async function CoursePreviewPage({
+  params,
+}: {
+  params: Promise<{ courseId: string }>
+}) {
+  const { courseId } = await params
+  const course = await getCourseDraftPreview(courseId)
+
+  if (!course) notFound()
+
+  const totalMins = course.lessons.reduce((sum, l) => sum + (l.duration ?? 0), 0)
+
+  return (
+    <>
+      <Topbar
+        title="Preview"
+        variant="instructor"
+        breadcrumbOverrides={{ [courseId]: course.title }}
+      />
+      <div className="p-6 space-y-6 max-w-4xl">
+        {/* Header */}
+        <div className="flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="sm"
+            render={<Link href={`/instructor/courses/${courseId}/edit`} />}
+          >
+            <HugeiconsIcon icon={ArrowLeft01Icon} size={16} />
+            Back
+          </Button>
+          <Separator orientation="vertical" className="!h-4" />
+          <p className="flex-1 min-w-0 text-xs text-muted-foreground">
+            {course.hasDraft
+              ? "Your draft, as students will see it once you publish. Every lesson opens here."
+              : "No unpublished changes — this is the live course. Every lesson opens here."}
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            render={<Link href={`/instructor/courses/${courseId}/lessons`} />}
+          >
+            <HugeiconsIcon icon={Edit01Icon} size={14} />
+            Manage Lessons
+          </Button>
+        </div>
+
+        {/* Thumbnail */}
+        <div className="aspect-[21/9] w-full rounded-xl bg-muted relative overflow-hidden">
+          {course.thumbnailUrl ? (
+            <Image
+              src={course.thumbnailUrl}
+              alt={course.title}
+              fill
+              className="object-cover"
+              sizes="(max-width: 896px) 100vw, 896px"
+            />
+          ) : (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <span className="text-muted-foreground">Course Thumbnail</span>
+            </div>
+          )}
+        </div>
+
+        {/* Title & Badges */}
+        <div className="space-y-3">
+          <div className="flex items-center gap-2 flex-wrap">
+            {course.hasDraft && (
+              <Badge variant="secondary" className="text-xs">
+                Draft
+              </Badge>
+            )}
+            <Badge variant="secondary" className="capitalize text-xs">
+              {course.level}
+            </Badge>
+            {course.pricing === "free" ? (
+              <Badge className="text-xs">Free</Badge>
+            ) : (
+              <Badge variant="outline" className="text-xs">
+                ${course.price}
+              </Badge>
+            )}
+            {course.category && (
+              <Badge variant="outline" className="text-xs">
+                {course.category}
+              </Badge>
+            )}
+          </div>
+          <h1 className="text-2xl font-bold">{course.title}</h1>
+          <p className="text-sm text-muted-foreground leading-relaxed">{course.description}</p>
+        </div>
+
+        <Separator />
+
+        {/* Curriculum */}
+        <div>
+          <h2 className="font-semibold text-base mb-4">
+            Curriculum
+            <span className="text-muted-foreground font-normal ml-2 text-sm">
+              {course.lessons.length} {course.lessons.length === 1 ? "lesson" : "lessons"}
+              {totalMins > 0 && ` · ${totalMins}min`}
+            </span>
+          </h2>
+          {course.lessons.length > 0 ? (
+            <LessonPreviewAccordion
+              sections={course.sections}
+              lessons={course.lessons}
+              courseId={course.id}
+              coursePricing={course.pricing}
+              coursePrice={course.price}
+              previewAll
+            />
+          ) : (
+            <p className="text-sm text-muted-foreground py-4 text-center">No lessons yet.</p>
+          )}
+        </div>
+      </div>
+    </>
+  )
+}
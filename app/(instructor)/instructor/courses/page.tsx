@@ -18,6 +18,7 @@ import {
 import { type InstructorCourseItem } from "@/lib/actions/instructor"
 import { useInstructorCourses } from "@/lib/hooks/queries"
 import { InstructorCoursesPageSkeleton } from "@/components/skeletons/course-skeletons"
+import { ImportCourseDialog } from "@/components/instructor/import-course-dialog"
 import { HugeiconsIcon } from "@hugeicons/react"
 import {
   Add01Icon,
@@ -50,9 +51,26 @@ function CourseCard({
               <span className="text-muted-foreground/40 text-xs">No thumbnail</span>
             </div>
           )}
-          <Badge className="absolute top-2 left-2 text-[10px] shadow-sm" variant={badge.variant}>
-            {badge.label}
-          </Badge>
+          <div className="absolute top-2 left-2 flex gap-1">
+            <Badge className="text-[10px] shadow-sm" variant={badge.variant}>
+              {badge.label}
+            </Badge>
+            {course.status === "draft" && course.approvalStatus === "pending" && (
+              <Badge className="text-[10px] shadow-sm" variant="secondary">
+                Awaiting approval
+              </Badge>
+            )}
+            {course.status === "draft" && course.approvalStatus === "rejected" && (
+              <Badge className="text-[10px] shadow-sm" variant="destructive">
+                Changes requested
+              </Badge>
+            )}
+            {course.forceArchived && (
+              <Badge className="text-[10px] shadow-sm" variant="destructive">
+                Archived by admin
+              </Badge>
+            )}
+          </div>
         </div>
         <CardContent className="p-3.5 space-y-1.5">
           <h3 className="text-sm font-semibold truncate group-hover:text-primary transition-colors">
@@ -122,10 +140,13 @@ export default function InstructorCoursesPage() {
               {totalStudents.toLocaleString()} students
             </p>
           </div>
-          <Button render={<Link href="/instructor/courses/new" />} className="hidden md:inline-flex">
-            <HugeiconsIcon icon={Add01Icon} size={16} />
-            New Course
-          </Button>
+          <div className="flex items-center gap-2">
+            <ImportCourseDialog />
+            <Button render={<Link href="/instructor/courses/new" />} className="hidden md:inline-flex">
+              <HugeiconsIcon icon={Add01Icon} size={16} />
+              New Course
+            </Button>
+          </div>
         </div>
 
         {/* Search */}
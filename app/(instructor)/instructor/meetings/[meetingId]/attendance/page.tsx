@@ -0,0 +1,309 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { HugeiconsIcon } from "@hugeicons/react"
+import {
+  ArrowLeft01Icon,
+  Clock03Icon,
+  Download01Icon,
+  Tick02Icon,
+  UserGroupIcon,
+  Video01Icon,
+} from "@hugeicons/core-free-icons"
+import { Topbar } from "@/components/platform/topbar"
+import { Card, CardContent } from "@/components/ui/card"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { countAttendanceTowardLesson, getMeetingAttendance } from "@/lib/actions/meetings"
+import type { AttendanceReport } from "@/lib/meeting-attendance"
+
+const NO_LESSON = "none"
+
+function formatDateTime(date: string) {
+  return new Date(date).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  })
+}
+
+export default function MeetingAttendancePage() {
+  const params = useParams()
+  const meetingId = params.meetingId as string
+  const queryClient = useQueryClient()
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["instructor", "meeting-attendance", meetingId],
+    queryFn: () => getMeetingAttendance(meetingId),
+  })
+  const report = data?.report
+
+  const attended = report?.records.filter((r) => r.joinCount > 0) ?? []
+  const enrolledCount = report?.records.filter((r) => r.enrolled).length ?? 0
+  const enrolledAttended = attended.filter((r) => r.enrolled).length
+  const averageMinutes = attended.length
+    ? Math.round(attended.reduce((sum, r) => sum + r.attendedMinutes, 0) / attended.length)
+    : 0
+
+  const stats = [
+    { label: "Attended", value: attended.length, icon: UserGroupIcon, tone: "bg-primary/10 text-primary" },
+    {
+      label: "Enrolled students",
+      value: enrolledCount ? `${enrolledAttended}/${enrolledCount}` : "—",
+      icon: Tick02Icon,
+      tone: "bg-emerald-500/10 text-emerald-600",
+    },
+    { label: "Average minutes", value: averageMinutes, icon: Clock03Icon, tone: "bg-amber-500/10 text-amber-600" },
+  ]
+
+  return (
+    <>
+      <Topbar title="Meeting Attendance" variant="instructor" />
+      <div className="p-4 md:p-6 space-y-6 pb-24 md:pb-8">
+        {/* Header */}
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <div className="space-y-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              render={<Link href="/instructor/meetings" />}
+              className="gap-1.5 -ml-3"
+            >
+              <HugeiconsIcon icon={ArrowLeft01Icon} size={14} />
+              Back
+            </Button>
+            <h1 className="text-xl font-bold">{report?.title ?? "Attendance"}</h1>
+            {report && (
+              <p className="text-sm text-muted-foreground">
+                {report.courseTitle}
+                {report.startedAt && ` · ${formatDateTime(report.startedAt)}`}
+                {report.durationMinutes !== null && ` · ${report.durationMinutes} min`}
+                {report.status !== "ended" && " · in progress"}
+              </p>
+            )}
+          </div>
+          {report && (
+            <Button
+              variant="outline"
+              size="sm"
+              render={<a href={`/api/meetings/${meetingId}/attendance`} download />}
+              className="gap-1.5"
+            >
+              <HugeiconsIcon icon={Download01Icon} size={14} />
+              Export CSV
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <Card key={i}>
+                <CardContent className="p-4 flex items-center gap-4">
+                  <Skeleton className="h-10 w-10 rounded-full" />
+                  <div className="flex-1 space-y-2">
+                    <Skeleton className="h-4 w-40" />
+                    <Skeleton className="h-3 w-24" />
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : !report ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center">
+            <HugeiconsIcon icon={Video01Icon} size={48} className="text-muted-foreground/30 mb-4" />
+            <h3 className="font-semibold text-lg mb-1">No attendance report</h3>
+            <p className="text-sm text-muted-foreground">
+              Attendance reports are kept for meetings started from one of your courses.
+            </p>
+          </div>
+        ) : (
+          <>
+            {/* Stats */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {stats.map((stat) => (
+                <Card key={stat.label}>
+                  <CardContent className="p-4">
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-1">
+                        <p className="text-xs text-muted-foreground">{stat.label}</p>
+                        <p className="text-2xl font-bold">{stat.value}</p>
+                      </div>
+                      <div className={`flex h-10 w-10 shrink-0 items-center justify-center rounded-full ${stat.tone}`}>
+                        <HugeiconsIcon icon={stat.icon} size={20} />
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <LiveLessonCredit
+              meetingId={meetingId}
+              report={report}
+              onSaved={() =>
+                queryClient.invalidateQueries({ queryKey: ["instructor", "meeting-attendance", meetingId] })
+              }
+            />
+
+            {/* Attendees */}
+            {report.records.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No one has joined yet.</p>
+            ) : (
+              <Card>
+                <CardContent className="p-0 divide-y">
+                  {report.records.map((record) => (
+                    <div key={record.userId} className="flex items-center gap-3 px-4 py-3">
+                      <Avatar className="h-9 w-9">
+                        {record.avatar && <AvatarImage src={record.avatar} alt={record.name} />}
+                        <AvatarFallback className="bg-primary/10 text-primary text-xs">
+                          {record.name
+                            .split(" ")
+                            .map((n) => n[0])
+                            .join("")
+                            .toUpperCase()
+                            .slice(0, 2)}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">
+                          {record.name}
+                          {!record.enrolled && (
+                            <span className="ml-2 text-[10px] font-normal text-muted-foreground uppercase tracking-wider">
+                              Not enrolled
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {record.joinCount === 0
+                            ? "Didn't attend"
+                            : `${record.firstJoinedAt ? formatDateTime(record.firstJoinedAt) : ""}${
+                                record.joinCount > 1 ? ` · joined ${record.joinCount} times` : ""
+                              }`}
+                        </p>
+                      </div>
+                      <span
+                        className={`text-sm font-semibold tabular-nums ${
+                          record.joinCount === 0 ? "text-muted-foreground/50" : ""
+                        }`}
+                      >
+                        {record.attendedMinutes} min
+                      </span>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </>
+  )
+}
+
+/* ── Count attendance toward a live lesson ── */
+
+function LiveLessonCredit({
+  meetingId,
+  report,
+  onSaved,
+}: {
+  meetingId: string
+  report: AttendanceReport
+  onSaved: () => void
+}) {
+  const [lessonId, setLessonId] = useState(report.attendanceLesson?.lessonId ?? NO_LESSON)
+  const [minMinutes, setMinMinutes] = useState(String(report.attendanceLesson?.minMinutes ?? 30))
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null)
+
+  if (report.liveLessons.length === 0) return null
+
+  const lessonItems = [
+    { value: NO_LESSON, label: "Don't count attendance" },
+    ...report.liveLessons.map((l) => ({ value: l.id, label: l.title })),
+  ]
+
+  async function handleSave() {
+    setIsSaving(true)
+    setMessage(null)
+    const result = await countAttendanceTowardLesson(
+      meetingId,
+      lessonId === NO_LESSON ? null : lessonId,
+      Number(minMinutes)
+    )
+    setIsSaving(false)
+    if (!result.success) {
+      setMessage({ ok: false, text: result.error || "Something went wrong" })
+      return
+    }
+    setMessage({
+      ok: true,
+      text:
+        lessonId === NO_LESSON
+          ? "Attendance no longer counts toward a lesson"
+          : `Lesson completed for ${result.credited ?? 0} student${result.credited === 1 ? "" : "s"}`,
+    })
+    onSaved()
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="space-y-1">
+          <h2 className="text-sm font-semibold">Count toward a live lesson</h2>
+          <p className="text-xs text-muted-foreground">
+            Enrolled students who attend for at least the minimum complete the lesson in their
+            course progress. Anyone still in the meeting gets credit when it ends.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select items={lessonItems} value={lessonId} onValueChange={(v) => setLessonId((v as string | null) ?? NO_LESSON)}>
+            <SelectTrigger size="sm" className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {lessonItems.map((item) => (
+                <SelectItem key={item.value} value={item.value}>
+                  {item.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {lessonId !== NO_LESSON && (
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={1}
+                max={600}
+                value={minMinutes}
+                onChange={(e) => setMinMinutes(e.target.value)}
+                className="h-8 w-20 text-sm"
+              />
+              <span className="text-xs text-muted-foreground">min minimum</span>
+            </div>
+          )}
+          <Button size="sm" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </div>
+        {message && (
+          <p className={`text-xs ${message.ok ? "text-emerald-600" : "text-destructive"}`}>{message.text}</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
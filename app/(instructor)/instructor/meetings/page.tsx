@@ -15,7 +15,7 @@ import { cn } from "@/lib/utils"
 import { rtkClient } from "@/lib/rtk-client"
 import { useUser } from "@/components/providers/user-provider"
 import { useMeeting } from "@/components/providers/meeting-provider"
-import type { MeetingEventPayload } from "@/lib/call-events"
+import type { BreakoutRoomState, MeetingEventPayload } from "@/lib/call-events"
 import {
   createMeeting,
   joinMeeting,
@@ -30,6 +30,19 @@ import {
   sendMeetingChat,
   createMeetingPoll,
   voteMeetingPoll,
+  getMeetingActivity,
+  askMeetingQuestion,
+  toggleQuestionUpvote,
+  markQuestionAnswered,
+  startMeetingRecording,
+  stopMeetingRecording,
+  getMeetingRecordingState,
+  publishRecordingAsLesson,
+  openBreakoutRooms,
+  getBreakoutRooms,
+  switchBreakoutRoom,
+  broadcastToBreakoutRooms,
+  closeBreakoutRooms,
   muteParticipant,
   toggleScreenSharePermission,
   deleteMeetingHistory,
@@ -43,6 +56,7 @@ import {
   type MeetingParticipantDetails,
   type MeetingHistoryEntry,
   type MeetingRole,
+  type BreakoutAssignment,
 } from "@/lib/actions/meetings"
 import {
   playMeetingCreating,
@@ -69,9 +83,13 @@ import {
   ActiveMeetingsList,
   MeetingHistory,
   ReturnToMeetingBanner,
+  ScheduleMeetingModal,
+  UpcomingMeetingsList,
+  BreakoutBanner,
+  BreakoutRoomsModal,
 } from "@/components/meetings"
-import type { ActiveTab, ChatMessage, Poll, PollVoter } from "@/components/meetings"
-import { useMyMeetings, useMeetingHistory, useInstructorMeetingCourses, queryKeys } from "@/lib/hooks/queries"
+import type { ActiveTab, ChatMessage, Poll, PollVoter, Question } from "@/components/meetings"
+import { useMyMeetings, useMeetingHistory, useUpcomingMeetings, useInstructorMeetingCourses, queryKeys } from "@/lib/hooks/queries"
 import {
   InstructorInviteDialog,
   CourseMeetingCards,
@@ -88,10 +106,18 @@ import {
  */
 
 const TILES_PER_PAGE = 4
+// How long after a breakout timer runs out attendees close the rooms themselves
+const BREAKOUT_CLOSE_GRACE_MS = 5000
 const MEETINGS_PATH = "/instructor/meetings"
 
 type ScreenSharer = { id: string; name: string; isLocal: boolean }
 
+/** Backlog entries followed by live ones, skipping backlog items already received live */
+function mergeById<T extends { id: string }>(backlog: T[], live: T[]) {
+  const liveIds = new Set(live.map((item) => item.id))
+  return [...backlog.filter((item) => !liveIds.has(item.id)), ...live]
+}
+
 export default function InstructorMeetingsPage() {
   const user = useUser()
   const searchParams = useSearchParams()
@@ -103,7 +129,9 @@ export default function InstructorMeetingsPage() {
   const queryClient = useQueryClient()
   const { data: meetings = [], isLoading: isLoadingMeetings } = useMyMeetings()
   const { data: meetingHistory = [], isLoading: isLoadingHistory } = useMeetingHistory()
+  const { data: upcomingMeetings = [], isLoading: isLoadingUpcoming } = useUpcomingMeetings()
   const [showCreate, setShowCreate] = useState(false)
+  const [showSchedule, setShowSchedule] = useState(false)
 
   const [activeMeeting, setActiveMeeting] = useState<MeetingWithDetails | null>(null)
   const [isMuted, setIsMuted] = useState(false)
@@ -139,6 +167,19 @@ export default function InstructorMeetingsPage() {
   const [pollOptions, setPollOptions] = useState(["", ""])
   const [myVotes, setMyVotes] = useState<Set<string>>(new Set())
 
+  const [questions, setQuestions] = useState<Question[]>([])
+
+  const [isRecording, setIsRecording] = useState(false)
+  const [isRecordingBusy, setIsRecordingBusy] = useState(false)
+
+  const [breakoutRooms, setBreakoutRooms] = useState<BreakoutRoomState[]>([])
+  const [breakoutEndsAt, setBreakoutEndsAt] = useState<string | null>(null)
+  // The breakout room our RTK connection is in — null for the main room
+  const [currentRoomId, setCurrentRoomId] = useState<string | null>(null)
+  const [isSwitchingRoom, setIsSwitchingRoom] = useState(false)
+  const [breakoutNotice, setBreakoutNotice] = useState<{ from: string; message: string } | null>(null)
+  const [showBreakoutRooms, setShowBreakoutRooms] = useState(false)
+
   const [isLoudspeaker, setIsLoudspeaker] = useState(true)
   const [screenSharePermissions, setScreenSharePermissions] = useState<Map<string, boolean>>(new Map())
   const [showMeetingEnded, setShowMeetingEnded] = useState<{ title: string; duration: string; reason: "ended" | "left" | "kicked" } | null>(null)
@@ -223,6 +264,11 @@ export default function InstructorMeetingsPage() {
   myRoleRef.current = myRole
   const admittedParticipantsRef = useRef(admittedParticipants)
   admittedParticipantsRef.current = admittedParticipants
+  const currentRoomIdRef = useRef(currentRoomId)
+  currentRoomIdRef.current = currentRoomId
+  const isSwitchingRoomRef = useRef(false)
+  // A room move asked for while another was in progress — the latest one wins
+  const nextRoomRef = useRef<{ roomId: string | null; label: string } | null>(null)
   const joinRTKRef = useRef<(authToken: string, meetingId?: string, meetingTitle?: string) => Promise<void>>(async () => {})
 
   /* ── EFFECTS ── */
@@ -282,6 +328,51 @@ export default function InstructorMeetingsPage() {
     if (activeTab === "chat") setUnreadChat(0)
   }, [chatMessages.length, activeTab])
 
+  // Once in the meeting, load the chat, polls and Q&A from before we joined,
+  // whether it's being recorded and any open breakout rooms
+  const joinedMeetingId = isJoined ? activeMeeting?.id : undefined
+  useEffect(() => {
+    if (!joinedMeetingId) return
+    let cancelled = false
+    getMeetingActivity(joinedMeetingId).then((result) => {
+      if (cancelled || !result.success) return
+      const backlogPolls = result.polls ?? []
+      setChatMessages((prev) => mergeById(result.messages ?? [], prev))
+      setPolls((prev) =>
+        mergeById(
+          backlogPolls.map((poll) => ({
+            id: poll.id,
+            question: poll.question,
+            options: poll.options,
+            votes: poll.votes,
+            voters: new Set(Object.values(poll.voterDetails).flat().map((v) => v.userId)),
+            voterDetails: poll.voterDetails,
+            createdBy: poll.createdBy,
+            createdByName: poll.createdByName,
+          })),
+          prev
+        )
+      )
+      setMyVotes((prev) => {
+        const next = new Set(prev)
+        for (const poll of backlogPolls) if (poll.myVote !== null) next.add(poll.id)
+        return next
+      })
+      setQuestions((prev) => mergeById(result.questions ?? [], prev))
+    })
+    getMeetingRecordingState(joinedMeetingId).then((result) => {
+      if (!cancelled && result.success) setIsRecording(!!result.isRecording)
+    })
+    getBreakoutRooms(joinedMeetingId).then((result) => {
+      if (cancelled || !result.success) return
+      setBreakoutRooms(result.rooms ?? [])
+      setBreakoutEndsAt(result.endsAt ?? null)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [joinedMeetingId])
+
   /* ── SSE listener ── */
   useEffect(() => {
     function handleSSE(evt: Event) {
@@ -395,9 +486,10 @@ export default function InstructorMeetingsPage() {
             setPolls((prev) =>
               prev.map((p) => {
                 if (p.id !== e.pollId) return p
+                // Tallies are the poll's totals and only grow, so out-of-order events can't undercount
                 const newVotes = { ...p.votes }
                 for (const [key, val] of Object.entries(e.pollVotes!))
-                  newVotes[key] = (newVotes[key] || 0) + val
+                  newVotes[key] = Math.max(newVotes[key] || 0, val)
                 const newVoters = new Set(p.voters)
                 newVoters.add(e.userId)
                 
@@ -424,6 +516,61 @@ export default function InstructorMeetingsPage() {
             )
           }
           break
+        case "meeting:question":
+          if (e.questionId && e.questionText) {
+            setQuestions((prev) => {
+              if (prev.some((q) => q.id === e.questionId)) return prev
+              return [
+                ...prev,
+                {
+                  id: e.questionId!,
+                  userId: e.userId,
+                  userName: e.userName,
+                  userAvatar: e.userAvatar,
+                  text: e.questionText!,
+                  upvotes: e.questionUpvotes ?? 0,
+                  upvotedByMe: false,
+                  answered: e.questionAnswered ?? false,
+                  timestamp: Date.now(),
+                },
+              ]
+            })
+          }
+          break
+        case "meeting:question-update":
+          if (e.questionId) {
+            setQuestions((prev) =>
+              prev.map((q) =>
+                q.id === e.questionId
+                  ? { ...q, upvotes: e.questionUpvotes ?? q.upvotes, answered: e.questionAnswered ?? q.answered }
+                  : q
+              )
+            )
+          }
+          break
+        case "meeting:recording-started":
+          setIsRecording(true)
+          break
+        case "meeting:recording-stopped":
+          setIsRecording(false)
+          break
+        case "meeting:breakout-opened": {
+          const rooms = e.breakoutRooms ?? []
+          setBreakoutRooms(rooms)
+          setBreakoutEndsAt(e.breakoutEndsAt ?? null)
+          const myRoom = rooms.find((r) => r.participantIds.includes(user.id))
+          if (myRoom) moveToRoom(myRoom.id, myRoom.name)
+          break
+        }
+        case "meeting:breakout-broadcast":
+          if (e.breakoutMessage) setBreakoutNotice({ from: e.userName, message: e.breakoutMessage })
+          break
+        case "meeting:breakout-closed":
+          setBreakoutRooms([])
+          setBreakoutEndsAt(null)
+          setBreakoutNotice(null)
+          if (currentRoomIdRef.current) moveToRoom(null, "Main room")
+          break
         case "meeting:mute-participant": {
           const muteType = (e as MeetingEventPayload & { muteType?: string }).muteType || "audio"
           if (muteType === "audio") {
@@ -678,7 +825,7 @@ export default function InstructorMeetingsPage() {
       rtkClient.off("screenShareUpdate", "self", handleSelfScreenShareUpdate)
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isJoined])
+  }, [isJoined, currentRoomId])
 
   /* ── LOCAL AUDIO LEVEL DETECTION (local-only, no server round trips) ── */
   useEffect(() => {
@@ -907,6 +1054,18 @@ export default function InstructorMeetingsPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
+  // Breakout rooms close when their timer runs out — the host's page does
+  // it, and everyone else's a little later in case the host has left
+  useEffect(() => {
+    if (!breakoutEndsAt) return
+    const timeout = setTimeout(
+      () => handleCloseBreakoutRooms(),
+      Math.max(0, new Date(breakoutEndsAt).getTime() - Date.now()) + (isHost ? 0 : BREAKOUT_CLOSE_GRACE_MS)
+    )
+    return () => clearTimeout(timeout)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isHost, breakoutEndsAt])
+
   async function handleCreate(title: string) {
     setShowCreate(false)
     setSetupMessage("Setting up your meeting...")
@@ -1028,6 +1187,12 @@ export default function InstructorMeetingsPage() {
     }
   }
 
+  async function handleJoinUpcoming(meetingId: string) {
+    await handleJoinByLink(meetingId)
+    queryClient.invalidateQueries({ queryKey: queryKeys.upcomingMeetings })
+    queryClient.invalidateQueries({ queryKey: queryKeys.meetings })
+  }
+
   async function handleRejoin(meeting: MeetingWithDetails) {
     setSetupMessage("Connecting...")
     const result = await joinMeeting(meeting.id)
@@ -1100,6 +1265,14 @@ export default function InstructorMeetingsPage() {
     setPolls([])
     setShowCreatePoll(false)
     setMyVotes(new Set())
+    setQuestions([])
+    setIsRecording(false)
+    setBreakoutRooms([])
+    setBreakoutEndsAt(null)
+    setCurrentRoomId(null)
+    setBreakoutNotice(null)
+    setShowBreakoutRooms(false)
+    nextRoomRef.current = null
     setScreenSharePermissions(new Map())
     setSpeakingLevels(new Map())
     setMySpeakingLevel(0)
@@ -1262,11 +1435,12 @@ export default function InstructorMeetingsPage() {
   async function handleSendChat() {
     if (!activeMeeting || !chatInput.trim()) return
     const msg = chatInput.trim()
+    const tempId = `${Date.now()}-${user.id}`
     setChatInput("")
     setChatMessages((prev) => [
       ...prev,
       {
-        id: `${Date.now()}-${user.id}`,
+        id: tempId,
         userId: user.id,
         userName: `${user.firstName} ${user.lastName}`,
         userAvatar: user.avatarUrl,
@@ -1274,18 +1448,22 @@ export default function InstructorMeetingsPage() {
         timestamp: Date.now(),
       },
     ])
-    await sendMeetingChat(activeMeeting.id, msg)
+    const result = await sendMeetingChat(activeMeeting.id, msg)
+    if (result.success && result.messageId) {
+      const messageId = result.messageId
+      setChatMessages((prev) => prev.map((m) => (m.id === tempId ? { ...m, id: messageId } : m)))
+    }
   }
 
   async function handleCreatePoll() {
     if (!activeMeeting || !pollQuestion.trim() || pollOptions.filter((o) => o.trim()).length < 2)
       return
     const opts = pollOptions.filter((o) => o.trim())
-    const pollId = `poll-${Date.now()}-${user.id}`
+    const tempId = `poll-${Date.now()}-${user.id}`
     setPolls((prev) => [
       ...prev,
       {
-        id: pollId,
+        id: tempId,
         question: pollQuestion,
         options: opts,
         votes: Object.fromEntries(opts.map((_, i) => [String(i), 0])),
@@ -1299,7 +1477,13 @@ export default function InstructorMeetingsPage() {
     const q = pollQuestion
     setPollQuestion("")
     setPollOptions(["", ""])
-    await createMeetingPoll(activeMeeting.id, q, opts, undefined, pollId)
+    const result = await createMeetingPoll(activeMeeting.id, q, opts)
+    const pollId = result.success ? result.pollId : undefined
+    setPolls((prev) =>
+      pollId
+        ? prev.map((p) => (p.id === tempId ? { ...p, id: pollId } : p))
+        : prev.filter((p) => p.id !== tempId)
+    )
   }
 
   async function handleVotePoll(pollId: string, optionIndex: number) {
@@ -1331,7 +1515,145 @@ export default function InstructorMeetingsPage() {
         return { ...p, votes: newVotes, voters: newVoters, voterDetails: newVoterDetails }
       })
     )
-    await voteMeetingPoll(activeMeeting.id, pollId, optionIndex)
+    const result = await voteMeetingPoll(activeMeeting.id, pollId, optionIndex)
+    if (result.success && result.votes) {
+      const votes = result.votes
+      setPolls((prev) => prev.map((p) => (p.id === pollId ? { ...p, votes } : p)))
+    }
+  }
+
+  async function handleAskQuestion(text: string) {
+    if (!activeMeeting) return
+    const tempId = `question-${Date.now()}-${user.id}`
+    setQuestions((prev) => [
+      ...prev,
+      {
+        id: tempId,
+        userId: user.id,
+        userName: `${user.firstName} ${user.lastName}`,
+        userAvatar: user.avatarUrl,
+        text,
+        upvotes: 0,
+        upvotedByMe: false,
+        answered: false,
+        timestamp: Date.now(),
+      },
+    ])
+    const result = await askMeetingQuestion(activeMeeting.id, text)
+    const questionId = result.success ? result.questionId : undefined
+    setQuestions((prev) =>
+      questionId
+        ? prev.map((q) => (q.id === tempId ? { ...q, id: questionId } : q))
+        : prev.filter((q) => q.id !== tempId)
+    )
+  }
+
+  async function handleUpvoteQuestion(questionId: string) {
+    const question = questions.find((q) => q.id === questionId)
+    if (!activeMeeting || !question) return
+    const upvoted = !question.upvotedByMe
+    setQuestions((prev) =>
+      prev.map((q) =>
+        q.id === questionId ? { ...q, upvotedByMe: upvoted, upvotes: q.upvotes + (upvoted ? 1 : -1) } : q
+      )
+    )
+    const result = await toggleQuestionUpvote(activeMeeting.id, questionId, upvoted)
+    if (result.success && result.upvotes !== undefined) {
+      const upvotes = result.upvotes
+      setQuestions((prev) => prev.map((q) => (q.id === questionId ? { ...q, upvotes } : q)))
+    }
+  }
+
+  async function handleMarkAnswered(questionId: string, answered: boolean) {
+    if (!activeMeeting) return
+    setQuestions((prev) => prev.map((q) => (q.id === questionId ? { ...q, answered } : q)))
+    await markQuestionAnswered(activeMeeting.id, questionId, answered)
+  }
+
+  async function handleToggleRecording() {
+    if (!activeMeeting || isRecordingBusy) return
+    setIsRecordingBusy(true)
+    const result = isRecording
+      ? await stopMeetingRecording(activeMeeting.id)
+      : await startMeetingRecording(activeMeeting.id)
+    if (result.success) setIsRecording(!isRecording)
+    else console.error("[Meeting] Recording toggle failed:", result.error)
+    setIsRecordingBusy(false)
+  }
+
+  /** Move our RTK connection into a breakout room, or back to the main room (null) */
+  async function moveToRoom(roomId: string | null, label: string) {
+    const meeting = activeMeetingRef.current
+    if (!meeting) return
+    if (isSwitchingRoomRef.current) {
+      nextRoomRef.current = { roomId, label }
+      return
+    }
+    isSwitchingRoomRef.current = true
+    setIsSwitchingRoom(true)
+    setSetupMessage(roomId ? `Joining ${label}...` : "Returning to the main room...")
+    try {
+      const result = await switchBreakoutRoom(meeting.id, roomId)
+      if (!result.success || !result.authToken) {
+        console.error("[Meeting] Switching rooms failed:", result.error)
+        return
+      }
+      setRemoteParticipants(new Map())
+      setScreenSharer(null)
+      setIsScreenSharing(false)
+      await rtkClient.init(result.authToken, { audio: false, video: false })
+      await rtkClient.joinRoom()
+      setIsMuted(true)
+      setIsVideoOff(true)
+      setCurrentRoomId(roomId)
+    } catch (err) {
+      console.error("[Meeting] Failed to switch rooms:", err)
+    } finally {
+      isSwitchingRoomRef.current = false
+      setIsSwitchingRoom(false)
+      setSetupMessage(null)
+      const next = nextRoomRef.current
+      nextRoomRef.current = null
+      if (next && activeMeetingRef.current) moveToRoom(next.roomId, next.label)
+    }
+  }
+
+  async function handleOpenBreakoutRooms(
+    roomCount: number,
+    assignment: BreakoutAssignment,
+    durationMinutes: number | null
+  ) {
+    if (!activeMeeting) return { success: false, error: "Not in a meeting" }
+    const result = await openBreakoutRooms(activeMeeting.id, { roomCount, assignment, durationMinutes })
+    if (result.success) {
+      setBreakoutRooms(result.rooms ?? [])
+      setBreakoutEndsAt(result.endsAt ?? null)
+    }
+    return result
+  }
+
+  async function handleBroadcastToRooms(message: string) {
+    if (!activeMeeting) return { success: false, error: "Not in a meeting" }
+    return broadcastToBreakoutRooms(activeMeeting.id, message)
+  }
+
+  async function handleCloseBreakoutRooms() {
+    const meeting = activeMeetingRef.current
+    if (!meeting) return { success: false, error: "Not in a meeting" }
+    const result = await closeBreakoutRooms(meeting.id)
+    if (result.success) {
+      setBreakoutRooms([])
+      setBreakoutEndsAt(null)
+      setShowBreakoutRooms(false)
+      if (currentRoomIdRef.current) moveToRoom(null, "Main room")
+    }
+    return result
+  }
+
+  async function handlePublishRecording(recordingId: string) {
+    const result = await publishRecordingAsLesson(recordingId)
+    if (result.success) queryClient.invalidateQueries({ queryKey: queryKeys.meetingHistory })
+    return result
   }
 
   async function handleDeleteHistory(meetingId: string) {
@@ -1426,6 +1748,7 @@ export default function InstructorMeetingsPage() {
     return (
       <div className="fixed inset-0 z-50 flex flex-col bg-neutral-100 dark:bg-zinc-950 overflow-hidden">
         <style>{"nav.safe-area-bottom { display: none !important; }"}</style>
+        {setupMessage && <SetupOverlay message={setupMessage} />}
 
         {/* Remote audio players */}
         {Array.from(remoteParticipants.entries()).map(([id, p]) => (
@@ -1440,6 +1763,12 @@ export default function InstructorMeetingsPage() {
             </span>
             <span className="text-muted-foreground/40">·</span>
             <MeetingTimer startTime={meetingStartTime} />
+            {isRecording && (
+              <span className="flex items-center gap-1 text-[10px] font-semibold uppercase tracking-wider text-red-500">
+                <span className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse" />
+                Rec
+              </span>
+            )}
             <span className="text-muted-foreground/40">·</span>
             <span className="text-muted-foreground text-xs">{totalParticipants}</span>
             
@@ -1508,6 +1837,25 @@ export default function InstructorMeetingsPage() {
           </div>
         </div>
 
+        {/* Breakout rooms */}
+        {(breakoutRooms.length > 0 || breakoutNotice) && (
+          <BreakoutBanner
+            userId={user.id}
+            isHost={isHost ?? false}
+            rooms={breakoutRooms}
+            endsAt={breakoutEndsAt}
+            currentRoomId={currentRoomId}
+            notice={breakoutNotice}
+            isSwitching={isSwitchingRoom}
+            onJoinRoom={(roomId) => {
+              const room = breakoutRooms.find((r) => r.id === roomId)
+              moveToRoom(roomId, room?.name ?? "Main room")
+            }}
+            onManage={() => setShowBreakoutRooms(true)}
+            onDismissNotice={() => setBreakoutNotice(null)}
+          />
+        )}
+
         {/* Pending admission requests */}
         {isHost && pendingRequests.length > 0 && (
           <div className="relative z-10 px-4 pb-1">
@@ -1730,6 +2078,10 @@ export default function InstructorMeetingsPage() {
             onRemovePollOption={(i) => setPollOptions(pollOptions.filter((_, j) => j !== i))}
             onCreatePoll={handleCreatePoll}
             onVotePoll={handleVotePoll}
+            questions={questions}
+            onAskQuestion={handleAskQuestion}
+            onUpvoteQuestion={handleUpvoteQuestion}
+            onMarkAnswered={handleMarkAnswered}
           />
         )}
 
@@ -1751,6 +2103,8 @@ export default function InstructorMeetingsPage() {
           pendingRequestCount={pendingRequests.length}
           stageRequestCount={stageRequests.length}
           screenShareDisabled={!!screenSharer && !isScreenSharing}
+          isRecording={isRecording}
+          isRecordingBusy={isRecordingBusy}
           onToggleMute={toggleMute}
           onToggleVideo={toggleVideo}
           onToggleScreenShare={toggleScreenShare}
@@ -1764,7 +2118,31 @@ export default function InstructorMeetingsPage() {
           }}
           onRequestStage={handleRequestStage}
           onEndMeeting={handleEndMeeting}
+          onToggleRecording={isHost ? handleToggleRecording : undefined}
+          hasBreakoutRooms={breakoutRooms.length > 0}
+          onOpenBreakoutRooms={isHost ? () => setShowBreakoutRooms(true) : undefined}
         />
+
+        {isHost && (
+          <BreakoutRoomsModal
+            open={showBreakoutRooms}
+            onOpenChange={setShowBreakoutRooms}
+            participants={admittedParticipants
+              .filter((p) => p.userId !== user.id)
+              .map((p) => ({ userId: p.userId, name: p.name, avatar: p.avatar }))}
+            rooms={breakoutRooms}
+            endsAt={breakoutEndsAt}
+            currentRoomId={currentRoomId}
+            isSwitching={isSwitchingRoom}
+            onOpenRooms={handleOpenBreakoutRooms}
+            onJoinRoom={(roomId) => {
+              const room = breakoutRooms.find((r) => r.id === roomId)
+              moveToRoom(roomId, room?.name ?? "Main room")
+            }}
+            onBroadcast={handleBroadcastToRooms}
+            onCloseRooms={handleCloseBreakoutRooms}
+          />
+        )}
       </div>
     )
   }
@@ -1814,9 +2192,19 @@ export default function InstructorMeetingsPage() {
           {/* Quick actions hero */}
           <MeetingQuickActions
             onCreateNew={() => setShowCreate(true)}
+            onSchedule={() => setShowSchedule(true)}
             onJoin={handleJoinByLink}
           />
 
+          {/* Scheduled meetings — join opens at start time */}
+          <UpcomingMeetingsList
+            meetings={upcomingMeetings}
+            isLoading={isLoadingUpcoming}
+            userId={user.id}
+            onJoin={handleJoinUpcoming}
+            onCancelled={() => queryClient.invalidateQueries({ queryKey: queryKeys.upcomingMeetings })}
+          />
+
           {/* Course cards - Go Live from your courses */}
           <CourseMeetingCards
             courses={instructorCourses}
@@ -1855,6 +2243,7 @@ export default function InstructorMeetingsPage() {
                     history={meetingHistory}
                     isLoading={isLoadingHistory}
                     onDelete={handleDeleteHistory}
+                    onPublishRecording={handlePublishRecording}
                   />
                 </div>
               </div>
@@ -1864,6 +2253,12 @@ export default function InstructorMeetingsPage() {
       </div>
 
       <CreateMeetingModal open={showCreate} onOpenChange={setShowCreate} onCreate={handleCreate} />
+      <ScheduleMeetingModal
+        open={showSchedule}
+        onOpenChange={setShowSchedule}
+        courses={instructorCourses}
+        onScheduled={() => queryClient.invalidateQueries({ queryKey: queryKeys.upcomingMeetings })}
+      />
       <CreateCourseMeetingModal
         key={selectedCourse?.id}
         open={showCourseMeetingModal}
@@ -0,0 +1,206 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Topbar } from "@/components/platform/topbar"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Skeleton } from "@/components/ui/skeleton"
+import { HugeiconsIcon } from "@hugeicons/react"
+import { MoneyReceive01Icon } from "@hugeicons/core-free-icons"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { queryKeys } from "@/lib/hooks/queries/keys"
+import {
+  getRefundRequests,
+  reviewRefundRequest,
+  type RefundRequestItem,
+} from "@/lib/actions/refunds"
+
+const filters = [
+  { value: "pending", label: "Pending" },
+  { value: "approved", label: "Approved" },
+  { value: "rejected", label: "Rejected" },
+  { value: "all", label: "All" },
+] as const
+
+type Filter = (typeof filters)[number]["value"]
+
+export default function InstructorRefundsPage() {
+  const [filter, setFilter] = useState<Filter>("pending")
+
+  const { data: requests = [], isLoading } = useQuery({
+    queryKey: queryKeys.instructorRefunds,
+    queryFn: () => getRefundRequests("all"),
+  })
+
+  const visible = filter === "all" ? requests : requests.filter((r) => r.status === filter)
+  const pendingCount = requests.filter((r) => r.status === "pending").length
+
+  return (
+    <>
+      <Topbar title="Refunds" variant="instructor" />
+      <div className="p-4 md:p-6 space-y-6 pb-24 md:pb-8">
+        {/* Header */}
+        <div className="space-y-1">
+          <h1 className="text-xl font-bold">Refund Requests</h1>
+          <p className="text-sm text-muted-foreground">
+            Review refund requests from students. Approving a request removes their access and
+            returns the amount paid to their wallet.
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap gap-2">
+          {filters.map((f) => (
+            <Button
+              key={f.value}
+              size="sm"
+              variant={filter === f.value ? "default" : "outline"}
+              onClick={() => setFilter(f.value)}
+            >
+              {f.label}
+              {f.value === "pending" && pendingCount > 0 && ` (${pendingCount})`}
+            </Button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <Card key={i}>
+                <CardContent className="p-4 space-y-2">
+                  <Skeleton className="h-4 w-1/3" />
+                  <Skeleton className="h-3 w-2/3" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center">
+            <HugeiconsIcon icon={MoneyReceive01Icon} size={48} className="text-muted-foreground/30 mb-4" />
+            <h3 className="font-semibold text-lg mb-1">No refund requests</h3>
+            <p className="text-sm text-muted-foreground">
+              {filter === "pending"
+                ? "You're all caught up — there's nothing waiting for review."
+                : "Refund requests from your students will appear here."}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {visible.map((request) => (
+              <RefundRequestCard key={request.id} request={request} />
+            ))}
+          </div>
+        )}
+      </div>
+    </>
+  )
+}
+
+function RefundRequestCard({ request }: { request: RefundRequestItem }) {
+  const queryClient = useQueryClient()
+  const [note, setNote] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState<"approve" | "reject" | null>(null)
+
+  async function handleReview(decision: "approve" | "reject") {
+    setError(null)
+    setSubmitting(decision)
+    const result = await reviewRefundRequest(request.id, decision, note)
+    setSubmitting(null)
+    if (result.success) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.instructorRefunds })
+    } else {
+      setError(result.error || "Something went wrong")
+    }
+  }
+
+  const initials = request.studentName
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .slice(0, 2)
+    .toUpperCase()
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex items-center gap-3 min-w-0">
+            <Avatar className="h-9 w-9 shrink-0">
+              {request.studentAvatarUrl && <AvatarImage src={request.studentAvatarUrl} />}
+              <AvatarFallback className="text-xs">{initials}</AvatarFallback>
+            </Avatar>
+            <div className="min-w-0">
+              <p className="text-sm font-semibold truncate">{request.studentName}</p>
+              <p className="text-xs text-muted-foreground truncate">{request.courseTitle}</p>
+            </div>
+          </div>
+          <div className="flex flex-col items-end gap-1 shrink-0">
+            <span className="text-sm font-bold">${request.amount.toFixed(2)}</span>
+            <Badge
+              variant={
+                request.status === "pending"
+                  ? "secondary"
+                  : request.status === "approved"
+                    ? "default"
+                    : "destructive"
+              }
+              className="capitalize"
+            >
+              {request.status}
+            </Badge>
+          </div>
+        </div>
+
+        <p className="text-sm whitespace-pre-wrap">{request.reason}</p>
+
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          <span>Requested {new Date(request.createdAt).toLocaleDateString()}</span>
+          <span>{request.progressAtRequest}% progress at request</span>
+          {request.reviewedAt && (
+            <span>Reviewed {new Date(request.reviewedAt).toLocaleDateString()}</span>
+          )}
+        </div>
+
+        {request.reviewNote && (
+          <p className="text-xs text-muted-foreground border-l-2 border-border pl-2">
+            {request.reviewNote}
+          </p>
+        )}
+
+        {request.status === "pending" && (
+          <div className="space-y-2 pt-1">
+            <Textarea
+              placeholder="Optional note for the student"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={1000}
+              className="min-h-16"
+            />
+            {error && <p className="text-xs text-red-500">{error}</p>}
+            <div className="flex justify-end gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={submitting !== null}
+                onClick={() => handleReview("reject")}
+              >
+                {submitting === "reject" ? "Declining..." : "Decline"}
+              </Button>
+              <Button
+                size="sm"
+                disabled={submitting !== null}
+                onClick={() => handleReview("approve")}
+              >
+                {submitting === "approve" ? "Refunding..." : "Approve refund"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,23 @@
+"use client"
+
+import { Topbar } from "@/components/platform/topbar"
+import { ReviewModerationQueue } from "@/components/shared/review-moderation-queue"
+
+export default function InstructorReviewsPage() {
+  return (
+    <>
+      <Topbar title="Reviews" variant="instructor" />
+      <div className="p-4 md:p-6 space-y-6 pb-24 md:pb-8">
+        <div className="space-y-1">
+          <h1 className="text-xl font-bold">Reviews</h1>
+          <p className="text-sm text-muted-foreground">
+            Reply publicly to your students&apos; reviews and look over the ones they&apos;ve
+            reported. Reviews are hidden automatically once they collect enough reports.
+          </p>
+        </div>
+
+        <ReviewModerationQueue />
+      </div>
+    </>
+  )
+}
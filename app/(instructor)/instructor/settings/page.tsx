@@ -1,14 +1,17 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { Separator } from "@/components/ui/separator"
+import { NotificationPreferencesForm } from "@/components/shared/notification-preferences-form"
 import { Topbar } from "@/components/platform/topbar"
 import { getMySignature } from "@/lib/actions/signature"
+import { getMyNotificationPreferences } from "@/lib/actions/notification-preferences"
+import { DEFAULT_NOTIFICATION_PREFERENCES } from "@/lib/notification-preferences"
 import { getCurrentUser } from "@/lib/auth"
 import { InstructorProfileClient } from "./instructor-profile-client"
 
 export default async function InstructorSettingsPage() {
-  const [currentSignature, currentUser] = await Promise.all([
+  const [currentSignature, currentUser, notificationPreferences] = await Promise.all([
     getMySignature(),
     getCurrentUser(),
+    getMyNotificationPreferences(),
   ])
 
   return (
@@ -48,6 +51,15 @@ export default async function InstructorSettingsPage() {
             </div>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm">Notifications</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <NotificationPreferencesForm initialPreferences={notificationPreferences ?? DEFAULT_NOTIFICATION_PREFERENCES} />
+          </CardContent>
+        </Card>
       </div>
     </>
   )
@@ -22,8 +22,10 @@ export default async function InstructorLayout({
     redirect(isLocalDev ? "/login" : "https://www.worldstreetgold.com/login")
   }
 
-  // Allow any authenticated user to access instructor dashboard
-  // They can create and manage their own courses
+  // Students become instructors by applying (see /dashboard/teach)
+  if (user.role === "USER") {
+    redirect("/dashboard/teach")
+  }
 
   return (
     <QueryProvider>
@@ -0,0 +1,48 @@
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { describeUnsubscribeScope, verifyUnsubscribeSignature } from "@/lib/notification-preferences"
+
+/**
+ * Where an email's unsubscribe link lands. Nothing changes until the
+ * button is pressed — mail scanners and link prefetchers open every link.
+ */
+export default async function UnsubscribePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ u?: string; c?: string; s?: string }>
+}) {
+  const { u = "", c = "", s = "" } = await searchParams
+  const valid = !!u && verifyUnsubscribeSignature(u, c, s)
+  const action = `/api/notifications/unsubscribe?${new URLSearchParams({ u, c, s }).toString()}`
+
+  return (
+    <div className="flex flex-col items-center justify-center px-4 py-24 text-center">
+      <div className="max-w-md space-y-4">
+        {valid ? (
+          <>
+            <h1 className="text-2xl font-bold">Unsubscribe from {describeUnsubscribeScope(c)}?</h1>
+            <p className="text-sm text-muted-foreground">
+              You can turn them back on at any time in your notification settings.
+            </p>
+            <form method="post" action={action} className="flex justify-center gap-2">
+              <input type="hidden" name="from" value="page" />
+              <Button type="submit">Unsubscribe</Button>
+              <Button variant="outline" render={<Link href="/dashboard/settings" />}>
+                Notification settings
+              </Button>
+            </form>
+          </>
+        ) : (
+          <>
+            <h1 className="text-2xl font-bold">We couldn&apos;t unsubscribe you</h1>
+            <p className="text-sm text-muted-foreground">
+              This unsubscribe link is invalid or incomplete. You can always change which emails
+              you get in your notification settings.
+            </p>
+            <Button render={<Link href="/dashboard/settings" />}>Notification settings</Button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { describeUnsubscribeScope } from "@/lib/notification-preferences"
+
+export default async function UnsubscribedPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ c?: string; error?: string }>
+}) {
+  const { c, error } = await searchParams
+
+  return (
+    <div className="flex flex-col items-center justify-center px-4 py-24 text-center">
+      <div className="max-w-md space-y-4">
+        {error ? (
+          <>
+            <h1 className="text-2xl font-bold">We couldn&apos;t unsubscribe you</h1>
+            <p className="text-sm text-muted-foreground">
+              {error === "invalid"
+                ? "This unsubscribe link is invalid or incomplete."
+                : "Something went wrong. Please try again in a moment."}{" "}
+              You can always change which emails you get in your notification settings.
+            </p>
+          </>
+        ) : (
+          <>
+            <h1 className="text-2xl font-bold">You&apos;ve been unsubscribed</h1>
+            <p className="text-sm text-muted-foreground">
+              You won&apos;t receive {describeUnsubscribeScope(c)} anymore.{" "}
+              You can turn them back on at any time in your notification settings.
+            </p>
+          </>
+        )}
+        <Button render={<Link href="/dashboard/settings" />}>Notification settings</Button>
+      </div>
+    </div>
+  )
+}
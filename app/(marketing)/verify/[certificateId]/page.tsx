@@ -0,0 +1,91 @@
+import Link from "next/link"
+import { Card, CardContent } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { HugeiconsIcon } from "@hugeicons/react"
+import { Certificate01Icon, Cancel01Icon } from "@hugeicons/core-free-icons"
+import { verifyCertificate } from "@/lib/actions/certificates"
+
+export default async function VerifyCertificatePage({
+  params,
+}: {
+  params: Promise<{ certificateId: string }>
+}) {
+  const { certificateId } = await params
+  const certificate = await verifyCertificate(certificateId)
+
+  if (!certificate) {
+    return (
+      <div className="flex flex-col items-center justify-center px-4 py-24 text-center">
+        <div className="max-w-md space-y-4">
+          <HugeiconsIcon icon={Cancel01Icon} size={40} className="mx-auto text-destructive" />
+          <h1 className="text-2xl font-bold">Certificate not found</h1>
+          <p className="text-sm text-muted-foreground">
+            We couldn&apos;t find a certificate with the ID{" "}
+            <span className="font-mono">{certificateId}</span>. Check the ID
+            printed at the bottom of the certificate and try again.
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  const issuedDate = new Date(certificate.issuedAt).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  })
+
+  return (
+    <div className="flex flex-col items-center px-4 py-16 md:py-24">
+      <Card className="w-full max-w-lg">
+        <CardContent className="p-6 md:p-8 space-y-6">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <HugeiconsIcon icon={Certificate01Icon} size={22} className="text-primary" />
+              <span className="text-sm font-semibold">Certificate Verification</span>
+            </div>
+            {certificate.revoked ? (
+              <Badge variant="destructive">Revoked</Badge>
+            ) : (
+              <Badge className="bg-emerald-600 hover:bg-emerald-600">Valid</Badge>
+            )}
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            {certificate.revoked
+              ? "This certificate was issued by WorldStreet Academy but has since been revoked and is no longer valid."
+              : "This certificate was issued by WorldStreet Academy to the person named below."}
+          </p>
+
+          <dl className="divide-y rounded-lg border text-sm">
+            {[
+              { label: "Holder", value: certificate.studentName },
+              {
+                label: "Course",
+                value: (
+                  <Link
+                    href={`/courses/${certificate.courseId}`}
+                    className="underline underline-offset-2"
+                  >
+                    {certificate.courseTitle}
+                  </Link>
+                ),
+              },
+              { label: "Instructor", value: certificate.instructorName },
+              { label: "Issued", value: issuedDate },
+              {
+                label: "Certificate ID",
+                value: <span className="font-mono">{certificate.serialNumber}</span>,
+              },
+            ].map((row) => (
+              <div key={row.label} className="flex items-start justify-between gap-4 px-4 py-3">
+                <dt className="text-muted-foreground shrink-0">{row.label}</dt>
+                <dd className="font-medium text-right">{row.value}</dd>
+              </div>
+            ))}
+          </dl>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -102,7 +102,7 @@ export default async function CertificatesPage() {
 
                       <div className="flex items-center justify-between pt-2 border-t">
                         <span className="text-[10px] text-muted-foreground">
-                          Completed {completedDate}
+                          Completed {completedDate} · <span className="font-mono">{cert.serialNumber}</span>
                         </span>
                         <div className="flex items-center gap-1 text-[10px] text-primary font-medium">
                           View
@@ -0,0 +1,142 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { HugeiconsIcon } from "@hugeicons/react"
+import { Loading03Icon, CreditCardIcon } from "@hugeicons/core-free-icons"
+import { Topbar } from "@/components/platform/topbar"
+import { Button } from "@/components/ui/button"
+import { Separator } from "@/components/ui/separator"
+import { completeFakePayment, getOrderStatus, type OrderSummary } from "@/lib/actions/payments"
+
+type Outcome = "succeeded" | "failed" | "cancelled"
+
+/**
+ * Hosted payment page for the local fake provider (development only).
+ */
+export default function FakeProviderPage() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const orderId = searchParams.get("orderId")
+  const sessionId = searchParams.get("session")
+
+  const [order, setOrder] = useState<OrderSummary | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [pending, setPending] = useState<Outcome | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!orderId) return
+    getOrderStatus(orderId).then((o) => {
+      setOrder(o)
+      setIsLoading(false)
+    })
+  }, [orderId])
+
+  async function resolve(outcome: Outcome) {
+    if (!orderId || !sessionId) return
+    setPending(outcome)
+    setError(null)
+
+    const result = await completeFakePayment(orderId, sessionId, outcome)
+    if (result.success && result.data) {
+      router.replace(result.data.redirectUrl)
+    } else {
+      setError(result.error || "Something went wrong")
+      setPending(null)
+    }
+  }
+
+  if (orderId && isLoading) {
+    return (
+      <>
+        <Topbar title="Test Payment" />
+        <div className="flex-1 flex items-center justify-center">
+          <HugeiconsIcon icon={Loading03Icon} size={24} className="animate-spin text-muted-foreground" />
+        </div>
+      </>
+    )
+  }
+
+  if (!order || !sessionId) {
+    return (
+      <>
+        <Topbar title="Test Payment" />
+        <div className="flex-1 flex items-center justify-center">
+          <p className="text-sm text-muted-foreground">Payment session not found</p>
+        </div>
+      </>
+    )
+  }
+
+  return (
+    <>
+      <Topbar title="Test Payment" />
+      <div className="flex-1 overflow-y-auto pb-24 md:pb-8">
+        <div className="max-w-sm mx-auto px-4 py-12 space-y-6">
+          <div className="rounded-2xl border border-dashed border-amber-500/40 bg-amber-500/5 px-4 py-3">
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              Fake payment provider — no real money is charged. Pick an outcome to
+              simulate the provider webhook.
+            </p>
+          </div>
+
+          <div className="rounded-2xl border border-border/50 bg-card p-4 space-y-4">
+            <div className="flex items-center gap-2">
+              <HugeiconsIcon icon={CreditCardIcon} size={16} className="text-muted-foreground" />
+              <h1 className="text-sm font-semibold">{order.courseTitle}</h1>
+            </div>
+            <Separator />
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">Amount due</span>
+              <span className="text-lg font-bold">
+                ${order.amount.toFixed(2)} {order.currency}
+              </span>
+            </div>
+          </div>
+
+          {error && (
+            <div className="rounded-xl bg-red-500/10 border border-red-500/20 px-4 py-3">
+              <p className="text-sm text-red-500">{error}</p>
+            </div>
+          )}
+
+          {order.status !== "pending" ? (
+            <p className="text-sm text-center text-muted-foreground">
+              This order is already {order.status}.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              <Button
+                className="w-full h-11"
+                size="lg"
+                disabled={!!pending}
+                onClick={() => resolve("succeeded")}
+              >
+                {pending === "succeeded" ? "Processing..." : "Approve payment"}
+              </Button>
+              <Button
+                variant="outline"
+                className="w-full h-11"
+                size="lg"
+                disabled={!!pending}
+                onClick={() => resolve("failed")}
+              >
+                {pending === "failed" ? "Processing..." : "Decline card"}
+              </Button>
+              <Button
+                variant="ghost"
+                className="w-full h-11"
+                size="lg"
+                disabled={!!pending}
+                onClick={() => resolve("cancelled")}
+              >
+                {pending === "cancelled" ? "Processing..." : "Cancel and return"}
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  )
+}
@@ -12,12 +12,21 @@ import {
   CheckmarkCircle01Icon,
   ArrowLeft01Icon,
   SecurityCheckIcon,
+  Wallet01Icon,
+  CreditCardIcon,
+  DiscountTag01Icon,
+  Cancel01Icon,
 } from "@hugeicons/core-free-icons"
 import { Topbar } from "@/components/platform/topbar"
 import { Button } from "@/components/ui/button"
 import { Separator } from "@/components/ui/separator"
+import { Input } from "@/components/ui/input"
 import { useUser } from "@/components/providers/user-provider"
 import { enrollInCourse, checkEnrollment } from "@/lib/actions/enrollments"
+import { startCheckout, payWithWallet, getOrderStatus } from "@/lib/actions/payments"
+import { getWalletBalance } from "@/lib/actions/wallet"
+import { applyCouponCode } from "@/lib/actions/coupons"
+import type { CouponQuote } from "@/lib/payments/coupons"
 import { fetchPublicCourse, type PublicCourse } from "@/lib/actions/student"
 
 export default function CheckoutPage() {
@@ -26,31 +35,70 @@ export default function CheckoutPage() {
   const user = useUser()
 
   const courseId = searchParams.get("courseId")
+  // Set when the buyer comes back from the provider without completing payment
+  const returnedOrderId = searchParams.get("orderId")
   const [course, setCourse] = useState<PublicCourse | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [isProcessing, setIsProcessing] = useState(false)
   const [isSuccess, setIsSuccess] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [walletBalance, setWalletBalance] = useState(0)
+  const [paymentMethod, setPaymentMethod] = useState<"wallet" | "card">("card")
+  const [couponInput, setCouponInput] = useState("")
+  const [coupon, setCoupon] = useState<CouponQuote | null>(null)
+  const [couponError, setCouponError] = useState<string | null>(null)
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false)
 
   useEffect(() => {
     if (!courseId) {
       setIsLoading(false)
       return
     }
-    // Fetch course and check enrollment in parallel
+    // Fetch course, enrollment and any returned order in parallel
     Promise.all([
       fetchPublicCourse(courseId),
       user ? checkEnrollment(user.id, courseId) : Promise.resolve({ isEnrolled: false }),
-    ]).then(([c, enrollment]) => {
+      returnedOrderId ? getOrderStatus(returnedOrderId) : Promise.resolve(null),
+      user ? getWalletBalance() : Promise.resolve(0),
+    ]).then(([c, enrollment, order, balance]) => {
       if (enrollment.isEnrolled) {
         // Already enrolled — skip checkout entirely
         router.replace(`/dashboard/checkout/success?courseId=${courseId}`)
         return
       }
+      if (order?.status === "failed") {
+        setError(`Payment failed${order.failureReason ? `: ${order.failureReason}` : ""}. You have not been charged.`)
+      } else if (order && order.status !== "paid") {
+        setError("Payment was cancelled. You have not been charged.")
+      }
+      // Default to the wallet when it covers the full price
+      if (c && c.pricing === "paid" && (c.price ?? 0) > 0 && balance >= (c.price ?? 0)) {
+        setPaymentMethod("wallet")
+      }
+      setWalletBalance(balance)
       setCourse(c)
       setIsLoading(false)
     })
-  }, [courseId, user, router])
+  }, [courseId, returnedOrderId, user, router])
+
+  async function handleApplyCoupon() {
+    if (!course || !couponInput.trim()) return
+    setIsApplyingCoupon(true)
+    setCouponError(null)
+
+    const result = await applyCouponCode(course.id, couponInput)
+    if (result.success) {
+      setCoupon(result.data)
+      setCouponInput("")
+      // Switch to the wallet if it now covers the discounted price
+      if (result.data.amount > 0 && walletBalance >= result.data.amount) {
+        setPaymentMethod("wallet")
+      }
+    } else {
+      setCouponError(result.error)
+    }
+    setIsApplyingCoupon(false)
+  }
 
   async function handlePurchase() {
     if (!course || !user) return
@@ -67,7 +115,34 @@ export default function CheckoutPage() {
       }
 
       const price = course.pricing === "free" ? 0 : (course.price ?? 0)
-      const result = await enrollInCourse(user.id, course.id, price)
+      const couponCode = coupon?.code ?? null
+
+      // Wallet purchases also cover coupons that make the course free
+      if (price > 0 && (paymentMethod === "wallet" || coupon?.amount === 0)) {
+        const result = await payWithWallet(course.id, couponCode)
+        if (result.success && result.data) {
+          setIsSuccess(true)
+          router.push(`/dashboard/checkout/success?orderId=${result.data.orderId}&courseId=${course.id}`)
+        } else {
+          setError(result.error || "Something went wrong")
+          setIsProcessing(false)
+        }
+        return
+      }
+
+      if (price > 0) {
+        // Paid — hand off to the payment provider; the webhook enrolls
+        const result = await startCheckout(course.id, couponCode)
+        if (result.success && result.data) {
+          window.location.href = result.data.checkoutUrl
+        } else {
+          setError(result.error || "Something went wrong")
+          setIsProcessing(false)
+        }
+        return
+      }
+
+      const result = await enrollInCourse(user.id, course.id)
 
       if (result.success) {
         setIsSuccess(true)
@@ -110,6 +185,7 @@ export default function CheckoutPage() {
   }
 
   const price = course.pricing === "free" ? 0 : (course.price ?? 0)
+  const total = coupon ? coupon.amount : price
   const totalHours = Math.floor(course.totalDuration / 60)
   const totalMins = course.totalDuration % 60
   const durationLabel = totalHours > 0 ? `${totalHours}h ${totalMins}m` : `${totalMins}m`
@@ -181,16 +257,119 @@ export default function CheckoutPage() {
                   {price === 0 ? "Free" : `$${price.toFixed(2)}`}
                 </span>
               </div>
+              {coupon && (
+                <div className="flex items-center justify-between text-sm">
+                  <span className="flex items-center gap-1.5 text-muted-foreground">
+                    Coupon <span className="font-mono text-xs text-foreground">{coupon.code}</span>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setCoupon(null)
+                        if (walletBalance < price) setPaymentMethod("card")
+                      }}
+                      disabled={isProcessing}
+                      className="text-muted-foreground hover:text-foreground"
+                      aria-label="Remove coupon"
+                    >
+                      <HugeiconsIcon icon={Cancel01Icon} size={12} />
+                    </button>
+                  </span>
+                  <span className="font-medium text-emerald-600">
+                    −${coupon.discount.toFixed(2)}
+                  </span>
+                </div>
+              )}
               <Separator />
               <div className="flex items-center justify-between text-sm">
                 <span className="font-semibold">Total</span>
                 <span className="text-lg font-bold">
-                  ${price.toFixed(2)}
+                  ${total.toFixed(2)}
                 </span>
               </div>
             </div>
+
+            {/* Coupon code */}
+            {price > 0 && !coupon && (
+              <div className="space-y-1.5">
+                <div className="flex gap-2">
+                  <div className="relative flex-1">
+                    <HugeiconsIcon
+                      icon={DiscountTag01Icon}
+                      size={14}
+                      className="absolute left-2.5 top-1/2 -translate-y-1/2 text-muted-foreground"
+                    />
+                    <Input
+                      value={couponInput}
+                      onChange={(e) => setCouponInput(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") handleApplyCoupon()
+                      }}
+                      placeholder="Coupon code"
+                      className="pl-8 uppercase placeholder:normal-case"
+                      maxLength={32}
+                      disabled={isProcessing}
+                    />
+                  </div>
+                  <Button
+                    variant="outline"
+                    onClick={handleApplyCoupon}
+                    disabled={!couponInput.trim() || isApplyingCoupon || isProcessing}
+                  >
+                    {isApplyingCoupon ? "Applying..." : "Apply"}
+                  </Button>
+                </div>
+                {couponError && <p className="text-xs text-red-500">{couponError}</p>}
+              </div>
+            )}
           </div>
 
+          {/* Payment Method */}
+          {total > 0 && (
+            <div className="rounded-2xl border border-border/50 bg-card p-4 space-y-3">
+              <h2 className="text-sm font-semibold">Payment Method</h2>
+              <div className="grid gap-2">
+                {([
+                  {
+                    id: "wallet",
+                    icon: Wallet01Icon,
+                    label: "Wallet balance",
+                    hint: `$${walletBalance.toFixed(2)} available`,
+                    disabled: walletBalance < total,
+                  },
+                  {
+                    id: "card",
+                    icon: CreditCardIcon,
+                    label: "Card",
+                    hint: "Pay with the secure payment provider",
+                    disabled: false,
+                  },
+                ] as const).map((method) => (
+                  <button
+                    key={method.id}
+                    type="button"
+                    disabled={method.disabled || isProcessing}
+                    onClick={() => setPaymentMethod(method.id)}
+                    className={`flex items-center gap-3 rounded-xl border px-3 py-2.5 text-left transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                      paymentMethod === method.id
+                        ? "border-primary bg-primary/5"
+                        : "border-border/50 hover:bg-muted/50"
+                    }`}
+                  >
+                    <HugeiconsIcon icon={method.icon} size={16} className="text-muted-foreground" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium">{method.label}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {method.disabled
+                          ? `Insufficient balance — $${walletBalance.toFixed(2)} available`
+                          : method.hint}
+                      </p>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Secure checkout note */}
           <div className="flex items-center gap-2 justify-center text-xs text-muted-foreground/60">
             <HugeiconsIcon icon={SecurityCheckIcon} size={13} />
@@ -219,12 +398,18 @@ export default function CheckoutPage() {
             ) : isProcessing ? (
               <>
                 <HugeiconsIcon icon={Loading03Icon} size={16} className="animate-spin" />
-                Processing...
+                {total === 0 || paymentMethod === "wallet" ? "Processing..." : "Redirecting to payment..."}
               </>
             ) : (
               <>
                 <HugeiconsIcon icon={CheckmarkCircle01Icon} size={16} />
-                {price === 0 ? "Enroll for Free" : `Pay $${price.toFixed(2)}`}
+                {price === 0
+                  ? "Enroll for Free"
+                  : total === 0
+                    ? "Enroll with Coupon"
+                    : paymentMethod === "wallet"
+                      ? `Pay $${total.toFixed(2)} from Wallet`
+                      : `Pay $${total.toFixed(2)}`}
               </>
             )}
           </Button>
@@ -1,5 +1,6 @@
 "use client"
 
+import { useEffect, useState } from "react"
 import { useSearchParams } from "next/navigation"
 import Link from "next/link"
 import { HugeiconsIcon } from "@hugeicons/react"
@@ -7,13 +8,162 @@ import {
   CheckmarkCircle01Icon,
   BookOpen01Icon,
   ArrowRight01Icon,
+  Loading03Icon,
+  CancelCircleIcon,
+  AlertCircleIcon,
 } from "@hugeicons/core-free-icons"
 import { Topbar } from "@/components/platform/topbar"
 import { Button } from "@/components/ui/button"
+import { getOrderStatus, type OrderSummary } from "@/lib/actions/payments"
+
+/** How long to wait for the provider webhook before giving up on polling */
+const POLL_INTERVAL_MS = 2000
+const MAX_POLLS = 30
 
 export default function CheckoutSuccessPage() {
   const searchParams = useSearchParams()
   const courseId = searchParams.get("courseId")
+  const orderId = searchParams.get("orderId")
+
+  const [order, setOrder] = useState<OrderSummary | null>(null)
+  const [timedOut, setTimedOut] = useState(false)
+
+  // Poll until the webhook moves the order out of "pending"
+  useEffect(() => {
+    if (!orderId) return
+    let cancelled = false
+    let polls = 0
+
+    async function poll() {
+      const result = await getOrderStatus(orderId!)
+      if (cancelled) return
+      setOrder(result)
+      if (result?.status !== "pending") return
+      polls += 1
+      if (polls >= MAX_POLLS) {
+        setTimedOut(true)
+        return
+      }
+      setTimeout(poll, POLL_INTERVAL_MS)
+    }
+
+    poll()
+    return () => {
+      cancelled = true
+    }
+  }, [orderId])
+
+  // No order — reached directly after a free enrollment or when already enrolled
+  const status = orderId ? (order?.status ?? "pending") : "paid"
+
+  if (status === "pending") {
+    return (
+      <>
+        <Topbar title="Confirming Payment" />
+        <div className="flex-1 flex items-center justify-center px-4">
+          <div className="max-w-sm w-full text-center space-y-6 py-16">
+            <div className="mx-auto w-20 h-20 rounded-full bg-muted flex items-center justify-center">
+              <HugeiconsIcon icon={Loading03Icon} size={32} className="animate-spin text-muted-foreground" />
+            </div>
+            <div className="space-y-2">
+              <h1 className="text-xl font-bold">Confirming your payment</h1>
+              <p className="text-sm text-muted-foreground leading-relaxed">
+                {timedOut
+                  ? "This is taking longer than usual. The course will appear in your library as soon as the payment is confirmed."
+                  : "Hang tight — we're waiting for the payment provider to confirm your order."}
+              </p>
+            </div>
+            {timedOut && (
+              <Button
+                variant="outline"
+                className="w-full h-11 gap-2"
+                size="lg"
+                render={<Link href="/dashboard/my-courses" />}
+              >
+                <HugeiconsIcon icon={BookOpen01Icon} size={16} />
+                Go to My Courses
+              </Button>
+            )}
+          </div>
+        </div>
+      </>
+    )
+  }
+
+  if (status === "refunded") {
+    return (
+      <>
+        <Topbar title="Payment Refunded" />
+        <div className="flex-1 flex items-center justify-center px-4">
+          <div className="max-w-sm w-full text-center space-y-6 py-16">
+            <div className="mx-auto w-20 h-20 rounded-full bg-red-500/10 flex items-center justify-center ring-8 ring-red-500/5">
+              <HugeiconsIcon icon={AlertCircleIcon} size={40} className="text-red-500" />
+            </div>
+
+            <div className="space-y-2">
+              <h1 className="text-xl font-bold">Payment Refunded</h1>
+              <p className="text-sm text-muted-foreground leading-relaxed">
+                {order?.failureReason ? `${order.failureReason}. ` : ""}
+                Your payment has been refunded to your wallet.
+              </p>
+            </div>
+
+            {courseId && (
+              <Button
+                className="w-full h-11 gap-2"
+                size="lg"
+                render={<Link href={`/dashboard/checkout?courseId=${courseId}`} />}
+              >
+                Try Again
+                <HugeiconsIcon icon={ArrowRight01Icon} size={14} />
+              </Button>
+            )}
+          </div>
+        </div>
+      </>
+    )
+  }
+
+  if (status === "failed" || status === "cancelled") {
+    const isFailed = status === "failed"
+    return (
+      <>
+        <Topbar title={isFailed ? "Payment Failed" : "Payment Cancelled"} />
+        <div className="flex-1 flex items-center justify-center px-4">
+          <div className="max-w-sm w-full text-center space-y-6 py-16">
+            <div className="mx-auto w-20 h-20 rounded-full bg-red-500/10 flex items-center justify-center ring-8 ring-red-500/5">
+              <HugeiconsIcon
+                icon={isFailed ? AlertCircleIcon : CancelCircleIcon}
+                size={40}
+                className="text-red-500"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <h1 className="text-xl font-bold">
+                {isFailed ? "Payment Failed" : "Payment Cancelled"}
+              </h1>
+              <p className="text-sm text-muted-foreground leading-relaxed">
+                {isFailed && order?.failureReason ? `${order.failureReason}. ` : ""}
+                You have not been charged and no enrollment was created.
+              </p>
+            </div>
+
+            {courseId && (
+              <Button
+                className="w-full h-11 gap-2"
+                size="lg"
+                render={<Link href={`/dashboard/checkout?courseId=${courseId}`} />}
+              >
+                Try Again
+                <HugeiconsIcon icon={ArrowRight01Icon} size={14} />
+              </Button>
+            )}
+          </div>
+        </div>
+      </>
+    )
+  }
 
   return (
     <>
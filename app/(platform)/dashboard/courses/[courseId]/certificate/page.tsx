@@ -1,7 +1,9 @@
+import Link from "next/link"
 import { notFound } from "next/navigation"
-import { fetchCertificate } from "@/lib/actions/certificates"
+import { fetchCertificate, fetchCertificateEligibility } from "@/lib/actions/certificates"
 import { CertificateClient } from "@/components/learn/certificate-view"
 import { Topbar } from "@/components/platform/topbar"
+import { Button } from "@/components/ui/button"
 
 export default async function CertificatePage({
   params,
@@ -11,16 +13,44 @@ export default async function CertificatePage({
   const { courseId } = await params
   const certificate = await fetchCertificate(courseId)
 
-  if (!certificate) notFound()
+  if (!certificate) {
+    const eligibility = await fetchCertificateEligibility(courseId)
+    if (!eligibility || eligibility.eligible) notFound()
+
+    return (
+      <>
+        <Topbar
+          title="Certificate"
+          breadcrumbOverrides={{ certificate: "Certificate" }}
+        />
+        <div className="flex flex-col items-center justify-center px-4 py-16 text-center">
+          <div className="max-w-md space-y-4">
+            <h1 className="text-xl font-bold">Your certificate isn&apos;t ready yet</h1>
+            <p className="text-sm text-muted-foreground">
+              To earn the certificate for this course you still need to:
+            </p>
+            <ul className="text-sm text-left list-disc pl-5 space-y-1">
+              {eligibility.unmet.map((item) => (
+                <li key={item}>{item}</li>
+              ))}
+            </ul>
+            <Button render={<Link href={`/dashboard/courses/${courseId}`} />}>
+              Back to course
+            </Button>
+          </div>
+        </div>
+      </>
+    )
+  }
 
   return (
     <>
-      <Topbar 
-        title="Certificate" 
-        breadcrumbOverrides={{ 
+      <Topbar
+        title="Certificate"
+        breadcrumbOverrides={{
           [courseId]: certificate.courseTitle,
           certificate: "Certificate"
-        }} 
+        }}
       />
       <CertificateClient data={certificate} />
     </>
@@ -1,4 +1,4 @@
-import { notFound } from "next/navigation"
+import { notFound, redirect } from "next/navigation"
 import { fetchCourseForLearning, markCourseComplete } from "@/lib/actions/student"
 import { CourseCompletionClient } from "./completion-client"
 
@@ -13,7 +13,10 @@ export default async function CourseCompletedPage({
   if (!course) notFound()
 
   // Mark course as complete in the database
-  await markCourseComplete(courseId)
+  const result = await markCourseComplete(courseId)
+
+  // Certificate rules not met yet — the certificate page lists what's left
+  if (!result.success) redirect(`/dashboard/courses/${courseId}/certificate`)
 
   return (
     <CourseCompletionClient
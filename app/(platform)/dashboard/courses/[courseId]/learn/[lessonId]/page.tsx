@@ -7,6 +7,9 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { fetchCourseForLearning, fetchOtherCourses, getCompletedLessons } from "@/lib/actions/student"
 import { getCourseRatingSummary, getUserReview } from "@/lib/actions/reviews"
 import { getCourseWatchProgress } from "@/lib/actions/watch-progress"
+import { getQuizForStudent } from "@/lib/actions/quizzes"
+import { getAssignmentForStudent } from "@/lib/actions/assignments"
+import { getScormLaunch } from "@/lib/actions/scorm"
 import { getCurrentUser } from "@/lib/auth"
 import { LessonVideoPlayer } from "@/components/learn/lesson-video-player"
 import { LessonSidebar } from "@/components/learn/lesson-sidebar"
@@ -15,6 +18,10 @@ import { MobileLessonList } from "@/components/learn/mobile-lesson-list"
 import { CourseRating } from "@/components/learn/course-rating"
 import { RichTextContent } from "@/components/ui/rich-text-editor"
 import { FinishCourseButton } from "@/components/learn/finish-course-button"
+import { QuizPlayer } from "@/components/learn/quiz-player"
+import { AssignmentPanel } from "@/components/learn/assignment-panel"
+import { LockedLessonPanel } from "@/components/learn/locked-lesson"
+import { ScormPlayer } from "@/components/learn/scorm-player"
 
 export default async function LessonPage({
   params,
@@ -43,12 +50,16 @@ export default async function LessonPage({
   const nextLesson = currentIndex < lessons.length - 1 ? lessons[currentIndex + 1] : null
 
   const currentUser = await getCurrentUser()
-  const [otherCourses, completedLessonIds, ratingSummary, userReview, watchProgress] = await Promise.all([
+  const isLocked = currentLesson.lock !== null
+  const [otherCourses, completedLessonIds, ratingSummary, userReview, watchProgress, quiz, assignment, scormLaunch] = await Promise.all([
     fetchOtherCourses(courseId),
     getCompletedLessons(courseId),
     getCourseRatingSummary(courseId),
     currentUser ? getUserReview(currentUser.id, courseId) : Promise.resolve(null),
     getCourseWatchProgress(courseId),
+    currentLesson.type === "quiz" && !isLocked ? getQuizForStudent(actualLessonId) : Promise.resolve(null),
+    currentLesson.type === "assignment" && !isLocked ? getAssignmentForStudent(actualLessonId) : Promise.resolve(null),
+    currentLesson.type === "scorm" && !isLocked ? getScormLaunch(actualLessonId) : Promise.resolve(null),
   ])
 
   // Build a map of lessonId -> watch percent
@@ -85,9 +96,15 @@ export default async function LessonPage({
         <div className="flex-1 flex flex-col lg:overflow-auto">
           {/* Video / Content Area */}
           <div className="shrink-0">
-            {currentLesson.type === "video" && currentLesson.videoUrl ? (
+            {currentLesson.lock ? (
+              <LockedLessonPanel lock={currentLesson.lock} courseId={courseId} />
+            ) : currentLesson.type === "video" && currentLesson.videoUrl ? (
               <LessonVideoPlayer
                 src={currentLesson.videoUrl}
+                hlsSrc={currentLesson.hlsUrl}
+                poster={currentLesson.thumbnailUrl}
+                captions={currentLesson.captions}
+                preferredLanguage={currentUser?.preferredLanguage}
                 courseId={courseId}
                 lessonId={actualLessonId}
                 currentTitle={currentLesson.title}
@@ -102,6 +119,12 @@ export default async function LessonPage({
                     : null
                 }
               />
+            ) : currentLesson.type === "quiz" && quiz ? (
+              <QuizPlayer quiz={quiz} />
+            ) : currentLesson.type === "assignment" && assignment ? (
+              <AssignmentPanel data={assignment} />
+            ) : currentLesson.type === "scorm" && scormLaunch ? (
+              <ScormPlayer key={actualLessonId} launch={scormLaunch} />
             ) : currentLesson.type === "text" && currentLesson.content ? (
               <div className="w-full bg-muted/30 border-b">
                 <div className="max-w-3xl mx-auto p-6 md:p-8">
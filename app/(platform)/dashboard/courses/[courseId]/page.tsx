@@ -13,6 +13,7 @@ import {
   fetchEnrolledCoursesFromInstructor,
 } from "@/lib/actions/student"
 import { checkEnrollment } from "@/lib/actions/enrollments"
+import { getRefundEligibility } from "@/lib/actions/refunds"
 import { getCurrentUser } from "@/lib/auth"
 import { HugeiconsIcon } from "@hugeicons/react"
 import {
@@ -25,6 +26,7 @@ import {
 import { LessonPreviewAccordion } from "@/components/courses/lesson-preview-accordion"
 import { AboutInstructor } from "@/components/courses/about-instructor"
 import { BookmarkButton } from "@/components/courses/bookmark-button"
+import { RefundRequestButton } from "@/components/courses/refund-request-button"
 
 // Force dynamic rendering to show fresh instructor avatars
 export const revalidate = 0
@@ -48,10 +50,11 @@ export default async function CourseDetailPage({
 
   // Fetch instructor courses + enrollment status in parallel
   const currentUser = await getCurrentUser()
-  const [instructorCourses, enrolledFromInstructor, enrollmentStatus] = await Promise.all([
+  const [instructorCourses, enrolledFromInstructor, enrollmentStatus, refundEligibility] = await Promise.all([
     fetchInstructorPublicCourses(course.instructorId),
     fetchEnrolledCoursesFromInstructor(course.instructorId).catch(() => []),
     currentUser ? checkEnrollment(currentUser.id, courseId) : Promise.resolve({ isEnrolled: false }),
+    currentUser && course.pricing === "paid" ? getRefundEligibility(courseId) : Promise.resolve(null),
   ])
   const isEnrolled = enrollmentStatus.isEnrolled
 
@@ -216,6 +219,7 @@ export default async function CourseDetailPage({
             </h2>
             {course.lessons.length > 0 ? (
               <LessonPreviewAccordion
+                sections={course.sections}
                 lessons={course.lessons}
                 courseId={course.id}
                 coursePricing={course.pricing}
@@ -243,6 +247,11 @@ export default async function CourseDetailPage({
             averageRating={instructorAvgRating}
           />
 
+          {/* Refund */}
+          {refundEligibility && (refundEligibility.eligible || refundEligibility.request) && (
+            <RefundRequestButton courseId={course.id} eligibility={refundEligibility} />
+          )}
+
           {/* CTA */}
           <div className="sticky bottom-20 md:bottom-4 z-30">
             {isEnrolled ? (
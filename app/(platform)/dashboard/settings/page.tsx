@@ -1,17 +1,13 @@
 import { Topbar } from "@/components/platform/topbar"
 import { Card, CardContent } from "@/components/ui/card"
 import { Separator } from "@/components/ui/separator"
+import { Badge } from "@/components/ui/badge"
+import { NotificationPreferencesForm } from "@/components/shared/notification-preferences-form"
+import { getWalletBalance, getWalletTransactions } from "@/lib/actions/wallet"
+import { getMyNotificationPreferences } from "@/lib/actions/notification-preferences"
+import { DEFAULT_NOTIFICATION_PREFERENCES } from "@/lib/notification-preferences"
 
 const settingSections = [
-  {
-    title: "Notifications",
-    description: "Manage how you receive notifications.",
-    items: [
-      { label: "Email notifications", value: "Enabled" },
-      { label: "Push notifications", value: "Enabled" },
-      { label: "Course updates", value: "Enabled" },
-    ],
-  },
   {
     title: "Preferences",
     description: "Customize your learning experience.",
@@ -31,7 +27,20 @@ const settingSections = [
   },
 ]
 
-export default function SettingsPage() {
+const transactionLabels = {
+  credit: "Top-up",
+  debit: "Purchase",
+  refund: "Refund",
+  payout: "Payout",
+} as const
+
+export default async function SettingsPage() {
+  const [walletBalance, transactions, notificationPreferences] = await Promise.all([
+    getWalletBalance(),
+    getWalletTransactions(),
+    getMyNotificationPreferences(),
+  ])
+
   return (
     <>
       <Topbar title="Settings" />
@@ -43,6 +52,69 @@ export default function SettingsPage() {
           </p>
         </div>
 
+        {/* Wallet */}
+        <Card>
+          <CardContent className="p-6 space-y-4">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h2 className="text-base font-semibold">Wallet</h2>
+                <p className="text-sm text-muted-foreground">Your balance and transaction history.</p>
+              </div>
+              <p className="text-xl font-bold tabular-nums">
+                ${walletBalance.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+              </p>
+            </div>
+            <Separator />
+            {transactions.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-1">No transactions yet.</p>
+            ) : (
+              <div className="divide-y divide-border/50">
+                {transactions.map((tx) => {
+                  const isOutgoing = tx.type === "debit" || tx.type === "payout"
+                  return (
+                    <div key={tx.id} className="flex items-center justify-between gap-4 py-2.5">
+                      <div className="min-w-0 space-y-0.5">
+                        <div className="flex items-center gap-2">
+                          <Badge variant="secondary" className="text-[10px]">
+                            {transactionLabels[tx.type]}
+                          </Badge>
+                          <span className="text-sm truncate">{tx.description}</span>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(tx.createdAt).toLocaleString("en-US", {
+                            dateStyle: "medium",
+                            timeStyle: "short",
+                          })}
+                        </p>
+                      </div>
+                      <div className="text-right shrink-0">
+                        <p className={`text-sm font-medium tabular-nums ${isOutgoing ? "" : "text-emerald-600"}`}>
+                          {isOutgoing ? "−" : "+"}${tx.amount.toFixed(2)}
+                        </p>
+                        <p className="text-xs text-muted-foreground tabular-nums">
+                          Balance ${tx.balanceAfter.toFixed(2)}
+                        </p>
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Notifications */}
+        <Card>
+          <CardContent className="p-6 space-y-4">
+            <div>
+              <h2 className="text-base font-semibold">Notifications</h2>
+              <p className="text-sm text-muted-foreground">Choose what you hear about, and where.</p>
+            </div>
+            <Separator />
+            <NotificationPreferencesForm initialPreferences={notificationPreferences ?? DEFAULT_NOTIFICATION_PREFERENCES} />
+          </CardContent>
+        </Card>
+
         {settingSections.map((section) => (
           <Card key={section.title}>
             <CardContent className="p-6 space-y-4">
@@ -0,0 +1,89 @@
+import Link from "next/link"
+import { Topbar } from "@/components/platform/topbar"
+import { Card, CardContent } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { InstructorApplicationForm } from "@/components/shared/instructor-application-form"
+import { getMyInstructorApplication } from "@/lib/actions/instructor-applications"
+
+export default async function TeachPage() {
+  const data = await getMyInstructorApplication()
+  const application = data?.application ?? null
+  const canApply = !data?.isInstructor && application?.status !== "pending"
+
+  return (
+    <>
+      <Topbar title="Teach on WorldStreet" />
+      <div className="flex-1 p-4 md:p-6 lg:p-8 space-y-6 max-w-3xl pb-24 md:pb-8">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Teach on WorldStreet</h1>
+          <p className="text-muted-foreground mt-1">
+            Share what you know with thousands of traders. Tell us about yourself and upload a
+            short sample lesson — our team reviews every application.
+          </p>
+        </div>
+
+        {data?.isInstructor ? (
+          <Card>
+            <CardContent className="p-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div>
+                <h2 className="text-base font-semibold">You&apos;re an instructor</h2>
+                <p className="text-sm text-muted-foreground">
+                  Head to the instructor portal to create and manage your courses.
+                </p>
+              </div>
+              <Button render={<Link href="/instructor" />}>Open Instructor Portal</Button>
+            </CardContent>
+          </Card>
+        ) : (
+          application && (
+            <Card>
+              <CardContent className="p-6 space-y-2">
+                <div className="flex items-center justify-between gap-3">
+                  <h2 className="text-base font-semibold">Your application</h2>
+                  <Badge
+                    variant={application.status === "rejected" ? "destructive" : "secondary"}
+                    className="capitalize"
+                  >
+                    {application.status === "pending" ? "Under review" : application.status}
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Submitted {new Date(application.createdAt).toLocaleDateString()}
+                  {application.reviewedAt &&
+                    ` · Reviewed ${new Date(application.reviewedAt).toLocaleDateString()}`}
+                </p>
+                {application.status === "pending" && (
+                  <p className="text-sm">
+                    We&apos;ll email you as soon as an admin has reviewed your application.
+                  </p>
+                )}
+                {application.reviewNote && (
+                  <p className="text-sm text-muted-foreground border-l-2 border-border pl-2">
+                    {application.reviewNote}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )
+        )}
+
+        {canApply && (
+          <Card>
+            <CardContent className="p-6 space-y-4">
+              <div>
+                <h2 className="text-base font-semibold">
+                  {application?.status === "rejected" ? "Apply again" : "Apply to teach"}
+                </h2>
+                <p className="text-sm text-muted-foreground">
+                  This becomes your public instructor profile once you&apos;re approved.
+                </p>
+              </div>
+              <InstructorApplicationForm />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </>
+  )
+}
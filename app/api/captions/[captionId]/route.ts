@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server"
+import { Types } from "mongoose"
+import connectDB from "@/lib/db"
+import { VideoCaption } from "@/lib/db/models"
+import { getCurrentUser } from "@/lib/auth"
+import { toWebVtt } from "@/lib/captions"
+
+/**
+ * Serve a lesson video's caption track as WebVTT. Tracks load from our own
+ * origin so `<track>` works without CORS on the video bucket. They're as
+ * open as the videos they describe — any signed-in user may read them.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ captionId: string }> }
+) {
+  try {
+    const { captionId } = await params
+    const currentUser = await getCurrentUser()
+    if (!currentUser || !Types.ObjectId.isValid(captionId)) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 })
+    }
+
+    await connectDB()
+    const caption = await VideoCaption.findOne({ _id: captionId, status: "ready" })
+      .select("cues")
+      .lean()
+    if (!caption) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 })
+    }
+
+    return new NextResponse(toWebVtt(caption.cues), {
+      headers: {
+        "Content-Type": "text/vtt; charset=utf-8",
+        // Track URLs carry a version, so a replaced track is a new URL
+        "Cache-Control": "private, max-age=86400",
+        "X-Content-Type-Options": "nosniff",
+      },
+    })
+  } catch (error) {
+    console.error("[Captions] Failed:", error)
+    return NextResponse.json({ error: "Failed to load captions" }, { status: 500 })
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server"
+import { findCertificate, getCertificateData } from "@/lib/certificates"
+import {
+  certificateRenderVersion,
+  renderCertificate,
+  type CertificateFormat,
+} from "@/lib/certificate-renderer"
+
+const CONTENT_TYPES: Record<CertificateFormat, string> = {
+  pdf: "application/pdf",
+  png: "image/png",
+}
+
+// Recent renders, keyed by serial + format + content version
+const renderCache = new Map<string, Buffer>()
+const MAX_CACHED_RENDERS = 50
+// How long browsers and the CDN may keep a render — and so serve a revoked certificate
+const RENDER_MAX_AGE_SECONDS = 5 * 60
+
+/**
+ * Rendered certificate as PDF or PNG.
+ * /api/certificates/WSA-XXXX-XXXX/pdf redirects to ?v=<content hash> — a new
+ * signature means a new version. Renders are only cached briefly, since a
+ * refund can revoke a certificate and its old links must stop working.
+ * Public like /verify, so the link can go in emails and be shared.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ certificateId: string; format: string }> }
+) {
+  try {
+    const { certificateId, format } = await params
+    if (format !== "pdf" && format !== "png") {
+      return NextResponse.json({ error: "Unsupported format" }, { status: 404 })
+    }
+
+    const certificate = await findCertificate(certificateId)
+    if (!certificate) {
+      return NextResponse.json({ error: "Certificate not found" }, { status: 404 })
+    }
+    if (certificate.revokedAt) {
+      return NextResponse.json(
+        { error: "This certificate has been revoked" },
+        { status: 410, headers: { "Cache-Control": "no-store" } }
+      )
+    }
+
+    const data = await getCertificateData(certificate)
+    const version = certificateRenderVersion(data)
+
+    if (request.nextUrl.searchParams.get("v") !== version) {
+      const url = request.nextUrl.clone()
+      url.searchParams.set("v", version)
+      const res = NextResponse.redirect(url)
+      res.headers.set("Cache-Control", "no-store")
+      return res
+    }
+
+    const cacheKey = `${data.serialNumber}:${format}:${version}`
+    let file = renderCache.get(cacheKey)
+    if (!file) {
+      file = await renderCertificate(data, format)
+      if (renderCache.size >= MAX_CACHED_RENDERS) {
+        renderCache.delete(renderCache.keys().next().value!)
+      }
+      renderCache.set(cacheKey, file)
+    }
+
+    const download = request.nextUrl.searchParams.get("download") === "1"
+    const filename = `WorldStreet-Certificate-${data.serialNumber}.${format}`
+
+    return new NextResponse(new Uint8Array(file), {
+      headers: {
+        "Content-Type": CONTENT_TYPES[format],
+        "Content-Disposition": `${download ? "attachment" : "inline"}; filename="${filename}"`,
+        "Cache-Control": `public, max-age=${RENDER_MAX_AGE_SECONDS}`,
+      },
+    })
+  } catch (error) {
+    console.error("[Certificate render] Failed:", error)
+    return NextResponse.json({ error: "Failed to render certificate" }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server"
+import { Types } from "mongoose"
+import connectDB from "@/lib/db"
+import { Course } from "@/lib/db/models"
+import { getCurrentUser } from "@/lib/auth"
+import { buildCourseArchive } from "@/lib/course-archive"
+
+/**
+ * Download a course as a portable archive (see lib/course-archive.ts).
+ * For the course's instructor and admins.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ courseId: string }> }
+) {
+  try {
+    const { courseId } = await params
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    if (!Types.ObjectId.isValid(courseId)) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 })
+    }
+
+    await connectDB()
+    const course = await Course.findById(courseId).select("instructor slug").lean()
+    if (!course || (course.instructor.toString() !== currentUser.id && currentUser.role !== "ADMIN")) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 })
+    }
+
+    const archive = await buildCourseArchive(courseId)
+    if (!archive) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 })
+    }
+
+    return new NextResponse(JSON.stringify(archive, null, 2), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${course.slug}.course.json"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    console.error("[Course export] Failed:", error)
+    return NextResponse.json({ error: "Failed to export course" }, { status: 500 })
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server"
+import { revalidatePath } from "next/cache"
+import connectDB from "@/lib/db"
+import { getCurrentUser } from "@/lib/auth"
+import {
+  MAX_ARCHIVE_BYTES,
+  importCourseArchive,
+  parseCourseArchive,
+  type ArchiveIssue,
+  type CourseImportResponse,
+} from "@/lib/course-archive"
+
+/**
+ * Create a draft course from an uploaded archive (multipart, field "file").
+ * A route rather than a server action so archives can exceed the action
+ * body limit.
+ */
+export async function POST(request: NextRequest) {
+  const fail = (error: string, status: number, issues: ArchiveIssue[] = []) =>
+    NextResponse.json<CourseImportResponse>({ success: false, error, issues }, { status })
+
+  try {
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return fail("Unauthorized", 401)
+    if (currentUser.role === "USER") return fail("Instructor access required", 403)
+
+    const formData = await request.formData()
+    const file = formData.get("file")
+    if (!(file instanceof File)) return fail("Choose an archive to import", 400)
+    if (file.size > MAX_ARCHIVE_BYTES) {
+      return fail(`Archives can be at most ${MAX_ARCHIVE_BYTES / 1024 / 1024} MB`, 413)
+    }
+
+    let json: unknown
+    try {
+      json = JSON.parse(await file.text())
+    } catch {
+      return fail("The file isn't valid JSON", 400)
+    }
+
+    const { archive, issues } = parseCourseArchive(json)
+    if (!archive) return fail("This archive can't be imported", 422, issues)
+
+    await connectDB()
+    const result = await importCourseArchive(archive, currentUser.id)
+
+    revalidatePath("/instructor/courses")
+
+    return NextResponse.json<CourseImportResponse>({
+      success: true,
+      courseId: result.courseId,
+      issues: [...issues, ...result.issues],
+    })
+  } catch (error) {
+    console.error("[Course import] Failed:", error)
+    return fail("Failed to import course", 500)
+  }
+}
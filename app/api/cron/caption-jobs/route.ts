@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server"
+import { runCaptionJobs } from "@/lib/captions"
+
+// Speech-to-text providers can take a while on long lectures
+export const maxDuration = 300
+
+/**
+ * Generates queued caption tracks with the speech-to-text provider. Call
+ * every few minutes, authenticated with `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const result = await runCaptionJobs()
+    return NextResponse.json({ ok: true, ...result })
+  } catch (error) {
+    console.error("[Caption jobs] Failed:", error)
+    return NextResponse.json({ error: "Failed" }, { status: 500 })
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server"
+import { sendLessonUnlockNotifications } from "@/lib/lesson-unlocks"
+
+/**
+ * Announces drip-scheduled lessons as they unlock. Call hourly,
+ * authenticated with `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const result = await sendLessonUnlockNotifications()
+    return NextResponse.json({ ok: true, ...result })
+  } catch (error) {
+    console.error("[Lesson unlocks] Failed:", error)
+    return NextResponse.json({ error: "Failed" }, { status: 500 })
+  }
+}
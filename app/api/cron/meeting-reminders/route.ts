@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server"
+import { sendMeetingReminders } from "@/lib/meeting-schedule"
+
+/**
+ * Reminds invitees about scheduled meetings 24 hours and 15 minutes ahead.
+ * Call every 5 minutes, authenticated with `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const result = await sendMeetingReminders()
+    return NextResponse.json({ ok: true, ...result })
+  } catch (error) {
+    console.error("[Meeting reminders] Failed:", error)
+    return NextResponse.json({ error: "Failed" }, { status: 500 })
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server"
+import { sendNotificationDigests } from "@/lib/notification-digest"
+
+/**
+ * Scheduled digest sender. Call daily with ?frequency=daily and weekly with
+ * ?frequency=weekly, authenticated with `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const frequency = req.nextUrl.searchParams.get("frequency") === "weekly" ? "weekly" : "daily"
+
+  try {
+    const result = await sendNotificationDigests(frequency)
+    return NextResponse.json({ ok: true, frequency, ...result })
+  } catch (error) {
+    console.error("[Digest] Failed:", error)
+    return NextResponse.json({ error: "Failed" }, { status: 500 })
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server"
+import { runVideoTranscodes } from "@/lib/video-transcode"
+
+// Transcoding a long lecture takes minutes; give each run as long as the host allows
+export const maxDuration = 800
+
+/**
+ * Transcodes queued lesson videos to HLS, one per run. Call every few
+ * minutes, authenticated with `Authorization: Bearer <CRON_SECRET>`, from
+ * a host with ffmpeg installed.
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const result = await runVideoTranscodes()
+    return NextResponse.json({ ok: true, ...result })
+  } catch (error) {
+    console.error("[Video transcodes] Failed:", error)
+    return NextResponse.json({ error: "Failed" }, { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth"
+import { buildAttendanceCsv, getAttendanceReport } from "@/lib/meeting-attendance"
+
+/**
+ * Download a course meeting's attendance as CSV (see lib/meeting-attendance.ts).
+ * For the host, the course's instructor and admins.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ meetingId: string }> }
+) {
+  try {
+    const { meetingId } = await params
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const report = await getAttendanceReport(meetingId, currentUser)
+    if (!report) {
+      return NextResponse.json({ error: "Meeting not found" }, { status: 404 })
+    }
+
+    const date = (report.startedAt ?? new Date().toISOString()).slice(0, 10)
+    return new NextResponse(buildAttendanceCsv(report), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="attendance-${date}-${meetingId}.csv"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    console.error("[Attendance export] Failed:", error)
+    return NextResponse.json({ error: "Failed to export attendance" }, { status: 500 })
+  }
+}
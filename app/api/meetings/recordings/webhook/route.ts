@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server"
+import { parseRecordingWebhook } from "@/lib/realtime"
+import { ingestMeetingRecording } from "@/lib/meeting-recordings"
+
+// Copying a long recording into R2 takes a while
+export const maxDuration = 300
+
+/**
+ * RealtimeKit recording webhook.
+ * The signature is verified against the raw body before anything is read;
+ * an uploaded recording is copied into R2 before responding.
+ */
+export async function POST(req: NextRequest) {
+  const rawBody = await req.text()
+
+  let event
+  try {
+    event = parseRecordingWebhook(rawBody, req.headers)
+  } catch (error) {
+    console.error("[Recordings] Rejected webhook:", error)
+    return NextResponse.json({ error: "Invalid webhook" }, { status: 400 })
+  }
+
+  // Other RealtimeKit events aren't ours to handle
+  if (!event) return NextResponse.json({ ok: true, ignored: true })
+
+  try {
+    const result = await ingestMeetingRecording(event)
+    return NextResponse.json({ ok: true, ...result })
+  } catch (error) {
+    console.error("[Recordings] Webhook processing failed:", error)
+    // Non-2xx so the provider retries
+    return NextResponse.json({ error: "Failed" }, { status: 500 })
+  }
+}
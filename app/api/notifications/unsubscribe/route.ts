@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server"
+import { unsubscribeFromEmail, verifyUnsubscribeSignature } from "@/lib/notification-preferences"
+
+/**
+ * Unsubscribe from email links.
+ * GET — the link in the email footer; only shows the confirmation page
+ * (/unsubscribe), since mail scanners and prefetchers follow every link.
+ * POST — the confirmation page's button, or RFC 8058 one-click
+ * `List-Unsubscribe-Post` sent by mail clients; applies it.
+ * The signed query string is the only credential, so no sign-in is needed.
+ */
+async function unsubscribe(req: NextRequest) {
+  const params = req.nextUrl.searchParams
+  const userId = params.get("u") || ""
+  const scope = params.get("c") || ""
+  const signature = params.get("s") || ""
+
+  if (!userId || !verifyUnsubscribeSignature(userId, scope, signature)) {
+    return null
+  }
+
+  await unsubscribeFromEmail(userId, scope)
+  return scope
+}
+
+export async function GET(req: NextRequest) {
+  const url = new URL("/unsubscribe", req.url)
+  url.search = req.nextUrl.search
+  return NextResponse.redirect(url)
+}
+
+export async function POST(req: NextRequest) {
+  // The confirmation page's form says so; one-click posts `List-Unsubscribe=One-Click`
+  const form = await req.formData().catch(() => null)
+  const fromPage = form?.get("from") === "page"
+
+  try {
+    const scope = await unsubscribe(req)
+    if (fromPage) {
+      const url = new URL("/unsubscribed", req.url)
+      if (scope) url.searchParams.set("c", scope)
+      else url.searchParams.set("error", "invalid")
+      return NextResponse.redirect(url, 303)
+    }
+    if (!scope) {
+      return NextResponse.json({ error: "Invalid unsubscribe link" }, { status: 400 })
+    }
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    console.error("[Unsubscribe] Failed:", error)
+    if (fromPage) return NextResponse.redirect(new URL("/unsubscribed?error=failed", req.url), 303)
+    return NextResponse.json({ error: "Failed" }, { status: 500 })
+  }
+}
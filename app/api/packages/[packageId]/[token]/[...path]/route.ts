@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getFromR2 } from "@/lib/r2"
+import { getAppUrl } from "@/lib/notification-preferences"
+import {
+  contentTypeFor,
+  getPackageRuntimeCmi,
+  getPackagesOrigin,
+  packageFileKey,
+  readPackageToken,
+} from "@/lib/scorm"
+import { buildScormRuntimeScript } from "@/lib/scorm-runtime"
+
+// Pages bigger than this are served as they are, without the SCORM runtime
+const MAX_RUNTIME_PAGE_BYTES = 10 * 1024 * 1024
+
+/** Put the runtime script at the top of the page's <head> (or wherever the page starts) */
+function injectScript(page: Uint8Array, script: string) {
+  // latin1 maps bytes 1:1, so offsets found here are byte offsets whatever the page's charset
+  const text = Buffer.from(page).toString("latin1")
+  const match = /<head\b[^>]*>/i.exec(text) ?? /<html\b[^>]*>/i.exec(text) ?? /<!doctype[^>]*>/i.exec(text)
+  const at = match ? match.index + match[0].length : 0
+  return Buffer.concat([page.subarray(0, at), Buffer.from(script, "utf8"), page.subarray(at)])
+}
+
+/**
+ * Serve a file from an unpacked SCORM / xAPI package. Package scripts are
+ * untrusted: files are only served on the cookieless packages origin, to
+ * whoever holds a launch token from getScormLaunch, and always sandboxed
+ * into an opaque origin — even opened outside the player. SCORM pages get
+ * the runtime from lib/scorm-runtime.ts injected.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ packageId: string; token: string; path: string[] }> }
+) {
+  try {
+    const { packageId, token, path: segments } = await params
+    const path = segments.join("/")
+    if (!path || segments.some((s) => s === ".." || s === ".")) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 })
+    }
+
+    const packagesOrigin = getPackagesOrigin()
+    const host = request.headers.get("x-forwarded-host") ?? request.headers.get("host")
+    if (packagesOrigin && host !== new URL(packagesOrigin).host) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 })
+    }
+
+    const claims = readPackageToken(token)
+    if (!claims || claims.packageId !== packageId) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 })
+    }
+
+    const contentType = contentTypeFor(path)
+    const isPage = contentType.startsWith("text/html")
+    // Pages are always sent whole — the runtime goes in at the top
+    const range = isPage ? undefined : (request.headers.get("range") ?? undefined)
+    let file: Awaited<ReturnType<typeof getFromR2>>
+    try {
+      file = await getFromR2(packageFileKey(packageId, path), range)
+    } catch (error) {
+      if ((error as { name?: string }).name === "InvalidRange") {
+        return new NextResponse(null, { status: 416 })
+      }
+      throw error
+    }
+    if (!file) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 })
+    }
+
+    const playerOrigin = packagesOrigin ? new URL(getAppUrl()).origin : request.nextUrl.origin
+    const headers = new Headers({
+      "Content-Type": file.contentType || contentType,
+      "Cache-Control": "private, max-age=3600",
+      "Accept-Ranges": "bytes",
+      "X-Content-Type-Options": "nosniff",
+      // An opaque origin wherever the file opens, and only our player may frame it
+      "Content-Security-Policy": `sandbox allow-scripts allow-forms allow-popups; frame-ancestors ${playerOrigin}`,
+    })
+
+    const runtime =
+      isPage && (file.contentLength ?? 0) <= MAX_RUNTIME_PAGE_BYTES ? await getPackageRuntimeCmi(claims) : null
+    if (runtime) {
+      const page = injectScript(
+        await file.body.transformToByteArray(),
+        buildScormRuntimeScript(runtime.standard, runtime.cmi, playerOrigin)
+      )
+      // The page now carries the learner's saved progress
+      headers.set("Cache-Control", "private, no-store")
+      headers.set("Content-Length", String(page.length))
+      return new NextResponse(page, { status: 200, headers })
+    }
+
+    if (file.contentLength !== null) headers.set("Content-Length", String(file.contentLength))
+    if (file.contentRange) headers.set("Content-Range", file.contentRange)
+    if (file.etag) headers.set("ETag", file.etag)
+
+    return new NextResponse(file.body.transformToWebStream(), {
+      status: file.contentRange ? 206 : 200,
+      headers,
+    })
+  } catch (error) {
+    console.error("[Package file] Failed:", error)
+    return NextResponse.json({ error: "Failed to load file" }, { status: 500 })
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getPaymentProvider, applyPaymentEvent } from "@/lib/payments"
+
+/**
+ * Payment provider webhook.
+ * The signature is verified against the raw body before anything is read,
+ * and only a confirmed payment creates the enrollment.
+ */
+export async function POST(req: NextRequest) {
+  const rawBody = await req.text()
+
+  let event
+  try {
+    event = getPaymentProvider().parseWebhook(rawBody, req.headers)
+  } catch (error) {
+    console.error("[Payments] Rejected webhook:", error)
+    return NextResponse.json({ error: "Invalid webhook" }, { status: 400 })
+  }
+
+  try {
+    const result = await applyPaymentEvent(event)
+    return NextResponse.json({ ok: true, ...result })
+  } catch (error) {
+    console.error("[Payments] Webhook processing failed:", error)
+    // Non-2xx so the provider retries
+    return NextResponse.json({ error: "Failed" }, { status: 500 })
+  }
+}
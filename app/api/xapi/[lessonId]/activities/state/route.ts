@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from "next/server"
+import connectDB from "@/lib/db"
+import { ScormAttempt } from "@/lib/db/models"
+import { getXapiContext, readXapiCredentials } from "@/lib/scorm"
+
+const XAPI_VERSION = "1.0.3"
+const MAX_STATE_BYTES = 256 * 1024
+const MAX_STATES = 20
+
+/**
+ * The state resource of each xAPI package lesson's LRS — where packages
+ * keep bookmarks and suspend data between sessions. States belong to the
+ * student the launch token names, whatever agent the package names.
+ */
+async function resolve(request: NextRequest, params: Promise<{ lessonId: string }>) {
+  const { lessonId } = await params
+  const user = readXapiCredentials(request.headers.get("authorization"), lessonId)
+  const context = await getXapiContext(user, lessonId)
+  const search = request.nextUrl.searchParams
+  const activityId = search.get("activityId")
+  if (!user || !context || !activityId) return null
+
+  await connectDB()
+  return {
+    user,
+    context,
+    activityId,
+    stateId: search.get("stateId"),
+    registration: search.get("registration"),
+  }
+}
+
+function matches(
+  state: { activityId: string; stateId: string; registration: string | null },
+  query: { activityId: string; stateId?: string | null; registration: string | null }
+) {
+  return (
+    state.activityId === query.activityId &&
+    (query.stateId ? state.stateId === query.stateId : true) &&
+    (state.registration ?? null) === (query.registration ?? null)
+  )
+}
+
+function xapiHeaders(contentType?: string) {
+  const headers: Record<string, string> = { "X-Experience-API-Version": XAPI_VERSION }
+  if (contentType) headers["Content-Type"] = contentType
+  return headers
+}
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ lessonId: string }> }) {
+  try {
+    const query = await resolve(request, params)
+    if (!query) return NextResponse.json({ error: "Not found" }, { status: 404 })
+
+    const attempt = query.context.tracked
+      ? await ScormAttempt.findOne({ user: query.user.id, lesson: query.context.lesson._id })
+          .select("xapiStates")
+          .lean()
+      : null
+    const states = (attempt?.xapiStates ?? []).filter((s) => matches(s, { ...query, stateId: null }))
+
+    // No stateId lists the ids
+    if (!query.stateId) {
+      return NextResponse.json(
+        states.map((s) => s.stateId),
+        { headers: xapiHeaders() }
+      )
+    }
+
+    const state = states.find((s) => s.stateId === query.stateId)
+    if (!state) return new NextResponse(null, { status: 404, headers: xapiHeaders() })
+    return new NextResponse(state.value, { headers: xapiHeaders(state.contentType) })
+  } catch (error) {
+    console.error("[xAPI state] Failed:", error)
+    return NextResponse.json({ error: "Failed to load state" }, { status: 500 })
+  }
+}
+
+/**
+ * PUT replaces a state; POST merges JSON objects into it
+ */
+async function saveState(request: NextRequest, params: Promise<{ lessonId: string }>, merge: boolean) {
+  try {
+    const query = await resolve(request, params)
+    if (!query || !query.stateId) return NextResponse.json({ error: "Not found" }, { status: 404 })
+
+    const value = await request.text()
+    if (value.length > MAX_STATE_BYTES) {
+      return NextResponse.json({ error: "State is too large" }, { status: 413 })
+    }
+    // Runs without saved progress accept the write and keep nothing
+    if (!query.context.tracked) return new NextResponse(null, { status: 204, headers: xapiHeaders() })
+
+    const contentType = request.headers.get("content-type") || "application/octet-stream"
+    const { lesson } = query.context
+    const attempt =
+      (await ScormAttempt.findOne({ user: query.user.id, lesson: lesson._id })) ??
+      new ScormAttempt({
+        user: query.user.id,
+        lesson: lesson._id,
+        course: lesson.course,
+        standard: lesson.scorm.standard,
+      })
+
+    const existing = attempt.xapiStates.find((s) => matches(s, query))
+    let nextValue = value
+    if (merge && existing && contentType.includes("json") && existing.contentType.includes("json")) {
+      try {
+        const current = JSON.parse(existing.value)
+        const incoming = JSON.parse(value)
+        if (current && incoming && typeof current === "object" && typeof incoming === "object") {
+          nextValue = JSON.stringify({ ...current, ...incoming })
+        }
+      } catch {
+        return NextResponse.json({ error: "Invalid JSON" }, { status: 400 })
+      }
+    }
+
+    if (existing) {
+      existing.value = nextValue
+      existing.contentType = contentType
+      existing.updatedAt = new Date()
+    } else {
+      if (attempt.xapiStates.length >= MAX_STATES) {
+        return NextResponse.json({ error: "Too many states" }, { status: 413 })
+      }
+      attempt.xapiStates.push({
+        activityId: query.activityId,
+        stateId: query.stateId,
+        registration: query.registration,
+        contentType,
+        value: nextValue,
+        updatedAt: new Date(),
+      })
+    }
+    await attempt.save()
+
+    return new NextResponse(null, { status: 204, headers: xapiHeaders() })
+  } catch (error) {
+    console.error("[xAPI state] Failed:", error)
+    return NextResponse.json({ error: "Failed to save state" }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ lessonId: string }> }) {
+  return saveState(request, params, false)
+}
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ lessonId: string }> }) {
+  return saveState(request, params, true)
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ lessonId: string }> }) {
+  try {
+    const query = await resolve(request, params)
+    if (!query) return NextResponse.json({ error: "Not found" }, { status: 404 })
+
+    if (query.context.tracked) {
+      const attempt = await ScormAttempt.findOne({ user: query.user.id, lesson: query.context.lesson._id })
+      if (attempt) {
+        attempt.xapiStates = attempt.xapiStates.filter((s) => !matches(s, query))
+        await attempt.save()
+      }
+    }
+
+    return new NextResponse(null, { status: 204, headers: xapiHeaders() })
+  } catch (error) {
+    console.error("[xAPI state] Failed:", error)
+    return NextResponse.json({ error: "Failed to delete state" }, { status: 500 })
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server"
+import { randomUUID } from "crypto"
+import {
+  getXapiContext,
+  readXapiCredentials,
+  readXapiStatement,
+  recordScormProgress,
+  type ScormOutcome,
+} from "@/lib/scorm"
+import { recordLessonCompletion } from "@/lib/lesson-completion"
+
+const XAPI_VERSION = "1.0.3"
+const MAX_STATEMENTS = 50
+
+/**
+ * The statements resource of the minimal LRS each xAPI package lesson
+ * launches against (see ScormPlayer). Statements aren't stored — the ones
+ * about the package's own activity update the student's completion and
+ * score, and completing it completes the lesson.
+ *
+ * Packages call it from their sandboxed frame with their launch token,
+ * never cookies (CORS headers are set in next.config.ts).
+ */
+async function receiveStatements(request: NextRequest, lessonId: string, body: unknown) {
+  const user = readXapiCredentials(request.headers.get("authorization"), lessonId)
+  const context = await getXapiContext(user, lessonId)
+  if (!user || !context) {
+    return { error: NextResponse.json({ error: "Not found" }, { status: 404 }) }
+  }
+
+  const statements = (Array.isArray(body) ? body : [body]).slice(0, MAX_STATEMENTS)
+  if (statements.some((s) => !s || typeof s !== "object")) {
+    return { error: NextResponse.json({ error: "Invalid statement" }, { status: 400 }) }
+  }
+
+  const ids = statements.map((s: { id?: string }) => (typeof s.id === "string" && s.id ? s.id : randomUUID()))
+
+  if (context.tracked) {
+    const outcome: Partial<ScormOutcome> = {}
+    for (const statement of statements) {
+      Object.assign(outcome, readXapiStatement(statement, context.lesson.scorm.activityId))
+    }
+    if (Object.keys(outcome).length > 0) {
+      const { newlyCompleted } = await recordScormProgress(user.id, context.lesson, { outcome })
+      if (newlyCompleted) {
+        await recordLessonCompletion(user.id, context.lesson.course.toString(), lessonId)
+      }
+    }
+  }
+
+  return { ids }
+}
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ lessonId: string }> }) {
+  try {
+    const { lessonId } = await params
+    const result = await receiveStatements(request, lessonId, await request.json().catch(() => null))
+    if (result.error) return result.error
+    return NextResponse.json(result.ids, { headers: { "X-Experience-API-Version": XAPI_VERSION } })
+  } catch (error) {
+    console.error("[xAPI statements] Failed:", error)
+    return NextResponse.json({ error: "Failed to record statements" }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ lessonId: string }> }) {
+  try {
+    const { lessonId } = await params
+    const statementId = request.nextUrl.searchParams.get("statementId")
+    const body = await request.json().catch(() => null)
+    if (!statementId || !body || typeof body !== "object" || Array.isArray(body)) {
+      return NextResponse.json({ error: "statementId and a statement are required" }, { status: 400 })
+    }
+
+    const result = await receiveStatements(request, lessonId, { ...body, id: statementId })
+    if (result.error) return result.error
+    return new NextResponse(null, { status: 204, headers: { "X-Experience-API-Version": XAPI_VERSION } })
+  } catch (error) {
+    console.error("[xAPI statements] Failed:", error)
+    return NextResponse.json({ error: "Failed to record statement" }, { status: 500 })
+  }
+}
+
+/**
+ * Packages sometimes read their own statements back; nothing is kept
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ lessonId: string }> }) {
+  const { lessonId } = await params
+  if (!(await getXapiContext(readXapiCredentials(request.headers.get("authorization"), lessonId), lessonId))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+  return NextResponse.json(
+    { statements: [], more: "" },
+    { headers: { "X-Experience-API-Version": XAPI_VERSION } }
+  )
+}
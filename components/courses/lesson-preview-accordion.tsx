@@ -15,15 +15,21 @@ import {
   Video01Icon,
   LockIcon,
   ArrowDown01Icon,
+  Quiz02Icon,
+  AssignmentsIcon,
+  Package01Icon,
 } from "@hugeicons/core-free-icons"
-import type { PublicCourseLesson } from "@/lib/actions/student"
+import type { PublicCourseLesson, PublicCourseSection } from "@/lib/actions/student"
 import { PreviewVideoPlayer } from "./preview-video-player"
 
 interface LessonPreviewAccordionProps {
+  sections: PublicCourseSection[]
   lessons: PublicCourseLesson[]
   courseId: string
   coursePricing: "free" | "paid"
   coursePrice: number | null
+  /** Open every lesson, not just free previews (the instructor's draft preview) */
+  previewAll?: boolean
 }
 
 // Calculate reading time from text content (average 200 words per minute)
@@ -49,19 +55,27 @@ function formatVideoDuration(durationMins: number | null): string {
 }
 
 export function LessonPreviewAccordion({
+  sections,
   lessons,
   courseId,
   coursePricing,
   coursePrice,
+  previewAll = false,
 }: LessonPreviewAccordionProps) {
   const [openLessonId, setOpenLessonId] = useState<string | null>(null)
 
-  const getLessonTypeIcon = (type: "video" | "live" | "text") => {
+  const getLessonTypeIcon = (type: "video" | "live" | "text" | "quiz" | "assignment" | "scorm") => {
     switch (type) {
       case "video":
         return Video01Icon
       case "text":
         return TextIcon
+      case "quiz":
+        return Quiz02Icon
+      case "assignment":
+        return AssignmentsIcon
+      case "scorm":
+        return Package01Icon
       default:
         return PlayIcon
     }
@@ -76,188 +90,243 @@ export function LessonPreviewAccordion({
         return `${readMins} min read`
       case "live":
         return "Live Session"
+      case "quiz":
+        return "Quiz"
+      case "assignment":
+        return "Assignment"
+      case "scorm":
+        return "SCORM / xAPI"
       default:
         return lesson.type
     }
   }
 
-  return (
-    <div className="space-y-2">
-      {lessons.map((lesson, index) => {
-        const canPreview = lesson.isFree
-        const isOpen = openLessonId === lesson.id
-        const hasContent =
-          (lesson.type === "video" && lesson.videoUrl) ||
-          (lesson.type === "text" && lesson.content)
+  const renderLesson = (lesson: PublicCourseLesson) => {
+    const index = lessons.indexOf(lesson)
+    const canPreview = previewAll || lesson.isFree
+    const isOpen = openLessonId === lesson.id
+    const hasContent =
+      (lesson.type === "video" && lesson.videoUrl) ||
+      (lesson.type === "text" && lesson.content)
 
-        // Non-free lessons - no accordion
-        if (!canPreview) {
-          return (
-            <div
-              key={lesson.id}
-              className="rounded-lg border overflow-hidden bg-background"
-            >
-              <div className="w-full p-3 flex items-center gap-3">
-                {/* Thumbnail or Number */}
-                {lesson.thumbnailUrl ? (
-                  <div className="relative w-16 h-10 shrink-0 rounded-md bg-muted overflow-hidden">
-                    <Image
-                      src={lesson.thumbnailUrl}
-                      alt={lesson.title}
-                      fill
-                      className="object-cover"
-                      sizes="64px"
-                    />
-                    {lesson.type === "video" && (
-                      <div className="absolute inset-0 flex items-center justify-center bg-black/30">
-                        <div className="w-5 h-5 rounded-full bg-white/90 flex items-center justify-center">
-                          <HugeiconsIcon
-                            icon={PlayIcon}
-                            size={10}
-                            className="text-black ml-0.5"
-                          />
-                        </div>
-                      </div>
-                    )}
+    // Non-free lessons - no accordion
+    if (!canPreview) {
+      return (
+        <div
+          key={lesson.id}
+          className="rounded-lg border overflow-hidden bg-background"
+        >
+          <div className="w-full p-3 flex items-center gap-3">
+            {/* Thumbnail or Number */}
+            {lesson.thumbnailUrl ? (
+              <div className="relative w-16 h-10 shrink-0 rounded-md bg-muted overflow-hidden">
+                <Image
+                  src={lesson.thumbnailUrl}
+                  alt={lesson.title}
+                  fill
+                  className="object-cover"
+                  sizes="64px"
+                />
+                {lesson.type === "video" && (
+                  <div className="absolute inset-0 flex items-center justify-center bg-black/30">
+                    <div className="w-5 h-5 rounded-full bg-white/90 flex items-center justify-center">
+                      <HugeiconsIcon
+                        icon={PlayIcon}
+                        size={10}
+                        className="text-black ml-0.5"
+                      />
+                    </div>
                   </div>
-                ) : (
-                  <span className="flex h-10 w-10 shrink-0 items-center justify-center rounded-md bg-primary/10 text-sm font-medium text-primary">
-                    {index + 1}
-                  </span>
                 )}
+              </div>
+            ) : (
+              <span className="flex h-10 w-10 shrink-0 items-center justify-center rounded-md bg-primary/10 text-sm font-medium text-primary">
+                {index + 1}
+              </span>
+            )}
 
-                {/* Lesson Info */}
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm font-medium truncate">{lesson.title}</p>
-                  <div className="flex items-center gap-2 mt-0.5">
-                    <HugeiconsIcon
-                      icon={getLessonTypeIcon(lesson.type)}
-                      size={12}
-                      className="text-muted-foreground shrink-0"
-                    />
-                    <span className="text-[11px] text-muted-foreground">
-                      {getLessonDurationLabel(lesson)}
-                    </span>
-                  </div>
-                </div>
-
+            {/* Lesson Info */}
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium truncate">{lesson.title}</p>
+              <div className="flex items-center gap-2 mt-0.5">
                 <HugeiconsIcon
-                  icon={LockIcon}
-                  size={14}
+                  icon={getLessonTypeIcon(lesson.type)}
+                  size={12}
                   className="text-muted-foreground shrink-0"
                 />
+                <span className="text-[11px] text-muted-foreground">
+                  {getLessonDurationLabel(lesson)}
+                </span>
               </div>
             </div>
-          )
-        }
 
-        // Free/Preview lessons - with accordion
-        return (
-          <Collapsible
-            key={lesson.id}
-            open={isOpen}
-            onOpenChange={(open) => setOpenLessonId(open ? lesson.id : null)}
-          >
-            <div className="rounded-lg border overflow-hidden bg-background hover:bg-muted/30 transition-colors">
-              <CollapsibleTrigger className="w-full p-3 flex items-center gap-3 text-left">
-                {/* Thumbnail or Number */}
-                {lesson.thumbnailUrl ? (
-                  <div className="relative w-16 h-10 shrink-0 rounded-md bg-muted overflow-hidden">
-                    <Image
-                      src={lesson.thumbnailUrl}
-                      alt={lesson.title}
-                      fill
-                      className="object-cover"
-                      sizes="64px"
-                    />
-                    {lesson.type === "video" && (
-                      <div className="absolute inset-0 flex items-center justify-center bg-black/30">
-                        <div className="w-5 h-5 rounded-full bg-white/90 flex items-center justify-center">
-                          <HugeiconsIcon
-                            icon={PlayIcon}
-                            size={10}
-                            className="text-black ml-0.5"
-                          />
-                        </div>
-                      </div>
-                    )}
+            <HugeiconsIcon
+              icon={LockIcon}
+              size={14}
+              className="text-muted-foreground shrink-0"
+            />
+          </div>
+        </div>
+      )
+    }
+
+    // Free/Preview lessons - with accordion
+    return (
+      <Collapsible
+        key={lesson.id}
+        open={isOpen}
+        onOpenChange={(open) => setOpenLessonId(open ? lesson.id : null)}
+      >
+        <div className="rounded-lg border overflow-hidden bg-background hover:bg-muted/30 transition-colors">
+          <CollapsibleTrigger className="w-full p-3 flex items-center gap-3 text-left">
+            {/* Thumbnail or Number */}
+            {lesson.thumbnailUrl ? (
+              <div className="relative w-16 h-10 shrink-0 rounded-md bg-muted overflow-hidden">
+                <Image
+                  src={lesson.thumbnailUrl}
+                  alt={lesson.title}
+                  fill
+                  className="object-cover"
+                  sizes="64px"
+                />
+                {lesson.type === "video" && (
+                  <div className="absolute inset-0 flex items-center justify-center bg-black/30">
+                    <div className="w-5 h-5 rounded-full bg-white/90 flex items-center justify-center">
+                      <HugeiconsIcon
+                        icon={PlayIcon}
+                        size={10}
+                        className="text-black ml-0.5"
+                      />
+                    </div>
                   </div>
-                ) : (
-                  <span className="flex h-10 w-10 shrink-0 items-center justify-center rounded-md bg-primary/10 text-sm font-medium text-primary">
-                    {index + 1}
-                  </span>
                 )}
+              </div>
+            ) : (
+              <span className="flex h-10 w-10 shrink-0 items-center justify-center rounded-md bg-primary/10 text-sm font-medium text-primary">
+                {index + 1}
+              </span>
+            )}
 
-                {/* Lesson Info */}
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm font-medium truncate">{lesson.title}</p>
-                  <div className="flex items-center gap-2 mt-0.5">
-                    <HugeiconsIcon
-                      icon={getLessonTypeIcon(lesson.type)}
-                      size={12}
-                      className="text-muted-foreground shrink-0"
-                    />
-                    <span className="text-[11px] text-muted-foreground">
-                      {getLessonDurationLabel(lesson)}
-                    </span>
-                  </div>
-                </div>
+            {/* Lesson Info */}
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium truncate">{lesson.title}</p>
+              <div className="flex items-center gap-2 mt-0.5">
+                <HugeiconsIcon
+                  icon={getLessonTypeIcon(lesson.type)}
+                  size={12}
+                  className="text-muted-foreground shrink-0"
+                />
+                <span className="text-[11px] text-muted-foreground">
+                  {getLessonDurationLabel(lesson)}
+                </span>
+              </div>
+            </div>
 
-                {/* Right side: Badge + Arrow */}
-                <div className="flex items-center gap-2 shrink-0">
-                  <Badge variant="secondary" className="text-[10px]">
-                    Preview
-                  </Badge>
-                  <HugeiconsIcon
-                    icon={ArrowDown01Icon}
-                    size={16}
-                    className={`text-muted-foreground transition-transform duration-200 ${
-                      isOpen ? "rotate-180" : ""
-                    }`}
-                  />
-                </div>
-              </CollapsibleTrigger>
+            {/* Right side: Badge + Arrow */}
+            <div className="flex items-center gap-2 shrink-0">
+              {lesson.isFree && (
+                <Badge variant="secondary" className="text-[10px]">
+                  Preview
+                </Badge>
+              )}
+              <HugeiconsIcon
+                icon={ArrowDown01Icon}
+                size={16}
+                className={`text-muted-foreground transition-transform duration-200 ${
+                  isOpen ? "rotate-180" : ""
+                }`}
+              />
+            </div>
+          </CollapsibleTrigger>
 
-              {/* Expandable Content */}
-              <CollapsibleContent>
-                <div className="px-3 pb-3 space-y-3">
-                  {/* Description */}
-                  {lesson.description && (
-                    <p className="text-xs text-muted-foreground">
-                      {lesson.description}
-                    </p>
-                  )}
+          {/* Expandable Content */}
+          <CollapsibleContent>
+            <div className="px-3 pb-3 space-y-3">
+              {/* Description */}
+              {lesson.description && (
+                <p className="text-xs text-muted-foreground">
+                  {lesson.description}
+                </p>
+              )}
 
-                  {/* Video Preview with custom player */}
-                  {lesson.type === "video" && lesson.videoUrl && (
-                    <PreviewVideoPlayer
-                      src={lesson.videoUrl}
-                      poster={lesson.thumbnailUrl}
-                      courseId={courseId}
-                      coursePricing={coursePricing}
-                      coursePrice={coursePrice}
-                    />
-                  )}
+              {/* Video Preview with custom player */}
+              {lesson.type === "video" && lesson.videoUrl && (
+                <PreviewVideoPlayer
+                  src={lesson.videoUrl}
+                  poster={lesson.thumbnailUrl}
+                  courseId={courseId}
+                  coursePricing={coursePricing}
+                  coursePrice={coursePrice}
+                />
+              )}
 
-                  {/* Text Content Preview */}
-                  {lesson.type === "text" && lesson.content && (
-                    <div
-                      className="prose prose-sm dark:prose-invert max-w-none text-sm text-muted-foreground [&>*:first-child]:mt-0 [&>*:last-child]:mb-0"
-                      dangerouslySetInnerHTML={{
-                        __html: lesson.content,
-                      }}
-                    />
-                  )}
+              {/* Text Content Preview */}
+              {lesson.type === "text" && lesson.content && (
+                <div
+                  className="prose prose-sm dark:prose-invert max-w-none text-sm text-muted-foreground [&>*:first-child]:mt-0 [&>*:last-child]:mb-0"
+                  dangerouslySetInnerHTML={{
+                    __html: lesson.content,
+                  }}
+                />
+              )}
 
-                  {/* No content available */}
-                  {!hasContent && (
-                    <p className="text-xs text-muted-foreground italic">
-                      Preview content not available
-                    </p>
-                  )}
-                </div>
-              </CollapsibleContent>
+              {/* No content available */}
+              {!hasContent && (
+                <p className="text-xs text-muted-foreground italic">
+                  Preview content not available
+                </p>
+              )}
             </div>
+          </CollapsibleContent>
+        </div>
+      </Collapsible>
+    )
+  }
+
+  // Courses without sections keep a flat list
+  if (sections.length === 0) {
+    return <div className="space-y-2">{lessons.map(renderLesson)}</div>
+  }
+
+  const sectionIds = new Set(sections.map((s) => s.id))
+  const unsectioned = lessons.filter((l) => !l.sectionId || !sectionIds.has(l.sectionId))
+
+  return (
+    <div className="space-y-4">
+      {unsectioned.length > 0 && <div className="space-y-2">{unsectioned.map(renderLesson)}</div>}
+      {sections.map((section, sectionIndex) => {
+        const sectionLessons = lessons.filter((l) => l.sectionId === section.id)
+        const sectionMins = sectionLessons.reduce((sum, l) => sum + (l.duration ?? 0), 0)
+
+        return (
+          <Collapsible key={section.id} defaultOpen>
+            <CollapsibleTrigger className="group w-full flex items-center gap-3 py-2 text-left">
+              <div className="flex-1 min-w-0">
+                <p className="text-xs text-muted-foreground">Section {sectionIndex + 1}</p>
+                <p className="text-sm font-semibold truncate">{section.title}</p>
+              </div>
+              <span className="text-[11px] text-muted-foreground shrink-0">
+                {sectionLessons.length} {sectionLessons.length === 1 ? "lesson" : "lessons"}
+                {sectionMins > 0 && ` · ${sectionMins}min`}
+              </span>
+              <HugeiconsIcon
+                icon={ArrowDown01Icon}
+                size={16}
+                className="text-muted-foreground shrink-0 transition-transform duration-200 group-data-[panel-open]:rotate-180"
+              />
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+              <div className="space-y-2 pb-2">
+                {section.description && (
+                  <p className="text-xs text-muted-foreground">{section.description}</p>
+                )}
+                {sectionLessons.length > 0 ? (
+                  sectionLessons.map(renderLesson)
+                ) : (
+                  <p className="text-xs text-muted-foreground italic">Lessons coming soon</p>
+                )}
+              </div>
+            </CollapsibleContent>
           </Collapsible>
         )
       })}
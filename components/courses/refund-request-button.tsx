@@ -0,0 +1,113 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { useRouter } from "next/navigation"
+import { HugeiconsIcon } from "@hugeicons/react"
+import { MoneyReceive01Icon } from "@hugeicons/core-free-icons"
+import {
+  ResponsiveModal,
+  ResponsiveModalContent,
+  ResponsiveModalHeader,
+  ResponsiveModalFooter,
+  ResponsiveModalTitle,
+  ResponsiveModalDescription,
+} from "@/components/ui/responsive-modal"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { requestRefund, type RefundEligibility } from "@/lib/actions/refunds"
+
+export function RefundRequestButton({
+  courseId,
+  eligibility,
+}: {
+  courseId: string
+  eligibility: RefundEligibility
+}) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [reason, setReason] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  function handleSubmit() {
+    setError(null)
+    startTransition(async () => {
+      const result = await requestRefund(courseId, reason)
+      if (result.success) {
+        setOpen(false)
+        router.refresh()
+      } else {
+        setError(result.error || "Something went wrong")
+      }
+    })
+  }
+
+  // Show the state of an existing request instead of the button
+  if (eligibility.request) {
+    const { status, reviewNote } = eligibility.request
+    return (
+      <div className="rounded-xl border border-border/50 bg-muted/30 px-4 py-3 space-y-1">
+        <p className="text-sm font-medium">
+          {status === "pending"
+            ? "Refund requested — awaiting review"
+            : status === "approved"
+              ? "Refund approved"
+              : "Refund request declined"}
+        </p>
+        {reviewNote && <p className="text-xs text-muted-foreground">{reviewNote}</p>}
+      </div>
+    )
+  }
+
+  if (!eligibility.eligible) return null
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="text-muted-foreground gap-1.5"
+        onClick={() => setOpen(true)}
+      >
+        <HugeiconsIcon icon={MoneyReceive01Icon} size={14} />
+        Request a refund
+      </Button>
+
+      <ResponsiveModal open={open} onOpenChange={setOpen}>
+        <ResponsiveModalContent>
+          <ResponsiveModalHeader>
+            <ResponsiveModalTitle>Request a refund</ResponsiveModalTitle>
+            <ResponsiveModalDescription>
+              Refunds are available within {eligibility.windowDays} days of purchase and
+              before {eligibility.maxProgress}% progress. If approved, you&apos;ll lose access
+              to the course and the amount is returned to your wallet.
+            </ResponsiveModalDescription>
+          </ResponsiveModalHeader>
+
+          <Textarea
+            placeholder="Why would you like a refund?"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            maxLength={1000}
+            autoFocus
+          />
+
+          {error && <p className="text-xs text-red-500">{error}</p>}
+
+          <ResponsiveModalFooter>
+            <Button variant="outline" size="sm" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleSubmit}
+              disabled={isPending || reason.trim().length < 10}
+            >
+              {isPending ? "Submitting..." : "Submit request"}
+            </Button>
+          </ResponsiveModalFooter>
+        </ResponsiveModalContent>
+      </ResponsiveModal>
+    </>
+  )
+}
@@ -0,0 +1,146 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { HugeiconsIcon } from "@hugeicons/react"
+import { Add01Icon, Delete01Icon } from "@hugeicons/core-free-icons"
+import type { LessonAssignment, RubricCriterion } from "@/lib/types"
+
+export function emptyAssignment(): LessonAssignment {
+  return {
+    allowFiles: true,
+    allowText: true,
+    rubric: [emptyCriterion()],
+  }
+}
+
+function emptyCriterion(): RubricCriterion {
+  return {
+    id: crypto.randomUUID(),
+    title: "",
+    description: null,
+    maxPoints: 10,
+  }
+}
+
+/* ─── Assignment Editor (controlled) ─── */
+export function AssignmentEditor({
+  value,
+  onChange,
+}: {
+  value: LessonAssignment
+  onChange: (assignment: LessonAssignment) => void
+}) {
+  function updateCriterion(id: string, updates: Partial<RubricCriterion>) {
+    onChange({
+      ...value,
+      rubric: value.rubric.map((c) => (c.id === id ? { ...c, ...updates } : c)),
+    })
+  }
+
+  const totalPoints = value.rubric.reduce((s, c) => s + (Number(c.maxPoints) || 0), 0)
+
+  return (
+    <div className="space-y-3">
+      {/* Submission types */}
+      <div className="rounded-lg border bg-background divide-y">
+        <div className="flex items-center justify-between px-3 py-2.5">
+          <div className="space-y-0.5">
+            <Label className="text-xs font-medium">File uploads</Label>
+            <p className="text-[10px] text-muted-foreground">
+              PDFs, images, spreadsheets and documents
+            </p>
+          </div>
+          <Switch
+            checked={value.allowFiles}
+            onCheckedChange={(checked) => onChange({ ...value, allowFiles: checked })}
+          />
+        </div>
+        <div className="flex items-center justify-between px-3 py-2.5">
+          <div className="space-y-0.5">
+            <Label className="text-xs font-medium">Written answer</Label>
+            <p className="text-[10px] text-muted-foreground">
+              Students write their submission in a rich text editor
+            </p>
+          </div>
+          <Switch
+            checked={value.allowText}
+            onCheckedChange={(checked) => onChange({ ...value, allowText: checked })}
+          />
+        </div>
+      </div>
+
+      {/* Rubric */}
+      <div className="space-y-1.5">
+        <Label>Rubric</Label>
+        {value.rubric.map((criterion, i) => (
+          <div key={criterion.id} className="rounded-lg border bg-background p-2.5 space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-[11px] font-mono font-semibold text-muted-foreground w-5 text-center shrink-0">
+                {i + 1}
+              </span>
+              <Input
+                placeholder="e.g. Identifies key support and resistance levels"
+                className="h-8"
+                value={criterion.title}
+                onChange={(e) => updateCriterion(criterion.id, { title: e.target.value })}
+              />
+              <Input
+                type="number"
+                min="1"
+                className="w-16 h-8 text-xs"
+                aria-label="Max points"
+                value={criterion.maxPoints}
+                onChange={(e) =>
+                  updateCriterion(criterion.id, { maxPoints: Number(e.target.value) })
+                }
+              />
+              <span className="text-[11px] text-muted-foreground shrink-0">pts</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon-sm"
+                className="text-destructive hover:text-destructive"
+                disabled={value.rubric.length === 1}
+                onClick={() =>
+                  onChange({
+                    ...value,
+                    rubric: value.rubric.filter((c) => c.id !== criterion.id),
+                  })
+                }
+              >
+                <HugeiconsIcon icon={Delete01Icon} size={14} />
+              </Button>
+            </div>
+            <Input
+              placeholder="What earns full marks? (optional)"
+              className="h-8 text-xs"
+              value={criterion.description ?? ""}
+              onChange={(e) =>
+                updateCriterion(criterion.id, { description: e.target.value || null })
+              }
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="border-dashed"
+          onClick={() => onChange({ ...value, rubric: [...value.rubric, emptyCriterion()] })}
+        >
+          <HugeiconsIcon icon={Add01Icon} size={14} />
+          Add Criterion
+        </Button>
+        <span className="text-[11px] text-muted-foreground">
+          {value.rubric.length} criteri{value.rubric.length !== 1 ? "a" : "on"} · {totalPoints} pts
+        </span>
+      </div>
+    </div>
+  )
+}
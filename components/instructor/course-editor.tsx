@@ -27,6 +27,12 @@ import {
 } from "@/components/ui/collapsible"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { SectionDivider } from "@/components/instructor/section-divider"
+import { QuizEditor, emptyQuiz } from "@/components/instructor/quiz-editor"
+import { AssignmentEditor, emptyAssignment } from "@/components/instructor/assignment-editor"
+import { ScormPackageUpload } from "@/components/instructor/scorm-package-upload"
+import { VideoCaptionsEditor } from "@/components/instructor/video-captions-editor"
+import { LessonReleaseEditor, emptyRelease } from "@/components/instructor/lesson-release-editor"
+import { CourseVersionBar } from "@/components/instructor/course-version-bar"
 import { HugeiconsIcon } from "@hugeicons/react"
 import {
   ArrowLeft01Icon,
@@ -38,6 +44,9 @@ import {
   Tick02Icon,
   Edit01Icon,
   File01Icon,
+  Quiz02Icon,
+  AssignmentsIcon,
+  Package01Icon,
 } from "@hugeicons/core-free-icons"
 import { cn } from "@/lib/utils"
 import { ThemeToggle } from "@/components/theme-toggle"
@@ -49,7 +58,8 @@ import {
   DropdownMenuItem,
 } from "@/components/ui/dropdown-menu"
 import { useUser } from "@/components/providers/user-provider"
-import type { Lesson, CourseLevel, CoursePricing, CourseStatus, CourseCategory } from "@/lib/types"
+import type { CourseVersionState } from "@/lib/actions/course-versions"
+import type { Lesson, LessonQuiz, LessonAssignment, LessonScorm, LessonRelease, CertificateRules, CourseLevel, CoursePricing, CourseStatus, CourseCategory, ManagedCaptionTrack } from "@/lib/types"
 
 // Minimal course data for editing
 type EditableCourse = {
@@ -62,6 +72,7 @@ type EditableCourse = {
   price: number | null
   status: CourseStatus
   category?: CourseCategory
+  certificateRules?: CertificateRules
 }
 
 /* ─── Duration helpers (stored in seconds) ─── */
@@ -100,18 +111,25 @@ type EditorLesson = {
   tempId: string
   title: string
   description: string
-  type: "video" | "text"
+  type: "video" | "text" | "quiz" | "assignment" | "scorm"
   thumbnailUrl: string
   videoUrl: string
   content: string
   duration: string
   autoDuration: boolean
   isFree: boolean
+  quiz: LessonQuiz | null
+  assignment: LessonAssignment | null
+  scorm: LessonScorm | null
+  release: LessonRelease
 }
 
 const typeIcons = {
   video: Video01Icon,
   text: File01Icon,
+  quiz: Quiz02Icon,
+  assignment: AssignmentsIcon,
+  scorm: Package01Icon,
 }
 
 const initialFormState: CourseFormState = {
@@ -132,6 +150,10 @@ function emptyLesson(): EditorLesson {
     duration: "",
     autoDuration: true,
     isFree: false,
+    quiz: null,
+    assignment: null,
+    scorm: null,
+    release: emptyRelease(),
   }
 }
 
@@ -139,12 +161,20 @@ function emptyLesson(): EditorLesson {
 export function CourseEditor({
   course,
   existingLessons = [],
+  versionState,
+  captions,
 }: {
   course?: EditableCourse
   existingLessons?: Lesson[]
+  /** Draft and version history of a live course */
+  versionState?: CourseVersionState | null
+  /** Caption tracks of the course's saved videos, by video URL */
+  captions?: { tracks: Record<string, ManagedCaptionTrack[]>; canGenerate: boolean } | null
 }) {
   const user = useUser()
   const isEdit = !!course
+  // Saving a live course keeps it live and puts the changes in its draft
+  const isLive = course?.status === "published"
   const action = isEdit ? updateCourse : createCourse
   const [state, formAction, isPending] = useActionState(action, initialFormState)
 
@@ -157,6 +187,13 @@ export function CourseEditor({
   const [pricing, setPricing] = useState(course?.pricing ?? "free")
   const [price, setPrice] = useState(course?.price?.toString() ?? "")
   const [status, setStatus] = useState(course?.status ?? "draft")
+  const [certificateRules, setCertificateRules] = useState<CertificateRules>(
+    course?.certificateRules ?? {
+      requireAllLessons: true,
+      requireQuizzesPassed: true,
+      minWatchPercent: 0,
+    }
+  )
   const [previewError, setPreviewError] = useState(false)
   const [uploadError, setUploadError] = useState<string | null>(null)
 
@@ -195,9 +232,15 @@ export function CourseEditor({
       duration: l.duration ? l.duration.toString() : "",
       autoDuration: true,
       isFree: l.isFree,
+      quiz: l.quiz ?? null,
+      assignment: l.assignment ?? null,
+      scorm: l.scorm ?? null,
+      release: l.release ?? emptyRelease(),
     }))
   )
   const [expandedLesson, setExpandedLesson] = useState<string | null>(null)
+  // Captions belong to a video, so they can only be added once it's saved
+  const savedVideoUrls = new Set(existingLessons.map((l) => l.videoUrl).filter(Boolean))
 
   function addNewLesson() {
     const lesson = emptyLesson()
@@ -216,6 +259,14 @@ export function CourseEditor({
     if (expandedLesson === tempId) setExpandedLesson(null)
   }
 
+  function saveWithStatus(next: CourseStatus) {
+    setStatus(next)
+    requestAnimationFrame(() => {
+      const form = document.querySelector<HTMLFormElement>("[data-editor-form]")
+      form?.requestSubmit()
+    })
+  }
+
   /* ─── Render ─── */
   return (
     <div className="flex h-[calc(100svh-1px)] flex-col">
@@ -251,6 +302,11 @@ export function CourseEditor({
             <input type="hidden" name="pricing" value={pricing} />
             <input type="hidden" name="price" value={price} />
             <input type="hidden" name="status" value={status} />
+            <input
+              type="hidden"
+              name="certificateRules"
+              value={JSON.stringify(certificateRules)}
+            />
             <input
               type="hidden"
               name="lessons"
@@ -265,36 +321,41 @@ export function CourseEditor({
                 <HugeiconsIcon icon={ArrowDown01Icon} size={14} />
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end" sideOffset={4}>
-                <DropdownMenuItem
-                  className="text-sm gap-2"
-                  onClick={() => {
-                    setStatus("draft")
-                    requestAnimationFrame(() => {
-                      const form = document.querySelector<HTMLFormElement>(
-                        "[data-editor-form]"
-                      )
-                      form?.requestSubmit()
-                    })
-                  }}
-                >
-                  <HugeiconsIcon icon={Edit01Icon} size={14} />
-                  Save as Draft
-                </DropdownMenuItem>
-                <DropdownMenuItem
-                  className="text-sm gap-2"
-                  onClick={() => {
-                    setStatus("published")
-                    requestAnimationFrame(() => {
-                      const form = document.querySelector<HTMLFormElement>(
-                        "[data-editor-form]"
-                      )
-                      form?.requestSubmit()
-                    })
-                  }}
-                >
-                  <HugeiconsIcon icon={Tick02Icon} size={14} />
-                  Save &amp; Publish
-                </DropdownMenuItem>
+                {isLive ? (
+                  <>
+                    <DropdownMenuItem
+                      className="text-sm gap-2"
+                      onClick={() => saveWithStatus("published")}
+                    >
+                      <HugeiconsIcon icon={Edit01Icon} size={14} />
+                      Save Changes to Draft
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      className="text-sm gap-2"
+                      onClick={() => saveWithStatus("draft")}
+                    >
+                      <HugeiconsIcon icon={ViewIcon} size={14} />
+                      Save &amp; Unpublish
+                    </DropdownMenuItem>
+                  </>
+                ) : (
+                  <>
+                    <DropdownMenuItem
+                      className="text-sm gap-2"
+                      onClick={() => saveWithStatus("draft")}
+                    >
+                      <HugeiconsIcon icon={Edit01Icon} size={14} />
+                      Save as Draft
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      className="text-sm gap-2"
+                      onClick={() => saveWithStatus("published")}
+                    >
+                      <HugeiconsIcon icon={Tick02Icon} size={14} />
+                      Save &amp; Publish
+                    </DropdownMenuItem>
+                  </>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           </form>
@@ -309,6 +370,13 @@ export function CourseEditor({
         </div>
       )}
 
+      {/* ─── Draft & versions (live courses) ─── */}
+      {isEdit && versionState?.usesDrafts && (
+        <div className="border-b px-5 py-2 shrink-0">
+          <CourseVersionBar courseId={course.id} state={versionState} />
+        </div>
+      )}
+
       {/* ─── 3-Column Layout ─── */}
       <div className="flex-1 grid grid-cols-1 lg:grid-cols-[1fr_1fr_340px] overflow-hidden">
         {/* ───────── LEFT: Course Details ───────── */}
@@ -430,6 +498,66 @@ export function CourseEditor({
               </div>
             )}
           </div>
+
+          <SectionDivider label="Certificate" />
+
+          <div className="rounded-lg border bg-background divide-y">
+            <div className="flex items-center justify-between px-3 py-2.5">
+              <div className="space-y-0.5">
+                <Label className="text-xs font-medium">Complete every lesson</Label>
+                <p className="text-[10px] text-muted-foreground">
+                  All published lessons must be marked complete
+                </p>
+              </div>
+              <Switch
+                checked={certificateRules.requireAllLessons}
+                onCheckedChange={(checked) =>
+                  setCertificateRules((r) => ({ ...r, requireAllLessons: checked }))
+                }
+              />
+            </div>
+            <div className="flex items-center justify-between px-3 py-2.5">
+              <div className="space-y-0.5">
+                <Label className="text-xs font-medium">Pass every quiz</Label>
+                <p className="text-[10px] text-muted-foreground">
+                  Students must reach each quiz&apos;s pass mark
+                </p>
+              </div>
+              <Switch
+                checked={certificateRules.requireQuizzesPassed}
+                onCheckedChange={(checked) =>
+                  setCertificateRules((r) => ({ ...r, requireQuizzesPassed: checked }))
+                }
+              />
+            </div>
+            <div className="flex items-center justify-between gap-3 px-3 py-2.5">
+              <div className="space-y-0.5">
+                <Label htmlFor="ed-watch" className="text-xs font-medium">
+                  Minimum watch time
+                </Label>
+                <p className="text-[10px] text-muted-foreground">
+                  Average % watched across video lessons (0 to turn off)
+                </p>
+              </div>
+              <div className="flex items-center gap-1.5 shrink-0">
+                <Input
+                  id="ed-watch"
+                  type="number"
+                  min="0"
+                  max="100"
+                  className="w-16 h-8 text-xs"
+                  value={certificateRules.minWatchPercent}
+                  onChange={(e) =>
+                    setCertificateRules((r) => ({
+                      ...r,
+                      minWatchPercent: Math.min(100, Math.max(0, Number(e.target.value) || 0)),
+                    }))
+                  }
+                />
+                <span className="text-[11px] text-muted-foreground">%</span>
+              </div>
+            </div>
+          </div>
         </div>
 
         {/* ───────── CENTER: Curriculum ───────── */}
@@ -499,6 +627,17 @@ export function CourseEditor({
                                 Free
                               </Badge>
                             )}
+                            {!lesson.isFree &&
+                              (lesson.release.afterDays ||
+                                lesson.release.releaseAt ||
+                                lesson.release.prerequisiteLessonId) && (
+                                <Badge
+                                  variant="outline"
+                                  className="text-[9px] px-1 py-0 ml-1"
+                                >
+                                  Drip
+                                </Badge>
+                              )}
                           </div>
                         </div>
                         <HugeiconsIcon
@@ -549,11 +688,17 @@ export function CourseEditor({
                               <Label>Type</Label>
                               <Select
                                 value={lesson.type}
-                                onValueChange={(v) =>
+                                onValueChange={(v) => {
+                                  const type = (v ?? "video") as EditorLesson["type"]
                                   updateLesson(lesson.tempId, {
-                                    type: (v ?? "video") as EditorLesson["type"],
+                                    type,
+                                    quiz: type === "quiz" ? (lesson.quiz ?? emptyQuiz()) : lesson.quiz,
+                                    assignment:
+                                      type === "assignment"
+                                        ? (lesson.assignment ?? emptyAssignment())
+                                        : lesson.assignment,
                                   })
-                                }
+                                }}
                               >
                                 <SelectTrigger className="w-full">
                                   <SelectValue />
@@ -561,6 +706,9 @@ export function CourseEditor({
                                 <SelectContent>
                                   <SelectItem value="video">Video</SelectItem>
                                   <SelectItem value="text">Text</SelectItem>
+                                  <SelectItem value="quiz">Quiz</SelectItem>
+                                  <SelectItem value="assignment">Assignment</SelectItem>
+                                  <SelectItem value="scorm">SCORM / xAPI</SelectItem>
                                 </SelectContent>
                               </Select>
                             </div>
@@ -649,6 +797,22 @@ export function CourseEditor({
                             />
                           )}
 
+                          {/* Captions */}
+                          {lesson.type === "video" && lesson.videoUrl && course && captions && (
+                            savedVideoUrls.has(lesson.videoUrl) ? (
+                              <VideoCaptionsEditor
+                                courseId={course.id}
+                                videoUrl={lesson.videoUrl}
+                                tracks={captions.tracks[lesson.videoUrl] ?? []}
+                                canGenerate={captions.canGenerate}
+                              />
+                            ) : (
+                              <p className="text-[11px] text-muted-foreground">
+                                Save the course to add captions to this video.
+                              </p>
+                            )
+                          )}
+
                           {/* Text Content Editor */}
                           {lesson.type === "text" && (
                             <div className="space-y-1.5">
@@ -665,6 +829,56 @@ export function CourseEditor({
                             </div>
                           )}
 
+                          {/* Quiz Builder */}
+                          {lesson.type === "quiz" && lesson.quiz && (
+                            <div className="space-y-1.5">
+                              <Label>Quiz</Label>
+                              <QuizEditor
+                                value={lesson.quiz}
+                                onChange={(quiz) =>
+                                  updateLesson(lesson.tempId, { quiz })
+                                }
+                              />
+                            </div>
+                          )}
+
+                          {/* Assignment Instructions + Rubric */}
+                          {lesson.type === "assignment" && lesson.assignment && (
+                            <>
+                              <div className="space-y-1.5">
+                                <Label>Instructions</Label>
+                                <RichTextEditor
+                                  value={lesson.content}
+                                  onChange={(html) =>
+                                    updateLesson(lesson.tempId, {
+                                      content: html,
+                                    })
+                                  }
+                                  placeholder="Describe what students should submit..."
+                                />
+                              </div>
+                              <AssignmentEditor
+                                value={lesson.assignment}
+                                onChange={(assignment) =>
+                                  updateLesson(lesson.tempId, { assignment })
+                                }
+                              />
+                            </>
+                          )}
+
+                          {/* SCORM / xAPI Package */}
+                          {lesson.type === "scorm" && (
+                            <div className="space-y-1.5">
+                              <Label>Package</Label>
+                              <ScormPackageUpload
+                                value={lesson.scorm}
+                                onChange={(scorm) =>
+                                  updateLesson(lesson.tempId, { scorm })
+                                }
+                              />
+                            </div>
+                          )}
+
                           {/* Free preview toggle */}
                           <div className="flex items-center justify-between rounded-lg border bg-background px-3 py-2.5">
                             <div className="space-y-0.5">
@@ -685,6 +899,21 @@ export function CourseEditor({
                             />
                           </div>
 
+                          {/* Drip release + prerequisite */}
+                          <div className="space-y-1.5">
+                            <Label>Availability</Label>
+                            <LessonReleaseEditor
+                              value={lesson.release}
+                              onChange={(release) =>
+                                updateLesson(lesson.tempId, { release })
+                              }
+                              earlierLessons={lessons
+                                .slice(0, i)
+                                .map((l) => ({ id: l.tempId, title: l.title }))}
+                              isFree={lesson.isFree}
+                            />
+                          </div>
+
                           <Separator />
 
                           <div className="flex items-center justify-end">
@@ -0,0 +1,210 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog"
+import { HugeiconsIcon } from "@hugeicons/react"
+import { Clock01Icon, EyeIcon } from "@hugeicons/core-free-icons"
+import {
+  discardDraft,
+  publishDraft,
+  restoreVersion,
+  type CourseVersionState,
+} from "@/lib/actions/course-versions"
+
+function formatWhen(iso: string) {
+  return new Date(iso).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  })
+}
+
+/* ─── Draft status, publish/discard and version history for a live course ─── */
+export function CourseVersionBar({
+  courseId,
+  state,
+}: {
+  courseId: string
+  state: CourseVersionState
+}) {
+  const [publishOpen, setPublishOpen] = useState(false)
+  const [note, setNote] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  // Unpublished and archived courses are edited in place
+  if (!state.usesDrafts) return null
+
+  function run(action: () => Promise<{ success: boolean; error?: string }>, onDone?: () => void) {
+    setError(null)
+    startTransition(async () => {
+      const result = await action()
+      startTransition(() => {
+        if (result.success) onDone?.()
+        else setError(result.error || "Something went wrong")
+      })
+    })
+  }
+
+  function handleDiscard() {
+    if (!window.confirm("Discard all unpublished changes? The live course stays as it is.")) return
+    run(() => discardDraft(courseId))
+  }
+
+  function handlePublish() {
+    run(
+      () => publishDraft(courseId, { note: note.trim() || undefined }),
+      () => {
+        setPublishOpen(false)
+        setNote("")
+      }
+    )
+  }
+
+  function handleRestore(versionId: string, version: number) {
+    const message = state.hasDraft
+      ? `Make version ${version} live again? Your unpublished changes will be discarded.`
+      : `Make version ${version} live again?`
+    if (!window.confirm(message)) return
+    run(() => restoreVersion(courseId, versionId))
+  }
+
+  return (
+    <div className="rounded-lg border bg-muted/30 p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex-1 min-w-0 space-y-0.5">
+          <div className="flex items-center gap-2">
+            <p className="text-sm font-medium">
+              Live: {state.liveVersion ? `version ${state.liveVersion}` : "original version"}
+            </p>
+            {state.hasDraft && (
+              <Badge variant="secondary" className="text-[10px]">
+                Unpublished changes
+              </Badge>
+            )}
+          </div>
+          <p className="text-[11px] text-muted-foreground">
+            {state.hasDraft && state.draftUpdatedAt
+              ? `Draft last saved ${formatWhen(state.draftUpdatedAt)}. Students see the live version until you publish.`
+              : "Changes you save go to a draft. Students see them once you publish."}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Dialog>
+            <DialogTrigger render={<Button variant="ghost" size="sm" />}>
+              <HugeiconsIcon icon={Clock01Icon} size={14} />
+              History
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-lg">
+              <DialogHeader>
+                <DialogTitle>Version History</DialogTitle>
+              </DialogHeader>
+              {state.versions.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-4 text-center">
+                  No versions yet. The current course becomes version 1 when you first publish changes.
+                </p>
+              ) : (
+                <div className="space-y-2 max-h-96 overflow-y-auto">
+                  {state.versions.map((v) => (
+                    <div key={v.id} className="flex items-center gap-3 rounded-lg border p-3">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="text-sm font-medium">Version {v.version}</p>
+                          {v.isLive && <Badge className="text-[10px]">Live</Badge>}
+                        </div>
+                        <p className="text-[11px] text-muted-foreground">
+                          {formatWhen(v.publishedAt)}
+                          {v.publishedByName && ` · ${v.publishedByName}`}
+                          {` · ${v.totalLessons} ${v.totalLessons === 1 ? "lesson" : "lessons"}`}
+                        </p>
+                        {v.note && <p className="text-xs text-muted-foreground mt-1 truncate">{v.note}</p>}
+                      </div>
+                      {!v.isLive && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={isPending}
+                          onClick={() => handleRestore(v.id, v.version)}
+                        >
+                          Restore
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </DialogContent>
+          </Dialog>
+
+          <Button
+            variant="outline"
+            size="sm"
+            render={<Link href={`/instructor/courses/${courseId}/preview`} />}
+          >
+            <HugeiconsIcon icon={EyeIcon} size={14} />
+            Preview
+          </Button>
+
+          {state.hasDraft && (
+            <>
+              <Button variant="ghost" size="sm" disabled={isPending} onClick={handleDiscard}>
+                Discard
+              </Button>
+              <Dialog open={publishOpen} onOpenChange={setPublishOpen}>
+                <DialogTrigger render={<Button size="sm" disabled={isPending} />}>
+                  Publish Changes
+                </DialogTrigger>
+                <DialogContent className="sm:max-w-md">
+                  <DialogHeader>
+                    <DialogTitle>Publish Changes</DialogTitle>
+                  </DialogHeader>
+                  <div className="space-y-3">
+                    <p className="text-sm text-muted-foreground">
+                      Your draft goes live as version {(state.liveVersion ?? 1) + 1}. Students keep
+                      their progress on every lesson that&apos;s still in the course.
+                    </p>
+                    <div className="space-y-1.5">
+                      <Label htmlFor="version-note">What changed (optional)</Label>
+                      <Textarea
+                        id="version-note"
+                        placeholder="e.g. Re-recorded the setup lessons"
+                        className="min-h-16"
+                        value={note}
+                        maxLength={300}
+                        onChange={(e) => setNote(e.target.value)}
+                      />
+                    </div>
+                    {error && <p className="text-xs text-destructive">{error}</p>}
+                  </div>
+                  <DialogFooter>
+                    <DialogClose render={<Button variant="outline" />}>Cancel</DialogClose>
+                    <Button disabled={isPending} onClick={handlePublish}>
+                      {isPending ? "Publishing..." : "Publish"}
+                    </Button>
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
+            </>
+          )}
+        </div>
+      </div>
+      {error && !publishOpen && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,139 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog"
+import { HugeiconsIcon } from "@hugeicons/react"
+import { Upload01Icon } from "@hugeicons/core-free-icons"
+import { useInvalidateInstructorCourses } from "@/lib/hooks/queries"
+import type { CourseImportResponse } from "@/lib/course-archive"
+
+/* ─── Create a draft course from an exported course archive ─── */
+export function ImportCourseDialog() {
+  const invalidateCourses = useInvalidateInstructorCourses()
+  const [open, setOpen] = useState(false)
+  const [file, setFile] = useState<File | null>(null)
+  const [result, setResult] = useState<CourseImportResponse | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+
+  function handleOpenChange(next: boolean) {
+    setOpen(next)
+    if (!next) {
+      setFile(null)
+      setResult(null)
+    }
+  }
+
+  async function handleImport() {
+    if (!file) return
+    setIsImporting(true)
+    setResult(null)
+    try {
+      const body = new FormData()
+      body.append("file", file)
+      const res = await fetch("/api/courses/import", { method: "POST", body })
+      const data = (await res.json()) as CourseImportResponse
+      setResult(data)
+      if (data.success) invalidateCourses()
+    } catch {
+      setResult({ success: false, error: "Import failed. Please try again.", issues: [] })
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger render={<Button variant="outline" className="hidden md:inline-flex" />}>
+        <HugeiconsIcon icon={Upload01Icon} size={16} />
+        Import
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import Course</DialogTitle>
+        </DialogHeader>
+
+        {result?.success ? (
+          <div className="space-y-3">
+            <p className="text-sm">
+              Your course was imported as a draft.
+              {result.issues.length > 0 &&
+                ` ${result.issues.length} ${result.issues.length === 1 ? "item needs" : "items need"} attention:`}
+            </p>
+            <IssueList issues={result.issues} />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Upload a course archive (<code>.course.json</code>) exported from WorldStreet Academy. Sections,
+              lessons, quizzes and assignments come across, and media files are copied to your storage.
+            </p>
+            <div className="space-y-1.5">
+              <Label htmlFor="course-archive">Archive</Label>
+              <Input
+                id="course-archive"
+                type="file"
+                accept=".json,application/json"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] ?? null)
+                  setResult(null)
+                }}
+              />
+            </div>
+            {result && !result.success && (
+              <div className="space-y-2">
+                <p className="text-xs text-destructive">{result.error}</p>
+                <IssueList issues={result.issues} />
+              </div>
+            )}
+            {isImporting && (
+              <p className="text-xs text-muted-foreground">
+                Importing… copying media can take a few minutes for large videos.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {result?.success ? (
+            <Button render={<Link href={`/instructor/courses/${result.courseId}/edit`} />}>
+              Open Course
+            </Button>
+          ) : (
+            <>
+              <DialogClose render={<Button variant="outline" />}>Cancel</DialogClose>
+              <Button disabled={!file || isImporting} onClick={handleImport}>
+                {isImporting ? "Importing..." : "Import"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function IssueList({ issues }: { issues: CourseImportResponse["issues"] }) {
+  if (issues.length === 0) return null
+  return (
+    <ul className="max-h-60 overflow-y-auto rounded-lg border divide-y text-xs">
+      {issues.map((issue, idx) => (
+        <li key={idx} className="p-2">
+          <span className="font-medium">{issue.item}</span>
+          <span className="text-muted-foreground"> — {issue.message}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
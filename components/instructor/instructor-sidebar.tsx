@@ -40,6 +40,10 @@ import {
   Video01Icon,
   Certificate01Icon,
   UserIcon,
+  MoneyReceive01Icon,
+  DiscountTag01Icon,
+  AssignmentsIcon,
+  StarIcon,
 } from "@hugeicons/core-free-icons"
 import { useUser } from "@/components/providers/user-provider"
 import { LogoutConfirmDialog } from "@/components/shared/logout-confirm-dialog"
@@ -88,6 +92,30 @@ const teachItems: NavItem[] = [
     icon: Certificate01Icon,
     match: (p) => p.startsWith("/instructor/certificates"),
   },
+  {
+    title: "Assignments",
+    href: "/instructor/assignments",
+    icon: AssignmentsIcon,
+    match: (p) => p === "/instructor/assignments",
+  },
+  {
+    title: "Coupons",
+    href: "/instructor/coupons",
+    icon: DiscountTag01Icon,
+    match: (p) => p === "/instructor/coupons",
+  },
+  {
+    title: "Reviews",
+    href: "/instructor/reviews",
+    icon: StarIcon,
+    match: (p) => p === "/instructor/reviews",
+  },
+  {
+    title: "Refunds",
+    href: "/instructor/refunds",
+    icon: MoneyReceive01Icon,
+    match: (p) => p === "/instructor/refunds",
+  },
   {
     title: "Analytics",
     href: "/instructor/analytics",
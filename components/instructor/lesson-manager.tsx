@@ -1,6 +1,6 @@
 "use client"
 
-import { useActionState, useState } from "react"
+import { useActionState, useState, useTransition } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
@@ -31,13 +31,25 @@ import {
   Video01Icon,
   TextIcon,
   DragDropIcon,
+  Quiz02Icon,
+  AssignmentsIcon,
+  Package01Icon,
+  Edit01Icon,
 } from "@hugeicons/core-free-icons"
-import type { Lesson } from "@/lib/types"
+import { QuizEditor, emptyQuiz } from "@/components/instructor/quiz-editor"
+import { AssignmentEditor, emptyAssignment } from "@/components/instructor/assignment-editor"
+import { ScormPackageUpload } from "@/components/instructor/scorm-package-upload"
+import { SectionDialog } from "@/components/instructor/section-dialog"
+import { cn } from "@/lib/utils"
+import type { CourseSection, Lesson, LessonAssignment, LessonQuiz, LessonScorm } from "@/lib/types"
 import {
   addLesson,
   deleteLesson,
   type CourseFormState,
 } from "@/lib/actions/instructor"
+import { deleteSection, reorderLessons } from "@/lib/actions/lessons"
+import type { QuizLessonStats } from "@/lib/actions/quizzes"
+import type { CurriculumLayout } from "@/lib/sections"
 
 const initialState: CourseFormState = {
   success: false,
@@ -48,23 +60,152 @@ const initialState: CourseFormState = {
 const typeIcons: Record<string, typeof Video01Icon> = {
   video: Video01Icon,
   text: TextIcon,
+  quiz: Quiz02Icon,
+  assignment: AssignmentsIcon,
+  scorm: Package01Icon,
+}
+
+type DragItem = { kind: "lesson" | "section"; id: string }
+
+/** Group lessons by section, in course order; lessons without one come first */
+function buildLayout(lessons: Lesson[], sections: CourseSection[]): CurriculumLayout {
+  const sectionIds = new Set(sections.map((s) => s.id))
+  const sorted = [...lessons].sort((a, b) => a.order - b.order)
+  const lessonsIn = (sectionId: string | null) =>
+    sorted
+      .filter((l) =>
+        sectionId === null ? !l.sectionId || !sectionIds.has(l.sectionId) : l.sectionId === sectionId
+      )
+      .map((l) => l.id)
+
+  return [
+    { sectionId: null, lessonIds: lessonsIn(null) },
+    ...sections.map((s) => ({ sectionId: s.id, lessonIds: lessonsIn(s.id) })),
+  ]
+}
+
+/** Move a lesson into a section (null = before the first), ahead of another lesson or at the end */
+function moveLesson(
+  layout: CurriculumLayout,
+  lessonId: string,
+  toSectionId: string | null,
+  beforeLessonId: string | null
+): CurriculumLayout {
+  const next = layout.map((g) => ({ ...g, lessonIds: g.lessonIds.filter((id) => id !== lessonId) }))
+  const group = next.find((g) => g.sectionId === toSectionId)
+  if (!group) return layout
+
+  const idx = beforeLessonId ? group.lessonIds.indexOf(beforeLessonId) : -1
+  group.lessonIds.splice(idx === -1 ? group.lessonIds.length : idx, 0, lessonId)
+  return next
+}
+
+/** Move a section ahead of another section or to the end */
+function moveSection(
+  layout: CurriculumLayout,
+  sectionId: string,
+  beforeSectionId: string | null
+): CurriculumLayout {
+  const moving = layout.find((g) => g.sectionId === sectionId)
+  if (!moving || sectionId === beforeSectionId) return layout
+
+  const rest = layout.filter((g) => g !== moving)
+  const idx = beforeSectionId ? rest.findIndex((g) => g.sectionId === beforeSectionId) : -1
+  rest.splice(idx === -1 ? rest.length : idx, 0, moving)
+  return rest
 }
 
 export function LessonManager({
   courseId,
+  instructorId,
   lessons,
+  sections = [],
+  quizStats = [],
 }: {
   courseId: string
+  instructorId: string
   lessons: Lesson[]
+  sections?: CourseSection[]
+  quizStats?: QuizLessonStats[]
 }) {
   const [state, formAction, isPending] = useActionState(addLesson, initialState)
   const [lessonType, setLessonType] = useState("video")
+  const [quiz, setQuiz] = useState<LessonQuiz>(emptyQuiz)
+  const [assignment, setAssignment] = useState<LessonAssignment>(emptyAssignment)
+  const [scorm, setScorm] = useState<LessonScorm | null>(null)
   const [dialogOpen, setDialogOpen] = useState(false)
+  const [newLessonSection, setNewLessonSection] = useState("none")
+  const [editingSection, setEditingSection] = useState<CourseSection | "new" | null>(null)
+
+  // Drag and drop — the dropped layout shows until the saved one comes back
+  const [draft, setDraft] = useState<CurriculumLayout | null>(null)
+  const [dragging, setDragging] = useState<DragItem | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const [reorderError, setReorderError] = useState<string | null>(null)
+  const [isSaving, startSaving] = useTransition()
+
+  const layout = draft ?? buildLayout(lessons, sections)
+  const lessonById = new Map(lessons.map((l) => [l.id, l]))
+  const sectionById = new Map(sections.map((s) => [s.id, s]))
+  const lessonNumbers = new Map(layout.flatMap((g) => g.lessonIds).map((id, idx) => [id, idx + 1]))
+  const sectionItems = [
+    { label: "No section", value: "none" },
+    ...sections.map((s) => ({ label: s.title, value: s.id })),
+  ]
+
+  function startDrag(e: React.DragEvent, item: DragItem) {
+    e.stopPropagation()
+    e.dataTransfer.effectAllowed = "move"
+    e.dataTransfer.setData("text/plain", item.id)
+    setDragging(item)
+  }
+
+  function endDrag() {
+    setDragging(null)
+    setDropTarget(null)
+  }
+
+  function allowDrop(e: React.DragEvent, target: string) {
+    if (!dragging) return
+    e.preventDefault()
+    e.stopPropagation()
+    if (dropTarget !== target) setDropTarget(target)
+  }
+
+  function handleDrop(e: React.DragEvent, move: (item: DragItem) => CurriculumLayout) {
+    e.preventDefault()
+    e.stopPropagation()
+    const item = dragging
+    endDrag()
+    if (!item) return
+
+    const next = move(item)
+    if (JSON.stringify(next) === JSON.stringify(layout)) return
+
+    setReorderError(null)
+    setDraft(next)
+    startSaving(async () => {
+      const result = await reorderLessons(courseId, instructorId, next)
+      startSaving(() => {
+        if (!result.success) setReorderError(result.error || "Failed to save the new order")
+        setDraft(null)
+      })
+    })
+  }
+
+  async function handleDeleteSection(section: CourseSection) {
+    if (!window.confirm(`Delete "${section.title}"? Its lessons are kept and moved above the first section.`)) {
+      return
+    }
+    setReorderError(null)
+    const result = await deleteSection(section.id, courseId, instructorId)
+    if (!result.success) setReorderError(result.error || "Failed to delete section")
+  }
 
   return (
     <div className="space-y-4">
-      {/* Lesson List */}
-      {lessons.length === 0 ? (
+      {/* Curriculum — drag lessons within and between sections, and sections themselves */}
+      {lessons.length === 0 && sections.length === 0 ? (
         <Card>
           <CardContent className="p-8 text-center space-y-2">
             <p className="text-sm text-muted-foreground">
@@ -73,70 +214,218 @@ export function LessonManager({
           </CardContent>
         </Card>
       ) : (
-        <div className="space-y-2">
-          {lessons
-            .sort((a, b) => a.order - b.order)
-            .map((lesson, index) => (
-              <Card key={lesson.id}>
-                <CardContent className="p-3">
-                  <div className="flex items-center gap-3">
-                    <div className="flex items-center gap-2 shrink-0 text-muted-foreground">
-                      <HugeiconsIcon icon={DragDropIcon} size={14} />
-                      <span className="text-xs font-mono w-5 text-center">
-                        {index + 1}
-                      </span>
-                    </div>
-                    <div className="h-7 w-7 rounded-md bg-muted flex items-center justify-center shrink-0">
-                      <HugeiconsIcon
-                        icon={typeIcons[lesson.type]}
-                        size={14}
-                        className="text-muted-foreground"
-                      />
-                    </div>
+        <div className="space-y-4">
+          {layout.map((group) => {
+            const section = group.sectionId ? sectionById.get(group.sectionId) : null
+            const endKey = `end:${group.sectionId ?? "none"}`
+
+            // Lessons before the first section only get a drop zone while dragging
+            if (!section && group.lessonIds.length === 0 && dragging?.kind !== "lesson") {
+              return null
+            }
+
+            return (
+              <div key={group.sectionId ?? "none"} className="space-y-2">
+                {section && (
+                  <div
+                    draggable
+                    onDragStart={(e) => startDrag(e, { kind: "section", id: section.id })}
+                    onDragEnd={endDrag}
+                    onDragOver={(e) => allowDrop(e, `section:${section.id}`)}
+                    onDrop={(e) =>
+                      handleDrop(e, (current) =>
+                        current.kind === "section"
+                          ? moveSection(layout, current.id, section.id)
+                          : moveLesson(layout, current.id, section.id, null)
+                      )
+                    }
+                    className={cn(
+                      "flex items-center gap-3 rounded-lg border bg-muted/50 px-3 py-2.5 cursor-grab transition-colors",
+                      dropTarget === `section:${section.id}` && "border-primary bg-primary/5"
+                    )}
+                  >
+                    <HugeiconsIcon icon={DragDropIcon} size={14} className="text-muted-foreground shrink-0" />
                     <div className="flex-1 min-w-0">
-                      <p className="text-sm font-medium truncate">
-                        {lesson.title}
-                      </p>
+                      <p className="text-sm font-semibold truncate">{section.title}</p>
                       <div className="flex items-center gap-2 text-[11px] text-muted-foreground">
-                        <Badge
-                          variant="secondary"
-                          className="text-[9px] capitalize px-1 py-0"
-                        >
-                          {lesson.type}
-                        </Badge>
-                        {lesson.duration && (
-                          <span>{lesson.duration} min</span>
+                        <span>
+                          {group.lessonIds.length} {group.lessonIds.length === 1 ? "lesson" : "lessons"}
+                        </span>
+                        {(section.release.afterDays || section.release.releaseAt) && (
+                          <Badge variant="outline" className="text-[9px] px-1 py-0">
+                            Drip
+                          </Badge>
                         )}
-                        {lesson.isFree && (
+                        {section.release.requiresPreviousSection && (
                           <Badge variant="outline" className="text-[9px] px-1 py-0">
-                            Free Preview
+                            After previous section
                           </Badge>
                         )}
                       </div>
                     </div>
-                    <form action={deleteLesson}>
-                      <input type="hidden" name="courseId" value={courseId} />
-                      <input
-                        type="hidden"
-                        name="lessonId"
-                        value={lesson.id}
-                      />
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        type="submit"
-                        className="text-destructive hover:text-destructive h-7 w-7 p-0"
-                      >
-                        <HugeiconsIcon icon={Delete01Icon} size={14} />
-                      </Button>
-                    </form>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      onClick={() => setEditingSection(section)}
+                    >
+                      <HugeiconsIcon icon={Edit01Icon} size={14} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive h-7 w-7 p-0"
+                      onClick={() => handleDeleteSection(section)}
+                    >
+                      <HugeiconsIcon icon={Delete01Icon} size={14} />
+                    </Button>
                   </div>
-                </CardContent>
-              </Card>
-            ))}
+                )}
+
+                <div className={cn("space-y-2", section && "pl-4")}>
+                  {group.lessonIds.map((lessonId) => {
+                    const lesson = lessonById.get(lessonId)
+                    if (!lesson) return null
+                    const stats = quizStats.find((s) => s.lessonId === lesson.id)
+                    return (
+                      <Card
+                        key={lesson.id}
+                        draggable
+                        onDragStart={(e) => startDrag(e, { kind: "lesson", id: lesson.id })}
+                        onDragEnd={endDrag}
+                        onDragOver={(e) => dragging?.kind === "lesson" && allowDrop(e, `lesson:${lesson.id}`)}
+                        onDrop={(e) =>
+                          handleDrop(e, (current) => moveLesson(layout, current.id, group.sectionId, lesson.id))
+                        }
+                        className={cn(
+                          "cursor-grab transition-colors",
+                          dragging?.id === lesson.id && "opacity-50",
+                          dropTarget === `lesson:${lesson.id}` && "ring-2 ring-primary"
+                        )}
+                      >
+                        <CardContent className="p-3">
+                          <div className="flex items-center gap-3">
+                            <div className="flex items-center gap-2 shrink-0 text-muted-foreground">
+                              <HugeiconsIcon icon={DragDropIcon} size={14} />
+                              <span className="text-xs font-mono w-5 text-center">
+                                {lessonNumbers.get(lesson.id)}
+                              </span>
+                            </div>
+                            <div className="h-7 w-7 rounded-md bg-muted flex items-center justify-center shrink-0">
+                              <HugeiconsIcon
+                                icon={typeIcons[lesson.type]}
+                                size={14}
+                                className="text-muted-foreground"
+                              />
+                            </div>
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm font-medium truncate">
+                                {lesson.title}
+                              </p>
+                              <div className="flex items-center gap-2 text-[11px] text-muted-foreground">
+                                <Badge
+                                  variant="secondary"
+                                  className="text-[9px] capitalize px-1 py-0"
+                                >
+                                  {lesson.type}
+                                </Badge>
+                                {lesson.duration && (
+                                  <span>{lesson.duration} min</span>
+                                )}
+                                {lesson.isFree && (
+                                  <Badge variant="outline" className="text-[9px] px-1 py-0">
+                                    Free Preview
+                                  </Badge>
+                                )}
+                                {lesson.type === "quiz" && lesson.quiz && (
+                                  <span>
+                                    {lesson.quiz.questions.length} questions · pass {lesson.quiz.passMark}%
+                                  </span>
+                                )}
+                                {stats && (
+                                  <span>
+                                    · {stats.passedStudents}/{stats.students} passed · avg {stats.averagePercent}%
+                                  </span>
+                                )}
+                              </div>
+                            </div>
+                            <form action={deleteLesson}>
+                              <input type="hidden" name="courseId" value={courseId} />
+                              <input
+                                type="hidden"
+                                name="lessonId"
+                                value={lesson.id}
+                              />
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                type="submit"
+                                className="text-destructive hover:text-destructive h-7 w-7 p-0"
+                              >
+                                <HugeiconsIcon icon={Delete01Icon} size={14} />
+                              </Button>
+                            </form>
+                          </div>
+                        </CardContent>
+                      </Card>
+                    )
+                  })}
+
+                  {dragging?.kind === "lesson" && (
+                    <div
+                      onDragOver={(e) => allowDrop(e, endKey)}
+                      onDrop={(e) =>
+                        handleDrop(e, (current) => moveLesson(layout, current.id, group.sectionId, null))
+                      }
+                      className={cn(
+                        "rounded-lg border border-dashed p-2 text-center text-[11px] text-muted-foreground transition-colors",
+                        dropTarget === endKey && "border-primary bg-primary/5 text-primary"
+                      )}
+                    >
+                      {section ? `Move to the end of ${section.title}` : "Move before the first section"}
+                    </div>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+
+          {dragging?.kind === "section" && (
+            <div
+              onDragOver={(e) => allowDrop(e, "end:sections")}
+              onDrop={(e) => handleDrop(e, (current) => moveSection(layout, current.id, null))}
+              className={cn(
+                "rounded-lg border border-dashed p-2 text-center text-[11px] text-muted-foreground transition-colors",
+                dropTarget === "end:sections" && "border-primary bg-primary/5 text-primary"
+              )}
+            >
+              Move to the end
+            </div>
+          )}
+
+          {(reorderError || isSaving) && (
+            <p className={cn("text-xs", reorderError ? "text-destructive" : "text-muted-foreground")}>
+              {reorderError ?? "Saving order..."}
+            </p>
+          )}
         </div>
       )}
 
+      <Button variant="outline" className="w-full border-dashed" onClick={() => setEditingSection("new")}>
+        <HugeiconsIcon icon={Add01Icon} size={16} />
+        Add Section
+      </Button>
+
+      <SectionDialog
+        key={editingSection === "new" ? "new" : (editingSection?.id ?? "closed")}
+        open={editingSection !== null}
+        onOpenChange={(open) => !open && setEditingSection(null)}
+        courseId={courseId}
+        instructorId={instructorId}
+        section={editingSection === "new" ? null : editingSection}
+        isFirst={editingSection === "new" ? sections.length === 0 : editingSection?.id === sections[0]?.id}
+      />
+
       {/* Add Lesson Dialog */}
       <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
         <DialogTrigger
@@ -147,7 +436,7 @@ export function LessonManager({
           <HugeiconsIcon icon={Add01Icon} size={16} />
           Add Lesson
         </DialogTrigger>
-        <DialogContent className="sm:max-w-lg">
+        <DialogContent className="sm:max-w-lg max-h-[90svh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Add New Lesson</DialogTitle>
           </DialogHeader>
@@ -193,6 +482,9 @@ export function LessonManager({
                   <SelectContent>
                     <SelectItem value="video">Video</SelectItem>
                     <SelectItem value="text">Text</SelectItem>
+                    <SelectItem value="quiz">Quiz</SelectItem>
+                    <SelectItem value="assignment">Assignment</SelectItem>
+                    <SelectItem value="scorm">SCORM / xAPI</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -208,6 +500,33 @@ export function LessonManager({
               </div>
             </div>
 
+            {sections.length > 0 && (
+              <div className="space-y-1.5">
+                <Label>Section</Label>
+                <input
+                  type="hidden"
+                  name="sectionId"
+                  value={newLessonSection === "none" ? "" : newLessonSection}
+                />
+                <Select
+                  items={sectionItems}
+                  value={newLessonSection}
+                  onValueChange={(val) => setNewLessonSection((val as string) ?? "none")}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sectionItems.map((item) => (
+                      <SelectItem key={item.value} value={item.value}>
+                        {item.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             {lessonType === "video" && (
               <div className="space-y-1.5">
                 <Label htmlFor="lesson-video">Video URL</Label>
@@ -225,6 +544,51 @@ export function LessonManager({
               </div>
             )}
 
+            {lessonType === "quiz" && (
+              <div className="space-y-1.5">
+                <input type="hidden" name="quiz" value={JSON.stringify(quiz)} />
+                <QuizEditor value={quiz} onChange={setQuiz} />
+                {state.fieldErrors.quiz && (
+                  <p className="text-xs text-destructive">
+                    {state.fieldErrors.quiz}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {lessonType === "assignment" && (
+              <div className="space-y-3">
+                <div className="space-y-1.5">
+                  <Label htmlFor="lesson-instructions">Instructions</Label>
+                  <Textarea
+                    id="lesson-instructions"
+                    name="content"
+                    placeholder="Describe what students should submit"
+                    className="min-h-20"
+                  />
+                </div>
+                <input type="hidden" name="assignment" value={JSON.stringify(assignment)} />
+                <AssignmentEditor value={assignment} onChange={setAssignment} />
+                {state.fieldErrors.assignment && (
+                  <p className="text-xs text-destructive">
+                    {state.fieldErrors.assignment}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {lessonType === "scorm" && (
+              <div className="space-y-1.5">
+                <input type="hidden" name="scorm" value={scorm ? JSON.stringify(scorm) : ""} />
+                <ScormPackageUpload value={scorm} onChange={setScorm} />
+                {state.fieldErrors.scorm && (
+                  <p className="text-xs text-destructive">
+                    {state.fieldErrors.scorm}
+                  </p>
+                )}
+              </div>
+            )}
+
             <div className="flex items-center gap-2">
               <input
                 type="checkbox"
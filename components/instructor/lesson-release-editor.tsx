@@ -0,0 +1,177 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { LessonRelease } from "@/lib/types"
+
+type ReleaseMode = "immediately" | "after_days" | "on_date"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const modeItems: { label: string; value: ReleaseMode }[] = [
+  { label: "As soon as they enroll", value: "immediately" },
+  { label: "Days after enrolling", value: "after_days" },
+  { label: "On a set date", value: "on_date" },
+]
+
+export function emptyRelease(): LessonRelease {
+  return { afterDays: null, releaseAt: null, prerequisiteLessonId: null }
+}
+
+/** ISO timestamp → yyyy-mm-dd in the instructor's timezone */
+function toDateInput(iso: string | null) {
+  if (!iso) return ""
+  const d = new Date(iso)
+  const pad = (n: number) => String(n).padStart(2, "0")
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`
+}
+
+/* ─── Release delay or date (controlled) — shared with section settings ─── */
+export function ReleaseScheduleFields({
+  afterDays,
+  releaseAt,
+  onChange,
+}: {
+  afterDays: number | null
+  releaseAt: string | null
+  onChange: (schedule: { afterDays: number | null; releaseAt: string | null }) => void
+}) {
+  const mode: ReleaseMode = afterDays ? "after_days" : releaseAt ? "on_date" : "immediately"
+
+  function setMode(next: ReleaseMode) {
+    if (next === "after_days") {
+      onChange({ afterDays: afterDays ?? 7, releaseAt: null })
+    } else if (next === "on_date") {
+      onChange({
+        afterDays: null,
+        releaseAt: releaseAt ?? new Date(Date.now() + 7 * DAY_MS).toISOString(),
+      })
+    } else {
+      onChange({ afterDays: null, releaseAt: null })
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="space-y-1.5">
+        <Label className="text-xs">Release</Label>
+        <Select
+          items={modeItems}
+          value={mode}
+          onValueChange={(v) => setMode((v ?? "immediately") as ReleaseMode)}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {modeItems.map((item) => (
+              <SelectItem key={item.value} value={item.value}>
+                {item.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {mode === "after_days" && (
+        <div className="space-y-1.5">
+          <Label className="text-xs">Days after enrolling</Label>
+          <Input
+            type="number"
+            min={1}
+            max={365}
+            value={afterDays ?? ""}
+            onChange={(e) =>
+              onChange({ afterDays: Math.max(1, parseInt(e.target.value) || 1), releaseAt: null })
+            }
+          />
+        </div>
+      )}
+
+      {mode === "on_date" && (
+        <div className="space-y-1.5">
+          <Label className="text-xs">Release date</Label>
+          <Input
+            type="date"
+            value={toDateInput(releaseAt)}
+            onChange={(e) =>
+              e.target.value &&
+              onChange({ afterDays: null, releaseAt: new Date(`${e.target.value}T00:00`).toISOString() })
+            }
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
+/* ─── Drip schedule + prerequisite (controlled) ─── */
+export function LessonReleaseEditor({
+  value,
+  onChange,
+  earlierLessons,
+  isFree,
+}: {
+  value: LessonRelease
+  onChange: (release: LessonRelease) => void
+  /** Lessons before this one — the only valid prerequisites */
+  earlierLessons: { id: string; title: string }[]
+  isFree: boolean
+}) {
+  const prerequisiteItems = [
+    { label: "None", value: "none" },
+    ...earlierLessons.map((l, i) => ({ label: `${i + 1}. ${l.title || "Untitled Lesson"}`, value: l.id })),
+  ]
+  const prerequisite = earlierLessons.some((l) => l.id === value.prerequisiteLessonId)
+    ? value.prerequisiteLessonId!
+    : "none"
+
+  if (isFree) {
+    return (
+      <p className="rounded-lg border bg-background px-3 py-2.5 text-[10px] text-muted-foreground">
+        Free preview lessons are always open, so they can&apos;t be scheduled or gated.
+      </p>
+    )
+  }
+
+  return (
+    <div className="rounded-lg border bg-background p-3 space-y-3">
+      <ReleaseScheduleFields
+        afterDays={value.afterDays}
+        releaseAt={value.releaseAt}
+        onChange={(schedule) => onChange({ ...value, ...schedule })}
+      />
+
+      {earlierLessons.length > 0 && (
+        <div className="space-y-1.5">
+          <Label className="text-xs">Unlock after completing</Label>
+          <Select
+            items={prerequisiteItems}
+            value={prerequisite}
+            onValueChange={(v) =>
+              onChange({ ...value, prerequisiteLessonId: !v || v === "none" ? null : (v as string) })
+            }
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {prerequisiteItems.map((item) => (
+                <SelectItem key={item.value} value={item.value}>
+                  {item.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  )
+}
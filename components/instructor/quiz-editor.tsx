@@ -0,0 +1,297 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { HugeiconsIcon } from "@hugeicons/react"
+import { Add01Icon, Delete01Icon, Cancel01Icon } from "@hugeicons/core-free-icons"
+import { cn } from "@/lib/utils"
+import type { LessonQuiz, QuizQuestion, QuizQuestionType } from "@/lib/types"
+
+const questionTypeItems: { label: string; value: QuizQuestionType }[] = [
+  { label: "Multiple choice", value: "multiple_choice" },
+  { label: "Multi-select", value: "multi_select" },
+  { label: "True / False", value: "true_false" },
+  { label: "Short answer", value: "short_answer" },
+]
+
+export function emptyQuiz(): LessonQuiz {
+  return {
+    questions: [emptyQuestion()],
+    passMark: 70,
+    maxAttempts: null,
+  }
+}
+
+function emptyQuestion(type: QuizQuestionType = "multiple_choice"): QuizQuestion {
+  return {
+    id: crypto.randomUUID(),
+    type,
+    prompt: "",
+    options: type === "true_false" ? ["True", "False"] : type === "short_answer" ? [] : ["", ""],
+    correctOptions: type === "short_answer" ? [] : [0],
+    acceptedAnswers: [],
+    explanation: null,
+    points: 1,
+  }
+}
+
+/* ─── Quiz Editor (controlled) ─── */
+export function QuizEditor({
+  value,
+  onChange,
+}: {
+  value: LessonQuiz
+  onChange: (quiz: LessonQuiz) => void
+}) {
+  function updateQuestion(id: string, updates: Partial<QuizQuestion>) {
+    onChange({
+      ...value,
+      questions: value.questions.map((q) => (q.id === id ? { ...q, ...updates } : q)),
+    })
+  }
+
+  function changeType(question: QuizQuestion, type: QuizQuestionType) {
+    const fresh = emptyQuestion(type)
+    // Keep the prompt and any options that still make sense
+    const keepOptions =
+      (type === "multiple_choice" || type === "multi_select") &&
+      (question.type === "multiple_choice" || question.type === "multi_select")
+    updateQuestion(question.id, {
+      type,
+      options: keepOptions ? question.options : fresh.options,
+      correctOptions: keepOptions
+        ? type === "multiple_choice"
+          ? question.correctOptions.slice(0, 1)
+          : question.correctOptions
+        : fresh.correctOptions,
+      acceptedAnswers: type === "short_answer" ? question.acceptedAnswers : [],
+    })
+  }
+
+  function toggleCorrect(question: QuizQuestion, index: number) {
+    if (question.type === "multi_select") {
+      const correctOptions = question.correctOptions.includes(index)
+        ? question.correctOptions.filter((i) => i !== index)
+        : [...question.correctOptions, index]
+      updateQuestion(question.id, { correctOptions })
+    } else {
+      updateQuestion(question.id, { correctOptions: [index] })
+    }
+  }
+
+  function removeOption(question: QuizQuestion, index: number) {
+    updateQuestion(question.id, {
+      options: question.options.filter((_, i) => i !== index),
+      correctOptions: question.correctOptions
+        .filter((i) => i !== index)
+        .map((i) => (i > index ? i - 1 : i)),
+    })
+  }
+
+  const totalPoints = value.questions.reduce((s, q) => s + (Number(q.points) || 0), 0)
+
+  return (
+    <div className="space-y-3">
+      {/* Settings */}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label>Pass mark (%)</Label>
+          <Input
+            type="number"
+            min="0"
+            max="100"
+            value={value.passMark}
+            onChange={(e) => onChange({ ...value, passMark: Number(e.target.value) })}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label>Max attempts</Label>
+          <Input
+            type="number"
+            min="1"
+            placeholder="Unlimited"
+            value={value.maxAttempts ?? ""}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                maxAttempts: e.target.value ? Number(e.target.value) : null,
+              })
+            }
+          />
+        </div>
+      </div>
+
+      {/* Questions */}
+      {value.questions.map((question, qi) => (
+        <div key={question.id} className="rounded-lg border bg-background p-3 space-y-3">
+          <div className="flex items-center gap-2">
+            <span className="text-[11px] font-mono font-semibold text-muted-foreground shrink-0">
+              Q{qi + 1}
+            </span>
+            <Select
+              items={questionTypeItems}
+              value={question.type}
+              onValueChange={(v) => changeType(question, (v ?? "multiple_choice") as QuizQuestionType)}
+            >
+              <SelectTrigger className="flex-1" size="sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {questionTypeItems.map((item) => (
+                  <SelectItem key={item.value} value={item.value}>
+                    {item.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min="0"
+              className="w-16 h-7 text-xs"
+              aria-label="Points"
+              value={question.points}
+              onChange={(e) => updateQuestion(question.id, { points: Number(e.target.value) })}
+            />
+            <span className="text-[11px] text-muted-foreground shrink-0">pts</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon-sm"
+              className="text-destructive hover:text-destructive"
+              disabled={value.questions.length === 1}
+              onClick={() =>
+                onChange({
+                  ...value,
+                  questions: value.questions.filter((q) => q.id !== question.id),
+                })
+              }
+            >
+              <HugeiconsIcon icon={Delete01Icon} size={14} />
+            </Button>
+          </div>
+
+          <Textarea
+            placeholder="Question"
+            className="min-h-14"
+            value={question.prompt}
+            onChange={(e) => updateQuestion(question.id, { prompt: e.target.value })}
+          />
+
+          {/* Answers */}
+          {question.type === "short_answer" ? (
+            <div className="space-y-1.5">
+              <Label className="text-xs">Accepted answers (one per line)</Label>
+              <Textarea
+                placeholder="e.g. Bitcoin"
+                className="min-h-14"
+                value={question.acceptedAnswers.join("\n")}
+                onChange={(e) =>
+                  updateQuestion(question.id, { acceptedAnswers: e.target.value.split("\n") })
+                }
+              />
+              <p className="text-[10px] text-muted-foreground">
+                Matching ignores case and extra spaces.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-1.5">
+              <Label className="text-xs">
+                {question.type === "multi_select"
+                  ? "Options — tick every correct answer"
+                  : "Options — tick the correct answer"}
+              </Label>
+              {question.options.map((option, oi) => (
+                <div key={oi} className="flex items-center gap-2">
+                  <Checkbox
+                    checked={question.correctOptions.includes(oi)}
+                    onCheckedChange={() => toggleCorrect(question, oi)}
+                    aria-label={`Option ${oi + 1} is correct`}
+                  />
+                  {question.type === "true_false" ? (
+                    <span className="text-sm">{option}</span>
+                  ) : (
+                    <>
+                      <Input
+                        placeholder={`Option ${oi + 1}`}
+                        className={cn(
+                          "h-8",
+                          question.correctOptions.includes(oi) && "border-primary"
+                        )}
+                        value={option}
+                        onChange={(e) =>
+                          updateQuestion(question.id, {
+                            options: question.options.map((o, i) =>
+                              i === oi ? e.target.value : o
+                            ),
+                          })
+                        }
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon-sm"
+                        disabled={question.options.length <= 2}
+                        onClick={() => removeOption(question, oi)}
+                      >
+                        <HugeiconsIcon icon={Cancel01Icon} size={12} />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              ))}
+              {question.type !== "true_false" && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="text-xs"
+                  onClick={() =>
+                    updateQuestion(question.id, { options: [...question.options, ""] })
+                  }
+                >
+                  <HugeiconsIcon icon={Add01Icon} size={12} />
+                  Add option
+                </Button>
+              )}
+            </div>
+          )}
+
+          <Input
+            placeholder="Explanation shown after grading (optional)"
+            className="h-8 text-xs"
+            value={question.explanation ?? ""}
+            onChange={(e) =>
+              updateQuestion(question.id, { explanation: e.target.value || null })
+            }
+          />
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="border-dashed"
+          onClick={() => onChange({ ...value, questions: [...value.questions, emptyQuestion()] })}
+        >
+          <HugeiconsIcon icon={Add01Icon} size={14} />
+          Add Question
+        </Button>
+        <span className="text-[11px] text-muted-foreground">
+          {value.questions.length} question{value.questions.length !== 1 ? "s" : ""} · {totalPoints} pts
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { HugeiconsIcon } from "@hugeicons/react"
+import { Loading03Icon, Package01Icon, Upload04Icon } from "@hugeicons/core-free-icons"
+import { getPackageUploadUrl } from "@/lib/actions/upload"
+import { unpackLessonPackage } from "@/lib/actions/scorm"
+import type { LessonScorm } from "@/lib/types"
+
+const MAX_PACKAGE_SIZE = 250 * 1024 * 1024 // 250MB
+
+const STANDARD_LABELS = {
+  scorm12: "SCORM 1.2",
+  scorm2004: "SCORM 2004",
+  xapi: "xAPI",
+} as const
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/* ─── SCORM / xAPI package upload (controlled) ─── */
+export function ScormPackageUpload({
+  value,
+  onChange,
+}: {
+  value: LessonScorm | null
+  onChange: (scorm: LessonScorm | null) => void
+}) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [status, setStatus] = useState<"idle" | "uploading" | "unpacking">("idle")
+  const [error, setError] = useState<string | null>(null)
+
+  async function handleFile(file: File | undefined) {
+    if (!file) return
+    setError(null)
+    if (file.size > MAX_PACKAGE_SIZE) {
+      setError("Packages can be up to 250MB")
+      return
+    }
+
+    setStatus("uploading")
+    try {
+      const contentType = file.type || "application/zip"
+      const result = await getPackageUploadUrl(file.name, contentType)
+      if (!result.success || !result.uploadUrl || !result.key) {
+        setError(result.error || "Failed to upload the package")
+        return
+      }
+      const res = await fetch(result.uploadUrl, {
+        method: "PUT",
+        body: file,
+        headers: { "Content-Type": contentType },
+      })
+      if (!res.ok) {
+        setError("Failed to upload the package")
+        return
+      }
+
+      setStatus("unpacking")
+      const unpacked = await unpackLessonPackage(result.key)
+      if (!unpacked.success || !unpacked.data) {
+        setError(unpacked.error || "Failed to unpack the package")
+        return
+      }
+      onChange(unpacked.data)
+    } catch (err) {
+      console.error("Package upload error:", err)
+      setError("Upload failed. Please try again.")
+    } finally {
+      setStatus("idle")
+      if (fileInputRef.current) fileInputRef.current.value = ""
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      {value ? (
+        <div className="flex items-center gap-3 rounded-lg border bg-background p-3">
+          <HugeiconsIcon icon={Package01Icon} size={18} className="shrink-0 text-muted-foreground" />
+          <div className="min-w-0 flex-1">
+            <p className="truncate text-sm font-medium">{value.title || value.launchPath}</p>
+            <div className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+              <Badge variant="secondary" className="text-[10px]">
+                {STANDARD_LABELS[value.standard]}
+              </Badge>
+              <span>
+                {value.fileCount} file{value.fileCount !== 1 ? "s" : ""} · {formatBytes(value.size)}
+              </span>
+              {value.masteryScore !== null && <span>· Pass mark {value.masteryScore}</span>}
+            </div>
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="text-destructive"
+            onClick={() => onChange(null)}
+          >
+            Remove
+          </Button>
+        </div>
+      ) : (
+        <Button
+          type="button"
+          variant="outline"
+          className="w-full"
+          disabled={status !== "idle"}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <HugeiconsIcon
+            icon={status === "idle" ? Upload04Icon : Loading03Icon}
+            size={16}
+            className={status === "idle" ? undefined : "animate-spin"}
+          />
+          {status === "uploading"
+            ? "Uploading..."
+            : status === "unpacking"
+              ? "Unpacking..."
+              : "Upload SCORM / xAPI package (.zip)"}
+        </Button>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".zip,application/zip"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+      <p className="text-xs text-muted-foreground">
+        SCORM 1.2, SCORM 2004 or xAPI (Tin Can) packages. Students finish the lesson by
+        completing the package.
+      </p>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog"
+import { ReleaseScheduleFields } from "@/components/instructor/lesson-release-editor"
+import { createSection, updateSection } from "@/lib/actions/lessons"
+import type { CourseSection, SectionRelease } from "@/lib/types"
+
+/* ─── Create or edit a section (title, description, drip rules) ─── */
+export function SectionDialog({
+  open,
+  onOpenChange,
+  courseId,
+  instructorId,
+  section,
+  isFirst,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  courseId: string
+  instructorId: string
+  /** null = new section */
+  section: CourseSection | null
+  /** The first section has no previous section to wait for */
+  isFirst: boolean
+}) {
+  const [title, setTitle] = useState(section?.title ?? "")
+  const [description, setDescription] = useState(section?.description ?? "")
+  const [release, setRelease] = useState<SectionRelease>(
+    section?.release ?? { afterDays: null, releaseAt: null, requiresPreviousSection: false }
+  )
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  async function handleSave() {
+    setError(null)
+    setIsSaving(true)
+    const data = {
+      title,
+      description: description.trim() || null,
+      releaseAfterDays: release.afterDays,
+      releaseAt: release.releaseAt,
+      requiresPreviousSection: release.requiresPreviousSection,
+    }
+    const result = section
+      ? await updateSection(section.id, courseId, instructorId, data)
+      : await createSection(courseId, instructorId, data)
+    setIsSaving(false)
+
+    if (result.success) onOpenChange(false)
+    else setError(result.error || "Something went wrong")
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{section ? "Edit Section" : "Add Section"}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="section-title">Title</Label>
+            <Input
+              id="section-title"
+              placeholder="e.g. Getting Started"
+              value={title}
+              maxLength={150}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="section-description">Description</Label>
+            <Textarea
+              id="section-description"
+              placeholder="What this section covers"
+              className="min-h-16"
+              value={description}
+              maxLength={1000}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>Availability</Label>
+            <div className="rounded-lg border bg-background p-3 space-y-3">
+              <ReleaseScheduleFields
+                afterDays={release.afterDays}
+                releaseAt={release.releaseAt}
+                onChange={(schedule) => setRelease((r) => ({ ...r, ...schedule }))}
+              />
+              {!isFirst && (
+                <div className="flex items-center justify-between gap-3">
+                  <Label htmlFor="section-requires-previous" className="text-xs font-normal">
+                    Students must finish the previous section first
+                  </Label>
+                  <Switch
+                    id="section-requires-previous"
+                    checked={release.requiresPreviousSection}
+                    onCheckedChange={(checked) =>
+                      setRelease((r) => ({ ...r, requiresPreviousSection: checked }))
+                    }
+                  />
+                </div>
+              )}
+              <p className="text-[10px] text-muted-foreground">
+                Applies to every lesson in the section, on top of each lesson&apos;s own rules. Free
+                preview lessons stay open.
+              </p>
+            </div>
+          </div>
+
+          {error && <p className="text-xs text-destructive">{error}</p>}
+        </div>
+        <DialogFooter>
+          <DialogClose render={<Button variant="outline" />}>Cancel</DialogClose>
+          <Button disabled={isSaving || !title.trim()} onClick={handleSave}>
+            {isSaving ? "Saving..." : section ? "Save Section" : "Add Section"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
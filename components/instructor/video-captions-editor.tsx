@@ -0,0 +1,190 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { HugeiconsIcon } from "@hugeicons/react"
+import {
+  AiMagicIcon,
+  Delete01Icon,
+  Loading03Icon,
+  SubtitleIcon,
+  Upload04Icon,
+} from "@hugeicons/core-free-icons"
+import { languages } from "@/components/translator/languages"
+import {
+  deleteVideoCaption,
+  generateVideoCaptions,
+  uploadVideoCaptions,
+} from "@/lib/actions/captions"
+import type { ManagedCaptionTrack } from "@/lib/types"
+
+const MAX_FILE_SIZE = 512 * 1024 // 512KB
+
+const languageItems = languages.map((l) => ({ label: l.name, value: l.code }))
+
+/* ─── Caption tracks of one lesson video (saved videos only) ─── */
+export function VideoCaptionsEditor({
+  courseId,
+  videoUrl,
+  tracks,
+  canGenerate,
+}: {
+  courseId: string
+  videoUrl: string
+  tracks: ManagedCaptionTrack[]
+  canGenerate: boolean
+}) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [language, setLanguage] = useState(
+    () => languages.find((l) => !tracks.some((t) => t.language === l.code))?.code ?? "en"
+  )
+  const [error, setError] = useState<string | null>(null)
+  // "upload", "generate" or the id of the track being removed
+  const [pending, setPending] = useState<string | null>(null)
+
+  async function run(kind: string, action: () => Promise<{ success: boolean; error?: string }>) {
+    setError(null)
+    setPending(kind)
+    try {
+      const result = await action()
+      if (!result.success) setError(result.error || "Something went wrong")
+    } catch (err) {
+      console.error("Captions error:", err)
+      setError("Something went wrong. Please try again.")
+    } finally {
+      setPending(null)
+    }
+  }
+
+  async function handleFile(file: File | undefined) {
+    if (fileInputRef.current) fileInputRef.current.value = ""
+    if (!file) return
+    if (file.size > MAX_FILE_SIZE) {
+      setError("Caption files can be up to 512KB")
+      return
+    }
+    const content = await file.text()
+    await run("upload", () => uploadVideoCaptions(courseId, videoUrl, language, file.name, content))
+  }
+
+  const existing = tracks.find((t) => t.language === language)
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center gap-1.5">
+        <HugeiconsIcon icon={SubtitleIcon} size={14} />
+        Captions
+      </Label>
+
+      {tracks.length > 0 && (
+        <div className="space-y-1.5">
+          {tracks.map((track) => (
+            <div key={track.id} className="flex items-center gap-2 rounded-lg border bg-background px-3 py-2">
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium">{track.label}</p>
+                <div className="flex flex-wrap items-center gap-1.5 text-[11px] text-muted-foreground">
+                  <Badge variant="secondary" className="text-[10px]">
+                    {track.source === "upload" ? "Uploaded" : "Generated"}
+                  </Badge>
+                  {track.status === "ready" ? (
+                    <span>
+                      {track.cueCount} line{track.cueCount !== 1 ? "s" : ""}
+                      {track.fileName && ` · ${track.fileName}`}
+                    </span>
+                  ) : track.status === "failed" ? (
+                    <span className="text-destructive">{track.error || "Generation failed"}</span>
+                  ) : (
+                    <span>Generating...</span>
+                  )}
+                </div>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="text-destructive hover:text-destructive h-7 w-7 p-0"
+                disabled={pending !== null}
+                onClick={() => run(track.id, () => deleteVideoCaption(courseId, track.id))}
+              >
+                <HugeiconsIcon
+                  icon={pending === track.id ? Loading03Icon : Delete01Icon}
+                  size={14}
+                  className={pending === track.id ? "animate-spin" : undefined}
+                />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          items={languageItems}
+          value={language}
+          onValueChange={(val) => setLanguage((val as string) ?? "en")}
+        >
+          <SelectTrigger className="w-40" size="sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {languageItems.map((item) => (
+              <SelectItem key={item.value} value={item.value}>
+                {item.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={pending !== null}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <HugeiconsIcon
+            icon={pending === "upload" ? Loading03Icon : Upload04Icon}
+            size={14}
+            className={pending === "upload" ? "animate-spin" : undefined}
+          />
+          {existing ? "Replace file" : "Upload .vtt / .srt"}
+        </Button>
+        {canGenerate && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={pending !== null || (!!existing && existing.status !== "failed")}
+            onClick={() => run("generate", () => generateVideoCaptions(courseId, videoUrl, language))}
+          >
+            <HugeiconsIcon
+              icon={pending === "generate" ? Loading03Icon : AiMagicIcon}
+              size={14}
+              className={pending === "generate" ? "animate-spin" : undefined}
+            />
+            Generate
+          </Button>
+        )}
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".vtt,.srt,text/vtt,application/x-subrip"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+      <p className="text-xs text-muted-foreground">
+        One track per language. Students see captions in their own language when there is one.
+      </p>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  )
+}
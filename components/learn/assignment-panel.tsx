@@ -0,0 +1,277 @@
+"use client"
+
+import { useRef, useState, useTransition } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { RichTextEditor, RichTextContent } from "@/components/ui/rich-text-editor"
+import { HugeiconsIcon } from "@hugeicons/react"
+import {
+  Attachment01Icon,
+  Cancel01Icon,
+  Loading03Icon,
+  Upload04Icon,
+} from "@hugeicons/core-free-icons"
+import { cn } from "@/lib/utils"
+import { getDocumentUploadUrl } from "@/lib/actions/upload"
+import {
+  submitAssignment,
+  type AssignmentAttachment,
+  type StudentAssignment,
+} from "@/lib/actions/assignments"
+
+const MAX_ATTACHMENTS = 5
+const MAX_FILE_SIZE = 25 * 1024 * 1024 // 25MB
+
+const STATUS_LABELS = {
+  submitted: { label: "Awaiting grade", className: "bg-amber-500 hover:bg-amber-500" },
+  graded: { label: "Graded", className: "bg-emerald-600 hover:bg-emerald-600" },
+  returned: { label: "Returned for revision", className: "bg-orange-500 hover:bg-orange-500" },
+} as const
+
+function formatBytes(bytes: number | null): string {
+  if (!bytes) return ""
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export function AssignmentPanel({ data }: { data: StudentAssignment }) {
+  const router = useRouter()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { assignment, submission } = data
+
+  const [isEditing, setIsEditing] = useState(!submission)
+  const [text, setText] = useState(submission?.text ?? "")
+  const [attachments, setAttachments] = useState<AssignmentAttachment[]>(
+    submission?.attachments ?? []
+  )
+  const [isUploading, setIsUploading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  const totalPoints = assignment.rubric.reduce((s, c) => s + c.maxPoints, 0)
+  const status = submission ? STATUS_LABELS[submission.status] : null
+  const showGrade = submission && submission.status !== "submitted"
+
+  async function handleFiles(files: FileList | null) {
+    if (!files?.length) return
+    setError(null)
+
+    const selected = Array.from(files).slice(0, MAX_ATTACHMENTS - attachments.length)
+    const tooLarge = selected.find((f) => f.size > MAX_FILE_SIZE)
+    if (tooLarge) {
+      setError(`${tooLarge.name} is larger than 25MB`)
+      return
+    }
+
+    setIsUploading(true)
+    try {
+      for (const file of selected) {
+        const result = await getDocumentUploadUrl(file.name, file.type)
+        if (!result.success || !result.uploadUrl || !result.publicUrl) {
+          setError(result.error || `Failed to upload ${file.name}`)
+          return
+        }
+        const res = await fetch(result.uploadUrl, {
+          method: "PUT",
+          body: file,
+          headers: { "Content-Type": file.type },
+        })
+        if (!res.ok) {
+          setError(`Failed to upload ${file.name}`)
+          return
+        }
+        setAttachments((prev) => [
+          ...prev,
+          {
+            url: result.publicUrl!,
+            key: result.key ?? null,
+            name: file.name,
+            size: file.size,
+            contentType: file.type,
+          },
+        ])
+      }
+    } catch (err) {
+      console.error("Assignment upload error:", err)
+      setError("Upload failed. Please try again.")
+    } finally {
+      setIsUploading(false)
+      if (fileInputRef.current) fileInputRef.current.value = ""
+    }
+  }
+
+  function handleSubmit() {
+    setError(null)
+    startTransition(async () => {
+      const res = await submitAssignment(data.lessonId, { text, attachments })
+      if (!res.success) {
+        setError(res.error || "Failed to submit assignment")
+        return
+      }
+      setIsEditing(false)
+      router.refresh()
+    })
+  }
+
+  return (
+    <div className="w-full bg-muted/30 border-b">
+      <div className="max-w-3xl mx-auto p-6 md:p-8 space-y-6">
+        {/* Summary */}
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          <Badge variant="secondary" className="text-xs">
+            Assignment · {totalPoints} pts
+          </Badge>
+          {submission && <span>Revision {submission.revision}</span>}
+          {status && <Badge className={cn("text-xs", status.className)}>{status.label}</Badge>}
+        </div>
+
+        {data.instructions && <RichTextContent content={data.instructions} />}
+
+        {/* Rubric / grade */}
+        <div className="rounded-lg border bg-background divide-y">
+          <div className="flex items-center justify-between px-4 py-2.5">
+            <p className="text-sm font-medium">Rubric</p>
+            {showGrade && submission.score !== null && (
+              <p className="text-sm font-semibold tabular-nums">
+                {submission.score}/{submission.maxScore}
+              </p>
+            )}
+          </div>
+          {assignment.rubric.map((criterion) => {
+            const scored = showGrade
+              ? submission.rubricScores.find((r) => r.criterionId === criterion.id)
+              : null
+            return (
+              <div key={criterion.id} className="flex items-start justify-between gap-4 px-4 py-2.5">
+                <div className="min-w-0">
+                  <p className="text-sm">{criterion.title}</p>
+                  {criterion.description && (
+                    <p className="text-xs text-muted-foreground">{criterion.description}</p>
+                  )}
+                </div>
+                <span className="text-xs text-muted-foreground tabular-nums shrink-0">
+                  {scored ? `${scored.score}/${criterion.maxPoints}` : `${criterion.maxPoints} pts`}
+                </span>
+              </div>
+            )
+          })}
+        </div>
+
+        {showGrade && submission.feedback && (
+          <div className="rounded-lg border bg-background p-4 space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">Instructor feedback</p>
+            <p className="text-sm whitespace-pre-wrap">{submission.feedback}</p>
+          </div>
+        )}
+
+        {/* Submission */}
+        {isEditing ? (
+          <div className="space-y-4">
+            {assignment.allowText && (
+              <RichTextEditor
+                value={text}
+                onChange={setText}
+                placeholder="Write your answer..."
+                className="bg-background"
+              />
+            )}
+
+            {assignment.allowFiles && (
+              <div className="space-y-2">
+                {attachments.map((file) => (
+                  <div
+                    key={file.url}
+                    className="flex items-center gap-2 rounded-md border bg-background px-3 py-2 text-sm"
+                  >
+                    <HugeiconsIcon icon={Attachment01Icon} size={14} className="text-muted-foreground" />
+                    <span className="truncate flex-1">{file.name}</span>
+                    <span className="text-xs text-muted-foreground">{formatBytes(file.size)}</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={() => setAttachments((prev) => prev.filter((a) => a.url !== file.url))}
+                    >
+                      <HugeiconsIcon icon={Cancel01Icon} size={14} />
+                    </Button>
+                  </div>
+                ))}
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  className="hidden"
+                  accept="image/*,.pdf,.txt,.csv,.doc,.docx,.xls,.xlsx,.ppt,.pptx"
+                  onChange={(e) => handleFiles(e.target.files)}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="border-dashed"
+                  disabled={isUploading || attachments.length >= MAX_ATTACHMENTS}
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  <HugeiconsIcon
+                    icon={isUploading ? Loading03Icon : Upload04Icon}
+                    size={14}
+                    className={cn(isUploading && "animate-spin")}
+                  />
+                  {isUploading ? "Uploading..." : "Attach files"}
+                </Button>
+                <p className="text-[11px] text-muted-foreground">
+                  Up to {MAX_ATTACHMENTS} files, 25MB each
+                </p>
+              </div>
+            )}
+
+            <div className="flex items-center justify-end gap-2">
+              {submission && (
+                <Button variant="ghost" onClick={() => setIsEditing(false)} disabled={isPending}>
+                  Cancel
+                </Button>
+              )}
+              <Button onClick={handleSubmit} disabled={isPending || isUploading}>
+                {isPending ? "Submitting..." : submission ? "Resubmit" : "Submit Assignment"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          submission && (
+            <div className="space-y-3">
+              <p className="text-xs font-medium text-muted-foreground">
+                Your submission · {new Date(submission.submittedAt).toLocaleDateString()}
+              </p>
+              {submission.text && (
+                <div className="rounded-lg border bg-background p-4">
+                  <RichTextContent content={submission.text} />
+                </div>
+              )}
+              {submission.attachments.map((file) => (
+                <a
+                  key={file.url}
+                  href={file.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-2 rounded-md border bg-background px-3 py-2 text-sm hover:bg-muted/50"
+                >
+                  <HugeiconsIcon icon={Attachment01Icon} size={14} className="text-muted-foreground" />
+                  <span className="truncate flex-1">{file.name}</span>
+                  <span className="text-xs text-muted-foreground">{formatBytes(file.size)}</span>
+                </a>
+              ))}
+              {data.canSubmit && (
+                <Button variant="outline" size="sm" onClick={() => setIsEditing(true)}>
+                  {submission.status === "returned" ? "Revise & Resubmit" : "Edit Submission"}
+                </Button>
+              )}
+            </div>
+          )
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+    </div>
+  )
+}
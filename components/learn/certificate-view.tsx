@@ -1,6 +1,6 @@
 "use client"
 
-import { useCallback, useState } from "react"
+import { useState } from "react"
 import Image from "next/image"
 import { Button } from "@/components/ui/button"
 import { HugeiconsIcon } from "@hugeicons/react"
@@ -14,20 +14,11 @@ import type { CertificateData } from "@/lib/actions/certificates"
 import { SignatureCanvas } from "@/components/shared/signature-canvas"
 import { useTheme } from "next-themes"
 
-// ── Helper: fetch image as base64 data URL ───────────────────────────────────
+// ── Public verification link printed on the certificate ─────────────────────
 
-async function fetchAsDataUrl(url: string): Promise<string | null> {
-  try {
-    const resp = await fetch(url)
-    const blob = await resp.blob()
-    return new Promise<string>((resolve) => {
-      const reader = new FileReader()
-      reader.onloadend = () => resolve(reader.result as string)
-      reader.readAsDataURL(blob)
-    })
-  } catch {
-    return null
-  }
+function verifyUrl(serialNumber: string): string {
+  const origin = process.env.NEXT_PUBLIC_APP_URL || "https://academy.worldstreetgold.com"
+  return `${origin.replace(/^https?:\/\//, "").replace(/\/$/, "")}/verify/${serialNumber}`
 }
 
 // ── Corner Ornament SVG ──────────────────────────────────────────────────────
@@ -235,7 +226,7 @@ function CertificatePreview({
 
         {/* Certificate ID */}
         <p className="absolute bottom-3 sm:bottom-4 md:bottom-5 left-0 right-0 text-center text-[6px] sm:text-[7px] md:text-[8px] text-neutral-300 tracking-wider">
-          WSA-{data.id.slice(-8).toUpperCase()}
+          {data.serialNumber} · Verify at {verifyUrl(data.serialNumber)}
         </p>
       </div>
     </div>
@@ -245,241 +236,12 @@ function CertificatePreview({
 // ── Main certificate page client component ───────────────────────────────────
 
 export function CertificateClient({ data }: { data: CertificateData }) {
-  const { theme, systemTheme } = useTheme()
-  const currentTheme = theme === "system" ? systemTheme : theme
-  const logoPath = currentTheme === "light" 
-    ? "/worldstreet-logo/WorldStreet4x.png"
-    : "/worldstreet-logo/WorldStreet1x.png"
-
   const [studentSig, setStudentSig] = useState<string | null>(
     data.studentSignatureUrl
   )
   const [isSigned, setIsSigned] = useState(!!data.studentSignatureUrl)
   const [showCanvas, setShowCanvas] = useState(false)
 
-  const downloadPDF = useCallback(async () => {
-    const { jsPDF } = await import("jspdf")
-    const doc = new jsPDF({
-      orientation: "landscape",
-      unit: "mm",
-      format: "a4",
-    })
-
-    const w = 297
-    const h = 210
-    const cx = w / 2
-
-    // ── Load images in parallel ──────────────────────────────────
-    const [logoDataUrl, watermarkDataUrl, instructorSigDataUrl, studentSigDataUrl] =
-      await Promise.all([
-        fetchAsDataUrl(logoPath),
-        fetchAsDataUrl(logoPath),
-        data.instructorSignatureUrl
-          ? fetchAsDataUrl(data.instructorSignatureUrl)
-          : null,
-        studentSig ? fetchAsDataUrl(studentSig) : null,
-      ])
-
-    // ── White background ─────────────────────────────────────────
-    doc.setFillColor(255, 255, 255)
-    doc.rect(0, 0, w, h, "F")
-
-    // ── Decorative borders ───────────────────────────────────────
-    // Outer thick border
-    doc.setDrawColor(30, 30, 30)
-    doc.setLineWidth(0.8)
-    doc.rect(8, 8, w - 16, h - 16)
-
-    // Inner border
-    doc.setDrawColor(180, 180, 180)
-    doc.setLineWidth(0.3)
-    doc.rect(10, 10, w - 20, h - 20)
-
-    // Third border
-    doc.setDrawColor(210, 210, 210)
-    doc.setLineWidth(0.2)
-    doc.rect(12, 12, w - 24, h - 24)
-
-    // ── Corner ornaments (L-shaped brackets) ─────────────────────
-    const corners = [
-      { x: 11, y: 11, sx: 1, sy: 1 },
-      { x: w - 11, y: 11, sx: -1, sy: 1 },
-      { x: 11, y: h - 11, sx: 1, sy: -1 },
-      { x: w - 11, y: h - 11, sx: -1, sy: -1 },
-    ]
-    doc.setDrawColor(30, 30, 30)
-    doc.setLineWidth(0.6)
-    corners.forEach(({ x, y, sx, sy }) => {
-      doc.line(x, y, x + 18 * sx, y)
-      doc.line(x, y, x, y + 18 * sy)
-    })
-    doc.setDrawColor(180, 180, 180)
-    doc.setLineWidth(0.25)
-    corners.forEach(({ x, y, sx, sy }) => {
-      const ox = 3 * sx
-      const oy = 3 * sy
-      doc.line(x + ox, y + oy, x + ox + 10 * sx, y + oy)
-      doc.line(x + ox, y + oy, x + ox, y + oy + 10 * sy)
-    })
-    // Diamond accents at corners
-    doc.setFillColor(30, 30, 30)
-    corners.forEach(({ x, y, sx, sy }) => {
-      const dx = x + 16 * sx
-      const dy = y + 2 * sy
-      doc.triangle(dx, dy - 1.2, dx - 1.2 * sx, dy, dx, dy + 1.2, "F")
-      doc.triangle(dx, dy - 1.2, dx + 1.2 * sx, dy, dx, dy + 1.2, "F")
-    })
-
-    // ── Center watermark — WorldStreet1 monochrome ───────────────
-    if (watermarkDataUrl) {
-      doc.saveGraphicsState()
-      const gState = doc.GState({ opacity: 0.04 })
-      doc.setGState(gState)
-      doc.addImage(watermarkDataUrl, "PNG", cx - 40, h / 2 - 40, 80, 80)
-      doc.restoreGraphicsState()
-    }
-
-    // ── Logo (top center) — WorldStreet3x ────────────────────────
-    if (logoDataUrl) {
-      // Maintain aspect ratio - WorldStreet logo is wider than tall
-      const logoWidth = 18
-      const logoHeight = 12
-      doc.addImage(logoDataUrl, "PNG", cx - logoWidth/2, 18, logoWidth, logoHeight)
-    }
-
-    // ── Institution name with flanking lines ─────────────────────
-    doc.setDrawColor(180, 180, 180)
-    doc.setLineWidth(0.2)
-    doc.line(cx - 38, 38, cx - 18, 38)
-    doc.line(cx + 18, 38, cx + 38, 38)
-
-    doc.setFont("helvetica", "normal")
-    doc.setFontSize(7)
-    doc.setTextColor(160, 160, 160)
-    doc.text("WORLDSTREET ACADEMY", cx, 39, { align: "center" })
-
-    // ── "Certificate" title ──────────────────────────────────────
-    doc.setFont("helvetica", "normal")
-    doc.setFontSize(32)
-    doc.setTextColor(50, 50, 50)
-    doc.text("CERTIFICATE", cx, 56, { align: "center" })
-
-    // ── "of Completion" subtitle ─────────────────────────────────
-    doc.setFontSize(7)
-    doc.setTextColor(160, 160, 160)
-    doc.text("OF COMPLETION", cx, 63, { align: "center" })
-
-    // ── "This is proudly presented to" ───────────────────────────
-    doc.setFontSize(6.5)
-    doc.setTextColor(160, 160, 160)
-    doc.text("THIS IS PROUDLY PRESENTED TO", cx, 78, { align: "center" })
-
-    // ── Student name (cursive) ───────────────────────────────────
-    doc.setFont("times", "bolditalic")
-    doc.setFontSize(26)
-    doc.setTextColor(25, 25, 25)
-    doc.text(data.studentName, cx, 93, { align: "center" })
-
-    // Line under name
-    doc.setDrawColor(210, 210, 210)
-    doc.setLineWidth(0.25)
-    doc.line(cx - 40, 97, cx + 40, 97)
-
-    // ── "for successfully completing the course" ─────────────────
-    doc.setFont("helvetica", "normal")
-    doc.setFontSize(6.5)
-    doc.setTextColor(160, 160, 160)
-    doc.text("FOR SUCCESSFULLY COMPLETING THE COURSE", cx, 108, {
-      align: "center",
-    })
-
-    // ── Course title ─────────────────────────────────────────────
-    doc.setFont("helvetica", "bold")
-    doc.setFontSize(13)
-    doc.setTextColor(50, 50, 50)
-    const courseTitle = data.courseTitle
-    if (courseTitle.length > 55) {
-      const lines = doc.splitTextToSize(courseTitle, 170)
-      doc.text(lines, cx, 118, { align: "center" })
-    } else {
-      doc.text(courseTitle, cx, 118, { align: "center" })
-    }
-
-    // ── Bottom section: 3-column layout ──────────────────────────
-    const botY = h - 40
-    const colLeft = 65
-    const colRight = w - 65
-
-    // ── Left column: Student signature + Date ────────────────────
-    if (studentSigDataUrl) {
-      doc.addImage(studentSigDataUrl, "PNG", colLeft - 18, botY - 14, 36, 12)
-    }
-    doc.setDrawColor(180, 180, 180)
-    doc.setLineWidth(0.25)
-    doc.line(colLeft - 22, botY, colLeft + 22, botY)
-
-    doc.setFont("helvetica", "normal")
-    doc.setFontSize(5.5)
-    doc.setTextColor(160, 160, 160)
-    doc.text("STUDENT", colLeft, botY + 5, { align: "center" })
-
-    const dateFormatted = new Date(data.completedAt).toLocaleDateString(
-      "en-US",
-      { year: "numeric", month: "long", day: "numeric" }
-    )
-    doc.setFontSize(7)
-    doc.setTextColor(80, 80, 80)
-    doc.text(dateFormatted, colLeft, botY + 11, { align: "center" })
-
-    // ── Center: Seal / Logo — WorldStreet3x ──────────────────────
-    if (logoDataUrl) {
-      // Maintain aspect ratio - WorldStreet logo is wider than tall
-      const sealWidth = 24
-      const sealHeight = 16
-      doc.addImage(logoDataUrl, "PNG", cx - sealWidth/2, botY - 12, sealWidth, sealHeight)
-    }
-    doc.setFont("helvetica", "normal")
-    doc.setFontSize(5)
-    doc.setTextColor(190, 190, 190)
-    doc.text("VERIFIED", cx, botY + 13, { align: "center" })
-
-    // ── Right column: Instructor signature + Name ────────────────
-    if (instructorSigDataUrl) {
-      doc.addImage(
-        instructorSigDataUrl,
-        "PNG",
-        colRight - 18,
-        botY - 14,
-        36,
-        12
-      )
-    }
-    doc.setDrawColor(180, 180, 180)
-    doc.setLineWidth(0.25)
-    doc.line(colRight - 22, botY, colRight + 22, botY)
-
-    doc.setFont("helvetica", "normal")
-    doc.setFontSize(5.5)
-    doc.setTextColor(160, 160, 160)
-    doc.text("INSTRUCTOR", colRight, botY + 5, { align: "center" })
-
-    doc.setFontSize(7)
-    doc.setTextColor(80, 80, 80)
-    doc.text(data.instructorName, colRight, botY + 11, { align: "center" })
-
-    // ── Certificate ID ───────────────────────────────────────────
-    doc.setFont("helvetica", "normal")
-    doc.setFontSize(5)
-    doc.setTextColor(200, 200, 200)
-    doc.text(`WSA-${data.id.slice(-8).toUpperCase()}`, cx, h - 12, {
-      align: "center",
-    })
-
-    doc.save(
-      `WorldStreet-Certificate-${data.courseTitle.replace(/[^a-zA-Z0-9]/g, "-")}.pdf`
-    )
-  }, [data, studentSig, logoPath])
-
   return (
     <div className="min-h-screen flex flex-col items-center bg-neutral-50 dark:bg-neutral-950">
       {/* Top bar */}
@@ -494,15 +256,21 @@ export function CertificateClient({ data }: { data: CertificateData }) {
           My Certificates
         </Button>
 
-        <Button
-          size="sm"
-          onClick={downloadPDF}
-          disabled={!data.instructorSignatureUrl}
-          className="gap-1.5"
-        >
-          <HugeiconsIcon icon={Download01Icon} size={16} />
-          {data.instructorSignatureUrl ? "Download PDF" : "Awaiting Signature"}
-        </Button>
+        {data.instructorSignatureUrl ? (
+          <Button
+            size="sm"
+            render={<a href={`/api/certificates/${data.serialNumber}/pdf?download=1`} />}
+            className="gap-1.5"
+          >
+            <HugeiconsIcon icon={Download01Icon} size={16} />
+            Download PDF
+          </Button>
+        ) : (
+          <Button size="sm" disabled className="gap-1.5">
+            <HugeiconsIcon icon={Download01Icon} size={16} />
+            Awaiting Signature
+          </Button>
+        )}
       </div>
 
       {/* Certificate */}
@@ -581,7 +349,10 @@ export function CertificateClient({ data }: { data: CertificateData }) {
         </div>
 
         <p className="text-center text-[11px] text-muted-foreground mt-4">
-          Certificate ID: WSA-{data.id.slice(-8).toUpperCase()}
+          Certificate ID: {data.serialNumber} ·{" "}
+          <Link href={`/verify/${data.serialNumber}`} className="underline underline-offset-2">
+            Public verification page
+          </Link>
         </p>
       </div>
     </div>
@@ -6,8 +6,9 @@ import { ScrollArea } from "@/components/ui/scroll-area"
 import { AnimatePresence, motion } from "motion/react"
 import { cn } from "@/lib/utils"
 import { HugeiconsIcon } from "@hugeicons/react"
-import { Tick02Icon, Video01Icon, Wifi01Icon, File01Icon } from "@hugeicons/core-free-icons"
+import { Tick02Icon, Video01Icon, Wifi01Icon, File01Icon, Quiz02Icon, AssignmentsIcon, Package01Icon, LockIcon } from "@hugeicons/core-free-icons"
 import type { LearnLesson } from "@/lib/actions/student"
+import { lessonLockLabel } from "@/components/learn/locked-lesson"
 
 type LessonSidebarProps = {
   lessons: LearnLesson[]
@@ -22,6 +23,9 @@ const typeIcons = {
   video: Video01Icon,
   live: Wifi01Icon,
   text: File01Icon,
+  quiz: Quiz02Icon,
+  assignment: AssignmentsIcon,
+  scorm: Package01Icon,
 }
 
 /* ---- Equalizer bars animation (playing indicator) ---- */
@@ -77,6 +81,7 @@ export function LessonSidebar({
               const isUpNext = lesson.id === nextLessonId
               const isCompleted = completedLessonIds.includes(lesson.id)
               const watchPercent = watchProgressMap[lesson.id] ?? 0
+              const isLocked = lesson.lock !== null
 
               return (
                 <motion.div
@@ -130,20 +135,28 @@ export function LessonSidebar({
                       >
                         {isCompleted && !isCurrent ? (
                           <HugeiconsIcon icon={Tick02Icon} size={12} className="text-white" />
+                        ) : isLocked && !isCurrent ? (
+                          <HugeiconsIcon icon={LockIcon} size={11} className="text-white" />
                         ) : (
                           index + 1
                         )}
                       </motion.div>
                     </div>
                     <div className="min-w-0 flex-1">
-                      <p className="truncate font-medium text-sm">{lesson.title}</p>
-                      <p className="text-xs text-muted-foreground capitalize">
-                        {lesson.type}
-                        {lesson.duration ? ` · ${Math.floor(lesson.duration / 60)}:${String(lesson.duration % 60).padStart(2, '0')}` : ""}
-                        {watchPercent > 0 && !isCompleted && (
-                          <span className="text-primary"> · {watchPercent}%</span>
-                        )}
+                      <p className={cn("truncate font-medium text-sm", isLocked && "text-muted-foreground")}>
+                        {lesson.title}
                       </p>
+                      {lesson.lock ? (
+                        <p className="text-xs text-muted-foreground truncate">{lessonLockLabel(lesson.lock)}</p>
+                      ) : (
+                        <p className="text-xs text-muted-foreground capitalize">
+                          {lesson.type}
+                          {lesson.duration ? ` · ${Math.floor(lesson.duration / 60)}:${String(lesson.duration % 60).padStart(2, '0')}` : ""}
+                          {watchPercent > 0 && !isCompleted && (
+                            <span className="text-primary"> · {watchPercent}%</span>
+                          )}
+                        </p>
+                      )}
                       {/* Watch progress bar */}
                       {watchPercent > 0 && !isCompleted && (
                         <div className="mt-1 h-1 w-full rounded-full bg-muted overflow-hidden">
@@ -0,0 +1,177 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { HugeiconsIcon } from "@hugeicons/react"
+import { ArrowDown01Icon, Search01Icon, SubtitleIcon } from "@hugeicons/core-free-icons"
+import { Input } from "@/components/ui/input"
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible"
+import { cn } from "@/lib/utils"
+import { getCaptionTranscript } from "@/lib/actions/captions"
+import type { CaptionTrack, TranscriptCue } from "@/lib/types"
+
+function formatTime(seconds: number) {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = Math.floor(seconds % 60)
+  const mm = h > 0 ? m.toString().padStart(2, "0") : m.toString()
+  return `${h > 0 ? `${h}:` : ""}${mm}:${s.toString().padStart(2, "0")}`
+}
+
+/** The cue playing at `time` — the last one started before it */
+function findActiveCue(cues: TranscriptCue[], time: number) {
+  let active = -1
+  for (let i = 0; i < cues.length && cues[i].start <= time; i++) {
+    if (time < cues[i].end) active = i
+  }
+  return active
+}
+
+function Highlight({ text, query }: { text: string; query: string }) {
+  if (!query) return <>{text}</>
+  const at = text.toLowerCase().indexOf(query.toLowerCase())
+  if (at === -1) return <>{text}</>
+  return (
+    <>
+      {text.slice(0, at)}
+      <mark className="rounded-sm bg-primary/20 text-foreground">{text.slice(at, at + query.length)}</mark>
+      {text.slice(at + query.length)}
+    </>
+  )
+}
+
+/* ─── Searchable transcript — clicking a line seeks the video ─── */
+export function LessonTranscript({
+  captions,
+  defaultCaptionId,
+  currentTime,
+  onSeek,
+}: {
+  captions: CaptionTrack[]
+  defaultCaptionId: string
+  currentTime: number
+  onSeek: (time: number) => void
+}) {
+  const [open, setOpen] = useState(false)
+  const [trackId, setTrackId] = useState(defaultCaptionId)
+  const [query, setQuery] = useState("")
+  // Loaded cues per track; null = the track couldn't be loaded
+  const [transcripts, setTranscripts] = useState<Record<string, TranscriptCue[] | null>>({})
+  const listRef = useRef<HTMLDivElement>(null)
+
+  const cues = transcripts[trackId]
+  const isLoading = open && cues === undefined
+
+  useEffect(() => {
+    if (!open || trackId in transcripts) return
+    let cancelled = false
+    getCaptionTranscript(trackId).then((result) => {
+      if (!cancelled) setTranscripts((prev) => ({ ...prev, [trackId]: result }))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [open, trackId, transcripts])
+
+  const search = query.trim()
+  const visible = (cues ?? [])
+    .map((cue, index) => ({ cue, index }))
+    .filter(({ cue }) => !search || cue.text.toLowerCase().includes(search.toLowerCase()))
+  const activeIndex = cues ? findActiveCue(cues, currentTime) : -1
+
+  // Keep the playing line in view — unless the student is searching
+  useEffect(() => {
+    const list = listRef.current
+    if (!list || search || activeIndex === -1) return
+    const line = list.querySelector<HTMLElement>(`[data-cue="${activeIndex}"]`)
+    if (!line) return
+    const top = line.offsetTop - list.clientHeight / 2 + line.clientHeight / 2
+    list.scrollTo({ top: Math.max(0, top), behavior: "smooth" })
+  }, [activeIndex, search])
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="border-b bg-background">
+      <CollapsibleTrigger className="w-full flex items-center gap-2 px-4 py-2.5 text-left text-sm font-medium hover:bg-muted/40 transition-colors">
+        <HugeiconsIcon icon={SubtitleIcon} size={16} className="text-muted-foreground" />
+        <span className="flex-1">Transcript</span>
+        <HugeiconsIcon
+          icon={ArrowDown01Icon}
+          size={14}
+          className={cn("text-muted-foreground transition-transform", open && "rotate-180")}
+        />
+      </CollapsibleTrigger>
+
+      <CollapsibleContent>
+        <div className="px-4 pb-3 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="relative flex-1 min-w-40">
+              <HugeiconsIcon
+                icon={Search01Icon}
+                size={14}
+                className="absolute left-2.5 top-1/2 -translate-y-1/2 text-muted-foreground"
+              />
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search transcript"
+                className="h-8 pl-8 text-xs"
+              />
+            </div>
+            {captions.length > 1 && (
+              <div className="flex flex-wrap gap-1">
+                {captions.map((track) => (
+                  <button
+                    key={track.id}
+                    onClick={() => setTrackId(track.id)}
+                    className={cn(
+                      "px-2.5 py-1 rounded-md text-xs font-medium transition-colors",
+                      track.id === trackId
+                        ? "bg-primary text-primary-foreground"
+                        : "bg-muted text-muted-foreground hover:bg-muted/80"
+                    )}
+                  >
+                    {track.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div ref={listRef} className="relative max-h-72 overflow-y-auto rounded-lg border">
+            {isLoading ? (
+              <p className="p-3 text-xs text-muted-foreground">Loading transcript...</p>
+            ) : cues === null ? (
+              <p className="p-3 text-xs text-destructive">Couldn&apos;t load the transcript</p>
+            ) : visible.length === 0 ? (
+              <p className="p-3 text-xs text-muted-foreground">
+                {search ? `Nothing matches "${search}"` : "This transcript is empty"}
+              </p>
+            ) : (
+              visible.map(({ cue, index }) => (
+                <button
+                  key={index}
+                  data-cue={index}
+                  onClick={() => onSeek(cue.start)}
+                  className={cn(
+                    "w-full flex gap-3 px-3 py-1.5 text-left text-sm transition-colors hover:bg-muted/60",
+                    index === activeIndex && "bg-primary/10"
+                  )}
+                >
+                  <span className="shrink-0 w-12 pt-0.5 text-[11px] tabular-nums text-muted-foreground">
+                    {formatTime(cue.start)}
+                  </span>
+                  <span className={cn("whitespace-pre-line", index === activeIndex && "text-primary")}>
+                    <Highlight text={cue.text} query={search} />
+                  </span>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
@@ -1,10 +1,12 @@
 "use client"
 
 import { useRouter } from "next/navigation"
-import { useTransition, useEffect, useState } from "react"
-import { VideoPlayer } from "@/components/learn/video-player"
+import { useTransition, useEffect, useRef, useState } from "react"
+import { VideoPlayer, type VideoPlayerHandle } from "@/components/learn/video-player"
+import { LessonTranscript } from "@/components/learn/lesson-transcript"
 import { markLessonComplete } from "@/lib/actions/student"
 import { getLessonWatchProgress } from "@/lib/actions/watch-progress"
+import type { CaptionTrack } from "@/lib/types"
 
 type Lesson = {
   id: string
@@ -15,14 +17,33 @@ type Lesson = {
 
 type LessonVideoPlayerProps = {
   src: string
+  hlsSrc?: string | null
+  poster?: string | null
+  captions?: CaptionTrack[]
+  /** The student's language — its captions are on from the start */
+  preferredLanguage?: string | null
   courseId: string
   lessonId: string
   currentTitle: string
   nextLesson: Lesson | null
 }
 
+/** The track in the student's language, or a regional variant of it */
+function pickCaptionTrack(captions: CaptionTrack[], language: string | null | undefined) {
+  if (!language) return null
+  const base = language.split("-")[0]
+  const track =
+    captions.find((t) => t.language === language) ??
+    captions.find((t) => t.language.split("-")[0] === base)
+  return track?.id ?? null
+}
+
 export function LessonVideoPlayer({
   src,
+  hlsSrc,
+  poster,
+  captions = [],
+  preferredLanguage,
   courseId,
   lessonId,
   currentTitle,
@@ -31,6 +52,9 @@ export function LessonVideoPlayer({
   const router = useRouter()
   const [, startTransition] = useTransition()
   const [initialTime, setInitialTime] = useState<number | undefined>(undefined)
+  const playerRef = useRef<VideoPlayerHandle>(null)
+  const [playbackTime, setPlaybackTime] = useState(0)
+  const defaultCaptionId = pickCaptionTrack(captions, preferredLanguage)
   
   // Fetch saved watch position on mount
   useEffect(() => {
@@ -49,14 +73,30 @@ export function LessonVideoPlayer({
   }
   
   return (
-    <VideoPlayer
-      src={src}
-      courseId={courseId}
-      lessonId={lessonId}
-      currentTitle={currentTitle}
-      nextLesson={nextLesson}
-      onComplete={handleComplete}
-      initialTime={initialTime}
-    />
+    <>
+      <VideoPlayer
+        ref={playerRef}
+        src={src}
+        hlsSrc={hlsSrc}
+        poster={poster}
+        captions={captions}
+        defaultCaptionId={defaultCaptionId}
+        courseId={courseId}
+        lessonId={lessonId}
+        currentTitle={currentTitle}
+        nextLesson={nextLesson}
+        onComplete={handleComplete}
+        onTimeUpdate={captions.length > 0 ? setPlaybackTime : undefined}
+        initialTime={initialTime}
+      />
+      {captions.length > 0 && (
+        <LessonTranscript
+          captions={captions}
+          defaultCaptionId={defaultCaptionId ?? captions[0].id}
+          currentTime={playbackTime}
+          onSeek={(time) => playerRef.current?.seek(time)}
+        />
+      )}
+    </>
   )
 }
@@ -0,0 +1,51 @@
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { HugeiconsIcon } from "@hugeicons/react"
+import { LockIcon } from "@hugeicons/core-free-icons"
+import type { LearnLesson } from "@/lib/actions/student"
+
+type LessonLock = NonNullable<LearnLesson["lock"]>
+
+function formatUnlockDate(iso: string) {
+  return new Date(iso).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  })
+}
+
+/** Short "why is this locked" line for lesson lists */
+export function lessonLockLabel(lock: LessonLock) {
+  if (lock.unlocksAt) return `Unlocks ${formatUnlockDate(lock.unlocksAt)}`
+  return `Complete “${lock.prerequisiteTitle ?? "an earlier lesson"}” first`
+}
+
+/* ─── Shown in place of the lesson content while it's locked ─── */
+export function LockedLessonPanel({ lock, courseId }: { lock: LessonLock; courseId: string }) {
+  return (
+    <div className="aspect-video w-full bg-muted/40 border-b flex items-center justify-center p-6">
+      <div className="text-center space-y-3 max-w-sm">
+        <HugeiconsIcon icon={LockIcon} size={48} className="text-muted-foreground/40 mx-auto" />
+        <h2 className="font-semibold text-lg">This lesson is locked</h2>
+        <div className="space-y-1 text-sm text-muted-foreground">
+          {lock.unlocksAt && <p>It opens on {formatUnlockDate(lock.unlocksAt)}.</p>}
+          {lock.prerequisiteLessonId && (
+            <p>
+              Complete &ldquo;{lock.prerequisiteTitle ?? "an earlier lesson"}&rdquo;{" "}
+              {lock.unlocksAt ? "as well" : "to unlock it"}.
+            </p>
+          )}
+        </div>
+        {lock.prerequisiteLessonId && (
+          <Button
+            size="sm"
+            variant="outline"
+            render={<Link href={`/dashboard/courses/${courseId}/learn/${lock.prerequisiteLessonId}`} />}
+          >
+            Go to {lock.prerequisiteTitle ?? "lesson"}
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
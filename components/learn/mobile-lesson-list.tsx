@@ -5,8 +5,9 @@ import Image from "next/image"
 import { motion, AnimatePresence } from "motion/react"
 import { cn } from "@/lib/utils"
 import { HugeiconsIcon } from "@hugeicons/react"
-import { Tick02Icon, Video01Icon, Wifi01Icon, File01Icon } from "@hugeicons/core-free-icons"
+import { Tick02Icon, Video01Icon, Wifi01Icon, File01Icon, Quiz02Icon, AssignmentsIcon, Package01Icon, LockIcon } from "@hugeicons/core-free-icons"
 import type { LearnLesson } from "@/lib/actions/student"
+import { lessonLockLabel } from "@/components/learn/locked-lesson"
 
 type MobileLessonListProps = {
   lessons: LearnLesson[]
@@ -21,6 +22,9 @@ const typeIcons = {
   video: Video01Icon,
   live: Wifi01Icon,
   text: File01Icon,
+  quiz: Quiz02Icon,
+  assignment: AssignmentsIcon,
+  scorm: Package01Icon,
 }
 
 /* ---- Equalizer bars animation (playing indicator) ---- */
@@ -70,6 +74,7 @@ export function MobileLessonList({
         const isUpNext = lesson.id === nextLessonId
         const isCompleted = completedLessonIds.includes(lesson.id)
         const watchPercent = watchProgressMap[lesson.id] ?? 0
+        const isLocked = lesson.lock !== null
         return (
           <Link
             key={lesson.id}
@@ -115,22 +120,30 @@ export function MobileLessonList({
               >
                 {isCompleted && !isCurrent ? (
                   <HugeiconsIcon icon={Tick02Icon} size={10} className="text-white" />
+                ) : isLocked && !isCurrent ? (
+                  <HugeiconsIcon icon={LockIcon} size={9} className="text-white" />
                 ) : (
                   index + 1
                 )}
               </div>
             </div>
             <div className="min-w-0 flex-1">
-              <p className="truncate font-medium text-sm">{lesson.title}</p>
-              <p className="text-[11px] text-muted-foreground capitalize">
-                {lesson.type}
-                {lesson.duration 
-                  ? ` · ${Math.floor(lesson.duration / 60)}:${String(lesson.duration % 60).padStart(2, '0')}` 
-                  : ""}
-                {watchPercent > 0 && !isCompleted && (
-                  <span className="text-primary"> · {watchPercent}%</span>
-                )}
+              <p className={cn("truncate font-medium text-sm", isLocked && "text-muted-foreground")}>
+                {lesson.title}
               </p>
+              {lesson.lock ? (
+                <p className="text-[11px] text-muted-foreground truncate">{lessonLockLabel(lesson.lock)}</p>
+              ) : (
+                <p className="text-[11px] text-muted-foreground capitalize">
+                  {lesson.type}
+                  {lesson.duration
+                    ? ` · ${Math.floor(lesson.duration / 60)}:${String(lesson.duration % 60).padStart(2, '0')}`
+                    : ""}
+                  {watchPercent > 0 && !isCompleted && (
+                    <span className="text-primary"> · {watchPercent}%</span>
+                  )}
+                </p>
+              )}
               {/* Watch progress bar */}
               {watchPercent > 0 && !isCompleted && (
                 <div className="mt-1 h-1 w-full rounded-full bg-muted overflow-hidden">
@@ -0,0 +1,246 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { HugeiconsIcon } from "@hugeicons/react"
+import { Tick02Icon, Cancel01Icon } from "@hugeicons/core-free-icons"
+import { cn } from "@/lib/utils"
+import {
+  submitQuizAttempt,
+  type QuizAttemptResult,
+  type StudentQuiz,
+} from "@/lib/actions/quizzes"
+
+type AnswerState = Record<string, { selectedOptions: number[]; textAnswer: string }>
+
+export function QuizPlayer({ quiz }: { quiz: StudentQuiz }) {
+  const router = useRouter()
+  const [answers, setAnswers] = useState<AnswerState>({})
+  const [result, setResult] = useState<QuizAttemptResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  const bestPercent = quiz.attempts.reduce((max, a) => Math.max(max, a.percent), 0)
+  const attemptsRemaining = result ? result.attemptsRemaining : quiz.attemptsRemaining
+  const canRetry = attemptsRemaining === null || attemptsRemaining > 0
+  const resultsById = new Map(result?.results.map((r) => [r.questionId, r]))
+
+  function selectOption(questionId: string, index: number, multi: boolean) {
+    setAnswers((prev) => {
+      const current = prev[questionId]?.selectedOptions ?? []
+      const selectedOptions = multi
+        ? current.includes(index)
+          ? current.filter((i) => i !== index)
+          : [...current, index]
+        : [index]
+      return {
+        ...prev,
+        [questionId]: { textAnswer: prev[questionId]?.textAnswer ?? "", selectedOptions },
+      }
+    })
+  }
+
+  function setText(questionId: string, textAnswer: string) {
+    setAnswers((prev) => ({
+      ...prev,
+      [questionId]: { selectedOptions: prev[questionId]?.selectedOptions ?? [], textAnswer },
+    }))
+  }
+
+  function handleSubmit() {
+    setError(null)
+    startTransition(async () => {
+      const res = await submitQuizAttempt(
+        quiz.lessonId,
+        quiz.questions.map((q) => ({
+          questionId: q.id,
+          selectedOptions: answers[q.id]?.selectedOptions ?? [],
+          textAnswer: answers[q.id]?.textAnswer ?? null,
+        }))
+      )
+      if (!res.success || !res.data) {
+        setError(res.error || "Failed to submit quiz")
+        return
+      }
+      setResult(res.data)
+      router.refresh()
+    })
+  }
+
+  function handleRetry() {
+    setAnswers({})
+    setResult(null)
+    setError(null)
+  }
+
+  const unanswered = quiz.questions.filter((q) =>
+    q.type === "short_answer"
+      ? !answers[q.id]?.textAnswer?.trim()
+      : !answers[q.id]?.selectedOptions?.length
+  ).length
+
+  return (
+    <div className="w-full bg-muted/30 border-b">
+      <div className="max-w-3xl mx-auto p-6 md:p-8 space-y-6">
+        {/* Summary */}
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          <Badge variant="secondary" className="text-xs">
+            {quiz.questions.length} question{quiz.questions.length !== 1 ? "s" : ""}
+          </Badge>
+          <span>Pass mark {quiz.passMark}%</span>
+          <span>·</span>
+          <span>
+            {quiz.maxAttempts
+              ? `${attemptsRemaining} of ${quiz.maxAttempts} attempts left`
+              : "Unlimited attempts"}
+          </span>
+          {quiz.attempts.length > 0 && (
+            <>
+              <span>·</span>
+              <span>Best score {bestPercent}%</span>
+            </>
+          )}
+          {quiz.passed && (
+            <Badge className="text-xs bg-emerald-600 hover:bg-emerald-600">Passed</Badge>
+          )}
+        </div>
+
+        {/* Result banner */}
+        {result && (
+          <div
+            className={cn(
+              "rounded-lg border p-4 flex items-center justify-between gap-4",
+              result.attempt.passed
+                ? "border-emerald-500/40 bg-emerald-500/10"
+                : "border-destructive/40 bg-destructive/10"
+            )}
+          >
+            <div>
+              <p className="font-semibold text-sm">
+                {result.attempt.passed ? "You passed!" : "Not quite there yet"}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Scored {result.attempt.score}/{result.attempt.maxScore} ({result.attempt.percent}%)
+                {result.attempt.passed
+                  ? " — this lesson is now complete."
+                  : ` — you need ${quiz.passMark}% to pass.`}
+              </p>
+            </div>
+            {canRetry && (
+              <Button size="sm" variant="outline" onClick={handleRetry}>
+                Try again
+              </Button>
+            )}
+          </div>
+        )}
+
+        {!result && !quiz.canAttempt ? (
+          <p className="text-sm text-muted-foreground">
+            You have used all your attempts for this quiz.
+          </p>
+        ) : (
+          <>
+            {/* Questions */}
+            <ol className="space-y-5">
+              {quiz.questions.map((question, qi) => {
+                const answer = answers[question.id]
+                const graded = resultsById.get(question.id)
+                const isMulti = question.type === "multi_select"
+
+                return (
+                  <li key={question.id} className="rounded-lg border bg-background p-4 space-y-3">
+                    <div className="flex items-start justify-between gap-3">
+                      <p className="text-sm font-medium">
+                        {qi + 1}. {question.prompt}
+                      </p>
+                      <div className="flex items-center gap-1.5 shrink-0">
+                        {graded && (
+                          <HugeiconsIcon
+                            icon={graded.isCorrect ? Tick02Icon : Cancel01Icon}
+                            size={14}
+                            className={graded.isCorrect ? "text-emerald-600" : "text-destructive"}
+                          />
+                        )}
+                        <span className="text-[11px] text-muted-foreground">
+                          {question.points} pt{question.points !== 1 ? "s" : ""}
+                        </span>
+                      </div>
+                    </div>
+                    {isMulti && !graded && (
+                      <p className="text-[11px] text-muted-foreground">Select all that apply</p>
+                    )}
+
+                    {question.type === "short_answer" ? (
+                      <div className="space-y-1">
+                        <Input
+                          placeholder="Your answer"
+                          value={answer?.textAnswer ?? ""}
+                          onChange={(e) => setText(question.id, e.target.value)}
+                          disabled={!!result}
+                        />
+                        {graded?.acceptedAnswers && (
+                          <p className="text-xs text-muted-foreground">
+                            Accepted: {graded.acceptedAnswers.join(", ")}
+                          </p>
+                        )}
+                      </div>
+                    ) : (
+                      <div className="space-y-1.5">
+                        {question.options.map((option, oi) => {
+                          const selected = answer?.selectedOptions?.includes(oi) ?? false
+                          const isCorrectOption = graded?.correctOptions?.includes(oi)
+                          return (
+                            <label
+                              key={oi}
+                              className={cn(
+                                "flex items-center gap-2.5 rounded-md border px-3 py-2 text-sm cursor-pointer transition-colors",
+                                selected && "border-primary bg-primary/5",
+                                isCorrectOption && "border-emerald-500 bg-emerald-500/10",
+                                result && "cursor-default"
+                              )}
+                            >
+                              <Checkbox
+                                checked={selected}
+                                onCheckedChange={() => selectOption(question.id, oi, isMulti)}
+                                disabled={!!result}
+                                className={cn(!isMulti && "rounded-full")}
+                              />
+                              {option}
+                            </label>
+                          )
+                        })}
+                      </div>
+                    )}
+
+                    {graded?.explanation && (
+                      <p className="text-xs text-muted-foreground border-l-2 pl-3">
+                        {graded.explanation}
+                      </p>
+                    )}
+                  </li>
+                )
+              })}
+            </ol>
+
+            {!result && (
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-xs text-muted-foreground">
+                  {unanswered > 0 ? `${unanswered} unanswered` : "All questions answered"}
+                </span>
+                <Button onClick={handleSubmit} disabled={isPending}>
+                  {isPending ? "Submitting..." : "Submit Quiz"}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,174 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Badge } from "@/components/ui/badge"
+import { commitScormRuntime, type ScormLaunch } from "@/lib/actions/scorm"
+import { SCORM_RUNTIME_MESSAGE, type ScormRuntimeEvent, type ScormRuntimeState } from "@/lib/scorm-runtime"
+
+type RuntimeState = {
+  values: Record<string, string>
+  dirty: Set<string>
+  phase: "idle" | "running" | "finished"
+}
+
+/** The launch URL with the parameters an xAPI package reads its LRS from */
+function xapiLaunchUrl(launch: ScormLaunch) {
+  if (!launch.xapi) return launch.launchUrl
+  const origin = window.location.origin
+  const url = new URL(launch.launchUrl, origin)
+  url.searchParams.set("endpoint", `${origin}/api/xapi/${launch.lessonId}/`)
+  // The package has no session — the LRS authenticates it by its launch token
+  url.searchParams.set("auth", launch.xapi.auth)
+  url.searchParams.set(
+    "actor",
+    JSON.stringify({
+      objectType: "Agent",
+      name: launch.xapi.learnerName,
+      account: { homePage: origin, name: launch.xapi.learnerId },
+    })
+  )
+  url.searchParams.set("activity_id", launch.xapi.activityId)
+  url.searchParams.set("registration", launch.xapi.registration)
+  return url.toString()
+}
+
+export function ScormPlayer({ launch }: { launch: ScormLaunch }) {
+  const router = useRouter()
+  const frame = useRef<HTMLIFrameElement>(null)
+  // The player is keyed by lesson; a refresh mustn't restart the package mid-run
+  const launchRef = useRef(launch)
+  const completedRef = useRef(launch.completed)
+  const [completed, setCompleted] = useState(launch.completed)
+  const [error, setError] = useState<string | null>(null)
+  const runtime = useRef<RuntimeState>({
+    values: { ...launch.cmi },
+    dirty: new Set(),
+    phase: "idle",
+  })
+  // Commits are saved one after another so a late one can't overwrite a newer one
+  const saving = useRef<Promise<void>>(Promise.resolve())
+
+  useEffect(() => {
+    const launch = launchRef.current
+    if (!frame.current) return
+    if (launch.standard === "xapi") {
+      frame.current.src = xapiLaunchUrl(launch)
+      return
+    }
+
+    const standard = launch.standard
+    const state = runtime.current
+    const sessionKey = standard === "scorm12" ? "cmi.core.session_time" : "cmi.session_time"
+
+    function save(finished: boolean) {
+      const payload: Record<string, string> = {}
+      for (const key of state.dirty) payload[key] = state.values[key] ?? ""
+      if (finished && state.values[sessionKey]) payload[sessionKey] = state.values[sessionKey]
+      state.dirty.clear()
+      if (!launch.tracked || Object.keys(payload).length === 0) return
+
+      saving.current = saving.current.then(async () => {
+        const res = await commitScormRuntime(launch.lessonId, payload, finished)
+        if (!res.success) {
+          setError(res.error || "Failed to save progress")
+          return
+        }
+        setError(null)
+        if (res.data?.completed && !completedRef.current) {
+          completedRef.current = true
+          setCompleted(true)
+          router.refresh()
+        }
+      })
+    }
+
+    // The package runs on another origin and reports through the runtime
+    // injected into its pages (lib/scorm-runtime.ts), which has already
+    // checked each call against the data model
+    function onMessage(event: MessageEvent) {
+      const source = frame.current?.contentWindow
+      const message = event.data as ScormRuntimeEvent | null
+      if (!source || event.source !== source || message?.source !== SCORM_RUNTIME_MESSAGE) return
+
+      switch (message.type) {
+        case "ready": {
+          // A page loaded mid-session picks up what earlier pages set
+          const reply: ScormRuntimeState = { source: SCORM_RUNTIME_MESSAGE, type: "state", values: state.values }
+          // The sandboxed frame has an opaque origin, so it can't be named here
+          source.postMessage(reply, "*")
+          break
+        }
+        case "initialize":
+          if (state.phase === "idle") state.phase = "running"
+          break
+        case "set":
+          if (state.phase !== "running" || typeof message.element !== "string") break
+          state.values[message.element] = String(message.value ?? "")
+          state.dirty.add(message.element)
+          break
+        case "commit":
+          if (state.phase === "running") save(false)
+          break
+        case "finish":
+          if (state.phase !== "running") break
+          state.phase = "finished"
+          save(true)
+          break
+      }
+    }
+    window.addEventListener("message", onMessage)
+    frame.current.src = launch.launchUrl
+
+    // Leaving the lesson without the package finishing still keeps what it set
+    function flush() {
+      if (state.phase === "running") save(false)
+    }
+    window.addEventListener("pagehide", flush)
+
+    return () => {
+      window.removeEventListener("message", onMessage)
+      window.removeEventListener("pagehide", flush)
+      if (state.phase === "running") {
+        state.phase = "finished"
+        save(true)
+      }
+    }
+  }, [router])
+
+  return (
+    <div className="w-full bg-muted/30 border-b">
+      <div className="flex flex-wrap items-center gap-2 px-4 py-2 text-xs text-muted-foreground border-b">
+        <Badge variant="secondary" className="text-xs">
+          {launch.standard === "xapi" ? "xAPI" : launch.standard === "scorm12" ? "SCORM 1.2" : "SCORM 2004"}
+        </Badge>
+        {completed ? (
+          <Badge className="text-xs bg-emerald-600 hover:bg-emerald-600">Completed</Badge>
+        ) : (
+          <span>Finish the package to complete this lesson</span>
+        )}
+        {launch.scorePercent !== null && (
+          <>
+            <span>·</span>
+            <span>Score {launch.scorePercent}%</span>
+          </>
+        )}
+        {!launch.tracked && (
+          <>
+            <span>·</span>
+            <span>Progress isn&apos;t saved in preview</span>
+          </>
+        )}
+        {error && <span className="text-destructive">{error}</span>}
+      </div>
+      <iframe
+        ref={frame}
+        title="Course package"
+        className="block w-full h-[70svh] min-h-[420px] bg-white"
+        sandbox="allow-scripts allow-forms allow-popups"
+        allow="autoplay; fullscreen"
+        allowFullScreen
+      />
+    </div>
+  )
+}
@@ -1,7 +1,8 @@
 "use client"
 
-import { useRef, useState, useEffect, useCallback } from "react"
+import { useRef, useState, useEffect, useCallback, useImperativeHandle } from "react"
 import { useRouter } from "next/navigation"
+import type Hls from "hls.js"
 import { HugeiconsIcon } from "@hugeicons/react"
 import {
   PlayIcon,
@@ -16,10 +17,12 @@ import {
   Settings01Icon,
   Lamp01Icon,
   PictureInPictureOnIcon,
+  ClosedCaptionIcon,
 } from "@hugeicons/core-free-icons"
 import { cn } from "@/lib/utils"
 import { AnimatePresence, motion } from "motion/react"
 import { saveWatchProgress } from "@/lib/actions/watch-progress"
+import type { CaptionTrack } from "@/lib/types"
 import {
   Popover,
   PopoverTrigger,
@@ -45,17 +48,37 @@ type Lesson = {
 
 type VideoPlayerProps = {
   src: string
+  /** Adaptive stream of the same video; src is the fallback */
+  hlsSrc?: string | null
+  poster?: string | null
+  captions?: CaptionTrack[]
+  /** Track shown when the player opens; null = captions off */
+  defaultCaptionId?: string | null
   courseId: string
   lessonId?: string
   nextLesson: Lesson | null
   currentTitle: string
   onLightsOut?: (active: boolean) => void
   onComplete?: () => void
+  onTimeUpdate?: (time: number) => void
   initialTime?: number
+  ref?: React.Ref<VideoPlayerHandle>
+}
+
+/** What the page around the player can do with it (e.g. a transcript) */
+export type VideoPlayerHandle = {
+  seek: (time: number) => void
 }
 
 const PLAYBACK_RATES = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2]
 
+/** -1 lets the stream pick the quality as bandwidth allows */
+const AUTO_QUALITY = -1
+
+type QualityLevel = { index: number; height: number }
+
+const NO_CAPTIONS: CaptionTrack[] = []
+
 function formatTime(seconds: number) {
   if (!isFinite(seconds) || seconds < 0) return "0:00"
   const m = Math.floor(seconds / 60)
@@ -69,13 +92,19 @@ function formatTime(seconds: number) {
 
 export function VideoPlayer({
   src,
+  hlsSrc,
+  poster,
+  captions = NO_CAPTIONS,
+  defaultCaptionId = null,
   courseId,
   lessonId,
   nextLesson,
   currentTitle,
   onLightsOut,
   onComplete,
+  onTimeUpdate,
   initialTime,
+  ref,
 }: VideoPlayerProps) {
   const videoRef = useRef<HTMLVideoElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
@@ -107,6 +136,19 @@ export function VideoPlayer({
   const [showSettings, setShowSettings] = useState(false)
   const [playbackRate, setPlaybackRate] = useState(1)
 
+  // HLS quality — levels are known once the stream's manifest loads
+  const hlsRef = useRef<Hls | null>(null)
+  const [qualityLevels, setQualityLevels] = useState<QualityLevel[]>([])
+  const [quality, setQuality] = useState(AUTO_QUALITY)
+  const [playingLevel, setPlayingLevel] = useState<number | null>(null)
+  const playingHeight = qualityLevels.find((q) => q.index === playingLevel)?.height
+
+  // Captions — drawn by the player so they sit above the controls
+  const [captionId, setCaptionId] = useState<string | null>(defaultCaptionId)
+  const [activeCue, setActiveCue] = useState<{ trackId: string; text: string } | null>(null)
+  const lastCaptionId = useRef(defaultCaptionId)
+  const captionText = activeCue && activeCue.trackId === captionId ? activeCue.text : null
+
   // OSD (on-screen display) for volume / speed / skip feedback
   const [osd, setOsd] = useState<string | null>(null)
 
@@ -160,7 +202,8 @@ export function VideoPlayer({
     if (!video || isSeeking) return
     setCurrentTime(video.currentTime)
     setDuration((d) => (video.duration && isFinite(video.duration) ? video.duration : d))
-  }, [isSeeking])
+    onTimeUpdate?.(video.currentTime)
+  }, [isSeeking, onTimeUpdate])
 
   const handleProgress = useCallback(() => {
     const video = videoRef.current
@@ -197,6 +240,80 @@ export function VideoPlayer({
     return () => cancelAnimationFrame(raf)
   }, [])
 
+  /* ---- Adaptive stream (falls back to the MP4) ---- */
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video || !hlsSrc) return
+
+    let hls: Hls | null = null
+    let cancelled = false
+
+    function playMp4(video: HTMLVideoElement) {
+      const time = video.currentTime
+      video.src = src
+      if (time > 0) video.currentTime = time
+    }
+
+    import("hls.js").then(({ default: HlsPlayer }) => {
+      if (cancelled) return
+      if (!HlsPlayer.isSupported()) {
+        // Safari on iOS plays HLS itself; anything else gets the MP4
+        if (video.canPlayType("application/vnd.apple.mpegurl")) video.src = hlsSrc
+        else playMp4(video)
+        return
+      }
+
+      hls = new HlsPlayer({ capLevelToPlayerSize: true })
+      hlsRef.current = hls
+      hls.on(HlsPlayer.Events.MANIFEST_PARSED, (_event, data) => {
+        setQualityLevels(
+          data.levels
+            .map((level, index) => ({ index, height: level.height }))
+            .sort((a, b) => b.height - a.height)
+        )
+      })
+      hls.on(HlsPlayer.Events.LEVEL_SWITCHED, (_event, data) => setPlayingLevel(data.level))
+      hls.on(HlsPlayer.Events.ERROR, (_event, data) => {
+        if (!data.fatal) return
+        // A stream that won't load (CORS, missing segments) shouldn't stop the lesson
+        hls?.destroy()
+        hlsRef.current = null
+        setQualityLevels([])
+        setQuality(AUTO_QUALITY)
+        playMp4(video)
+      })
+      hls.loadSource(hlsSrc)
+      hls.attachMedia(video)
+    })
+
+    return () => {
+      cancelled = true
+      hls?.destroy()
+      hlsRef.current = null
+    }
+  }, [src, hlsSrc])
+
+  /* ---- Captions: only the chosen track loads; its cues are drawn below ---- */
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video) return
+    const tracks = Array.from(video.textTracks)
+    const selected = tracks.find((t) => captionId && t.id === captionId)
+    for (const track of tracks) {
+      track.mode = track === selected ? "hidden" : "disabled"
+    }
+    if (!selected) return
+
+    const handleCueChange = () => {
+      const text = Array.from(selected.activeCues ?? [])
+        .map((cue) => (cue as VTTCue).text)
+        .join("\n")
+      setActiveCue({ trackId: selected.id, text })
+    }
+    selected.addEventListener("cuechange", handleCueChange)
+    return () => selected.removeEventListener("cuechange", handleCueChange)
+  }, [captionId, captions])
+
   /* ---- Resume from saved position ---- */
   const hasResumed = useRef(false)
   useEffect(() => {
@@ -389,6 +506,54 @@ export function VideoPlayer({
     [flashOsd]
   )
 
+  const changeQuality = useCallback(
+    (level: number) => {
+      const hls = hlsRef.current
+      if (!hls) return
+      hls.currentLevel = level
+      setQuality(level)
+      setShowSettings(false)
+      setShowMobileSettings(false)
+      const height = qualityLevels.find((q) => q.index === level)?.height
+      flashOsd(level === AUTO_QUALITY || !height ? "Auto" : `${height}p`)
+    },
+    [flashOsd, qualityLevels]
+  )
+
+  const changeCaptions = useCallback(
+    (trackId: string | null) => {
+      setCaptionId(trackId)
+      if (trackId) lastCaptionId.current = trackId
+      setShowSettings(false)
+      setShowMobileSettings(false)
+      const track = captions.find((t) => t.id === trackId)
+      flashOsd(track ? `Captions: ${track.label}` : "Captions off")
+    },
+    [captions, flashOsd]
+  )
+
+  const toggleCaptions = useCallback(() => {
+    if (captions.length === 0) return
+    const fallback = captions.some((t) => t.id === lastCaptionId.current)
+      ? lastCaptionId.current
+      : captions[0].id
+    changeCaptions(captionId ? null : fallback)
+  }, [captions, captionId, changeCaptions])
+
+  /* ---- Seeking from outside the player ---- */
+  useImperativeHandle(
+    ref,
+    () => ({
+      seek: (time: number) => {
+        const video = videoRef.current
+        if (!video) return
+        video.currentTime = Math.max(0, Math.min(time, video.duration || time))
+        setCurrentTime(video.currentTime)
+      },
+    }),
+    []
+  )
+
   /* ---- Fullscreen ---- */
   const toggleFullscreen = useCallback(() => {
     const el = containerRef.current
@@ -523,6 +688,9 @@ export function VideoPlayer({
         case "l":
           toggleLightsOut()
           break
+        case "c":
+          toggleCaptions()
+          break
         case ">":
         case ".": {
           const idx = PLAYBACK_RATES.indexOf(playbackRate)
@@ -542,7 +710,7 @@ export function VideoPlayer({
   }, [
     togglePlay, skip, toggleMute, toggleFullscreen, togglePip,
     toggleLightsOut, setVolumeLevel, volume, changePlaybackRate,
-    playbackRate, flashOsd,
+    playbackRate, flashOsd, toggleCaptions,
   ])
 
   /* ---- Derived ---- */
@@ -575,7 +743,8 @@ export function VideoPlayer({
     >
       <video
         ref={videoRef}
-        src={src}
+        src={hlsSrc ? undefined : src}
+        poster={poster ?? undefined}
         className="w-full h-full object-contain"
         onTimeUpdate={handleTimeUpdate}
         onProgress={handleProgress}
@@ -590,7 +759,32 @@ export function VideoPlayer({
         onSeeked={() => setIsBuffering(false)}
         preload="auto"
         playsInline
-      />
+      >
+        {captions.map((track) => (
+          <track
+            key={track.id}
+            id={track.id}
+            kind="subtitles"
+            src={track.src}
+            srcLang={track.language}
+            label={track.label}
+          />
+        ))}
+      </video>
+
+      {/* ---- Captions ---- */}
+      {captionText && (
+        <div
+          className={cn(
+            "absolute inset-x-0 flex justify-center px-4 pointer-events-none transition-all duration-200",
+            showControls ? "bottom-16 md:bottom-20" : "bottom-4 md:bottom-8"
+          )}
+        >
+          <p className="max-w-[90%] whitespace-pre-line rounded bg-black/75 px-2 py-0.5 text-center text-sm md:text-lg text-white">
+            {captionText}
+          </p>
+        </div>
+      )}
 
       {/* ---- Double-tap seek indicators ---- */}
       <AnimatePresence>
@@ -785,7 +979,21 @@ export function VideoPlayer({
               </button>
             )}
 
-            {/* Desktop: Settings popover (speed + quality) */}
+            {/* Captions on / off (C) */}
+            {captions.length > 0 && (
+              <button
+                onClick={(e) => { e.stopPropagation(); toggleCaptions(); resetHideTimer() }}
+                className={cn(
+                  "inline-flex transition-colors p-1",
+                  captionId ? "text-primary" : "text-white/70 hover:text-white"
+                )}
+                title="Captions (C)"
+              >
+                <HugeiconsIcon icon={ClosedCaptionIcon} size={16} />
+              </button>
+            )}
+
+            {/* Desktop: Settings popover (speed + quality + captions) */}
             <Popover open={showSettings} onOpenChange={(open) => { setShowSettings(open); if (open) setShowVolumeSlider(false) }}>
               <PopoverTrigger
                 className={cn(
@@ -826,6 +1034,70 @@ export function VideoPlayer({
                     </button>
                   ))}
                 </div>
+
+                {/* Quality section — adaptive streams only */}
+                {qualityLevels.length > 1 && (
+                  <>
+                    <div className="px-3 py-2 border-y border-white/10">
+                      <p className="text-white/50 text-[10px] uppercase tracking-wider font-medium">
+                        Quality
+                      </p>
+                    </div>
+                    <div className="py-1 max-h-36 overflow-auto">
+                      {[{ index: AUTO_QUALITY, height: 0 }, ...qualityLevels].map((level) => (
+                        <button
+                          key={level.index}
+                          onClick={() => changeQuality(level.index)}
+                          className={cn(
+                            "w-full text-left px-3 py-1.5 text-xs transition-colors flex items-center justify-between",
+                            level.index === quality
+                              ? "text-primary bg-primary/10"
+                              : "text-white/70 hover:text-white hover:bg-white/5"
+                          )}
+                        >
+                          <span>
+                            {level.index === AUTO_QUALITY
+                              ? `Auto${playingHeight ? ` (${playingHeight}p)` : ""}`
+                              : `${level.height}p`}
+                          </span>
+                          {level.index === quality && (
+                            <span className="text-primary text-xs">✓</span>
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                )}
+
+                {/* Captions section */}
+                {captions.length > 0 && (
+                  <>
+                    <div className="px-3 py-2 border-y border-white/10">
+                      <p className="text-white/50 text-[10px] uppercase tracking-wider font-medium">
+                        Captions
+                      </p>
+                    </div>
+                    <div className="py-1 max-h-36 overflow-auto">
+                      {[null, ...captions].map((track) => (
+                        <button
+                          key={track?.id ?? "off"}
+                          onClick={() => changeCaptions(track?.id ?? null)}
+                          className={cn(
+                            "w-full text-left px-3 py-1.5 text-xs transition-colors flex items-center justify-between",
+                            (track?.id ?? null) === captionId
+                              ? "text-primary bg-primary/10"
+                              : "text-white/70 hover:text-white hover:bg-white/5"
+                          )}
+                        >
+                          <span>{track ? track.label : "Off"}</span>
+                          {(track?.id ?? null) === captionId && (
+                            <span className="text-primary text-xs">✓</span>
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                )}
               </PopoverContent>
             </Popover>
 
@@ -904,6 +1176,54 @@ export function VideoPlayer({
               </div>
             </div>
 
+            {/* Quality */}
+            {qualityLevels.length > 1 && (
+              <div className="space-y-2">
+                <p className="text-muted-foreground text-[10px] uppercase tracking-wider font-medium">Quality</p>
+                <div className="flex flex-wrap gap-1.5">
+                  {[{ index: AUTO_QUALITY, height: 0 }, ...qualityLevels].map((level) => (
+                    <button
+                      key={level.index}
+                      onClick={() => changeQuality(level.index)}
+                      className={cn(
+                        "px-3 py-1.5 rounded-lg text-xs font-medium transition-colors",
+                        level.index === quality
+                          ? "bg-primary text-primary-foreground"
+                          : "bg-muted text-muted-foreground hover:bg-muted/80"
+                      )}
+                    >
+                      {level.index === AUTO_QUALITY
+                        ? `Auto${playingHeight ? ` (${playingHeight}p)` : ""}`
+                        : `${level.height}p`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Captions */}
+            {captions.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-muted-foreground text-[10px] uppercase tracking-wider font-medium">Captions</p>
+                <div className="flex flex-wrap gap-1.5">
+                  {[null, ...captions].map((track) => (
+                    <button
+                      key={track?.id ?? "off"}
+                      onClick={() => changeCaptions(track?.id ?? null)}
+                      className={cn(
+                        "px-3 py-1.5 rounded-lg text-xs font-medium transition-colors",
+                        (track?.id ?? null) === captionId
+                          ? "bg-primary text-primary-foreground"
+                          : "bg-muted text-muted-foreground hover:bg-muted/80"
+                      )}
+                    >
+                      {track ? track.label : "Off"}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Extra options */}
             <div className="space-y-1">
               <p className="text-muted-foreground text-[10px] uppercase tracking-wider font-medium mb-2">More</p>
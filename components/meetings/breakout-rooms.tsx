@@ -0,0 +1,462 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { HugeiconsIcon } from "@hugeicons/react"
+import {
+  Cancel01Icon,
+  Loading03Icon,
+  MeetingRoomIcon,
+  Megaphone01Icon,
+  ShuffleIcon,
+  Timer02Icon,
+} from "@hugeicons/core-free-icons"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import type { BreakoutRoomState } from "@/lib/call-events"
+import type { BreakoutAssignment } from "@/lib/actions/meetings"
+
+const ROOM_COUNTS = [2, 3, 4, 5, 6, 8, 10]
+const DURATIONS = [0, 5, 10, 15, 20, 30, 45]
+
+type BreakoutPerson = { userId: string; name: string; avatar: string | null }
+
+function initials(name: string) {
+  return name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2)
+}
+
+/* ── Countdown to the rooms closing ── */
+
+export function BreakoutCountdown({ endsAt, className }: { endsAt: string; className?: string }) {
+  const [remaining, setRemaining] = useState(() => Math.max(0, new Date(endsAt).getTime() - Date.now()))
+
+  useEffect(() => {
+    const iv = setInterval(() => setRemaining(Math.max(0, new Date(endsAt).getTime() - Date.now())), 1000)
+    return () => clearInterval(iv)
+  }, [endsAt])
+
+  const secs = Math.ceil(remaining / 1000)
+  return (
+    <span className={cn("tabular-nums", className)}>
+      {Math.floor(secs / 60)}:{String(secs % 60).padStart(2, "0")}
+    </span>
+  )
+}
+
+/* ═════════════════════════════════════════════════════
+   BREAKOUT BANNER (everyone, while rooms are open)
+   ═════════════════════════════════════════════════════ */
+
+export function BreakoutBanner({
+  userId,
+  isHost,
+  rooms,
+  endsAt,
+  currentRoomId,
+  notice,
+  isSwitching,
+  onJoinRoom,
+  onManage,
+  onDismissNotice,
+}: {
+  userId: string
+  isHost: boolean
+  rooms: BreakoutRoomState[]
+  endsAt: string | null
+  currentRoomId: string | null
+  notice: { from: string; message: string } | null
+  isSwitching: boolean
+  onJoinRoom: (roomId: string | null) => void
+  onManage: () => void
+  onDismissNotice: () => void
+}) {
+  const currentRoom = rooms.find((r) => r.id === currentRoomId)
+  const myRoom = rooms.find((r) => r.participantIds.includes(userId))
+
+  return (
+    <div className="relative z-10 px-4 pb-1 flex flex-col gap-1.5">
+      {rooms.length > 0 && (
+        <div className="flex items-center gap-3 px-4 py-2 rounded-xl bg-sky-500/8 dark:bg-sky-500/6 border border-sky-500/15 animate-in fade-in slide-in-from-top-2 duration-200">
+          <HugeiconsIcon icon={MeetingRoomIcon} size={15} className="text-sky-500 shrink-0" />
+          <span className="text-sm text-foreground font-medium flex-1 truncate">
+            {currentRoom ? currentRoom.name : "Main room"}
+            <span className="text-muted-foreground font-normal">
+              {" "}· {rooms.length} breakout rooms open
+            </span>
+          </span>
+          {endsAt && (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+              <HugeiconsIcon icon={Timer02Icon} size={12} />
+              <BreakoutCountdown endsAt={endsAt} />
+            </span>
+          )}
+          {isHost ? (
+            <button
+              onClick={onManage}
+              className="h-7 px-3 rounded-lg text-xs font-medium bg-sky-500 text-white hover:bg-sky-600 transition-colors"
+            >
+              Manage
+            </button>
+          ) : myRoom && myRoom.id !== currentRoomId ? (
+            <button
+              onClick={() => onJoinRoom(myRoom.id)}
+              disabled={isSwitching}
+              className="h-7 px-3 rounded-lg text-xs font-medium bg-sky-500 text-white hover:bg-sky-600 transition-colors disabled:opacity-50"
+            >
+              Join {myRoom.name}
+            </button>
+          ) : null}
+        </div>
+      )}
+      {notice && (
+        <div className="flex items-start gap-3 px-4 py-2 rounded-xl bg-amber-500/8 dark:bg-amber-500/6 border border-amber-500/15 animate-in fade-in slide-in-from-top-2 duration-200">
+          <HugeiconsIcon icon={Megaphone01Icon} size={15} className="text-amber-500 shrink-0 mt-0.5" />
+          <p className="text-sm text-foreground flex-1 min-w-0 wrap-break-word">
+            <span className="font-medium">{notice.from}:</span> {notice.message}
+          </p>
+          <button
+            onClick={onDismissNotice}
+            className="w-6 h-6 rounded-md flex items-center justify-center hover:bg-muted transition-colors shrink-0"
+          >
+            <HugeiconsIcon icon={Cancel01Icon} size={12} className="text-muted-foreground" />
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/* ═════════════════════════════════════════════════════
+   BREAKOUT ROOMS MODAL (host)
+   ═════════════════════════════════════════════════════ */
+
+export function BreakoutRoomsModal({
+  open,
+  onOpenChange,
+  participants,
+  rooms,
+  endsAt,
+  currentRoomId,
+  isSwitching,
+  onOpenRooms,
+  onJoinRoom,
+  onBroadcast,
+  onCloseRooms,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Everyone in the meeting except the host */
+  participants: BreakoutPerson[]
+  rooms: BreakoutRoomState[]
+  endsAt: string | null
+  currentRoomId: string | null
+  isSwitching: boolean
+  onOpenRooms: (
+    roomCount: number,
+    assignment: BreakoutAssignment,
+    durationMinutes: number | null
+  ) => Promise<{ success: boolean; error?: string }>
+  onJoinRoom: (roomId: string | null) => void
+  onBroadcast: (message: string) => Promise<{ success: boolean; error?: string }>
+  onCloseRooms: () => Promise<{ success: boolean; error?: string }>
+}) {
+  const [roomCount, setRoomCount] = useState(2)
+  const [duration, setDuration] = useState(10)
+  const [mode, setMode] = useState<"auto" | "manual">("auto")
+  const [assignments, setAssignments] = useState<Record<string, number>>({})
+  const [message, setMessage] = useState("")
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isOpen = rooms.length > 0
+  const nameOf = (id: string) => participants.find((p) => p.userId === id)?.name || "Participant"
+
+  function shuffleAssignments() {
+    const shuffled = [...participants].sort(() => Math.random() - 0.5)
+    setAssignments(Object.fromEntries(shuffled.map((p, i) => [p.userId, i % roomCount])))
+  }
+
+  async function run(action: () => Promise<{ success: boolean; error?: string }>) {
+    setIsBusy(true)
+    setError(null)
+    const result = await action()
+    if (!result.success) setError(result.error || "Something went wrong")
+    setIsBusy(false)
+    return result.success
+  }
+
+  async function handleOpenRooms() {
+    const assignment: BreakoutAssignment =
+      mode === "auto"
+        ? "auto"
+        : Object.fromEntries(Object.entries(assignments).filter(([, room]) => room < roomCount))
+    await run(() => onOpenRooms(roomCount, assignment, duration || null))
+  }
+
+  async function handleBroadcast() {
+    if (!message.trim()) return
+    if (await run(() => onBroadcast(message))) setMessage("")
+  }
+
+  if (!open) return null
+
+  return (
+    <div className="fixed inset-0 z-60 flex items-center justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={() => onOpenChange(false)} />
+      {/* Panel */}
+      <div className="relative w-full max-w-md mx-4 max-h-[85vh] flex flex-col bg-card border border-border/50 rounded-2xl shadow-2xl overflow-hidden animate-in fade-in-0 zoom-in-95 duration-200">
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 pt-5 pb-1">
+          <div className="flex items-center gap-3">
+            <div className="w-9 h-9 rounded-xl bg-sky-500/10 flex items-center justify-center">
+              <HugeiconsIcon icon={MeetingRoomIcon} size={17} className="text-sky-500" />
+            </div>
+            <div>
+              <h2 className="text-sm font-semibold text-foreground">Breakout Rooms</h2>
+              <p className="text-[11px] text-muted-foreground">
+                {isOpen ? (
+                  <>
+                    {rooms.length} rooms open
+                    {endsAt && (
+                      <>
+                        {" "}· closing in <BreakoutCountdown endsAt={endsAt} />
+                      </>
+                    )}
+                  </>
+                ) : (
+                  "Split the class into small groups"
+                )}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={() => onOpenChange(false)}
+            className="w-8 h-8 rounded-lg flex items-center justify-center hover:bg-muted/80 transition-colors"
+          >
+            <HugeiconsIcon icon={Cancel01Icon} size={16} className="text-muted-foreground" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="px-5 pb-5 pt-3 space-y-4 overflow-y-auto">
+          {isOpen ? (
+            <>
+              <div className="space-y-2">
+                <button
+                  onClick={() => onJoinRoom(null)}
+                  disabled={isSwitching || currentRoomId === null}
+                  className={cn(
+                    "w-full flex items-center justify-between px-3 py-2 rounded-xl border text-sm transition-colors disabled:cursor-default",
+                    currentRoomId === null
+                      ? "border-sky-500/40 bg-sky-500/8"
+                      : "border-border/40 hover:bg-muted/50"
+                  )}
+                >
+                  <span className="font-medium text-foreground">Main room</span>
+                  <span className="text-xs text-muted-foreground">
+                    {currentRoomId === null ? "You're here" : "Return"}
+                  </span>
+                </button>
+                {rooms.map((room) => (
+                  <div
+                    key={room.id}
+                    className={cn(
+                      "px-3 py-2 rounded-xl border",
+                      room.id === currentRoomId ? "border-sky-500/40 bg-sky-500/8" : "border-border/40"
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium text-foreground">
+                        {room.name}
+                        <span className="text-muted-foreground font-normal"> · {room.participantIds.length}</span>
+                      </span>
+                      {room.id === currentRoomId ? (
+                        <span className="text-xs text-muted-foreground">You&apos;re here</span>
+                      ) : (
+                        <button
+                          onClick={() => onJoinRoom(room.id)}
+                          disabled={isSwitching}
+                          className="h-7 px-3 rounded-lg text-xs font-medium text-sky-600 dark:text-sky-400 hover:bg-sky-500/10 transition-colors disabled:opacity-50"
+                        >
+                          Join
+                        </button>
+                      )}
+                    </div>
+                    {room.participantIds.length > 0 && (
+                      <p className="text-[11px] text-muted-foreground mt-0.5 truncate">
+                        {room.participantIds.map(nameOf).join(", ")}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Message all rooms..."
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleBroadcast()}
+                  maxLength={500}
+                  className="h-9 text-sm bg-muted/30 border-border/40 focus-visible:ring-1 focus-visible:ring-sky-500/30"
+                />
+                <Button
+                  onClick={handleBroadcast}
+                  disabled={!message.trim() || isBusy}
+                  variant="outline"
+                  className="h-9 gap-1.5 rounded-xl text-xs"
+                >
+                  <HugeiconsIcon icon={Megaphone01Icon} size={14} />
+                  Send
+                </Button>
+              </div>
+
+              <Button
+                onClick={() => run(onCloseRooms)}
+                disabled={isBusy}
+                className="w-full gap-2 h-10 bg-red-500 hover:bg-red-600 text-white text-sm font-medium rounded-xl"
+              >
+                {isBusy && <HugeiconsIcon icon={Loading03Icon} size={15} className="animate-spin" />}
+                Close rooms
+              </Button>
+            </>
+          ) : (
+            <>
+              <div className="space-y-1.5">
+                <p className="text-xs font-medium text-muted-foreground">Rooms</p>
+                <div className="flex flex-wrap gap-1.5">
+                  {ROOM_COUNTS.map((n) => (
+                    <button
+                      key={n}
+                      onClick={() => setRoomCount(n)}
+                      className={cn(
+                        "h-8 min-w-8 px-2 rounded-lg text-xs font-medium border transition-colors",
+                        roomCount === n
+                          ? "bg-foreground text-background border-foreground"
+                          : "border-border/40 text-muted-foreground hover:text-foreground"
+                      )}
+                    >
+                      {n}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-1.5">
+                <p className="text-xs font-medium text-muted-foreground">Timer</p>
+                <div className="flex flex-wrap gap-1.5">
+                  {DURATIONS.map((m) => (
+                    <button
+                      key={m}
+                      onClick={() => setDuration(m)}
+                      className={cn(
+                        "h-8 px-2.5 rounded-lg text-xs font-medium border transition-colors",
+                        duration === m
+                          ? "bg-foreground text-background border-foreground"
+                          : "border-border/40 text-muted-foreground hover:text-foreground"
+                      )}
+                    >
+                      {m ? `${m} min` : "None"}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <p className="text-xs font-medium text-muted-foreground">
+                    Assign {participants.length} {participants.length === 1 ? "person" : "people"}
+                  </p>
+                  <div className="flex rounded-lg border border-border/40 p-0.5">
+                    {(["auto", "manual"] as const).map((m) => (
+                      <button
+                        key={m}
+                        onClick={() => {
+                          setMode(m)
+                          if (m === "manual" && Object.keys(assignments).length === 0) shuffleAssignments()
+                        }}
+                        className={cn(
+                          "h-6 px-2.5 rounded-md text-[11px] font-medium transition-colors",
+                          mode === m ? "bg-muted text-foreground" : "text-muted-foreground"
+                        )}
+                      >
+                        {m === "auto" ? "Automatically" : "By hand"}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {mode === "manual" && (
+                  <div className="space-y-1">
+                    {participants.map((p) => (
+                      <div key={p.userId} className="flex items-center gap-2.5 py-1">
+                        <Avatar className="w-6 h-6 shrink-0">
+                          {p.avatar && <AvatarImage src={p.avatar} alt={p.name} />}
+                          <AvatarFallback className="text-[8px]">{initials(p.name)}</AvatarFallback>
+                        </Avatar>
+                        <span className="text-sm text-foreground flex-1 truncate">{p.name}</span>
+                        <select
+                          value={assignments[p.userId] !== undefined && assignments[p.userId] < roomCount ? assignments[p.userId] : -1}
+                          onChange={(e) => {
+                            const room = Number(e.target.value)
+                            setAssignments((prev) => {
+                              const next = { ...prev }
+                              if (room < 0) delete next[p.userId]
+                              else next[p.userId] = room
+                              return next
+                            })
+                          }}
+                          className="h-7 rounded-lg border border-border/40 bg-muted/30 px-2 text-xs text-foreground"
+                        >
+                          <option value={-1}>Main room</option>
+                          {Array.from({ length: roomCount }, (_, i) => (
+                            <option key={i} value={i}>
+                              Room {i + 1}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                    <button
+                      onClick={shuffleAssignments}
+                      className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors pt-1"
+                    >
+                      <HugeiconsIcon icon={ShuffleIcon} size={12} />
+                      Shuffle
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              <Button
+                onClick={handleOpenRooms}
+                disabled={isBusy || participants.length === 0}
+                className="w-full gap-2 h-10 bg-sky-600 hover:bg-sky-700 text-white text-sm font-medium rounded-xl"
+              >
+                {isBusy ? (
+                  <>
+                    <HugeiconsIcon icon={Loading03Icon} size={15} className="animate-spin" />
+                    Opening...
+                  </>
+                ) : (
+                  <>
+                    <HugeiconsIcon icon={MeetingRoomIcon} size={15} />
+                    Open {roomCount} rooms
+                  </>
+                )}
+              </Button>
+            </>
+          )}
+
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+      </div>
+    </div>
+  )
+}
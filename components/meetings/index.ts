@@ -8,7 +8,7 @@ export {
 } from "./participant-tiles"
 export { SetupOverlay, WaitingRoom, MeetingEndedScreen } from "./meeting-overlays"
 export { MeetingSidePanel } from "./meeting-side-panel"
-export type { ActiveTab, ChatMessage, Poll, PollVoter } from "./meeting-side-panel"
+export type { ActiveTab, ChatMessage, Poll, PollVoter, Question } from "./meeting-side-panel"
 export { MeetingControls } from "./meeting-controls"
 export {
   CreateMeetingModal,
@@ -26,3 +26,5 @@ export {
 } from "./instructor-meeting-extras"
 export type { CourseSummary } from "./instructor-meeting-extras"
 export { MeetingInvitesList } from "./meeting-invites"
+export { ScheduleMeetingModal, UpcomingMeetingsList } from "./meeting-schedule"
+export { BreakoutBanner, BreakoutRoomsModal, BreakoutCountdown } from "./breakout-rooms"
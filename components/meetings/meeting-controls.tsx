@@ -11,9 +11,13 @@ import {
   VolumeHighIcon,
   BubbleChatIcon,
   ChartColumnIcon,
+  MessageQuestionIcon,
   UserGroupIcon,
   Cancel01Icon,
   Mic02Icon,
+  RecordIcon,
+  StopCircleIcon,
+  MeetingRoomIcon,
 } from "@hugeicons/core-free-icons"
 import { cn } from "@/lib/utils"
 import { REACTIONS } from "@/components/meetings/participant-tiles"
@@ -36,6 +40,8 @@ type MeetingControlsProps = {
   pendingRequestCount: number
   stageRequestCount: number
   screenShareDisabled: boolean
+  isRecording: boolean
+  isRecordingBusy: boolean
   onToggleMute: () => void
   onToggleVideo: () => void
   onToggleScreenShare: () => void
@@ -46,6 +52,11 @@ type MeetingControlsProps = {
   onTabChange: (tab: ActiveTab | null) => void
   onRequestStage: () => void
   onEndMeeting: () => void
+  /** Host only — start / stop the cloud recording */
+  onToggleRecording?: () => void
+  /** Host only — breakout rooms are managed from a modal */
+  hasBreakoutRooms?: boolean
+  onOpenBreakoutRooms?: () => void
 }
 
 export function MeetingControls({
@@ -65,6 +76,8 @@ export function MeetingControls({
   pendingRequestCount,
   stageRequestCount,
   screenShareDisabled,
+  isRecording,
+  isRecordingBusy,
   onToggleMute,
   onToggleVideo,
   onToggleScreenShare,
@@ -75,6 +88,9 @@ export function MeetingControls({
   onTabChange,
   onRequestStage,
   onEndMeeting,
+  onToggleRecording,
+  hasBreakoutRooms,
+  onOpenBreakoutRooms,
 }: MeetingControlsProps) {
   const isGuest = myRole === "guest"
   const totalBadge = pendingRequestCount + stageRequestCount
@@ -137,6 +153,11 @@ export function MeetingControls({
             <HugeiconsIcon icon={ChartColumnIcon} size={16} className={activeTab === "polls" ? "text-background" : "text-foreground"} />
           </div>
         </button>
+        <button onClick={() => onTabChange(activeTab === "qa" ? null : "qa")} className="flex flex-col items-center px-2.5">
+          <div className={cn("w-9 h-9 rounded-full flex items-center justify-center transition-all", activeTab === "qa" ? "bg-foreground/90" : "bg-transparent")}>
+            <HugeiconsIcon icon={MessageQuestionIcon} size={16} className={activeTab === "qa" ? "text-background" : "text-foreground"} />
+          </div>
+        </button>
       </div>
 
       {/* Primary controls row */}
@@ -187,6 +208,27 @@ export function MeetingControls({
           </button>
         )}
 
+        {/* Cloud recording - host only */}
+        {onToggleRecording && (
+          <button onClick={onToggleRecording} disabled={isRecordingBusy}
+            className="flex flex-col items-center gap-0.5 px-1 md:px-2 shrink-0 disabled:opacity-50">
+            <div className={cn("w-9 h-9 md:w-11 md:h-11 rounded-full flex items-center justify-center transition-all", isRecording ? "bg-red-500/15 ring-1 ring-red-500/40" : "bg-transparent")}>
+              <HugeiconsIcon icon={isRecording ? StopCircleIcon : RecordIcon} size={16} className={cn("md:w-4.5! md:h-4.5!", isRecording ? "text-red-500" : "text-foreground")} />
+            </div>
+            <span className="text-[9px] text-muted-foreground font-medium hidden md:block">{isRecording ? "Stop rec" : "Record"}</span>
+          </button>
+        )}
+
+        {/* Breakout rooms - host only */}
+        {onOpenBreakoutRooms && (
+          <button onClick={onOpenBreakoutRooms} className="flex flex-col items-center gap-0.5 px-1 md:px-2 shrink-0">
+            <div className={cn("w-9 h-9 md:w-11 md:h-11 rounded-full flex items-center justify-center transition-all", hasBreakoutRooms ? "bg-sky-500/15 ring-1 ring-sky-500/40" : "bg-transparent")}>
+              <HugeiconsIcon icon={MeetingRoomIcon} size={16} className={cn("md:w-4.5! md:h-4.5!", hasBreakoutRooms ? "text-sky-500" : "text-foreground")} />
+            </div>
+            <span className="text-[9px] text-muted-foreground font-medium hidden md:block">Rooms</span>
+          </button>
+        )}
+
         {/* Mobile loudspeaker */}
         {isMobile && (
           <button onClick={onToggleLoudspeaker} className="flex flex-col items-center gap-0.5 px-1 shrink-0">
@@ -258,6 +300,13 @@ export function MeetingControls({
           <span className="text-[9px] text-muted-foreground font-medium hidden md:block">Polls</span>
         </button>
 
+        <button onClick={() => onTabChange(activeTab === "qa" ? null : "qa")} className="hidden md:flex flex-col items-center gap-0.5 px-2 shrink-0">
+          <div className={cn("w-9 h-9 md:w-11 md:h-11 rounded-full flex items-center justify-center transition-all", activeTab === "qa" ? "bg-foreground/90" : "bg-transparent")}>
+            <HugeiconsIcon icon={MessageQuestionIcon} size={16} className={cn("md:w-4.5! md:h-4.5!", activeTab === "qa" ? "text-background" : "text-foreground")} />
+          </div>
+          <span className="text-[9px] text-muted-foreground font-medium hidden md:block">Q&amp;A</span>
+        </button>
+
         <div className="w-px h-6 md:h-8 bg-white/10 dark:bg-white/6 mx-0.5 shrink-0" />
 
         {/* End call */}
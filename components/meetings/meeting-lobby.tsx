@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useRef } from "react"
 import Image from "next/image"
+import Link from "next/link"
 import { HugeiconsIcon } from "@hugeicons/react"
 import {
   Video01Icon,
@@ -12,7 +13,10 @@ import {
   ArrowRight01Icon,
   ArrowDown01Icon,
   Calendar03Icon,
+  CalendarAdd01Icon,
   Cancel01Icon,
+  RecordIcon,
+  PlayCircleIcon,
 } from "@hugeicons/core-free-icons"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -151,6 +155,7 @@ export function CreateMeetingModal({
 
 export function MeetingQuickActions({
   onCreateNew,
+  onSchedule,
   onJoin,
 }: {
   onCreateNew: () => void
@@ -169,7 +174,7 @@ export function MeetingQuickActions({
   }
 
   return (
-    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+    <div className={cn("grid grid-cols-1 sm:grid-cols-2 gap-3", onSchedule && "lg:grid-cols-3")}>
       {/* Start Meeting card */}
       <button
         onClick={onCreateNew}
@@ -194,8 +199,29 @@ export function MeetingQuickActions({
         </div>
       </button>
 
+      {/* Schedule card */}
+      {onSchedule && (
+        <button
+          onClick={onSchedule}
+          className="flex flex-col justify-between gap-3 p-4 rounded-2xl border border-border/50 bg-card text-left transition-all hover:border-border/80 hover:shadow-sm active:scale-[0.99]"
+        >
+          <div className="w-9 h-9 rounded-xl bg-muted/80 flex items-center justify-center">
+            <HugeiconsIcon icon={CalendarAdd01Icon} size={17} className="text-foreground" />
+          </div>
+          <div>
+            <h3 className="font-semibold text-sm">Schedule Meeting</h3>
+            <p className="text-[11px] text-muted-foreground mt-0.5">Plan ahead or set up weekly classes</p>
+          </div>
+        </button>
+      )}
+
       {/* Join card */}
-      <div className="flex flex-col justify-between gap-3 p-4 rounded-2xl border border-border/50 bg-card">
+      <div
+        className={cn(
+          "flex flex-col justify-between gap-3 p-4 rounded-2xl border border-border/50 bg-card",
+          onSchedule && "sm:col-span-2 lg:col-span-1"
+        )}
+      >
         <div>
           <h3 className="font-semibold text-sm">Join Meeting</h3>
           <p className="text-[11px] text-muted-foreground mt-0.5">Enter a link or code</p>
@@ -377,13 +403,32 @@ export function MeetingHistory({
   history,
   isLoading,
   onDelete,
+  onPublishRecording,
 }: {
   history: MeetingHistoryEntry[]
   isLoading: boolean
   onDelete?: (meetingId: string) => void
+  /** Add a course meeting's recording to the course as a lesson */
+  onPublishRecording?: (recordingId: string) => Promise<{ success: boolean; error?: string }>
 }) {
   const [expandedId, setExpandedId] = useState<string | null>(null)
   const [deletingId, setDeletingId] = useState<string | null>(null)
+  const [publishingId, setPublishingId] = useState<string | null>(null)
+  const [publishError, setPublishError] = useState<{ recordingId: string; message: string } | null>(null)
+
+  async function handlePublish(recordingId: string) {
+    if (!onPublishRecording) return
+    setPublishingId(recordingId)
+    setPublishError(null)
+    try {
+      const result = await onPublishRecording(recordingId)
+      if (!result.success) {
+        setPublishError({ recordingId, message: result.error || "Couldn't add the recording" })
+      }
+    } finally {
+      setPublishingId(null)
+    }
+  }
 
   async function handleDelete(e: React.MouseEvent, meetingId: string) {
     e.stopPropagation()
@@ -465,6 +510,15 @@ export function MeetingHistory({
                       </span>
                     </>
                   )}
+                  {entry.recordings.length > 0 && (
+                    <>
+                      <span className="text-muted-foreground/20">&middot;</span>
+                      <span className="text-[10px] text-red-500/70 flex items-center gap-0.5">
+                        <HugeiconsIcon icon={RecordIcon} size={9} />
+                        Recorded
+                      </span>
+                    </>
+                  )}
                 </div>
               </div>
 
@@ -506,6 +560,76 @@ export function MeetingHistory({
                   </div>
                 )}
 
+                {entry.recordings.length > 0 && (
+                  <div className="space-y-1">
+                    {entry.recordings.map((r, i) => (
+                      <div key={r.id}>
+                        <div className="flex items-center gap-2 py-0.5">
+                          <HugeiconsIcon icon={RecordIcon} size={12} className="text-red-500/70 shrink-0" />
+                          <span className="text-[12px] text-foreground truncate flex-1">
+                            Recording{entry.recordings.length > 1 ? ` ${i + 1}` : ""}
+                            {r.duration ? (
+                              <span className="text-muted-foreground/60"> &middot; {formatDuration(r.duration)}</span>
+                            ) : null}
+                          </span>
+                          {r.status === "recording" || r.status === "processing" ? (
+                            <span className="text-[10px] text-muted-foreground/60">Processing...</span>
+                          ) : r.status === "failed" ? (
+                            <span className="text-[10px] text-destructive">Failed</span>
+                          ) : (
+                            <>
+                              {r.videoUrl && (
+                                <a
+                                  href={r.videoUrl}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="flex items-center gap-1 text-[11px] text-muted-foreground hover:text-foreground transition-colors"
+                                >
+                                  <HugeiconsIcon icon={PlayCircleIcon} size={11} />
+                                  Watch
+                                </a>
+                              )}
+                              {r.canPublish && onPublishRecording && (
+                                <button
+                                  onClick={() => handlePublish(r.id)}
+                                  disabled={publishingId !== null}
+                                  className="flex items-center gap-1 text-[11px] font-medium text-foreground/80 hover:text-foreground transition-colors disabled:opacity-50"
+                                >
+                                  {publishingId === r.id && (
+                                    <HugeiconsIcon icon={Loading03Icon} size={11} className="animate-spin" />
+                                  )}
+                                  Add to course
+                                </button>
+                              )}
+                              {r.lessonId && entry.wasHost && r.courseId && (
+                                <Link
+                                  href={`/instructor/courses/${r.courseId}/lessons`}
+                                  className="text-[11px] text-muted-foreground hover:text-foreground transition-colors"
+                                >
+                                  In course
+                                </Link>
+                              )}
+                            </>
+                          )}
+                        </div>
+                        {publishError?.recordingId === r.id && (
+                          <p className="text-[10px] text-destructive pl-5">{publishError.message}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {entry.wasHost && entry.courseId && (
+                  <Link
+                    href={`/instructor/meetings/${entry.id}/attendance`}
+                    className="flex items-center gap-1.5 text-[11px] text-muted-foreground hover:text-foreground transition-colors"
+                  >
+                    <HugeiconsIcon icon={UserGroupIcon} size={11} />
+                    Attendance report
+                  </Link>
+                )}
+
                 {onDelete && (
                   <button
                     onClick={(e) => handleDelete(e, entry.id)}
@@ -0,0 +1,599 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Image from "next/image"
+import { HugeiconsIcon } from "@hugeicons/react"
+import {
+  CalendarAdd01Icon,
+  Cancel01Icon,
+  Loading03Icon,
+  MoreVerticalIcon,
+  RepeatIcon,
+  UserIcon,
+  Video01Icon,
+} from "@hugeicons/core-free-icons"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { cn } from "@/lib/utils"
+import {
+  cancelScheduledMeeting,
+  scheduleMeeting,
+  type MeetingSettings,
+  type UpcomingMeeting,
+} from "@/lib/actions/meetings"
+import type { CourseSummary } from "@/components/meetings/instructor-meeting-extras"
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const durationItems = [
+  { label: "30 minutes", value: "30" },
+  { label: "45 minutes", value: "45" },
+  { label: "1 hour", value: "60" },
+  { label: "1.5 hours", value: "90" },
+  { label: "2 hours", value: "120" },
+  { label: "3 hours", value: "180" },
+]
+
+const SETTING_TOGGLES: { key: Exclude<keyof MeetingSettings, "maxParticipants">; label: string; hint: string }[] = [
+  { key: "allowScreenShare", label: "Screen sharing", hint: "Participants can share their screen" },
+  { key: "muteOnEntry", label: "Mute on entry", hint: "Everyone joins muted" },
+  { key: "requireApproval", label: "Require approval", hint: "You admit people from the waiting room" },
+  { key: "guestAccess", label: "Guest access", hint: "With approval on, people join as audience instead of waiting" },
+]
+
+/** `yyyy-MM-ddTHH:mm` in the browser's time zone, for datetime-local inputs */
+function toLocalInput(date: Date) {
+  const pad = (n: number) => n.toString().padStart(2, "0")
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+function nextFullHour() {
+  const date = new Date()
+  date.setHours(date.getHours() + 1, 0, 0, 0)
+  return date
+}
+
+/* ═════════════════════════════════════════════════════
+   SCHEDULE MEETING MODAL (Overlay)
+   ═════════════════════════════════════════════════════ */
+
+export function ScheduleMeetingModal({
+  open,
+  onOpenChange,
+  courses = [],
+  onScheduled,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** The host's published courses — their students can be invited in one go */
+  courses?: CourseSummary[]
+  onScheduled: () => void
+}) {
+  if (!open) return null
+  // Remounted on every open, so the form always starts fresh
+  return <ScheduleMeetingForm onClose={() => onOpenChange(false)} courses={courses} onScheduled={onScheduled} />
+}
+
+function ScheduleMeetingForm({
+  onClose,
+  courses,
+  onScheduled,
+}: {
+  onClose: () => void
+  courses: CourseSummary[]
+  onScheduled: () => void
+}) {
+  const [title, setTitle] = useState("")
+  const [startsAt, setStartsAt] = useState(() => toLocalInput(nextFullHour()))
+  const [duration, setDuration] = useState("60")
+  const [weekly, setWeekly] = useState(false)
+  const [occurrences, setOccurrences] = useState(10)
+  const [courseId, setCourseId] = useState("none")
+  const [emailInput, setEmailInput] = useState("")
+  const [emails, setEmails] = useState<string[]>([])
+  const [settings, setSettings] = useState<MeetingSettings>({
+    allowScreenShare: true,
+    muteOnEntry: true,
+    requireApproval: true,
+    guestAccess: true,
+    maxParticipants: 50,
+  })
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Emails without an account, reported after scheduling
+  const [notFound, setNotFound] = useState<string[] | null>(null)
+
+  const courseItems = [
+    { label: "No course", value: "none" },
+    ...courses.map((c) => ({ label: c.title, value: c.id })),
+  ]
+  const selectedCourse = courses.find((c) => c.id === courseId)
+
+  function addEmails(raw: string) {
+    const parsed = raw.split(/[\s,;]+/).map((e) => e.trim().toLowerCase()).filter(Boolean)
+    const invalid = parsed.filter((e) => !EMAIL_PATTERN.test(e))
+    const valid = parsed.filter((e) => EMAIL_PATTERN.test(e))
+    setEmails((prev) => [...new Set([...prev, ...valid])])
+    setEmailInput(invalid.join(", "))
+  }
+
+  async function handleSchedule() {
+    if (!title.trim() || !startsAt) return
+    setError(null)
+    setIsSaving(true)
+    try {
+      const pending = emailInput.trim()
+        ? emailInput.split(/[\s,;]+/).filter((e) => EMAIL_PATTERN.test(e.trim()))
+        : []
+      const result = await scheduleMeeting({
+        title: title.trim(),
+        startsAt: new Date(startsAt).toISOString(),
+        durationMinutes: Number(duration),
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        occurrences: weekly ? occurrences : 1,
+        settings,
+        inviteEmails: [...emails, ...pending],
+        courseId: selectedCourse?.id,
+      })
+      if (!result.success) {
+        setError(result.error || "Something went wrong")
+        return
+      }
+      onScheduled()
+      if (result.notFound && result.notFound.length > 0) setNotFound(result.notFound)
+      else onClose()
+    } catch (err) {
+      console.error("Schedule meeting error:", err)
+      setError("Something went wrong. Please try again.")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose} />
+      {/* Panel */}
+      <div className="relative w-full max-w-md mx-4 max-h-[calc(100dvh-2rem)] flex flex-col bg-card border border-border/50 rounded-2xl shadow-2xl overflow-hidden animate-in fade-in-0 zoom-in-95 duration-200">
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 pt-5 pb-1">
+          <div className="flex items-center gap-3">
+            <div className="w-9 h-9 rounded-xl bg-blue-500/10 flex items-center justify-center">
+              <HugeiconsIcon icon={CalendarAdd01Icon} size={17} className="text-blue-500" />
+            </div>
+            <div>
+              <h2 className="text-sm font-semibold text-foreground">Schedule Meeting</h2>
+              <p className="text-[11px] text-muted-foreground">Invitees get a calendar invite and reminders</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-lg flex items-center justify-center hover:bg-muted/80 transition-colors"
+          >
+            <HugeiconsIcon icon={Cancel01Icon} size={16} className="text-muted-foreground" />
+          </button>
+        </div>
+
+        {notFound ? (
+          <div className="px-5 pb-5 pt-3 space-y-3">
+            <p className="text-sm text-foreground">Your meeting is scheduled.</p>
+            <p className="text-xs text-muted-foreground">
+              These addresses don&apos;t have an account, so they weren&apos;t invited. Share the
+              meeting link with them once it starts:
+            </p>
+            <ul className="text-xs text-foreground space-y-0.5">
+              {notFound.map((email) => (
+                <li key={email} className="truncate">{email}</li>
+              ))}
+            </ul>
+            <Button onClick={onClose} className="w-full h-10 rounded-xl text-sm">
+              Done
+            </Button>
+          </div>
+        ) : (
+          <>
+            {/* Body */}
+            <div className="px-5 pb-3 pt-3 space-y-4 overflow-y-auto">
+              <div className="space-y-1.5">
+                <label className="text-[11px] font-medium text-muted-foreground">Meeting name</label>
+                <Input
+                  autoFocus
+                  placeholder="e.g. Weekly office hours"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  className="h-10 text-sm bg-muted/30 border-border/40"
+                />
+              </div>
+
+              <div className="grid grid-cols-[1fr_auto] gap-2">
+                <div className="space-y-1.5">
+                  <label className="text-[11px] font-medium text-muted-foreground">Starts</label>
+                  <Input
+                    type="datetime-local"
+                    value={startsAt}
+                    min={toLocalInput(new Date())}
+                    onChange={(e) => setStartsAt(e.target.value)}
+                    className="h-10 text-sm bg-muted/30 border-border/40"
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <label className="text-[11px] font-medium text-muted-foreground">Duration</label>
+                  <Select
+                    items={durationItems}
+                    value={duration}
+                    onValueChange={(val) => setDuration((val as string) ?? "60")}
+                  >
+                    <SelectTrigger className="h-10 w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {durationItems.map((item) => (
+                        <SelectItem key={item.value} value={item.value}>
+                          {item.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {/* Weekly series */}
+              <div className="rounded-xl border border-border/40 px-3 py-2.5 space-y-2">
+                <label className="flex items-center gap-3">
+                  <HugeiconsIcon icon={RepeatIcon} size={15} className="text-muted-foreground" />
+                  <span className="flex-1 text-sm">Repeat weekly</span>
+                  <Switch checked={weekly} onCheckedChange={setWeekly} />
+                </label>
+                {weekly && (
+                  <div className="flex items-center gap-2 pl-7 text-xs text-muted-foreground">
+                    <span>For</span>
+                    <Input
+                      type="number"
+                      min={2}
+                      max={26}
+                      value={occurrences}
+                      onChange={(e) => setOccurrences(Math.min(26, Math.max(2, parseInt(e.target.value) || 2)))}
+                      className="h-8 w-16 text-sm"
+                    />
+                    <span>weeks, same time each week</span>
+                  </div>
+                )}
+              </div>
+
+              {courses.length > 0 && (
+                <div className="space-y-1.5">
+                  <label className="text-[11px] font-medium text-muted-foreground">Course</label>
+                  <Select
+                    items={courseItems}
+                    value={courseId}
+                    onValueChange={(val) => setCourseId((val as string) ?? "none")}
+                  >
+                    <SelectTrigger className="h-10 w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {courseItems.map((item) => (
+                        <SelectItem key={item.value} value={item.value}>
+                          {item.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {selectedCourse && (
+                    <p className="text-[11px] text-muted-foreground">
+                      {selectedCourse.enrolledCount} enrolled student
+                      {selectedCourse.enrolledCount !== 1 ? "s" : ""} will be invited
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Invitees */}
+              <div className="space-y-1.5">
+                <label className="text-[11px] font-medium text-muted-foreground">Invite by email</label>
+                {emails.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {emails.map((email) => (
+                      <span
+                        key={email}
+                        className="inline-flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 text-[11px] text-foreground"
+                      >
+                        {email}
+                        <button
+                          onClick={() => setEmails((prev) => prev.filter((e) => e !== email))}
+                          className="text-muted-foreground hover:text-foreground"
+                        >
+                          <HugeiconsIcon icon={Cancel01Icon} size={10} />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <Input
+                  placeholder="name@example.com"
+                  value={emailInput}
+                  onChange={(e) => setEmailInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" || e.key === ",") {
+                      e.preventDefault()
+                      addEmails(emailInput)
+                    }
+                  }}
+                  onBlur={() => emailInput.trim() && addEmails(emailInput)}
+                  className="h-10 text-sm bg-muted/30 border-border/40"
+                />
+              </div>
+
+              {/* Settings */}
+              <div className="rounded-xl border border-border/40 divide-y divide-border/40">
+                {SETTING_TOGGLES.map((toggle) => (
+                  <label key={toggle.key} className="flex items-center gap-3 px-3 py-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm">{toggle.label}</p>
+                      <p className="text-[11px] text-muted-foreground">{toggle.hint}</p>
+                    </div>
+                    <Switch
+                      checked={settings[toggle.key]}
+                      onCheckedChange={(checked) => setSettings((prev) => ({ ...prev, [toggle.key]: checked }))}
+                    />
+                  </label>
+                ))}
+                <label className="flex items-center gap-3 px-3 py-2">
+                  <p className="flex-1 text-sm">Max participants</p>
+                  <Input
+                    type="number"
+                    min={2}
+                    max={100}
+                    value={settings.maxParticipants}
+                    onChange={(e) =>
+                      setSettings((prev) => ({
+                        ...prev,
+                        maxParticipants: Math.min(100, Math.max(2, parseInt(e.target.value) || 2)),
+                      }))
+                    }
+                    className="h-8 w-20 text-sm"
+                  />
+                </label>
+              </div>
+            </div>
+
+            {/* Footer */}
+            <div className="px-5 pb-5 pt-2 space-y-2">
+              {error && <p className="text-xs text-destructive">{error}</p>}
+              <Button
+                onClick={handleSchedule}
+                disabled={!title.trim() || !startsAt || isSaving}
+                className="w-full gap-2 h-10 text-sm font-medium rounded-xl"
+              >
+                {isSaving ? (
+                  <>
+                    <HugeiconsIcon icon={Loading03Icon} size={15} className="animate-spin" />
+                    Scheduling...
+                  </>
+                ) : (
+                  <>
+                    <HugeiconsIcon icon={CalendarAdd01Icon} size={15} />
+                    {weekly ? `Schedule ${occurrences} meetings` : "Schedule"}
+                  </>
+                )}
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/* ═════════════════════════════════════════════════════
+   UPCOMING MEETINGS LIST
+   ═════════════════════════════════════════════════════ */
+
+function formatStartsIn(ms: number) {
+  const mins = Math.ceil(ms / 60000)
+  if (mins < 60) return `Starts in ${mins}m`
+  const hrs = Math.floor(mins / 60)
+  if (hrs < 24) return `Starts in ${hrs}h ${mins % 60}m`
+  return null
+}
+
+export function UpcomingMeetingsList({
+  meetings,
+  isLoading,
+  userId,
+  onJoin,
+  onCancelled,
+}: {
+  meetings: UpcomingMeeting[]
+  isLoading: boolean
+  userId: string
+  onJoin: (meetingId: string) => void
+  onCancelled: () => void
+}) {
+  const [now, setNow] = useState(() => Date.now())
+  const [cancellingId, setCancellingId] = useState<string | null>(null)
+
+  // Tick so join buttons switch on at start time without a refetch
+  useEffect(() => {
+    const iv = setInterval(() => setNow(Date.now()), 15 * 1000)
+    return () => clearInterval(iv)
+  }, [])
+
+  async function handleCancel(meetingId: string, includeFollowing: boolean) {
+    setCancellingId(meetingId)
+    const result = await cancelScheduledMeeting(meetingId, includeFollowing)
+    setCancellingId(null)
+    if (result.success) onCancelled()
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        <h2 className="text-sm font-semibold text-foreground">Upcoming</h2>
+        <div className="space-y-1.5">
+          {[1, 2].map((i) => (
+            <div key={i} className="h-[60px] rounded-xl bg-muted/30 animate-pulse" />
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  if (meetings.length === 0) return null
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-foreground">Upcoming</h2>
+        <span className="text-[11px] text-muted-foreground/50">
+          {meetings.length} scheduled
+        </span>
+      </div>
+
+      <div className="space-y-1.5">
+        {meetings.map((meeting) => {
+          const start = new Date(meeting.scheduledAt)
+          const end = new Date(start.getTime() + meeting.durationMinutes * 60 * 1000)
+          const isHost = meeting.hostId === userId
+          const hasStarted = start.getTime() <= now
+          const startsIn = hasStarted ? null : formatStartsIn(start.getTime() - now)
+
+          return (
+            <div
+              key={meeting.id}
+              className="flex items-center gap-3 p-2.5 rounded-xl border border-border/30 bg-card"
+            >
+              {/* Date block */}
+              <div className="relative w-11 h-11 rounded-lg overflow-hidden bg-muted/40 shrink-0 flex flex-col items-center justify-center">
+                {meeting.courseThumbnailUrl && (
+                  <>
+                    <Image src={meeting.courseThumbnailUrl} alt="" fill className="object-cover" />
+                    <div className="absolute inset-0 bg-black/50" />
+                  </>
+                )}
+                <span
+                  className={cn(
+                    "relative text-[9px] font-medium uppercase leading-none",
+                    meeting.courseThumbnailUrl ? "text-white/80" : "text-muted-foreground"
+                  )}
+                >
+                  {start.toLocaleDateString(undefined, { month: "short" })}
+                </span>
+                <span
+                  className={cn(
+                    "relative text-base font-semibold leading-tight",
+                    meeting.courseThumbnailUrl ? "text-white" : "text-foreground"
+                  )}
+                >
+                  {start.getDate()}
+                </span>
+              </div>
+
+              {/* Info */}
+              <div className="flex-1 min-w-0">
+                <p className="text-[13px] font-medium truncate">{meeting.title}</p>
+                <div className="flex items-center gap-1.5 mt-0.5 text-[11px] text-muted-foreground">
+                  <span className="shrink-0">
+                    {start.toLocaleDateString(undefined, { weekday: "short" })}{" "}
+                    {start.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })}
+                    {" – "}
+                    {end.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })}
+                  </span>
+                  {meeting.series && (
+                    <>
+                      <span className="text-muted-foreground/20">&middot;</span>
+                      <span className="flex items-center gap-0.5 shrink-0">
+                        <HugeiconsIcon icon={RepeatIcon} size={10} />
+                        {meeting.series.index + 1}/{meeting.series.count}
+                      </span>
+                    </>
+                  )}
+                  <span className="text-muted-foreground/20">&middot;</span>
+                  {isHost ? (
+                    <span className="truncate">You</span>
+                  ) : (
+                    <>
+                      <Avatar className="w-3.5 h-3.5 shrink-0">
+                        {meeting.hostAvatar && <AvatarImage src={meeting.hostAvatar} alt={meeting.hostName} />}
+                        <AvatarFallback className="text-[5px]">
+                          <HugeiconsIcon icon={UserIcon} size={7} />
+                        </AvatarFallback>
+                      </Avatar>
+                      <span className="truncate">{meeting.hostName}</span>
+                    </>
+                  )}
+                  {meeting.courseName && (
+                    <>
+                      <span className="text-muted-foreground/20">&middot;</span>
+                      <span className="truncate text-muted-foreground/50">{meeting.courseName}</span>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {/* Join / start — hosts may open their room early */}
+              <div className="flex items-center gap-1 shrink-0">
+                {!hasStarted && !isHost && startsIn && (
+                  <span className="hidden sm:inline text-[11px] text-muted-foreground tabular-nums">
+                    {startsIn}
+                  </span>
+                )}
+                <Button
+                  size="sm"
+                  variant={hasStarted ? "default" : "outline"}
+                  disabled={(!hasStarted && !isHost) || cancellingId === meeting.id}
+                  onClick={() => onJoin(meeting.id)}
+                  className="h-8 gap-1.5"
+                >
+                  <HugeiconsIcon icon={Video01Icon} size={13} />
+                  {isHost ? "Start" : "Join"}
+                </Button>
+                {isHost && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger
+                      render={
+                        <Button size="sm" variant="ghost" className="h-8 w-8 p-0" disabled={cancellingId === meeting.id}>
+                          <HugeiconsIcon
+                            icon={cancellingId === meeting.id ? Loading03Icon : MoreVerticalIcon}
+                            size={14}
+                            className={cancellingId === meeting.id ? "animate-spin" : undefined}
+                          />
+                        </Button>
+                      }
+                    />
+                    <DropdownMenuContent align="end" className="w-52">
+                      <DropdownMenuItem variant="destructive" onClick={() => handleCancel(meeting.id, false)}>
+                        Cancel meeting
+                      </DropdownMenuItem>
+                      {meeting.series && meeting.series.index + 1 < meeting.series.count && (
+                        <DropdownMenuItem variant="destructive" onClick={() => handleCancel(meeting.id, true)}>
+                          Cancel this and following
+                        </DropdownMenuItem>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -16,12 +16,15 @@ import {
   SentIcon,
   Tick02Icon,
   ArrowDown01Icon,
+  ArrowUp01Icon,
+  MessageQuestionIcon,
+  CheckmarkCircle02Icon,
 } from "@hugeicons/core-free-icons"
 import { cn } from "@/lib/utils"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Input } from "@/components/ui/input"
 
-export type ActiveTab = "people" | "chat" | "polls"
+export type ActiveTab = "people" | "chat" | "polls" | "qa"
 
 export type ChatMessage = {
   id: string
@@ -51,6 +54,18 @@ export type Poll = {
   createdByName: string
 }
 
+export type Question = {
+  id: string
+  userId: string
+  userName: string
+  userAvatar: string | null
+  text: string
+  upvotes: number
+  upvotedByMe: boolean
+  answered: boolean
+  timestamp: number
+}
+
 /* ── People Tab ── */
 
 type StageRequest = { userId: string; userName: string; userAvatar: string | null }
@@ -627,6 +642,130 @@ function PollsTab({
   )
 }
 
+/* ── Q&A Tab ── */
+
+function QaTab({
+  userId,
+  isHost,
+  questions,
+  onAskQuestion,
+  onUpvoteQuestion,
+  onMarkAnswered,
+}: {
+  userId: string
+  isHost: boolean
+  questions: Question[]
+  onAskQuestion: (text: string) => void
+  onUpvoteQuestion: (questionId: string) => void
+  onMarkAnswered: (questionId: string, answered: boolean) => void
+}) {
+  const [questionInput, setQuestionInput] = useState("")
+
+  // Open questions first, most upvoted on top; answered ones sink to the bottom
+  const sorted = [...questions].sort((a, b) => {
+    if (a.answered !== b.answered) return a.answered ? 1 : -1
+    if (a.upvotes !== b.upvotes) return b.upvotes - a.upvotes
+    return a.timestamp - b.timestamp
+  })
+
+  const submit = () => {
+    const text = questionInput.trim()
+    if (!text) return
+    setQuestionInput("")
+    onAskQuestion(text)
+  }
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex-1 overflow-y-auto px-4 py-3 space-y-2">
+        {questions.length === 0 && (
+          <div className="flex flex-col items-center justify-center h-full gap-2 text-muted-foreground/30">
+            <HugeiconsIcon icon={MessageQuestionIcon} size={28} />
+            <div className="text-center">
+              <p className="text-[13px] font-medium text-muted-foreground/60">No questions yet</p>
+              <p className="text-xs text-muted-foreground/40">Ask one — others can upvote it</p>
+            </div>
+          </div>
+        )}
+
+        {sorted.map((q) => (
+          <div
+            key={q.id}
+            className={cn("flex gap-2.5 rounded-xl bg-muted/20 p-3", q.answered && "opacity-50")}
+          >
+            <button
+              onClick={() => onUpvoteQuestion(q.id)}
+              disabled={q.answered}
+              className={cn(
+                "shrink-0 w-9 rounded-lg flex flex-col items-center justify-center py-1 transition-colors",
+                q.upvotedByMe
+                  ? "bg-foreground text-background"
+                  : "bg-muted/40 text-muted-foreground hover:text-foreground",
+              )}
+            >
+              <HugeiconsIcon icon={ArrowUp01Icon} size={12} />
+              <span className="text-[11px] font-semibold tabular-nums">{q.upvotes}</span>
+            </button>
+            <div className="flex-1 min-w-0 space-y-1">
+              <p className="text-sm text-foreground leading-snug wrap-break-word">{q.text}</p>
+              <div className="flex items-center gap-1.5">
+                <Avatar className="w-4 h-4">
+                  {q.userAvatar && <AvatarImage src={q.userAvatar} alt={q.userName} />}
+                  <AvatarFallback className="text-[8px] font-medium bg-muted text-muted-foreground">
+                    {q.userName.split(" ").map((n) => n[0]).join("").toUpperCase().slice(0, 2)}
+                  </AvatarFallback>
+                </Avatar>
+                <span className="text-[10px] text-muted-foreground/70 truncate">
+                  {q.userId === userId ? "You" : q.userName}
+                </span>
+                {q.answered && (
+                  <span className="flex items-center gap-0.5 text-[10px] font-medium text-muted-foreground">
+                    <HugeiconsIcon icon={Tick02Icon} size={10} />
+                    Answered
+                  </span>
+                )}
+              </div>
+            </div>
+            {isHost && (
+              <button
+                onClick={() => onMarkAnswered(q.id, !q.answered)}
+                title={q.answered ? "Reopen" : "Mark answered"}
+                className={cn(
+                  "shrink-0 w-7 h-7 rounded-md flex items-center justify-center hover:bg-muted/60 transition-colors",
+                  q.answered ? "text-foreground" : "text-muted-foreground hover:text-foreground",
+                )}
+              >
+                <HugeiconsIcon icon={CheckmarkCircle02Icon} size={14} />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Input */}
+      <div className="p-3 pb-[max(0.75rem,env(safe-area-inset-bottom))] md:pb-3">
+        <div className="flex items-center gap-2 p-1 rounded-lg bg-muted/40">
+          <Input
+            value={questionInput}
+            onChange={(e) => setQuestionInput(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && !e.shiftKey && submit()}
+            placeholder="Ask a question..."
+            maxLength={500}
+            className="flex-1 h-8 text-sm bg-transparent border-0 focus-visible:ring-0 shadow-none"
+          />
+          <button
+            onClick={submit}
+            disabled={!questionInput.trim()}
+            className="w-8 h-8 rounded-md bg-foreground text-background flex items-center justify-center disabled:opacity-30 transition-opacity"
+          >
+            <HugeiconsIcon icon={SentIcon} size={14} />
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
 /* ── Main Side Panel ── */
 
 export function MeetingSidePanel({
@@ -673,6 +812,11 @@ export function MeetingSidePanel({
   onRemovePollOption,
   onCreatePoll,
   onVotePoll,
+  // Q&A props
+  questions,
+  onAskQuestion,
+  onUpvoteQuestion,
+  onMarkAnswered,
 }: {
   activeTab: ActiveTab
   onTabChange: (tab: ActiveTab | null) => void
@@ -714,6 +858,10 @@ export function MeetingSidePanel({
   onRemovePollOption: (index: number) => void
   onCreatePoll: () => void
   onVotePoll: (pollId: string, optionIndex: number) => void
+  questions: Question[]
+  onAskQuestion: (text: string) => void
+  onUpvoteQuestion: (questionId: string) => void
+  onMarkAnswered: (questionId: string, answered: boolean) => void
 }) {
   const stageRequestCount = stageRequests.length
   
@@ -721,14 +869,17 @@ export function MeetingSidePanel({
     people: UserGroupIcon,
     chat: BubbleChatIcon,
     polls: ChartColumnIcon,
+    qa: MessageQuestionIcon,
   } as const
+  const TAB_LABELS = { people: "people", chat: "chat", polls: "polls", qa: "Q&A" } as const
+  const openQuestions = questions.filter((q) => !q.answered).length
   
   return (
     <div className="fixed md:absolute inset-0 md:inset-auto md:top-12 md:right-3 md:bottom-24 z-40 md:w-85 md:rounded-xl flex flex-col overflow-hidden animate-in slide-in-from-right-4 fade-in duration-200 bg-background/98 backdrop-blur-2xl border border-border/20 shadow-xl shadow-black/5">
       {/* Header with tabs */}
       <div className="flex items-center justify-between px-1 pt-[max(0.5rem,env(safe-area-inset-top))] md:pt-1.5 pb-0">
         <div className="flex-1 flex">
-          {(["people", "chat", "polls"] as ActiveTab[]).map((tab) => (
+          {(["people", "chat", "polls", "qa"] as ActiveTab[]).map((tab) => (
             <button
               key={tab}
               onClick={() => onTabChange(tab)}
@@ -740,7 +891,7 @@ export function MeetingSidePanel({
               )}
             >
               <HugeiconsIcon icon={TAB_ICONS[tab]} size={14} className={activeTab === tab ? "text-foreground" : ""} />
-              <span className="hidden xs:inline">{tab}</span>
+              <span className="hidden xs:inline">{TAB_LABELS[tab]}</span>
               
               {/* Badge */}
               {tab === "people" && stageRequestCount > 0 && activeTab !== "people" && (
@@ -753,6 +904,11 @@ export function MeetingSidePanel({
                   {unreadChat > 9 ? "9+" : unreadChat}
                 </span>
               )}
+              {tab === "qa" && isHost && openQuestions > 0 && activeTab !== "qa" && (
+                <span className="absolute top-2 right-2 xs:right-1/4 min-w-4.5 h-4.5 px-1 rounded-full bg-foreground text-[10px] flex items-center justify-center text-background font-bold">
+                  {openQuestions > 9 ? "9+" : openQuestions}
+                </span>
+              )}
               
               {/* Active indicator */}
               {activeTab === tab && (
@@ -817,6 +973,16 @@ export function MeetingSidePanel({
           onVotePoll={onVotePoll}
         />
       )}
+      {activeTab === "qa" && (
+        <QaTab
+          userId={userId}
+          isHost={isHost}
+          questions={questions}
+          onAskQuestion={onAskQuestion}
+          onUpvoteQuestion={onUpvoteQuestion}
+          onMarkAnswered={onMarkAnswered}
+        />
+      )}
     </div>
   )
 }
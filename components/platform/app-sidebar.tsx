@@ -94,6 +94,14 @@ const mainItems: NavItem[] = [
   },
 ]
 
+/** Shown to students in place of the instructor dashboard link */
+const applyToTeachItem: NavItem = {
+  title: "Teach on WorldStreet",
+  href: "/dashboard/teach",
+  icon: TeachingIcon,
+  match: (p) => p === "/dashboard/teach",
+}
+
 const connectItems: NavItem[] = [
   {
     title: "Messages",
@@ -168,6 +176,10 @@ export function AppSidebar() {
   const { activeMeetings, invites, hasActivity } = useSidebarActivity()
 
   const userInitials = `${user.firstName?.[0] || ""}${user.lastName?.[0] || ""}`.toUpperCase() || "U"
+  const visibleMainItems =
+    user.role === "USER"
+      ? mainItems.map((item) => (item.href === "/instructor" ? applyToTeachItem : item))
+      : mainItems
 
   // Prefetch all navigation routes on mount for faster transitions
   useEffect(() => {
@@ -210,7 +222,7 @@ export function AppSidebar() {
           <SidebarGroupLabel>Learn</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {mainItems.map((item) => (
+              {visibleMainItems.map((item) => (
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton
                     render={<Link href={item.href} />}
@@ -26,7 +26,7 @@ import {
   BreadcrumbSeparator,
 } from "@/components/ui/breadcrumb"
 import { HugeiconsIcon } from "@hugeicons/react"
-import { UserIcon, Settings01Icon, Logout01Icon, Search01Icon, CommandIcon, TeachingIcon, DashboardSpeed01Icon } from "@hugeicons/core-free-icons"
+import { UserIcon, Settings01Icon, Logout01Icon, Search01Icon, CommandIcon, TeachingIcon, DashboardSpeed01Icon, SecurityCheckIcon } from "@hugeicons/core-free-icons"
 import { NotificationBell } from "@/components/shared/notification-bell"
 import { useUser } from "@/components/providers/user-provider"
 import { LogoutConfirmDialog } from "@/components/shared/logout-confirm-dialog"
@@ -48,6 +48,9 @@ const labelMap: Record<string, string> = {
   lessons: "Lessons",
   learn: "Learn",
   live: "Live Session",
+  admin: "Admin",
+  users: "Users",
+  reviews: "Reviews",
 }
 
 function buildCrumbs(pathname: string, overrides?: Record<string, string>) {
@@ -66,8 +69,8 @@ function buildCrumbs(pathname: string, overrides?: Record<string, string>) {
 
 type TopbarProps = {
   title?: string
-  /** "platform" = student portal, "instructor" = instructor portal */
-  variant?: "platform" | "instructor"
+  /** "platform" = student portal, "instructor" = instructor portal, "admin" = admin console */
+  variant?: "platform" | "instructor" | "admin"
   /** Override breadcrumb labels for specific path segments (e.g., { "courseId": "Course Title" }) */
   breadcrumbOverrides?: Record<string, string>
 }
@@ -78,6 +81,7 @@ export function Topbar({ title, variant = "platform", breadcrumbOverrides }: Top
   const user = useUser()
   const userInitials = `${user.firstName?.[0] || ""}${user.lastName?.[0] || ""}`.toUpperCase() || "U"
   const isInstructor = user.role === "INSTRUCTOR" || user.role === "ADMIN"
+  const isAdmin = user.role === "ADMIN"
   const [logoutOpen, setLogoutOpen] = useState(false)
 
   // Shared cmd+k trigger
@@ -216,6 +220,28 @@ export function Topbar({ title, variant = "platform", breadcrumbOverrides }: Top
                   <DropdownMenuSeparator />
                 </>
               )}
+              {variant === "admin" && (
+                <>
+                  <DropdownMenuItem render={<Link href="/instructor" />}>
+                    <HugeiconsIcon icon={TeachingIcon} size={16} />
+                    Instructor Portal
+                  </DropdownMenuItem>
+                  <DropdownMenuItem render={<Link href="/dashboard" />}>
+                    <HugeiconsIcon icon={DashboardSpeed01Icon} size={16} />
+                    Student Dashboard
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                </>
+              )}
+              {variant !== "admin" && isAdmin && (
+                <>
+                  <DropdownMenuItem render={<Link href="/admin" />}>
+                    <HugeiconsIcon icon={SecurityCheckIcon} size={16} />
+                    Admin Console
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                </>
+              )}
               <DropdownMenuItem render={<Link href={variant === "instructor" ? "/instructor/settings" : "/dashboard/profile"} />}>
                 <HugeiconsIcon icon={UserIcon} size={16} />
                 Profile
@@ -0,0 +1,188 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Badge } from "@/components/ui/badge"
+import { MediaUpload } from "@/components/ui/media-upload"
+import { HugeiconsIcon } from "@hugeicons/react"
+import { Cancel01Icon } from "@hugeicons/core-free-icons"
+import { getVideoUploadUrl } from "@/lib/actions/upload"
+import { submitInstructorApplication } from "@/lib/actions/instructor-applications"
+
+const MAX_EXPERTISE = 10
+
+const instructorTerms = [
+  "Courses you publish are your own work, or you have the rights to teach them.",
+  "Course content is educational and not personalised financial advice.",
+  "Every new course is reviewed by our team before it goes live.",
+  "Students can request refunds within the refund window, which comes out of your earnings.",
+]
+
+export function InstructorApplicationForm() {
+  const router = useRouter()
+  const [headline, setHeadline] = useState("")
+  const [expertise, setExpertise] = useState<string[]>([])
+  const [expertiseDraft, setExpertiseDraft] = useState("")
+  const [twitter, setTwitter] = useState("")
+  const [linkedin, setLinkedin] = useState("")
+  const [website, setWebsite] = useState("")
+  const [sampleVideoUrl, setSampleVideoUrl] = useState("")
+  const [agreedToTerms, setAgreedToTerms] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  function addExpertise() {
+    const value = expertiseDraft.trim()
+    if (!value || expertise.length >= MAX_EXPERTISE) return
+    if (!expertise.some((e) => e.toLowerCase() === value.toLowerCase())) {
+      setExpertise([...expertise, value])
+    }
+    setExpertiseDraft("")
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setError(null)
+    setIsSubmitting(true)
+    const result = await submitInstructorApplication({
+      headline,
+      expertise,
+      socialLinks: { twitter, linkedin, website },
+      sampleVideoUrl,
+      agreedToTerms,
+    })
+    setIsSubmitting(false)
+
+    if (result.success) {
+      router.refresh()
+    } else {
+      setError(result.error || "Something went wrong")
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div className="space-y-1.5">
+        <Label htmlFor="application-headline">Headline</Label>
+        <Input
+          id="application-headline"
+          value={headline}
+          onChange={(e) => setHeadline(e.target.value)}
+          placeholder="Full-time crypto trader teaching technical analysis"
+          maxLength={120}
+        />
+        <p className="text-xs text-muted-foreground">Shown under your name on your courses.</p>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor="application-expertise">Areas of expertise</Label>
+        <div className="flex gap-2">
+          <Input
+            id="application-expertise"
+            value={expertiseDraft}
+            onChange={(e) => setExpertiseDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" || e.key === ",") {
+                e.preventDefault()
+                addExpertise()
+              }
+            }}
+            placeholder="e.g. DeFi, Options, Risk management"
+            maxLength={40}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={addExpertise}
+            disabled={!expertiseDraft.trim() || expertise.length >= MAX_EXPERTISE}
+          >
+            Add
+          </Button>
+        </div>
+        {expertise.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 pt-1">
+            {expertise.map((item) => (
+              <Badge key={item} variant="secondary" className="gap-1">
+                {item}
+                <button
+                  type="button"
+                  aria-label={`Remove ${item}`}
+                  onClick={() => setExpertise(expertise.filter((e) => e !== item))}
+                >
+                  <HugeiconsIcon icon={Cancel01Icon} size={12} />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1.5">
+          <Label htmlFor="application-twitter">X / Twitter</Label>
+          <Input
+            id="application-twitter"
+            type="url"
+            value={twitter}
+            onChange={(e) => setTwitter(e.target.value)}
+            placeholder="https://x.com/..."
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="application-linkedin">LinkedIn</Label>
+          <Input
+            id="application-linkedin"
+            type="url"
+            value={linkedin}
+            onChange={(e) => setLinkedin(e.target.value)}
+            placeholder="https://linkedin.com/in/..."
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="application-website">Website</Label>
+          <Input
+            id="application-website"
+            type="url"
+            value={website}
+            onChange={(e) => setWebsite(e.target.value)}
+            placeholder="https://..."
+          />
+        </div>
+      </div>
+
+      <MediaUpload
+        type="video"
+        label="Sample lesson (2–5 minutes)"
+        value={sampleVideoUrl}
+        onChange={setSampleVideoUrl}
+        onRemove={() => setSampleVideoUrl("")}
+        onGetPresignedUrl={(file) => getVideoUploadUrl(file.name, file.type)}
+      />
+
+      <div className="rounded-lg border p-4 space-y-3">
+        <p className="text-sm font-medium">Instructor terms</p>
+        <ul className="list-disc pl-5 space-y-1 text-xs text-muted-foreground">
+          {instructorTerms.map((term) => (
+            <li key={term}>{term}</li>
+          ))}
+        </ul>
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox checked={agreedToTerms} onCheckedChange={(v) => setAgreedToTerms(v === true)} />
+          I agree to the instructor terms
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isSubmitting || !agreedToTerms || !sampleVideoUrl}>
+          {isSubmitting ? "Submitting..." : "Submit application"}
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -18,85 +18,66 @@ import {
   DropdownMenuTrigger,
   DropdownMenuContent,
 } from "@/components/ui/dropdown-menu"
-import { HugeiconsIcon } from "@hugeicons/react"
+import { HugeiconsIcon, type IconSvgElement } from "@hugeicons/react"
 import {
   Notification03Icon,
   BookOpen01Icon,
   Award02Icon,
   UserMultipleIcon,
-  AlertCircleIcon,
+  StarIcon,
+  CallMissed01Icon,
+  Cancel01Icon,
+  TaskDone01Icon,
+  CheckmarkBadge01Icon,
+  AlarmClockIcon,
 } from "@hugeicons/core-free-icons"
+import { useQueryClient } from "@tanstack/react-query"
+import { useOptionalUser } from "@/components/providers/user-provider"
+import {
+  queryKeys,
+  useNotifications,
+  useMarkNotificationRead,
+  useMarkAllNotificationsRead,
+  useDeleteNotification,
+  useClearNotifications,
+} from "@/lib/hooks/queries"
+import { useNotificationEvents } from "@/lib/hooks/use-call-events"
+import type { NotificationItem } from "@/lib/actions/notifications"
+import type { NotificationType } from "@/lib/db/models/notification"
+import type { NotificationEventPayload } from "@/lib/call-events"
 
-/* ── Mock notifications ───────────────────────────────────── */
-type Notification = {
-  id: string
-  type: "course" | "achievement" | "social" | "system"
-  title: string
-  message: string
-  time: string
-  read: boolean
-  avatar?: string
-  href?: string
+const typeIcons: Record<NotificationType, IconSvgElement> = {
+  lesson_published: BookOpen01Icon,
+  certificate_earned: Award02Icon,
+  course_review: StarIcon,
+  meeting_invite: UserMultipleIcon,
+  meeting_reminder: AlarmClockIcon,
+  missed_call: CallMissed01Icon,
+  assignment_graded: TaskDone01Icon,
+  course_approval: CheckmarkBadge01Icon,
 }
 
-const MOCK_NOTIFICATIONS: Notification[] = [
-  {
-    id: "1",
-    type: "course",
-    title: "New lesson available",
-    message: "Bitcoin & Blockchain Fundamentals has a new lesson: 'Mining Explained'",
-    time: "2m ago",
-    read: false,
-    href: "/dashboard/courses/1",
-  },
-  {
-    id: "2",
-    type: "achievement",
-    title: "Achievement unlocked!",
-    message: "You completed your first course. Keep going!",
-    time: "1h ago",
-    read: false,
-  },
-  {
-    id: "3",
-    type: "social",
-    title: "Sarah Chen replied",
-    message: "Great question! The answer is...",
-    time: "3h ago",
-    read: true,
-    avatar: "/user/dashboard/course-empty-state.png",
-  },
-  {
-    id: "4",
-    type: "system",
-    title: "Platform update",
-    message: "We've added new features to improve your learning experience.",
-    time: "1d ago",
-    read: true,
-  },
-  {
-    id: "5",
-    type: "course",
-    title: "Course reminder",
-    message: "You haven't visited 'DeFi Yield Strategies' in 3 days.",
-    time: "2d ago",
-    read: true,
-    href: "/dashboard/courses/2",
-  },
-]
-
-const typeIcons = {
-  course: BookOpen01Icon,
-  achievement: Award02Icon,
-  social: UserMultipleIcon,
-  system: AlertCircleIcon,
+const typeColors: Record<NotificationType, string> = {
+  lesson_published: "text-primary",
+  certificate_earned: "text-orange-500",
+  course_review: "text-orange-500",
+  meeting_invite: "text-blue-500",
+  meeting_reminder: "text-blue-500",
+  missed_call: "text-red-500",
+  assignment_graded: "text-emerald-500",
+  course_approval: "text-primary",
 }
 
-const typeColors = {
-  course: "text-primary",
-  achievement: "text-orange-500",
-  social: "text-blue-500",
-  system: "text-muted-foreground",
+/* ── Time-ago helper ── */
+function timeAgo(date: string): string {
+  const diffMs = new Date().getTime() - new Date(date).getTime()
+  const mins = Math.floor(diffMs / 60000)
+  if (mins < 1) return "Just now"
+  if (mins < 60) return `${mins}m ago`
+  const hrs = Math.floor(mins / 60)
+  if (hrs < 24) return `${hrs}h ago`
+  const days = Math.floor(hrs / 24)
+  return `${days}d ago`
 }
 
 /* ── Shared notification list ────────────────────────────── */
@@ -104,10 +85,14 @@ function NotificationList({
   notifications,
   onMarkAllRead,
   onClear,
+  onRead,
+  onDelete,
 }: {
-  notifications: Notification[]
+  notifications: NotificationItem[]
   onMarkAllRead: () => void
   onClear: () => void
+  onRead: (id: string) => void
+  onDelete: (id: string) => void
 }) {
   const unreadCount = notifications.filter((n) => !n.read).length
 
@@ -168,7 +153,7 @@ function NotificationList({
 
               const content = (
                 <div
-                  className={`flex items-start gap-3 px-4 py-3 transition-colors hover:bg-muted/50 ${
+                  className={`group flex items-start gap-3 px-4 py-3 transition-colors hover:bg-muted/50 ${
                     !notification.read ? "bg-primary/[0.03]" : ""
                   }`}
                 >
@@ -190,18 +175,41 @@ function NotificationList({
                       {notification.message}
                     </p>
                     <p className="text-[10px] text-muted-foreground/60">
-                      {notification.time}
+                      {timeAgo(notification.createdAt)}
                     </p>
                   </div>
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.preventDefault()
+                      e.stopPropagation()
+                      onDelete(notification.id)
+                    }}
+                    className="shrink-0 rounded-md p-0.5 text-muted-foreground/60 opacity-0 group-hover:opacity-100 hover:text-foreground hover:bg-muted transition-opacity"
+                    aria-label="Delete notification"
+                  >
+                    <HugeiconsIcon icon={Cancel01Icon} size={12} />
+                  </button>
                 </div>
               )
 
+              const handleClick = () => {
+                if (!notification.read) onRead(notification.id)
+              }
+
               return notification.href ? (
-                <Link key={notification.id} href={notification.href} className="block">
+                <Link
+                  key={notification.id}
+                  href={notification.href}
+                  onClick={handleClick}
+                  className="block"
+                >
                   {content}
                 </Link>
               ) : (
-                <div key={notification.id}>{content}</div>
+                <div key={notification.id} onClick={handleClick}>
+                  {content}
+                </div>
               )
             })}
           </div>
@@ -215,18 +223,46 @@ function NotificationList({
 export function NotificationBell() {
   const isMobile = useIsMobile()
   const [open, setOpen] = React.useState(false)
-  const [notifications, setNotifications] =
-    React.useState<Notification[]>(MOCK_NOTIFICATIONS)
+  const user = useOptionalUser()
+  const qc = useQueryClient()
+  const { data: notifications = [] } = useNotifications(!!user)
+  const markRead = useMarkNotificationRead()
+  const markAllRead = useMarkAllNotificationsRead()
+  const deleteOne = useDeleteNotification()
+  const clearAll = useClearNotifications()
 
   const unreadCount = notifications.filter((n) => !n.read).length
 
-  const handleMarkAllRead = () => {
-    setNotifications((prev) => prev.map((n) => ({ ...n, read: true })))
-  }
+  // Prepend live notifications pushed over Ably
+  const handleNotificationEvent = React.useCallback(
+    (event: NotificationEventPayload) => {
+      qc.setQueryData<NotificationItem[]>(queryKeys.notifications, (prev = []) =>
+        prev.some((n) => n.id === event.notificationId)
+          ? prev
+          : [
+              {
+                id: event.notificationId,
+                type: event.notificationType as NotificationType,
+                title: event.title,
+                message: event.message,
+                href: event.href,
+                imageUrl: event.imageUrl,
+                read: false,
+                createdAt: event.createdAt,
+              },
+              ...prev,
+            ]
+      )
+    },
+    [qc]
+  )
 
-  const handleClear = () => {
-    setNotifications([])
-  }
+  useNotificationEvents(user?.id ?? null, handleNotificationEvent)
+
+  const handleMarkAllRead = () => markAllRead.mutate()
+  const handleClear = () => clearAll.mutate()
+  const handleRead = (id: string) => markRead.mutate(id)
+  const handleDelete = (id: string) => deleteOne.mutate(id)
 
   const triggerButton = (
     <button
@@ -275,6 +311,8 @@ export function NotificationBell() {
               notifications={notifications}
               onMarkAllRead={handleMarkAllRead}
               onClear={handleClear}
+              onRead={handleRead}
+              onDelete={handleDelete}
             />
           </SheetContent>
         </Sheet>
@@ -313,6 +351,8 @@ export function NotificationBell() {
           notifications={notifications}
           onMarkAllRead={handleMarkAllRead}
           onClear={handleClear}
+          onRead={handleRead}
+          onDelete={handleDelete}
         />
       </DropdownMenuContent>
     </DropdownMenu>
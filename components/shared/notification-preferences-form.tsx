@@ -0,0 +1,132 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { Switch } from "@/components/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { updateNotificationPreferences } from "@/lib/actions/notification-preferences"
+import type { NotificationPreferences } from "@/lib/notification-preferences"
+import type { NotificationCategory, NotificationChannel } from "@/lib/db/models/notification-preference"
+
+const categories: { id: NotificationCategory; label: string; description: string }[] = [
+  { id: "messages", label: "Messages", description: "Direct messages and missed calls" },
+  { id: "meetings", label: "Meetings", description: "Live sessions and meeting invites" },
+  { id: "courseUpdates", label: "Course updates", description: "New lessons and certificates" },
+  { id: "reviews", label: "Reviews", description: "Reviews on your courses" },
+  { id: "marketing", label: "Marketing", description: "News, offers and recommendations" },
+]
+
+const channels: { id: NotificationChannel; label: string }[] = [
+  { id: "inApp", label: "In-app" },
+  { id: "email", label: "Email" },
+  { id: "digest", label: "Digest" },
+]
+
+const frequencyItems = [
+  { label: "Daily", value: "daily" },
+  { label: "Weekly", value: "weekly" },
+]
+
+export function NotificationPreferencesForm({
+  initialPreferences,
+}: {
+  initialPreferences: NotificationPreferences
+}) {
+  const [preferences, setPreferences] = useState(initialPreferences)
+  const [error, setError] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  function save(next: NotificationPreferences) {
+    const previous = preferences
+    setPreferences(next)
+    setError(null)
+    startTransition(async () => {
+      const result = await updateNotificationPreferences(next)
+      if (!result.success) {
+        setPreferences(previous)
+        setError(result.error || "Failed to save preferences")
+      }
+    })
+  }
+
+  function toggle(category: NotificationCategory, channel: NotificationChannel, enabled: boolean) {
+    const current = preferences.categories[category]
+    const updated = { ...current, [channel]: enabled }
+    // Digests are built from in-app notifications
+    if (channel === "inApp" && !enabled) updated.digest = false
+    save({
+      ...preferences,
+      categories: { ...preferences.categories, [category]: updated },
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-[1fr_repeat(3,3.5rem)] items-center gap-y-3 gap-x-2">
+        <span />
+        {channels.map((channel) => (
+          <span key={channel.id} className="text-xs text-muted-foreground text-center">
+            {channel.label}
+          </span>
+        ))}
+
+        {categories.map((category) => (
+          <div key={category.id} className="contents">
+            <div className="min-w-0">
+              <p className="text-sm">{category.label}</p>
+              <p className="text-xs text-muted-foreground truncate">{category.description}</p>
+            </div>
+            {channels.map((channel) => (
+              <div key={channel.id} className="flex justify-center">
+                <Switch
+                  checked={preferences.categories[category.id][channel.id]}
+                  disabled={channel.id === "digest" && !preferences.categories[category.id].inApp}
+                  onCheckedChange={(checked) => toggle(category.id, channel.id, checked)}
+                  aria-label={`${category.label} ${channel.label}`}
+                />
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-4 pt-1">
+        <div>
+          <p className="text-sm">Digest frequency</p>
+          <p className="text-xs text-muted-foreground">
+            A summary email of unread notifications in the categories above.
+          </p>
+        </div>
+        <Select
+          items={frequencyItems}
+          value={preferences.digestFrequency}
+          onValueChange={(v) =>
+            save({ ...preferences, digestFrequency: (v ?? "daily") as "daily" | "weekly" })
+          }
+        >
+          <SelectTrigger className="w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {frequencyItems.map((item) => (
+              <SelectItem key={item.value} value={item.value}>
+                {item.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {error ? (
+        <p className="text-xs text-red-500">{error}</p>
+      ) : (
+        isPending && <p className="text-xs text-muted-foreground">Saving...</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,301 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Card, CardContent } from "@/components/ui/card"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Skeleton } from "@/components/ui/skeleton"
+import { HugeiconsIcon } from "@hugeicons/react"
+import { Flag01Icon, StarIcon } from "@hugeicons/core-free-icons"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { queryKeys } from "@/lib/hooks/queries/keys"
+import {
+  getReviewModerationQueue,
+  moderateReview,
+  replyToReview,
+  deleteReviewReply,
+  type ModerationReviewItem,
+  type ReviewModerationAction,
+  type ReviewModerationFilter,
+} from "@/lib/actions/reviews"
+import type { ReviewReportReason } from "@/lib/db/models"
+
+const filters: { value: ReviewModerationFilter; label: string }[] = [
+  { value: "reported", label: "Reported" },
+  { value: "hidden", label: "Hidden" },
+  { value: "all", label: "All reviews" },
+]
+
+const reasonLabels: Record<ReviewReportReason, string> = {
+  spam: "Spam",
+  offensive: "Offensive",
+  off_topic: "Off topic",
+  misleading: "Misleading",
+  other: "Other",
+}
+
+export function ReviewModerationQueue({ showAdminStats = false }: { showAdminStats?: boolean }) {
+  const [filter, setFilter] = useState<ReviewModerationFilter>("reported")
+
+  const { data: reviews = [], isLoading } = useQuery({
+    queryKey: queryKeys.reviewModeration(filter),
+    queryFn: () => getReviewModerationQueue(filter),
+  })
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {filters.map((f) => (
+          <Button
+            key={f.value}
+            size="sm"
+            variant={filter === f.value ? "default" : "outline"}
+            onClick={() => setFilter(f.value)}
+          >
+            {f.label}
+          </Button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map((i) => (
+            <Card key={i}>
+              <CardContent className="p-4 space-y-2">
+                <Skeleton className="h-4 w-1/3" />
+                <Skeleton className="h-3 w-2/3" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : reviews.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 text-center">
+          <HugeiconsIcon icon={Flag01Icon} size={48} className="text-muted-foreground/30 mb-4" />
+          <h3 className="font-semibold text-lg mb-1">Nothing here</h3>
+          <p className="text-sm text-muted-foreground">
+            {filter === "reported"
+              ? "No review has been reported."
+              : filter === "hidden"
+                ? "No reviews are hidden."
+                : "No reviews yet."}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {reviews.map((review) => (
+            <ModerationReviewCard key={review.id} review={review} showAdminStats={showAdminStats} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ModerationReviewCard({
+  review,
+  showAdminStats,
+}: {
+  review: ModerationReviewItem
+  showAdminStats: boolean
+}) {
+  const queryClient = useQueryClient()
+  const [reply, setReply] = useState(review.reply?.content ?? "")
+  const [isEditingReply, setIsEditingReply] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState<ReviewModerationAction | "reply" | "remove-reply" | null>(null)
+
+  function refresh() {
+    queryClient.invalidateQueries({ queryKey: queryKeys.reviewModeration() })
+    if (showAdminStats) queryClient.invalidateQueries({ queryKey: queryKeys.adminOverview })
+  }
+
+  async function handleModerate(action: ReviewModerationAction) {
+    if (action === "delete" && !window.confirm("Delete this review permanently?")) return
+    setError(null)
+    setSubmitting(action)
+    const result = await moderateReview(review.id, action)
+    setSubmitting(null)
+    if (result.success) refresh()
+    else setError(result.error || "Something went wrong")
+  }
+
+  async function handleReply() {
+    setError(null)
+    setSubmitting("reply")
+    const result = await replyToReview(review.id, reply)
+    setSubmitting(null)
+    if (result.success) {
+      setIsEditingReply(false)
+      refresh()
+    } else {
+      setError(result.error || "Something went wrong")
+    }
+  }
+
+  async function handleRemoveReply() {
+    if (!window.confirm("Remove this reply?")) return
+    setError(null)
+    setSubmitting("remove-reply")
+    const result = await deleteReviewReply(review.id)
+    setSubmitting(null)
+    if (result.success) {
+      setReply("")
+      refresh()
+    } else {
+      setError(result.error || "Something went wrong")
+    }
+  }
+
+  const initials = review.userName
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .slice(0, 2)
+    .toUpperCase()
+
+  const reasonCounts = review.reports.reduce<Partial<Record<ReviewReportReason, number>>>((acc, r) => {
+    acc[r.reason] = (acc[r.reason] ?? 0) + 1
+    return acc
+  }, {})
+  const reportDetails = review.reports.filter((r) => r.details)
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex items-center gap-3 min-w-0">
+            <Avatar className="h-9 w-9 shrink-0">
+              {review.userAvatarUrl && <AvatarImage src={review.userAvatarUrl} />}
+              <AvatarFallback className="text-xs">{initials}</AvatarFallback>
+            </Avatar>
+            <div className="min-w-0">
+              <p className="text-sm font-semibold truncate">{review.userName}</p>
+              <Link
+                href={`/courses/${review.courseId}`}
+                className="text-xs text-muted-foreground truncate hover:text-primary block"
+              >
+                {review.courseTitle}
+              </Link>
+            </div>
+          </div>
+          <div className="flex flex-col items-end gap-1 shrink-0">
+            <span className="inline-flex items-center gap-0.5 text-sm font-semibold">
+              <HugeiconsIcon icon={StarIcon} size={13} className="text-orange-500" fill="currentColor" />
+              {review.rating}
+            </span>
+            <div className="flex gap-1">
+              {review.reportCount > 0 && (
+                <Badge variant="destructive" className="text-[10px]">
+                  {review.reportCount} {review.reportCount === 1 ? "report" : "reports"}
+                </Badge>
+              )}
+              {review.isHidden && <Badge variant="outline" className="text-[10px]">Hidden</Badge>}
+            </div>
+          </div>
+        </div>
+
+        {review.title && <p className="text-sm font-medium">{review.title}</p>}
+        {review.content && <p className="text-sm whitespace-pre-wrap">{review.content}</p>}
+
+        <p className="text-xs text-muted-foreground">
+          Posted {new Date(review.createdAt).toLocaleDateString()}
+        </p>
+
+        {review.reports.length > 0 && (
+          <div className="rounded-md bg-muted/50 p-3 space-y-2">
+            <div className="flex flex-wrap gap-1">
+              {Object.entries(reasonCounts).map(([reason, count]) => (
+                <Badge key={reason} variant="secondary" className="text-[10px]">
+                  {reasonLabels[reason as ReviewReportReason]} · {count}
+                </Badge>
+              ))}
+            </div>
+            {reportDetails.length > 0 && (
+              <ul className="space-y-1 text-xs text-muted-foreground">
+                {reportDetails.map((r, i) => (
+                  <li key={i}>&ldquo;{r.details}&rdquo;</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {review.reply && !isEditingReply && (
+          <div className="border-l-2 border-primary/40 pl-3 space-y-1">
+            <p className="text-xs font-semibold">Instructor reply</p>
+            <p className="text-sm whitespace-pre-wrap">{review.reply.content}</p>
+            <div className="flex gap-3 text-xs">
+              {review.canReply && (
+                <button type="button" className="text-primary hover:underline" onClick={() => setIsEditingReply(true)}>
+                  Edit
+                </button>
+              )}
+              <button
+                type="button"
+                className="text-muted-foreground hover:text-foreground"
+                disabled={submitting !== null}
+                onClick={handleRemoveReply}
+              >
+                {submitting === "remove-reply" ? "Removing..." : "Remove"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {review.canReply && (!review.reply || isEditingReply) && (
+          <div className="space-y-2">
+            <Textarea
+              placeholder="Reply publicly to this review"
+              value={reply}
+              onChange={(e) => setReply(e.target.value)}
+              maxLength={2000}
+              className="min-h-16"
+            />
+            <div className="flex justify-end gap-2">
+              {isEditingReply && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => {
+                    setReply(review.reply?.content ?? "")
+                    setIsEditingReply(false)
+                  }}
+                >
+                  Cancel
+                </Button>
+              )}
+              <Button size="sm" variant="outline" disabled={submitting !== null || !reply.trim()} onClick={handleReply}>
+                {submitting === "reply" ? "Saving..." : review.reply ? "Save reply" : "Post reply"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-xs text-red-500">{error}</p>}
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button size="sm" variant="outline" disabled={submitting !== null} onClick={() => handleModerate("delete")}>
+            {submitting === "delete" ? "Deleting..." : "Remove review"}
+          </Button>
+          {(review.isHidden || review.reportCount > 0) && (
+            <Button
+              size="sm"
+              variant={review.isHidden ? "default" : "outline"}
+              disabled={submitting !== null}
+              onClick={() => handleModerate("restore")}
+            >
+              {submitting === "restore" ? "Restoring..." : review.isHidden ? "Restore" : "Dismiss reports"}
+            </Button>
+          )}
+          {!review.isHidden && (
+            <Button size="sm" disabled={submitting !== null} onClick={() => handleModerate("hide")}>
+              {submitting === "hide" ? "Hiding..." : "Hide review"}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
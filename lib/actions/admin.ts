@@ -0,0 +1,526 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { Types } from "mongoose"
+import connectDB from "@/lib/db"
+import {
+  Call,
+  Course,
+  InstructorApplication,
+  Lesson,
+  Meeting,
+  Review,
+  User,
+  type CallStatus,
+  type CallType,
+  type CourseApprovalStatus,
+  type CourseStatus,
+  type MeetingStatus,
+} from "@/lib/db/models"
+import { getCurrentUser } from "@/lib/auth"
+import { notifyUser } from "@/lib/notifications"
+import { z } from "zod/v4"
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const UpdateUserSchema = z.object({
+  firstName: z.string().trim().min(1).max(50),
+  lastName: z.string().trim().max(50),
+  username: z.string().trim().min(3).max(30).regex(/^[a-zA-Z0-9_.-]+$/),
+  bio: z.string().trim().max(500).nullable(),
+  role: z.enum(["USER", "INSTRUCTOR", "ADMIN"]),
+  verified: z.boolean(),
+})
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AdminRole = "USER" | "INSTRUCTOR" | "ADMIN"
+
+export type AdminOverview = {
+  totalUsers: number
+  totalInstructors: number
+  pendingApplications: number
+  pendingCourses: number
+  reportedReviews: number
+  activeMeetings: number
+  activeCalls: number
+}
+
+export type AdminUserItem = {
+  id: string
+  email: string
+  username: string
+  firstName: string
+  lastName: string
+  bio: string | null
+  avatarUrl: string | null
+  role: AdminRole
+  verified: boolean
+  walletBalance: number
+  totalCourses: number
+  createdAt: string
+}
+
+export type AdminCourseFilter = "pending" | CourseStatus | "all"
+
+export type AdminCourseItem = {
+  id: string
+  title: string
+  thumbnailUrl: string | null
+  status: CourseStatus
+  approvalStatus: CourseApprovalStatus
+  approvalNote: string | null
+  submittedAt: string | null
+  forceArchived: boolean
+  pricing: string
+  price: number
+  totalLessons: number
+  enrolledCount: number
+  instructorName: string
+  instructorEmail: string
+  createdAt: string
+}
+
+export type AdminLiveMeeting = {
+  id: string
+  title: string
+  status: MeetingStatus
+  hostName: string
+  hostAvatarUrl: string | null
+  courseTitle: string | null
+  participantCount: number
+  startedAt: string | null
+}
+
+export type AdminLiveCall = {
+  id: string
+  type: CallType
+  status: CallStatus
+  callerName: string
+  receiverName: string
+  answeredAt: string | null
+  createdAt: string
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * The signed-in user, if they're an admin. Every action in this file checks it.
+ */
+async function getAdminUser() {
+  const currentUser = await getCurrentUser()
+  if (!currentUser || currentUser.role !== "ADMIN") return null
+  return currentUser
+}
+
+function escapeRegex(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+type PopulatedUser = {
+  _id: { toString(): string }
+  firstName: string
+  lastName: string
+  email: string
+  avatarUrl: string | null
+} | null
+
+function fullName(user: PopulatedUser) {
+  return user ? `${user.firstName} ${user.lastName}`.trim() : "Deleted user"
+}
+
+// ============================================================================
+// OVERVIEW
+// ============================================================================
+
+/**
+ * Headline counts for the admin overview
+ */
+export async function getAdminOverview(): Promise<AdminOverview | null> {
+  try {
+    await connectDB()
+    const admin = await getAdminUser()
+    if (!admin) return null
+
+    const [
+      totalUsers,
+      totalInstructors,
+      pendingApplications,
+      pendingCourses,
+      reportedReviews,
+      activeMeetings,
+      activeCalls,
+    ] = await Promise.all([
+      User.countDocuments(),
+      User.countDocuments({ role: "INSTRUCTOR" }),
+      InstructorApplication.countDocuments({ status: "pending" }),
+      Course.countDocuments({ "approval.status": "pending" }),
+      Review.countDocuments({ reportCount: { $gt: 0 } }),
+      Meeting.countDocuments({ status: { $in: ["waiting", "active"] } }),
+      Call.countDocuments({ status: { $in: ["ringing", "ongoing"] } }),
+    ])
+
+    return {
+      totalUsers,
+      totalInstructors,
+      pendingApplications,
+      pendingCourses,
+      reportedReviews,
+      activeMeetings,
+      activeCalls,
+    }
+  } catch (error) {
+    console.error("Get admin overview error:", error)
+    return null
+  }
+}
+
+// ============================================================================
+// USERS
+// ============================================================================
+
+/**
+ * Search users by name, username or email
+ */
+export async function searchUsers(
+  search = "",
+  role: AdminRole | "all" = "all"
+): Promise<AdminUserItem[]> {
+  try {
+    await connectDB()
+    const admin = await getAdminUser()
+    if (!admin) return []
+
+    const query: Record<string, unknown> = {}
+    if (role !== "all") query.role = role
+    if (search.trim()) {
+      const pattern = new RegExp(escapeRegex(search.trim()), "i")
+      query.$or = [
+        { firstName: pattern },
+        { lastName: pattern },
+        { username: pattern },
+        { email: pattern },
+      ]
+    }
+
+    const users = await User.find(query).sort({ createdAt: -1 }).limit(50).lean()
+
+    return users.map((u) => ({
+      id: u._id.toString(),
+      email: u.email,
+      username: u.username,
+      firstName: u.firstName,
+      lastName: u.lastName,
+      bio: u.bio,
+      avatarUrl: u.avatarUrl,
+      role: u.role,
+      verified: u.verified,
+      walletBalance: u.walletBalance ?? 0,
+      totalCourses: u.instructorProfile?.totalCourses ?? 0,
+      createdAt: u.createdAt.toISOString(),
+    }))
+  } catch (error) {
+    console.error("Search users error:", error)
+    return []
+  }
+}
+
+/**
+ * Edit a user's profile, role and verification flag
+ */
+export async function updateUser(userId: string, data: z.infer<typeof UpdateUserSchema>) {
+  try {
+    await connectDB()
+    const admin = await getAdminUser()
+    if (!admin) return { success: false, error: "Unauthorized" }
+
+    const validated = UpdateUserSchema.parse(data)
+
+    // Stops the last admin from locking everyone out
+    if (userId === admin.id && validated.role !== "ADMIN") {
+      return { success: false, error: "You can't remove your own admin role" }
+    }
+
+    const taken = await User.exists({ username: validated.username, _id: { $ne: userId } })
+    if (taken) return { success: false, error: "That username is already taken" }
+
+    const user = await User.findByIdAndUpdate(
+      userId,
+      { ...validated, bio: validated.bio || null },
+      { new: true }
+    )
+    if (!user) return { success: false, error: "User not found" }
+
+    revalidatePath("/admin/users")
+
+    return { success: true }
+  } catch (error) {
+    console.error("Update user error:", error)
+    if (error instanceof z.ZodError) {
+      return { success: false, error: "Invalid input data" }
+    }
+    return { success: false, error: "Failed to update user" }
+  }
+}
+
+// ============================================================================
+// COURSES
+// ============================================================================
+
+/**
+ * List courses for the approval queue and course management
+ */
+export async function getAdminCourses(
+  filter: AdminCourseFilter = "pending",
+  search = ""
+): Promise<AdminCourseItem[]> {
+  try {
+    await connectDB()
+    const admin = await getAdminUser()
+    if (!admin) return []
+
+    const query: Record<string, unknown> = {}
+    if (filter === "pending") query["approval.status"] = "pending"
+    else if (filter !== "all") query.status = filter
+    if (search.trim()) query.title = new RegExp(escapeRegex(search.trim()), "i")
+
+    const courses = await Course.find(query)
+      .populate("instructor", "firstName lastName email avatarUrl")
+      .sort(filter === "pending" ? { "approval.submittedAt": 1 } : { createdAt: -1 })
+      .limit(100)
+      .lean()
+
+    return courses.map((c) => {
+      const instructor = c.instructor as unknown as PopulatedUser
+      return {
+        id: c._id.toString(),
+        title: c.title,
+        thumbnailUrl: c.thumbnailUrl,
+        status: c.status,
+        approvalStatus: c.approval?.status ?? "none",
+        approvalNote: c.approval?.note ?? null,
+        submittedAt: c.approval?.submittedAt?.toISOString() || null,
+        forceArchived: c.forceArchived ?? false,
+        pricing: c.pricing,
+        price: c.price,
+        totalLessons: c.totalLessons || 0,
+        enrolledCount: c.enrolledCount || 0,
+        instructorName: fullName(instructor),
+        instructorEmail: instructor?.email ?? "",
+        createdAt: c.createdAt.toISOString(),
+      }
+    })
+  } catch (error) {
+    console.error("Get admin courses error:", error)
+    return []
+  }
+}
+
+/**
+ * Approve a course waiting for review (it goes live immediately) or send it
+ * back to the instructor with a note
+ */
+export async function reviewCourse(
+  courseId: string,
+  decision: "approve" | "reject",
+  note?: string
+) {
+  try {
+    await connectDB()
+    const admin = await getAdminUser()
+    if (!admin) return { success: false, error: "Unauthorized" }
+
+    const trimmedNote = note?.trim() || null
+    if (decision === "reject" && !trimmedNote) {
+      return { success: false, error: "Tell the instructor what needs to change" }
+    }
+
+    const now = new Date()
+    const approvalUpdate = {
+      "approval.status": decision === "approve" ? "approved" : "rejected",
+      "approval.note": trimmedNote,
+      "approval.reviewedBy": admin.id,
+      "approval.reviewedAt": now,
+    }
+
+    // Atomic pending → decided transition so two admins can't both act
+    const course = await Course.findOneAndUpdate(
+      { _id: courseId, "approval.status": "pending" },
+      decision === "approve"
+        ? { ...approvalUpdate, status: "published", publishedAt: now }
+        : approvalUpdate,
+      { new: true }
+    )
+    if (!course) return { success: false, error: "This course isn't waiting for review" }
+
+    if (decision === "approve") {
+      // Lessons were saved unpublished while the course was held as a draft
+      await Lesson.updateMany({ course: course._id }, { isPublished: true })
+    }
+
+    await notifyUser(course.instructor.toString(), {
+      type: "course_approval",
+      title: decision === "approve" ? "Your course is live" : "Your course needs changes",
+      message:
+        decision === "approve"
+          ? `${course.title} was approved and is now published`
+          : `${course.title}: ${trimmedNote}`,
+      href: decision === "approve" ? `/instructor/courses/${courseId}` : `/instructor/courses/${courseId}/edit`,
+      imageUrl: course.thumbnailUrl,
+    })
+
+    revalidatePath("/admin/courses")
+    revalidatePath("/instructor/courses")
+    revalidatePath(`/instructor/courses/${courseId}`)
+    revalidatePath("/courses")
+    revalidatePath("/dashboard/courses")
+
+    return { success: true }
+  } catch (error) {
+    console.error("Review course error:", error)
+    return { success: false, error: "Failed to review course" }
+  }
+}
+
+/**
+ * Archive a course regardless of who owns it. The instructor can't
+ * republish it until an admin lifts the archive.
+ */
+export async function forceArchiveCourse(courseId: string, reason?: string) {
+  try {
+    await connectDB()
+    const admin = await getAdminUser()
+    if (!admin) return { success: false, error: "Unauthorized" }
+
+    const course = await Course.findById(courseId)
+    if (!course) return { success: false, error: "Course not found" }
+
+    course.status = "archived"
+    course.forceArchived = true
+    // Drop it out of the review queue if it was waiting
+    if (course.approval?.status === "pending") {
+      course.approval.status = "rejected"
+      course.approval.reviewedBy = new Types.ObjectId(admin.id)
+      course.approval.reviewedAt = new Date()
+    }
+    if (reason?.trim()) course.approval.note = reason.trim()
+    await course.save()
+
+    await notifyUser(course.instructor.toString(), {
+      type: "course_approval",
+      title: "Your course was archived",
+      message: reason?.trim()
+        ? `${course.title} was archived by an admin: ${reason.trim()}`
+        : `${course.title} was archived by an admin`,
+      href: `/instructor/courses/${courseId}`,
+      imageUrl: course.thumbnailUrl,
+    })
+
+    revalidatePath("/admin/courses")
+    revalidatePath("/instructor/courses")
+    revalidatePath(`/instructor/courses/${courseId}`)
+    revalidatePath("/courses")
+    revalidatePath("/dashboard/courses")
+
+    return { success: true }
+  } catch (error) {
+    console.error("Force archive course error:", error)
+    return { success: false, error: "Failed to archive course" }
+  }
+}
+
+/**
+ * Let the instructor manage a force-archived course again.
+ * It stays archived until they republish it.
+ */
+export async function liftCourseArchive(courseId: string) {
+  try {
+    await connectDB()
+    const admin = await getAdminUser()
+    if (!admin) return { success: false, error: "Unauthorized" }
+
+    const course = await Course.findOneAndUpdate(
+      { _id: courseId, forceArchived: true },
+      { forceArchived: false },
+      { new: true }
+    )
+    if (!course) return { success: false, error: "This course isn't archived by an admin" }
+
+    revalidatePath("/admin/courses")
+    revalidatePath("/instructor/courses")
+
+    return { success: true }
+  } catch (error) {
+    console.error("Lift course archive error:", error)
+    return { success: false, error: "Failed to restore course" }
+  }
+}
+
+// ============================================================================
+// LIVE ACTIVITY (read-only)
+// ============================================================================
+
+/**
+ * Meetings and calls happening right now
+ */
+export async function getLiveActivity(): Promise<{
+  meetings: AdminLiveMeeting[]
+  calls: AdminLiveCall[]
+} | null> {
+  try {
+    await connectDB()
+    const admin = await getAdminUser()
+    if (!admin) return null
+
+    const [meetings, calls] = await Promise.all([
+      Meeting.find({ status: { $in: ["waiting", "active"] } })
+        .populate("hostId", "firstName lastName email avatarUrl")
+        .populate("courseId", "title")
+        .sort({ startedAt: -1, createdAt: -1 })
+        .limit(100)
+        .lean(),
+      Call.find({ status: { $in: ["ringing", "ongoing"] } })
+        .populate("callerId", "firstName lastName email avatarUrl")
+        .populate("receiverId", "firstName lastName email avatarUrl")
+        .sort({ createdAt: -1 })
+        .limit(100)
+        .lean(),
+    ])
+
+    return {
+      meetings: meetings.map((m) => {
+        const host = m.hostId as unknown as PopulatedUser
+        const course = m.courseId as unknown as { title: string } | null
+
+        return {
+          id: m._id.toString(),
+          title: m.title,
+          status: m.status,
+          hostName: fullName(host),
+          hostAvatarUrl: host?.avatarUrl ?? null,
+          courseTitle: course?.title ?? null,
+          participantCount: m.participants.filter((p) => p.status === "admitted").length,
+          startedAt: m.startedAt?.toISOString() || null,
+        }
+      }),
+      calls: calls.map((c) => ({
+        id: c._id.toString(),
+        type: c.type,
+        status: c.status,
+        callerName: fullName(c.callerId as unknown as PopulatedUser),
+        receiverName: fullName(c.receiverId as unknown as PopulatedUser),
+        answeredAt: c.answeredAt?.toISOString() || null,
+        createdAt: c.createdAt.toISOString(),
+      })),
+    }
+  } catch (error) {
+    console.error("Get live activity error:", error)
+    return null
+  }
+}
@@ -0,0 +1,420 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import connectDB from "@/lib/db"
+import {
+  AssignmentSubmission,
+  Course,
+  Enrollment,
+  Lesson,
+  type AssignmentSubmissionStatus,
+  type IAssignmentSubmission,
+} from "@/lib/db/models"
+import { getCurrentUser } from "@/lib/auth"
+import { R2_PUBLIC_URL } from "@/lib/r2"
+import { sanitizeRichText } from "@/lib/sanitize-html"
+import { toLessonAssignment } from "@/lib/assignments"
+import { getLessonLockForUser } from "@/lib/lesson-access"
+import { notifyUser } from "@/lib/notifications"
+import { recordLessonCompletion } from "@/lib/lesson-completion"
+import type { LessonAssignment } from "@/lib/types"
+
+const MAX_ATTACHMENTS = 5
+const MAX_TEXT_LENGTH = 50_000
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AssignmentAttachment = {
+  url: string
+  key: string | null
+  name: string
+  size: number | null
+  contentType: string | null
+}
+
+export type RubricScoreItem = {
+  criterionId: string
+  title: string
+  maxPoints: number
+  score: number
+}
+
+export type AssignmentSubmissionItem = {
+  id: string
+  text: string | null
+  attachments: AssignmentAttachment[]
+  status: AssignmentSubmissionStatus
+  revision: number
+  submittedAt: string
+  rubricScores: RubricScoreItem[]
+  score: number | null
+  maxScore: number | null
+  feedback: string | null
+  gradedAt: string | null
+}
+
+export type StudentAssignment = {
+  lessonId: string
+  courseId: string
+  instructions: string | null
+  assignment: LessonAssignment
+  submission: AssignmentSubmissionItem | null
+  canSubmit: boolean
+}
+
+export type GradingQueueItem = AssignmentSubmissionItem & {
+  courseId: string
+  courseTitle: string
+  lessonId: string
+  lessonTitle: string
+  studentName: string
+  studentEmail: string
+  studentAvatarUrl: string | null
+  /** The lesson's current rubric, to grade against */
+  rubric: LessonAssignment["rubric"]
+}
+
+export type GradeSubmissionInput = {
+  scores: { criterionId: string; score: number }[]
+  feedback?: string
+  decision: "grade" | "return"
+}
+
+function toSubmissionItem(s: IAssignmentSubmission): AssignmentSubmissionItem {
+  return {
+    id: s._id.toString(),
+    text: s.text ?? null,
+    attachments: (s.attachments ?? []).map((a) => ({
+      url: a.url,
+      key: a.key ?? null,
+      name: a.name,
+      size: a.size ?? null,
+      contentType: a.contentType ?? null,
+    })),
+    status: s.status,
+    revision: s.revision,
+    submittedAt: s.submittedAt.toISOString(),
+    rubricScores: (s.rubricScores ?? []).map((r) => ({
+      criterionId: r.criterion.toString(),
+      title: r.title,
+      maxPoints: r.maxPoints,
+      score: r.score,
+    })),
+    score: s.score ?? null,
+    maxScore: s.maxScore ?? null,
+    feedback: s.feedback ?? null,
+    gradedAt: s.gradedAt?.toISOString() || null,
+  }
+}
+
+// ============================================================================
+// STUDENT ACTIONS
+// ============================================================================
+
+/**
+ * Get an assignment lesson for the current student, with their submission
+ */
+export async function getAssignmentForStudent(
+  lessonId: string
+): Promise<StudentAssignment | null> {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return null
+
+    const lesson = await Lesson.findById(lessonId).select("course type content assignment").lean()
+    if (!lesson || lesson.type !== "assignment" || !lesson.assignment) return null
+    if (await getLessonLockForUser(currentUser, lessonId)) return null
+
+    const submission = await AssignmentSubmission.findOne({
+      user: currentUser.id,
+      lesson: lessonId,
+    }).lean<IAssignmentSubmission>()
+
+    return {
+      lessonId,
+      courseId: lesson.course.toString(),
+      instructions: lesson.content ?? null,
+      assignment: toLessonAssignment(lesson.assignment)!,
+      submission: submission ? toSubmissionItem(submission) : null,
+      canSubmit: submission?.status !== "graded",
+    }
+  } catch (error) {
+    console.error("Get assignment error:", error)
+    return null
+  }
+}
+
+/**
+ * Submit (or resubmit) work for an assignment lesson. A submission can be
+ * replaced until it's graded; a returned submission goes back in the queue.
+ */
+export async function submitAssignment(
+  lessonId: string,
+  input: { text?: string | null; attachments?: AssignmentAttachment[] }
+) {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return { success: false, error: "Not authenticated" }
+
+    const lesson = await Lesson.findById(lessonId).select("course type assignment").lean()
+    if (!lesson || lesson.type !== "assignment" || !lesson.assignment) {
+      return { success: false, error: "Assignment not found" }
+    }
+    const courseId = lesson.course.toString()
+
+    const enrollment = await Enrollment.exists({
+      user: currentUser.id,
+      course: courseId,
+      status: { $in: ["active", "completed"] },
+    })
+    if (!enrollment) {
+      return { success: false, error: "Enroll in this course to submit work" }
+    }
+
+    if (await getLessonLockForUser(currentUser, lessonId)) {
+      return { success: false, error: "This lesson hasn't unlocked yet" }
+    }
+
+    const course = await Course.findById(courseId).select("instructor").lean()
+    if (!course) return { success: false, error: "Course not found" }
+
+    const { allowFiles, allowText } = lesson.assignment
+
+    const rawText = allowText ? String(input.text ?? "") : ""
+    if (rawText.length > MAX_TEXT_LENGTH) {
+      return { success: false, error: "Your written answer is too long" }
+    }
+    const text = sanitizeRichText(rawText).trim()
+    const hasText = text.replace(/<[^>]*>/g, "").trim().length > 0
+
+    const attachments = allowFiles && Array.isArray(input.attachments) ? input.attachments : []
+    if (attachments.length > MAX_ATTACHMENTS) {
+      return { success: false, error: `You can attach at most ${MAX_ATTACHMENTS} files` }
+    }
+    // Only files uploaded through our presigned flow
+    if (attachments.some((a) => !String(a?.url ?? "").startsWith(`${R2_PUBLIC_URL}/`))) {
+      return { success: false, error: "Invalid attachment" }
+    }
+
+    if (!hasText && attachments.length === 0) {
+      return { success: false, error: "Add a written answer or attach a file before submitting" }
+    }
+
+    const existing = await AssignmentSubmission.findOne({
+      user: currentUser.id,
+      lesson: lessonId,
+    })
+      .select("status")
+      .lean()
+    if (existing?.status === "graded") {
+      return { success: false, error: "This assignment has already been graded" }
+    }
+
+    const fields = {
+      text: hasText ? text : null,
+      attachments: attachments.map((a) => ({
+        url: a.url,
+        key: a.key || null,
+        name: String(a.name || "Attachment").slice(0, 255),
+        size: Number.isFinite(Number(a.size)) ? Number(a.size) : null,
+        contentType: a.contentType || null,
+      })),
+      status: "submitted" as const,
+      submittedAt: new Date(),
+    }
+
+    let submission
+    if (existing) {
+      // Guard on status so a resubmit can't overwrite a grade given meanwhile
+      submission = await AssignmentSubmission.findOneAndUpdate(
+        { _id: existing._id, status: { $ne: "graded" } },
+        { ...fields, $inc: { revision: 1 } },
+        { new: true }
+      ).lean<IAssignmentSubmission>()
+      if (!submission) {
+        return { success: false, error: "This assignment has already been graded" }
+      }
+    } else {
+      try {
+        const created = await AssignmentSubmission.create({
+          ...fields,
+          user: currentUser.id,
+          lesson: lessonId,
+          course: courseId,
+          instructor: course.instructor,
+        })
+        submission = created.toObject<IAssignmentSubmission>()
+      } catch (error) {
+        // Unique (user, lesson) — submitted twice at once
+        if ((error as { code?: number }).code === 11000) {
+          return { success: false, error: "This assignment was already submitted" }
+        }
+        throw error
+      }
+    }
+
+    revalidatePath(`/dashboard/courses/${courseId}/learn/${lessonId}`)
+    revalidatePath("/instructor/assignments")
+
+    return { success: true, data: toSubmissionItem(submission) }
+  } catch (error) {
+    console.error("Submit assignment error:", error)
+    return { success: false, error: "Failed to submit assignment" }
+  }
+}
+
+// ============================================================================
+// INSTRUCTOR ACTIONS
+// ============================================================================
+
+/**
+ * List assignment submissions for the current instructor's courses
+ * (admins see all), oldest first so the queue is worked in order
+ */
+export async function getGradingQueue(
+  status: AssignmentSubmissionStatus | "all" = "submitted",
+  courseId?: string
+): Promise<GradingQueueItem[]> {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return []
+
+    const query: Record<string, unknown> = {}
+    if (currentUser.role !== "ADMIN") query.instructor = currentUser.id
+    if (status !== "all") query.status = status
+    if (courseId) query.course = courseId
+
+    const submissions = await AssignmentSubmission.find(query)
+      .populate("user", "firstName lastName email avatarUrl")
+      .populate("course", "title")
+      .populate("lesson", "title assignment")
+      .sort({ submittedAt: 1 })
+      .limit(200)
+      .lean<IAssignmentSubmission[]>()
+
+    return submissions.flatMap((s) => {
+      const user = s.user as unknown as {
+        firstName: string
+        lastName: string
+        email: string
+        avatarUrl: string | null
+      }
+      const course = s.course as unknown as { _id: { toString(): string }; title: string } | null
+      const lesson = s.lesson as unknown as {
+        _id: { toString(): string }
+        title: string
+        assignment: Parameters<typeof toLessonAssignment>[0]
+      } | null
+      // Lesson or course deleted since the student submitted
+      if (!course || !lesson) return []
+
+      return [
+        {
+          ...toSubmissionItem(s),
+          courseId: course._id.toString(),
+          courseTitle: course.title,
+          lessonId: lesson._id.toString(),
+          lessonTitle: lesson.title,
+          studentName: `${user.firstName} ${user.lastName}`.trim(),
+          studentEmail: user.email,
+          studentAvatarUrl: user.avatarUrl,
+          rubric: toLessonAssignment(lesson.assignment)?.rubric ?? [],
+        },
+      ]
+    })
+  } catch (error) {
+    console.error("Get grading queue error:", error)
+    return []
+  }
+}
+
+/**
+ * Score a submission against the lesson's rubric. Grading completes the
+ * lesson for the student; returning it lets them revise and resubmit.
+ */
+export async function gradeAssignmentSubmission(
+  submissionId: string,
+  input: GradeSubmissionInput
+) {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return { success: false, error: "Not authenticated" }
+
+    const submission = await AssignmentSubmission.findById(submissionId)
+    if (!submission) return { success: false, error: "Submission not found" }
+
+    if (currentUser.role !== "ADMIN" && submission.instructor.toString() !== currentUser.id) {
+      return { success: false, error: "Unauthorized" }
+    }
+    if (submission.status !== "submitted") {
+      return { success: false, error: "This submission isn't waiting to be graded" }
+    }
+
+    const lesson = await Lesson.findById(submission.lesson).select("title assignment").lean()
+    if (!lesson?.assignment) return { success: false, error: "Assignment not found" }
+
+    const scoresById = new Map(
+      (Array.isArray(input.scores) ? input.scores : []).map((s) => [s.criterionId, Number(s.score)])
+    )
+
+    const rubricScores = lesson.assignment.rubric.map((c) => {
+      const raw = scoresById.get(c._id.toString())
+      const score = Number.isFinite(raw) ? Math.min(Math.max(raw!, 0), c.maxPoints) : 0
+      return { criterion: c._id, title: c.title, maxPoints: c.maxPoints, score }
+    })
+
+    if (input.decision === "grade" && rubricScores.some((r) => !scoresById.has(r.criterion.toString()))) {
+      return { success: false, error: "Score every rubric criterion before grading" }
+    }
+
+    const feedback = input.feedback?.trim().slice(0, 5000) || null
+    const isGrade = input.decision === "grade"
+
+    // Atomic submitted → graded/returned so two graders can't both act
+    const updated = await AssignmentSubmission.findOneAndUpdate(
+      { _id: submission._id, status: "submitted" },
+      {
+        status: isGrade ? "graded" : "returned",
+        rubricScores,
+        score: rubricScores.reduce((sum, r) => sum + r.score, 0),
+        maxScore: rubricScores.reduce((sum, r) => sum + r.maxPoints, 0),
+        feedback,
+        gradedBy: currentUser.id,
+        gradedAt: new Date(),
+      },
+      { new: true }
+    )
+    if (!updated) return { success: false, error: "This submission has already been graded" }
+
+    const studentId = submission.user.toString()
+    const courseId = submission.course.toString()
+    const lessonId = submission.lesson.toString()
+
+    if (isGrade) {
+      await recordLessonCompletion(studentId, courseId, lessonId)
+    }
+
+    await notifyUser(studentId, {
+      type: "assignment_graded",
+      title: isGrade ? "Assignment graded" : "Assignment returned for revision",
+      message: isGrade
+        ? `Your submission for "${lesson.title}" scored ${updated.score}/${updated.maxScore}.`
+        : `Your instructor returned "${lesson.title}" with feedback. Revise and resubmit when you're ready.`,
+      href: `/dashboard/courses/${courseId}/learn/${lessonId}`,
+    })
+
+    revalidatePath("/instructor/assignments")
+    revalidatePath(`/dashboard/courses/${courseId}/learn/${lessonId}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error("Grade assignment error:", error)
+    return { success: false, error: "Failed to grade submission" }
+  }
+}
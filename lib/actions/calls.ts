@@ -6,6 +6,7 @@ import { Call, Conversation, User, Message, type ICall, type CallType } from "@/
 import { getCurrentUser } from "@/lib/auth"
 import { createMeeting, addParticipant } from "@/lib/realtime"
 import { emitCallEvent, emitCallEventToMany, type CallEventPayload } from "@/lib/call-events"
+import { notifyUser } from "@/lib/notifications"
 
 // ── Helpers ──
 
@@ -601,6 +602,18 @@ export async function expireRingingCalls(): Promise<void> {
       }
       await emitCallEvent(updated.callerId.toString(), eventPayload)
       await emitCallEvent(updated.receiverId.toString(), eventPayload)
+
+      const caller = await User.findById(updated.callerId)
+        .select("firstName lastName avatarUrl")
+        .lean()
+      const callerName = caller ? `${caller.firstName} ${caller.lastName}`.trim() : "Someone"
+      await notifyUser(updated.receiverId.toString(), {
+        type: "missed_call",
+        title: `Missed ${updated.type} call`,
+        message: `You missed a call from ${callerName}`,
+        href: `/dashboard/messages?c=${updated.conversationId.toString()}`,
+        imageUrl: caller?.avatarUrl ?? null,
+      })
     }
   }
 }
@@ -0,0 +1,220 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { Types } from "mongoose"
+import connectDB from "@/lib/db"
+import { Course, VideoCaption } from "@/lib/db/models"
+import { getCurrentUser } from "@/lib/auth"
+import {
+  getManagedVideoCaptions,
+  MAX_CAPTION_FILE_CHARS,
+  parseCaptionFile,
+} from "@/lib/captions"
+import { getWorkingSnapshot } from "@/lib/course-versions"
+import { isSpeechToTextConfigured } from "@/lib/speech-to-text"
+import { languageMap } from "@/components/translator/languages"
+import type { ManagedCaptionTrack, TranscriptCue } from "@/lib/types"
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * The current instructor's course, if `videoUrl` is one of its lesson
+ * videos — as the instructor is editing it, so draft videos count.
+ */
+async function findCourseVideo(courseId: string, videoUrl: string) {
+  const currentUser = await getCurrentUser()
+  if (!currentUser || !Types.ObjectId.isValid(courseId)) return null
+
+  await connectDB()
+  const course = await Course.findOne({ _id: courseId, instructor: currentUser.id }).select("_id").lean()
+  if (!course) return null
+
+  const snapshot = await getWorkingSnapshot(courseId)
+  if (!snapshot?.lessons.some((l) => l.videoUrl === videoUrl)) return null
+
+  return { userId: currentUser.id }
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Caption tracks of every video in a course, for the course editor
+ */
+export async function getCourseCaptions(courseId: string): Promise<{
+  tracks: Record<string, ManagedCaptionTrack[]>
+  /** A speech-to-text provider is configured */
+  canGenerate: boolean
+} | null> {
+  try {
+    const currentUser = await getCurrentUser()
+    if (!currentUser || !Types.ObjectId.isValid(courseId)) return null
+
+    await connectDB()
+    const course = await Course.findOne({ _id: courseId, instructor: currentUser.id }).select("_id").lean()
+    if (!course) return null
+
+    const snapshot = await getWorkingSnapshot(courseId)
+    const tracks = await getManagedVideoCaptions(snapshot?.lessons.map((l) => l.videoUrl) ?? [])
+
+    return { tracks, canGenerate: isSpeechToTextConfigured() }
+  } catch (error) {
+    console.error("Get course captions error:", error)
+    return null
+  }
+}
+
+/**
+ * The cues of a caption track, for the lesson transcript
+ */
+export async function getCaptionTranscript(captionId: string): Promise<TranscriptCue[] | null> {
+  try {
+    const currentUser = await getCurrentUser()
+    if (!currentUser || !Types.ObjectId.isValid(captionId)) return null
+
+    await connectDB()
+    const caption = await VideoCaption.findOne({ _id: captionId, status: "ready" }).select("cues").lean()
+    if (!caption) return null
+
+    return caption.cues.map((c) => ({ start: c.start, end: c.end, text: c.text }))
+  } catch (error) {
+    console.error("Get caption transcript error:", error)
+    return null
+  }
+}
+
+// ============================================================================
+// INSTRUCTOR ACTIONS
+// ============================================================================
+
+/**
+ * Add a WebVTT or SRT file as a video's captions in one language,
+ * replacing any track it already has in that language
+ */
+export async function uploadVideoCaptions(
+  courseId: string,
+  videoUrl: string,
+  languageCode: string,
+  fileName: string,
+  content: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const access = await findCourseVideo(courseId, videoUrl)
+    if (!access) return { success: false, error: "Video not found" }
+
+    const language = languageMap.get(languageCode)
+    if (!language) return { success: false, error: "Choose a language" }
+    if (content.length > MAX_CAPTION_FILE_CHARS) {
+      return { success: false, error: "Caption files can be up to 512KB" }
+    }
+
+    const cues = parseCaptionFile(content)
+    if (cues.length === 0) {
+      return { success: false, error: "No captions found — upload a WebVTT (.vtt) or SRT (.srt) file" }
+    }
+
+    await VideoCaption.findOneAndUpdate(
+      { videoUrl, language: language.code },
+      {
+        $set: {
+          label: language.name,
+          source: "upload",
+          status: "ready",
+          cues,
+          fileName: fileName.slice(0, 200),
+          attempts: 0,
+          lockedAt: null,
+          error: null,
+          createdBy: access.userId,
+        },
+      },
+      { upsert: true }
+    )
+
+    revalidatePath(`/instructor/courses/${courseId}/edit`)
+    return { success: true }
+  } catch (error) {
+    console.error("Upload captions error:", error)
+    return { success: false, error: "Failed to upload captions" }
+  }
+}
+
+/**
+ * Queue captions in one language to be generated by speech-to-text
+ */
+export async function generateVideoCaptions(
+  courseId: string,
+  videoUrl: string,
+  languageCode: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const access = await findCourseVideo(courseId, videoUrl)
+    if (!access) return { success: false, error: "Video not found" }
+
+    const language = languageMap.get(languageCode)
+    if (!language) return { success: false, error: "Choose a language" }
+    if (!isSpeechToTextConfigured()) {
+      return { success: false, error: "Caption generation isn't available" }
+    }
+
+    const existing = await VideoCaption.findOne({ videoUrl, language: language.code })
+      .select("status")
+      .lean()
+    if (existing && existing.status !== "failed") {
+      return { success: false, error: `This video already has ${language.name} captions` }
+    }
+
+    await VideoCaption.findOneAndUpdate(
+      { videoUrl, language: language.code },
+      {
+        $set: {
+          label: language.name,
+          source: "generated",
+          status: "queued",
+          cues: [],
+          fileName: null,
+          attempts: 0,
+          lockedAt: null,
+          error: null,
+          createdBy: access.userId,
+        },
+      },
+      { upsert: true }
+    )
+
+    revalidatePath(`/instructor/courses/${courseId}/edit`)
+    return { success: true }
+  } catch (error) {
+    console.error("Generate captions error:", error)
+    return { success: false, error: "Failed to queue captions" }
+  }
+}
+
+/**
+ * Remove a caption track from a video
+ */
+export async function deleteVideoCaption(
+  courseId: string,
+  captionId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (!Types.ObjectId.isValid(captionId)) return { success: false, error: "Captions not found" }
+
+    await connectDB()
+    const caption = await VideoCaption.findById(captionId).select("videoUrl").lean()
+    if (!caption || !(await findCourseVideo(courseId, caption.videoUrl))) {
+      return { success: false, error: "Captions not found" }
+    }
+
+    await VideoCaption.deleteOne({ _id: caption._id })
+
+    revalidatePath(`/instructor/courses/${courseId}/edit`)
+    return { success: true }
+  } catch (error) {
+    console.error("Delete captions error:", error)
+    return { success: false, error: "Failed to remove captions" }
+  }
+}
@@ -1,8 +1,15 @@
 "use server"
 
 import connectDB from "@/lib/db"
-import { Enrollment, Course, User } from "@/lib/db/models"
+import { Certificate, Enrollment, Course } from "@/lib/db/models"
 import { getCurrentUser } from "@/lib/auth"
+import {
+  checkCertificateEligibility,
+  findCertificate,
+  getCertificateData,
+  issueCertificate,
+  type CertificateEligibility,
+} from "@/lib/certificates"
 
 // ============================================================================
 // TYPES
@@ -10,6 +17,7 @@ import { getCurrentUser } from "@/lib/auth"
 
 export type CertificateData = {
   id: string
+  serialNumber: string
   studentName: string
   courseTitle: string
   instructorName: string
@@ -21,6 +29,7 @@ export type CertificateData = {
 
 export type StudentCertificate = {
   id: string
+  serialNumber: string
   courseId: string
   courseTitle: string
   courseThumbnail: string | null
@@ -40,6 +49,7 @@ export type InstructorCertificateStats = {
 
 export type InstructorCourseCertificate = {
   id: string
+  serialNumber: string
   studentId: string
   studentName: string
   studentEmail: string
@@ -53,12 +63,24 @@ export type CourseCertificatesResult = {
   certificates: InstructorCourseCertificate[]
 }
 
+/** What the public verify page shows — no contact details */
+export type CertificateVerification = {
+  serialNumber: string
+  studentName: string
+  courseId: string
+  courseTitle: string
+  instructorName: string
+  issuedAt: string
+  revoked: boolean
+}
+
 // ============================================================================
 // STUDENT ACTIONS
 // ============================================================================
 
 /**
- * Fetch certificate data for a specific course enrollment
+ * Fetch the current student's certificate for a course, issuing it the
+ * first time they've met the course's certificate rules
  */
 export async function fetchCertificate(courseId: string): Promise<CertificateData | null> {
   try {
@@ -66,45 +88,32 @@ export async function fetchCertificate(courseId: string): Promise<CertificateDat
     const currentUser = await getCurrentUser()
     if (!currentUser) return null
 
-    const enrollment = await Enrollment.findOne({
-      user: currentUser.id,
-      course: courseId,
-      status: "completed",
-    }).lean()
-
-    if (!enrollment || !enrollment.completedAt) return null
+    const certificate = await issueCertificate(currentUser.id, courseId)
+    if (!certificate || certificate.revokedAt) return null
 
-    const course = await Course.findById(courseId)
-      .populate("instructor", "firstName lastName signatureUrl")
-      .lean()
-
-    if (!course) return null
-
-    const instructor = course.instructor as unknown as {
-      firstName: string
-      lastName: string
-      signatureUrl: string | null
-    }
-
-    const user = await User.findById(currentUser.id).select("firstName lastName signatureUrl").lean()
-    if (!user) return null
-
-    return {
-      id: enrollment._id.toString(),
-      studentName: `${user.firstName} ${user.lastName}`,
-      courseTitle: course.title,
-      instructorName: `${instructor.firstName} ${instructor.lastName}`,
-      completedAt: enrollment.completedAt.toISOString(),
-      courseId: courseId,
-      instructorSignatureUrl: instructor.signatureUrl ?? null,
-      studentSignatureUrl: user.signatureUrl ?? null,
-    }
+    return await getCertificateData(certificate)
   } catch (error) {
     console.error("Fetch certificate error:", error)
     return null
   }
 }
 
+/**
+ * What the current student still has to do to earn a course's certificate
+ */
+export async function fetchCertificateEligibility(
+  courseId: string
+): Promise<CertificateEligibility | null> {
+  try {
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return null
+    return await checkCertificateEligibility(currentUser.id, courseId)
+  } catch (error) {
+    console.error("Fetch certificate eligibility error:", error)
+    return null
+  }
+}
+
 /**
  * Fetch all certificates for the authenticated student
  */
@@ -114,52 +123,84 @@ export async function fetchMyCertificates(): Promise<StudentCertificate[]> {
     const currentUser = await getCurrentUser()
     if (!currentUser) return []
 
-    const enrollments = await Enrollment.find({
-      user: currentUser.id,
-      status: "completed",
-      completedAt: { $ne: null },
-    })
+    // Issue certificates for courses completed before certificates were
+    // stored (or completed without visiting the certificate page)
+    const [completed, issued] = await Promise.all([
+      Enrollment.find({ user: currentUser.id, status: "completed" }).select("course").lean(),
+      Certificate.find({ user: currentUser.id }).select("course").lean(),
+    ])
+    const issuedCourseIds = new Set(issued.map((c) => c.course.toString()))
+    for (const enrollment of completed) {
+      const courseId = enrollment.course.toString()
+      if (!issuedCourseIds.has(courseId)) {
+        await issueCertificate(currentUser.id, courseId)
+      }
+    }
+
+    const certificates = await Certificate.find({ user: currentUser.id, revokedAt: null })
       .populate({
         path: "course",
-        select: "title thumbnailUrl instructor",
+        select: "thumbnailUrl instructor",
         populate: {
           path: "instructor",
-          select: "firstName lastName avatarUrl",
+          select: "avatarUrl",
         },
       })
-      .sort({ completedAt: -1 })
+      .sort({ issuedAt: -1 })
       .lean()
 
-    return enrollments
-      .filter((e) => e.course)
-      .map((enrollment) => {
-        const course = enrollment.course as unknown as {
-          _id: { toString(): string }
-          title: string
-          thumbnailUrl: string | null
-          instructor: {
-            firstName: string
-            lastName: string
-            avatarUrl: string | null
-          }
-        }
+    return certificates.map((certificate) => {
+      const course = certificate.course as unknown as {
+        thumbnailUrl: string | null
+        instructor: { avatarUrl: string | null } | null
+      } | null
 
-        return {
-          id: enrollment._id.toString(),
-          courseId: course._id.toString(),
-          courseTitle: course.title,
-          courseThumbnail: course.thumbnailUrl,
-          instructorName: `${course.instructor.firstName} ${course.instructor.lastName}`,
-          instructorAvatarUrl: course.instructor.avatarUrl,
-          completedAt: enrollment.completedAt!.toISOString(),
-        }
-      })
+      return {
+        id: certificate._id.toString(),
+        serialNumber: certificate.serialNumber,
+        courseId: certificate.course?._id.toString() ?? "",
+        courseTitle: certificate.courseTitle,
+        courseThumbnail: course?.thumbnailUrl ?? null,
+        instructorName: certificate.instructorName,
+        instructorAvatarUrl: course?.instructor?.avatarUrl ?? null,
+        completedAt: certificate.issuedAt.toISOString(),
+      }
+    })
   } catch (error) {
     console.error("Fetch my certificates error:", error)
     return []
   }
 }
 
+// ============================================================================
+// PUBLIC ACTIONS
+// ============================================================================
+
+/**
+ * Look up a certificate for the public verify page. No sign-in needed.
+ */
+export async function verifyCertificate(
+  certificateId: string
+): Promise<CertificateVerification | null> {
+  try {
+    const certificate = await findCertificate(certificateId)
+    if (!certificate) return null
+
+    return {
+      serialNumber: certificate.serialNumber,
+      studentName: certificate.studentName,
+      courseId: certificate.course.toString(),
+      courseTitle: certificate.courseTitle,
+      instructorName: certificate.instructorName,
+      issuedAt: certificate.issuedAt.toISOString(),
+      revoked: !!certificate.revokedAt,
+    }
+  } catch (error) {
+    console.error("Verify certificate error:", error)
+    return null
+  }
+}
+
 // ============================================================================
 // INSTRUCTOR ACTIONS
 // ============================================================================
@@ -185,10 +226,9 @@ export async function fetchInstructorCertificateStats(): Promise<InstructorCerti
     // Get certificate counts for each course
     const results = await Promise.all(
       courses.map(async (course) => {
-        const certCount = await Enrollment.countDocuments({
+        const certCount = await Certificate.countDocuments({
           course: course._id,
-          status: "completed",
-          completedAt: { $ne: null },
+          revokedAt: null,
         })
 
         return {
@@ -228,36 +268,33 @@ export async function fetchCourseCertificates(
 
     if (!course) return { courseTitle: "", certificates: [] }
 
-    // Get all completed enrollments for this course
-    const enrollments = await Enrollment.find({
-      course: courseId,
-      status: "completed",
-      completedAt: { $ne: null },
-    })
+    // Get all certificates issued for this course
+    const issued = await Certificate.find({ course: courseId, revokedAt: null })
       .populate("user", "firstName lastName email avatarUrl signatureUrl")
-      .sort({ completedAt: -1 })
+      .sort({ issuedAt: -1 })
       .lean()
 
-    const certificates = enrollments.map((enrollment) => {
-      const student = enrollment.user as unknown as {
-        _id: { toString(): string }
-        firstName: string
-        lastName: string
-        email: string
-        avatarUrl: string | null
-        signatureUrl: string | null
-      }
+    const certificates = issued
+      .filter((certificate) => certificate.user)
+      .map((certificate) => {
+        const student = certificate.user as unknown as {
+          _id: { toString(): string }
+          email: string
+          avatarUrl: string | null
+          signatureUrl: string | null
+        }
 
-      return {
-        id: enrollment._id.toString(),
-        studentId: student._id.toString(),
-        studentName: `${student.firstName} ${student.lastName}`,
-        studentEmail: student.email,
-        studentAvatarUrl: student.avatarUrl,
-        completedAt: enrollment.completedAt!.toISOString(),
-        hasStudentSigned: !!student.signatureUrl,
-      }
-    })
+        return {
+          id: certificate._id.toString(),
+          serialNumber: certificate.serialNumber,
+          studentId: student._id.toString(),
+          studentName: certificate.studentName,
+          studentEmail: student.email,
+          studentAvatarUrl: student.avatarUrl,
+          completedAt: certificate.issuedAt.toISOString(),
+          hasStudentSigned: !!student.signatureUrl,
+        }
+      })
 
     return {
       courseTitle: course.title,
@@ -0,0 +1,303 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import mongoose from "mongoose"
+import connectDB from "@/lib/db"
+import {
+  Course,
+  Coupon,
+  CouponRedemption,
+  CouponUse,
+  type CouponDiscountType,
+} from "@/lib/db/models"
+import { getCurrentUser } from "@/lib/auth"
+import { normalizeCouponCode, quoteCoupon, type CouponQuote } from "@/lib/payments"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CouponItem = {
+  id: string
+  code: string
+  courseId: string | null
+  /** null = all of the instructor's courses */
+  courseTitle: string | null
+  discountType: CouponDiscountType
+  discountValue: number
+  expiresAt: string | null
+  isExpired: boolean
+  maxRedemptions: number | null
+  maxRedemptionsPerUser: number
+  redemptionCount: number
+  isActive: boolean
+  createdAt: string
+}
+
+export type CouponInput = {
+  code: string
+  courseId: string | null
+  discountType: CouponDiscountType
+  discountValue: number
+  expiresAt: string | null
+  maxRedemptions: number | null
+  maxRedemptionsPerUser: number
+}
+
+export type CouponRedemptionStats = {
+  couponId: string
+  code: string
+  courseTitle: string | null
+  isActive: boolean
+  redemptions: number
+  totalDiscount: number
+  revenue: number
+  lastRedeemedAt: string | null
+}
+
+// ============================================================================
+// CHECKOUT
+// ============================================================================
+
+/**
+ * Check a coupon code against a course and return the discounted price
+ */
+export async function applyCouponCode(
+  courseId: string,
+  code: string
+): Promise<{ success: true; data: CouponQuote } | { success: false; error: string }> {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return { success: false, error: "Not authenticated" }
+
+    const course = await Course.findOne({ _id: courseId, status: "published" })
+    if (!course || course.pricing === "free" || course.price <= 0) {
+      return { success: false, error: "Coupons can only be used on paid courses" }
+    }
+
+    const result = await quoteCoupon({ code, userId: currentUser.id, course })
+    if (!result.success) return result
+
+    return { success: true, data: result.quote }
+  } catch (error) {
+    console.error("Apply coupon error:", error)
+    return { success: false, error: "Failed to apply coupon" }
+  }
+}
+
+// ============================================================================
+// INSTRUCTOR ACTIONS
+// ============================================================================
+
+/**
+ * List the current instructor's coupons
+ */
+export async function getInstructorCoupons(): Promise<CouponItem[]> {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return []
+
+    const coupons = await Coupon.find({ instructor: currentUser.id })
+      .populate("course", "title")
+      .sort({ createdAt: -1 })
+      .lean()
+
+    return coupons.map((c) => {
+      const course = c.course as unknown as { _id: { toString(): string }; title: string } | null
+      return {
+        id: c._id.toString(),
+        code: c.code,
+        courseId: course?._id.toString() ?? null,
+        courseTitle: course?.title ?? null,
+        discountType: c.discountType,
+        discountValue: c.discountValue,
+        expiresAt: c.expiresAt?.toISOString() || null,
+        isExpired: !!c.expiresAt && c.expiresAt.getTime() < Date.now(),
+        maxRedemptions: c.maxRedemptions,
+        maxRedemptionsPerUser: c.maxRedemptionsPerUser,
+        redemptionCount: c.redemptionCount,
+        isActive: c.isActive,
+        createdAt: c.createdAt.toISOString(),
+      }
+    })
+  } catch (error) {
+    console.error("Get instructor coupons error:", error)
+    return []
+  }
+}
+
+/**
+ * Create a coupon for one of the instructor's courses, or all of them
+ */
+export async function createCoupon(input: CouponInput) {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return { success: false, error: "Not authenticated" }
+    if (!["INSTRUCTOR", "ADMIN"].includes(currentUser.role)) {
+      return { success: false, error: "Unauthorized" }
+    }
+
+    const code = normalizeCouponCode(input.code)
+    if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+      return { success: false, error: "Codes must be 3-32 letters, numbers, dashes or underscores" }
+    }
+
+    if (input.discountType === "percent") {
+      if (!(input.discountValue > 0 && input.discountValue <= 100)) {
+        return { success: false, error: "Percentage discounts must be between 1 and 100" }
+      }
+    } else if (!(input.discountValue > 0)) {
+      return { success: false, error: "Discount amount must be greater than zero" }
+    }
+
+    if (input.maxRedemptions !== null && !(input.maxRedemptions >= 1)) {
+      return { success: false, error: "Usage limit must be at least 1" }
+    }
+    if (!(input.maxRedemptionsPerUser >= 1)) {
+      return { success: false, error: "Per-student limit must be at least 1" }
+    }
+
+    const expiresAt = input.expiresAt ? new Date(input.expiresAt) : null
+    if (expiresAt && (isNaN(expiresAt.getTime()) || expiresAt.getTime() < Date.now())) {
+      return { success: false, error: "Expiry date must be in the future" }
+    }
+
+    if (input.courseId) {
+      const course = await Course.findOne({ _id: input.courseId, instructor: currentUser.id })
+      if (!course) return { success: false, error: "Course not found" }
+    }
+
+    const existing = await Coupon.exists({ code })
+    if (existing) return { success: false, error: "That code is already taken" }
+
+    const coupon = await Coupon.create({
+      code,
+      instructor: currentUser.id,
+      course: input.courseId || null,
+      discountType: input.discountType,
+      discountValue: input.discountValue,
+      expiresAt,
+      maxRedemptions: input.maxRedemptions,
+      maxRedemptionsPerUser: Math.floor(input.maxRedemptionsPerUser),
+    })
+
+    revalidatePath("/instructor/coupons")
+
+    return { success: true, data: { couponId: coupon._id.toString() } }
+  } catch (error) {
+    console.error("Create coupon error:", error)
+    return { success: false, error: "Failed to create coupon" }
+  }
+}
+
+/**
+ * Turn a coupon on or off without losing its redemption history
+ */
+export async function setCouponActive(couponId: string, isActive: boolean) {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return { success: false, error: "Not authenticated" }
+
+    const coupon = await Coupon.findOneAndUpdate(
+      { _id: couponId, instructor: currentUser.id },
+      { isActive }
+    )
+    if (!coupon) return { success: false, error: "Coupon not found" }
+
+    revalidatePath("/instructor/coupons")
+
+    return { success: true }
+  } catch (error) {
+    console.error("Set coupon active error:", error)
+    return { success: false, error: "Failed to update coupon" }
+  }
+}
+
+/**
+ * Delete a coupon. Coupons that have been redeemed are kept for the
+ * analytics history and can only be deactivated.
+ */
+export async function deleteCoupon(couponId: string) {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return { success: false, error: "Not authenticated" }
+
+    const coupon = await Coupon.findOne({ _id: couponId, instructor: currentUser.id })
+    if (!coupon) return { success: false, error: "Coupon not found" }
+
+    const redeemed = await CouponRedemption.exists({ coupon: coupon._id })
+    if (redeemed) {
+      return { success: false, error: "This coupon has been used — deactivate it instead" }
+    }
+
+    await coupon.deleteOne()
+    await CouponUse.deleteMany({ coupon: coupon._id })
+
+    revalidatePath("/instructor/coupons")
+
+    return { success: true }
+  } catch (error) {
+    console.error("Delete coupon error:", error)
+    return { success: false, error: "Failed to delete coupon" }
+  }
+}
+
+/**
+ * Redemption totals for each of the current instructor's coupons
+ */
+export async function getCouponRedemptionStats(): Promise<CouponRedemptionStats[]> {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return []
+
+    const coupons = await Coupon.find({ instructor: currentUser.id })
+      .populate("course", "title")
+      .sort({ createdAt: -1 })
+      .lean()
+    if (coupons.length === 0) return []
+
+    const totals = await CouponRedemption.aggregate<{
+      _id: mongoose.Types.ObjectId
+      redemptions: number
+      totalDiscount: number
+      revenue: number
+      lastRedeemedAt: Date
+    }>([
+      { $match: { coupon: { $in: coupons.map((c) => c._id) } } },
+      {
+        $group: {
+          _id: "$coupon",
+          redemptions: { $sum: 1 },
+          totalDiscount: { $sum: "$discount" },
+          revenue: { $sum: "$amountPaid" },
+          lastRedeemedAt: { $max: "$createdAt" },
+        },
+      },
+    ])
+    const totalsMap = new Map(totals.map((t) => [t._id.toString(), t]))
+
+    return coupons.map((c) => {
+      const course = c.course as unknown as { title: string } | null
+      const t = totalsMap.get(c._id.toString())
+      return {
+        couponId: c._id.toString(),
+        code: c.code,
+        courseTitle: course?.title ?? null,
+        isActive: c.isActive,
+        redemptions: t?.redemptions ?? 0,
+        totalDiscount: t?.totalDiscount ?? 0,
+        revenue: t?.revenue ?? 0,
+        lastRedeemedAt: t?.lastRedeemedAt?.toISOString() || null,
+      }
+    })
+  } catch (error) {
+    console.error("Get coupon redemption stats error:", error)
+    return []
+  }
+}
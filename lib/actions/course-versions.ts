@@ -0,0 +1,318 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { Types } from "mongoose"
+import connectDB from "@/lib/db"
+import { Course, CourseVersion, Enrollment, Lesson } from "@/lib/db/models"
+import { getCurrentUser } from "@/lib/auth"
+import { notifyUsers } from "@/lib/notifications"
+import {
+  discardCourseDraft,
+  editsGoToDraft,
+  getCourseDraft,
+  getWorkingSnapshot,
+  publishCourseDraft,
+  restoreCourseVersion,
+} from "@/lib/course-versions"
+import type { PublicCourseLesson, PublicCourseSection } from "@/lib/actions/student"
+import type { CourseLevel, CoursePricing, CourseStatus } from "@/lib/types"
+import { z } from "zod/v4"
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const PublishSchema = z.object({
+  note: z.string().trim().max(300).optional(),
+})
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CourseVersionItem = {
+  id: string
+  version: number
+  note: string | null
+  publishedAt: string
+  publishedByName: string | null
+  totalLessons: number
+  isLive: boolean
+}
+
+export type CourseVersionState = {
+  /** Only published courses are edited through a draft */
+  usesDrafts: boolean
+  hasDraft: boolean
+  draftUpdatedAt: string | null
+  liveVersion: number | null
+  versions: CourseVersionItem[]
+}
+
+export type CourseDraftPreview = {
+  id: string
+  title: string
+  description: string
+  thumbnailUrl: string | null
+  level: CourseLevel
+  pricing: CoursePricing
+  price: number | null
+  category: string
+  status: CourseStatus
+  hasDraft: boolean
+  sections: PublicCourseSection[]
+  lessons: PublicCourseLesson[]
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * The course and signed-in user, if they're its instructor or an admin
+ */
+async function findManagedCourse(courseId: string) {
+  const currentUser = await getCurrentUser()
+  if (!currentUser || !Types.ObjectId.isValid(courseId)) return null
+
+  const course = await Course.findById(courseId)
+  if (!course) return null
+  if (course.instructor.toString() !== currentUser.id && currentUser.role !== "ADMIN") return null
+
+  return { course, user: currentUser }
+}
+
+function revalidateCoursePages(courseId: string) {
+  revalidatePath(`/instructor/courses/${courseId}`)
+  revalidatePath(`/instructor/courses/${courseId}/edit`)
+  revalidatePath(`/instructor/courses/${courseId}/lessons`)
+  revalidatePath(`/dashboard/courses/${courseId}`)
+  revalidatePath("/instructor/courses")
+}
+
+// ============================================================================
+// VERSION ACTIONS
+// ============================================================================
+
+/**
+ * Publish the draft as the course's next version
+ */
+export async function publishDraft(courseId: string, data: z.infer<typeof PublishSchema> = {}) {
+  try {
+    await connectDB()
+
+    const validated = PublishSchema.parse(data)
+
+    const managed = await findManagedCourse(courseId)
+    if (!managed) {
+      return { success: false, error: "Course not found or unauthorized" }
+    }
+    const { course, user } = managed
+
+    if (!editsGoToDraft(course)) {
+      return { success: false, error: "Only a published course has versions" }
+    }
+
+    const wasLive = new Set(
+      (await Lesson.find({ course: courseId, isPublished: true }).select("_id").lean()).map((l) =>
+        l._id.toString()
+      )
+    )
+
+    const result = await publishCourseDraft(courseId, user.id, validated.note || null)
+    if (result.error !== null) {
+      return { success: false, error: result.error }
+    }
+
+    // Let enrolled students know about lessons this version brings
+    const newLessons = await Lesson.find({ course: courseId, isPublished: true })
+      .select("title")
+      .sort({ order: 1 })
+      .lean()
+      .then((lessons) => lessons.filter((l) => !wasLive.has(l._id.toString())))
+
+    if (newLessons.length > 0) {
+      const enrollments = await Enrollment.find({
+        course: courseId,
+        status: { $in: ["active", "completed"] },
+      })
+        .select("user")
+        .lean()
+
+      await notifyUsers(
+        enrollments.map((e) => e.user.toString()),
+        {
+          type: "lesson_published",
+          title: newLessons.length === 1 ? "New lesson available" : "New lessons available",
+          message:
+            newLessons.length === 1
+              ? `${course.title} has a new lesson: '${newLessons[0].title}'`
+              : `${course.title} has ${newLessons.length} new lessons`,
+          href: `/dashboard/courses/${courseId}/learn/${newLessons[0]._id.toString()}`,
+          imageUrl: course.thumbnailUrl,
+        }
+      )
+    }
+
+    revalidateCoursePages(courseId)
+
+    return { success: true, data: { version: result.version } }
+  } catch (error) {
+    console.error("Publish draft error:", error)
+    if (error instanceof z.ZodError) {
+      return { success: false, error: "Invalid input data", details: error.issues }
+    }
+    return { success: false, error: "Failed to publish changes" }
+  }
+}
+
+/**
+ * Throw away the draft — the live course is untouched
+ */
+export async function discardDraft(courseId: string) {
+  try {
+    await connectDB()
+
+    const managed = await findManagedCourse(courseId)
+    if (!managed) {
+      return { success: false, error: "Course not found or unauthorized" }
+    }
+
+    await discardCourseDraft(courseId)
+
+    revalidateCoursePages(courseId)
+
+    return { success: true }
+  } catch (error) {
+    console.error("Discard draft error:", error)
+    return { success: false, error: "Failed to discard changes" }
+  }
+}
+
+/**
+ * Roll the live course back to an earlier version
+ */
+export async function restoreVersion(courseId: string, versionId: string) {
+  try {
+    await connectDB()
+
+    const managed = await findManagedCourse(courseId)
+    if (!managed) {
+      return { success: false, error: "Course not found or unauthorized" }
+    }
+
+    if (!editsGoToDraft(managed.course)) {
+      return { success: false, error: "Only a published course can be rolled back" }
+    }
+
+    const result = await restoreCourseVersion(courseId, versionId, managed.user.id)
+    if (result.error !== null) {
+      return { success: false, error: result.error }
+    }
+
+    revalidateCoursePages(courseId)
+
+    return { success: true, data: { version: result.version } }
+  } catch (error) {
+    console.error("Restore version error:", error)
+    return { success: false, error: "Failed to restore version" }
+  }
+}
+
+// ============================================================================
+// VERSION QUERIES
+// ============================================================================
+
+/**
+ * Draft state and version history for the course editor
+ */
+export async function getCourseVersionState(courseId: string): Promise<CourseVersionState | null> {
+  try {
+    await connectDB()
+
+    const managed = await findManagedCourse(courseId)
+    if (!managed) return null
+
+    const [draft, versions] = await Promise.all([
+      getCourseDraft(courseId),
+      CourseVersion.find({ course: courseId, status: "published" })
+        .sort({ version: -1 })
+        .select("version note publishedAt publishedBy snapshot.lessons.isPublished")
+        .populate("publishedBy", "firstName lastName")
+        .lean(),
+    ])
+
+    const liveVersion = versions[0]?.version ?? null
+
+    return {
+      usesDrafts: editsGoToDraft(managed.course),
+      hasDraft: draft !== null,
+      draftUpdatedAt: draft?.updatedAt.toISOString() ?? null,
+      liveVersion,
+      versions: versions.map((v) => {
+        const publisher = v.publishedBy as unknown as { firstName: string; lastName?: string } | null
+        return {
+          id: v._id.toString(),
+          version: v.version ?? 0,
+          note: v.note,
+          publishedAt: (v.publishedAt ?? v.createdAt).toISOString(),
+          publishedByName: publisher ? `${publisher.firstName} ${publisher.lastName || ""}`.trim() : null,
+          totalLessons: v.snapshot?.lessons?.filter((l) => l.isPublished).length ?? 0,
+          isLive: v.version === liveVersion,
+        }
+      }),
+    }
+  } catch (error) {
+    console.error("Get course version state error:", error)
+    return null
+  }
+}
+
+/**
+ * The course as students will see it once the draft is published
+ */
+export async function getCourseDraftPreview(courseId: string): Promise<CourseDraftPreview | null> {
+  try {
+    await connectDB()
+
+    const managed = await findManagedCourse(courseId)
+    if (!managed) return null
+    const { course } = managed
+
+    const [snapshot, draft] = await Promise.all([getWorkingSnapshot(courseId), getCourseDraft(courseId)])
+    if (!snapshot) return null
+
+    return {
+      id: course._id.toString(),
+      title: snapshot.details.title,
+      description: snapshot.details.description,
+      thumbnailUrl: snapshot.details.thumbnailUrl,
+      level: snapshot.details.level as CourseLevel,
+      pricing: snapshot.details.pricing as CoursePricing,
+      price: snapshot.details.price,
+      category: snapshot.details.category,
+      status: course.status as CourseStatus,
+      hasDraft: draft !== null,
+      sections: snapshot.sections.map((s) => ({
+        id: s._id.toString(),
+        title: s.title,
+        description: s.description || null,
+      })),
+      lessons: snapshot.lessons.map((l) => ({
+        id: l._id.toString(),
+        title: l.title,
+        description: l.description || null,
+        type: l.type as PublicCourseLesson["type"],
+        thumbnailUrl: l.videoThumbnailUrl || null,
+        videoUrl: l.videoUrl || null,
+        content: l.content || null,
+        duration: l.videoDuration ? Math.round(l.videoDuration / 60) : null,
+        isFree: l.isFree,
+        sectionId: l.section?.toString() ?? null,
+      })),
+    }
+  } catch (error) {
+    console.error("Get course draft preview error:", error)
+    return null
+  }
+}
@@ -2,8 +2,13 @@
 
 import { revalidatePath } from "next/cache"
 import connectDB from "@/lib/db"
-import { Course, ICourse, Lesson, User } from "@/lib/db/models"
+import { Course, CourseVersion, ICourse, Lesson, Section, User } from "@/lib/db/models"
 import { uploadThumbnail, deleteFromCloudinary } from "@/lib/cloudinary"
+import { resolveCourseStatus } from "@/lib/course-approval"
+import { editCourseDraft, editsGoToDraft } from "@/lib/course-versions"
+import { deletePackageFiles } from "@/lib/scorm"
+import { deleteVideoAssets } from "@/lib/video-transcode"
+import { deleteVideoCaptions } from "@/lib/captions"
 import { z } from "zod/v4"
 import { Types } from "mongoose"
 
@@ -142,6 +147,32 @@ export async function updateCourse(
       return { success: false, error: "Course not found or unauthorized" }
     }
 
+    // A live course's details change in its draft; the rest of its listing
+    // updates right away
+    if (editsGoToDraft(course)) {
+      const { title, description, level, pricing, price, category, ...listing } = validated
+      const details = Object.fromEntries(
+        Object.entries({ title, description, level, pricing, price, category }).filter(
+          ([, value]) => value !== undefined
+        )
+      )
+      const error = await editCourseDraft(courseId, instructorId, (draft) => {
+        Object.assign(draft.details, details)
+        if (pricing === "free") draft.details.price = 0
+      })
+      if (error) {
+        return { success: false, error }
+      }
+
+      Object.assign(course, listing)
+      await course.save()
+
+      revalidatePath(`/instructor/courses/${courseId}`)
+      revalidatePath(`/instructor/courses/${courseId}/edit`)
+
+      return { success: true, data: { id: course._id.toString() } }
+    }
+
     // Update course
     Object.assign(course, validated)
     if (validated.pricing === "free") {
@@ -179,6 +210,21 @@ export async function uploadCourseThumbnail(
       return { success: false, error: "Course not found or unauthorized" }
     }
 
+    // A live course gets the thumbnail in its draft; the old one stays live
+    if (editsGoToDraft(course)) {
+      const result = await uploadThumbnail(file)
+      const error = await editCourseDraft(courseId, instructorId, (draft) => {
+        draft.details.thumbnailUrl = result.url
+      })
+      if (error) {
+        return { success: false, error }
+      }
+
+      revalidatePath(`/instructor/courses/${courseId}`)
+
+      return { success: true, data: { url: result.url } }
+    }
+
     // Delete old thumbnail if exists
     if (course.thumbnailUrl) {
       // Extract public ID from URL and delete
@@ -232,16 +278,27 @@ export async function publishCourse(courseId: string, instructorId: string) {
       return { success: false, error: "Course must have at least one published lesson" }
     }
 
-    // Publish
-    course.status = "published"
-    course.publishedAt = new Date()
+    // First-time publishes wait for admin approval
+    const instructor = await User.findById(instructorId).select("role").lean()
+    const resolved = resolveCourseStatus(course, "published", {
+      id: instructorId,
+      role: instructor?.role ?? "USER",
+    })
+    if (resolved.error !== null) {
+      return { success: false, error: resolved.error }
+    }
+
+    course.status = resolved.status
+    course.approval = resolved.approval
+    course.publishedAt = resolved.publishedAt
     await course.save()
 
     revalidatePath(`/instructor/courses/${courseId}`)
     revalidatePath("/instructor/courses")
     revalidatePath("/dashboard/courses")
+    if (resolved.submittedForReview) revalidatePath("/admin/courses")
 
-    return { success: true }
+    return { success: true, data: { pendingApproval: resolved.status !== "published" } }
   } catch (error) {
     console.error("Publish course error:", error)
     return { success: false, error: "Failed to publish course" }
@@ -293,8 +350,17 @@ export async function deleteCourse(courseId: string, instructorId: string) {
 
     // If draft, delete completely
     if (course.status === "draft") {
-      // Delete all lessons
+      // Delete all lessons (and their unpacked packages, video streams and captions) and sections
+      const packageIds: string[] = await Lesson.distinct("scorm.packageId", { course: courseId })
+      for (const packageId of packageIds) {
+        await deletePackageFiles(packageId)
+      }
+      const videoUrls: string[] = await Lesson.distinct("videoUrl", { course: courseId })
+      await deleteVideoAssets(videoUrls)
+      await deleteVideoCaptions(videoUrls)
       await Lesson.deleteMany({ course: courseId })
+      await Section.deleteMany({ course: courseId })
+      await CourseVersion.deleteMany({ course: courseId })
       // Delete course
       await course.deleteOne()
       // Update instructor stats
@@ -1,8 +1,11 @@
 "use server"
 
-import { revalidatePath } from "next/cache"
 import connectDB from "@/lib/db"
-import { Course, Enrollment, User, Lesson } from "@/lib/db/models"
+import { Course, Enrollment, Lesson } from "@/lib/db/models"
+import { getCurrentUser } from "@/lib/auth"
+import { grantEnrollment } from "@/lib/payments"
+import { getLessonLockForUser } from "@/lib/lesson-access"
+import { recordLessonCompletion } from "@/lib/lesson-completion"
 import { Types } from "mongoose"
 
 // ============================================================================
@@ -33,14 +36,11 @@ export type EnrollmentProgress = {
 // ============================================================================
 
 /**
- * Enroll user in a course (purchase)
+ * Enroll user in a free course.
+ * Paid courses go through startCheckout — the enrollment is only created
+ * once the payment webhook confirms the order.
  */
-export async function enrollInCourse(
-  userId: string,
-  courseId: string,
-  pricePaid: number,
-  transactionId?: string
-) {
+export async function enrollInCourse(userId: string, courseId: string) {
   try {
     await connectDB()
 
@@ -48,6 +48,7 @@ export async function enrollInCourse(
     const existing = await Enrollment.findOne({
       user: userId,
       course: courseId,
+      status: { $ne: "refunded" },
     })
 
     if (existing) {
@@ -64,30 +65,11 @@ export async function enrollInCourse(
       return { success: false, error: "Course not found or not available" }
     }
 
-    // Create enrollment
-    const enrollment = await Enrollment.create({
-      user: userId,
-      course: courseId,
-      pricePaid,
-      transactionId,
-      purchasedAt: new Date(),
-    })
-
-    // Update course enrolled count
-    await Course.findByIdAndUpdate(courseId, {
-      $inc: { enrolledCount: 1 },
-    })
-
-    // Update instructor stats
-    await User.findByIdAndUpdate(course.instructor, {
-      $inc: {
-        "instructorProfile.totalStudents": 1,
-        "instructorProfile.totalEarnings": pricePaid,
-      },
-    })
+    if (course.pricing === "paid" && course.price > 0) {
+      return { success: false, error: "This course must be purchased at checkout" }
+    }
 
-    revalidatePath("/dashboard/my-courses")
-    revalidatePath(`/courses/${courseId}`)
+    const { enrollment } = await grantEnrollment({ userId, courseId, pricePaid: 0 })
 
     return {
       success: true,
@@ -100,66 +82,20 @@ export async function enrollInCourse(
 }
 
 /**
- * Mark a lesson as completed
+ * Mark a lesson as completed for the current user.
+ * Lessons still held back by drip or prerequisite rules can't be completed.
  */
-export async function completeLesson(
-  userId: string,
-  courseId: string,
-  lessonId: string
-) {
+export async function completeLesson(courseId: string, lessonId: string) {
   try {
     await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return { success: false, error: "Not authenticated" }
 
-    const enrollment = await Enrollment.findOne({
-      user: userId,
-      course: courseId,
-      status: { $in: ["active", "completed"] },
-    })
-
-    if (!enrollment) {
-      return { success: false, error: "Not enrolled in this course" }
+    if (await getLessonLockForUser(currentUser, lessonId)) {
+      return { success: false, error: "This lesson isn't available yet" }
     }
 
-    // Add lesson to completed if not already
-    const lessonObjectId = new Types.ObjectId(lessonId)
-    const lessonIdStr = lessonObjectId.toString()
-    const completedIds = enrollment.completedLessons.map((id: Types.ObjectId) => id.toString())
-    
-    if (!completedIds.includes(lessonIdStr)) {
-      enrollment.completedLessons.push(lessonObjectId)
-    }
-
-    enrollment.lastAccessedLesson = lessonObjectId
-    enrollment.lastAccessedAt = new Date()
-
-    // Calculate progress
-    const totalLessons = await Lesson.countDocuments({
-      course: courseId,
-      isPublished: true,
-    })
-
-    enrollment.progress = Math.round(
-      (enrollment.completedLessons.length / totalLessons) * 100
-    )
-
-    // Check if course is completed
-    if (enrollment.progress >= 100) {
-      enrollment.status = "completed"
-      enrollment.completedAt = new Date()
-    }
-
-    await enrollment.save()
-
-    revalidatePath(`/courses/${courseId}/learn/${lessonId}`)
-    revalidatePath("/dashboard/my-courses")
-
-    return {
-      success: true,
-      data: {
-        progress: enrollment.progress,
-        isCompleted: enrollment.status === "completed",
-      },
-    }
+    return await recordLessonCompletion(currentUser.id, courseId, lessonId)
   } catch (error) {
     console.error("Complete lesson error:", error)
     return { success: false, error: "Failed to update progress" }
@@ -305,6 +241,11 @@ export async function checkEnrollment(
       return { isEnrolled: false }
     }
 
+    // Refunded enrollments keep their record but lose access
+    if (enrollment.status === "refunded") {
+      return { isEnrolled: false, status: enrollment.status }
+    }
+
     return {
       isEnrolled: true,
       status: enrollment.status,
@@ -0,0 +1,304 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import connectDB from "@/lib/db"
+import { InstructorApplication, User, type InstructorApplicationStatus } from "@/lib/db/models"
+import { getCurrentUser } from "@/lib/auth"
+import { R2_PUBLIC_URL } from "@/lib/r2"
+import { sendInstructorApplicationEmail } from "@/lib/email"
+import { getAppUrl } from "@/lib/notification-preferences"
+import { z } from "zod/v4"
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+// Bump when the instructor terms change so we know what each applicant agreed to
+const INSTRUCTOR_TERMS_VERSION = "2026-10"
+
+const optionalUrl = z
+  .string()
+  .trim()
+  .max(200)
+  .refine((v) => v === "" || /^https?:\/\/\S+$/i.test(v), "Enter a full link starting with https://")
+
+const ApplicationSchema = z.object({
+  headline: z.string().trim().min(10, "Headline must be at least 10 characters").max(120),
+  expertise: z
+    .array(z.string().trim().min(2).max(40))
+    .min(1, "Add at least one area of expertise")
+    .max(10, "Add at most 10 areas of expertise"),
+  socialLinks: z.object({
+    twitter: optionalUrl,
+    linkedin: optionalUrl,
+    website: optionalUrl,
+  }),
+  sampleVideoUrl: z.string().trim().min(1, "Upload a short sample video"),
+  agreedToTerms: z.literal(true, "You must agree to the instructor terms"),
+})
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type InstructorApplicationInput = Omit<z.input<typeof ApplicationSchema>, "agreedToTerms"> & {
+  agreedToTerms: boolean
+}
+
+export type InstructorApplicationItem = {
+  id: string
+  applicantId: string
+  applicantName: string
+  applicantEmail: string
+  applicantAvatarUrl: string | null
+  headline: string
+  expertise: string[]
+  socialLinks: { twitter: string | null; linkedin: string | null; website: string | null }
+  sampleVideoUrl: string
+  termsVersion: string
+  status: InstructorApplicationStatus
+  reviewNote: string | null
+  reviewedAt: string | null
+  createdAt: string
+}
+
+export type MyInstructorApplication = {
+  /** The user is already an instructor (or admin) */
+  isInstructor: boolean
+  /** Latest application, if they've ever applied */
+  application: InstructorApplicationItem | null
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+type ApplicationDoc = {
+  _id: { toString(): string }
+  user: unknown
+  headline: string
+  expertise: string[]
+  socialLinks?: { twitter?: string; linkedin?: string; website?: string }
+  sampleVideoUrl: string
+  termsVersion: string
+  status: InstructorApplicationStatus
+  reviewNote: string | null
+  reviewedAt: Date | null
+  createdAt: Date
+}
+
+function toApplicationItem(a: ApplicationDoc): InstructorApplicationItem {
+  const user = a.user as {
+    _id: { toString(): string }
+    firstName: string
+    lastName: string
+    email: string
+    avatarUrl: string | null
+  }
+
+  return {
+    id: a._id.toString(),
+    applicantId: user._id.toString(),
+    applicantName: `${user.firstName} ${user.lastName}`.trim(),
+    applicantEmail: user.email,
+    applicantAvatarUrl: user.avatarUrl,
+    headline: a.headline,
+    expertise: a.expertise,
+    socialLinks: {
+      twitter: a.socialLinks?.twitter || null,
+      linkedin: a.socialLinks?.linkedin || null,
+      website: a.socialLinks?.website || null,
+    },
+    sampleVideoUrl: a.sampleVideoUrl,
+    termsVersion: a.termsVersion,
+    status: a.status,
+    reviewNote: a.reviewNote,
+    reviewedAt: a.reviewedAt?.toISOString() || null,
+    createdAt: a.createdAt.toISOString(),
+  }
+}
+
+// ============================================================================
+// APPLICANT ACTIONS
+// ============================================================================
+
+/**
+ * The current user's latest application to teach
+ */
+export async function getMyInstructorApplication(): Promise<MyInstructorApplication | null> {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return null
+
+    const application = await InstructorApplication.findOne({ user: currentUser.id })
+      .populate("user", "firstName lastName email avatarUrl")
+      .sort({ createdAt: -1 })
+      .lean()
+
+    return {
+      isInstructor: currentUser.role !== "USER",
+      application: application ? toApplicationItem(application) : null,
+    }
+  } catch (error) {
+    console.error("Get my instructor application error:", error)
+    return null
+  }
+}
+
+/**
+ * Apply to become an instructor
+ */
+export async function submitInstructorApplication(input: InstructorApplicationInput) {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return { success: false, error: "Not authenticated" }
+
+    if (currentUser.role !== "USER") {
+      return { success: false, error: "You already have instructor access" }
+    }
+
+    const parsed = ApplicationSchema.safeParse(input)
+    if (!parsed.success) {
+      return { success: false, error: parsed.error.issues[0]?.message || "Invalid application" }
+    }
+    const data = parsed.data
+
+    // The sample must be one of our own uploads, not an arbitrary link
+    if (!data.sampleVideoUrl.startsWith(`${R2_PUBLIC_URL}/`)) {
+      return { success: false, error: "Upload your sample video using the uploader" }
+    }
+
+    const pending = await InstructorApplication.exists({ user: currentUser.id, status: "pending" })
+    if (pending) return { success: false, error: "You already have an application under review" }
+
+    const application = await InstructorApplication.create({
+      user: currentUser.id,
+      headline: data.headline,
+      expertise: [...new Set(data.expertise)],
+      socialLinks: {
+        twitter: data.socialLinks.twitter || undefined,
+        linkedin: data.socialLinks.linkedin || undefined,
+        website: data.socialLinks.website || undefined,
+      },
+      sampleVideoUrl: data.sampleVideoUrl,
+      termsVersion: INSTRUCTOR_TERMS_VERSION,
+      termsAcceptedAt: new Date(),
+    })
+
+    revalidatePath("/dashboard/teach")
+    revalidatePath("/admin/applications")
+
+    return { success: true, data: { applicationId: application._id.toString() } }
+  } catch (error) {
+    console.error("Submit instructor application error:", error)
+    return { success: false, error: "Failed to submit application" }
+  }
+}
+
+// ============================================================================
+// ADMIN ACTIONS
+// ============================================================================
+
+/**
+ * Instructor applications for the admin review queue
+ */
+export async function getInstructorApplications(
+  status: InstructorApplicationStatus | "all" = "pending"
+): Promise<InstructorApplicationItem[]> {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser || currentUser.role !== "ADMIN") return []
+
+    const query: Record<string, unknown> = {}
+    if (status !== "all") query.status = status
+
+    const applications = await InstructorApplication.find(query)
+      .populate("user", "firstName lastName email avatarUrl")
+      .sort(status === "pending" ? { createdAt: 1 } : { createdAt: -1 })
+      .limit(200)
+      .lean()
+
+    // Skip applications whose user has since been deleted
+    return applications.filter((a) => a.user).map(toApplicationItem)
+  } catch (error) {
+    console.error("Get instructor applications error:", error)
+    return []
+  }
+}
+
+/**
+ * Approve or decline an application. Approval makes the applicant an
+ * instructor and fills in their instructor profile; either way they're
+ * emailed the decision.
+ */
+export async function reviewInstructorApplication(
+  applicationId: string,
+  decision: "approve" | "reject",
+  note?: string
+) {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return { success: false, error: "Unauthorized" }
+    }
+
+    const reviewNote = note?.trim() || null
+    if (decision === "reject" && !reviewNote) {
+      return { success: false, error: "Let the applicant know why" }
+    }
+
+    // Atomic pending → decided transition so two admins can't both act
+    const application = await InstructorApplication.findOneAndUpdate(
+      { _id: applicationId, status: "pending" },
+      {
+        status: decision === "approve" ? "approved" : "rejected",
+        reviewedBy: currentUser.id,
+        reviewedAt: new Date(),
+        reviewNote,
+      },
+      { new: true }
+    )
+    if (!application) return { success: false, error: "This application has already been reviewed" }
+
+    const applicant = await User.findById(application.user)
+    if (!applicant) return { success: false, error: "Applicant not found" }
+
+    if (decision === "approve") {
+      // Individual paths so existing totals (if any) survive
+      await User.updateOne(
+        { _id: applicant._id },
+        {
+          ...(applicant.role === "USER" ? { role: "INSTRUCTOR" } : {}),
+          "instructorProfile.headline": application.headline,
+          "instructorProfile.expertise": application.expertise,
+          "instructorProfile.socialLinks": application.socialLinks ?? {},
+          "instructorProfile.totalStudents": applicant.instructorProfile?.totalStudents ?? 0,
+          "instructorProfile.totalCourses": applicant.instructorProfile?.totalCourses ?? 0,
+          "instructorProfile.totalEarnings": applicant.instructorProfile?.totalEarnings ?? 0,
+        }
+      )
+    }
+
+    const result = await sendInstructorApplicationEmail(applicant.email, {
+      applicantName: applicant.firstName,
+      approved: decision === "approve",
+      note: reviewNote,
+      actionUrl: `${getAppUrl()}${decision === "approve" ? "/instructor" : "/dashboard/teach"}`,
+    })
+    if (!result.success) {
+      console.error("Instructor application email error:", result.error)
+    }
+
+    revalidatePath("/admin/applications")
+    revalidatePath("/dashboard/teach")
+
+    return { success: true }
+  } catch (error) {
+    console.error("Review instructor application error:", error)
+    return { success: false, error: "Failed to review application" }
+  }
+}
@@ -2,11 +2,38 @@
 
 import { revalidatePath } from "next/cache"
 import { redirect } from "next/navigation"
+import { Types } from "mongoose"
 import connectDB from "@/lib/db"
-import { Course, Lesson, User, ICourse } from "@/lib/db/models"
+import {
+  Course,
+  CourseVersion,
+  Lesson,
+  Section,
+  User,
+  type CourseApprovalStatus,
+  type LessonSnapshot,
+} from "@/lib/db/models"
 import { uploadThumbnail, deleteFromCloudinary } from "@/lib/cloudinary"
-import type { CourseLevel, CoursePricing, CourseStatus, CourseCategory } from "@/lib/types"
+import type { CourseLevel, CoursePricing, CourseStatus, CourseCategory, LessonRelease } from "@/lib/types"
 import { getCurrentUser } from "@/lib/auth"
+import { generateCourseSlug } from "@/lib/utils"
+import { parseQuizInput, toLessonQuiz } from "@/lib/quiz"
+import { parseAssignmentInput, toLessonAssignment } from "@/lib/assignments"
+import { deletePackageFiles, parseScormInput, toLessonScorm } from "@/lib/scorm"
+import { deleteVideoAssets, queueVideoTranscodes } from "@/lib/video-transcode"
+import { deleteVideoCaptions } from "@/lib/captions"
+import { parseCertificateRules, toCertificateRules } from "@/lib/certificates"
+import { resolveCourseStatus } from "@/lib/course-approval"
+import { parseLessonRelease, toLessonRelease } from "@/lib/lesson-access"
+import { resequenceLessons, toCourseSection } from "@/lib/sections"
+import {
+  discardCourseDraft,
+  editCourseDraft,
+  editsGoToDraft,
+  getWorkingSnapshot,
+  newDraftLesson,
+  snapshotLiveCourse,
+} from "@/lib/course-versions"
 
 // ---- Types for form state ----
 export type CourseFormState = {
@@ -21,6 +48,9 @@ export type InstructorCourseItem = {
   title: string
   thumbnailUrl: string | null
   status: string
+  /** Admin review state — "pending" while a publish request waits for approval */
+  approvalStatus: CourseApprovalStatus
+  forceArchived: boolean
   level: string
   pricing: string
   price: number | null
@@ -32,16 +62,30 @@ export type InstructorCourseItem = {
 }
 
 
-// ---- Generate slug from title ----
-function generateSlug(title: string): string {
-  return title
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, "-")
-    .replace(/(^-|-$)+/g, "")
-    + "-" + Date.now().toString(36)
+// ---- Validate quizzes, assignments & packages in the editor's lessons JSON ----
+function validateLessonSettings(lessonsJson: string | null): string | null {
+  if (!lessonsJson) return null
+  try {
+    const lessons = JSON.parse(lessonsJson)
+    if (!Array.isArray(lessons)) return null
+    for (const [idx, l] of lessons.entries()) {
+      const error =
+        l?.type === "quiz"
+          ? parseQuizInput(l.quiz).error
+          : l?.type === "assignment"
+            ? parseAssignmentInput(l.assignment).error
+            : l?.type === "scorm"
+              ? parseScormInput(l.scorm).error
+              : null
+      if (error) return `Lesson ${idx + 1} (${l.title || "Untitled"}): ${error}`
+    }
+  } catch {
+    // Malformed JSON is reported when the lessons are saved
+  }
+  return null
 }
 
-// ---- Get authenticated user (any user can be instructor) ----
+// ---- Get authenticated instructor (students apply via /dashboard/teach) ----
 async function getAuthenticatedInstructor() {
   const authUser = await getCurrentUser()
   
@@ -49,8 +93,9 @@ async function getAuthenticatedInstructor() {
     throw new Error("Not authenticated")
   }
   
-  // Allow any authenticated user to be an instructor
-  // They can create and manage their own courses
+  if (authUser.role === "USER") {
+    throw new Error("Instructor access required")
+  }
   
   await connectDB()
   const instructor = await User.findById(authUser.id)
@@ -77,6 +122,8 @@ export async function fetchInstructorCourses(): Promise<InstructorCourseItem[]>
       title: course.title,
       thumbnailUrl: course.thumbnailUrl,
       status: course.status,
+      approvalStatus: course.approval?.status ?? "none",
+      forceArchived: course.forceArchived ?? false,
       level: course.level,
       pricing: course.pricing,
       price: course.price,
@@ -104,22 +151,26 @@ export async function fetchCourseForEdit(courseId: string) {
     }).lean()
     
     if (!course) return null
-    
-    const lessons = await Lesson.find({ course: courseId })
-      .sort({ order: 1 })
-      .lean()
+
+    // A published course is edited through its draft
+    const snapshot = editsGoToDraft(course)
+      ? await getWorkingSnapshot(courseId)
+      : await snapshotLiveCourse(courseId)
+    if (!snapshot) return null
+    const { details, lessons, sections } = snapshot
     
     return {
       course: {
         id: course._id.toString(),
-        title: course.title,
-        description: course.description,
-        thumbnailUrl: course.thumbnailUrl,
-        level: course.level as CourseLevel,
-        pricing: course.pricing as CoursePricing,
-        price: course.price,
+        title: details.title,
+        description: details.description,
+        thumbnailUrl: details.thumbnailUrl,
+        level: details.level as CourseLevel,
+        pricing: details.pricing as CoursePricing,
+        price: details.price,
         status: course.status as CourseStatus,
-        category: (course.category || "Cryptocurrency") as CourseCategory,
+        category: (details.category || "Cryptocurrency") as CourseCategory,
+        certificateRules: toCertificateRules(details.certificateRules),
       },
       lessons: lessons.map((l) => ({
         id: l._id.toString(),
@@ -131,7 +182,13 @@ export async function fetchCourseForEdit(courseId: string) {
         thumbnailUrl: l.videoThumbnailUrl || "",
         duration: l.videoDuration ?? null,
         isFree: l.isFree,
+        quiz: toLessonQuiz(l.quiz),
+        assignment: toLessonAssignment(l.assignment),
+        scorm: toLessonScorm(l.scorm),
+        release: toLessonRelease(l),
+        sectionId: l.section?.toString() ?? null,
       })),
+      sections: sections.map((s) => toCourseSection(s, courseId)),
     }
   } catch (error) {
     console.error("Fetch course for edit error:", error)
@@ -139,6 +196,93 @@ export async function fetchCourseForEdit(courseId: string) {
   }
 }
 
+// ---- Lessons from the course editor ----
+type EditorLessonInput = {
+  tempId?: string
+  title: string
+  description?: string
+  type?: string
+  thumbnailUrl?: string
+  videoUrl?: string
+  content?: string
+  duration?: string
+  isFree?: boolean
+  quiz?: unknown
+  assignment?: unknown
+  scorm?: unknown
+  release?: Partial<LessonRelease>
+}
+
+/**
+ * Give each editor lesson its database id — existing lessons keep theirs —
+ * and resolve each prerequisite (an editor id) to an earlier lesson's id.
+ */
+function resolveLessonRefs(lessons: EditorLessonInput[], existingIds = new Set<string>()) {
+  const ids = lessons.map((l) =>
+    l.tempId && existingIds.has(l.tempId) ? new Types.ObjectId(l.tempId) : new Types.ObjectId()
+  )
+  const indexByTempId = new Map(lessons.map((l, idx) => [l.tempId, idx]))
+  const prerequisites = lessons.map((l, idx) => {
+    const ref = l.release?.prerequisiteLessonId
+    const refIdx = ref ? indexByTempId.get(ref) : undefined
+    return refIdx !== undefined && refIdx < idx ? ids[refIdx] : null
+  })
+  return { ids, prerequisites }
+}
+
+// ---- What the course editor sets on each lesson ----
+function toEditorLessonFields(l: EditorLessonInput, order: number) {
+  return {
+    title: l.title,
+    description: l.description || null,
+    type: (l.type || "video") as LessonSnapshot["type"],
+    videoUrl: l.videoUrl || null,
+    videoThumbnailUrl: l.thumbnailUrl || null,
+    content: l.content || null,
+    quiz: l.type === "quiz" ? parseQuizInput(l.quiz).quiz : null,
+    assignment: l.type === "assignment" ? parseAssignmentInput(l.assignment).assignment : null,
+    scorm: l.type === "scorm" ? parseScormInput(l.scorm).scorm : null,
+    videoDuration: l.duration ? parseInt(l.duration) : null,
+    isFree: l.isFree || false,
+    order,
+    ...parseLessonRelease(l.release),
+  }
+}
+
+// ---- Parse the editor's lessons JSON (null = leave lessons alone) ----
+function parseEditorLessons(lessonsJson: string | null): EditorLessonInput[] | null {
+  if (!lessonsJson) return null
+  try {
+    const lessons = JSON.parse(lessonsJson)
+    return Array.isArray(lessons) ? lessons : null
+  } catch (err) {
+    console.error("Failed to parse lessons JSON:", err)
+    return null
+  }
+}
+
+// ---- Editor lessons as draft lessons, keeping what the editor doesn't show ----
+function toDraftLessons(lessons: EditorLessonInput[], current: LessonSnapshot[]): LessonSnapshot[] {
+  const currentById = new Map(current.map((l) => [l._id.toString(), l]))
+  const { ids, prerequisites } = resolveLessonRefs(lessons, new Set(currentById.keys()))
+
+  return lessons.map((l, idx) => {
+    const existing = currentById.get(ids[idx].toString())
+    return {
+      videoPublicId: null,
+      liveScheduledAt: null,
+      liveUrl: null,
+      section: null,
+      isPublished: true,
+      resources: [],
+      ...existing,
+      _id: ids[idx],
+      ...toEditorLessonFields(l, idx),
+      prerequisiteLesson: prerequisites[idx],
+    }
+  })
+}
+
 // ---- Create Course ----
 export async function createCourse(
   _prevState: CourseFormState,
@@ -153,6 +297,7 @@ export async function createCourse(
   const status = formData.get("status") as CourseStatus
   const category = formData.get("category") as string
   const lessonsJson = formData.get("lessons") as string
+  const certificateRules = parseCertificateRules(formData.get("certificateRules") as string | null)
 
   // Validate
   const fieldErrors: Record<string, string> = {}
@@ -169,6 +314,10 @@ export async function createCourse(
   if (pricing === "paid" && (!price || parseFloat(price) <= 0)) {
     fieldErrors.price = "Please enter a valid price"
   }
+  const lessonsError = validateLessonSettings(lessonsJson)
+  if (lessonsError) {
+    fieldErrors.lessons = lessonsError
+  }
 
   if (Object.keys(fieldErrors).length > 0) {
     return { success: false, error: null, fieldErrors }
@@ -177,19 +326,31 @@ export async function createCourse(
   try {
     await connectDB()
     const instructor = await getAuthenticatedInstructor()
+
+    // Publishing a new course queues it for admin approval
+    const resolved = resolveCourseStatus(null, status || "draft", {
+      id: instructor._id.toString(),
+      role: instructor.role,
+    })
+    if (resolved.error !== null) {
+      return { success: false, error: resolved.error, fieldErrors: {} }
+    }
     
     // Create the course
     const course = await Course.create({
       title,
-      slug: generateSlug(title),
+      slug: generateCourseSlug(title),
       description,
       thumbnailUrl: thumbnailUrl || null,
       instructor: instructor._id,
       level,
       pricing,
       price: pricing === "paid" ? parseFloat(price) : 0,
-      status: status || "draft",
+      status: resolved.status,
+      approval: resolved.approval,
+      publishedAt: resolved.publishedAt,
       category: category || "Cryptocurrency",
+      certificateRules,
     })
     
     // Create lessons if provided
@@ -198,21 +359,17 @@ export async function createCourse(
         const lessons = JSON.parse(lessonsJson)
         console.log("[Create Course] Parsed lessons:", lessons)
         if (Array.isArray(lessons) && lessons.length > 0) {
+          const { ids, prerequisites } = resolveLessonRefs(lessons)
           await Lesson.insertMany(
-            lessons.map((l: { title: string; description?: string; type?: string; thumbnailUrl?: string; videoUrl?: string; content?: string; duration?: string; isFree?: boolean }, idx: number) => ({
+            lessons.map((l: EditorLessonInput, idx: number) => ({
+              _id: ids[idx],
               course: course._id,
-              title: l.title,
-              description: l.description || null,
-              type: l.type || "video",
-              videoUrl: l.videoUrl || null,
-              videoThumbnailUrl: l.thumbnailUrl || null,
-              content: l.content || null,
-              videoDuration: l.duration ? parseInt(l.duration) : null,
-              isFree: l.isFree || false,
-              order: idx,
-              isPublished: status === "published",
+              ...toEditorLessonFields(l, idx),
+              isPublished: resolved.status === "published",
+              prerequisiteLesson: prerequisites[idx],
             }))
           )
+          await queueVideoTranscodes(lessons.map((l: EditorLessonInput) => l.videoUrl))
 
           // Calculate total duration in minutes
           const totalDurationSecs = lessons.reduce((sum: number, l: { duration?: string }) => sum + (l.duration ? parseInt(l.duration) : 0), 0)
@@ -239,6 +396,7 @@ export async function createCourse(
     })
 
     revalidatePath("/instructor/courses")
+    if (resolved.submittedForReview) revalidatePath("/admin/courses")
   } catch (error) {
     console.error("Create course error:", error)
     return { success: false, error: "Failed to create course", fieldErrors: {} }
@@ -262,6 +420,7 @@ export async function updateCourse(
   const status = formData.get("status") as CourseStatus
   const category = formData.get("category") as string
   const lessonsJson = formData.get("lessons") as string
+  const certificateRules = parseCertificateRules(formData.get("certificateRules") as string | null)
 
   const fieldErrors: Record<string, string> = {}
 
@@ -274,11 +433,16 @@ export async function updateCourse(
   if (pricing === "paid" && (!price || parseFloat(price) <= 0)) {
     fieldErrors.price = "Please enter a valid price"
   }
+  const lessonsError = validateLessonSettings(lessonsJson)
+  if (lessonsError) {
+    fieldErrors.lessons = lessonsError
+  }
 
   if (Object.keys(fieldErrors).length > 0) {
     return { success: false, error: null, fieldErrors }
   }
 
+  let redirectTo = "/instructor/courses"
   try {
     await connectDB()
     const instructor = await getAuthenticatedInstructor()
@@ -292,73 +456,117 @@ export async function updateCourse(
     if (!existingCourse) {
       return { success: false, error: "Course not found", fieldErrors: {} }
     }
-    
-    // Update course
-    await Course.findByIdAndUpdate(courseId, {
-      title,
-      description,
-      thumbnailUrl: thumbnailUrl || null,
-      level,
-      pricing,
-      price: pricing === "paid" ? parseFloat(price) : 0,
-      status,
-      category: category || existingCourse.category,
+
+    // Going live needs admin approval the first time
+    const resolved = resolveCourseStatus(existingCourse, status, {
+      id: instructor._id.toString(),
+      role: instructor.role,
     })
+    if (resolved.error !== null) {
+      return { success: false, error: resolved.error, fieldErrors: {} }
+    }
     
-    // Update lessons if provided
-    if (lessonsJson) {
-      try {
-        const lessons = JSON.parse(lessonsJson)
-        console.log("[Update Course] Parsed lessons:", lessons)
-        if (Array.isArray(lessons)) {
-          // Delete existing lessons and recreate (simple approach)
-          await Lesson.deleteMany({ course: courseId })
+    // A course that stays live keeps its changes in the draft until the
+    // instructor publishes them as a new version
+    if (editsGoToDraft(existingCourse) && resolved.status === "published") {
+      const draftError = await editCourseDraft(courseId, instructor._id.toString(), (draft) => {
+        draft.details = {
+          title,
+          description,
+          thumbnailUrl: thumbnailUrl || null,
+          level,
+          pricing,
+          price: pricing === "paid" ? parseFloat(price) : 0,
+          category: category || draft.details.category,
+          certificateRules,
+        }
+        const lessons = parseEditorLessons(lessonsJson)
+        if (lessons) draft.lessons = toDraftLessons(lessons, draft.lessons)
+      })
+      if (draftError) {
+        return { success: false, error: draftError, fieldErrors: {} }
+      }
+      await queueVideoTranscodes(parseEditorLessons(lessonsJson)?.map((l) => l.videoUrl) ?? [])
+      // Back to the editor, where the draft can be previewed and published
+      redirectTo = `/instructor/courses/${courseId}/edit`
+    } else {
+      // Update course
+      await Course.findByIdAndUpdate(courseId, {
+        title,
+        description,
+        thumbnailUrl: thumbnailUrl || null,
+        level,
+        pricing,
+        price: pricing === "paid" ? parseFloat(price) : 0,
+        status: resolved.status,
+        approval: resolved.approval,
+        publishedAt: resolved.publishedAt,
+        category: category || existingCourse.category,
+        certificateRules,
+      })
+    
+      // Update lessons if provided
+      if (lessonsJson) {
+        try {
+          const lessons = JSON.parse(lessonsJson)
+          console.log("[Update Course] Parsed lessons:", lessons)
+          if (Array.isArray(lessons)) {
+            // Delete existing lessons and recreate (simple approach). Existing
+            // lessons keep their ids and sections so progress, prerequisites
+            // and the curriculum still match.
+            const existing = await Lesson.find({ course: courseId }).select("section").lean()
+            const sectionByLesson = new Map(existing.map((l) => [l._id.toString(), l.section]))
+            const { ids, prerequisites } = resolveLessonRefs(lessons, new Set(sectionByLesson.keys()))
+            await Lesson.deleteMany({ course: courseId })
           
-          if (lessons.length > 0) {
-            await Lesson.insertMany(
-              lessons.map((l: { tempId?: string; title: string; description?: string; type?: string; thumbnailUrl?: string; videoUrl?: string; content?: string; duration?: string; isFree?: boolean }, idx: number) => ({
-                course: courseId,
-                title: l.title,
-                description: l.description || null,
-                type: l.type || "video",
-                videoUrl: l.videoUrl || null,
-                videoThumbnailUrl: l.thumbnailUrl || null,
-                content: l.content || null,
-                videoDuration: l.duration ? parseInt(l.duration) : null,
-                isFree: l.isFree || false,
-                order: idx,
-                isPublished: status === "published",
-              }))
-            )
-          }
-
-          // Calculate total duration in minutes
-          const totalDurationSecs = lessons.reduce((sum: number, l: { duration?: string }) => sum + (l.duration ? parseInt(l.duration) : 0), 0)
+            if (lessons.length > 0) {
+              await Lesson.insertMany(
+                lessons.map((l: EditorLessonInput, idx: number) => ({
+                  _id: ids[idx],
+                  course: courseId,
+                  ...toEditorLessonFields(l, idx),
+                  section: sectionByLesson.get(ids[idx].toString()) ?? null,
+                  isPublished: resolved.status === "published",
+                  prerequisiteLesson: prerequisites[idx],
+                }))
+              )
+              await resequenceLessons(courseId)
+              await queueVideoTranscodes(lessons.map((l: EditorLessonInput) => l.videoUrl))
+            }
+
+            // Calculate total duration in minutes
+            const totalDurationSecs = lessons.reduce((sum: number, l: { duration?: string }) => sum + (l.duration ? parseInt(l.duration) : 0), 0)
           
-          // Update course lesson count and duration
-          await Course.findByIdAndUpdate(courseId, {
-            totalLessons: lessons.length,
-            totalDuration: Math.ceil(totalDurationSecs / 60),
-          })
-        } else {
-          console.log("[Update Course] Lessons is not an array")
+            // Update course lesson count and duration
+            await Course.findByIdAndUpdate(courseId, {
+              totalLessons: lessons.length,
+              totalDuration: Math.ceil(totalDurationSecs / 60),
+            })
+          } else {
+            console.log("[Update Course] Lessons is not an array")
+          }
+        } catch (err) {
+          console.error("Failed to parse lessons JSON:", err)
+          console.error("Lessons JSON value:", lessonsJson)
         }
-      } catch (err) {
-        console.error("Failed to parse lessons JSON:", err)
-        console.error("Lessons JSON value:", lessonsJson)
+      } else {
+        console.log("[Update Course] No lessons JSON provided")
       }
-    } else {
-      console.log("[Update Course] No lessons JSON provided")
+
+      // The editor showed the draft, so what was saved replaces it
+      if (existingCourse.status === "published") await discardCourseDraft(courseId)
     }
 
     revalidatePath("/instructor/courses")
     revalidatePath(`/instructor/courses/${courseId}/edit`)
+    revalidatePath(`/instructor/courses/${courseId}/lessons`)
+    if (resolved.submittedForReview) revalidatePath("/admin/courses")
   } catch (error) {
     console.error("Update course error:", error)
     return { success: false, error: "Failed to update course", fieldErrors: {} }
   }
 
-  redirect("/instructor/courses")
+  redirect(redirectTo)
 }
 
 // ---- Delete Course ----
@@ -384,14 +592,31 @@ export async function deleteCourse(formData: FormData): Promise<void> {
       await deleteFromCloudinary(course.thumbnailPublicId, "image")
     }
     
-    // Delete all lessons (and their videos)
-    const lessons = await Lesson.find({ course: courseId })
-    for (const lesson of lessons) {
-      if (lesson.videoPublicId) {
-        await deleteFromCloudinary(lesson.videoPublicId, "video")
-      }
+    // Delete all lessons (and their videos and packages, including ones only older versions use)
+    const [lessons, versions] = await Promise.all([
+      Lesson.find({ course: courseId }).select("videoUrl videoPublicId scorm.packageId").lean(),
+      CourseVersion.find({ course: courseId })
+        .select("snapshot.lessons.videoUrl snapshot.lessons.videoPublicId snapshot.lessons.scorm.packageId")
+        .lean(),
+    ])
+    const allLessons = [...lessons, ...versions.flatMap((v) => v.snapshot?.lessons ?? [])]
+    const videoIds = new Set(
+      allLessons.map((l) => l.videoPublicId).filter((id): id is string => !!id)
+    )
+    for (const videoId of videoIds) {
+      await deleteFromCloudinary(videoId, "video")
     }
+    const packageIds = new Set(
+      allLessons.map((l) => l.scorm?.packageId).filter((id): id is string => !!id)
+    )
+    for (const packageId of packageIds) {
+      await deletePackageFiles(packageId)
+    }
+    await deleteVideoAssets(allLessons.map((l) => l.videoUrl))
+    await deleteVideoCaptions(allLessons.map((l) => l.videoUrl))
     await Lesson.deleteMany({ course: courseId })
+    await Section.deleteMany({ course: courseId })
+    await CourseVersion.deleteMany({ course: courseId })
     
     // Delete course
     await course.deleteOne()
@@ -422,6 +647,10 @@ export async function addLesson(
   const content = formData.get("content") as string
   const duration = formData.get("duration") as string
   const isFree = formData.get("isFree") === "true"
+  const quizJson = formData.get("quiz") as string
+  const assignmentJson = formData.get("assignment") as string
+  const scormJson = formData.get("scorm") as string
+  const sectionId = (formData.get("sectionId") as string) || null
 
   const fieldErrors: Record<string, string> = {}
 
@@ -432,6 +661,48 @@ export async function addLesson(
     fieldErrors.videoUrl = "Video URL is required for video lessons"
   }
 
+  let quiz: ReturnType<typeof parseQuizInput>["quiz"] = null
+  if (type === "quiz") {
+    let parsed: ReturnType<typeof parseQuizInput>
+    try {
+      parsed = parseQuizInput(quizJson ? JSON.parse(quizJson) : null)
+    } catch {
+      parsed = { quiz: null, error: "Invalid quiz data" }
+    }
+    if (parsed.error) {
+      fieldErrors.quiz = parsed.error
+    }
+    quiz = parsed.quiz
+  }
+
+  let assignment: ReturnType<typeof parseAssignmentInput>["assignment"] = null
+  if (type === "assignment") {
+    let parsed: ReturnType<typeof parseAssignmentInput>
+    try {
+      parsed = parseAssignmentInput(assignmentJson ? JSON.parse(assignmentJson) : null)
+    } catch {
+      parsed = { assignment: null, error: "Invalid assignment data" }
+    }
+    if (parsed.error) {
+      fieldErrors.assignment = parsed.error
+    }
+    assignment = parsed.assignment
+  }
+
+  let scorm: ReturnType<typeof parseScormInput>["scorm"] = null
+  if (type === "scorm") {
+    let parsed: ReturnType<typeof parseScormInput>
+    try {
+      parsed = parseScormInput(scormJson ? JSON.parse(scormJson) : null)
+    } catch {
+      parsed = { scorm: null, error: "Invalid package data" }
+    }
+    if (parsed.error) {
+      fieldErrors.scorm = parsed.error
+    }
+    scorm = parsed.scorm
+  }
+
   if (Object.keys(fieldErrors).length > 0) {
     return { success: false, error: null, fieldErrors }
   }
@@ -449,6 +720,42 @@ export async function addLesson(
     if (!course) {
       return { success: false, error: "Course not found", fieldErrors: {} }
     }
+
+    // A live course gets the lesson in its draft
+    if (editsGoToDraft(course)) {
+      const draftError = await editCourseDraft(courseId, instructor._id.toString(), (draft) => {
+        if (sectionId && !draft.sections.some((s) => s._id.toString() === sectionId)) {
+          return "Section not found"
+        }
+        draft.lessons.push(
+          newDraftLesson(draft, {
+            title,
+            description: description || null,
+            type: (type || "video") as LessonSnapshot["type"],
+            videoUrl: type === "video" ? videoUrl : null,
+            content: type === "assignment" ? content || null : null,
+            quiz,
+            assignment,
+            scorm,
+            videoDuration: duration ? parseInt(duration) * 60 : null,
+            isFree,
+            section: sectionId ? new Types.ObjectId(sectionId) : null,
+            isPublished: true,
+          })
+        )
+      })
+      if (draftError) {
+        return { success: false, error: draftError, fieldErrors: {} }
+      }
+      if (type === "video") await queueVideoTranscodes([videoUrl])
+
+      revalidatePath(`/instructor/courses/${courseId}/lessons`)
+      return { success: true, error: null, fieldErrors: {} }
+    }
+
+    if (sectionId && !(await Section.exists({ _id: sectionId, course: courseId }))) {
+      return { success: false, error: "Section not found", fieldErrors: {} }
+    }
     
     // Get next order
     const lastLesson = await Lesson.findOne({ course: courseId })
@@ -463,12 +770,18 @@ export async function addLesson(
       description: description || null,
       type: type || "video",
       videoUrl: type === "video" ? videoUrl : null,
-      content: null,
+      content: type === "assignment" ? content || null : null,
+      quiz,
+      assignment,
+      scorm,
       videoDuration: duration ? parseInt(duration) * 60 : null,
       isFree,
+      section: sectionId,
       order,
       isPublished: course.status === "published",
     })
+    if (sectionId) await resequenceLessons(courseId)
+    if (type === "video") await queueVideoTranscodes([videoUrl])
     
     // Update course lesson count
     const totalLessons = await Lesson.countDocuments({ course: courseId })
@@ -500,6 +813,16 @@ export async function deleteLesson(formData: FormData): Promise<void> {
     if (!course) {
       return // Just return without doing anything
     }
+
+    // A live course drops the lesson from its draft. Its video and package
+    // stay — the live version (and older ones) may still use them.
+    if (editsGoToDraft(course)) {
+      await editCourseDraft(courseId, instructor._id.toString(), (draft) => {
+        draft.lessons = draft.lessons.filter((l) => l._id.toString() !== lessonId)
+      })
+      revalidatePath(`/instructor/courses/${courseId}/lessons`)
+      return
+    }
     
     const lesson = await Lesson.findOne({
       _id: lessonId,
@@ -511,6 +834,9 @@ export async function deleteLesson(formData: FormData): Promise<void> {
       if (lesson.videoPublicId) {
         await deleteFromCloudinary(lesson.videoPublicId, "video")
       }
+      if (lesson.scorm) {
+        await deletePackageFiles(lesson.scorm.packageId)
+      }
       
       await lesson.deleteOne()
       
@@ -542,6 +868,21 @@ export async function uploadCourseThumbnail(
     if (!course) {
       return { success: false, error: "Course not found" }
     }
+
+    // A live course gets the thumbnail in its draft; the old one stays live
+    if (editsGoToDraft(course)) {
+      const result = await uploadThumbnail(file)
+      const draftError = await editCourseDraft(courseId, instructor._id.toString(), (draft) => {
+        draft.details.thumbnailUrl = result.url
+      })
+      if (draftError) {
+        return { success: false, error: draftError }
+      }
+
+      revalidatePath(`/instructor/courses/${courseId}/edit`)
+
+      return { success: true, url: result.url }
+    }
     
     // Delete old thumbnail if exists
     if (course.thumbnailPublicId) {
@@ -2,8 +2,32 @@
 
 import { revalidatePath } from "next/cache"
 import connectDB from "@/lib/db"
-import { Course, Lesson, ILesson } from "@/lib/db/models"
-import { uploadVideo, deleteFromCloudinary } from "@/lib/cloudinary"
+import { Types } from "mongoose"
+import { Course, Lesson, Enrollment, Section } from "@/lib/db/models"
+import { deleteFromCloudinary } from "@/lib/cloudinary"
+import { R2_PUBLIC_URL } from "@/lib/r2"
+import { deletePackageFiles } from "@/lib/scorm"
+import { queueVideoTranscodes } from "@/lib/video-transcode"
+import { notifyUsers } from "@/lib/notifications"
+import { getCurrentUser } from "@/lib/auth"
+import { MAX_RELEASE_AFTER_DAYS } from "@/lib/lesson-access"
+import {
+  applyCurriculumLayout,
+  resequenceLessons,
+  toCourseSection,
+  validateCurriculumLayout,
+  type CurriculumLayout,
+} from "@/lib/sections"
+import {
+  arrangeSnapshot,
+  checkSnapshotLayout,
+  editCourseDraft,
+  editsGoToDraft,
+  getWorkingSnapshot,
+  newDraftLesson,
+  newDraftSection,
+} from "@/lib/course-versions"
+import type { CourseSection } from "@/lib/types"
 import { z } from "zod/v4"
 
 // ============================================================================
@@ -15,13 +39,30 @@ const CreateLessonSchema = z.object({
   description: z.string().optional(),
   type: z.enum(["video", "live"]),
   content: z.string().optional(), // For text lessons
-  sectionTitle: z.string().optional(),
+  sectionId: z.string().nullable().optional(),
   isFree: z.boolean().optional(),
   liveScheduledAt: z.string().optional(), // ISO date string for live lessons
 })
 
 const UpdateLessonSchema = CreateLessonSchema.partial()
 
+const SectionSchema = z.object({
+  title: z.string().trim().min(1).max(150),
+  description: z.string().max(1000).nullable().optional(),
+  releaseAfterDays: z.number().int().min(1).max(MAX_RELEASE_AFTER_DAYS).nullable().optional(),
+  releaseAt: z.iso.datetime().nullable().optional(),
+  requiresPreviousSection: z.boolean().optional(),
+})
+
+const UpdateSectionSchema = SectionSchema.partial()
+
+const CurriculumLayoutSchema = z.array(
+  z.object({
+    sectionId: z.string().nullable(),
+    lessonIds: z.array(z.string()),
+  })
+)
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -33,7 +74,7 @@ export type LessonListItem = {
   type: string
   videoDuration: number | null
   videoThumbnailUrl: string | null
-  sectionTitle: string | null
+  sectionId: string | null
   order: number
   isFree: boolean
   isPublished: boolean
@@ -66,6 +107,39 @@ export async function createLesson(
       return { success: false, error: "Course not found or unauthorized" }
     }
 
+    const { sectionId, ...fields } = validated
+
+    // A live course gets the lesson in its draft
+    if (editsGoToDraft(course)) {
+      const lessonId = new Types.ObjectId()
+      const error = await editCourseDraft(courseId, instructorId, (draft) => {
+        if (sectionId && !draft.sections.some((s) => s._id.toString() === sectionId)) {
+          return "Section not found"
+        }
+        draft.lessons.push(
+          newDraftLesson(draft, {
+            ...fields,
+            _id: lessonId,
+            description: fields.description ?? null,
+            content: fields.content ?? null,
+            section: sectionId ? new Types.ObjectId(sectionId) : null,
+            liveScheduledAt: validated.liveScheduledAt ? new Date(validated.liveScheduledAt) : null,
+          })
+        )
+      })
+      if (error) {
+        return { success: false, error }
+      }
+
+      revalidatePath(`/instructor/courses/${courseId}/lessons`)
+
+      return { success: true, data: { id: lessonId.toString() } }
+    }
+
+    if (sectionId && !(await Section.exists({ _id: sectionId, course: courseId }))) {
+      return { success: false, error: "Section not found" }
+    }
+
     // Get next order number
     const lastLesson = await Lesson.findOne({ course: courseId })
       .sort({ order: -1 })
@@ -74,14 +148,18 @@ export async function createLesson(
 
     // Create lesson
     const lesson = await Lesson.create({
-      ...validated,
+      ...fields,
       course: courseId,
+      section: sectionId || null,
       order,
       liveScheduledAt: validated.liveScheduledAt
         ? new Date(validated.liveScheduledAt)
         : null,
     })
 
+    // Move it to the end of its section
+    if (sectionId) await resequenceLessons(courseId)
+
     // Update course lesson count
     await updateCourseLessonStats(courseId)
 
@@ -124,11 +202,44 @@ export async function updateLesson(
       return { success: false, error: "Course not found or unauthorized" }
     }
 
+    const { sectionId, ...fields } = validated
+
+    if (editsGoToDraft(course)) {
+      const error = await editCourseDraft(courseId, instructorId, (draft) => {
+        const lesson = draft.lessons.find((l) => l._id.toString() === lessonId)
+        if (!lesson) return "Lesson not found"
+        if (sectionId && !draft.sections.some((s) => s._id.toString() === sectionId)) {
+          return "Section not found"
+        }
+
+        const { liveScheduledAt, ...details } = fields
+        Object.assign(lesson, details)
+        if (liveScheduledAt) lesson.liveScheduledAt = new Date(liveScheduledAt)
+        if (sectionId !== undefined && (lesson.section?.toString() ?? null) !== (sectionId || null)) {
+          // A lesson moved to another section goes to the end of it
+          lesson.section = sectionId ? new Types.ObjectId(sectionId) : null
+          lesson.order = Math.max(...draft.lessons.map((l) => l.order)) + 1
+        }
+      })
+      if (error) {
+        return { success: false, error }
+      }
+
+      revalidatePath(`/instructor/courses/${courseId}/lessons`)
+
+      return { success: true, data: { id: lessonId } }
+    }
+
+    if (sectionId && !(await Section.exists({ _id: sectionId, course: courseId }))) {
+      return { success: false, error: "Section not found" }
+    }
+
     // Update lesson
     const lesson = await Lesson.findOneAndUpdate(
       { _id: lessonId, course: courseId },
       {
-        ...validated,
+        ...fields,
+        ...(sectionId !== undefined && { section: sectionId || null }),
         liveScheduledAt: validated.liveScheduledAt
           ? new Date(validated.liveScheduledAt)
           : undefined,
@@ -140,6 +251,9 @@ export async function updateLesson(
       return { success: false, error: "Lesson not found" }
     }
 
+    // A lesson moved to another section goes to the end of it
+    if (sectionId !== undefined) await resequenceLessons(courseId)
+
     revalidatePath(`/instructor/courses/${courseId}/lessons`)
 
     return { success: true, data: { id: lesson._id.toString() } }
@@ -150,17 +264,23 @@ export async function updateLesson(
 }
 
 /**
- * Upload lesson video
+ * Set a lesson's video to one uploaded to R2 (see getVideoUploadUrl). The
+ * video is queued for transcoding, which fills in its duration, poster and
+ * HLS stream; until then students get the MP4.
  */
 export async function uploadLessonVideo(
   lessonId: string,
   courseId: string,
   instructorId: string,
-  file: string // Base64 or URL
+  videoUrl: string
 ) {
   try {
     await connectDB()
 
+    if (!videoUrl.startsWith(`${R2_PUBLIC_URL}/`)) {
+      return { success: false, error: "Upload the video first" }
+    }
+
     // Verify course ownership
     const course = await Course.findOne({
       _id: courseId,
@@ -171,6 +291,27 @@ export async function uploadLessonVideo(
       return { success: false, error: "Course not found or unauthorized" }
     }
 
+    // A live course gets the video in its draft. The old video stays — the
+    // live version (and older ones) may still use it.
+    if (editsGoToDraft(course)) {
+      const error = await editCourseDraft(courseId, instructorId, (draft) => {
+        const lesson = draft.lessons.find((l) => l._id.toString() === lessonId)
+        if (!lesson) return "Lesson not found"
+        lesson.videoUrl = videoUrl
+        lesson.videoPublicId = null
+        lesson.videoDuration = null
+        lesson.videoThumbnailUrl = null
+      })
+      if (error) {
+        return { success: false, error }
+      }
+      await queueVideoTranscodes([videoUrl])
+
+      revalidatePath(`/instructor/courses/${courseId}/lessons`)
+
+      return { success: true, data: { url: videoUrl } }
+    }
+
     const lesson = await Lesson.findOne({ _id: lessonId, course: courseId })
 
     if (!lesson) {
@@ -182,29 +323,20 @@ export async function uploadLessonVideo(
       await deleteFromCloudinary(lesson.videoPublicId, "video")
     }
 
-    // Upload new video
-    const result = await uploadVideo(file)
-
-    // Update lesson
-    lesson.videoUrl = result.url
-    lesson.videoPublicId = result.publicId
-    lesson.videoDuration = result.duration || null
-    lesson.videoThumbnailUrl = result.thumbnailUrl || null
+    // Update lesson — transcoding fills in the duration and poster
+    lesson.videoUrl = videoUrl
+    lesson.videoPublicId = null
+    lesson.videoDuration = null
+    lesson.videoThumbnailUrl = null
     await lesson.save()
+    await queueVideoTranscodes([videoUrl])
 
     // Update course duration
     await updateCourseLessonStats(courseId)
 
     revalidatePath(`/instructor/courses/${courseId}/lessons`)
 
-    return {
-      success: true,
-      data: {
-        url: result.url,
-        duration: result.duration,
-        thumbnailUrl: result.thumbnailUrl,
-      },
-    }
+    return { success: true, data: { url: videoUrl } }
   } catch (error) {
     console.error("Upload video error:", error)
     return { success: false, error: "Failed to upload video" }
@@ -232,6 +364,24 @@ export async function toggleLessonPublish(
       return { success: false, error: "Course not found or unauthorized" }
     }
 
+    // On a live course the change waits in the draft; students hear about
+    // new lessons when it's published (see lib/actions/course-versions.ts)
+    if (editsGoToDraft(course)) {
+      let isPublished = false
+      const error = await editCourseDraft(courseId, instructorId, (draft) => {
+        const lesson = draft.lessons.find((l) => l._id.toString() === lessonId)
+        if (!lesson) return "Lesson not found"
+        lesson.isPublished = isPublished = !lesson.isPublished
+      })
+      if (error) {
+        return { success: false, error }
+      }
+
+      revalidatePath(`/instructor/courses/${courseId}/lessons`)
+
+      return { success: true, data: { isPublished } }
+    }
+
     const lesson = await Lesson.findOne({ _id: lessonId, course: courseId })
 
     if (!lesson) {
@@ -244,6 +394,27 @@ export async function toggleLessonPublish(
     // Update course lesson count
     await updateCourseLessonStats(courseId)
 
+    // Let enrolled students know about new content on a live course
+    if (lesson.isPublished && course.status === "published") {
+      const enrollments = await Enrollment.find({
+        course: courseId,
+        status: { $in: ["active", "completed"] },
+      })
+        .select("user")
+        .lean()
+
+      await notifyUsers(
+        enrollments.map((e) => e.user.toString()),
+        {
+          type: "lesson_published",
+          title: "New lesson available",
+          message: `${course.title} has a new lesson: '${lesson.title}'`,
+          href: `/dashboard/courses/${courseId}/learn/${lessonId}`,
+          imageUrl: course.thumbnailUrl,
+        }
+      )
+    }
+
     revalidatePath(`/instructor/courses/${courseId}/lessons`)
 
     return { success: true, data: { isPublished: lesson.isPublished } }
@@ -254,38 +425,51 @@ export async function toggleLessonPublish(
 }
 
 /**
- * Reorder lessons
+ * Reorder lessons — within a section, across sections, and the sections
+ * themselves. `layout` lists every section (null for lessons before the
+ * first section) with its lessons, in the new order.
  */
 export async function reorderLessons(
   courseId: string,
   instructorId: string,
-  lessonIds: string[] // Ordered array of lesson IDs
+  layout: CurriculumLayout
 ) {
   try {
     await connectDB()
 
-    // Verify course ownership
-    const course = await Course.findOne({
-      _id: courseId,
-      instructor: instructorId,
-    })
+    const validated = CurriculumLayoutSchema.parse(layout)
 
+    const course = await findOwnedCourse(courseId, instructorId)
     if (!course) {
       return { success: false, error: "Course not found or unauthorized" }
     }
 
-    // Update each lesson's order
-    await Promise.all(
-      lessonIds.map((id, index) =>
-        Lesson.findByIdAndUpdate(id, { order: index })
-      )
-    )
+    if (editsGoToDraft(course)) {
+      const error = await editCourseDraft(courseId, instructorId, (draft) => {
+        const layoutError = checkSnapshotLayout(draft, validated)
+        if (layoutError) return layoutError
+        arrangeSnapshot(draft, validated)
+      })
+      if (error) {
+        return { success: false, error }
+      }
+    } else {
+      const layoutError = await validateCurriculumLayout(courseId, validated)
+      if (layoutError) {
+        return { success: false, error: layoutError }
+      }
+
+      await applyCurriculumLayout(courseId, validated)
+    }
 
     revalidatePath(`/instructor/courses/${courseId}/lessons`)
 
     return { success: true }
   } catch (error) {
     console.error("Reorder lessons error:", error)
+    if (error instanceof z.ZodError) {
+      return { success: false, error: "Invalid input data", details: error.issues }
+    }
     return { success: false, error: "Failed to reorder lessons" }
   }
 }
@@ -311,6 +495,21 @@ export async function deleteLesson(
       return { success: false, error: "Course not found or unauthorized" }
     }
 
+    // A live course drops the lesson from its draft and keeps its video
+    if (editsGoToDraft(course)) {
+      const error = await editCourseDraft(courseId, instructorId, (draft) => {
+        if (!draft.lessons.some((l) => l._id.toString() === lessonId)) return "Lesson not found"
+        draft.lessons = draft.lessons.filter((l) => l._id.toString() !== lessonId)
+      })
+      if (error) {
+        return { success: false, error }
+      }
+
+      revalidatePath(`/instructor/courses/${courseId}/lessons`)
+
+      return { success: true }
+    }
+
     const lesson = await Lesson.findOne({ _id: lessonId, course: courseId })
 
     if (!lesson) {
@@ -321,6 +520,9 @@ export async function deleteLesson(
     if (lesson.videoPublicId) {
       await deleteFromCloudinary(lesson.videoPublicId, "video")
     }
+    if (lesson.scorm) {
+      await deletePackageFiles(lesson.scorm.packageId)
+    }
 
     // Delete lesson
     await lesson.deleteOne()
@@ -337,6 +539,186 @@ export async function deleteLesson(
   }
 }
 
+// ============================================================================
+// SECTION ACTIONS
+// ============================================================================
+
+/**
+ * Add a section to the end of a course
+ */
+export async function createSection(
+  courseId: string,
+  instructorId: string,
+  data: z.infer<typeof SectionSchema>
+) {
+  try {
+    await connectDB()
+
+    const validated = SectionSchema.parse(data)
+
+    const course = await findOwnedCourse(courseId, instructorId)
+    if (!course) {
+      return { success: false, error: "Course not found or unauthorized" }
+    }
+
+    const fields = {
+      title: validated.title,
+      description: validated.description || null,
+      releaseAfterDays: validated.releaseAfterDays ?? null,
+      releaseAt: validated.releaseAt ? new Date(validated.releaseAt) : null,
+      requiresPreviousSection: validated.requiresPreviousSection ?? false,
+    }
+
+    if (editsGoToDraft(course)) {
+      const sectionId = new Types.ObjectId()
+      const error = await editCourseDraft(courseId, instructorId, (draft) => {
+        draft.sections.push(newDraftSection(draft, { ...fields, _id: sectionId }))
+      })
+      if (error) {
+        return { success: false, error }
+      }
+
+      revalidatePath(`/instructor/courses/${courseId}/lessons`)
+
+      return { success: true, data: { id: sectionId.toString() } }
+    }
+
+    const lastSection = await Section.findOne({ course: courseId })
+      .sort({ order: -1 })
+      .select("order")
+
+    const section = await Section.create({
+      ...fields,
+      course: courseId,
+      order: lastSection ? lastSection.order + 1 : 0,
+    })
+
+    revalidatePath(`/instructor/courses/${courseId}/lessons`)
+
+    return { success: true, data: { id: section._id.toString() } }
+  } catch (error) {
+    console.error("Create section error:", error)
+    if (error instanceof z.ZodError) {
+      return { success: false, error: "Invalid input data", details: error.issues }
+    }
+    return { success: false, error: "Failed to create section" }
+  }
+}
+
+/**
+ * Rename a section or change its drip rules
+ */
+export async function updateSection(
+  sectionId: string,
+  courseId: string,
+  instructorId: string,
+  data: z.infer<typeof UpdateSectionSchema>
+) {
+  try {
+    await connectDB()
+
+    const validated = UpdateSectionSchema.parse(data)
+
+    const course = await findOwnedCourse(courseId, instructorId)
+    if (!course) {
+      return { success: false, error: "Course not found or unauthorized" }
+    }
+
+    const update = {
+      ...validated,
+      ...(validated.description !== undefined && { description: validated.description || null }),
+      ...(validated.releaseAt !== undefined && {
+        releaseAt: validated.releaseAt ? new Date(validated.releaseAt) : null,
+      }),
+    }
+
+    if (editsGoToDraft(course)) {
+      const error = await editCourseDraft(courseId, instructorId, (draft) => {
+        const section = draft.sections.find((s) => s._id.toString() === sectionId)
+        if (!section) return "Section not found"
+        Object.assign(section, update)
+      })
+      if (error) {
+        return { success: false, error }
+      }
+
+      revalidatePath(`/instructor/courses/${courseId}/lessons`)
+
+      return { success: true, data: { id: sectionId } }
+    }
+
+    const section = await Section.findOneAndUpdate(
+      { _id: sectionId, course: courseId },
+      update,
+      { new: true }
+    )
+
+    if (!section) {
+      return { success: false, error: "Section not found" }
+    }
+
+    revalidatePath(`/instructor/courses/${courseId}/lessons`)
+
+    return { success: true, data: { id: section._id.toString() } }
+  } catch (error) {
+    console.error("Update section error:", error)
+    if (error instanceof z.ZodError) {
+      return { success: false, error: "Invalid input data", details: error.issues }
+    }
+    return { success: false, error: "Failed to update section" }
+  }
+}
+
+/**
+ * Delete a section. Its lessons are kept and move before the first section.
+ */
+export async function deleteSection(
+  sectionId: string,
+  courseId: string,
+  instructorId: string
+) {
+  try {
+    await connectDB()
+
+    const course = await findOwnedCourse(courseId, instructorId)
+    if (!course) {
+      return { success: false, error: "Course not found or unauthorized" }
+    }
+
+    if (editsGoToDraft(course)) {
+      const error = await editCourseDraft(courseId, instructorId, (draft) => {
+        if (!draft.sections.some((s) => s._id.toString() === sectionId)) return "Section not found"
+        draft.sections = draft.sections.filter((s) => s._id.toString() !== sectionId)
+        for (const lesson of draft.lessons) {
+          if (lesson.section?.toString() === sectionId) lesson.section = null
+        }
+      })
+      if (error) {
+        return { success: false, error }
+      }
+
+      revalidatePath(`/instructor/courses/${courseId}/lessons`)
+
+      return { success: true }
+    }
+
+    const section = await Section.findOneAndDelete({ _id: sectionId, course: courseId })
+    if (!section) {
+      return { success: false, error: "Section not found" }
+    }
+
+    await Lesson.updateMany({ course: courseId, section: section._id }, { section: null })
+    await resequenceLessons(courseId)
+
+    revalidatePath(`/instructor/courses/${courseId}/lessons`)
+
+    return { success: true }
+  } catch (error) {
+    console.error("Delete section error:", error)
+    return { success: false, error: "Failed to delete section" }
+  }
+}
+
 // ============================================================================
 // LESSON QUERIES
 // ============================================================================
@@ -352,6 +734,7 @@ export async function getCourseLessons(
     await connectDB()
 
     // If instructorId provided, verify ownership
+    let usesDraft = false
     if (instructorId) {
       const course = await Course.findOne({
         _id: courseId,
@@ -361,11 +744,15 @@ export async function getCourseLessons(
       if (!course) {
         return []
       }
+      // The instructor works on a live course's draft
+      usesDraft = editsGoToDraft(course)
     }
 
-    const lessons = await Lesson.find({ course: courseId })
-      .sort({ order: 1 })
-      .lean()
+    const lessons = usesDraft
+      ? ((await getWorkingSnapshot(courseId))?.lessons ?? [])
+      : await Lesson.find({ course: courseId })
+          .sort({ order: 1 })
+          .lean()
 
     return lessons.map((lesson) => ({
       id: lesson._id.toString(),
@@ -374,7 +761,7 @@ export async function getCourseLessons(
       type: lesson.type,
       videoDuration: lesson.videoDuration,
       videoThumbnailUrl: lesson.videoThumbnailUrl,
-      sectionTitle: lesson.sectionTitle,
+      sectionId: lesson.section?.toString() ?? null,
       order: lesson.order,
       isFree: lesson.isFree,
       isPublished: lesson.isPublished,
@@ -409,7 +796,7 @@ export async function getPublishedLessons(
       type: lesson.type,
       videoDuration: lesson.videoDuration,
       videoThumbnailUrl: lesson.videoThumbnailUrl,
-      sectionTitle: lesson.sectionTitle,
+      sectionId: lesson.section?.toString() ?? null,
       order: lesson.order,
       isFree: lesson.isFree,
       isPublished: lesson.isPublished,
@@ -420,6 +807,24 @@ export async function getPublishedLessons(
   }
 }
 
+/**
+ * Get a course's sections in order
+ */
+export async function getCourseSections(courseId: string): Promise<CourseSection[]> {
+  try {
+    await connectDB()
+
+    const sections = await Section.find({ course: courseId })
+      .sort({ order: 1 })
+      .lean()
+
+    return sections.map((s) => toCourseSection(s, courseId))
+  } catch (error) {
+    console.error("Get course sections error:", error)
+    return []
+  }
+}
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -446,3 +851,14 @@ async function updateCourseLessonStats(courseId: string) {
     totalDuration: Math.ceil(totalDuration / 60), // Convert seconds to minutes
   })
 }
+
+/**
+ * The course, if the signed-in user is the instructor passed in and owns it
+ */
+async function findOwnedCourse(courseId: string, instructorId: string) {
+  const currentUser = await getCurrentUser()
+  if (!currentUser || currentUser.id !== instructorId) return null
+  if (!Types.ObjectId.isValid(courseId)) return null
+
+  return Course.findOne({ _id: courseId, instructor: instructorId })
+}
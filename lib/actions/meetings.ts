@@ -3,11 +3,60 @@
 import { headers } from "next/headers"
 import { Types } from "mongoose"
 import connectDB from "@/lib/db"
-import { Meeting, User, Course, Enrollment, type IMeeting, type IMeetingParticipant, type MeetingStatus } from "@/lib/db/models"
+import {
+  Meeting,
+  MeetingMessage,
+  MeetingPoll,
+  MeetingQuestion,
+  MeetingRecording,
+  User,
+  Course,
+  Enrollment,
+  Lesson,
+  type IMeeting,
+  type IMeetingBreakoutRoom,
+  type IMeetingParticipant,
+  type IMeetingPoll,
+  type MeetingRecordingStatus,
+  type MeetingStatus,
+} from "@/lib/db/models"
 import { getCurrentUser } from "@/lib/auth"
-import { createMeeting as createRTKMeeting, addParticipant } from "@/lib/realtime"
-import { emitEvent, emitEventToMany, type MeetingEventPayload } from "@/lib/call-events"
+import {
+  createMeeting as createRTKMeeting,
+  endMeeting as endRTKMeeting,
+  addParticipant,
+  startRecording,
+  stopRecording,
+  usesFakeRecorder,
+} from "@/lib/realtime"
+import { buildFakeRecordingWebhook, FAKE_RECORDING_SIGNATURE_HEADER } from "@/lib/realtime-fake"
+import { createLesson, toggleLessonPublish, uploadLessonVideo } from "@/lib/actions/lessons"
+import { recordLessonCompletion } from "@/lib/lesson-completion"
+import {
+  emitEvent,
+  emitEventToMany,
+  type BreakoutRoomState,
+  type MeetingEventPayload,
+} from "@/lib/call-events"
 import { sendMeetingNotificationEmail, sendMeetingInviteEmail } from "@/lib/email"
+import { notifyUser, notifyUsers } from "@/lib/notifications"
+import { buildUnsubscribeUrl, filterRecipients, wantsNotification } from "@/lib/notification-preferences"
+import {
+  buildMeetingCalendar,
+  DEFAULT_MEETING_DURATION,
+  getElapsedReminders,
+  getWeeklyOccurrences,
+  isValidTimeZone,
+  MAX_SERIES_OCCURRENCES,
+  meetingEventUid,
+} from "@/lib/meeting-schedule"
+import {
+  closeAttendanceSession,
+  getAttendanceReport,
+  getQualifyingAttendees,
+  openAttendanceSession,
+  type AttendanceReport,
+} from "@/lib/meeting-attendance"
 
 // ── Helpers ──
 
@@ -22,6 +71,119 @@ function backgroundSave(promise: Promise<unknown>) {
   promise.catch((err) => console.error("[Meeting] Background save failed:", err))
 }
 
+/**
+ * Give a scheduled meeting its RTK room and make it active. Whoever joins
+ * first opens it; if two people do at once, the loser's room is discarded.
+ */
+async function openScheduledMeeting(meeting: IMeeting, openedBy: string) {
+  const host = await User.findById(meeting.hostId).select("firstName lastName").lean()
+  const rtkMeetingId = await createRTKMeeting(`Meeting: ${meeting.title}`)
+  const hostParticipant = await addParticipant(rtkMeetingId, {
+    name: host ? `${host.firstName} ${host.lastName}`.trim() : "Host",
+    customParticipantId: meeting.hostId.toString(),
+    presetName: "group_call_host",
+  })
+
+  const now = new Date()
+  const hostOpened = openedBy === meeting.hostId.toString()
+  const opened = await Meeting.findOneAndUpdate(
+    { _id: meeting._id, status: "scheduled" },
+    {
+      $set: {
+        status: "active",
+        meetingId: rtkMeetingId,
+        hostToken: hostParticipant.authToken,
+        startedAt: now,
+      },
+      ...(hostOpened && {
+        $push: {
+          participants: {
+            userId: meeting.hostId,
+            role: "host",
+            status: "admitted",
+            joinedAt: now,
+            sessions: [{ joinedAt: now }],
+          },
+        },
+      }),
+    },
+    { new: true }
+  )
+  return opened ?? (await Meeting.findById(meeting._id))
+}
+
+/**
+ * The current user's place in a running meeting — only the host and
+ * admitted participants count — plus everyone else to send events to
+ */
+async function getMeetingMember(meetingId: string, userId: string) {
+  if (!Types.ObjectId.isValid(meetingId)) return null
+  const meeting = await Meeting.findOne({ _id: meetingId, status: { $in: ["waiting", "active"] } })
+    .select("hostId participants.userId participants.status participants.role")
+    .lean()
+  if (!meeting) return null
+
+  const hostId = meeting.hostId.toString()
+  const admitted = meeting.participants.filter((p) => p.status === "admitted")
+  const me = admitted.find((p) => p.userId.toString() === userId)
+  if (hostId !== userId && !me) return null
+
+  const targetIds = admitted.map((p) => p.userId.toString()).filter((id) => id !== userId)
+  if (hostId !== userId && !targetIds.includes(hostId)) targetIds.push(hostId)
+
+  return {
+    meetingObjectId: meeting._id,
+    isHost: hostId === userId,
+    /** Host or co-host — answers questions */
+    canModerate: hostId === userId || me?.role === "host" || me?.role === "co-host",
+    targetIds,
+  }
+}
+
+/** The app's origin for links and our own webhooks, from the current request */
+async function getRequestOrigin() {
+  const headersList = await headers()
+  const host = headersList.get("host") || "academy.worldstreetgold.com"
+  const protocol = headersList.get("x-forwarded-proto") || "https"
+  return `${protocol}://${host}`
+}
+
+/**
+ * Stop a meeting's recording in progress, if there is one. The fake
+ * recorder has no upload to report, so its webhook is sent to our own
+ * route from here.
+ */
+async function stopActiveRecording(meetingObjectId: Types.ObjectId, origin: string) {
+  const recording = await MeetingRecording.findOneAndUpdate(
+    { meeting: meetingObjectId, status: "recording" },
+    { $set: { status: "processing", stoppedAt: new Date() } },
+    { new: true }
+  )
+  if (!recording) return false
+
+  await stopRecording(recording.providerRecordingId)
+
+  if (usesFakeRecorder()) {
+    const duration = Math.round((Date.now() - recording.startedAt.getTime()) / 1000)
+    const { body, signature } = buildFakeRecordingWebhook(recording.providerRecordingId, duration)
+    backgroundSave(
+      fetch(`${origin}/api/meetings/recordings/webhook`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", [FAKE_RECORDING_SIGNATURE_HEADER]: signature },
+        body,
+      })
+    )
+  }
+  return true
+}
+
+/** Votes per option, keyed by option index like the poll events */
+function pollTallies(poll: Pick<IMeetingPoll, "options" | "votes">) {
+  const tallies: Record<string, number> = Object.fromEntries(poll.options.map((_, i) => [String(i), 0]))
+  for (const vote of poll.votes) tallies[String(vote.option)] = (tallies[String(vote.option)] || 0) + 1
+  return tallies
+}
+
 // ── Types ──
 
 export type MeetingRole = "host" | "co-host" | "participant" | "guest"
@@ -112,6 +274,7 @@ export async function createMeeting(
           role: "host",
           status: "admitted",
           joinedAt: new Date(),
+          sessions: [{ joinedAt: new Date() }],
         },
       ],
       settings: {
@@ -162,11 +325,21 @@ export async function joinMeeting(meetingId: string): Promise<{
     const currentUser = await initAction()
     if (!currentUser) return { success: false, error: "Unauthorized" }
 
-    const meeting = await Meeting.findById(meetingId)
+    let meeting = await Meeting.findById(meetingId)
     if (!meeting) return { success: false, error: "Meeting not found" }
 
     if (meeting.status === "ended") return { success: false, error: "Meeting has ended" }
 
+    // Scheduled meetings open at their start time — the host may open early
+    if (meeting.status === "scheduled") {
+      const isHost = meeting.hostId.toString() === currentUser.id
+      if (!isHost && meeting.scheduledAt && meeting.scheduledAt > new Date()) {
+        return { success: false, error: "This meeting hasn't started yet" }
+      }
+      meeting = await openScheduledMeeting(meeting, currentUser.id)
+      if (!meeting) return { success: false, error: "Meeting not found" }
+    }
+
     // Host already has access — use currentUser directly (skip DB lookup)
     if (meeting.hostId.toString() === currentUser.id) {
       return {
@@ -204,8 +377,7 @@ export async function joinMeeting(meetingId: string): Promise<{
     // User left previously — re-admit them
     if (existingP?.status === "left") {
       existingP.status = "admitted"
-      existingP.joinedAt = new Date()
-      existingP.leftAt = undefined
+      openAttendanceSession(existingP)
 
       const admittedIds = meeting.participants
         .filter((p) => p.status === "admitted" && p.userId.toString() !== currentUser.id)
@@ -312,6 +484,7 @@ export async function joinMeeting(meetingId: string): Promise<{
         role: "guest",
         status: "admitted",
         joinedAt: new Date(),
+        sessions: [{ joinedAt: new Date() }],
       } as IMeetingParticipant)
 
       // Parallelize save, RTK token, host lookup, and broadcast
@@ -394,6 +567,7 @@ export async function joinMeeting(meetingId: string): Promise<{
       role: "participant",
       status: "admitted",
       joinedAt: new Date(),
+      sessions: [{ joinedAt: new Date() }],
     } as IMeetingParticipant)
 
     // Collect other admitted participant IDs for broadcast BEFORE saving
@@ -470,7 +644,7 @@ export async function admitParticipant(
 
     participant.status = "admitted"
     participant.role = "participant"
-    participant.joinedAt = new Date()
+    openAttendanceSession(participant)
 
     // Parallelize ALL independent operations: DB save, user lookup, AND RTK token generation
     const [, user, rtkParticipant] = await Promise.all([
@@ -584,6 +758,11 @@ export async function startMeeting(meetingId: string): Promise<{
       return { success: false, error: "Only host can start meeting" }
     }
 
+    if (meeting.status === "scheduled") {
+      await openScheduledMeeting(meeting, currentUser.id)
+      return { success: true }
+    }
+
     meeting.status = "active"
     meeting.startedAt = new Date()
     await meeting.save()
@@ -618,10 +797,13 @@ export async function endMeeting(meetingId: string): Promise<{
 
     meeting.status = "ended"
     meeting.endedAt = new Date()
+    const openRooms = meeting.breakoutRooms.filter((room) => room.status === "open")
+    for (const room of openRooms) room.status = "closed"
+    meeting.breakoutEndsAt = undefined
     for (const p of meeting.participants) {
       if (p.status === "admitted") {
         p.status = "left"
-        p.leftAt = new Date()
+        closeAttendanceSession(p, meeting.endedAt)
       }
     }
 
@@ -635,10 +817,15 @@ export async function endMeeting(meetingId: string): Promise<{
       userAvatar: currentUser.avatarUrl,
     }
     await meeting.save()
+    if (openRooms.length > 0) {
+      backgroundSave(Promise.all(openRooms.map((room) => endRTKMeeting(room.rtkMeetingId))))
+    }
     // Don't block response — participants will get notified asynchronously
     if (participantIdsToNotify.length > 0) {
       backgroundSave(emitEventToMany(participantIdsToNotify, endPayload))
     }
+    backgroundSave(stopActiveRecording(meeting._id, await getRequestOrigin()))
+    backgroundSave(creditAttendanceLesson(meeting))
 
     return { success: true }
   } catch (error) {
@@ -665,7 +852,8 @@ export async function getMyMeetings(): Promise<{
         { hostId: userId },
         { "participants.userId": userId, "participants.status": "admitted" },
       ],
-      status: { $ne: "ended" },
+      // Scheduled meetings are listed by getUpcomingMeetings until they open
+      status: { $nin: ["ended", "scheduled"] },
     })
       .sort({ createdAt: -1 })
       .lean()
@@ -866,7 +1054,7 @@ export async function leaveMeeting(meetingId: string): Promise<{
     )
     if (participant) {
       participant.status = "left"
-      participant.leftAt = new Date()
+      closeAttendanceSession(participant)
 
       // Collect other admitted participants + host to notify
       const othersToNotify = meeting.participants
@@ -1201,6 +1389,22 @@ export type MeetingHistoryEntry = {
   duration: number | null // seconds
   createdAt: string
   courseThumbnailUrl?: string | null
+  /** Course meetings have an attendance report for the host */
+  courseId: string | null
+  recordings: MeetingRecordingEntry[]
+}
+
+export type MeetingRecordingEntry = {
+  id: string
+  status: MeetingRecordingStatus
+  startedAt: string
+  duration: number | null // seconds
+  videoUrl: string | null
+  courseId: string | null
+  /** Lesson the recording was added to its course as */
+  lessonId: string | null
+  /** The current user hosted the meeting and can add the recording to its course */
+  canPublish: boolean
 }
 
 // ── Get meeting history (ended meetings) ──
@@ -1244,6 +1448,16 @@ export async function getMeetingHistory(): Promise<{
       .lean()
     const userMap = new Map(users.map((u) => [u._id.toString(), u]))
 
+    // Attendees see finished recordings; hosts also see ones still processing
+    const recordings = await MeetingRecording.find({ meeting: { $in: meetings.map((m) => m._id) } })
+      .sort({ startedAt: 1 })
+      .lean()
+    const recordingsByMeeting = new Map<string, typeof recordings>()
+    for (const r of recordings) {
+      const key = r.meeting.toString()
+      recordingsByMeeting.set(key, [...(recordingsByMeeting.get(key) ?? []), r])
+    }
+
     return {
       success: true,
       meetings: meetings.map((m) => {
@@ -1280,6 +1494,19 @@ export async function getMeetingHistory(): Promise<{
           duration,
           createdAt: m.createdAt.toISOString(),
           courseThumbnailUrl: (m as IMeeting).courseThumbnailUrl || null,
+          courseId: m.courseId?.toString() ?? null,
+          recordings: (recordingsByMeeting.get(m._id.toString()) ?? [])
+            .filter((r) => isHost || r.status === "ready")
+            .map((r) => ({
+              id: r._id.toString(),
+              status: r.status,
+              startedAt: r.startedAt.toISOString(),
+              duration: r.duration,
+              videoUrl: r.videoUrl,
+              courseId: r.courseId?.toString() ?? null,
+              lessonId: r.lessonId?.toString() ?? null,
+              canPublish: isHost && !!r.courseId && r.status === "ready" && !r.lessonId,
+            })),
         }
       }),
     }
@@ -1443,7 +1670,7 @@ export async function kickParticipant(
     )
     if (participant) {
       participant.status = "kicked"
-      participant.leftAt = new Date()
+      closeAttendanceSession(participant)
     }
 
     const eventPayload: MeetingEventPayload = {
@@ -1466,34 +1693,166 @@ export async function kickParticipant(
   }
 }
 
+// ── Meeting chat, polls and Q&A (persisted for late joiners) ──
+
+export type MeetingChatEntry = {
+  id: string
+  userId: string
+  userName: string
+  userAvatar: string | null
+  message: string
+  imageUrl?: string
+  videoUrl?: string
+  timestamp: number
+}
+
+export type MeetingPollEntry = {
+  id: string
+  question: string
+  options: string[]
+  votes: Record<string, number>
+  /** Who voted for each option — hosts and co-hosts only */
+  voterDetails: Record<string, { userId: string; userName: string; userAvatar: string | null }[]>
+  /** Option index the current user voted for */
+  myVote: number | null
+  createdBy: string
+  createdByName: string
+}
+
+export type MeetingQuestionEntry = {
+  id: string
+  userId: string
+  userName: string
+  userAvatar: string | null
+  text: string
+  upvotes: number
+  upvotedByMe: boolean
+  answered: boolean
+  timestamp: number
+}
+
+const MAX_CHAT_LENGTH = 2000
+const MAX_QUESTION_LENGTH = 500
+const MAX_POLL_OPTIONS = 6
+const CHAT_BACKLOG_SIZE = 200
+
+type ActivityUser = { _id: Types.ObjectId; firstName: string; lastName: string; avatarUrl?: string | null }
+
+function activityUser(user: unknown) {
+  const u = user as ActivityUser | null
+  return {
+    userId: u?._id.toString() ?? "",
+    userName: u ? `${u.firstName} ${u.lastName}`.trim() : "Unknown",
+    userAvatar: u?.avatarUrl || null,
+  }
+}
+
+// ── Get a meeting's chat, polls and questions (on join) ──
+
+export async function getMeetingActivity(meetingId: string): Promise<{
+  success: boolean
+  messages?: MeetingChatEntry[]
+  polls?: MeetingPollEntry[]
+  questions?: MeetingQuestionEntry[]
+  error?: string
+}> {
+  try {
+    const currentUser = await initAction()
+    if (!currentUser) return { success: false, error: "Unauthorized" }
+
+    const member = await getMeetingMember(meetingId, currentUser.id)
+    if (!member) return { success: false, error: "Meeting not found" }
+
+    const userFields = "firstName lastName avatarUrl"
+    const [messages, polls, questions] = await Promise.all([
+      MeetingMessage.find({ meeting: member.meetingObjectId })
+        .sort({ createdAt: -1 })
+        .limit(CHAT_BACKLOG_SIZE)
+        .populate("user", userFields)
+        .lean(),
+      MeetingPoll.find({ meeting: member.meetingObjectId })
+        .sort({ createdAt: 1 })
+        .populate("createdBy", userFields)
+        .populate("votes.user", userFields)
+        .lean(),
+      MeetingQuestion.find({ meeting: member.meetingObjectId })
+        .sort({ createdAt: 1 })
+        .populate("user", userFields)
+        .lean(),
+    ])
+
+    return {
+      success: true,
+      messages: messages.reverse().map((m) => ({
+        id: m._id.toString(),
+        ...activityUser(m.user),
+        message: m.message,
+        imageUrl: m.imageUrl,
+        videoUrl: m.videoUrl,
+        timestamp: m.createdAt.getTime(),
+      })),
+      polls: polls.map((poll) => {
+        const voters = poll.votes.map((v) => ({ option: v.option, ...activityUser(v.user) }))
+        const creator = activityUser(poll.createdBy)
+        const voterDetails: MeetingPollEntry["voterDetails"] = {}
+        if (member.canModerate || creator.userId === currentUser.id) {
+          for (const { option, ...voter } of voters) {
+            ;(voterDetails[String(option)] ??= []).push(voter)
+          }
+        }
+        return {
+          id: poll._id.toString(),
+          question: poll.question,
+          options: poll.options,
+          votes: pollTallies(poll),
+          voterDetails,
+          myVote: voters.find((v) => v.userId === currentUser.id)?.option ?? null,
+          createdBy: creator.userId,
+          createdByName: creator.userName,
+        }
+      }),
+      questions: questions.map((q) => ({
+        id: q._id.toString(),
+        ...activityUser(q.user),
+        text: q.text,
+        upvotes: q.upvotes.length,
+        upvotedByMe: q.upvotes.some((id) => id.toString() === currentUser.id),
+        answered: q.answered,
+        timestamp: q.createdAt.getTime(),
+      })),
+    }
+  } catch (error) {
+    console.error("Error getting meeting activity:", error)
+    return { success: false, error: "Failed to load meeting activity" }
+  }
+}
+
 // ── Send meeting chat message ──
 
 export async function sendMeetingChat(
   meetingId: string,
   message: string,
   imageUrl?: string,
-  videoUrl?: string,
-  cachedParticipantIds?: string[]
-): Promise<{ success: boolean; error?: string }> {
+  videoUrl?: string
+): Promise<{ success: boolean; messageId?: string; error?: string }> {
   try {
     const currentUser = await initAction()
     if (!currentUser) return { success: false, error: "Unauthorized" }
 
-    let targetIds: string[]
-    if (cachedParticipantIds?.length) {
-      targetIds = cachedParticipantIds.filter((id) => id !== currentUser.id)
-    } else {
-      const meeting = await Meeting.findById(meetingId)
-        .select("participants.userId participants.status hostId")
-        .lean()
-      if (!meeting) return { success: false, error: "Meeting not found" }
-      targetIds = meeting.participants
-        .filter((p) => p.status === "admitted" && p.userId.toString() !== currentUser.id)
-        .map((p) => p.userId.toString())
-      if (meeting.hostId.toString() !== currentUser.id && !targetIds.includes(meeting.hostId.toString())) {
-        targetIds.push(meeting.hostId.toString())
-      }
-    }
+    const text = message.trim()
+    if (!text && !imageUrl && !videoUrl) return { success: false, error: "Message is empty" }
+    if (text.length > MAX_CHAT_LENGTH) return { success: false, error: "Message is too long" }
+
+    const member = await getMeetingMember(meetingId, currentUser.id)
+    if (!member) return { success: false, error: "Meeting not found" }
+
+    const saved = await MeetingMessage.create({
+      meeting: member.meetingObjectId,
+      user: currentUser.id,
+      message: text,
+      imageUrl,
+      videoUrl,
+    })
 
     const eventPayload: MeetingEventPayload = {
       type: "meeting:chat",
@@ -1502,14 +1861,14 @@ export async function sendMeetingChat(
       userId: currentUser.id,
       userName: `${currentUser.firstName} ${currentUser.lastName}`.trim(),
       userAvatar: currentUser.avatarUrl,
-      chatMessage: message,
+      chatMessage: text,
       chatImageUrl: imageUrl,
       chatVideoUrl: videoUrl,
-      chatMessageId: `${Date.now()}-${currentUser.id}`,
+      chatMessageId: saved._id.toString(),
     }
-    await emitEventToMany(targetIds, eventPayload)
+    await emitEventToMany(member.targetIds, eventPayload)
 
-    return { success: true }
+    return { success: true, messageId: saved._id.toString() }
   } catch (error) {
     console.error("Error sending meeting chat:", error)
     return { success: false, error: "Failed to send chat" }
@@ -1521,31 +1880,30 @@ export async function sendMeetingChat(
 export async function createMeetingPoll(
   meetingId: string,
   question: string,
-  options: string[],
-  cachedParticipantIds?: string[],
-  clientPollId?: string,
+  options: string[]
 ): Promise<{ success: boolean; pollId?: string; error?: string }> {
   try {
     const currentUser = await initAction()
     if (!currentUser) return { success: false, error: "Unauthorized" }
 
-    let targetIds: string[]
-    if (cachedParticipantIds?.length) {
-      targetIds = cachedParticipantIds.filter((id) => id !== currentUser.id)
-    } else {
-      const meeting = await Meeting.findById(meetingId)
-        .select("participants.userId participants.status hostId")
-        .lean()
-      if (!meeting) return { success: false, error: "Meeting not found" }
-      targetIds = meeting.participants
-        .filter((p) => p.status === "admitted" && p.userId.toString() !== currentUser.id)
-        .map((p) => p.userId.toString())
-      if (meeting.hostId.toString() !== currentUser.id && !targetIds.includes(meeting.hostId.toString())) {
-        targetIds.push(meeting.hostId.toString())
-      }
+    const text = question.trim()
+    const choices = options.map((o) => o.trim()).filter(Boolean)
+    if (!text) return { success: false, error: "Poll question is required" }
+    if (choices.length < 2 || choices.length > MAX_POLL_OPTIONS) {
+      return { success: false, error: `Polls need 2 to ${MAX_POLL_OPTIONS} options` }
     }
 
-    const pollId = clientPollId || `poll-${Date.now()}-${currentUser.id}`
+    const member = await getMeetingMember(meetingId, currentUser.id)
+    if (!member) return { success: false, error: "Meeting not found" }
+
+    const poll = await MeetingPoll.create({
+      meeting: member.meetingObjectId,
+      createdBy: currentUser.id,
+      question: text,
+      options: choices,
+    })
+    const pollId = poll._id.toString()
+
     const eventPayload: MeetingEventPayload = {
       type: "meeting:poll",
       meetingId,
@@ -1554,11 +1912,11 @@ export async function createMeetingPoll(
       userName: `${currentUser.firstName} ${currentUser.lastName}`.trim(),
       userAvatar: currentUser.avatarUrl,
       pollId,
-      pollQuestion: question,
-      pollOptions: options,
-      pollVotes: Object.fromEntries(options.map((_, i) => [String(i), 0])),
+      pollQuestion: text,
+      pollOptions: choices,
+      pollVotes: pollTallies(poll),
     }
-    await emitEventToMany(targetIds, eventPayload)
+    await emitEventToMany(member.targetIds, eventPayload)
 
     return { success: true, pollId }
   } catch (error) {
@@ -1567,34 +1925,42 @@ export async function createMeetingPoll(
   }
 }
 
-// ── Vote on a poll ──
+// ── Vote on a poll (once per user) ──
 
 export async function voteMeetingPoll(
   meetingId: string,
   pollId: string,
-  optionIndex: number,
-  cachedParticipantIds?: string[]
-): Promise<{ success: boolean; error?: string }> {
+  optionIndex: number
+): Promise<{ success: boolean; votes?: Record<string, number>; error?: string }> {
   try {
     const currentUser = await initAction()
     if (!currentUser) return { success: false, error: "Unauthorized" }
+    if (!Types.ObjectId.isValid(pollId) || !Number.isInteger(optionIndex) || optionIndex < 0) {
+      return { success: false, error: "Poll not found" }
+    }
 
-    let targetIds: string[]
-    if (cachedParticipantIds?.length) {
-      targetIds = cachedParticipantIds.filter((id) => id !== currentUser.id)
-    } else {
-      const meeting = await Meeting.findById(meetingId)
-        .select("participants.userId participants.status hostId")
-        .lean()
-      if (!meeting) return { success: false, error: "Meeting not found" }
-      targetIds = meeting.participants
-        .filter((p) => p.status === "admitted" && p.userId.toString() !== currentUser.id)
-        .map((p) => p.userId.toString())
-      if (meeting.hostId.toString() !== currentUser.id && !targetIds.includes(meeting.hostId.toString())) {
-        targetIds.push(meeting.hostId.toString())
-      }
+    const member = await getMeetingMember(meetingId, currentUser.id)
+    if (!member) return { success: false, error: "Meeting not found" }
+
+    // The vote is only recorded if this user hasn't voted yet
+    const poll = await MeetingPoll.findOneAndUpdate(
+      {
+        _id: pollId,
+        meeting: member.meetingObjectId,
+        [`options.${optionIndex}`]: { $exists: true },
+        "votes.user": { $ne: currentUser.id },
+      },
+      { $push: { votes: { user: currentUser.id, option: optionIndex, votedAt: new Date() } } },
+      { new: true }
+    )
+      .select("options votes")
+      .lean()
+    if (!poll) {
+      const voted = await MeetingPoll.exists({ _id: pollId, "votes.user": currentUser.id })
+      return { success: false, error: voted ? "You've already voted on this poll" : "Poll not found" }
     }
 
+    const votes = pollTallies(poll)
     const eventPayload: MeetingEventPayload = {
       type: "meeting:poll-vote",
       meetingId,
@@ -1603,133 +1969,775 @@ export async function voteMeetingPoll(
       userName: `${currentUser.firstName} ${currentUser.lastName}`.trim(),
       userAvatar: currentUser.avatarUrl,
       pollId,
-      pollVotes: { [String(optionIndex)]: 1 },
+      pollVotes: votes,
       optionIndex,
     }
-    await emitEventToMany(targetIds, eventPayload)
+    await emitEventToMany(member.targetIds, eventPayload)
 
-    return { success: true }
+    return { success: true, votes }
   } catch (error) {
     console.error("Error voting on poll:", error)
     return { success: false, error: "Failed to vote" }
   }
 }
 
-// ── Mute a participant (host only) ──
+// ── Ask a Q&A question ──
 
-export async function muteParticipant(
+export async function askMeetingQuestion(
   meetingId: string,
-  userId: string,
-  muteType: "audio" | "video" | "screenshare" = "audio",
-): Promise<{ success: boolean; error?: string }> {
+  text: string
+): Promise<{ success: boolean; questionId?: string; error?: string }> {
   try {
     const currentUser = await initAction()
     if (!currentUser) return { success: false, error: "Unauthorized" }
 
+    const question = text.trim()
+    if (!question) return { success: false, error: "Question is empty" }
+    if (question.length > MAX_QUESTION_LENGTH) return { success: false, error: "Question is too long" }
+
+    const member = await getMeetingMember(meetingId, currentUser.id)
+    if (!member) return { success: false, error: "Meeting not found" }
+
+    const saved = await MeetingQuestion.create({
+      meeting: member.meetingObjectId,
+      user: currentUser.id,
+      text: question,
+    })
+    const questionId = saved._id.toString()
+
     const eventPayload: MeetingEventPayload = {
-      type: "meeting:mute-participant",
+      type: "meeting:question",
       meetingId,
       meetingTitle: "",
       userId: currentUser.id,
       userName: `${currentUser.firstName} ${currentUser.lastName}`.trim(),
       userAvatar: currentUser.avatarUrl,
-      muteType,
+      questionId,
+      questionText: question,
+      questionUpvotes: 0,
+      questionAnswered: false,
     }
-    await emitEvent(userId, eventPayload)
+    await emitEventToMany(member.targetIds, eventPayload)
 
-    return { success: true }
+    return { success: true, questionId }
   } catch (error) {
-    console.error("Error muting participant:", error)
-    return { success: false, error: "Failed to mute participant" }
+    console.error("Error asking question:", error)
+    return { success: false, error: "Failed to ask question" }
   }
 }
 
-// ── Toggle screen share permission (host only) ──
+/** Tell everyone else in the meeting about a question's new upvotes / answered state */
+async function emitQuestionUpdate(
+  meetingId: string,
+  targetIds: string[],
+  currentUser: NonNullable<Awaited<ReturnType<typeof initAction>>>,
+  question: { _id: Types.ObjectId; upvotes: Types.ObjectId[]; answered: boolean }
+) {
+  const eventPayload: MeetingEventPayload = {
+    type: "meeting:question-update",
+    meetingId,
+    meetingTitle: "",
+    userId: currentUser.id,
+    userName: `${currentUser.firstName} ${currentUser.lastName}`.trim(),
+    userAvatar: currentUser.avatarUrl,
+    questionId: question._id.toString(),
+    questionUpvotes: question.upvotes.length,
+    questionAnswered: question.answered,
+  }
+  await emitEventToMany(targetIds, eventPayload)
+}
 
-export async function toggleScreenSharePermission(
+// ── Upvote / un-upvote a question ──
+
+export async function toggleQuestionUpvote(
   meetingId: string,
-  userId: string,
-  allowed: boolean
+  questionId: string,
+  upvoted: boolean
+): Promise<{ success: boolean; upvotes?: number; error?: string }> {
+  try {
+    const currentUser = await initAction()
+    if (!currentUser) return { success: false, error: "Unauthorized" }
+    if (!Types.ObjectId.isValid(questionId)) return { success: false, error: "Question not found" }
+
+    const member = await getMeetingMember(meetingId, currentUser.id)
+    if (!member) return { success: false, error: "Meeting not found" }
+
+    const question = await MeetingQuestion.findOneAndUpdate(
+      { _id: questionId, meeting: member.meetingObjectId },
+      upvoted
+        ? { $addToSet: { upvotes: currentUser.id } }
+        : { $pull: { upvotes: currentUser.id } },
+      { new: true }
+    )
+      .select("upvotes answered")
+      .lean()
+    if (!question) return { success: false, error: "Question not found" }
+
+    await emitQuestionUpdate(meetingId, member.targetIds, currentUser, question)
+
+    return { success: true, upvotes: question.upvotes.length }
+  } catch (error) {
+    console.error("Error upvoting question:", error)
+    return { success: false, error: "Failed to upvote question" }
+  }
+}
+
+// ── Mark a question answered (host / co-host only) ──
+
+export async function markQuestionAnswered(
+  meetingId: string,
+  questionId: string,
+  answered: boolean
 ): Promise<{ success: boolean; error?: string }> {
   try {
     const currentUser = await initAction()
     if (!currentUser) return { success: false, error: "Unauthorized" }
+    if (!Types.ObjectId.isValid(questionId)) return { success: false, error: "Question not found" }
+
+    const member = await getMeetingMember(meetingId, currentUser.id)
+    if (!member) return { success: false, error: "Meeting not found" }
+    if (!member.canModerate) return { success: false, error: "Only the host can answer questions" }
+
+    const question = await MeetingQuestion.findOneAndUpdate(
+      { _id: questionId, meeting: member.meetingObjectId },
+      { $set: { answered, answeredAt: answered ? new Date() : null } },
+      { new: true }
+    )
+      .select("upvotes answered")
+      .lean()
+    if (!question) return { success: false, error: "Question not found" }
+
+    await emitQuestionUpdate(meetingId, member.targetIds, currentUser, question)
+
+    return { success: true }
+  } catch (error) {
+    console.error("Error marking question answered:", error)
+    return { success: false, error: "Failed to update question" }
+  }
+}
+
+// ── Cloud recording (host only) ──
+
+export async function startMeetingRecording(meetingId: string): Promise<{
+  success: boolean
+  error?: string
+}> {
+  try {
+    const currentUser = await initAction()
+    if (!currentUser) return { success: false, error: "Unauthorized" }
+    if (!Types.ObjectId.isValid(meetingId)) return { success: false, error: "Meeting not found" }
+
+    const meeting = await Meeting.findOne({ _id: meetingId, status: { $in: ["waiting", "active"] } })
+      .select("hostId meetingId courseId participants.userId participants.status")
+      .lean()
+    if (!meeting || !meeting.meetingId) return { success: false, error: "Meeting not found" }
+    if (meeting.hostId.toString() !== currentUser.id) {
+      return { success: false, error: "Only the host can record" }
+    }
+    if (await MeetingRecording.exists({ meeting: meeting._id, status: "recording" })) {
+      return { success: false, error: "This meeting is already being recorded" }
+    }
+
+    const providerRecordingId = await startRecording(meeting.meetingId)
+    await MeetingRecording.create({
+      meeting: meeting._id,
+      courseId: meeting.courseId ?? null,
+      startedBy: currentUser.id,
+      providerRecordingId,
+    })
 
     const eventPayload: MeetingEventPayload = {
-      type: "meeting:screen-share-permission",
+      type: "meeting:recording-started",
       meetingId,
       meetingTitle: "",
       userId: currentUser.id,
       userName: `${currentUser.firstName} ${currentUser.lastName}`.trim(),
       userAvatar: currentUser.avatarUrl,
-      canScreenShare: allowed,
     }
-    await emitEvent(userId, eventPayload)
+    const targetIds = meeting.participants
+      .filter((p) => p.status === "admitted" && p.userId.toString() !== currentUser.id)
+      .map((p) => p.userId.toString())
+    backgroundSave(emitEventToMany(targetIds, eventPayload))
 
     return { success: true }
   } catch (error) {
-    console.error("Error toggling screen share permission:", error)
-    return { success: false, error: "Failed to update permission" }
+    console.error("Error starting recording:", error)
+    return { success: false, error: "Failed to start recording" }
   }
 }
 
-// ── Broadcast speaking level to other participants ──
-
-export async function broadcastSpeakingLevel(
-  meetingId: string,
-  level: number
-): Promise<{ success: boolean; error?: string }> {
+export async function stopMeetingRecording(meetingId: string): Promise<{
+  success: boolean
+  error?: string
+}> {
   try {
     const currentUser = await initAction()
     if (!currentUser) return { success: false, error: "Unauthorized" }
+    if (!Types.ObjectId.isValid(meetingId)) return { success: false, error: "Meeting not found" }
 
-    await connectDB()
-    const meeting = await Meeting.findOne({ meetingId }).lean()
+    const meeting = await Meeting.findById(meetingId)
+      .select("hostId participants.userId participants.status")
+      .lean()
     if (!meeting) return { success: false, error: "Meeting not found" }
+    if (meeting.hostId.toString() !== currentUser.id) {
+      return { success: false, error: "Only the host can record" }
+    }
 
-    const participants = (meeting.participants ?? []) as unknown as IMeetingParticipant[]
-    const admitted = participants.filter(
-      (p) => p.status === "admitted" && p.userId.toString() !== currentUser.id
-    )
-    if (admitted.length === 0) return { success: true }
+    const stopped = await stopActiveRecording(meeting._id, await getRequestOrigin())
+    if (!stopped) return { success: false, error: "This meeting isn't being recorded" }
 
-    const targetIds = admitted.map((p) => p.userId.toString())
     const eventPayload: MeetingEventPayload = {
-      type: "meeting:speaking",
+      type: "meeting:recording-stopped",
       meetingId,
-      meetingTitle: meeting.title,
+      meetingTitle: "",
       userId: currentUser.id,
       userName: `${currentUser.firstName} ${currentUser.lastName}`.trim(),
       userAvatar: currentUser.avatarUrl,
-      speakingLevel: Math.min(1, Math.max(0, level)),
     }
-    await emitEventToMany(targetIds, eventPayload)
+    const targetIds = meeting.participants
+      .filter((p) => p.status === "admitted" && p.userId.toString() !== currentUser.id)
+      .map((p) => p.userId.toString())
+    backgroundSave(emitEventToMany(targetIds, eventPayload))
 
     return { success: true }
   } catch (error) {
-    console.error("Error broadcasting speaking level:", error)
-    return { success: false, error: "Failed to broadcast" }
+    console.error("Error stopping recording:", error)
+    return { success: false, error: "Failed to stop recording" }
   }
 }
 
-// ── Create meeting from course (instructor) ──
+// ── Is the meeting being recorded (on join) ──
 
-export async function createCourseMeeting(
-  courseId: string,
-  title: string,
-  description?: string,
-): Promise<{
+export async function getMeetingRecordingState(meetingId: string): Promise<{
   success: boolean
-  meeting?: MeetingWithDetails
-  authToken?: string
-  notifiedCount?: number
+  isRecording?: boolean
   error?: string
 }> {
   try {
     const currentUser = await initAction()
     if (!currentUser) return { success: false, error: "Unauthorized" }
 
-    // Verify instructor owns this course
+    const member = await getMeetingMember(meetingId, currentUser.id)
+    if (!member) return { success: false, error: "Meeting not found" }
+
+    const recording = await MeetingRecording.exists({ meeting: member.meetingObjectId, status: "recording" })
+    return { success: true, isRecording: !!recording }
+  } catch (error) {
+    console.error("Error getting recording state:", error)
+    return { success: false, error: "Failed to get recording state" }
+  }
+}
+
+// ── Add a course meeting's recording to the course as a video lesson ──
+
+export async function publishRecordingAsLesson(recordingId: string): Promise<{
+  success: boolean
+  lessonId?: string
+  courseId?: string
+  error?: string
+}> {
+  try {
+    const currentUser = await initAction()
+    if (!currentUser) return { success: false, error: "Unauthorized" }
+    if (!Types.ObjectId.isValid(recordingId)) return { success: false, error: "Recording not found" }
+
+    const recording = await MeetingRecording.findById(recordingId).lean()
+    if (!recording) return { success: false, error: "Recording not found" }
+    if (!recording.courseId) {
+      return { success: false, error: "Only recordings of course meetings can become lessons" }
+    }
+    if (recording.status !== "ready" || !recording.videoUrl) {
+      return { success: false, error: "The recording isn't ready yet" }
+    }
+    if (recording.lessonId) return { success: false, error: "This recording is already a lesson" }
+
+    const [meeting, course] = await Promise.all([
+      Meeting.findById(recording.meeting).select("title hostId timeZone").lean(),
+      Course.findOne({ _id: recording.courseId, instructor: currentUser.id }).select("_id").lean(),
+    ])
+    if (!meeting || !course || meeting.hostId.toString() !== currentUser.id) {
+      return { success: false, error: "Recording not found" }
+    }
+
+    const courseId = recording.courseId.toString()
+    const recordedOn = recording.startedAt.toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      timeZone: meeting.timeZone || "UTC",
+    })
+    const created = await createLesson(courseId, currentUser.id, {
+      title: `${meeting.title.slice(0, 120)} (${recordedOn})`,
+      description: `Recording of the live class on ${recordedOn}.`,
+      type: "video",
+    })
+    if (!created.success || !created.data) {
+      return { success: false, error: created.error || "Failed to create lesson" }
+    }
+    const lessonId = created.data.id
+
+    const video = await uploadLessonVideo(lessonId, courseId, currentUser.id, recording.videoUrl)
+    if (!video.success) return { success: false, error: video.error || "Failed to add the video" }
+    const published = await toggleLessonPublish(lessonId, courseId, currentUser.id)
+    if (!published.success) return { success: false, error: published.error || "Failed to publish lesson" }
+
+    await MeetingRecording.updateOne({ _id: recording._id }, { $set: { lessonId } })
+
+    return { success: true, lessonId, courseId }
+  } catch (error) {
+    console.error("Error publishing recording:", error)
+    return { success: false, error: "Failed to add the recording to the course" }
+  }
+}
+
+// ── Breakout rooms (host only) ──
+
+/** "auto" shuffles everyone into rooms; otherwise a room index per user ID */
+export type BreakoutAssignment = "auto" | Record<string, number>
+
+const MIN_BREAKOUT_ROOMS = 2
+const MAX_BREAKOUT_ROOMS = 10
+const MAX_BREAKOUT_MINUTES = 120
+const MAX_BREAKOUT_MESSAGE_LENGTH = 500
+
+function serializeBreakoutRooms(rooms: IMeetingBreakoutRoom[]): BreakoutRoomState[] {
+  return rooms
+    .filter((room) => room.status === "open")
+    .map((room) => ({
+      id: room._id.toString(),
+      name: room.name,
+      participantIds: room.participants.map((id) => id.toString()),
+    }))
+}
+
+/** Whether the breakout timer has run out — rooms close then even if no one closes them */
+function breakoutTimeIsUp(meeting: { breakoutEndsAt?: Date | null }) {
+  return !!meeting.breakoutEndsAt && meeting.breakoutEndsAt.getTime() <= Date.now()
+}
+
+/**
+ * Close a meeting's open breakout rooms, end their RealtimeKit sessions and
+ * send everyone back to the main room. With `onlyIfTimeIsUp` nothing
+ * happens before the timer runs out. The timer, the host and anyone who
+ * joins late can all close the rooms — only the first close counts.
+ */
+async function closeOpenBreakoutRooms(
+  meetingId: Types.ObjectId,
+  closedBy: NonNullable<Awaited<ReturnType<typeof initAction>>>,
+  onlyIfTimeIsUp = false
+) {
+  const closing = await Meeting.findOneAndUpdate(
+    {
+      _id: meetingId,
+      "breakoutRooms.status": "open",
+      ...(onlyIfTimeIsUp ? { breakoutEndsAt: { $lte: new Date() } } : {}),
+    },
+    { $set: { "breakoutRooms.$[room].status": "closed" }, $unset: { breakoutEndsAt: 1 } },
+    { arrayFilters: [{ "room.status": "open" }] }
+  )
+    .select("title hostId breakoutRooms participants.userId participants.status")
+    .lean()
+  if (!closing) return false
+
+  const openRooms = closing.breakoutRooms.filter((room) => room.status === "open")
+  backgroundSave(Promise.all(openRooms.map((room) => endRTKMeeting(room.rtkMeetingId))))
+
+  const eventPayload: MeetingEventPayload = {
+    type: "meeting:breakout-closed",
+    meetingId: meetingId.toString(),
+    meetingTitle: closing.title,
+    userId: closedBy.id,
+    userName: `${closedBy.firstName} ${closedBy.lastName}`.trim(),
+    userAvatar: closedBy.avatarUrl,
+  }
+  const targetIds = new Set(
+    closing.participants.filter((p) => p.status === "admitted").map((p) => p.userId.toString())
+  )
+  targetIds.add(closing.hostId.toString())
+  targetIds.delete(closedBy.id)
+  backgroundSave(emitEventToMany([...targetIds], eventPayload))
+  return true
+}
+
+export async function openBreakoutRooms(
+  meetingId: string,
+  options: { roomCount: number; assignment: BreakoutAssignment; durationMinutes?: number | null }
+): Promise<{
+  success: boolean
+  rooms?: BreakoutRoomState[]
+  endsAt?: string | null
+  error?: string
+}> {
+  try {
+    const currentUser = await initAction()
+    if (!currentUser) return { success: false, error: "Unauthorized" }
+    if (!Types.ObjectId.isValid(meetingId)) return { success: false, error: "Meeting not found" }
+
+    const meeting = await Meeting.findOne({ _id: meetingId, status: { $in: ["waiting", "active"] } })
+    if (!meeting) return { success: false, error: "Meeting not found" }
+    if (meeting.hostId.toString() !== currentUser.id) {
+      return { success: false, error: "Only the host can open breakout rooms" }
+    }
+    if (meeting.breakoutRooms.some((room) => room.status === "open")) {
+      return { success: false, error: "Breakout rooms are already open" }
+    }
+
+    const { roomCount, assignment, durationMinutes } = options
+    if (!Number.isInteger(roomCount) || roomCount < MIN_BREAKOUT_ROOMS || roomCount > MAX_BREAKOUT_ROOMS) {
+      return { success: false, error: `Choose between ${MIN_BREAKOUT_ROOMS} and ${MAX_BREAKOUT_ROOMS} rooms` }
+    }
+    if (
+      durationMinutes != null &&
+      (!Number.isInteger(durationMinutes) || durationMinutes < 1 || durationMinutes > MAX_BREAKOUT_MINUTES)
+    ) {
+      return { success: false, error: `Timers can run for up to ${MAX_BREAKOUT_MINUTES} minutes` }
+    }
+
+    const attendeeIds = meeting.participants
+      .filter((p) => p.status === "admitted" && p.userId.toString() !== currentUser.id)
+      .map((p) => p.userId.toString())
+    if (attendeeIds.length === 0) {
+      return { success: false, error: "There's no one to send to breakout rooms yet" }
+    }
+
+    const roomMembers: string[][] = Array.from({ length: roomCount }, () => [])
+    if (assignment === "auto") {
+      const shuffled = [...attendeeIds]
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1))
+        ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+      }
+      shuffled.forEach((id, i) => roomMembers[i % roomCount].push(id))
+    } else {
+      // Anyone left unassigned stays in the main room
+      for (const [userId, roomIndex] of Object.entries(assignment)) {
+        if (!attendeeIds.includes(userId)) continue
+        if (!Number.isInteger(roomIndex) || roomIndex < 0 || roomIndex >= roomCount) {
+          return { success: false, error: "Invalid room assignment" }
+        }
+        roomMembers[roomIndex].push(userId)
+      }
+      if (roomMembers.every((members) => members.length === 0)) {
+        return { success: false, error: "Assign at least one person to a room" }
+      }
+    }
+
+    const rtkMeetingIds = await Promise.all(
+      roomMembers.map((_, i) => createRTKMeeting(`Breakout: ${meeting.title} — Room ${i + 1}`))
+    )
+    meeting.breakoutRooms = rtkMeetingIds.map((rtkMeetingId, i) => ({
+      _id: new Types.ObjectId(),
+      name: `Room ${i + 1}`,
+      rtkMeetingId,
+      participants: roomMembers[i].map((id) => new Types.ObjectId(id)),
+      status: "open" as const,
+    }))
+    meeting.breakoutEndsAt = durationMinutes ? new Date(Date.now() + durationMinutes * 60 * 1000) : undefined
+    await meeting.save()
+
+    const rooms = serializeBreakoutRooms(meeting.breakoutRooms)
+    const endsAt = meeting.breakoutEndsAt?.toISOString() ?? null
+    const eventPayload: MeetingEventPayload = {
+      type: "meeting:breakout-opened",
+      meetingId,
+      meetingTitle: meeting.title,
+      userId: currentUser.id,
+      userName: `${currentUser.firstName} ${currentUser.lastName}`.trim(),
+      userAvatar: currentUser.avatarUrl,
+      breakoutRooms: rooms,
+      breakoutEndsAt: endsAt,
+    }
+    backgroundSave(emitEventToMany(attendeeIds, eventPayload))
+
+    return { success: true, rooms, endsAt }
+  } catch (error) {
+    console.error("Error opening breakout rooms:", error)
+    return { success: false, error: "Failed to open breakout rooms" }
+  }
+}
+
+// ── Get the open breakout rooms (on join) ──
+
+export async function getBreakoutRooms(meetingId: string): Promise<{
+  success: boolean
+  rooms?: BreakoutRoomState[]
+  endsAt?: string | null
+  error?: string
+}> {
+  try {
+    const currentUser = await initAction()
+    if (!currentUser) return { success: false, error: "Unauthorized" }
+
+    const member = await getMeetingMember(meetingId, currentUser.id)
+    if (!member) return { success: false, error: "Meeting not found" }
+
+    const meeting = await Meeting.findById(member.meetingObjectId)
+      .select("breakoutRooms breakoutEndsAt")
+      .lean()
+    if (!meeting) return { success: false, error: "Meeting not found" }
+    if (breakoutTimeIsUp(meeting)) {
+      await closeOpenBreakoutRooms(member.meetingObjectId, currentUser, true)
+      return { success: true, rooms: [], endsAt: null }
+    }
+
+    return {
+      success: true,
+      rooms: serializeBreakoutRooms(meeting.breakoutRooms ?? []),
+      endsAt: meeting.breakoutEndsAt?.toISOString() ?? null,
+    }
+  } catch (error) {
+    console.error("Error getting breakout rooms:", error)
+    return { success: false, error: "Failed to get breakout rooms" }
+  }
+}
+
+// ── Move into a breakout room, or back to the main room (roomId null) ──
+
+export async function switchBreakoutRoom(
+  meetingId: string,
+  roomId: string | null
+): Promise<{ success: boolean; authToken?: string; error?: string }> {
+  try {
+    const currentUser = await initAction()
+    if (!currentUser) return { success: false, error: "Unauthorized" }
+
+    const member = await getMeetingMember(meetingId, currentUser.id)
+    if (!member) return { success: false, error: "Meeting not found" }
+
+    const meeting = await Meeting.findById(member.meetingObjectId)
+      .select("hostId meetingId hostToken breakoutRooms breakoutEndsAt")
+      .lean()
+    if (!meeting) return { success: false, error: "Meeting not found" }
+    const isHost = meeting.hostId.toString() === currentUser.id
+    if (roomId && breakoutTimeIsUp(meeting)) {
+      await closeOpenBreakoutRooms(member.meetingObjectId, currentUser, true)
+      return { success: false, error: "This breakout room has closed" }
+    }
+
+    if (!roomId) {
+      if (isHost) return { success: true, authToken: meeting.hostToken }
+      const participant = await addParticipant(meeting.meetingId, {
+        name: `${currentUser.firstName} ${currentUser.lastName}`.trim(),
+        customParticipantId: currentUser.id,
+        presetName: "group_call_participant",
+      })
+      return { success: true, authToken: participant.authToken }
+    }
+
+    const room = meeting.breakoutRooms?.find((r) => r._id.toString() === roomId && r.status === "open")
+    if (!room) return { success: false, error: "This breakout room has closed" }
+    // The host can visit any room; everyone else only the one they were put in
+    if (!isHost && !room.participants.some((id) => id.toString() === currentUser.id)) {
+      return { success: false, error: "You aren't in this breakout room" }
+    }
+
+    const participant = await addParticipant(room.rtkMeetingId, {
+      name: `${currentUser.firstName} ${currentUser.lastName}`.trim(),
+      customParticipantId: currentUser.id,
+      presetName: isHost ? "group_call_host" : "group_call_participant",
+    })
+    return { success: true, authToken: participant.authToken }
+  } catch (error) {
+    console.error("Error switching breakout room:", error)
+    return { success: false, error: "Failed to switch rooms" }
+  }
+}
+
+// ── Send a message to every breakout room ──
+
+export async function broadcastToBreakoutRooms(
+  meetingId: string,
+  message: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const currentUser = await initAction()
+    if (!currentUser) return { success: false, error: "Unauthorized" }
+    if (!Types.ObjectId.isValid(meetingId)) return { success: false, error: "Meeting not found" }
+
+    const text = message.trim()
+    if (!text) return { success: false, error: "Message is empty" }
+    if (text.length > MAX_BREAKOUT_MESSAGE_LENGTH) return { success: false, error: "Message is too long" }
+
+    const meeting = await Meeting.findOne({ _id: meetingId, status: { $in: ["waiting", "active"] } })
+      .select("title hostId breakoutRooms participants.userId participants.status")
+      .lean()
+    if (!meeting) return { success: false, error: "Meeting not found" }
+    if (meeting.hostId.toString() !== currentUser.id) {
+      return { success: false, error: "Only the host can message breakout rooms" }
+    }
+    if (!meeting.breakoutRooms?.some((room) => room.status === "open")) {
+      return { success: false, error: "No breakout rooms are open" }
+    }
+
+    const eventPayload: MeetingEventPayload = {
+      type: "meeting:breakout-broadcast",
+      meetingId,
+      meetingTitle: meeting.title,
+      userId: currentUser.id,
+      userName: `${currentUser.firstName} ${currentUser.lastName}`.trim(),
+      userAvatar: currentUser.avatarUrl,
+      breakoutMessage: text,
+    }
+    const targetIds = meeting.participants
+      .filter((p) => p.status === "admitted" && p.userId.toString() !== currentUser.id)
+      .map((p) => p.userId.toString())
+    await emitEventToMany(targetIds, eventPayload)
+
+    return { success: true }
+  } catch (error) {
+    console.error("Error broadcasting to breakout rooms:", error)
+    return { success: false, error: "Failed to send message" }
+  }
+}
+
+// ── Close breakout rooms and bring everyone back to the main room ──
+// The host can close them at any time; anyone in the meeting once the timer
+// has run out, so rooms still close if the host has left.
+
+export async function closeBreakoutRooms(meetingId: string): Promise<{
+  success: boolean
+  error?: string
+}> {
+  try {
+    const currentUser = await initAction()
+    if (!currentUser) return { success: false, error: "Unauthorized" }
+
+    const member = await getMeetingMember(meetingId, currentUser.id)
+    if (!member) return { success: false, error: "Meeting not found" }
+
+    if (!member.isHost) {
+      const meeting = await Meeting.findById(member.meetingObjectId).select("breakoutEndsAt").lean()
+      if (!meeting?.breakoutEndsAt) {
+        return { success: false, error: "Only the host can close breakout rooms" }
+      }
+      if (!breakoutTimeIsUp(meeting)) {
+        return { success: false, error: "The breakout timer hasn't run out yet" }
+      }
+    }
+
+    await closeOpenBreakoutRooms(member.meetingObjectId, currentUser, !member.isHost)
+    return { success: true }
+  } catch (error) {
+    console.error("Error closing breakout rooms:", error)
+    return { success: false, error: "Failed to close breakout rooms" }
+  }
+}
+
+// ── Mute a participant (host only) ──
+
+export async function muteParticipant(
+  meetingId: string,
+  userId: string,
+  muteType: "audio" | "video" | "screenshare" = "audio",
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const currentUser = await initAction()
+    if (!currentUser) return { success: false, error: "Unauthorized" }
+
+    const eventPayload: MeetingEventPayload = {
+      type: "meeting:mute-participant",
+      meetingId,
+      meetingTitle: "",
+      userId: currentUser.id,
+      userName: `${currentUser.firstName} ${currentUser.lastName}`.trim(),
+      userAvatar: currentUser.avatarUrl,
+      muteType,
+    }
+    await emitEvent(userId, eventPayload)
+
+    return { success: true }
+  } catch (error) {
+    console.error("Error muting participant:", error)
+    return { success: false, error: "Failed to mute participant" }
+  }
+}
+
+// ── Toggle screen share permission (host only) ──
+
+export async function toggleScreenSharePermission(
+  meetingId: string,
+  userId: string,
+  allowed: boolean
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const currentUser = await initAction()
+    if (!currentUser) return { success: false, error: "Unauthorized" }
+
+    const eventPayload: MeetingEventPayload = {
+      type: "meeting:screen-share-permission",
+      meetingId,
+      meetingTitle: "",
+      userId: currentUser.id,
+      userName: `${currentUser.firstName} ${currentUser.lastName}`.trim(),
+      userAvatar: currentUser.avatarUrl,
+      canScreenShare: allowed,
+    }
+    await emitEvent(userId, eventPayload)
+
+    return { success: true }
+  } catch (error) {
+    console.error("Error toggling screen share permission:", error)
+    return { success: false, error: "Failed to update permission" }
+  }
+}
+
+// ── Broadcast speaking level to other participants ──
+
+export async function broadcastSpeakingLevel(
+  meetingId: string,
+  level: number
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const currentUser = await initAction()
+    if (!currentUser) return { success: false, error: "Unauthorized" }
+
+    await connectDB()
+    const meeting = await Meeting.findOne({ meetingId }).lean()
+    if (!meeting) return { success: false, error: "Meeting not found" }
+
+    const participants = (meeting.participants ?? []) as unknown as IMeetingParticipant[]
+    const admitted = participants.filter(
+      (p) => p.status === "admitted" && p.userId.toString() !== currentUser.id
+    )
+    if (admitted.length === 0) return { success: true }
+
+    const targetIds = admitted.map((p) => p.userId.toString())
+    const eventPayload: MeetingEventPayload = {
+      type: "meeting:speaking",
+      meetingId,
+      meetingTitle: meeting.title,
+      userId: currentUser.id,
+      userName: `${currentUser.firstName} ${currentUser.lastName}`.trim(),
+      userAvatar: currentUser.avatarUrl,
+      speakingLevel: Math.min(1, Math.max(0, level)),
+    }
+    await emitEventToMany(targetIds, eventPayload)
+
+    return { success: true }
+  } catch (error) {
+    console.error("Error broadcasting speaking level:", error)
+    return { success: false, error: "Failed to broadcast" }
+  }
+}
+
+// ── Create meeting from course (instructor) ──
+
+export async function createCourseMeeting(
+  courseId: string,
+  title: string,
+  description?: string,
+): Promise<{
+  success: boolean
+  meeting?: MeetingWithDetails
+  authToken?: string
+  notifiedCount?: number
+  error?: string
+}> {
+  try {
+    const currentUser = await initAction()
+    if (!currentUser) return { success: false, error: "Unauthorized" }
+
+    // Verify instructor owns this course
     const course = await Course.findOne({
       _id: courseId,
       instructor: new Types.ObjectId(currentUser.id),
@@ -1762,6 +2770,7 @@ export async function createCourseMeeting(
           role: "host",
           status: "admitted",
           joinedAt: new Date(),
+          sessions: [{ joinedAt: new Date() }],
         },
       ],
       settings: {
@@ -1789,7 +2798,12 @@ export async function createCourseMeeting(
           .select("user")
           .lean()
 
-        const studentIds = enrollments.map((e) => e.user.toString())
+        // Only students who haven't turned off meeting emails
+        const studentIds = await filterRecipients(
+          enrollments.map((e) => e.user.toString()),
+          "meetings",
+          "email"
+        )
         if (studentIds.length === 0) return
 
         const students = await User.find({ _id: { $in: studentIds } })
@@ -1805,6 +2819,7 @@ export async function createCourseMeeting(
             meetingLink,
             courseName: course.title,
             courseThumbnailUrl: course.thumbnailUrl || undefined,
+            unsubscribeUrl: buildUnsubscribeUrl(student._id.toString(), "meetings"),
           })
         )
         await Promise.allSettled(emailPromises)
@@ -1845,6 +2860,94 @@ export async function createCourseMeeting(
   }
 }
 
+// ── Attendance (course meetings) ──
+
+const MAX_ATTENDANCE_MINUTES = 600
+
+/**
+ * Complete the meeting's live lesson for everyone who attended long enough.
+ * Safe to run again — lessons already completed stay completed.
+ */
+async function creditAttendanceLesson(meeting: IMeeting) {
+  if (!meeting.attendanceLesson || !meeting.courseId) return 0
+  const courseId = meeting.courseId.toString()
+  const lessonId = meeting.attendanceLesson.lessonId.toString()
+  const userIds = getQualifyingAttendees(meeting, meeting.attendanceLesson.minMinutes)
+  // Attendees who aren't enrolled in the course are skipped, and one failure
+  // doesn't keep the others from their credit
+  const results = await Promise.allSettled(
+    userIds.map((userId) => recordLessonCompletion(userId, courseId, lessonId))
+  )
+  for (const r of results) {
+    if (r.status === "rejected") console.error("[Meeting] Attendance credit failed:", r.reason)
+  }
+  return results.filter((r) => r.status === "fulfilled" && r.value.success).length
+}
+
+export async function getMeetingAttendance(meetingId: string): Promise<{
+  success: boolean
+  report?: AttendanceReport
+  error?: string
+}> {
+  try {
+    const currentUser = await initAction()
+    if (!currentUser) return { success: false, error: "Unauthorized" }
+
+    const report = await getAttendanceReport(meetingId, currentUser)
+    if (!report) return { success: false, error: "Meeting not found" }
+
+    return { success: true, report }
+  } catch (error) {
+    console.error("Error getting meeting attendance:", error)
+    return { success: false, error: "Failed to load attendance" }
+  }
+}
+
+// ── Count attendance toward a live lesson (course instructor only) ──
+
+export async function countAttendanceTowardLesson(
+  meetingId: string,
+  lessonId: string | null,
+  minMinutes: number
+): Promise<{ success: boolean; credited?: number; error?: string }> {
+  try {
+    const currentUser = await initAction()
+    if (!currentUser) return { success: false, error: "Unauthorized" }
+    if (!Types.ObjectId.isValid(meetingId)) return { success: false, error: "Meeting not found" }
+
+    const meeting = await Meeting.findById(meetingId)
+    if (!meeting?.courseId) return { success: false, error: "Meeting not found" }
+    const course = await Course.findById(meeting.courseId).select("instructor").lean()
+    if (!course || course.instructor.toString() !== currentUser.id) {
+      return { success: false, error: "Only the course instructor can do this" }
+    }
+
+    // Completions already given stay when the lesson is unlinked
+    if (!lessonId) {
+      meeting.attendanceLesson = undefined
+      await meeting.save()
+      return { success: true, credited: 0 }
+    }
+
+    if (!Number.isInteger(minMinutes) || minMinutes < 1 || minMinutes > MAX_ATTENDANCE_MINUTES) {
+      return { success: false, error: `Minimum attendance must be 1–${MAX_ATTENDANCE_MINUTES} minutes` }
+    }
+    if (!Types.ObjectId.isValid(lessonId)) return { success: false, error: "Lesson not found" }
+    const lesson = await Lesson.exists({ _id: lessonId, course: meeting.courseId, type: "live" })
+    if (!lesson) return { success: false, error: "Choose one of the course's live lessons" }
+
+    meeting.attendanceLesson = { lessonId: new Types.ObjectId(lessonId), minMinutes }
+    await meeting.save()
+
+    // Anyone still in a running meeting gets credit once it ends
+    const credited = await creditAttendanceLesson(meeting)
+    return { success: true, credited }
+  } catch (error) {
+    console.error("Error counting attendance toward lesson:", error)
+    return { success: false, error: "Failed to update the lesson" }
+  }
+}
+
 // ── Invite user by email ──
 
 export type InviteResult = {
@@ -1903,26 +3006,40 @@ export async function inviteByEmail(
       }
     }
 
-    // Send invite email
+    // Send invite email (unless the invitee turned meeting emails off)
     const headersList = await headers()
     const host = headersList.get("host") || "academy.worldstreetgold.com"
     const protocol = headersList.get("x-forwarded-proto") || "https"
     const meetingLink = `${protocol}://${host}/dashboard/meetings?join=${meetingId}`
-    const result = await sendMeetingInviteEmail(invitee.email, {
-      meetingTitle: meeting.title,
-      hostName: `${currentUser.firstName} ${currentUser.lastName}`.trim(),
-      hostAvatarUrl: currentUser.avatarUrl || undefined,
-      meetingLink,
-      courseName: undefined,
-      courseThumbnailUrl: meeting.courseThumbnailUrl || undefined,
-      inviteeName: invitee.firstName,
-      inviteeAvatarUrl: invitee.avatarUrl || undefined,
-    })
+    const hostName = `${currentUser.firstName} ${currentUser.lastName}`.trim()
+    const inviteeId = invitee._id.toString()
 
-    if (!result.success) {
-      return { success: false, status: "error", email, error: result.error }
+    if (await wantsNotification(inviteeId, "meetings", "email")) {
+      const result = await sendMeetingInviteEmail(invitee.email, {
+        meetingTitle: meeting.title,
+        hostName,
+        hostAvatarUrl: currentUser.avatarUrl || undefined,
+        meetingLink,
+        courseName: undefined,
+        courseThumbnailUrl: meeting.courseThumbnailUrl || undefined,
+        inviteeName: invitee.firstName,
+        inviteeAvatarUrl: invitee.avatarUrl || undefined,
+        unsubscribeUrl: buildUnsubscribeUrl(inviteeId, "meetings"),
+      })
+
+      if (!result.success) {
+        return { success: false, status: "error", email, error: result.error }
+      }
     }
 
+    await notifyUser(inviteeId, {
+      type: "meeting_invite",
+      title: `${hostName} invited you to a meeting`,
+      message: meeting.title,
+      href: `/dashboard/meetings?join=${meetingId}`,
+      imageUrl: currentUser.avatarUrl || null,
+    })
+
     // Record invite
     meeting.invites = meeting.invites || []
     meeting.invites.push({
@@ -2042,7 +3159,7 @@ export async function getMyMeetingInvites(): Promise<{
     const [directInvites, enrollments] = await Promise.all([
       Meeting.find({
         "invites.userId": new Types.ObjectId(currentUser.id),
-        status: { $in: ["active", "waiting", "scheduled"] },
+        status: { $in: ["active", "waiting"] },
       })
         .select("title hostId courseId courseThumbnailUrl status createdAt invites")
         .lean(),
@@ -2060,7 +3177,7 @@ export async function getMyMeetingInvites(): Promise<{
       enrolledCourseIds.length > 0
         ? await Meeting.find({
             courseId: { $in: enrolledCourseIds },
-            status: { $in: ["active", "waiting", "scheduled"] },
+            status: { $in: ["active", "waiting"] },
             hostId: { $ne: new Types.ObjectId(currentUser.id) },
           })
             .select("title hostId courseId courseThumbnailUrl status createdAt")
@@ -2154,4 +3271,325 @@ export async function getInstructorCoursesForMeeting(): Promise<{
     console.error("Error fetching instructor courses:", error)
     return { success: false, error: "Failed to fetch courses" }
   }
-}
\ No newline at end of file
+}
+
+// ── Scheduled meetings ──
+
+export type ScheduleMeetingInput = {
+  title: string
+  description?: string
+  /** ISO start of the first (or only) occurrence */
+  startsAt: string
+  durationMinutes: number
+  /** IANA time zone of the host's browser — weekly slots keep its local time */
+  timeZone: string
+  /** 1 for a one-off meeting, otherwise the number of weekly occurrences */
+  occurrences: number
+  settings: MeetingSettings
+  /** Platform users to invite, by email */
+  inviteEmails: string[]
+  /** Invite every student enrolled in one of the host's published courses */
+  courseId?: string
+}
+
+export type UpcomingMeeting = {
+  id: string
+  title: string
+  description?: string
+  hostId: string
+  hostName: string
+  hostAvatar: string | null
+  scheduledAt: string
+  durationMinutes: number
+  courseName: string | null
+  courseThumbnailUrl: string | null
+  /** Position in a weekly series, e.g. 3 of 10 */
+  series: { index: number; count: number } | null
+}
+
+const MAX_SCHEDULE_INVITES = 50
+
+export async function scheduleMeeting(input: ScheduleMeetingInput): Promise<{
+  success: boolean
+  scheduledCount?: number
+  /** Invite emails that don't belong to a platform user */
+  notFound?: string[]
+  error?: string
+}> {
+  try {
+    const currentUser = await initAction()
+    if (!currentUser) return { success: false, error: "Unauthorized" }
+
+    const title = input.title.trim().slice(0, 200)
+    if (!title) return { success: false, error: "Give the meeting a name" }
+
+    const startsAt = new Date(input.startsAt)
+    if (isNaN(startsAt.getTime()) || startsAt.getTime() < Date.now() - 60 * 1000) {
+      return { success: false, error: "Pick a start time in the future" }
+    }
+
+    const durationMinutes = Math.round(input.durationMinutes)
+    if (!(durationMinutes >= 15 && durationMinutes <= 8 * 60)) {
+      return { success: false, error: "Meetings can last from 15 minutes to 8 hours" }
+    }
+
+    const occurrences = Math.round(input.occurrences)
+    if (!(occurrences >= 1 && occurrences <= MAX_SERIES_OCCURRENCES)) {
+      return { success: false, error: `A weekly series can have up to ${MAX_SERIES_OCCURRENCES} meetings` }
+    }
+
+    const emails = [...new Set(input.inviteEmails.map((e) => e.toLowerCase().trim()).filter(Boolean))]
+    if (emails.length > MAX_SCHEDULE_INVITES) {
+      return { success: false, error: `You can invite up to ${MAX_SCHEDULE_INVITES} people at once` }
+    }
+
+    const course = input.courseId
+      ? Types.ObjectId.isValid(input.courseId)
+        ? await Course.findOne({
+            _id: input.courseId,
+            instructor: new Types.ObjectId(currentUser.id),
+            status: "published",
+          })
+            .select("title thumbnailUrl")
+            .lean()
+        : null
+      : undefined
+    if (course === null) return { success: false, error: "Course not found" }
+
+    const invitees = emails.length
+      ? await User.find({ email: { $in: emails }, _id: { $ne: new Types.ObjectId(currentUser.id) } })
+          .select("firstName email avatarUrl")
+          .lean()
+      : []
+    const foundEmails = new Set(invitees.map((u) => u.email.toLowerCase()))
+    const notFound = emails.filter(
+      (e) => !foundEmails.has(e) && e !== currentUser.email.toLowerCase()
+    )
+
+    const timeZone = isValidTimeZone(input.timeZone) ? input.timeZone : "UTC"
+    const starts = getWeeklyOccurrences(startsAt, occurrences, timeZone)
+    const seriesId = occurrences > 1 ? new Types.ObjectId() : null
+    const description = input.description?.trim().slice(0, 2000) || undefined
+    const now = new Date()
+
+    const meetings = await Meeting.insertMany(
+      starts.map((scheduledAt, index) => ({
+        title,
+        description,
+        hostId: new Types.ObjectId(currentUser.id),
+        status: "scheduled",
+        courseId: course?._id,
+        courseThumbnailUrl: course?.thumbnailUrl || undefined,
+        invites: invitees.map((u) => ({ userId: u._id, email: u.email, status: "sent", sentAt: now })),
+        settings: {
+          allowScreenShare: !!input.settings.allowScreenShare,
+          muteOnEntry: !!input.settings.muteOnEntry,
+          requireApproval: !!input.settings.requireApproval,
+          guestAccess: !!input.settings.guestAccess,
+          maxParticipants: Math.min(Math.max(Math.round(input.settings.maxParticipants) || 50, 2), 100),
+        },
+        scheduledAt,
+        durationMinutes,
+        timeZone,
+        series: seriesId ? { id: seriesId, index, count: occurrences } : undefined,
+        remindersSent: getElapsedReminders(scheduledAt, now),
+      }))
+    )
+
+    // Fire-and-forget: invite emails (with the series as an .ics) + in-app notices
+    const headersList = await headers()
+    const host = headersList.get("host") || "academy.worldstreetgold.com"
+    const protocol = headersList.get("x-forwarded-proto") || "https"
+    const linkFor = (id: string) => `${protocol}://${host}/dashboard/meetings?join=${id}`
+    const hostName = `${currentUser.firstName} ${currentUser.lastName}`.trim()
+    const first = meetings[0]
+    const calendarFile = buildMeetingCalendar(
+      meetings.map((m) => ({
+        uid: meetingEventUid(m._id),
+        start: m.scheduledAt!,
+        durationMinutes,
+        title: occurrences > 1 ? `${title} (${m.series!.index + 1}/${occurrences})` : title,
+        description,
+        url: linkFor(m._id.toString()),
+      }))
+    )
+    const emailData = {
+      meetingTitle: occurrences > 1 ? `${title} — weekly, ${occurrences} sessions` : title,
+      hostName,
+      hostAvatarUrl: currentUser.avatarUrl || undefined,
+      meetingLink: linkFor(first._id.toString()),
+      courseName: course?.title,
+      courseThumbnailUrl: course?.thumbnailUrl || undefined,
+      scheduledAt: first.scheduledAt!.toISOString(),
+      timeZone,
+      calendarFile,
+    }
+
+    backgroundSave(
+      (async () => {
+        const inviteeIds = invitees.map((u) => u._id.toString())
+        const emailInvitees = new Set(await filterRecipients(inviteeIds, "meetings", "email"))
+        await Promise.allSettled(
+          invitees
+            .filter((u) => emailInvitees.has(u._id.toString()))
+            .map((u) =>
+              sendMeetingInviteEmail(u.email, {
+                ...emailData,
+                inviteeName: u.firstName,
+                inviteeAvatarUrl: u.avatarUrl || undefined,
+                unsubscribeUrl: buildUnsubscribeUrl(u._id.toString(), "meetings"),
+              })
+            )
+        )
+
+        let studentIds: string[] = []
+        if (course) {
+          const enrollments = await Enrollment.find({
+            course: course._id,
+            status: { $in: ["active", "completed"] },
+          })
+            .select("user")
+            .lean()
+          studentIds = enrollments
+            .map((e) => e.user.toString())
+            .filter((id) => id !== currentUser.id && !inviteeIds.includes(id))
+
+          const emailStudentIds = await filterRecipients(studentIds, "meetings", "email")
+          const students = await User.find({ _id: { $in: emailStudentIds } }).select("email").lean()
+          await Promise.allSettled(
+            students.map((student) =>
+              sendMeetingNotificationEmail(student.email, {
+                ...emailData,
+                unsubscribeUrl: buildUnsubscribeUrl(student._id.toString(), "meetings"),
+              })
+            )
+          )
+        }
+
+        await notifyUsers([...inviteeIds, ...studentIds], {
+          type: "meeting_invite",
+          title: `${hostName} scheduled a meeting`,
+          message: title,
+          href: "/dashboard/meetings",
+          imageUrl: course?.thumbnailUrl || currentUser.avatarUrl || null,
+        })
+      })()
+    )
+
+    return { success: true, scheduledCount: meetings.length, notFound }
+  } catch (error) {
+    console.error("Error scheduling meeting:", error)
+    return { success: false, error: "Failed to schedule meeting" }
+  }
+}
+
+// ── Get upcoming scheduled meetings (hosting, invited or course sessions) ──
+
+export async function getUpcomingMeetings(): Promise<{
+  success: boolean
+  meetings?: UpcomingMeeting[]
+  error?: string
+}> {
+  try {
+    const currentUser = await initAction()
+    if (!currentUser) return { success: false, error: "Unauthorized" }
+
+    const userId = new Types.ObjectId(currentUser.id)
+    const enrollments = await Enrollment.find({
+      user: userId,
+      status: { $in: ["active", "completed"] },
+    })
+      .select("course")
+      .lean()
+
+    // Meetings stay listed until their slot is over, so latecomers can still open them
+    const now = Date.now()
+    const meetings = await Meeting.find({
+      status: "scheduled",
+      scheduledAt: { $gte: new Date(now - 8 * 60 * 60 * 1000) },
+      $or: [
+        { hostId: userId },
+        { "invites.userId": userId },
+        ...(enrollments.length > 0 ? [{ courseId: { $in: enrollments.map((e) => e.course) } }] : []),
+      ],
+    })
+      .select("title description hostId scheduledAt durationMinutes courseId courseThumbnailUrl series")
+      .sort({ scheduledAt: 1 })
+      .limit(50)
+      .lean()
+
+    const current = meetings.filter(
+      (m) =>
+        m.scheduledAt!.getTime() + (m.durationMinutes ?? DEFAULT_MEETING_DURATION) * 60 * 1000 > now
+    )
+    if (current.length === 0) return { success: true, meetings: [] }
+
+    const hostIds = [...new Set(current.map((m) => m.hostId.toString()))]
+    const courseIds = [...new Set(current.filter((m) => m.courseId).map((m) => m.courseId!.toString()))]
+    const [hosts, courses] = await Promise.all([
+      User.find({ _id: { $in: hostIds } }).select("firstName lastName avatarUrl").lean(),
+      courseIds.length > 0
+        ? Course.find({ _id: { $in: courseIds } }).select("title").lean()
+        : Promise.resolve([]),
+    ])
+    const hostMap = new Map(hosts.map((h) => [h._id.toString(), h]))
+    const courseMap = new Map(courses.map((c) => [c._id.toString(), c]))
+
+    return {
+      success: true,
+      meetings: current.map((m) => {
+        const host = hostMap.get(m.hostId.toString())
+        const course = m.courseId ? courseMap.get(m.courseId.toString()) : null
+        return {
+          id: m._id.toString(),
+          title: m.title,
+          description: m.description,
+          hostId: m.hostId.toString(),
+          hostName: host ? `${host.firstName} ${host.lastName}`.trim() : "Unknown",
+          hostAvatar: host?.avatarUrl || null,
+          scheduledAt: m.scheduledAt!.toISOString(),
+          durationMinutes: m.durationMinutes ?? DEFAULT_MEETING_DURATION,
+          courseName: course?.title || null,
+          courseThumbnailUrl: m.courseThumbnailUrl || null,
+          series: m.series ? { index: m.series.index, count: m.series.count } : null,
+        }
+      }),
+    }
+  } catch (error) {
+    console.error("Error fetching upcoming meetings:", error)
+    return { success: false, error: "Failed to fetch upcoming meetings" }
+  }
+}
+
+// ── Cancel a scheduled meeting (host only) ──
+
+export async function cancelScheduledMeeting(
+  meetingId: string,
+  /** Also cancel the rest of its weekly series */
+  includeFollowing = false
+): Promise<{ success: boolean; cancelledCount?: number; error?: string }> {
+  try {
+    const currentUser = await initAction()
+    if (!currentUser) return { success: false, error: "Unauthorized" }
+    if (!Types.ObjectId.isValid(meetingId)) return { success: false, error: "Meeting not found" }
+
+    const meeting = await Meeting.findOne({ _id: meetingId, status: "scheduled" })
+      .select("hostId series scheduledAt")
+      .lean()
+    if (!meeting) return { success: false, error: "Meeting not found" }
+    if (meeting.hostId.toString() !== currentUser.id) {
+      return { success: false, error: "Only the host can cancel a meeting" }
+    }
+
+    const { deletedCount } = await Meeting.deleteMany(
+      includeFollowing && meeting.series
+        ? { "series.id": meeting.series.id, status: "scheduled", scheduledAt: { $gte: meeting.scheduledAt } }
+        : { _id: meeting._id, status: "scheduled" }
+    )
+
+    return { success: true, cancelledCount: deletedCount }
+  } catch (error) {
+    console.error("Error cancelling meeting:", error)
+    return { success: false, error: "Failed to cancel meeting" }
+  }
+}
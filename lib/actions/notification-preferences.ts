@@ -0,0 +1,71 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import connectDB from "@/lib/db"
+import { NotificationPreference } from "@/lib/db/models"
+import { getCurrentUser } from "@/lib/auth"
+import {
+  NOTIFICATION_CATEGORIES,
+  getNotificationPreferences,
+  type NotificationPreferences,
+} from "@/lib/notification-preferences"
+
+/**
+ * Get the current user's notification preferences (defaults if never saved)
+ */
+export async function getMyNotificationPreferences(): Promise<NotificationPreferences | null> {
+  try {
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return null
+
+    return await getNotificationPreferences(currentUser.id)
+  } catch (error) {
+    console.error("Get notification preferences error:", error)
+    return null
+  }
+}
+
+/**
+ * Save the current user's notification preferences
+ */
+export async function updateNotificationPreferences(preferences: NotificationPreferences) {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return { success: false, error: "Not authenticated" }
+
+    if (preferences.digestFrequency !== "daily" && preferences.digestFrequency !== "weekly") {
+      return { success: false, error: "Invalid digest frequency" }
+    }
+
+    // Only copy known categories / channels, coerced to booleans
+    const categories = Object.fromEntries(
+      NOTIFICATION_CATEGORIES.map((category) => {
+        const settings = preferences.categories?.[category]
+        return [
+          category,
+          {
+            inApp: !!settings?.inApp,
+            email: !!settings?.email,
+            // Digests summarise unread in-app notifications, so need in-app on
+            digest: !!settings?.inApp && !!settings?.digest,
+          },
+        ]
+      })
+    )
+
+    await NotificationPreference.findOneAndUpdate(
+      { user: currentUser.id },
+      { categories, digestFrequency: preferences.digestFrequency },
+      { upsert: true, setDefaultsOnInsert: true }
+    )
+
+    revalidatePath("/dashboard/settings")
+    revalidatePath("/instructor/settings")
+
+    return { success: true }
+  } catch (error) {
+    console.error("Update notification preferences error:", error)
+    return { success: false, error: "Failed to save preferences" }
+  }
+}
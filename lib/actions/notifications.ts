@@ -0,0 +1,132 @@
+"use server"
+
+import connectDB from "@/lib/db"
+import { Notification, type NotificationType } from "@/lib/db/models"
+import { getCurrentUser } from "@/lib/auth"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type NotificationItem = {
+  id: string
+  type: NotificationType
+  title: string
+  message: string
+  href: string | null
+  imageUrl: string | null
+  read: boolean
+  createdAt: string
+}
+
+// ============================================================================
+// NOTIFICATION ACTIONS
+// ============================================================================
+
+/**
+ * List the current user's most recent notifications
+ */
+export async function getNotifications(limit = 30): Promise<NotificationItem[]> {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return []
+
+    const notifications = await Notification.find({ user: currentUser.id })
+      .sort({ createdAt: -1 })
+      .limit(Math.min(limit, 100))
+      .lean()
+
+    return notifications.map((n) => ({
+      id: n._id.toString(),
+      type: n.type,
+      title: n.title,
+      message: n.message,
+      href: n.href,
+      imageUrl: n.imageUrl,
+      read: n.read,
+      createdAt: n.createdAt.toISOString(),
+    }))
+  } catch (error) {
+    console.error("Get notifications error:", error)
+    return []
+  }
+}
+
+/**
+ * Mark a single notification as read
+ */
+export async function markNotificationRead(notificationId: string) {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return { success: false, error: "Not authenticated" }
+
+    await Notification.updateOne(
+      { _id: notificationId, user: currentUser.id, read: false },
+      { read: true, readAt: new Date() }
+    )
+
+    return { success: true }
+  } catch (error) {
+    console.error("Mark notification read error:", error)
+    return { success: false, error: "Failed to update notification" }
+  }
+}
+
+/**
+ * Mark all of the current user's notifications as read
+ */
+export async function markAllNotificationsRead() {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return { success: false, error: "Not authenticated" }
+
+    await Notification.updateMany(
+      { user: currentUser.id, read: false },
+      { read: true, readAt: new Date() }
+    )
+
+    return { success: true }
+  } catch (error) {
+    console.error("Mark all notifications read error:", error)
+    return { success: false, error: "Failed to update notifications" }
+  }
+}
+
+/**
+ * Delete a single notification
+ */
+export async function deleteNotification(notificationId: string) {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return { success: false, error: "Not authenticated" }
+
+    await Notification.deleteOne({ _id: notificationId, user: currentUser.id })
+
+    return { success: true }
+  } catch (error) {
+    console.error("Delete notification error:", error)
+    return { success: false, error: "Failed to delete notification" }
+  }
+}
+
+/**
+ * Delete all of the current user's notifications
+ */
+export async function clearNotifications() {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return { success: false, error: "Not authenticated" }
+
+    await Notification.deleteMany({ user: currentUser.id })
+
+    return { success: true }
+  } catch (error) {
+    console.error("Clear notifications error:", error)
+    return { success: false, error: "Failed to clear notifications" }
+  }
+}
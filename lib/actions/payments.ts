@@ -0,0 +1,356 @@
+"use server"
+
+import { headers } from "next/headers"
+import connectDB from "@/lib/db"
+import { Course, Enrollment, Order, type OrderStatus } from "@/lib/db/models"
+import { getCurrentUser } from "@/lib/auth"
+import {
+  getPaymentProvider,
+  grantEnrollment,
+  applyWalletEntry,
+  quoteCoupon,
+  claimCouponUse,
+  releaseCouponUse,
+  recordCouponRedemption,
+  buildFakeWebhook,
+  WEBHOOK_SIGNATURE_HEADER,
+  type PaymentEventType,
+  type CouponQuote,
+} from "@/lib/payments"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type OrderSummary = {
+  id: string
+  courseId: string
+  courseTitle: string
+  status: OrderStatus
+  amount: number
+  currency: string
+  failureReason: string | null
+  createdAt: string
+}
+
+// ---- Build absolute URLs from the incoming request ----
+async function getOrigin() {
+  const headersList = await headers()
+  const host = headersList.get("host") || "academy.worldstreetgold.com"
+  const protocol = headersList.get("x-forwarded-proto") || "https"
+  return `${protocol}://${host}`
+}
+
+// ============================================================================
+// CHECKOUT
+// ============================================================================
+
+/**
+ * Load a paid course the user can buy and price it, applying a coupon if given.
+ */
+async function preparePurchase(userId: string, courseId: string, couponCode?: string | null) {
+  const course = await Course.findOne({ _id: courseId, status: "published" })
+  if (!course) {
+    return { success: false as const, error: "Course not found or not available" }
+  }
+  if (course.pricing === "free" || course.price <= 0) {
+    return { success: false as const, error: "This course is free — enroll directly" }
+  }
+
+  const existing = await Enrollment.findOne({
+    user: userId,
+    course: courseId,
+    status: { $ne: "refunded" },
+  })
+  if (existing) {
+    return { success: false as const, error: "Already enrolled in this course" }
+  }
+
+  let quote: CouponQuote | null = null
+  if (couponCode?.trim()) {
+    const result = await quoteCoupon({ code: couponCode, userId, course })
+    if (!result.success) return { success: false as const, error: result.error }
+    quote = result.quote
+  }
+
+  return {
+    success: true as const,
+    course,
+    order: {
+      user: userId,
+      course: courseId,
+      amount: quote ? quote.amount : course.price,
+      currency: course.currency || "USD",
+      coupon: quote?.couponId ?? null,
+      couponCode: quote?.code ?? null,
+      originalAmount: quote ? quote.originalPrice : null,
+      discount: quote?.discount ?? 0,
+    },
+  }
+}
+
+/**
+ * Create a pending order for a paid course and open a provider checkout session.
+ * The enrollment is only created later, when the webhook confirms payment.
+ * A coupon that brings the price to zero skips the provider entirely.
+ */
+export async function startCheckout(courseId: string, couponCode?: string | null) {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return { success: false, error: "Not authenticated" }
+
+    const purchase = await preparePurchase(currentUser.id, courseId, couponCode)
+    if (!purchase.success) return { success: false, error: purchase.error }
+    const { course } = purchase
+
+    const origin = await getOrigin()
+
+    if (purchase.order.amount <= 0) {
+      const result = await payWithWallet(courseId, couponCode)
+      if (!result.success || !result.data) return { success: false, error: result.error }
+      return {
+        success: true,
+        data: {
+          orderId: result.data.orderId,
+          checkoutUrl: `${origin}/dashboard/checkout/success?orderId=${result.data.orderId}&courseId=${courseId}`,
+        },
+      }
+    }
+
+    const provider = getPaymentProvider()
+    const order = await Order.create({
+      ...purchase.order,
+      provider: provider.name,
+    })
+
+    const orderId = order._id.toString()
+    const session = await provider.createCheckoutSession({
+      orderId,
+      amount: order.amount,
+      currency: order.currency,
+      description: course.title,
+      customerEmail: currentUser.email,
+      successUrl: `${origin}/dashboard/checkout/success?orderId=${orderId}&courseId=${courseId}`,
+      cancelUrl: `${origin}/dashboard/checkout?courseId=${courseId}&orderId=${orderId}`,
+    })
+
+    order.providerSessionId = session.sessionId
+    await order.save()
+
+    return {
+      success: true,
+      data: { orderId, checkoutUrl: session.checkoutUrl },
+    }
+  } catch (error) {
+    console.error("Start checkout error:", error)
+    return { success: false, error: "Failed to start checkout" }
+  }
+}
+
+/**
+ * Buy a paid course with the user's wallet balance.
+ * The debit is a conditional update, so concurrent purchases can't overdraw;
+ * if the enrollment can't be created the debit is refunded.
+ * Coupon uses are claimed up front and given back if the purchase fails.
+ */
+export async function payWithWallet(courseId: string, couponCode?: string | null) {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return { success: false, error: "Not authenticated" }
+
+    const purchase = await preparePurchase(currentUser.id, courseId, couponCode)
+    if (!purchase.success) return { success: false, error: purchase.error }
+    const { course } = purchase
+
+    const order = await Order.create({
+      ...purchase.order,
+      // Fully discounted orders never touch the wallet
+      provider: purchase.order.amount > 0 ? "wallet" : "coupon",
+    })
+    const orderId = order._id.toString()
+    const couponId = order.coupon?.toString() ?? null
+
+    async function fail(reason: string) {
+      if (couponId) await releaseCouponUse(couponId, order.user.toString())
+      order.status = "failed"
+      order.failureReason = reason
+      await order.save()
+    }
+
+    if (couponId && !(await claimCouponUse(couponId, currentUser.id))) {
+      order.status = "failed"
+      order.failureReason = "This coupon is no longer available"
+      await order.save()
+      return { success: false, error: order.failureReason }
+    }
+
+    let transactionId: string | null = null
+    let balance: number | null = null
+    if (order.amount > 0) {
+      const debit = await applyWalletEntry({
+        userId: currentUser.id,
+        type: "debit",
+        amount: order.amount,
+        currency: order.currency,
+        description: `Purchase — ${course.title}`,
+        orderId,
+        courseId,
+      })
+
+      if (!debit.success) {
+        await fail(debit.error)
+        return { success: false, error: debit.error }
+      }
+      transactionId = debit.transactionId
+      balance = debit.balance
+    }
+
+    let granted: Awaited<ReturnType<typeof grantEnrollment>> | null = null
+    try {
+      granted = await grantEnrollment({
+        userId: currentUser.id,
+        courseId,
+        pricePaid: order.amount,
+        currency: order.currency,
+        transactionId,
+      })
+    } catch (error) {
+      console.error("Wallet purchase enrollment error:", error)
+    }
+
+    if (!granted?.created) {
+      const reason = granted ? "Already enrolled in this course" : "Enrollment failed"
+      if (order.amount > 0) {
+        await applyWalletEntry({
+          userId: currentUser.id,
+          type: "refund",
+          amount: order.amount,
+          currency: order.currency,
+          description: `Refund — ${course.title}`,
+          orderId,
+          courseId,
+        })
+        await fail(reason)
+        return { success: false, error: `${reason}. Your wallet has been refunded.` }
+      }
+      await fail(reason)
+      return { success: false, error: reason }
+    }
+
+    order.status = "paid"
+    order.transactionId = transactionId
+    order.enrollment = granted.enrollment._id
+    order.paidAt = new Date()
+    await order.save()
+
+    await recordCouponRedemption(order)
+
+    return {
+      success: true,
+      data: { orderId, balance },
+    }
+  } catch (error) {
+    console.error("Pay with wallet error:", error)
+    return { success: false, error: "Failed to complete purchase" }
+  }
+}
+
+/**
+ * Get the current state of one of the user's orders
+ */
+export async function getOrderStatus(orderId: string): Promise<OrderSummary | null> {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return null
+
+    const order = await Order.findOne({ _id: orderId, user: currentUser.id })
+      .populate("course", "title")
+      .lean()
+
+    if (!order) return null
+
+    const course = order.course as unknown as { _id: { toString(): string }; title: string }
+
+    return {
+      id: order._id.toString(),
+      courseId: course._id.toString(),
+      courseTitle: course.title,
+      status: order.status,
+      amount: order.amount,
+      currency: order.currency,
+      failureReason: order.failureReason,
+      createdAt: order.createdAt.toISOString(),
+    }
+  } catch (error) {
+    console.error("Get order status error:", error)
+    return null
+  }
+}
+
+// ============================================================================
+// FAKE PROVIDER (development only)
+// ============================================================================
+
+/**
+ * Resolve a payment on the fake provider's hosted page.
+ * Sends a signed webhook to our own endpoint so the real confirmation path
+ * is exercised, then tells the page where to send the buyer.
+ */
+export async function completeFakePayment(
+  orderId: string,
+  sessionId: string,
+  outcome: "succeeded" | "failed" | "cancelled"
+) {
+  try {
+    if (getPaymentProvider().name !== "fake") {
+      return { success: false, error: "Fake payments are disabled" }
+    }
+
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return { success: false, error: "Not authenticated" }
+
+    const order = await Order.findOne({
+      _id: orderId,
+      user: currentUser.id,
+      providerSessionId: sessionId,
+    })
+    if (!order) return { success: false, error: "Order not found" }
+
+    const { body, signature } = buildFakeWebhook({
+      type: `payment.${outcome}` as PaymentEventType,
+      orderId,
+      sessionId,
+      transactionId: outcome === "succeeded" ? `fake_txn_${Date.now().toString(36)}` : null,
+      failureReason: outcome === "failed" ? "Card declined (simulated)" : null,
+    })
+
+    const origin = await getOrigin()
+    const res = await fetch(`${origin}/api/payments/webhook`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        [WEBHOOK_SIGNATURE_HEADER]: signature,
+      },
+      body,
+    })
+
+    if (!res.ok) {
+      return { success: false, error: "Webhook delivery failed" }
+    }
+
+    const courseId = order.course.toString()
+    const redirectUrl =
+      outcome === "cancelled"
+        ? `/dashboard/checkout?courseId=${courseId}&orderId=${orderId}`
+        : `/dashboard/checkout/success?orderId=${orderId}&courseId=${courseId}`
+
+    return { success: true, data: { redirectUrl } }
+  } catch (error) {
+    console.error("Complete fake payment error:", error)
+    return { success: false, error: "Failed to process payment" }
+  }
+}
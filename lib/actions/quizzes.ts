@@ -0,0 +1,298 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { Types } from "mongoose"
+import connectDB from "@/lib/db"
+import { Course, Enrollment, Lesson, QuizAttempt } from "@/lib/db/models"
+import { getCurrentUser } from "@/lib/auth"
+import { gradeQuiz, type QuizAnswerInput } from "@/lib/quiz"
+import { getLessonLockForUser } from "@/lib/lesson-access"
+import { recordLessonCompletion } from "@/lib/lesson-completion"
+import type { QuizQuestionType } from "@/lib/types"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A question as shown to students — no answers */
+export type StudentQuizQuestion = {
+  id: string
+  type: QuizQuestionType
+  prompt: string
+  options: string[]
+  points: number
+}
+
+export type QuizAttemptSummary = {
+  id: string
+  attemptNumber: number
+  score: number
+  maxScore: number
+  percent: number
+  passed: boolean
+  createdAt: string
+}
+
+export type StudentQuiz = {
+  lessonId: string
+  courseId: string
+  questions: StudentQuizQuestion[]
+  passMark: number
+  maxAttempts: number | null
+  attempts: QuizAttemptSummary[]
+  passed: boolean
+  attemptsRemaining: number | null // null = unlimited
+  canAttempt: boolean
+}
+
+export type QuizQuestionResult = {
+  questionId: string
+  isCorrect: boolean
+  pointsAwarded: number
+  /** Only revealed once the student has passed or has no attempts left */
+  correctOptions: number[] | null
+  acceptedAnswers: string[] | null
+  explanation: string | null
+}
+
+export type QuizAttemptResult = {
+  attempt: QuizAttemptSummary
+  results: QuizQuestionResult[]
+  attemptsRemaining: number | null
+  answersRevealed: boolean
+}
+
+export type QuizLessonStats = {
+  lessonId: string
+  attempts: number
+  students: number
+  passedStudents: number
+  averagePercent: number
+}
+
+function toAttemptSummary(a: {
+  _id: Types.ObjectId
+  attemptNumber: number
+  score: number
+  maxScore: number
+  percent: number
+  passed: boolean
+  createdAt: Date
+}): QuizAttemptSummary {
+  return {
+    id: a._id.toString(),
+    attemptNumber: a.attemptNumber,
+    score: a.score,
+    maxScore: a.maxScore,
+    percent: a.percent,
+    passed: a.passed,
+    createdAt: a.createdAt.toISOString(),
+  }
+}
+
+// ============================================================================
+// STUDENT ACTIONS
+// ============================================================================
+
+/**
+ * Get a quiz lesson for the current student, with their previous attempts
+ */
+export async function getQuizForStudent(lessonId: string): Promise<StudentQuiz | null> {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return null
+
+    const lesson = await Lesson.findById(lessonId).select("course type quiz").lean()
+    if (!lesson || lesson.type !== "quiz" || !lesson.quiz) return null
+    if (await getLessonLockForUser(currentUser, lessonId)) return null
+
+    const attempts = await QuizAttempt.find({ user: currentUser.id, lesson: lessonId })
+      .sort({ attemptNumber: 1 })
+      .lean()
+
+    const { maxAttempts } = lesson.quiz
+    const attemptsRemaining = maxAttempts ? Math.max(0, maxAttempts - attempts.length) : null
+
+    return {
+      lessonId,
+      courseId: lesson.course.toString(),
+      questions: lesson.quiz.questions.map((q) => ({
+        id: q._id.toString(),
+        type: q.type,
+        prompt: q.prompt,
+        options: q.options ?? [],
+        points: q.points,
+      })),
+      passMark: lesson.quiz.passMark,
+      maxAttempts: maxAttempts ?? null,
+      attempts: attempts.map(toAttemptSummary),
+      passed: attempts.some((a) => a.passed),
+      attemptsRemaining,
+      canAttempt: attemptsRemaining === null || attemptsRemaining > 0,
+    }
+  } catch (error) {
+    console.error("Get quiz error:", error)
+    return null
+  }
+}
+
+/**
+ * Grade and store a quiz attempt. Passing marks the lesson complete.
+ */
+export async function submitQuizAttempt(lessonId: string, answers: QuizAnswerInput[]) {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return { success: false, error: "Not authenticated" }
+
+    const lesson = await Lesson.findById(lessonId).select("course type quiz").lean()
+    if (!lesson || lesson.type !== "quiz" || !lesson.quiz) {
+      return { success: false, error: "Quiz not found" }
+    }
+    const courseId = lesson.course.toString()
+
+    const enrollment = await Enrollment.exists({
+      user: currentUser.id,
+      course: courseId,
+      status: { $in: ["active", "completed"] },
+    })
+    if (!enrollment) {
+      return { success: false, error: "Enroll in this course to take the quiz" }
+    }
+
+    if (await getLessonLockForUser(currentUser, lessonId)) {
+      return { success: false, error: "This lesson hasn't unlocked yet" }
+    }
+
+    const previousAttempts = await QuizAttempt.countDocuments({
+      user: currentUser.id,
+      lesson: lessonId,
+    })
+    const { maxAttempts } = lesson.quiz
+    if (maxAttempts && previousAttempts >= maxAttempts) {
+      return { success: false, error: "You have no attempts left for this quiz" }
+    }
+
+    const graded = gradeQuiz(lesson.quiz, Array.isArray(answers) ? answers : [])
+
+    let attempt
+    try {
+      attempt = await QuizAttempt.create({
+        user: currentUser.id,
+        lesson: lessonId,
+        course: courseId,
+        attemptNumber: previousAttempts + 1,
+        answers: graded.answers,
+        score: graded.score,
+        maxScore: graded.maxScore,
+        percent: graded.percent,
+        passMark: lesson.quiz.passMark,
+        passed: graded.passed,
+      })
+    } catch (error) {
+      // Unique (user, lesson, attemptNumber) — a concurrent submit took this attempt
+      if ((error as { code?: number }).code === 11000) {
+        return { success: false, error: "This attempt was already submitted" }
+      }
+      throw error
+    }
+
+    if (graded.passed) {
+      await recordLessonCompletion(currentUser.id, courseId, lessonId)
+    }
+
+    const attemptsRemaining = maxAttempts
+      ? Math.max(0, maxAttempts - attempt.attemptNumber)
+      : null
+    const alreadyPassed =
+      graded.passed ||
+      !!(await QuizAttempt.exists({ user: currentUser.id, lesson: lessonId, passed: true }))
+    const answersRevealed = alreadyPassed || attemptsRemaining === 0
+
+    const results: QuizQuestionResult[] = lesson.quiz.questions.map((q, i) => ({
+      questionId: q._id.toString(),
+      isCorrect: graded.answers[i].isCorrect,
+      pointsAwarded: graded.answers[i].pointsAwarded,
+      correctOptions: answersRevealed && q.type !== "short_answer" ? q.correctOptions : null,
+      acceptedAnswers: answersRevealed && q.type === "short_answer" ? q.acceptedAnswers : null,
+      explanation: answersRevealed ? (q.explanation ?? null) : null,
+    }))
+
+    revalidatePath(`/dashboard/courses/${courseId}/learn/${lessonId}`)
+
+    const data: QuizAttemptResult = {
+      attempt: toAttemptSummary(attempt),
+      results,
+      attemptsRemaining,
+      answersRevealed,
+    }
+    return { success: true, data }
+  } catch (error) {
+    console.error("Submit quiz attempt error:", error)
+    return { success: false, error: "Failed to submit quiz" }
+  }
+}
+
+// ============================================================================
+// INSTRUCTOR ACTIONS
+// ============================================================================
+
+/**
+ * Attempt and pass-rate stats for each quiz lesson in one of the
+ * instructor's courses
+ */
+export async function getCourseQuizStats(courseId: string): Promise<QuizLessonStats[]> {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return []
+
+    const course = await Course.exists({ _id: courseId, instructor: currentUser.id })
+    if (!course) return []
+
+    const stats = await QuizAttempt.aggregate<{
+      _id: { lesson: Types.ObjectId; user: Types.ObjectId }
+      attempts: number
+      passed: boolean
+      bestPercent: number
+    }>([
+      { $match: { course: new Types.ObjectId(courseId) } },
+      {
+        $group: {
+          _id: { lesson: "$lesson", user: "$user" },
+          attempts: { $sum: 1 },
+          passed: { $max: "$passed" },
+          bestPercent: { $max: "$percent" },
+        },
+      },
+    ])
+
+    const byLesson = new Map<string, QuizLessonStats & { percentTotal: number }>()
+    for (const row of stats) {
+      const lessonId = row._id.lesson.toString()
+      const entry = byLesson.get(lessonId) ?? {
+        lessonId,
+        attempts: 0,
+        students: 0,
+        passedStudents: 0,
+        averagePercent: 0,
+        percentTotal: 0,
+      }
+      entry.attempts += row.attempts
+      entry.students += 1
+      entry.passedStudents += row.passed ? 1 : 0
+      entry.percentTotal += row.bestPercent
+      byLesson.set(lessonId, entry)
+    }
+
+    return [...byLesson.values()].map(({ percentTotal, ...entry }) => ({
+      ...entry,
+      // Average of each student's best attempt
+      averagePercent: entry.students > 0 ? Math.round(percentTotal / entry.students) : 0,
+    }))
+  } catch (error) {
+    console.error("Get course quiz stats error:", error)
+    return []
+  }
+}
@@ -0,0 +1,258 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import connectDB from "@/lib/db"
+import { Course, Enrollment, RefundRequest, type RefundRequestStatus } from "@/lib/db/models"
+import { getCurrentUser } from "@/lib/auth"
+import { checkRefundPolicy, getRefundPolicy, revokeEnrollment } from "@/lib/payments"
+
+const MAX_LISTED_REQUESTS = 200
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RefundEligibility = {
+  eligible: boolean
+  reason: string | null
+  windowDays: number
+  maxProgress: number
+  /** Latest request for the current purchase, if any */
+  request: {
+    id: string
+    status: RefundRequestStatus
+    reviewNote: string | null
+  } | null
+}
+
+export type RefundRequestItem = {
+  id: string
+  courseId: string
+  courseTitle: string
+  studentName: string
+  studentEmail: string
+  studentAvatarUrl: string | null
+  amount: number
+  currency: string
+  reason: string
+  progressAtRequest: number
+  status: RefundRequestStatus
+  reviewNote: string | null
+  reviewedAt: string | null
+  createdAt: string
+}
+
+// ============================================================================
+// STUDENT ACTIONS
+// ============================================================================
+
+/**
+ * Check whether the current user can ask for a refund on a course
+ */
+export async function getRefundEligibility(courseId: string): Promise<RefundEligibility | null> {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return null
+
+    const enrollment = await Enrollment.findOne({ user: currentUser.id, course: courseId })
+    if (!enrollment) return null
+
+    const { windowDays, maxProgress } = getRefundPolicy()
+
+    // Only requests for the current purchase count (a course can be re-bought after a refund)
+    const request = await RefundRequest.findOne({
+      enrollment: enrollment._id,
+      createdAt: { $gte: enrollment.purchasedAt },
+    })
+      .sort({ createdAt: -1 })
+      .lean()
+
+    const reason = request
+      ? request.status === "pending"
+        ? "Your refund request is being reviewed"
+        : request.status === "rejected"
+          ? "Your refund request was declined"
+          : "This enrollment has already been refunded"
+      : checkRefundPolicy(enrollment)
+
+    return {
+      eligible: !reason,
+      reason,
+      windowDays,
+      maxProgress,
+      request: request
+        ? { id: request._id.toString(), status: request.status, reviewNote: request.reviewNote }
+        : null,
+    }
+  } catch (error) {
+    console.error("Get refund eligibility error:", error)
+    return null
+  }
+}
+
+/**
+ * Ask the instructor for a refund on a purchased course
+ */
+export async function requestRefund(courseId: string, reason: string) {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return { success: false, error: "Not authenticated" }
+
+    if (!reason || reason.trim().length < 10) {
+      return { success: false, error: "Please tell us why you'd like a refund (at least 10 characters)" }
+    }
+
+    const eligibility = await getRefundEligibility(courseId)
+    if (!eligibility) return { success: false, error: "Not enrolled in this course" }
+    if (!eligibility.eligible) return { success: false, error: eligibility.reason }
+
+    const [enrollment, course] = await Promise.all([
+      Enrollment.findOne({ user: currentUser.id, course: courseId }),
+      Course.findById(courseId).select("instructor"),
+    ])
+    if (!enrollment || !course) return { success: false, error: "Course not found" }
+
+    const request = await RefundRequest.create({
+      enrollment: enrollment._id,
+      user: currentUser.id,
+      course: courseId,
+      instructor: course.instructor,
+      amount: enrollment.pricePaid,
+      currency: enrollment.currency,
+      reason: reason.trim(),
+      progressAtRequest: enrollment.progress,
+    })
+
+    revalidatePath(`/dashboard/courses/${courseId}`)
+    revalidatePath("/instructor/refunds")
+
+    return { success: true, data: { requestId: request._id.toString() } }
+  } catch (error) {
+    // A concurrent submission got there first (one pending request per enrollment)
+    if ((error as { code?: number }).code === 11000) {
+      return { success: false, error: "Your refund request is being reviewed" }
+    }
+    console.error("Request refund error:", error)
+    return { success: false, error: "Failed to submit refund request" }
+  }
+}
+
+// ============================================================================
+// INSTRUCTOR / ADMIN ACTIONS
+// ============================================================================
+
+/**
+ * List refund requests for the current instructor's courses (admins see all)
+ */
+export async function getRefundRequests(
+  status: RefundRequestStatus | "all" = "all"
+): Promise<RefundRequestItem[]> {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return []
+
+    const query: Record<string, unknown> = {}
+    if (currentUser.role !== "ADMIN") query.instructor = currentUser.id
+
+    const find = (filter: Record<string, unknown>, limit: number) =>
+      RefundRequest.find({ ...query, ...filter })
+        .populate("user", "firstName lastName email avatarUrl")
+        .populate("course", "title")
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .lean()
+
+    // Pending requests first, then decided ones — newest first within each
+    const pending = status === "all" ? await find({ status: "pending" }, MAX_LISTED_REQUESTS) : []
+    const rest =
+      pending.length < MAX_LISTED_REQUESTS
+        ? await find(
+            { status: status === "all" ? { $ne: "pending" } : status },
+            MAX_LISTED_REQUESTS - pending.length
+          )
+        : []
+    const requests = [...pending, ...rest]
+
+    return requests.map((r) => {
+      const user = r.user as unknown as {
+        firstName: string
+        lastName: string
+        email: string
+        avatarUrl: string | null
+      }
+      const course = r.course as unknown as { _id: { toString(): string }; title: string }
+
+      return {
+        id: r._id.toString(),
+        courseId: course._id.toString(),
+        courseTitle: course.title,
+        studentName: `${user.firstName} ${user.lastName}`.trim(),
+        studentEmail: user.email,
+        studentAvatarUrl: user.avatarUrl,
+        amount: r.amount,
+        currency: r.currency,
+        reason: r.reason,
+        progressAtRequest: r.progressAtRequest,
+        status: r.status,
+        reviewNote: r.reviewNote,
+        reviewedAt: r.reviewedAt?.toISOString() || null,
+        createdAt: r.createdAt.toISOString(),
+      }
+    })
+  } catch (error) {
+    console.error("Get refund requests error:", error)
+    return []
+  }
+}
+
+/**
+ * Approve or reject a refund request.
+ * Approval revokes the enrollment, reverses course / instructor counters
+ * and credits the amount back to the student's wallet.
+ */
+export async function reviewRefundRequest(
+  requestId: string,
+  decision: "approve" | "reject",
+  note?: string
+) {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return { success: false, error: "Not authenticated" }
+
+    const request = await RefundRequest.findById(requestId)
+    if (!request) return { success: false, error: "Refund request not found" }
+
+    if (currentUser.role !== "ADMIN" && request.instructor.toString() !== currentUser.id) {
+      return { success: false, error: "Unauthorized" }
+    }
+
+    // Atomic pending → decided transition so two reviewers can't both act
+    const decided = await RefundRequest.findOneAndUpdate(
+      { _id: request._id, status: "pending" },
+      {
+        status: decision === "approve" ? "approved" : "rejected",
+        reviewedBy: currentUser.id,
+        reviewedAt: new Date(),
+        reviewNote: note?.trim() || null,
+      },
+      { new: true }
+    )
+    if (!decided) return { success: false, error: "This request has already been reviewed" }
+
+    if (decision === "approve") {
+      await revokeEnrollment(request.enrollment.toString())
+    }
+
+    revalidatePath("/instructor/refunds")
+    revalidatePath(`/dashboard/courses/${request.course.toString()}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error("Review refund request error:", error)
+    return { success: false, error: "Failed to review refund request" }
+  }
+}
@@ -1,9 +1,11 @@
 "use server"
 
 import { revalidatePath } from "next/cache"
-import mongoose from "mongoose"
 import connectDB from "@/lib/db"
-import { Review, Course, Enrollment } from "@/lib/db/models"
+import { Review, Course, Enrollment, User, type ReviewReportReason } from "@/lib/db/models"
+import { getCurrentUser } from "@/lib/auth"
+import { notifyUser } from "@/lib/notifications"
+import { getReviewReportThreshold, updateCourseRating } from "@/lib/reviews"
 import { z } from "zod/v4"
 
 // ============================================================================
@@ -18,10 +20,28 @@ const CreateReviewSchema = z.object({
 
 const UpdateReviewSchema = CreateReviewSchema.partial()
 
+const ReportReviewSchema = z
+  .object({
+    reason: z.enum(["spam", "offensive", "off_topic", "misleading", "other"]),
+    details: z.string().trim().max(500).optional(),
+  })
+  .refine((d) => d.reason !== "other" || !!d.details, {
+    message: "Tell us what's wrong with this review",
+    path: ["details"],
+  })
+
+const ReplySchema = z.string().trim().min(2, "Reply is too short").max(2000)
+
 // ============================================================================
 // TYPES
 // ============================================================================
 
+export type ReviewReply = {
+  content: string
+  createdAt: string
+  updatedAt: string
+}
+
 export type ReviewItem = {
   id: string
   userId: string
@@ -33,6 +53,29 @@ export type ReviewItem = {
   createdAt: string
   isVerifiedPurchase: boolean
   helpfulCount: number
+  reply: ReviewReply | null
+}
+
+export type ReviewModerationFilter = "reported" | "hidden" | "all"
+
+export type ReviewModerationAction = "hide" | "restore" | "delete"
+
+export type ModerationReviewItem = {
+  id: string
+  courseId: string
+  courseTitle: string
+  userName: string
+  userAvatarUrl: string | null
+  rating: number
+  title: string | null
+  content: string | null
+  createdAt: string
+  isHidden: boolean
+  reportCount: number
+  reports: { reason: ReviewReportReason; details: string | null; createdAt: string }[]
+  reply: ReviewReply | null
+  /** Only the course's instructor can reply */
+  canReply: boolean
 }
 
 export type CourseRatingSummary = {
@@ -47,6 +90,37 @@ export type CourseRatingSummary = {
   }
 }
 
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toReviewReply(reply: { content: string; createdAt: Date; updatedAt: Date } | null | undefined) {
+  if (!reply) return null
+  return {
+    content: reply.content,
+    createdAt: reply.createdAt.toISOString(),
+    updatedAt: reply.updatedAt.toISOString(),
+  }
+}
+
+/**
+ * Load a review the current user may moderate: admins can moderate any
+ * review, instructors only those on their own courses.
+ */
+async function getModeratableReview(reviewId: string) {
+  const currentUser = await getCurrentUser()
+  if (!currentUser || currentUser.role === "USER") return null
+
+  const review = await Review.findById(reviewId)
+  if (!review) return null
+
+  const course = await Course.findById(review.course).select("instructor").lean()
+  const isCourseInstructor = course?.instructor.toString() === currentUser.id
+  if (!isCourseInstructor && currentUser.role !== "ADMIN") return null
+
+  return { review, currentUser, isCourseInstructor }
+}
+
 // ============================================================================
 // REVIEW ACTIONS
 // ============================================================================
@@ -96,6 +170,22 @@ export async function submitReview(
     // Update course rating
     await updateCourseRating(courseId)
 
+    // Tell the instructor about the new review
+    const [course, reviewer] = await Promise.all([
+      Course.findById(courseId).select("title instructor").lean(),
+      User.findById(userId).select("firstName lastName avatarUrl").lean(),
+    ])
+    if (course && course.instructor.toString() !== userId) {
+      const reviewerName = reviewer ? `${reviewer.firstName} ${reviewer.lastName}`.trim() : "A student"
+      await notifyUser(course.instructor.toString(), {
+        type: "course_review",
+        title: `New ${validated.rating}-star review`,
+        message: `${reviewerName} reviewed ${course.title}${validated.title ? `: "${validated.title}"` : ""}`,
+        href: `/courses/${courseId}`,
+        imageUrl: reviewer?.avatarUrl ?? null,
+      })
+    }
+
     revalidatePath(`/courses/${courseId}`)
 
     return {
@@ -201,16 +291,52 @@ export async function markReviewHelpful(reviewId: string) {
 }
 
 /**
- * Report a review
+ * Report a review. Each user can report a review once; once enough
+ * people have reported it, it's hidden until a moderator restores it.
  */
-export async function reportReview(reviewId: string, reason: string) {
+export async function reportReview(
+  reviewId: string,
+  data: z.infer<typeof ReportReviewSchema>
+) {
   try {
     await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return { success: false, error: "Not authenticated" }
 
-    await Review.findByIdAndUpdate(reviewId, {
-      $inc: { reportCount: 1 },
-      $push: { reports: { reason, reportedAt: new Date() } },
-    })
+    const parsed = ReportReviewSchema.safeParse(data)
+    if (!parsed.success) {
+      return { success: false, error: parsed.error.issues[0]?.message || "Invalid report" }
+    }
+
+    const existing = await Review.findById(reviewId).select("user")
+    if (!existing) return { success: false, error: "Review not found" }
+    if (existing.user.toString() === currentUser.id) {
+      return { success: false, error: "You can't report your own review" }
+    }
+
+    // Matching on the reporter keeps this to one report per user even under double-submits
+    const review = await Review.findOneAndUpdate(
+      { _id: reviewId, "reports.reporter": { $ne: currentUser.id } },
+      {
+        $push: {
+          reports: {
+            reporter: currentUser.id,
+            reason: parsed.data.reason,
+            details: parsed.data.details || null,
+            createdAt: new Date(),
+          },
+        },
+        $inc: { reportCount: 1 },
+      },
+      { new: true }
+    )
+    if (!review) return { success: false, error: "You've already reported this review" }
+
+    if (!review.isHidden && review.reportCount >= getReviewReportThreshold()) {
+      await Review.updateOne({ _id: review._id }, { isHidden: true })
+      await updateCourseRating(review.course.toString())
+      revalidatePath(`/courses/${review.course}`)
+    }
 
     return { success: true }
   } catch (error) {
@@ -306,6 +432,7 @@ export async function getCourseReviews(
           createdAt: review.createdAt.toISOString(),
           isVerifiedPurchase: paidUsers.has(user._id.toString()),
           helpfulCount: review.helpfulCount,
+          reply: toReviewReply(review.reply),
         }
       }),
       total,
@@ -412,6 +539,7 @@ export async function getUserReview(
       createdAt: review.createdAt.toISOString(),
       isVerifiedPurchase: true,
       helpfulCount: review.helpfulCount,
+      reply: toReviewReply(review.reply),
     }
   } catch (error) {
     console.error("Get user review error:", error)
@@ -420,48 +548,173 @@ export async function getUserReview(
 }
 
 // ============================================================================
-// HELPER FUNCTIONS
+// MODERATION
 // ============================================================================
 
 /**
- * Recalculate and update course rating aggregate
+ * Reviews for the moderation queue. Admins see every course; instructors
+ * see reviews on their own courses.
  */
-async function updateCourseRating(courseId: string) {
-  const objectId = new mongoose.Types.ObjectId(courseId)
-  const stats = await Review.aggregate([
-    {
-      $match: {
-        course: objectId,
-        isApproved: true,
-        isHidden: false,
-      },
-    },
-    {
-      $group: {
-        _id: "$rating",
-        count: { $sum: 1 },
-      },
-    },
-  ])
-
-  // Build distribution
-  const distribution = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 }
-  let total = 0
-  let sum = 0
-
-  for (const stat of stats) {
-    distribution[stat._id as keyof typeof distribution] = stat.count
-    total += stat.count
-    sum += stat._id * stat.count
+export async function getReviewModerationQueue(
+  filter: ReviewModerationFilter = "reported"
+): Promise<ModerationReviewItem[]> {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser || currentUser.role === "USER") return []
+
+    const query: Record<string, unknown> = {}
+    if (filter === "reported") query.reportCount = { $gt: 0 }
+    if (filter === "hidden") query.isHidden = true
+
+    if (currentUser.role !== "ADMIN") {
+      const courseIds = await Course.find({ instructor: currentUser.id }).distinct("_id")
+      query.course = { $in: courseIds }
+    }
+
+    const reviews = await Review.find(query)
+      .populate("user", "firstName lastName avatarUrl")
+      .populate("course", "title instructor")
+      .sort(filter === "all" ? { createdAt: -1 } : { isHidden: -1, reportCount: -1, createdAt: -1 })
+      .limit(100)
+      .lean()
+
+    return reviews.map((r) => {
+      const user = r.user as unknown as {
+        firstName: string
+        lastName: string
+        avatarUrl: string | null
+      } | null
+      const course = r.course as unknown as {
+        _id: { toString(): string }
+        title: string
+        instructor: { toString(): string }
+      } | null
+
+      return {
+        id: r._id.toString(),
+        courseId: course?._id.toString() ?? r.course.toString(),
+        courseTitle: course?.title ?? "Deleted course",
+        userName: user ? `${user.firstName} ${user.lastName}`.trim() : "Deleted user",
+        userAvatarUrl: user?.avatarUrl ?? null,
+        rating: r.rating,
+        title: r.title,
+        content: r.content,
+        createdAt: r.createdAt.toISOString(),
+        isHidden: r.isHidden,
+        reportCount: r.reportCount,
+        reports: (r.reports ?? []).map((report) => ({
+          reason: report.reason,
+          details: report.details,
+          createdAt: report.createdAt.toISOString(),
+        })),
+        reply: toReviewReply(r.reply),
+        canReply: course?.instructor.toString() === currentUser.id,
+      }
+    })
+  } catch (error) {
+    console.error("Get review moderation queue error:", error)
+    return []
   }
+}
 
-  const average = total > 0 ? Math.round((sum / total) * 10) / 10 : 0
+/**
+ * Hide, restore or delete a review. Restoring also clears its reports,
+ * so it won't be hidden again by the reports already counted.
+ * The course's rating is recalculated since hidden reviews don't count.
+ */
+export async function moderateReview(reviewId: string, action: ReviewModerationAction) {
+  try {
+    await connectDB()
+    const found = await getModeratableReview(reviewId)
+    if (!found) return { success: false, error: "Review not found" }
 
-  await Course.findByIdAndUpdate(courseId, {
-    rating: {
-      average,
-      count: total,
-      distribution,
-    },
-  })
+    const { review } = found
+    const courseId = review.course.toString()
+
+    switch (action) {
+      case "hide":
+        review.isHidden = true
+        await review.save()
+        break
+      case "restore":
+        review.isHidden = false
+        review.reports = []
+        review.reportCount = 0
+        await review.save()
+        break
+      case "delete":
+        await review.deleteOne()
+        break
+    }
+
+    await updateCourseRating(courseId)
+
+    revalidatePath("/admin/reviews")
+    revalidatePath("/instructor/reviews")
+    revalidatePath(`/courses/${courseId}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error("Moderate review error:", error)
+    return { success: false, error: "Failed to moderate review" }
+  }
+}
+
+/**
+ * Post or edit the instructor's public reply to a review
+ */
+export async function replyToReview(reviewId: string, content: string) {
+  try {
+    await connectDB()
+    const found = await getModeratableReview(reviewId)
+    if (!found || !found.isCourseInstructor) {
+      return { success: false, error: "Only the course instructor can reply" }
+    }
+
+    const parsed = ReplySchema.safeParse(content)
+    if (!parsed.success) {
+      return { success: false, error: parsed.error.issues[0]?.message || "Invalid reply" }
+    }
+
+    const { review, currentUser } = found
+    if (review.reply) {
+      review.reply.content = parsed.data
+    } else {
+      review.set("reply", { author: currentUser.id, content: parsed.data })
+    }
+    await review.save()
+
+    revalidatePath("/instructor/reviews")
+    revalidatePath(`/courses/${review.course}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error("Reply to review error:", error)
+    return { success: false, error: "Failed to save reply" }
+  }
+}
+
+/**
+ * Remove the instructor's reply from a review
+ */
+export async function deleteReviewReply(reviewId: string) {
+  try {
+    await connectDB()
+    const found = await getModeratableReview(reviewId)
+    if (!found) return { success: false, error: "Review not found" }
+
+    const { review } = found
+    review.reply = null
+    await review.save()
+
+    revalidatePath("/admin/reviews")
+    revalidatePath("/instructor/reviews")
+    revalidatePath(`/courses/${review.course}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error("Delete review reply error:", error)
+    return { success: false, error: "Failed to remove reply" }
+  }
 }
@@ -0,0 +1,211 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import connectDB from "@/lib/db"
+import { Enrollment, Lesson, ScormAttempt, type IScormAttempt } from "@/lib/db/models"
+import { getCurrentUser } from "@/lib/auth"
+import {
+  buildLaunchCmi,
+  canOpenPackage,
+  createPackageToken,
+  packageFileUrl,
+  parseSessionTime,
+  recordScormProgress,
+  sanitizeCmiValues,
+  toLessonScorm,
+  unpackScormPackage,
+  xapiRegistration,
+} from "@/lib/scorm"
+import { getLessonLockForUser } from "@/lib/lesson-access"
+import { recordLessonCompletion } from "@/lib/lesson-completion"
+import type { LessonScorm, ScormStandard } from "@/lib/types"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ScormLaunch = {
+  lessonId: string
+  courseId: string
+  standard: ScormStandard
+  /** The package's first page, on the packages origin under a launch token */
+  launchUrl: string
+  /** The data model the SCORM runtime starts from */
+  cmi: Record<string, string>
+  /** What the player passes an xAPI package on its launch URL */
+  xapi: {
+    activityId: string
+    registration: string
+    learnerId: string
+    learnerName: string
+    /** The LRS credentials — the launch token, since the package has no session */
+    auth: string
+  } | null
+  /** Progress is only saved for enrolled students — free previews and
+   *  instructors run the package without it */
+  tracked: boolean
+  completed: boolean
+  scorePercent: number | null
+}
+
+function toScorePercent(attempt: Pick<IScormAttempt, "scoreScaled" | "scoreRaw"> | null) {
+  if (!attempt) return null
+  if (attempt.scoreScaled !== null && attempt.scoreScaled !== undefined) {
+    return Math.round(attempt.scoreScaled * 100)
+  }
+  return attempt.scoreRaw ?? null
+}
+
+// ============================================================================
+// INSTRUCTOR ACTIONS
+// ============================================================================
+
+/**
+ * Unpack an uploaded SCORM / xAPI zip (see getPackageUploadUrl) to R2. The
+ * result goes on the lesson when the course or lesson is saved.
+ */
+export async function unpackLessonPackage(
+  uploadKey: string
+): Promise<{ success: boolean; error?: string; data?: LessonScorm }> {
+  try {
+    const currentUser = await getCurrentUser()
+    if (!currentUser || currentUser.role === "USER") {
+      return { success: false, error: "Instructor access required" }
+    }
+
+    const result = await unpackScormPackage(uploadKey)
+    if (result.error !== null) {
+      return { success: false, error: result.error }
+    }
+
+    return { success: true, data: toLessonScorm(result.scorm)! }
+  } catch (error) {
+    console.error("Unpack package error:", error)
+    return { success: false, error: "Failed to unpack the package. Please try again." }
+  }
+}
+
+// ============================================================================
+// STUDENT ACTIONS
+// ============================================================================
+
+/**
+ * Everything the player needs to start a package lesson for the current user
+ */
+export async function getScormLaunch(lessonId: string): Promise<ScormLaunch | null> {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return null
+
+    const lesson = await Lesson.findById(lessonId).select("course type scorm").lean()
+    if (!lesson || lesson.type !== "scorm" || !lesson.scorm) return null
+    if (!(await canOpenPackage(currentUser, lesson.scorm.packageId))) return null
+    if (await getLessonLockForUser(currentUser, lessonId)) return null
+
+    const courseId = lesson.course.toString()
+    const [enrollment, attempt] = await Promise.all([
+      Enrollment.exists({
+        user: currentUser.id,
+        course: courseId,
+        status: { $in: ["active", "completed"] },
+      }),
+      ScormAttempt.findOne({ user: currentUser.id, lesson: lessonId }).lean(),
+    ])
+
+    const { scorm } = lesson
+    const learnerName = `${currentUser.firstName} ${currentUser.lastName}`.trim() || currentUser.username
+    const token = createPackageToken({
+      packageId: scorm.packageId,
+      lessonId,
+      userId: currentUser.id,
+      role: currentUser.role,
+    })
+
+    return {
+      lessonId,
+      courseId,
+      standard: scorm.standard,
+      launchUrl: packageFileUrl(scorm.packageId, token, scorm.launchPath),
+      cmi:
+        scorm.standard === "xapi"
+          ? {}
+          : buildLaunchCmi(
+              scorm,
+              attempt?.cmi ?? null,
+              currentUser,
+              attempt?.totalTime ?? 0
+            ),
+      xapi:
+        scorm.standard === "xapi" && scorm.activityId
+          ? {
+              activityId: scorm.activityId,
+              registration: xapiRegistration(currentUser.id, lessonId),
+              learnerId: currentUser.id,
+              learnerName,
+              auth: `Basic ${Buffer.from(`${currentUser.id}:${token}`).toString("base64")}`,
+            }
+          : null,
+      tracked: !!enrollment,
+      completed: !!attempt?.completedAt,
+      scorePercent: toScorePercent(attempt),
+    }
+  } catch (error) {
+    console.error("Get SCORM launch error:", error)
+    return null
+  }
+}
+
+/**
+ * Save what a SCORM package committed. Finishing the session adds its
+ * time to the total; a completed (and not failed) package completes the
+ * lesson.
+ */
+export async function commitScormRuntime(
+  lessonId: string,
+  values: Record<string, string>,
+  finished = false
+) {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return { success: false, error: "Not authenticated" }
+
+    const lesson = await Lesson.findById(lessonId).select("course type scorm").lean()
+    if (!lesson || lesson.type !== "scorm" || !lesson.scorm || lesson.scorm.standard === "xapi") {
+      return { success: false, error: "Package not found" }
+    }
+    const courseId = lesson.course.toString()
+
+    const enrollment = await Enrollment.exists({
+      user: currentUser.id,
+      course: courseId,
+      status: { $in: ["active", "completed"] },
+    })
+    if (!enrollment) {
+      return { success: false, error: "Enroll in this course to save your progress" }
+    }
+
+    if (await getLessonLockForUser(currentUser, lessonId)) {
+      return { success: false, error: "This lesson hasn't unlocked yet" }
+    }
+
+    const cmi = sanitizeCmiValues(values)
+    const sessionKey = lesson.scorm.standard === "scorm12" ? "cmi.core.session_time" : "cmi.session_time"
+    const { completed, newlyCompleted } = await recordScormProgress(
+      currentUser.id,
+      { _id: lesson._id, course: lesson.course, scorm: lesson.scorm },
+      { cmi, sessionSeconds: finished ? parseSessionTime(cmi.get(sessionKey)) : 0 }
+    )
+
+    if (newlyCompleted) {
+      await recordLessonCompletion(currentUser.id, courseId, lessonId)
+      revalidatePath(`/dashboard/courses/${courseId}/learn/${lessonId}`)
+    }
+
+    return { success: true, data: { completed } }
+  } catch (error) {
+    console.error("Commit SCORM runtime error:", error)
+    return { success: false, error: "Failed to save progress" }
+  }
+}
@@ -3,6 +3,7 @@
 import connectDB from "@/lib/db"
 import { User } from "@/lib/db/models"
 import { getCurrentUser } from "@/lib/auth"
+import { isR2PublicUrl } from "@/lib/r2"
 import { revalidatePath } from "next/cache"
 
 /**
@@ -14,6 +15,9 @@ export async function saveSignature(signatureUrl: string): Promise<{ success: bo
     const currentUser = await getCurrentUser()
     if (!currentUser) return { success: false, error: "Not authenticated" }
 
+    // Certificates render it server-side, so only our own uploads are accepted
+    if (!isR2PublicUrl(signatureUrl)) return { success: false, error: "Invalid signature image" }
+
     await User.findByIdAndUpdate(currentUser.id, { signatureUrl })
 
     revalidatePath("/instructor/settings")
@@ -2,8 +2,28 @@
 
 import mongoose from "mongoose"
 import connectDB from "@/lib/db"
-import { Course, Enrollment, Bookmark, User, Lesson } from "@/lib/db/models"
+import { Course, Enrollment, Bookmark, User, Lesson, Section } from "@/lib/db/models"
 import { getCurrentUser } from "@/lib/auth"
+import { notifyUser } from "@/lib/notifications"
+import { hasPassedQuiz } from "@/lib/quiz"
+import { hasGradedSubmission } from "@/lib/assignments"
+import { hasCompletedPackage } from "@/lib/scorm"
+import { getLiveLessonProgress } from "@/lib/course-versions"
+import { getVideoStreams } from "@/lib/video-transcode"
+import { getVideoCaptions } from "@/lib/captions"
+import { checkCertificateEligibility, issueCertificate } from "@/lib/certificates"
+import { certificateFileUrl } from "@/lib/certificate-renderer"
+import { sendCertificateEarnedEmail } from "@/lib/email"
+import { buildUnsubscribeUrl, getAppUrl, wantsNotification } from "@/lib/notification-preferences"
+import {
+  getDripSections,
+  getLessonLockForUser,
+  getLessonLocks,
+  getStudentProgress,
+  isDripExempt,
+  type LessonLock,
+} from "@/lib/lesson-access"
+import type { CaptionTrack } from "@/lib/types"
 
 // ============================================================================
 // TYPES
@@ -150,12 +170,20 @@ export type PublicCourseLesson = {
   id: string
   title: string
   description: string | null
-  type: "video" | "live" | "text"
+  type: "video" | "live" | "text" | "quiz" | "assignment" | "scorm"
   thumbnailUrl: string | null
   videoUrl: string | null
   content: string | null
   duration: number | null
   isFree: boolean
+  /** null = before the first section */
+  sectionId: string | null
+}
+
+export type PublicCourseSection = {
+  id: string
+  title: string
+  description: string | null
 }
 
 export type PublicCourse = {
@@ -176,6 +204,7 @@ export type PublicCourse = {
   totalDuration: number
   enrolledCount: number
   rating: number | null
+  sections: PublicCourseSection[]
   lessons: PublicCourseLesson[]
 }
 
@@ -211,10 +240,13 @@ export async function fetchPublicCourse(courseId: string): Promise<PublicCourse
     if (!instructor) return null
     
     // Fetch lessons for this course with all needed fields
-    const lessons = await Lesson.find({ course: courseId })
-      .sort({ order: 1 })
-      .select("title description type videoThumbnailUrl videoUrl content videoDuration isFree")
-      .lean()
+    const [lessons, sections] = await Promise.all([
+      Lesson.find({ course: courseId })
+        .sort({ order: 1 })
+        .select("title description type videoThumbnailUrl videoUrl content videoDuration isFree section")
+        .lean(),
+      Section.find({ course: courseId }).sort({ order: 1 }).select("title description").lean(),
+    ])
     
     return {
       id: course._id.toString(),
@@ -234,16 +266,22 @@ export async function fetchPublicCourse(courseId: string): Promise<PublicCourse
       totalDuration: course.totalDuration || 0,
       enrolledCount: course.enrolledCount || 0,
       rating: course.rating?.average || null,
+      sections: sections.map((s) => ({
+        id: s._id.toString(),
+        title: s.title,
+        description: s.description || null,
+      })),
       lessons: lessons.map((l) => ({
         id: l._id.toString(),
         title: l.title,
         description: l.description || null,
-        type: l.type as "video" | "live" | "text",
+        type: l.type as "video" | "live" | "text" | "quiz" | "assignment" | "scorm",
         thumbnailUrl: l.videoThumbnailUrl || null,
         videoUrl: l.isFree ? (l.videoUrl || null) : null, // Only expose video URL for free lessons
         content: l.isFree ? (l.content || null) : null, // Only expose content for free lessons
         duration: l.videoDuration ? Math.round(l.videoDuration / 60) : null,
         isFree: l.isFree,
+        sectionId: l.section?.toString() ?? null,
       })),
     }
   } catch (error) {
@@ -261,13 +299,23 @@ export type LearnLesson = {
   courseId: string
   title: string
   description: string
-  type: "video" | "live" | "text"
+  type: "video" | "live" | "text" | "quiz" | "assignment" | "scorm"
   videoUrl: string | null
+  /** HLS master playlist, once the video has been transcoded */
+  hlsUrl: string | null
+  /** Ready caption tracks of the video */
+  captions: CaptionTrack[]
   thumbnailUrl: string | null
   content: string | null
   duration: number | null
   order: number
   isFree: boolean
+  /** Set while drip rules keep the lesson closed — content is withheld */
+  lock: {
+    unlocksAt: string | null
+    prerequisiteLessonId: string | null
+    prerequisiteTitle: string | null
+  } | null
 }
 
 export type LearnCourse = {
@@ -294,6 +342,17 @@ export async function fetchCourseForLearning(courseId: string): Promise<LearnCou
     
     if (!course) return null
     
+    // A refunded enrollment loses access to the course content
+    const currentUser = await getCurrentUser()
+    if (currentUser) {
+      const revoked = await Enrollment.exists({
+        user: currentUser.id,
+        course: courseId,
+        status: "refunded",
+      })
+      if (revoked) return null
+    }
+    
     const instructor = course.instructor as unknown as {
       firstName: string
       lastName: string
@@ -304,25 +363,54 @@ export async function fetchCourseForLearning(courseId: string): Promise<LearnCou
       .sort({ order: 1 })
       .lean()
     
+    // Drip rules — the instructor and admins see every lesson
+    const locks =
+      currentUser && !(await isDripExempt(currentUser, courseId))
+        ? getLessonLocks(
+            lessons,
+            await getDripSections(courseId),
+            await getStudentProgress(currentUser.id, courseId)
+          )
+        : new Map<string, LessonLock>()
+    const titles = new Map(lessons.map((l) => [l._id.toString(), l.title]))
+    const [streams, captions] = await Promise.all([
+      getVideoStreams(lessons.map((l) => l.videoUrl)),
+      getVideoCaptions(lessons.map((l) => l.videoUrl)),
+    ])
+    
     return {
       id: course._id.toString(),
       title: course.title,
       instructorName: `${instructor.firstName} ${instructor.lastName}`,
       instructorAvatarUrl: instructor.avatarUrl,
       rating: course.rating?.average || null,
-      lessons: lessons.map((l) => ({
-        id: l._id.toString(),
-        courseId: courseId,
-        title: l.title,
-        description: l.description || "",
-        type: l.type as "video" | "live" | "text",
-        videoUrl: l.videoUrl || null,
-        thumbnailUrl: l.videoThumbnailUrl || null,
-        content: l.content || null,
-        duration: l.videoDuration ? Math.round(l.videoDuration / 60) : null,
-        order: l.order,
-        isFree: l.isFree,
-      })),
+      lessons: lessons.map((l) => {
+        const lock = locks.get(l._id.toString())
+        return {
+          id: l._id.toString(),
+          courseId: courseId,
+          title: l.title,
+          description: l.description || "",
+          type: l.type as "video" | "live" | "text" | "quiz" | "assignment" | "scorm",
+          videoUrl: lock ? null : l.videoUrl || null,
+          hlsUrl: lock || !l.videoUrl ? null : (streams.get(l.videoUrl) ?? null),
+          captions: lock || !l.videoUrl ? [] : (captions.get(l.videoUrl) ?? []),
+          thumbnailUrl: l.videoThumbnailUrl || null,
+          content: lock ? null : l.content || null,
+          duration: l.videoDuration ? Math.round(l.videoDuration / 60) : null,
+          order: l.order,
+          isFree: l.isFree,
+          lock: lock
+            ? {
+                unlocksAt: lock.unlocksAt?.toISOString() ?? null,
+                prerequisiteLessonId: lock.prerequisiteLessonId,
+                prerequisiteTitle: lock.prerequisiteLessonId
+                  ? (titles.get(lock.prerequisiteLessonId) ?? null)
+                  : null,
+              }
+            : null,
+        }
+      }),
     }
   } catch (error) {
     console.error("Fetch course for learning error:", error)
@@ -391,7 +479,7 @@ export async function fetchMyEnrollments(): Promise<StudentEnrollment[]> {
     
     const { Lesson } = await import("@/lib/db/models")
     
-    const enrollments = await Enrollment.find({ user: user._id })
+    const enrollments = await Enrollment.find({ user: user._id, status: { $ne: "refunded" } })
       .populate({
         path: "course",
         select: "title thumbnailUrl instructor",
@@ -566,24 +654,50 @@ export async function checkCoursesBookmarked(courseIds: string[]): Promise<Recor
 /**
  * Mark a lesson as completed
  */
-export async function markLessonComplete(courseId: string, lessonId: string): Promise<{ success: boolean }> {
+export async function markLessonComplete(
+  courseId: string,
+  lessonId: string
+): Promise<{ success: boolean; error?: string }> {
   "use server"
   try {
     await connectDB()
     const user = await getAuthenticatedUser()
     const { Lesson } = await import("@/lib/db/models")
     
-    // Find or create enrollment
-    let enrollment = await Enrollment.findOne({ user: user._id, course: courseId })
+    // Completing a lesson never enrolls — that goes through enrollment / checkout
+    const enrollment = await Enrollment.findOne({
+      user: user._id,
+      course: courseId,
+      status: { $in: ["active", "completed"] },
+    })
     
     if (!enrollment) {
-      enrollment = await Enrollment.create({
-        user: user._id,
-        course: courseId,
-        status: "active",
-        progress: 0,
-        completedLessons: [],
-      })
+      return { success: false, error: "Not enrolled in this course" }
+    }
+    
+    // Lessons still held back by drip rules can't be completed
+    if (await getLessonLockForUser({ id: user._id.toString(), role: user.role }, lessonId)) {
+      return { success: false }
+    }
+    
+    // Quiz, assignment and package lessons are completed by passing / being
+    // graded / the package reporting it (see submitQuizAttempt,
+    // gradeAssignmentSubmission and lib/scorm.ts)
+    const lesson = await Lesson.findOne({ _id: lessonId, course: courseId }).select("type")
+    if (!lesson) {
+      return { success: false, error: "Lesson not found" }
+    }
+    if (lesson.type === "quiz" && !(await hasPassedQuiz(user._id.toString(), lessonId))) {
+      return { success: false }
+    }
+    if (
+      lesson.type === "assignment" &&
+      !(await hasGradedSubmission(user._id.toString(), lessonId))
+    ) {
+      return { success: false }
+    }
+    if (lesson.type === "scorm" && !(await hasCompletedPackage(user._id.toString(), lessonId))) {
+      return { success: false }
     }
     
     // Add lesson to completed if not already there
@@ -592,8 +706,7 @@ export async function markLessonComplete(courseId: string, lessonId: string): Pr
     }
     
     // Calculate progress
-    const totalLessons = await Lesson.countDocuments({ course: courseId })
-    enrollment.progress = Math.round((enrollment.completedLessons.length / totalLessons) * 100)
+    enrollment.progress = await getLiveLessonProgress(courseId, enrollment.completedLessons)
     enrollment.lastAccessedAt = new Date()
     
     await enrollment.save()
@@ -627,33 +740,61 @@ export async function getCompletedLessons(courseId: string): Promise<string[]> {
 }
 
 /**
- * Mark a course as completed
+ * Mark a course as completed and issue its certificate. Only succeeds once
+ * the student has met the course's certificate rules.
  */
-export async function markCourseComplete(courseId: string): Promise<{ success: boolean }> {
+export async function markCourseComplete(
+  courseId: string
+): Promise<{ success: boolean; unmet?: string[] }> {
   "use server"
   try {
     await connectDB()
     const user = await getAuthenticatedUser()
-    const { Lesson } = await import("@/lib/db/models")
-    
-    // Find or create enrollment
-    let enrollment = await Enrollment.findOne({ user: user._id, course: courseId })
-    
-    if (!enrollment) {
-      enrollment = await Enrollment.create({
-        user: user._id,
-        course: courseId,
+    const userId = user._id.toString()
+
+    const { eligible, unmet } = await checkCertificateEligibility(userId, courseId)
+    if (!eligible) {
+      return { success: false, unmet }
+    }
+
+    // Atomic transition so the notification is only sent once
+    const justCompleted = await Enrollment.findOneAndUpdate(
+      { user: user._id, course: courseId, status: "active" },
+      {
         status: "completed",
         progress: 100,
-        completedLessons: [],
         completedAt: new Date(),
+        lastAccessedAt: new Date(),
+      }
+    )
+
+    const certificate = await issueCertificate(userId, courseId)
+
+    if (justCompleted) {
+      const course = await Course.findById(courseId).select("title thumbnailUrl").lean()
+      await notifyUser(userId, {
+        type: "certificate_earned",
+        title: "Certificate earned!",
+        message: `You completed ${course?.title ?? "a course"}. Your certificate is ready.`,
+        href: `/dashboard/courses/${courseId}/certificate`,
+        imageUrl: course?.thumbnailUrl ?? null,
       })
-    } else {
-      enrollment.status = "completed"
-      enrollment.progress = 100
-      enrollment.completedAt = new Date()
-      enrollment.lastAccessedAt = new Date()
-      await enrollment.save()
+
+      // Email the rendered certificate (unless course update emails are off)
+      if (certificate && (await wantsNotification(userId, "courseUpdates", "email"))) {
+        const result = await sendCertificateEarnedEmail(user.email, {
+          studentName: user.firstName,
+          courseTitle: certificate.courseTitle,
+          serialNumber: certificate.serialNumber,
+          imageUrl: certificateFileUrl(certificate.serialNumber, "png"),
+          pdfUrl: certificateFileUrl(certificate.serialNumber, "pdf"),
+          verifyUrl: `${getAppUrl()}/verify/${certificate.serialNumber}`,
+          unsubscribeUrl: buildUnsubscribeUrl(userId, "courseUpdates"),
+        })
+        if (!result.success) {
+          console.error("Certificate email error:", result.error)
+        }
+      }
     }
     
     return { success: true }
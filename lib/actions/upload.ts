@@ -76,6 +76,70 @@ export async function getAudioUploadUrl(
   }
 }
 
+/** Files students can attach to assignments */
+const DOCUMENT_CONTENT_TYPES = [
+  "application/pdf",
+  "text/plain",
+  "text/csv",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.ms-powerpoint",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+]
+
+/**
+ * Get a presigned URL for uploading an assignment file (document or image)
+ */
+export async function getDocumentUploadUrl(
+  filename: string,
+  contentType: string
+): Promise<PresignedUrlResponse> {
+  try {
+    const isImage = contentType.startsWith("image/")
+    if (!isImage && !DOCUMENT_CONTENT_TYPES.includes(contentType)) {
+      return {
+        success: false,
+        error: "Unsupported file type. Upload a PDF, image, Word, Excel, PowerPoint or text file.",
+      }
+    }
+
+    const key = generateFileKey(isImage ? "image" : "document", filename)
+    const { uploadUrl, publicUrl } = await generatePresignedUploadUrl(key, contentType)
+
+    return { success: true, uploadUrl, publicUrl, key }
+  } catch (error) {
+    console.error("Document upload URL error:", error)
+    return { success: false, error: "Failed to prepare upload. Please try again." }
+  }
+}
+
+const PACKAGE_CONTENT_TYPES = ["application/zip", "application/x-zip-compressed", "application/x-zip"]
+
+/**
+ * Get a presigned URL for uploading a SCORM / xAPI package (a zip). It's
+ * unpacked afterwards by unpackLessonPackage.
+ */
+export async function getPackageUploadUrl(
+  filename: string,
+  contentType: string
+): Promise<PresignedUrlResponse> {
+  try {
+    if (!PACKAGE_CONTENT_TYPES.includes(contentType) && !filename.toLowerCase().endsWith(".zip")) {
+      return { success: false, error: "Invalid file type. Please upload a .zip package." }
+    }
+
+    const key = generateFileKey("package", filename.replace(/\.[^.]*$/, "") + ".zip")
+    const { uploadUrl, publicUrl } = await generatePresignedUploadUrl(key, contentType || "application/zip")
+
+    return { success: true, uploadUrl, publicUrl, key }
+  } catch (error) {
+    console.error("Package upload URL error:", error)
+    return { success: false, error: "Failed to prepare upload. Please try again." }
+  }
+}
+
 /**
  * Delete a file from R2
  */
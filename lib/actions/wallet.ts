@@ -0,0 +1,71 @@
+"use server"
+
+import connectDB from "@/lib/db"
+import { User, WalletTransaction, type WalletTransactionType } from "@/lib/db/models"
+import { getCurrentUser } from "@/lib/auth"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type WalletTransactionItem = {
+  id: string
+  type: WalletTransactionType
+  amount: number
+  currency: string
+  balanceAfter: number
+  description: string
+  courseId: string | null
+  createdAt: string
+}
+
+// ============================================================================
+// WALLET QUERIES
+// ============================================================================
+
+/**
+ * Get the current user's wallet balance, read fresh from the database
+ */
+export async function getWalletBalance(): Promise<number> {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return 0
+
+    const user = await User.findById(currentUser.id).select("walletBalance").lean()
+    return user?.walletBalance ?? 0
+  } catch (error) {
+    console.error("Get wallet balance error:", error)
+    return 0
+  }
+}
+
+/**
+ * Get the current user's wallet ledger, newest first
+ */
+export async function getWalletTransactions(limit = 50): Promise<WalletTransactionItem[]> {
+  try {
+    await connectDB()
+    const currentUser = await getCurrentUser()
+    if (!currentUser) return []
+
+    const entries = await WalletTransaction.find({ user: currentUser.id })
+      .sort({ createdAt: -1 })
+      .limit(Math.min(Math.max(limit, 1), 100))
+      .lean()
+
+    return entries.map((e) => ({
+      id: e._id.toString(),
+      type: e.type,
+      amount: e.amount,
+      currency: e.currency,
+      balanceAfter: e.balanceAfter,
+      description: e.description,
+      courseId: e.course?.toString() || null,
+      createdAt: e.createdAt.toISOString(),
+    }))
+  } catch (error) {
+    console.error("Get wallet transactions error:", error)
+    return []
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Assignment lessons — validating the rubric and submission options the
+ * instructor authored, and checking whether a student's work has been graded.
+ *
+ * Server-side only. Submissions and grading live in lib/actions/assignments.ts.
+ */
+
+import { Types } from "mongoose"
+import connectDB from "@/lib/db"
+import { AssignmentSubmission, type ILessonAssignment } from "@/lib/db/models"
+import type { LessonAssignment } from "@/lib/types"
+
+export const MAX_RUBRIC_CRITERIA = 20
+
+type AssignmentDraft = {
+  allowFiles: boolean
+  allowText: boolean
+  rubric: {
+    _id: Types.ObjectId
+    title: string
+    description: string | null
+    maxPoints: number
+  }[]
+}
+
+/**
+ * Validate an assignment from the course editor / lesson manager and
+ * normalise it for storage. Criterion ids are kept when they're existing
+ * ObjectIds so grades still line up with their criteria.
+ */
+export function parseAssignmentInput(
+  input: unknown
+): { assignment: AssignmentDraft; error: null } | { assignment: null; error: string } {
+  const raw = (input ?? {}) as Partial<LessonAssignment>
+  const allowFiles = raw.allowFiles !== false
+  const allowText = raw.allowText !== false
+
+  if (!allowFiles && !allowText) {
+    return { assignment: null, error: "Allow file uploads, written answers, or both" }
+  }
+
+  const criteria = Array.isArray(raw.rubric) ? raw.rubric : []
+  if (criteria.length === 0) {
+    return { assignment: null, error: "Add at least one rubric criterion" }
+  }
+  if (criteria.length > MAX_RUBRIC_CRITERIA) {
+    return { assignment: null, error: `A rubric can have at most ${MAX_RUBRIC_CRITERIA} criteria` }
+  }
+
+  const rubric: AssignmentDraft["rubric"] = []
+  for (const [i, c] of criteria.entries()) {
+    const title = String(c?.title ?? "").trim()
+    if (!title) {
+      return { assignment: null, error: `Criterion ${i + 1}: enter a title` }
+    }
+    const maxPoints = Math.round(Number(c.maxPoints))
+    if (!Number.isFinite(maxPoints) || maxPoints < 1) {
+      return { assignment: null, error: `Criterion ${i + 1}: max points must be at least 1` }
+    }
+    rubric.push({
+      _id: c.id && Types.ObjectId.isValid(c.id) ? new Types.ObjectId(c.id) : new Types.ObjectId(),
+      title: title.slice(0, 150),
+      description: c.description ? String(c.description).trim() || null : null,
+      maxPoints,
+    })
+  }
+
+  return { assignment: { allowFiles, allowText, rubric }, error: null }
+}
+
+/**
+ * Stored assignment → the editor's shape
+ */
+export function toLessonAssignment(
+  assignment: ILessonAssignment | null | undefined
+): LessonAssignment | null {
+  if (!assignment) return null
+  return {
+    allowFiles: assignment.allowFiles,
+    allowText: assignment.allowText,
+    rubric: assignment.rubric.map((c) => ({
+      id: c._id.toString(),
+      title: c.title,
+      description: c.description ?? null,
+      maxPoints: c.maxPoints,
+    })),
+  }
+}
+
+/**
+ * Whether the user's submission for an assignment lesson has been graded
+ */
+export async function hasGradedSubmission(userId: string, lessonId: string): Promise<boolean> {
+  await connectDB()
+  const graded = await AssignmentSubmission.exists({
+    user: userId,
+    lesson: lessonId,
+    status: "graded",
+  })
+  return !!graded
+}
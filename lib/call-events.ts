@@ -1,6 +1,6 @@
 /**
  * Server-side real-time event bus using Ably.
- * Handles call events, message events, and meeting events.
+ * Handles call events, message events, meeting events and notifications.
  *
  * Server actions publish events via Ably REST API.
  * Clients subscribe via Ably Realtime WebSocket (see use-call-events.ts).
@@ -66,12 +66,26 @@ export type MeetingEventType =
   | "meeting:chat"
   | "meeting:poll"
   | "meeting:poll-vote"
+  | "meeting:question"
+  | "meeting:question-update"
+  | "meeting:recording-started"
+  | "meeting:recording-stopped"
+  | "meeting:breakout-opened"
+  | "meeting:breakout-broadcast"
+  | "meeting:breakout-closed"
   | "meeting:mute-participant"
   | "meeting:screen-share-permission"
   | "meeting:lobby-update"
   | "meeting:speaking"
   | "meeting:session-replaced"
 
+/** An open breakout room, as sent to meeting participants */
+export type BreakoutRoomState = {
+  id: string
+  name: string
+  participantIds: string[]
+}
+
 export type MeetingEventPayload = {
   type: MeetingEventType
   meetingId: string
@@ -88,13 +102,18 @@ export type MeetingEventPayload = {
   chatImageUrl?: string
   chatVideoUrl?: string
   chatMessageId?: string
-  /** Poll data */
+  /** Poll data — pollVotes on meeting:poll-vote are the poll's full tallies */
   pollId?: string
   pollQuestion?: string
   pollOptions?: string[]
   pollVotes?: Record<string, number>
   pollVoters?: Record<string, string>
   optionIndex?: number
+  /** Q&A data */
+  questionId?: string
+  questionText?: string
+  questionUpvotes?: number
+  questionAnswered?: boolean
   /** Permission flag */
   canScreenShare?: boolean
   /** Participant role */
@@ -109,6 +128,11 @@ export type MeetingEventPayload = {
   meetingStatus?: "scheduled" | "waiting" | "active" | "ended"
   /** Speaking indicator - audio level 0-1 */
   speakingLevel?: number
+  /** Breakout rooms — the rooms now open on meeting:breakout-opened */
+  breakoutRooms?: BreakoutRoomState[]
+  breakoutEndsAt?: string | null
+  /** Host's message on meeting:breakout-broadcast */
+  breakoutMessage?: string
   /** Mute type for meeting:mute-participant */
   muteType?: "audio" | "video" | "screenshare"
 }
@@ -131,9 +155,28 @@ export type MessageEventPayload = {
   timestamp: string
 }
 
+// ── Notification event types ──
+
+export type NotificationEventType = "notification:new"
+
+export type NotificationEventPayload = {
+  type: NotificationEventType
+  notificationId: string
+  notificationType: string
+  title: string
+  message: string
+  href: string | null
+  imageUrl: string | null
+  createdAt: string
+}
+
 // ── Unified event type ──
 
-export type SSEEventPayload = CallEventPayload | MessageEventPayload | MeetingEventPayload
+export type SSEEventPayload =
+  | CallEventPayload
+  | MessageEventPayload
+  | MeetingEventPayload
+  | NotificationEventPayload
 
 // ── Ably REST client (server-side, lazy-initialized) ──
 
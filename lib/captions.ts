@@ -0,0 +1,319 @@
+/**
+ * Lesson video captions — reading uploaded WebVTT / SRT files into timed
+ * cues, writing them back out as WebVTT for the player, and generating
+ * tracks through the configured speech-to-text provider. Generation is
+ * queued by lib/actions/captions.ts and worked through by the cron route at
+ * /api/cron/caption-jobs.
+ *
+ * Server-side only. Tracks are keyed by video URL (see VideoCaption) and
+ * served from our own origin by app/api/captions.
+ */
+
+import connectDB from "@/lib/db"
+import {
+  Lesson,
+  VideoAsset,
+  VideoCaption,
+  type ICaptionCue,
+  type IVideoCaption,
+} from "@/lib/db/models"
+import { getSpeechToTextProvider } from "@/lib/speech-to-text"
+import type { CaptionTrack, ManagedCaptionTrack } from "@/lib/types"
+
+// Stays under the 1MB server action body limit
+export const MAX_CAPTION_FILE_CHARS = 512 * 1024
+const MAX_CUES = 20000
+const MAX_CUE_CHARS = 500
+
+const MAX_ATTEMPTS = 3
+// A job still processing after this long was left behind by a run that died
+const STALE_LOCK_MS = 30 * 60 * 1000
+
+// hh:mm:ss.mmm or mm:ss.mmm — SRT separates the milliseconds with a comma
+const TIMING =
+  /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/
+
+const ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&nbsp;": " ",
+  "&lrm;": "",
+  "&rlm;": "",
+}
+
+// ============================================================================
+// FILES
+// ============================================================================
+
+function parseTimestamp(value: string): number {
+  const [clock, fraction] = value.replace(",", ".").split(".")
+  const seconds = clock.split(":").reduce((total, part) => total * 60 + Number(part), 0)
+  return seconds + Number(`0.${fraction}`)
+}
+
+function formatTimestamp(seconds: number): string {
+  const ms = Math.round(seconds * 1000)
+  const h = Math.floor(ms / 3_600_000)
+  const m = Math.floor((ms % 3_600_000) / 60_000)
+  const s = Math.floor((ms % 60_000) / 1000)
+  const pad = (n: number, width = 2) => n.toString().padStart(width, "0")
+  return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms % 1000, 3)}`
+}
+
+/** Plain text of a cue — styling tags go, the player styles captions itself */
+function cleanCueText(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, "")
+    .replace(/&(amp|lt|gt|nbsp|lrm|rlm);/g, (entity) => ENTITIES[entity])
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join("\n")
+    .slice(0, MAX_CUE_CHARS)
+}
+
+/**
+ * Read a WebVTT or SRT file into cues, in start order. Blocks without a
+ * timing line (headers, NOTE, STYLE, REGION) are skipped; returns an empty
+ * list when nothing in the file is a cue.
+ */
+export function parseCaptionFile(content: string): ICaptionCue[] {
+  const blocks = content
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n{2,}/)
+
+  const cues: ICaptionCue[] = []
+  for (const block of blocks) {
+    const lines = block.split("\n")
+    // The timing line may follow a cue identifier (or an SRT sequence number)
+    const timingIndex = lines.findIndex((line) => line.includes("-->"))
+    if (timingIndex === -1 || timingIndex > 1) continue
+
+    const match = TIMING.exec(lines[timingIndex].trim())
+    if (!match) continue
+
+    const start = parseTimestamp(match[1])
+    const end = parseTimestamp(match[2])
+    const text = cleanCueText(lines.slice(timingIndex + 1).join("\n"))
+    if (!text || !(end > start)) continue
+
+    cues.push({ start, end, text })
+    if (cues.length >= MAX_CUES) break
+  }
+
+  return cues.sort((a, b) => a.start - b.start)
+}
+
+/**
+ * A track as a WebVTT file
+ */
+export function toWebVtt(cues: ICaptionCue[]): string {
+  const escape = (text: string) =>
+    text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+  const body = cues.map(
+    (cue) => `${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}\n${escape(cue.text)}`
+  )
+  return ["WEBVTT", ...body].join("\n\n") + "\n"
+}
+
+// ============================================================================
+// TRACKS
+// ============================================================================
+
+export function toCaptionTrack(
+  caption: Pick<IVideoCaption, "_id" | "language" | "label" | "updatedAt">
+): CaptionTrack {
+  const id = caption._id.toString()
+  return {
+    id,
+    language: caption.language,
+    label: caption.label,
+    // Replacing a track keeps its id; the version makes players fetch the new file
+    src: `/api/captions/${id}?v=${caption.updatedAt.getTime()}`,
+  }
+}
+
+/**
+ * The ready caption tracks of each video, by video URL, in language order
+ */
+export async function getVideoCaptions(
+  videoUrls: (string | null | undefined)[]
+): Promise<Map<string, CaptionTrack[]>> {
+  const urls = [...new Set(videoUrls.filter((u): u is string => !!u))]
+  if (urls.length === 0) return new Map()
+
+  await connectDB()
+  const captions = await VideoCaption.find({ videoUrl: { $in: urls }, status: "ready" })
+    .select("videoUrl language label updatedAt")
+    .sort({ label: 1 })
+    .lean()
+
+  const tracks = new Map<string, CaptionTrack[]>()
+  for (const caption of captions) {
+    const list = tracks.get(caption.videoUrl) ?? []
+    list.push(toCaptionTrack(caption))
+    tracks.set(caption.videoUrl, list)
+  }
+  return tracks
+}
+
+/**
+ * Every caption track of each video, including queued and failed ones
+ */
+export async function getManagedVideoCaptions(
+  videoUrls: (string | null | undefined)[]
+): Promise<Record<string, ManagedCaptionTrack[]>> {
+  const urls = [...new Set(videoUrls.filter((u): u is string => !!u))]
+  if (urls.length === 0) return {}
+
+  await connectDB()
+  const captions = await VideoCaption.aggregate<
+    Pick<
+      IVideoCaption,
+      | "_id"
+      | "videoUrl"
+      | "language"
+      | "label"
+      | "source"
+      | "status"
+      | "fileName"
+      | "error"
+      | "updatedAt"
+    > & {
+      cueCount: number
+    }
+  >([
+    { $match: { videoUrl: { $in: urls } } },
+    { $sort: { label: 1 } },
+    {
+      $project: {
+        videoUrl: 1,
+        language: 1,
+        label: 1,
+        source: 1,
+        status: 1,
+        fileName: 1,
+        error: 1,
+        updatedAt: 1,
+        cueCount: { $size: "$cues" },
+      },
+    },
+  ])
+
+  const tracks: Record<string, ManagedCaptionTrack[]> = {}
+  for (const caption of captions) {
+    tracks[caption.videoUrl] = [
+      ...(tracks[caption.videoUrl] ?? []),
+      {
+        ...toCaptionTrack(caption),
+        source: caption.source,
+        status: caption.status,
+        fileName: caption.fileName ?? null,
+        cueCount: caption.cueCount,
+        error: caption.error ?? null,
+      },
+    ]
+  }
+  return tracks
+}
+
+/**
+ * Remove the caption tracks of these videos (when their course is deleted)
+ */
+export async function deleteVideoCaptions(videoUrls: (string | null | undefined)[]) {
+  const urls = [...new Set(videoUrls.filter((u): u is string => !!u))]
+  if (urls.length === 0) return
+
+  await connectDB()
+  await VideoCaption.deleteMany({ videoUrl: { $in: urls } })
+}
+
+// ============================================================================
+// WORKER
+// ============================================================================
+
+/**
+ * Generate queued caption tracks, oldest first. A failed track is retried
+ * on later runs, up to MAX_ATTEMPTS.
+ */
+export async function runCaptionJobs(maxJobs = 3): Promise<{
+  ready: number
+  retrying: number
+  failed: number
+}> {
+  await connectDB()
+  const result = { ready: 0, retrying: 0, failed: 0 }
+  const provider = getSpeechToTextProvider()
+
+  // Runs that died at their last attempt won't be picked up again
+  const stale = new Date(Date.now() - STALE_LOCK_MS)
+  await VideoCaption.updateMany(
+    { status: "processing", lockedAt: { $lt: stale }, attempts: { $gte: MAX_ATTEMPTS } },
+    { $set: { status: "failed", lockedAt: null, error: "Transcription did not finish" } }
+  )
+
+  for (let i = 0; i < maxJobs; i++) {
+    const caption = await VideoCaption.findOneAndUpdate(
+      {
+        source: "generated",
+        attempts: { $lt: MAX_ATTEMPTS },
+        $or: [{ status: "queued" }, { status: "processing", lockedAt: { $lt: stale } }],
+      },
+      { $set: { status: "processing", lockedAt: new Date() }, $inc: { attempts: 1 } },
+      { sort: { createdAt: 1 }, new: true }
+    ).lean()
+    if (!caption) break
+
+    try {
+      const segments = await provider.transcribe({
+        mediaUrl: caption.videoUrl,
+        language: caption.language,
+        durationSeconds: await getVideoDuration(caption.videoUrl),
+      })
+      const cues = segments
+        .map((s) => ({ start: s.start, end: s.end, text: cleanCueText(s.text) }))
+        .filter((c) => c.text && c.end > c.start)
+        .sort((a, b) => a.start - b.start)
+        .slice(0, MAX_CUES)
+      if (cues.length === 0) throw new Error("No speech was recognised")
+
+      await VideoCaption.updateOne(
+        { _id: caption._id },
+        { $set: { cues, status: "ready", lockedAt: null, error: null } }
+      )
+      result.ready++
+    } catch (error) {
+      console.error(`[Captions] ${caption.videoUrl} (${caption.language}) failed:`, error)
+      const giveUp = caption.attempts >= MAX_ATTEMPTS
+      await VideoCaption.updateOne(
+        { _id: caption._id },
+        {
+          $set: {
+            status: giveUp ? "failed" : "queued",
+            lockedAt: null,
+            error: (error instanceof Error ? error.message : String(error)).slice(0, 1000),
+          },
+        }
+      )
+      if (giveUp) result.failed++
+      else result.retrying++
+    }
+  }
+
+  return result
+}
+
+/** The video's length in seconds — from transcoding, else from a lesson using it */
+async function getVideoDuration(videoUrl: string): Promise<number | null> {
+  const asset = await VideoAsset.findOne({ sourceUrl: videoUrl, status: "ready" })
+    .select("duration")
+    .lean()
+  if (asset?.duration) return asset.duration
+
+  const lesson = await Lesson.findOne({ videoUrl, videoDuration: { $gt: 0 } })
+    .select("videoDuration")
+    .lean()
+  return lesson?.videoDuration ?? null
+}
@@ -0,0 +1,353 @@
+/**
+ * Server-side certificate rendering. The PNG is drawn with next/og (satori)
+ * and the PDF is an A4 page wrapping that same image, so both formats — and
+ * every download of them — come out identical.
+ *
+ * Server-side only. Served by app/api/certificates/[certificateId]/[format].
+ */
+
+import { createHash } from "crypto"
+import { readFile } from "fs/promises"
+import path from "path"
+import { ImageResponse } from "next/og"
+import { jsPDF } from "jspdf"
+import type { CertificateData } from "@/lib/actions/certificates"
+import { getAppUrl } from "@/lib/notification-preferences"
+import { isR2PublicUrl } from "@/lib/r2"
+
+export type CertificateFormat = "pdf" | "png"
+
+// A4 landscape at ~170 dpi
+const WIDTH = 2000
+const HEIGHT = 1414
+
+/** Bump to invalidate every cached render after a layout change */
+const LAYOUT_VERSION = 1
+
+/**
+ * Fingerprint of everything that appears on the certificate. Cached renders
+ * are keyed on it, so adding a signature produces a new file. Revocation
+ * isn't part of it — the route refuses revoked certificates outright.
+ */
+export function certificateRenderVersion(data: CertificateData): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        LAYOUT_VERSION,
+        data.serialNumber,
+        data.studentName,
+        data.courseTitle,
+        data.instructorName,
+        data.completedAt,
+        data.instructorSignatureUrl,
+        data.studentSignatureUrl,
+      ])
+    )
+    .digest("hex")
+    .slice(0, 16)
+}
+
+/** Public link to a rendered certificate (redirects to the cached version) */
+export function certificateFileUrl(serialNumber: string, format: CertificateFormat): string {
+  return `${getAppUrl()}/api/certificates/${serialNumber}/${format}`
+}
+
+let logoDataUrl: Promise<string> | null = null
+
+function loadLogo(): Promise<string> {
+  logoDataUrl ??= readFile(
+    path.join(process.cwd(), "public/worldstreet-logo/WorldStreet4x.png")
+  ).then((buf) => `data:image/png;base64,${buf.toString("base64")}`)
+  return logoDataUrl
+}
+
+const SIGNATURE_TIMEOUT_MS = 10_000
+const MAX_SIGNATURE_BYTES = 2 * 1024 * 1024
+
+/**
+ * A signature image as a data URL. Only read from our R2 bucket — this runs
+ * on a public route, so stored URLs must never reach anything else. Satori
+ * can't read every remote image — fall back to no signature.
+ */
+async function loadImage(url: string | null): Promise<string | null> {
+  if (!url || !isR2PublicUrl(url)) return null
+  try {
+    const res = await fetch(url, { redirect: "error", signal: AbortSignal.timeout(SIGNATURE_TIMEOUT_MS) })
+    const type = res.headers.get("content-type")?.split(";")[0].trim().toLowerCase() ?? ""
+    if (!res.ok || !res.body || !/^image\/[\w.+-]+$/.test(type)) {
+      await res.body?.cancel()
+      return null
+    }
+
+    const reader = res.body.getReader()
+    const chunks: Uint8Array[] = []
+    let size = 0
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      size += value.length
+      if (size > MAX_SIGNATURE_BYTES) {
+        await reader.cancel()
+        return null
+      }
+      chunks.push(value)
+    }
+    return `data:${type};base64,${Buffer.concat(chunks).toString("base64")}`
+  } catch {
+    return null
+  }
+}
+
+function Corner({ rotate, style }: { rotate: number; style: React.CSSProperties }) {
+  return (
+    <div
+      style={{
+        position: "absolute",
+        width: 121,
+        height: 121,
+        display: "flex",
+        transform: `rotate(${rotate}deg)`,
+        ...style,
+      }}
+    >
+      <div style={{ position: "absolute", top: 0, left: 0, width: 121, height: 5, background: "#1e1e1e" }} />
+      <div style={{ position: "absolute", top: 0, left: 0, width: 5, height: 121, background: "#1e1e1e" }} />
+      <div style={{ position: "absolute", top: 20, left: 20, width: 70, height: 2, background: "#b4b4b4" }} />
+      <div style={{ position: "absolute", top: 20, left: 20, width: 2, height: 70, background: "#b4b4b4" }} />
+    </div>
+  )
+}
+
+function SignatureColumn({
+  image,
+  label,
+  value,
+}: {
+  image: string | null
+  label: string
+  value: string
+}) {
+  return (
+    <div style={{ display: "flex", flexDirection: "column", alignItems: "center", width: 360 }}>
+      <div style={{ display: "flex", height: 80, alignItems: "flex-end", justifyContent: "center" }}>
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        {image && <img src={image} alt="" height={72} style={{ objectFit: "contain", maxWidth: 280 }} />}
+      </div>
+      <div style={{ width: 300, height: 2, background: "#b4b4b4", marginTop: 6 }} />
+      <div style={{ fontSize: 18, letterSpacing: 5, color: "#a0a0a0", marginTop: 14 }}>{label}</div>
+      <div style={{ fontSize: 24, color: "#505050", marginTop: 8 }}>{value}</div>
+    </div>
+  )
+}
+
+function CertificateImage({
+  data,
+  logo,
+  studentSignature,
+  instructorSignature,
+}: {
+  data: CertificateData
+  logo: string
+  studentSignature: string | null
+  instructorSignature: string | null
+}) {
+  const completedDate = new Date(data.completedAt).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  })
+  const verifyUrl = `${getAppUrl().replace(/^https?:\/\//, "")}/verify/${data.serialNumber}`
+
+  return (
+    <div
+      style={{
+        width: WIDTH,
+        height: HEIGHT,
+        display: "flex",
+        position: "relative",
+        background: "#ffffff",
+        color: "#111111",
+      }}
+    >
+      {/* Borders */}
+      <div style={{ position: "absolute", top: 54, left: 54, right: 54, bottom: 54, border: "5px solid #1e1e1e" }} />
+      <div style={{ position: "absolute", top: 67, left: 67, right: 67, bottom: 67, border: "2px solid #b4b4b4" }} />
+      <div style={{ position: "absolute", top: 81, left: 81, right: 81, bottom: 81, border: "2px solid #d2d2d2" }} />
+
+      <Corner rotate={0} style={{ top: 74, left: 74 }} />
+      <Corner rotate={90} style={{ top: 74, right: 74 }} />
+      <Corner rotate={-90} style={{ bottom: 74, left: 74 }} />
+      <Corner rotate={180} style={{ bottom: 74, right: 74 }} />
+
+      {/* Watermark */}
+      <div
+        style={{
+          position: "absolute",
+          top: 0,
+          left: 0,
+          width: WIDTH,
+          height: HEIGHT,
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          opacity: 0.04,
+        }}
+      >
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img src={logo} alt="" width={640} height={640} style={{ objectFit: "contain" }} />
+      </div>
+
+      {/* Content */}
+      <div
+        style={{
+          position: "absolute",
+          top: 150,
+          left: 160,
+          right: 160,
+          bottom: 130,
+          display: "flex",
+          flexDirection: "column",
+          alignItems: "center",
+          justifyContent: "space-between",
+        }}
+      >
+        <div style={{ display: "flex", flexDirection: "column", alignItems: "center" }}>
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={logo} alt="" width={96} height={96} style={{ objectFit: "contain" }} />
+          <div style={{ display: "flex", alignItems: "center", marginTop: 20 }}>
+            <div style={{ width: 160, height: 2, background: "#d2d2d2" }} />
+            <div style={{ fontSize: 22, letterSpacing: 10, color: "#a0a0a0", margin: "0 28px" }}>
+              WORLDSTREET ACADEMY
+            </div>
+            <div style={{ width: 160, height: 2, background: "#d2d2d2" }} />
+          </div>
+        </div>
+
+        <div style={{ display: "flex", flexDirection: "column", alignItems: "center" }}>
+          <div style={{ fontSize: 92, letterSpacing: 26, color: "#262626", fontWeight: 300 }}>
+            CERTIFICATE
+          </div>
+          <div style={{ fontSize: 24, letterSpacing: 10, color: "#a0a0a0", marginTop: 8 }}>
+            OF COMPLETION
+          </div>
+        </div>
+
+        <div style={{ display: "flex", flexDirection: "column", alignItems: "center" }}>
+          <div style={{ fontSize: 20, letterSpacing: 6, color: "#a0a0a0" }}>
+            THIS IS PROUDLY PRESENTED TO
+          </div>
+          <div style={{ fontSize: 96, color: "#191919", marginTop: 18, fontStyle: "italic" }}>
+            {data.studentName}
+          </div>
+          <div style={{ width: 540, height: 2, background: "#d2d2d2", marginTop: 12 }} />
+        </div>
+
+        <div style={{ display: "flex", flexDirection: "column", alignItems: "center", maxWidth: 1300 }}>
+          <div style={{ fontSize: 20, letterSpacing: 6, color: "#a0a0a0" }}>
+            FOR SUCCESSFULLY COMPLETING THE COURSE
+          </div>
+          <div style={{ fontSize: 40, fontWeight: 700, color: "#323232", marginTop: 16, textAlign: "center" }}>
+            {data.courseTitle}
+          </div>
+        </div>
+
+        <div style={{ display: "flex", width: "100%", justifyContent: "space-between", alignItems: "flex-end" }}>
+          <SignatureColumn image={studentSignature} label="STUDENT" value={completedDate} />
+          <div style={{ display: "flex", flexDirection: "column", alignItems: "center" }}>
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={logo} alt="" width={120} height={120} style={{ objectFit: "contain" }} />
+            <div style={{ fontSize: 16, letterSpacing: 6, color: "#bebebe", marginTop: 10 }}>VERIFIED</div>
+          </div>
+          <SignatureColumn image={instructorSignature} label="INSTRUCTOR" value={data.instructorName} />
+        </div>
+      </div>
+
+      <div
+        style={{
+          position: "absolute",
+          bottom: 92,
+          left: 0,
+          right: 0,
+          display: "flex",
+          justifyContent: "center",
+          fontSize: 16,
+          letterSpacing: 2,
+          color: "#b4b4b4",
+        }}
+      >
+        {`${data.serialNumber} · Verify at ${verifyUrl}`}
+      </div>
+
+      {/* Same gate as the on-screen preview */}
+      {!data.instructorSignatureUrl && (
+        <div
+          style={{
+            position: "absolute",
+            top: 0,
+            left: 0,
+            width: WIDTH,
+            height: HEIGHT,
+            display: "flex",
+            flexDirection: "column",
+            alignItems: "center",
+            justifyContent: "center",
+            background: "rgba(255,255,255,0.85)",
+          }}
+        >
+          <div style={{ fontSize: 56, color: "#262626" }}>Pending Instructor Signature</div>
+          <div style={{ fontSize: 26, color: "#737373", marginTop: 16 }}>
+            This certificate will be available once the instructor signs it
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Render a certificate as a PNG
+ */
+export async function renderCertificatePng(data: CertificateData): Promise<Buffer> {
+  const [logo, studentSignature, instructorSignature] = await Promise.all([
+    loadLogo(),
+    loadImage(data.studentSignatureUrl),
+    loadImage(data.instructorSignatureUrl),
+  ])
+
+  const image = new ImageResponse(
+    (
+      <CertificateImage
+        data={data}
+        logo={logo}
+        studentSignature={studentSignature}
+        instructorSignature={instructorSignature}
+      />
+    ),
+    { width: WIDTH, height: HEIGHT }
+  )
+  return Buffer.from(await image.arrayBuffer())
+}
+
+/**
+ * Render a certificate as a single-page A4 landscape PDF
+ */
+export async function renderCertificatePdf(data: CertificateData): Promise<Buffer> {
+  const png = await renderCertificatePng(data)
+
+  const doc = new jsPDF({ orientation: "landscape", unit: "mm", format: "a4", compress: true })
+  doc.setProperties({
+    title: `${data.courseTitle} — Certificate of Completion`,
+    subject: `Certificate ${data.serialNumber}`,
+    author: "WorldStreet Academy",
+  })
+  doc.addImage(new Uint8Array(png), "PNG", 0, 0, 297, 210, undefined, "FAST")
+
+  return Buffer.from(doc.output("arraybuffer"))
+}
+
+/**
+ * Render a certificate in the requested format
+ */
+export function renderCertificate(data: CertificateData, format: CertificateFormat): Promise<Buffer> {
+  return format === "pdf" ? renderCertificatePdf(data) : renderCertificatePng(data)
+}
@@ -0,0 +1,250 @@
+/**
+ * Certificates — per-course eligibility rules and issuing certificates with
+ * stable serial numbers that can be checked at /verify/[certificateId].
+ *
+ * Server-side only. Student / instructor reads live in lib/actions/certificates.ts.
+ */
+
+import { randomInt } from "crypto"
+import { Types } from "mongoose"
+import connectDB from "@/lib/db"
+import {
+  Certificate,
+  Course,
+  Enrollment,
+  Lesson,
+  QuizAttempt,
+  User,
+  WatchProgress,
+  type ICertificate,
+  type ICertificateRules,
+} from "@/lib/db/models"
+import type { CertificateRules } from "@/lib/types"
+import type { CertificateData } from "@/lib/actions/certificates"
+
+export const DEFAULT_CERTIFICATE_RULES: CertificateRules = {
+  requireAllLessons: true,
+  requireQuizzesPassed: true,
+  minWatchPercent: 0,
+}
+
+export type CertificateEligibility = {
+  eligible: boolean
+  /** Human-readable requirements the student hasn't met yet */
+  unmet: string[]
+}
+
+// No 0/O or 1/I so serials can be read back off a printed certificate
+const SERIAL_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"
+
+function generateSerialNumber(): string {
+  const chars = Array.from({ length: 8 }, () => SERIAL_ALPHABET[randomInt(SERIAL_ALPHABET.length)])
+  return `WSA-${chars.slice(0, 4).join("")}-${chars.slice(4).join("")}`
+}
+
+/**
+ * Stored rules → the editor's shape (courses created before rules existed
+ * get the defaults)
+ */
+export function toCertificateRules(rules: Partial<ICertificateRules> | null | undefined): CertificateRules {
+  return {
+    requireAllLessons: rules?.requireAllLessons ?? DEFAULT_CERTIFICATE_RULES.requireAllLessons,
+    requireQuizzesPassed: rules?.requireQuizzesPassed ?? DEFAULT_CERTIFICATE_RULES.requireQuizzesPassed,
+    minWatchPercent: rules?.minWatchPercent ?? DEFAULT_CERTIFICATE_RULES.minWatchPercent,
+  }
+}
+
+/**
+ * Parse the rules JSON posted by the course editor
+ */
+export function parseCertificateRules(json: string | null): CertificateRules {
+  if (!json) return DEFAULT_CERTIFICATE_RULES
+  try {
+    const raw = JSON.parse(json) as Partial<CertificateRules>
+    const minWatchPercent = Math.round(Number(raw.minWatchPercent) || 0)
+    return {
+      requireAllLessons: raw.requireAllLessons !== false,
+      requireQuizzesPassed: raw.requireQuizzesPassed !== false,
+      minWatchPercent: Math.min(Math.max(minWatchPercent, 0), 100),
+    }
+  } catch {
+    return DEFAULT_CERTIFICATE_RULES
+  }
+}
+
+/**
+ * Check a student against the course's certificate rules
+ */
+export async function checkCertificateEligibility(
+  userId: string,
+  courseId: string
+): Promise<CertificateEligibility> {
+  await connectDB()
+
+  const [course, enrollment] = await Promise.all([
+    Course.findById(courseId).select("certificateRules").lean(),
+    Enrollment.findOne({
+      user: userId,
+      course: courseId,
+      status: { $in: ["active", "completed"] },
+    })
+      .select("completedLessons")
+      .lean(),
+  ])
+  if (!course) return { eligible: false, unmet: ["Course not found"] }
+  if (!enrollment) return { eligible: false, unmet: ["Enroll in this course"] }
+
+  const rules = toCertificateRules(course.certificateRules)
+  const lessons = await Lesson.find({ course: courseId, isPublished: true })
+    .select("type")
+    .lean()
+  const unmet: string[] = []
+
+  if (rules.requireAllLessons) {
+    const completed = new Set(enrollment.completedLessons.map((id) => id.toString()))
+    const remaining = lessons.filter((l) => !completed.has(l._id.toString())).length
+    if (remaining > 0) {
+      unmet.push(`Complete ${remaining} more lesson${remaining !== 1 ? "s" : ""}`)
+    }
+  }
+
+  const quizIds = lessons.filter((l) => l.type === "quiz").map((l) => l._id)
+  if (rules.requireQuizzesPassed && quizIds.length > 0) {
+    const passed = await QuizAttempt.distinct("lesson", {
+      user: userId,
+      lesson: { $in: quizIds },
+      passed: true,
+    })
+    const remaining = quizIds.length - passed.length
+    if (remaining > 0) {
+      unmet.push(`Pass ${remaining} more quiz${remaining !== 1 ? "zes" : ""}`)
+    }
+  }
+
+  const videoIds = lessons.filter((l) => l.type === "video").map((l) => l._id)
+  if (rules.minWatchPercent > 0 && videoIds.length > 0) {
+    const progress = await WatchProgress.find({ user: userId, lesson: { $in: videoIds } })
+      .select("currentTime duration completed")
+      .lean()
+    // Average across every video lesson — unwatched ones count as 0%
+    const total = progress.reduce((sum, p) => {
+      if (p.completed) return sum + 100
+      return sum + (p.duration > 0 ? Math.min(100, (p.currentTime / p.duration) * 100) : 0)
+    }, 0)
+    const watched = Math.floor(total / videoIds.length)
+    if (watched < rules.minWatchPercent) {
+      unmet.push(`Watch at least ${rules.minWatchPercent}% of the course videos (you're at ${watched}%)`)
+    }
+  }
+
+  return { eligible: unmet.length === 0, unmet }
+}
+
+/**
+ * Issue the student's certificate for a course if they've met its rules.
+ * Idempotent — returns the existing certificate when there is one. One
+ * revoked by a refund is reissued under a new serial once the student has
+ * bought the course again and earned it, so its old links stay revoked.
+ */
+export async function issueCertificate(
+  userId: string,
+  courseId: string
+): Promise<ICertificate | null> {
+  await connectDB()
+
+  const existing = await Certificate.findOne({ user: userId, course: courseId })
+  if (existing && !existing.revokedAt) return existing
+
+  const { eligible } = await checkCertificateEligibility(userId, courseId)
+  if (!eligible) return null
+
+  const [course, user, enrollment] = await Promise.all([
+    Course.findById(courseId)
+      .select("title instructor")
+      .populate("instructor", "firstName lastName")
+      .lean(),
+    User.findById(userId).select("firstName lastName").lean(),
+    Enrollment.findOne({ user: userId, course: courseId }).select("_id completedAt").lean(),
+  ])
+  if (!course || !user || !enrollment) return null
+
+  const instructor = course.instructor as unknown as {
+    _id: Types.ObjectId
+    firstName: string
+    lastName: string
+  }
+  const fields = {
+    enrollment: enrollment._id,
+    instructor: instructor._id,
+    studentName: `${user.firstName} ${user.lastName}`.trim(),
+    courseTitle: course.title,
+    instructorName: `${instructor.firstName} ${instructor.lastName}`.trim(),
+    issuedAt: enrollment.completedAt ?? new Date(),
+  }
+
+  // Retry on the (very unlikely) serial collision; a duplicate on
+  // (user, course) means a concurrent request issued it first
+  for (let attempt = 0; attempt < 3; attempt++) {
+    try {
+      if (existing) {
+        const reissued = await Certificate.findOneAndUpdate(
+          { _id: existing._id, revokedAt: { $ne: null } },
+          { ...fields, serialNumber: generateSerialNumber(), revokedAt: null },
+          { new: true }
+        )
+        // Already reissued by a concurrent request
+        return reissued ?? (await Certificate.findById(existing._id))
+      }
+      return await Certificate.create({
+        ...fields,
+        serialNumber: generateSerialNumber(),
+        user: userId,
+        course: courseId,
+      })
+    } catch (error) {
+      if ((error as { code?: number }).code !== 11000) throw error
+      const issued = await Certificate.findOne({ user: userId, course: courseId, revokedAt: null })
+      if (issued) return issued
+    }
+  }
+  return null
+}
+
+/**
+ * Find a certificate by serial number or id (both appear in verify links)
+ */
+export async function findCertificate(certificateId: string): Promise<ICertificate | null> {
+  await connectDB()
+  const serialNumber = certificateId.trim().toUpperCase()
+  if (/^WSA-[A-Z0-9]{4}-[A-Z0-9]{4}$/.test(serialNumber)) {
+    return Certificate.findOne({ serialNumber })
+  }
+  if (Types.ObjectId.isValid(certificateId)) {
+    return Certificate.findById(certificateId)
+  }
+  return null
+}
+
+/**
+ * Everything printed on a certificate — names are the issue-time snapshot,
+ * signatures are whatever the student and instructor have saved now
+ */
+export async function getCertificateData(certificate: ICertificate): Promise<CertificateData> {
+  await connectDB()
+  const [instructor, student] = await Promise.all([
+    User.findById(certificate.instructor).select("signatureUrl").lean(),
+    User.findById(certificate.user).select("signatureUrl").lean(),
+  ])
+
+  return {
+    id: certificate._id.toString(),
+    serialNumber: certificate.serialNumber,
+    studentName: certificate.studentName,
+    courseTitle: certificate.courseTitle,
+    instructorName: certificate.instructorName,
+    completedAt: certificate.issuedAt.toISOString(),
+    courseId: certificate.course.toString(),
+    instructorSignatureUrl: instructor?.signatureUrl ?? null,
+    studentSignatureUrl: student?.signatureUrl ?? null,
+  }
+}
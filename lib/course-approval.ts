@@ -0,0 +1,99 @@
+/**
+ * Course approval — a course needs an admin's sign-off before it goes live
+ * the first time. Instructors "publishing" an unapproved course queue it for
+ * review instead; admins decide from /admin/courses (lib/actions/admin.ts).
+ *
+ * Server-side only.
+ */
+
+import { Types } from "mongoose"
+import type { CourseStatus, ICourseApproval } from "@/lib/db/models"
+
+type Actor = { id: string; role: "USER" | "INSTRUCTOR" | "ADMIN" }
+
+type ApprovalState = {
+  status: CourseStatus
+  approval?: Partial<ICourseApproval> | null
+  forceArchived?: boolean
+  publishedAt?: Date | null
+}
+
+export type PublishResolution =
+  | { error: string }
+  | {
+      error: null
+      status: CourseStatus
+      approval: ICourseApproval
+      publishedAt: Date | null
+      /** The course was just queued for admin review */
+      submittedForReview: boolean
+    }
+
+function toApproval(approval: Partial<ICourseApproval> | null | undefined): ICourseApproval {
+  return {
+    status: approval?.status ?? "none",
+    note: approval?.note ?? null,
+    submittedAt: approval?.submittedAt ?? null,
+    reviewedBy: approval?.reviewedBy ?? null,
+    reviewedAt: approval?.reviewedAt ?? null,
+  }
+}
+
+/**
+ * Work out what status a course actually gets when its owner asks for
+ * `requested`. Pass `null` for a course that is being created.
+ *
+ * Courses that are already live (including ones published before approvals
+ * existed) stay live; admins' own courses are approved on the spot.
+ */
+export function resolveCourseStatus(
+  course: ApprovalState | null,
+  requested: CourseStatus,
+  actor: Actor
+): PublishResolution {
+  const approval = toApproval(course?.approval)
+  const publishedAt = course?.publishedAt ?? null
+
+  if (course?.forceArchived && actor.role !== "ADMIN" && requested !== "archived") {
+    return { error: "This course was archived by an admin and can't be republished" }
+  }
+
+  if (requested !== "published") {
+    return { error: null, status: requested, approval, publishedAt, submittedForReview: false }
+  }
+
+  const live = { error: null, status: "published" as const, publishedAt: publishedAt ?? new Date() }
+
+  if (actor.role === "ADMIN") {
+    return {
+      ...live,
+      approval:
+        approval.status === "approved"
+          ? approval
+          : {
+              ...approval,
+              status: "approved",
+              note: null,
+              reviewedBy: new Types.ObjectId(actor.id),
+              reviewedAt: new Date(),
+            },
+      submittedForReview: false,
+    }
+  }
+
+  if (course?.status === "published" || approval.status === "approved") {
+    return { ...live, approval, submittedForReview: false }
+  }
+
+  // Not approved yet — hold it as a draft until an admin reviews it
+  return {
+    error: null,
+    status: "draft",
+    approval:
+      approval.status === "pending"
+        ? approval
+        : { ...approval, status: "pending", submittedAt: new Date() },
+    publishedAt,
+    submittedForReview: approval.status !== "pending",
+  }
+}
@@ -0,0 +1,557 @@
+/**
+ * Course archives — a portable, versioned JSON export of a course: its
+ * details, sections, lessons (text, quizzes, assignments, drip rules),
+ * resources and media URLs. Importing one creates a new draft course.
+ *
+ * Imports are checked item by item: a section or lesson that doesn't
+ * validate is reported and skipped rather than failing the whole import.
+ * Media is copied into R2 so the new course doesn't depend on wherever the
+ * archive came from.
+ *
+ * Server-side only.
+ */
+
+import { lookup } from "node:dns/promises"
+import { BlockList, isIP } from "node:net"
+import { Readable } from "node:stream"
+import type { ReadableStream as NodeReadableStream } from "node:stream/web"
+import { Types } from "mongoose"
+import { z } from "zod/v4"
+import { Course, Lesson, Section, User, type ILesson } from "@/lib/db/models"
+import { editsGoToDraft, getWorkingSnapshot, snapshotLiveCourse } from "@/lib/course-versions"
+import { parseQuizInput, toLessonQuiz } from "@/lib/quiz"
+import { parseAssignmentInput, toLessonAssignment } from "@/lib/assignments"
+import { toCertificateRules } from "@/lib/certificates"
+import { MAX_RELEASE_AFTER_DAYS } from "@/lib/lesson-access"
+import { resequenceLessons } from "@/lib/sections"
+import { generateFileKey, uploadToR2, type UploadType } from "@/lib/r2"
+import { queueVideoTranscodes } from "@/lib/video-transcode"
+import { generateCourseSlug } from "@/lib/utils"
+
+export const COURSE_ARCHIVE_FORMAT = "worldstreet-academy-course"
+export const COURSE_ARCHIVE_VERSION = 1
+/** Largest archive file the importer accepts */
+export const MAX_ARCHIVE_BYTES = 10 * 1024 * 1024
+
+const MAX_MEDIA_BYTES = 5 * 1024 ** 3
+/** Media without a Content-Length is buffered, so keep it small */
+const MAX_UNSIZED_MEDIA_BYTES = 50 * 1024 * 1024
+const MEDIA_TIMEOUT_MS = 10 * 60 * 1000
+const MAX_MEDIA_REDIRECTS = 5
+
+// Where archive media may not come from: private, loopback, link-local
+// (cloud metadata) and other non-public ranges. IPv4-mapped IPv6 addresses
+// are checked against the IPv4 ranges; NAT64, Teredo and 6to4 are refused.
+const BLOCKED_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4")
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["64:ff9b::", 96],
+  ["2001::", 32],
+  ["2002::", 16],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6")
+}
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+const OptionalDate = z.iso.datetime({ offset: true }).nullable().default(null)
+const OptionalUrl = z.url({ protocol: /^https?$/ }).nullable().default(null)
+const ReleaseAfterDays = z.number().int().min(1).max(MAX_RELEASE_AFTER_DAYS).nullable().default(null)
+const TextList = z.array(z.string().trim().min(1).max(300)).max(50).default([])
+
+const ArchiveCourseSchema = z.object({
+  title: z.string().trim().min(3).max(100),
+  description: z.string().trim().min(10).max(20000),
+  shortDescription: z.string().max(200).nullable().default(null),
+  thumbnailUrl: OptionalUrl,
+  previewVideoUrl: OptionalUrl,
+  level: z.enum(["beginner", "intermediate", "advanced"]).default("beginner"),
+  pricing: z.enum(["free", "paid"]).default("free"),
+  price: z.number().min(0).default(0),
+  currency: z.string().length(3).default("USD"),
+  category: z.string().trim().min(1).max(50).default("Other"),
+  tags: TextList,
+  whatYouWillLearn: TextList,
+  requirements: TextList,
+  targetAudience: TextList,
+  certificateRules: z
+    .object({
+      requireAllLessons: z.boolean(),
+      requireQuizzesPassed: z.boolean(),
+      minWatchPercent: z.number().min(0).max(100),
+    })
+    .partial()
+    .nullable()
+    .default(null),
+})
+
+const ArchiveSectionSchema = z.object({
+  ref: z.string().min(1).max(100),
+  title: z.string().trim().min(1).max(150),
+  description: z.string().max(1000).nullable().default(null),
+  releaseAfterDays: ReleaseAfterDays,
+  releaseAt: OptionalDate,
+  requiresPreviousSection: z.boolean().default(false),
+})
+
+const ArchiveLessonSchema = z.object({
+  ref: z.string().min(1).max(100),
+  /** null = before the first section */
+  sectionRef: z.string().nullable().default(null),
+  title: z.string().trim().min(1).max(150),
+  description: z.string().max(5000).nullable().default(null),
+  type: z.enum(["video", "live", "text", "quiz", "assignment", "scorm"]),
+  videoUrl: OptionalUrl,
+  videoDuration: z.number().int().min(0).nullable().default(null), // seconds
+  videoThumbnailUrl: OptionalUrl,
+  content: z.string().max(500000).nullable().default(null),
+  quiz: z.unknown().nullable().default(null),
+  assignment: z.unknown().nullable().default(null),
+  liveScheduledAt: OptionalDate,
+  liveUrl: OptionalUrl,
+  isFree: z.boolean().default(false),
+  releaseAfterDays: ReleaseAfterDays,
+  releaseAt: OptionalDate,
+  /** An earlier lesson's ref */
+  prerequisiteRef: z.string().nullable().default(null),
+  resources: z
+    .array(
+      z.object({
+        title: z.string().trim().min(1).max(200),
+        url: z.url({ protocol: /^https?$/ }),
+        type: z.enum(["pdf", "link", "download"]).default("link"),
+      })
+    )
+    .max(50)
+    .default([]),
+})
+
+// Sections and lessons are checked one at a time (see parseCourseArchive)
+const CourseArchiveSchema = z.object({
+  format: z.literal(COURSE_ARCHIVE_FORMAT),
+  version: z.number().int().min(1),
+  exportedAt: z.string().optional(),
+  course: ArchiveCourseSchema,
+  sections: z.array(z.unknown()).max(200).default([]),
+  lessons: z.array(z.unknown()).max(1000).default([]),
+})
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ArchiveCourse = z.infer<typeof ArchiveCourseSchema>
+export type ArchiveSection = z.infer<typeof ArchiveSectionSchema>
+export type ArchiveLesson = z.infer<typeof ArchiveLessonSchema>
+
+export type CourseArchive = {
+  format: typeof COURSE_ARCHIVE_FORMAT
+  version: number
+  exportedAt: string
+  course: ArchiveCourse
+  sections: ArchiveSection[]
+  lessons: ArchiveLesson[]
+}
+
+/** Something in an archive that couldn't be imported as-is */
+export type ArchiveIssue = {
+  /** e.g. "Course", "Section 2 (Basics)", "Lesson 5 (Intro)" */
+  item: string
+  message: string
+}
+
+/** What POST /api/courses/import answers */
+export type CourseImportResponse =
+  | { success: true; courseId: string; issues: ArchiveIssue[] }
+  | { success: false; error: string; issues: ArchiveIssue[] }
+
+type ParsedLesson = Omit<ArchiveLesson, "quiz" | "assignment"> & {
+  quiz: ILesson["quiz"]
+  assignment: ILesson["assignment"]
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+const toIso = (date: Date | string | null | undefined) => (date ? new Date(date).toISOString() : null)
+
+/**
+ * A course as an archive. Like the editor, a live course exports its
+ * working draft.
+ */
+export async function buildCourseArchive(courseId: string): Promise<CourseArchive | null> {
+  const course = await Course.findById(courseId).lean()
+  if (!course) return null
+
+  const snapshot = editsGoToDraft(course)
+    ? await getWorkingSnapshot(courseId)
+    : await snapshotLiveCourse(courseId)
+  if (!snapshot) return null
+  const { details } = snapshot
+
+  const sectionRefs = new Map(snapshot.sections.map((s, idx) => [s._id.toString(), `section-${idx + 1}`]))
+  const lessonRefs = new Map(snapshot.lessons.map((l, idx) => [l._id.toString(), `lesson-${idx + 1}`]))
+
+  return {
+    format: COURSE_ARCHIVE_FORMAT,
+    version: COURSE_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    course: {
+      title: details.title,
+      description: details.description,
+      shortDescription: course.shortDescription ?? null,
+      thumbnailUrl: details.thumbnailUrl ?? null,
+      previewVideoUrl: course.previewVideoUrl ?? null,
+      level: details.level,
+      pricing: details.pricing,
+      price: details.price ?? 0,
+      currency: course.currency || "USD",
+      category: details.category || "Other",
+      tags: course.tags ?? [],
+      whatYouWillLearn: course.whatYouWillLearn ?? [],
+      requirements: course.requirements ?? [],
+      targetAudience: course.targetAudience ?? [],
+      certificateRules: toCertificateRules(details.certificateRules),
+    },
+    sections: snapshot.sections.map((s) => ({
+      ref: sectionRefs.get(s._id.toString())!,
+      title: s.title,
+      description: s.description ?? null,
+      releaseAfterDays: s.releaseAfterDays ?? null,
+      releaseAt: toIso(s.releaseAt),
+      requiresPreviousSection: s.requiresPreviousSection ?? false,
+    })),
+    lessons: snapshot.lessons.map((l) => ({
+      ref: lessonRefs.get(l._id.toString())!,
+      sectionRef: (l.section && sectionRefs.get(l.section.toString())) || null,
+      title: l.title,
+      description: l.description ?? null,
+      type: l.type,
+      videoUrl: l.videoUrl ?? null,
+      videoDuration: l.videoDuration ?? null,
+      videoThumbnailUrl: l.videoThumbnailUrl ?? null,
+      content: l.content ?? null,
+      quiz: toLessonQuiz(l.quiz),
+      assignment: toLessonAssignment(l.assignment),
+      liveScheduledAt: toIso(l.liveScheduledAt),
+      liveUrl: l.liveUrl ?? null,
+      isFree: l.isFree ?? false,
+      releaseAfterDays: l.releaseAfterDays ?? null,
+      releaseAt: toIso(l.releaseAt),
+      prerequisiteRef: (l.prerequisiteLesson && lessonRefs.get(l.prerequisiteLesson.toString())) || null,
+      resources: (l.resources ?? []).map((r) => ({ title: r.title, url: r.url, type: r.type })),
+    })),
+  }
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 3)
+    .map((issue) => (issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ")
+}
+
+/** Quiz question and rubric criterion ids belong to the source course — start fresh */
+function withoutIds(input: unknown, key: "questions" | "rubric") {
+  if (!input || typeof input !== "object") return input
+  const list = (input as Record<string, unknown>)[key]
+  if (!Array.isArray(list)) return input
+  return { ...input, [key]: list.map((item) => ({ ...item, id: "" })) }
+}
+
+/**
+ * Validate an archive. Returns null (with the reasons) when the archive as a
+ * whole can't be used; otherwise the sections and lessons that validated,
+ * plus an issue for each one that didn't.
+ */
+export function parseCourseArchive(input: unknown):
+  | { archive: null; issues: ArchiveIssue[] }
+  | {
+      archive: { course: ArchiveCourse; sections: ArchiveSection[]; lessons: ParsedLesson[] }
+      issues: ArchiveIssue[]
+    } {
+  const top = CourseArchiveSchema.safeParse(input)
+  if (!top.success) {
+    const formatIssue = top.error.issues.find((i) => i.path[0] === "format")
+    return {
+      archive: null,
+      issues: [
+        {
+          item: "Archive",
+          message: formatIssue ? "This isn't a course archive" : describeIssues(top.error),
+        },
+      ],
+    }
+  }
+  if (top.data.version > COURSE_ARCHIVE_VERSION) {
+    return {
+      archive: null,
+      issues: [{ item: "Archive", message: `Archive version ${top.data.version} is newer than this site supports` }],
+    }
+  }
+
+  const issues: ArchiveIssue[] = []
+
+  const sections: ArchiveSection[] = []
+  for (const [idx, raw] of top.data.sections.entries()) {
+    const parsed = ArchiveSectionSchema.safeParse(raw)
+    const label = `Section ${idx + 1}${parsed.success ? ` (${parsed.data.title})` : ""}`
+    if (!parsed.success) {
+      issues.push({ item: label, message: `Skipped — ${describeIssues(parsed.error)}` })
+    } else if (sections.some((s) => s.ref === parsed.data.ref)) {
+      issues.push({ item: label, message: `Skipped — ref "${parsed.data.ref}" is used twice` })
+    } else {
+      sections.push(parsed.data)
+    }
+  }
+  const sectionRefs = new Set(sections.map((s) => s.ref))
+
+  const lessons: ParsedLesson[] = []
+  for (const [idx, raw] of top.data.lessons.entries()) {
+    const parsed = ArchiveLessonSchema.safeParse(raw)
+    const label = `Lesson ${idx + 1}${parsed.success ? ` (${parsed.data.title})` : ""}`
+    if (!parsed.success) {
+      issues.push({ item: label, message: `Skipped — ${describeIssues(parsed.error)}` })
+      continue
+    }
+    const lesson = parsed.data
+    if (lessons.some((l) => l.ref === lesson.ref)) {
+      issues.push({ item: label, message: `Skipped — ref "${lesson.ref}" is used twice` })
+      continue
+    }
+
+    const quiz = lesson.type === "quiz" ? parseQuizInput(withoutIds(lesson.quiz, "questions")) : null
+    if (quiz?.error) {
+      issues.push({ item: label, message: `Skipped — quiz: ${quiz.error}` })
+      continue
+    }
+    const assignment =
+      lesson.type === "assignment" ? parseAssignmentInput(withoutIds(lesson.assignment, "rubric")) : null
+    if (assignment?.error) {
+      issues.push({ item: label, message: `Skipped — assignment: ${assignment.error}` })
+      continue
+    }
+
+    // A package is a folder of files, not something an archive carries
+    if (lesson.type === "scorm") {
+      issues.push({
+        item: label,
+        message: "SCORM / xAPI packages aren't included in archives — imported as a text lesson, upload the package again",
+      })
+      lesson.type = "text"
+    }
+
+    if (lesson.sectionRef && !sectionRefs.has(lesson.sectionRef)) {
+      issues.push({ item: label, message: "Its section wasn't imported, so it's placed before the first section" })
+      lesson.sectionRef = null
+    }
+    // Prerequisites must point back to an earlier lesson, as in the editor
+    if (lesson.prerequisiteRef && !lessons.some((l) => l.ref === lesson.prerequisiteRef)) {
+      issues.push({ item: label, message: "Its prerequisite isn't an earlier imported lesson, so it was dropped" })
+      lesson.prerequisiteRef = null
+    }
+
+    lessons.push({ ...lesson, quiz: quiz?.quiz ?? null, assignment: assignment?.assignment ?? null })
+  }
+
+  return { archive: { course: top.data.course, sections, lessons }, issues }
+}
+
+/**
+ * Whether a URL's host resolves only to public addresses — an archive must
+ * not reach into the server's own network. Checked again on every redirect.
+ */
+async function isFetchableUrl(url: URL) {
+  if (url.protocol !== "https:" && url.protocol !== "http:") return false
+  const host = url.hostname.replace(/^\[|\]$/g, "")
+  const addresses = isIP(host)
+    ? [{ address: host, family: isIP(host) }]
+    : await lookup(host, { all: true, verbatim: true }).catch(() => [])
+  if (addresses.length === 0) return false
+  return addresses.every((a) => !BLOCKED_ADDRESSES.check(a.address, a.family === 6 ? "ipv6" : "ipv4"))
+}
+
+function uploadTypeFor(contentType: string): UploadType {
+  if (contentType.startsWith("image/")) return "image"
+  if (contentType.startsWith("video/")) return "video"
+  if (contentType.startsWith("audio/")) return "audio"
+  return "document"
+}
+
+/**
+ * Copy a media file into R2 and return its new URL. Throws with a
+ * user-facing message when it can't.
+ */
+async function copyMediaToR2(source: string): Promise<string> {
+  const signal = AbortSignal.timeout(MEDIA_TIMEOUT_MS)
+  let url = new URL(source)
+  let response: Response
+  // Redirects are followed by hand so each hop's host is checked
+  for (let redirects = 0; ; redirects++) {
+    if (!(await isFetchableUrl(url))) throw new Error("the media URL isn't publicly reachable")
+    response = await fetch(url, { redirect: "manual", signal })
+    const location = response.headers.get("location")
+    if (response.status < 300 || response.status >= 400 || !location) break
+    await response.body?.cancel()
+    if (redirects >= MAX_MEDIA_REDIRECTS) throw new Error("the media URL redirects too many times")
+    url = new URL(location, url)
+  }
+
+  if (!response.ok || !response.body) throw new Error(`downloading media failed (HTTP ${response.status})`)
+
+  const contentType = response.headers.get("content-type")?.split(";")[0].trim() || "application/octet-stream"
+  const key = generateFileKey(uploadTypeFor(contentType), url.pathname.split("/").pop() || "file")
+  const length = Number(response.headers.get("content-length"))
+
+  if (Number.isFinite(length) && length > 0) {
+    if (length > MAX_MEDIA_BYTES) throw new Error("the media file is too large")
+    const body = Readable.fromWeb(response.body as unknown as NodeReadableStream)
+    return uploadToR2(key, body, contentType, length)
+  }
+
+  const buffer = Buffer.from(await response.arrayBuffer())
+  if (buffer.length > MAX_UNSIZED_MEDIA_BYTES) throw new Error("the media file is too large")
+  return uploadToR2(key, buffer, contentType, buffer.length)
+}
+
+/**
+ * Create a draft course from a parsed archive, owned by `instructorId`.
+ * Media that can't be copied is left out and reported.
+ */
+export async function importCourseArchive(
+  archive: NonNullable<ReturnType<typeof parseCourseArchive>["archive"]>,
+  instructorId: string
+): Promise<{ courseId: string; issues: ArchiveIssue[] }> {
+  const issues: ArchiveIssue[] = []
+
+  // Each file is copied once, however many times the archive uses it
+  const copies = new Map<string, Promise<string>>()
+  async function copyMedia(url: string | null, item: string, what: string): Promise<string | null> {
+    if (!url) return null
+    if (!copies.has(url)) copies.set(url, copyMediaToR2(url))
+    try {
+      return await copies.get(url)!
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "copying failed"
+      issues.push({ item, message: `The ${what} wasn't imported — ${reason}` })
+      return null
+    }
+  }
+
+  const { course: details } = archive
+  const course = await Course.create({
+    title: details.title,
+    slug: generateCourseSlug(details.title),
+    description: details.description,
+    shortDescription: details.shortDescription,
+    thumbnailUrl: await copyMedia(details.thumbnailUrl, "Course", "thumbnail"),
+    previewVideoUrl: await copyMedia(details.previewVideoUrl, "Course", "preview video"),
+    instructor: instructorId,
+    level: details.level,
+    pricing: details.pricing,
+    price: details.pricing === "paid" ? details.price : 0,
+    currency: details.currency.toUpperCase(),
+    status: "draft",
+    category: details.category,
+    tags: details.tags,
+    whatYouWillLearn: details.whatYouWillLearn,
+    requirements: details.requirements,
+    targetAudience: details.targetAudience,
+    certificateRules: toCertificateRules(details.certificateRules),
+  })
+
+  const sectionIds = new Map(archive.sections.map((s) => [s.ref, new Types.ObjectId()]))
+  if (archive.sections.length > 0) {
+    await Section.insertMany(
+      archive.sections.map((s, idx) => ({
+        _id: sectionIds.get(s.ref),
+        course: course._id,
+        title: s.title,
+        description: s.description,
+        order: idx,
+        releaseAfterDays: s.releaseAfterDays,
+        releaseAt: s.releaseAt ? new Date(s.releaseAt) : null,
+        requiresPreviousSection: idx > 0 && s.requiresPreviousSection,
+      }))
+    )
+  }
+
+  const lessonIds = new Map(archive.lessons.map((l) => [l.ref, new Types.ObjectId()]))
+  const lessons = []
+  for (const [idx, l] of archive.lessons.entries()) {
+    const item = `Lesson ${idx + 1} (${l.title})`
+    const resources = []
+    for (const r of l.resources) {
+      // Links point elsewhere on purpose; files come along
+      const url = r.type === "link" ? r.url : await copyMedia(r.url, item, `resource "${r.title}"`)
+      if (url) resources.push({ ...r, url })
+    }
+
+    lessons.push({
+      _id: lessonIds.get(l.ref),
+      course: course._id,
+      title: l.title,
+      description: l.description,
+      type: l.type,
+      videoUrl: await copyMedia(l.videoUrl, item, "video"),
+      videoDuration: l.videoDuration,
+      videoThumbnailUrl: await copyMedia(l.videoThumbnailUrl, item, "video thumbnail"),
+      content: l.content,
+      quiz: l.quiz,
+      assignment: l.assignment,
+      liveScheduledAt: l.liveScheduledAt ? new Date(l.liveScheduledAt) : null,
+      liveUrl: l.liveUrl,
+      section: l.sectionRef ? sectionIds.get(l.sectionRef) : null,
+      order: idx,
+      isFree: l.isFree,
+      isPublished: false,
+      releaseAfterDays: l.releaseAfterDays,
+      releaseAt: l.releaseAt ? new Date(l.releaseAt) : null,
+      prerequisiteLesson: l.prerequisiteRef ? lessonIds.get(l.prerequisiteRef) : null,
+      resources,
+    })
+  }
+
+  if (lessons.length > 0) {
+    await Lesson.insertMany(lessons)
+    await resequenceLessons(course._id.toString())
+    await queueVideoTranscodes(lessons.map((l) => l.videoUrl))
+
+    const totalSeconds = lessons.reduce((sum, l) => sum + (l.videoDuration ?? 0), 0)
+    await Course.findByIdAndUpdate(course._id, {
+      totalLessons: lessons.length,
+      totalDuration: Math.ceil(totalSeconds / 60),
+    })
+  }
+
+  await User.findByIdAndUpdate(instructorId, {
+    $inc: { "instructorProfile.totalCourses": 1 },
+  })
+
+  return { courseId: course._id.toString(), issues }
+}
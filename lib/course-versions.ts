@@ -0,0 +1,399 @@
+/**
+ * Course versions — a published course is edited through a working draft
+ * (a snapshot of its details, sections and lessons) that students never see.
+ * Publishing swaps the draft in as the next version in one transaction, and
+ * older versions stay in the history so they can be restored.
+ *
+ * Lesson and section ids carry over between versions, so enrollment progress
+ * stays attached to every lesson that survives. Completions are never
+ * dropped — progress counts only those of lessons now live, so hiding a
+ * lesson or rolling back and forward again loses nobody's work.
+ *
+ * Server-side only.
+ */
+
+import mongoose, { Types, type ClientSession } from "mongoose"
+import {
+  Course,
+  CourseVersion,
+  Enrollment,
+  Lesson,
+  Section,
+  type ICourseSnapshot,
+  type LessonSnapshot,
+  type SectionSnapshot,
+} from "@/lib/db/models"
+import {
+  checkCurriculumLayout,
+  getCurriculumLayout,
+  orderCurriculum,
+  type CurriculumLayout,
+} from "@/lib/sections"
+
+const SECTION_FIELDS = "title description order releaseAfterDays releaseAt requiresPreviousSection"
+const LESSON_FIELDS =
+  "title description type videoUrl videoPublicId videoDuration videoThumbnailUrl content quiz assignment scorm " +
+  "liveScheduledAt liveUrl section order isFree isPublished releaseAfterDays releaseAt prerequisiteLesson resources"
+
+/**
+ * Whether edits to a course go to its draft. Courses that aren't live yet
+ * (and archived ones) are edited in place.
+ */
+export function editsGoToDraft(course: { status: string }): boolean {
+  return course.status === "published"
+}
+
+/**
+ * Snapshot a course as students currently see it
+ */
+export async function snapshotLiveCourse(
+  courseId: string,
+  session: ClientSession | null = null
+): Promise<ICourseSnapshot | null> {
+  // One at a time — a transaction's operations can't run in parallel
+  const course = await Course.findById(courseId).session(session).lean()
+  if (!course) return null
+  const sections = await Section.find({ course: courseId })
+    .select(SECTION_FIELDS)
+    .sort({ order: 1 })
+    .session(session)
+    .lean()
+  const lessons = await Lesson.find({ course: courseId })
+    .select(LESSON_FIELDS)
+    .sort({ order: 1 })
+    .session(session)
+    .lean()
+
+  return {
+    details: {
+      title: course.title,
+      description: course.description,
+      thumbnailUrl: course.thumbnailUrl,
+      level: course.level,
+      pricing: course.pricing,
+      price: course.price,
+      category: course.category,
+      certificateRules: course.certificateRules,
+    },
+    sections,
+    lessons,
+  }
+}
+
+/**
+ * A course's working draft, or null when there are no unpublished changes
+ */
+export async function getCourseDraft(courseId: string) {
+  return CourseVersion.findOne({ course: courseId, status: "draft" }).lean()
+}
+
+/**
+ * What the instructor is editing — the draft if there is one, else the live course
+ */
+export async function getWorkingSnapshot(courseId: string): Promise<ICourseSnapshot | null> {
+  const draft = await getCourseDraft(courseId)
+  return draft ? draft.snapshot : snapshotLiveCourse(courseId)
+}
+
+/**
+ * Reorder a snapshot's sections and lessons — by `layout`, or by their
+ * current order so lessons follow their sections again.
+ */
+export function arrangeSnapshot(snapshot: ICourseSnapshot, layout?: CurriculumLayout) {
+  const byOrder = <T extends { order: number }>(a: T, b: T) => a.order - b.order
+  snapshot.sections.sort(byOrder)
+  snapshot.lessons.sort(byOrder)
+
+  const { lessons, sections } = orderCurriculum(
+    layout ?? getCurriculumLayout(snapshot.sections, snapshot.lessons)
+  )
+  const lessonPlaces = new Map(lessons.map((l) => [l.id, l]))
+  const sectionOrder = new Map(sections.map((s) => [s.id, s.order]))
+
+  for (const lesson of snapshot.lessons) {
+    const place = lessonPlaces.get(lesson._id.toString())
+    if (!place) continue
+    lesson.section = place.sectionId ? new Types.ObjectId(place.sectionId) : null
+    lesson.order = place.order
+  }
+  for (const section of snapshot.sections) {
+    section.order = sectionOrder.get(section._id.toString()) ?? section.order
+  }
+
+  snapshot.sections.sort(byOrder)
+  snapshot.lessons.sort(byOrder)
+}
+
+/**
+ * A lesson to add to a draft, with the Lesson schema's defaults. It goes at
+ * the end of the course; editCourseDraft moves it to the end of its section.
+ */
+export function newDraftLesson(
+  snapshot: ICourseSnapshot,
+  fields: Pick<LessonSnapshot, "title"> & Partial<LessonSnapshot>
+): LessonSnapshot {
+  return {
+    _id: new Types.ObjectId(),
+    description: null,
+    type: "video",
+    videoUrl: null,
+    videoPublicId: null,
+    videoDuration: null,
+    videoThumbnailUrl: null,
+    content: null,
+    quiz: null,
+    assignment: null,
+    scorm: null,
+    liveScheduledAt: null,
+    liveUrl: null,
+    section: null,
+    order: Math.max(-1, ...snapshot.lessons.map((l) => l.order)) + 1,
+    isFree: false,
+    isPublished: false,
+    releaseAfterDays: null,
+    releaseAt: null,
+    prerequisiteLesson: null,
+    resources: [],
+    ...fields,
+  }
+}
+
+/**
+ * A section to add to the end of a draft
+ */
+export function newDraftSection(
+  snapshot: ICourseSnapshot,
+  fields: Pick<SectionSnapshot, "title"> & Partial<SectionSnapshot>
+): SectionSnapshot {
+  return {
+    _id: new Types.ObjectId(),
+    description: null,
+    order: Math.max(-1, ...snapshot.sections.map((s) => s.order)) + 1,
+    releaseAfterDays: null,
+    releaseAt: null,
+    requiresPreviousSection: false,
+    ...fields,
+  }
+}
+
+/**
+ * Check a lesson manager layout against a snapshot's curriculum
+ */
+export function checkSnapshotLayout(snapshot: ICourseSnapshot, layout: CurriculumLayout) {
+  return checkCurriculumLayout(
+    layout,
+    snapshot.sections.map((s) => s._id.toString()),
+    snapshot.lessons.map((l) => l._id.toString())
+  )
+}
+
+/**
+ * Change a course's draft, starting one from the live course if needed.
+ * `edit` changes the snapshot in place and returns an error to abort.
+ */
+export async function editCourseDraft(
+  courseId: string,
+  userId: string,
+  edit: (snapshot: ICourseSnapshot) => string | null | void
+): Promise<string | null> {
+  const snapshot = await getWorkingSnapshot(courseId)
+  if (!snapshot) return "Course not found"
+
+  const error = edit(snapshot)
+  if (error) return error
+
+  arrangeSnapshot(snapshot)
+  await CourseVersion.updateOne(
+    { course: courseId, status: "draft" },
+    { $set: { snapshot }, $setOnInsert: { createdBy: userId } },
+    { upsert: true }
+  )
+  return null
+}
+
+/**
+ * Throw away a course's unpublished changes
+ */
+export async function discardCourseDraft(courseId: string) {
+  await CourseVersion.deleteOne({ course: courseId, status: "draft" })
+}
+
+/**
+ * Publish a course's draft as its next version
+ */
+export async function publishCourseDraft(
+  courseId: string,
+  userId: string,
+  note: string | null
+): Promise<{ error: string } | { error: null; version: number }> {
+  const draft = await getCourseDraft(courseId)
+  if (!draft) return { error: "There are no unpublished changes" }
+
+  return commitVersion(courseId, userId, draft.snapshot, note, draft._id)
+}
+
+/**
+ * Put an earlier version back live. It's published as a new version so the
+ * history stays linear, and any unpublished draft is discarded.
+ */
+export async function restoreCourseVersion(
+  courseId: string,
+  versionId: string,
+  userId: string
+): Promise<{ error: string } | { error: null; version: number }> {
+  if (!Types.ObjectId.isValid(versionId)) return { error: "Version not found" }
+
+  const target = await CourseVersion.findOne({ _id: versionId, course: courseId, status: "published" }).lean()
+  if (!target) return { error: "Version not found" }
+
+  return commitVersion(courseId, userId, target.snapshot, `Restored version ${target.version}`, null)
+}
+
+/**
+ * Make a snapshot live and record it as the next version, all or nothing
+ */
+async function commitVersion(
+  courseId: string,
+  userId: string,
+  snapshot: ICourseSnapshot,
+  note: string | null,
+  draftId: Types.ObjectId | null
+): Promise<{ error: null; version: number }> {
+  const session = await mongoose.startSession()
+  try {
+    let version = 0
+    await session.withTransaction(async () => {
+      const now = new Date()
+      const latest = await CourseVersion.findOne({ course: courseId, status: "published" })
+        .sort({ version: -1 })
+        .select("version")
+        .session(session)
+        .lean()
+
+      // The first publish keeps what was live until now as version 1
+      if (!latest) {
+        const original = await snapshotLiveCourse(courseId, session)
+        if (!original) throw new Error("Course not found")
+        const course = await Course.findById(courseId).select("publishedAt").session(session).lean()
+        await CourseVersion.create(
+          [
+            {
+              course: courseId,
+              status: "published",
+              version: 1,
+              snapshot: original,
+              note: "Original version",
+              createdBy: userId,
+              publishedBy: userId,
+              publishedAt: course?.publishedAt ?? now,
+            },
+          ],
+          { session }
+        )
+      }
+      version = (latest?.version ?? 1) + 1
+
+      await applySnapshot(courseId, snapshot, session)
+
+      const published = { status: "published", version, note, publishedBy: userId, publishedAt: now }
+      if (draftId) {
+        await CourseVersion.updateOne({ _id: draftId }, published, { session })
+      } else {
+        await CourseVersion.deleteOne({ course: courseId, status: "draft" }, { session })
+        await CourseVersion.create([{ course: courseId, snapshot, createdBy: userId, ...published }], { session })
+      }
+    })
+    return { error: null, version }
+  } finally {
+    await session.endSession()
+  }
+}
+
+/**
+ * Replace a course's live details, sections and lessons with a snapshot.
+ * Videos of removed lessons are kept — an older version may still use them.
+ */
+async function applySnapshot(courseId: string, snapshot: ICourseSnapshot, session: ClientSession) {
+  const course = new Types.ObjectId(courseId)
+  const lessonIds = snapshot.lessons.map((l) => l._id)
+  const sectionIds = snapshot.sections.map((s) => s._id)
+
+  await Section.deleteMany({ course, _id: { $nin: sectionIds } }, { session })
+  await Lesson.deleteMany({ course, _id: { $nin: lessonIds } }, { session })
+
+  if (snapshot.sections.length > 0) {
+    await Section.bulkWrite(
+      snapshot.sections.map(({ _id, ...fields }) => ({
+        updateOne: { filter: { _id, course }, update: { $set: { ...fields, course } }, upsert: true },
+      })),
+      { session }
+    )
+  }
+  if (snapshot.lessons.length > 0) {
+    await Lesson.bulkWrite(
+      snapshot.lessons.map(({ _id, ...fields }) => ({
+        updateOne: { filter: { _id, course }, update: { $set: { ...fields, course } }, upsert: true },
+      })),
+      { session }
+    )
+  }
+
+  const published = snapshot.lessons.filter((l) => l.isPublished)
+  const totalSeconds = published.reduce((sum, l) => sum + (l.videoDuration ?? 0), 0)
+  await Course.updateOne(
+    { _id: course },
+    {
+      ...snapshot.details,
+      totalLessons: published.length,
+      totalDuration: Math.ceil(totalSeconds / 60),
+    },
+    { session }
+  )
+
+  await syncEnrollmentProgress(course, published.map((l) => l._id), session)
+}
+
+/**
+ * Keep every enrollment's progress in step with the lessons now live — the
+ * percentage is recomputed from completions of live lessons. Completions of
+ * other lessons stay on the enrollment and count again if the lesson comes
+ * back. Students who already finished the course keep their completed status.
+ */
+async function syncEnrollmentProgress(
+  course: Types.ObjectId,
+  lessonIds: Types.ObjectId[],
+  session: ClientSession
+) {
+  const total = lessonIds.length
+  const liveCompletions = { $size: { $setIntersection: ["$completedLessons", lessonIds] } }
+
+  await Enrollment.updateMany(
+    { course },
+    [
+      {
+        $set: {
+          progress:
+            total > 0
+              ? { $min: [100, { $round: [{ $multiply: [{ $divide: [liveCompletions, total] }, 100] }, 0] }] }
+              : 0,
+        },
+      },
+    ],
+    { session, updatePipeline: true }
+  )
+}
+
+/**
+ * A student's progress through a course's live lessons, from their
+ * completions — those of lessons that aren't live don't count
+ */
+export async function getLiveLessonProgress(
+  course: Types.ObjectId | string,
+  completedLessons: Types.ObjectId[]
+): Promise<number> {
+  const liveIds: Types.ObjectId[] = await Lesson.find({ course, isPublished: true }).distinct("_id")
+  if (liveIds.length === 0) return 0
+  const completed = new Set(completedLessons.map((id) => id.toString()))
+  const done = liveIds.filter((id) => completed.has(id.toString())).length
+  return Math.min(100, Math.round((done / liveIds.length) * 100))
+}
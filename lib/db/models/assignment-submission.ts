@@ -0,0 +1,143 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose"
+
+/**
+ * submitted — waiting in the instructor's grading queue
+ * graded    — scored; the lesson counts as complete
+ * returned  — sent back for revision; the student can resubmit
+ */
+export type AssignmentSubmissionStatus = "submitted" | "graded" | "returned"
+
+export interface IAssignmentAttachment {
+  url: string
+  key: string | null // R2 object key
+  name: string
+  size: number | null
+  contentType: string | null
+}
+
+export interface IRubricScore {
+  criterion: Types.ObjectId
+  /** Snapshot of the criterion so later rubric edits don't rewrite grades */
+  title: string
+  maxPoints: number
+  score: number
+}
+
+export interface IAssignmentSubmission extends Document {
+  _id: Types.ObjectId
+  user: Types.ObjectId
+  lesson: Types.ObjectId
+  course: Types.ObjectId
+  /** Denormalised so instructors can list their queue without a join */
+  instructor: Types.ObjectId
+  text: string | null // rich text (HTML)
+  attachments: IAssignmentAttachment[]
+  status: AssignmentSubmissionStatus
+  submittedAt: Date
+  /** Incremented on every resubmission */
+  revision: number
+  // Grading
+  rubricScores: IRubricScore[]
+  score: number | null
+  maxScore: number | null
+  feedback: string | null
+  gradedBy: Types.ObjectId | null
+  gradedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+const AssignmentSubmissionSchema = new Schema<IAssignmentSubmission>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    lesson: {
+      type: Schema.Types.ObjectId,
+      ref: "Lesson",
+      required: true,
+    },
+    course: {
+      type: Schema.Types.ObjectId,
+      ref: "Course",
+      required: true,
+    },
+    instructor: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    text: {
+      type: String,
+      default: null,
+    },
+    attachments: [
+      {
+        _id: false,
+        url: { type: String, required: true },
+        key: { type: String, default: null },
+        name: { type: String, required: true, maxlength: 255 },
+        size: { type: Number, default: null },
+        contentType: { type: String, default: null },
+      },
+    ],
+    status: {
+      type: String,
+      enum: ["submitted", "graded", "returned"],
+      default: "submitted",
+    },
+    submittedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    revision: {
+      type: Number,
+      default: 1,
+    },
+    rubricScores: [
+      {
+        _id: false,
+        criterion: { type: Schema.Types.ObjectId, required: true },
+        title: { type: String, required: true },
+        maxPoints: { type: Number, required: true },
+        score: { type: Number, required: true, min: 0 },
+      },
+    ],
+    score: {
+      type: Number,
+      default: null,
+    },
+    maxScore: {
+      type: Number,
+      default: null,
+    },
+    feedback: {
+      type: String,
+      default: null,
+      maxlength: 5000,
+    },
+    gradedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+    gradedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+)
+
+// One submission per student per assignment (resubmissions update it)
+AssignmentSubmissionSchema.index({ user: 1, lesson: 1 }, { unique: true })
+// Instructor grading queue, oldest first
+AssignmentSubmissionSchema.index({ instructor: 1, status: 1, submittedAt: 1 })
+
+export const AssignmentSubmission: Model<IAssignmentSubmission> =
+  mongoose.models.AssignmentSubmission ||
+  mongoose.model<IAssignmentSubmission>("AssignmentSubmission", AssignmentSubmissionSchema)
@@ -0,0 +1,79 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose"
+
+export interface ICertificate extends Document {
+  _id: Types.ObjectId
+  /** Human-readable id printed on the certificate, e.g. WSA-7KQ2-M9XD */
+  serialNumber: string
+  user: Types.ObjectId
+  course: Types.ObjectId
+  enrollment: Types.ObjectId
+  instructor: Types.ObjectId
+  // Snapshot at issue time so the certificate reads the same later
+  studentName: string
+  courseTitle: string
+  instructorName: string
+  issuedAt: Date
+  revokedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+const CertificateSchema = new Schema<ICertificate>(
+  {
+    serialNumber: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    course: {
+      type: Schema.Types.ObjectId,
+      ref: "Course",
+      required: true,
+      index: true,
+    },
+    enrollment: {
+      type: Schema.Types.ObjectId,
+      ref: "Enrollment",
+      required: true,
+    },
+    instructor: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    studentName: {
+      type: String,
+      required: true,
+    },
+    courseTitle: {
+      type: String,
+      required: true,
+    },
+    instructorName: {
+      type: String,
+      required: true,
+    },
+    issuedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+)
+
+// One certificate per student per course
+CertificateSchema.index({ user: 1, course: 1 }, { unique: true })
+
+export const Certificate: Model<ICertificate> =
+  mongoose.models.Certificate || mongoose.model<ICertificate>("Certificate", CertificateSchema)
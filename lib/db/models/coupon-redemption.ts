@@ -0,0 +1,67 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose"
+
+export interface ICouponRedemption extends Document {
+  _id: Types.ObjectId
+  coupon: Types.ObjectId
+  user: Types.ObjectId
+  course: Types.ObjectId
+  order: Types.ObjectId
+  originalPrice: number
+  discount: number
+  /** What the student actually paid — same as the enrollment's pricePaid */
+  amountPaid: number
+  currency: string
+  createdAt: Date
+}
+
+const CouponRedemptionSchema = new Schema<ICouponRedemption>(
+  {
+    coupon: {
+      type: Schema.Types.ObjectId,
+      ref: "Coupon",
+      required: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    course: {
+      type: Schema.Types.ObjectId,
+      ref: "Course",
+      required: true,
+    },
+    order: {
+      type: Schema.Types.ObjectId,
+      ref: "Order",
+      required: true,
+      unique: true,
+    },
+    originalPrice: {
+      type: Number,
+      required: true,
+    },
+    discount: {
+      type: Number,
+      required: true,
+    },
+    amountPaid: {
+      type: Number,
+      required: true,
+    },
+    currency: {
+      type: String,
+      default: "USD",
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+)
+
+// Per-user limit checks
+CouponRedemptionSchema.index({ coupon: 1, user: 1 })
+
+export const CouponRedemption: Model<ICouponRedemption> =
+  mongoose.models.CouponRedemption ||
+  mongoose.model<ICouponRedemption>("CouponRedemption", CouponRedemptionSchema)
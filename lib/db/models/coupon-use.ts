@@ -0,0 +1,43 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose"
+
+/**
+ * How many uses of a coupon a user has taken — the counter behind the
+ * per-user limit, claimed and released like the coupon's redemptionCount.
+ */
+export interface ICouponUse extends Document {
+  _id: Types.ObjectId
+  coupon: Types.ObjectId
+  user: Types.ObjectId
+  count: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+const CouponUseSchema = new Schema<ICouponUse>(
+  {
+    coupon: {
+      type: Schema.Types.ObjectId,
+      ref: "Coupon",
+      required: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    count: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+)
+
+// One counter per user per coupon
+CouponUseSchema.index({ coupon: 1, user: 1 }, { unique: true })
+
+export const CouponUse: Model<ICouponUse> =
+  mongoose.models.CouponUse || mongoose.model<ICouponUse>("CouponUse", CouponUseSchema)
@@ -0,0 +1,85 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose"
+
+export type CouponDiscountType = "percent" | "fixed"
+
+export interface ICoupon extends Document {
+  _id: Types.ObjectId
+  /** Stored upper-case; codes are matched case-insensitively at checkout */
+  code: string
+  instructor: Types.ObjectId
+  /** null = valid for every course by this instructor */
+  course: Types.ObjectId | null
+  discountType: CouponDiscountType
+  /** Percentage (1-100) or fixed amount in the course currency */
+  discountValue: number
+  expiresAt: Date | null
+  /** null = unlimited */
+  maxRedemptions: number | null
+  maxRedemptionsPerUser: number
+  redemptionCount: number
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+const CouponSchema = new Schema<ICoupon>(
+  {
+    code: {
+      type: String,
+      required: true,
+      unique: true,
+      uppercase: true,
+      trim: true,
+      maxlength: 32,
+    },
+    instructor: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    course: {
+      type: Schema.Types.ObjectId,
+      ref: "Course",
+      default: null,
+    },
+    discountType: {
+      type: String,
+      enum: ["percent", "fixed"],
+      required: true,
+    },
+    discountValue: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    expiresAt: {
+      type: Date,
+      default: null,
+    },
+    maxRedemptions: {
+      type: Number,
+      default: null,
+      min: 1,
+    },
+    maxRedemptionsPerUser: {
+      type: Number,
+      default: 1,
+      min: 1,
+    },
+    redemptionCount: {
+      type: Number,
+      default: 0,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+)
+
+export const Coupon: Model<ICoupon> =
+  mongoose.models.Coupon || mongoose.model<ICoupon>("Coupon", CouponSchema)
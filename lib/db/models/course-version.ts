@@ -0,0 +1,129 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose"
+import type { ICourse } from "./course"
+import type { ILesson } from "./lesson"
+import type { ISection } from "./section"
+
+export type CourseVersionStatus = "draft" | "published"
+
+export type CourseDetailsSnapshot = Pick<
+  ICourse,
+  "title" | "description" | "thumbnailUrl" | "level" | "pricing" | "price" | "category" | "certificateRules"
+>
+
+export type SectionSnapshot = Pick<
+  ISection,
+  "_id" | "title" | "description" | "order" | "releaseAfterDays" | "releaseAt" | "requiresPreviousSection"
+>
+
+export type LessonSnapshot = Pick<
+  ILesson,
+  | "_id"
+  | "title"
+  | "description"
+  | "type"
+  | "videoUrl"
+  | "videoPublicId"
+  | "videoDuration"
+  | "videoThumbnailUrl"
+  | "content"
+  | "quiz"
+  | "assignment"
+  | "scorm"
+  | "liveScheduledAt"
+  | "liveUrl"
+  | "section"
+  | "order"
+  | "isFree"
+  | "isPublished"
+  | "releaseAfterDays"
+  | "releaseAt"
+  | "prerequisiteLesson"
+  | "resources"
+>
+
+/** Everything an instructor edits — lesson and section ids carry across versions */
+export interface ICourseSnapshot {
+  details: CourseDetailsSnapshot
+  sections: SectionSnapshot[]
+  lessons: LessonSnapshot[]
+}
+
+export interface ICourseVersion extends Document {
+  _id: Types.ObjectId
+  course: Types.ObjectId
+  // A course has at most one draft; publishing it turns it into the next version
+  status: CourseVersionStatus
+  version: number | null // null while a draft
+  snapshot: ICourseSnapshot
+  note: string | null
+  createdBy: Types.ObjectId
+  publishedBy: Types.ObjectId | null
+  publishedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+const CourseVersionSchema = new Schema<ICourseVersion>(
+  {
+    course: {
+      type: Schema.Types.ObjectId,
+      ref: "Course",
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["draft", "published"],
+      default: "draft",
+    },
+    version: {
+      type: Number,
+      default: null,
+    },
+    // Stored as-is so lesson content (quizzes, rubrics, resources) round-trips
+    snapshot: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    note: {
+      type: String,
+      default: null,
+      maxlength: 300,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    publishedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+    publishedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+)
+
+// Version history, newest first
+CourseVersionSchema.index({ course: 1, version: -1 })
+
+// One working draft per course
+CourseVersionSchema.index(
+  { course: 1 },
+  { unique: true, partialFilterExpression: { status: "draft" } }
+)
+
+// Version numbers never repeat within a course
+CourseVersionSchema.index(
+  { course: 1, version: 1 },
+  { unique: true, partialFilterExpression: { status: "published" } }
+)
+
+export const CourseVersion: Model<ICourseVersion> =
+  mongoose.models.CourseVersion ||
+  mongoose.model<ICourseVersion>("CourseVersion", CourseVersionSchema)
@@ -3,6 +3,22 @@ import mongoose, { Schema, Document, Model, Types } from "mongoose"
 export type CourseLevel = "beginner" | "intermediate" | "advanced"
 export type CoursePricing = "free" | "paid"
 export type CourseStatus = "draft" | "published" | "archived"
+/** Admin sign-off a course needs before it can go live the first time */
+export type CourseApprovalStatus = "none" | "pending" | "approved" | "rejected"
+
+export interface ICertificateRules {
+  requireAllLessons: boolean
+  requireQuizzesPassed: boolean
+  minWatchPercent: number // 0 = no watch-time requirement
+}
+
+export interface ICourseApproval {
+  status: CourseApprovalStatus
+  note: string | null
+  submittedAt: Date | null
+  reviewedBy: Types.ObjectId | null
+  reviewedAt: Date | null
+}
 
 export interface ICourse extends Document {
   _id: Types.ObjectId
@@ -41,6 +57,12 @@ export interface ICourse extends Document {
   whatYouWillLearn: string[]
   requirements: string[]
   targetAudience: string[]
+  // Certificates
+  certificateRules: ICertificateRules
+  // Admin moderation
+  approval: ICourseApproval
+  /** Archived by an admin — the instructor can't republish it */
+  forceArchived: boolean
   // Timestamps
   publishedAt: Date | null
   createdAt: Date
@@ -146,6 +168,26 @@ const CourseSchema = new Schema<ICourse>(
     whatYouWillLearn: [{ type: String }],
     requirements: [{ type: String }],
     targetAudience: [{ type: String }],
+    certificateRules: {
+      requireAllLessons: { type: Boolean, default: true },
+      requireQuizzesPassed: { type: Boolean, default: true },
+      minWatchPercent: { type: Number, default: 0, min: 0, max: 100 },
+    },
+    approval: {
+      status: {
+        type: String,
+        enum: ["none", "pending", "approved", "rejected"],
+        default: "none",
+      },
+      note: { type: String, default: null, maxlength: 1000 },
+      submittedAt: { type: Date, default: null },
+      reviewedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+      reviewedAt: { type: Date, default: null },
+    },
+    forceArchived: {
+      type: Boolean,
+      default: false,
+    },
     publishedAt: {
       type: Date,
       default: null,
@@ -162,6 +204,7 @@ CourseSchema.index({ status: 1, pricing: 1, level: 1 })
 CourseSchema.index({ instructor: 1, status: 1 })
 CourseSchema.index({ "rating.average": -1 })
 CourseSchema.index({ enrolledCount: -1 })
+CourseSchema.index({ "approval.status": 1, "approval.submittedAt": 1 })
 
 // Generate slug from title before saving
 CourseSchema.pre("save", function () {
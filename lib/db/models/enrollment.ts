@@ -1,6 +1,6 @@
 import mongoose, { Schema, Document, Model, Types } from "mongoose"
 
-export type EnrollmentStatus = "active" | "completed" | "expired"
+export type EnrollmentStatus = "active" | "completed" | "expired" | "refunded"
 
 export interface IEnrollment extends Document {
   _id: Types.ObjectId
@@ -18,6 +18,9 @@ export interface IEnrollment extends Document {
   lastAccessedLesson: Types.ObjectId | null
   lastAccessedAt: Date | null
   completedAt: Date | null
+  refundedAt: Date | null
+  // Drip lessons up to this time have been announced to the student
+  unlocksNotifiedAt: Date | null
   createdAt: Date
   updatedAt: Date
 }
@@ -38,7 +41,7 @@ const EnrollmentSchema = new Schema<IEnrollment>(
     },
     status: {
       type: String,
-      enum: ["active", "completed", "expired"],
+      enum: ["active", "completed", "expired", "refunded"],
       default: "active",
     },
     purchasedAt: {
@@ -82,6 +85,14 @@ const EnrollmentSchema = new Schema<IEnrollment>(
       type: Date,
       default: null,
     },
+    refundedAt: {
+      type: Date,
+      default: null,
+    },
+    unlocksNotifiedAt: {
+      type: Date,
+      default: null,
+    },
   },
   {
     timestamps: true,
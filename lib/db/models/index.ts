@@ -1,10 +1,99 @@
 export { User, type IUser } from "./user"
-export { Course, type ICourse, type CourseLevel, type CoursePricing, type CourseStatus } from "./course"
-export { Lesson, type ILesson, type LessonType } from "./lesson"
+export {
+  Course,
+  type ICourse,
+  type ICertificateRules,
+  type ICourseApproval,
+  type CourseApprovalStatus,
+  type CourseLevel,
+  type CoursePricing,
+  type CourseStatus,
+} from "./course"
+export {
+  Lesson,
+  type ILesson,
+  type LessonType,
+  type ILessonQuiz,
+  type IQuizQuestion,
+  type QuizQuestionType,
+  type ILessonAssignment,
+  type IRubricCriterion,
+  type ILessonScorm,
+  type ScormStandard,
+} from "./lesson"
+export { Section, type ISection } from "./section"
+export {
+  CourseVersion,
+  type ICourseVersion,
+  type ICourseSnapshot,
+  type CourseDetailsSnapshot,
+  type SectionSnapshot,
+  type LessonSnapshot,
+  type CourseVersionStatus,
+} from "./course-version"
 export { Enrollment, type IEnrollment, type EnrollmentStatus } from "./enrollment"
-export { Review, type IReview } from "./review"
+export {
+  Review,
+  type IReview,
+  type IReviewReport,
+  type IReviewReply,
+  type ReviewReportReason,
+} from "./review"
 export { Bookmark, type IBookmark } from "./bookmark"
 export { Message, Conversation, type IMessage, type IConversation } from "./message"
 export { Call, type ICall, type CallStatus, type CallType } from "./call"
-export { Meeting, type IMeeting, type IMeetingParticipant, type IMeetingInvite, type MeetingStatus } from "./meeting"
+export { Meeting, type IMeeting, type IMeetingParticipant, type IMeetingAttendanceSession, type IMeetingInvite, type IMeetingBreakoutRoom, type MeetingStatus, type MeetingReminder } from "./meeting"
+export {
+  MeetingMessage,
+  MeetingPoll,
+  MeetingQuestion,
+  type IMeetingMessage,
+  type IMeetingPoll,
+  type IMeetingPollVote,
+  type IMeetingQuestion,
+} from "./meeting-activity"
+export { MeetingRecording, type IMeetingRecording, type MeetingRecordingStatus } from "./meeting-recording"
 export { WatchProgress, type IWatchProgress } from "./watch-progress"
+export { Order, type IOrder, type OrderStatus } from "./order"
+export { WalletTransaction, type IWalletTransaction, type WalletTransactionType } from "./wallet-transaction"
+export { RefundRequest, type IRefundRequest, type RefundRequestStatus } from "./refund-request"
+export { Coupon, type ICoupon, type CouponDiscountType } from "./coupon"
+export { CouponRedemption, type ICouponRedemption } from "./coupon-redemption"
+export { CouponUse, type ICouponUse } from "./coupon-use"
+export { Notification, type INotification, type NotificationType } from "./notification"
+export {
+  NotificationPreference,
+  type INotificationPreference,
+  type NotificationCategory,
+  type NotificationChannel,
+  type DigestFrequency,
+  type ChannelSettings,
+} from "./notification-preference"
+export { QuizAttempt, type IQuizAttempt, type IQuizAnswer } from "./quiz-attempt"
+export {
+  AssignmentSubmission,
+  type IAssignmentSubmission,
+  type IAssignmentAttachment,
+  type IRubricScore,
+  type AssignmentSubmissionStatus,
+} from "./assignment-submission"
+export { ScormAttempt, type IScormAttempt, type IScormCmiValue, type IXapiState } from "./scorm-attempt"
+export {
+  VideoAsset,
+  type IVideoAsset,
+  type IVideoRendition,
+  type VideoAssetStatus,
+} from "./video-asset"
+export {
+  VideoCaption,
+  type IVideoCaption,
+  type ICaptionCue,
+  type VideoCaptionSource,
+  type VideoCaptionStatus,
+} from "./video-caption"
+export { Certificate, type ICertificate } from "./certificate"
+export {
+  InstructorApplication,
+  type IInstructorApplication,
+  type InstructorApplicationStatus,
+} from "./instructor-application"
@@ -0,0 +1,98 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose"
+
+export type InstructorApplicationStatus = "pending" | "approved" | "rejected"
+
+export interface IInstructorApplication extends Document {
+  _id: Types.ObjectId
+  user: Types.ObjectId
+  // Copied into IUser.instructorProfile on approval
+  headline: string
+  expertise: string[]
+  socialLinks: {
+    twitter?: string
+    linkedin?: string
+    website?: string
+  }
+  /** Short teaching sample uploaded to R2 */
+  sampleVideoUrl: string
+  /** Which version of the instructor terms the applicant agreed to */
+  termsVersion: string
+  termsAcceptedAt: Date
+  status: InstructorApplicationStatus
+  // Review
+  reviewedBy: Types.ObjectId | null
+  reviewedAt: Date | null
+  reviewNote: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+const InstructorApplicationSchema = new Schema<IInstructorApplication>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    headline: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 120,
+    },
+    expertise: [{ type: String, trim: true, maxlength: 40 }],
+    socialLinks: {
+      twitter: String,
+      linkedin: String,
+      website: String,
+    },
+    sampleVideoUrl: {
+      type: String,
+      required: true,
+    },
+    termsVersion: {
+      type: String,
+      required: true,
+    },
+    termsAcceptedAt: {
+      type: Date,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "approved", "rejected"],
+      default: "pending",
+    },
+    reviewedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+    reviewedAt: {
+      type: Date,
+      default: null,
+    },
+    reviewNote: {
+      type: String,
+      default: null,
+      maxlength: 1000,
+    },
+  },
+  {
+    timestamps: true,
+  }
+)
+
+// Admin review queue
+InstructorApplicationSchema.index({ status: 1, createdAt: 1 })
+
+// At most one open application per user
+InstructorApplicationSchema.index(
+  { user: 1 },
+  { unique: true, partialFilterExpression: { status: "pending" } }
+)
+
+export const InstructorApplication: Model<IInstructorApplication> =
+  mongoose.models.InstructorApplication ||
+  mongoose.model<IInstructorApplication>("InstructorApplication", InstructorApplicationSchema)
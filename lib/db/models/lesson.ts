@@ -1,6 +1,54 @@
 import mongoose, { Schema, Document, Model, Types } from "mongoose"
 
-export type LessonType = "video" | "live" | "text"
+export type LessonType = "video" | "live" | "text" | "quiz" | "assignment" | "scorm"
+
+export type ScormStandard = "scorm12" | "scorm2004" | "xapi"
+
+export type QuizQuestionType = "multiple_choice" | "multi_select" | "true_false" | "short_answer"
+
+export interface IQuizQuestion {
+  _id: Types.ObjectId
+  type: QuizQuestionType
+  prompt: string
+  // Choice questions (true/false uses ["True", "False"])
+  options: string[]
+  correctOptions: number[] // indexes into options
+  // Short answer — matched case-insensitively
+  acceptedAnswers: string[]
+  explanation: string | null
+  points: number
+}
+
+export interface IRubricCriterion {
+  _id: Types.ObjectId
+  title: string
+  description: string | null
+  maxPoints: number
+}
+
+export interface ILessonAssignment {
+  allowFiles: boolean
+  allowText: boolean
+  rubric: IRubricCriterion[]
+}
+
+/** A SCORM / xAPI package, unpacked to R2 under packages/<packageId>/ */
+export interface ILessonScorm {
+  standard: ScormStandard
+  packageId: string
+  launchPath: string // relative to the package root, may carry a query string
+  title: string | null
+  activityId: string | null // xAPI activity the package reports against
+  masteryScore: number | null // SCORM 1.2 adlcp:masteryscore, 0–100
+  fileCount: number
+  size: number // unpacked bytes
+}
+
+export interface ILessonQuiz {
+  questions: IQuizQuestion[]
+  passMark: number // percent of total points needed to pass
+  maxAttempts: number | null // null = unlimited
+}
 
 export interface ILesson extends Document {
   _id: Types.ObjectId
@@ -13,16 +61,26 @@ export interface ILesson extends Document {
   videoPublicId: string | null // Cloudinary public ID for management
   videoDuration: number | null // in seconds
   videoThumbnailUrl: string | null
-  // Text content
+  // Text content (also the instructions for assignments)
   content: string | null
+  // Quiz
+  quiz: ILessonQuiz | null
+  // Assignment
+  assignment: ILessonAssignment | null
+  // SCORM / xAPI package
+  scorm: ILessonScorm | null
   // Live session
   liveScheduledAt: Date | null
   liveUrl: string | null
   // Ordering & access
-  sectionTitle: string | null // Group lessons into sections
-  order: number
+  section: Types.ObjectId | null // null = before the first section
+  order: number // course-wide, so lessons follow their section's order
   isFree: boolean // Preview lesson (accessible without purchase)
   isPublished: boolean
+  // Drip release — a lesson opens once every rule that's set is met
+  releaseAfterDays: number | null // days after the student enrolls
+  releaseAt: Date | null // fixed release date
+  prerequisiteLesson: Types.ObjectId | null // earlier lesson that must be completed first
   // Resources
   resources: {
     title: string
@@ -33,6 +91,123 @@ export interface ILesson extends Document {
   updatedAt: Date
 }
 
+const QuizQuestionSchema = new Schema<IQuizQuestion>({
+  type: {
+    type: String,
+    enum: ["multiple_choice", "multi_select", "true_false", "short_answer"],
+    required: true,
+  },
+  prompt: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 1000,
+  },
+  options: [{ type: String, trim: true }],
+  correctOptions: [{ type: Number }],
+  acceptedAnswers: [{ type: String, trim: true }],
+  explanation: {
+    type: String,
+    default: null,
+  },
+  points: {
+    type: Number,
+    default: 1,
+    min: 0,
+  },
+})
+
+const LessonQuizSchema = new Schema<ILessonQuiz>(
+  {
+    questions: [QuizQuestionSchema],
+    passMark: {
+      type: Number,
+      default: 70,
+      min: 0,
+      max: 100,
+    },
+    maxAttempts: {
+      type: Number,
+      default: null,
+      min: 1,
+    },
+  },
+  { _id: false }
+)
+
+const RubricCriterionSchema = new Schema<IRubricCriterion>({
+  title: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 150,
+  },
+  description: {
+    type: String,
+    default: null,
+  },
+  maxPoints: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+})
+
+const LessonAssignmentSchema = new Schema<ILessonAssignment>(
+  {
+    allowFiles: {
+      type: Boolean,
+      default: true,
+    },
+    allowText: {
+      type: Boolean,
+      default: true,
+    },
+    rubric: [RubricCriterionSchema],
+  },
+  { _id: false }
+)
+
+const LessonScormSchema = new Schema<ILessonScorm>(
+  {
+    standard: {
+      type: String,
+      enum: ["scorm12", "scorm2004", "xapi"],
+      required: true,
+    },
+    packageId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    launchPath: {
+      type: String,
+      required: true,
+    },
+    title: {
+      type: String,
+      default: null,
+    },
+    activityId: {
+      type: String,
+      default: null,
+    },
+    masteryScore: {
+      type: Number,
+      default: null,
+    },
+    fileCount: {
+      type: Number,
+      default: 0,
+    },
+    size: {
+      type: Number,
+      default: 0,
+    },
+  },
+  { _id: false }
+)
+
 const LessonSchema = new Schema<ILesson>(
   {
     course: {
@@ -53,7 +228,7 @@ const LessonSchema = new Schema<ILesson>(
     },
     type: {
       type: String,
-      enum: ["video", "live", "text"],
+      enum: ["video", "live", "text", "quiz", "assignment", "scorm"],
       default: "video",
     },
     videoUrl: {
@@ -76,6 +251,18 @@ const LessonSchema = new Schema<ILesson>(
       type: String,
       default: null,
     },
+    quiz: {
+      type: LessonQuizSchema,
+      default: null,
+    },
+    assignment: {
+      type: LessonAssignmentSchema,
+      default: null,
+    },
+    scorm: {
+      type: LessonScormSchema,
+      default: null,
+    },
     liveScheduledAt: {
       type: Date,
       default: null,
@@ -84,8 +271,9 @@ const LessonSchema = new Schema<ILesson>(
       type: String,
       default: null,
     },
-    sectionTitle: {
-      type: String,
+    section: {
+      type: Schema.Types.ObjectId,
+      ref: "Section",
       default: null,
     },
     order: {
@@ -101,6 +289,20 @@ const LessonSchema = new Schema<ILesson>(
       type: Boolean,
       default: false,
     },
+    releaseAfterDays: {
+      type: Number,
+      default: null,
+      min: 1,
+    },
+    releaseAt: {
+      type: Date,
+      default: null,
+    },
+    prerequisiteLesson: {
+      type: Schema.Types.ObjectId,
+      ref: "Lesson",
+      default: null,
+    },
     resources: [
       {
         title: { type: String, required: true },
@@ -0,0 +1,112 @@
+import mongoose, { Schema, Document, Types } from "mongoose"
+
+/** A chat message sent during a meeting */
+export interface IMeetingMessage extends Document {
+  _id: Types.ObjectId
+  meeting: Types.ObjectId
+  user: Types.ObjectId
+  message: string
+  imageUrl?: string
+  videoUrl?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface IMeetingPollVote {
+  user: Types.ObjectId
+  option: number
+  votedAt: Date
+}
+
+/** A poll run during a meeting — each attendee votes once */
+export interface IMeetingPoll extends Document {
+  _id: Types.ObjectId
+  meeting: Types.ObjectId
+  createdBy: Types.ObjectId
+  question: string
+  options: string[]
+  votes: IMeetingPollVote[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+/** A question asked in a meeting's Q&A */
+export interface IMeetingQuestion extends Document {
+  _id: Types.ObjectId
+  meeting: Types.ObjectId
+  user: Types.ObjectId
+  text: string
+  upvotes: Types.ObjectId[]
+  answered: boolean
+  answeredAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+const MeetingMessageSchema = new Schema<IMeetingMessage>(
+  {
+    meeting: { type: Schema.Types.ObjectId, ref: "Meeting", required: true },
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    message: { type: String, default: "" },
+    imageUrl: { type: String },
+    videoUrl: { type: String },
+  },
+  { timestamps: true }
+)
+
+MeetingMessageSchema.index({ meeting: 1, createdAt: -1 })
+
+const MeetingPollVoteSchema = new Schema<IMeetingPollVote>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    option: { type: Number, required: true },
+    votedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+)
+
+const MeetingPollSchema = new Schema<IMeetingPoll>(
+  {
+    meeting: { type: Schema.Types.ObjectId, ref: "Meeting", required: true },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    question: { type: String, required: true },
+    options: { type: [String], required: true },
+    votes: [MeetingPollVoteSchema],
+  },
+  { timestamps: true }
+)
+
+MeetingPollSchema.index({ meeting: 1, createdAt: 1 })
+
+const MeetingQuestionSchema = new Schema<IMeetingQuestion>(
+  {
+    meeting: { type: Schema.Types.ObjectId, ref: "Meeting", required: true },
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    text: { type: String, required: true },
+    upvotes: [{ type: Schema.Types.ObjectId, ref: "User" }],
+    answered: { type: Boolean, default: false },
+    answeredAt: { type: Date },
+  },
+  { timestamps: true }
+)
+
+MeetingQuestionSchema.index({ meeting: 1, createdAt: 1 })
+
+// In development, delete cached models to pick up schema changes
+if (process.env.NODE_ENV === "development") {
+  delete mongoose.models.MeetingMessage
+  delete mongoose.models.MeetingPoll
+  delete mongoose.models.MeetingQuestion
+}
+
+export const MeetingMessage =
+  (mongoose.models.MeetingMessage as mongoose.Model<IMeetingMessage>) ||
+  mongoose.model<IMeetingMessage>("MeetingMessage", MeetingMessageSchema)
+
+export const MeetingPoll =
+  (mongoose.models.MeetingPoll as mongoose.Model<IMeetingPoll>) ||
+  mongoose.model<IMeetingPoll>("MeetingPoll", MeetingPollSchema)
+
+export const MeetingQuestion =
+  (mongoose.models.MeetingQuestion as mongoose.Model<IMeetingQuestion>) ||
+  mongoose.model<IMeetingQuestion>("MeetingQuestion", MeetingQuestionSchema)
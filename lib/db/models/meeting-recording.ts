@@ -0,0 +1,62 @@
+import mongoose, { Schema, Document, Types } from "mongoose"
+
+/**
+ * recording → processing (stopped, waiting for the provider's upload) →
+ * ready (copied into R2) or failed
+ */
+export type MeetingRecordingStatus = "recording" | "processing" | "ready" | "failed"
+
+/** A cloud recording of a meeting, kept in R2 once the provider uploads it */
+export interface IMeetingRecording extends Document {
+  _id: Types.ObjectId
+  meeting: Types.ObjectId
+  /** The meeting's course — recordings of course meetings can become lessons */
+  courseId: Types.ObjectId | null
+  startedBy: Types.ObjectId
+  providerRecordingId: string // RealtimeKit recording ID
+  status: MeetingRecordingStatus
+  startedAt: Date
+  stoppedAt: Date | null
+  duration: number | null // seconds
+  fileSize: number | null // bytes
+  videoUrl: string | null // R2
+  error: string | null
+  /** Lesson the recording was added to the course as */
+  lessonId: Types.ObjectId | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+const MeetingRecordingSchema = new Schema<IMeetingRecording>(
+  {
+    meeting: { type: Schema.Types.ObjectId, ref: "Meeting", required: true },
+    courseId: { type: Schema.Types.ObjectId, ref: "Course", default: null },
+    startedBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    providerRecordingId: { type: String, required: true, unique: true },
+    status: {
+      type: String,
+      enum: ["recording", "processing", "ready", "failed"],
+      default: "recording",
+    },
+    startedAt: { type: Date, default: Date.now },
+    stoppedAt: { type: Date, default: null },
+    duration: { type: Number, default: null },
+    fileSize: { type: Number, default: null },
+    videoUrl: { type: String, default: null },
+    error: { type: String, default: null },
+    lessonId: { type: Schema.Types.ObjectId, ref: "Lesson", default: null },
+  },
+  { timestamps: true }
+)
+
+MeetingRecordingSchema.index({ meeting: 1, createdAt: 1 })
+MeetingRecordingSchema.index({ meeting: 1, status: 1 })
+
+// In development, delete cached model to pick up schema changes
+if (process.env.NODE_ENV === "development" && mongoose.models.MeetingRecording) {
+  delete mongoose.models.MeetingRecording
+}
+
+export const MeetingRecording =
+  (mongoose.models.MeetingRecording as mongoose.Model<IMeetingRecording>) ||
+  mongoose.model<IMeetingRecording>("MeetingRecording", MeetingRecordingSchema)
@@ -2,11 +2,23 @@ import mongoose, { Schema, Document, Types } from "mongoose"
 
 export type MeetingStatus = "scheduled" | "waiting" | "active" | "ended"
 
+/** Reminder emails already sent for a scheduled meeting */
+export type MeetingReminder = "day" | "soon"
+
+/** One stretch of time someone spent in a meeting — open until they leave */
+export interface IMeetingAttendanceSession {
+  joinedAt: Date
+  leftAt?: Date
+}
+
 export interface IMeetingParticipant {
   userId: Types.ObjectId
   role: "host" | "co-host" | "participant" | "guest"
+  /** Latest join / leave — see sessions for the full attendance */
   joinedAt?: Date
   leftAt?: Date
+  /** Every time they were in the meeting, oldest first */
+  sessions: IMeetingAttendanceSession[]
   status: "pending" | "admitted" | "declined" | "left" | "kicked"
 }
 
@@ -17,14 +29,24 @@ export interface IMeetingInvite {
   sentAt?: Date
 }
 
+/** A breakout room — its own RTK room, open until the host brings everyone back */
+export interface IMeetingBreakoutRoom {
+  _id: Types.ObjectId
+  name: string
+  rtkMeetingId: string
+  /** Who the host assigned to the room — the host can visit any room */
+  participants: Types.ObjectId[]
+  status: "open" | "closed"
+}
+
 export interface IMeeting extends Document {
   _id: Types.ObjectId
   title: string
   description?: string
   hostId: Types.ObjectId
   status: MeetingStatus
-  meetingId: string // Dyte/RTK meeting ID
-  hostToken: string // Host's RTK auth token
+  meetingId: string // Dyte/RTK meeting ID — empty until a scheduled meeting opens
+  hostToken: string // Host's RTK auth token — empty until a scheduled meeting opens
   participants: IMeetingParticipant[]
   /** If created from a course, links to course for thumbnail/notifications */
   courseId?: Types.ObjectId
@@ -39,18 +61,47 @@ export interface IMeeting extends Document {
     maxParticipants: number
   }
   scheduledAt?: Date
+  /** Planned length of a scheduled meeting, for calendar invites */
+  durationMinutes?: number
+  /** IANA time zone the host scheduled in — keeps weekly slots at the same local time */
+  timeZone?: string
+  /** Weekly series this occurrence belongs to; every occurrence is its own meeting */
+  series?: {
+    id: Types.ObjectId
+    index: number
+    count: number
+  }
+  remindersSent: MeetingReminder[]
+  /** The latest set of breakout rooms — replaced each time the host opens rooms */
+  breakoutRooms: IMeetingBreakoutRoom[]
+  /** When the open breakout rooms are due to close, if the host set a timer */
+  breakoutEndsAt?: Date
+  /** Live lesson that attending this course meeting completes */
+  attendanceLesson?: {
+    lessonId: Types.ObjectId
+    minMinutes: number
+  }
   startedAt?: Date
   endedAt?: Date
   createdAt: Date
   updatedAt: Date
 }
 
+const MeetingAttendanceSessionSchema = new Schema<IMeetingAttendanceSession>(
+  {
+    joinedAt: { type: Date, required: true },
+    leftAt: { type: Date },
+  },
+  { _id: false }
+)
+
 const MeetingParticipantSchema = new Schema<IMeetingParticipant>(
   {
     userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
     role: { type: String, enum: ["host", "co-host", "participant", "guest"], default: "participant" },
     joinedAt: { type: Date },
     leftAt: { type: Date },
+    sessions: { type: [MeetingAttendanceSessionSchema], default: [] },
     status: { type: String, enum: ["pending", "admitted", "declined", "left", "kicked"], default: "pending" },
   },
   { _id: false }
@@ -66,14 +117,26 @@ const MeetingInviteSchema = new Schema<IMeetingInvite>(
   { _id: false }
 )
 
+const MeetingBreakoutRoomSchema = new Schema<IMeetingBreakoutRoom>({
+  name: { type: String, required: true },
+  rtkMeetingId: { type: String, required: true },
+  participants: [{ type: Schema.Types.ObjectId, ref: "User" }],
+  status: { type: String, enum: ["open", "closed"], default: "open" },
+})
+
+/** Scheduled meetings get their RTK room when they open */
+function requiresRoom(this: IMeeting) {
+  return this.status !== "scheduled"
+}
+
 const MeetingSchema = new Schema<IMeeting>(
   {
     title: { type: String, required: true },
     description: { type: String },
     hostId: { type: Schema.Types.ObjectId, ref: "User", required: true },
     status: { type: String, enum: ["scheduled", "waiting", "active", "ended"], default: "waiting" },
-    meetingId: { type: String, required: true },
-    hostToken: { type: String, required: true },
+    meetingId: { type: String, default: "", required: requiresRoom },
+    hostToken: { type: String, default: "", required: requiresRoom },
     participants: [MeetingParticipantSchema],
     courseId: { type: Schema.Types.ObjectId, ref: "Course" },
     courseThumbnailUrl: { type: String },
@@ -86,6 +149,32 @@ const MeetingSchema = new Schema<IMeeting>(
       maxParticipants: { type: Number, default: 50 },
     },
     scheduledAt: { type: Date },
+    durationMinutes: { type: Number },
+    timeZone: { type: String },
+    series: {
+      type: new Schema(
+        {
+          id: { type: Schema.Types.ObjectId, required: true },
+          index: { type: Number, required: true },
+          count: { type: Number, required: true },
+        },
+        { _id: false }
+      ),
+      default: undefined,
+    },
+    remindersSent: { type: [{ type: String, enum: ["day", "soon"] }], default: [] },
+    breakoutRooms: { type: [MeetingBreakoutRoomSchema], default: [] },
+    breakoutEndsAt: { type: Date },
+    attendanceLesson: {
+      type: new Schema(
+        {
+          lessonId: { type: Schema.Types.ObjectId, ref: "Lesson", required: true },
+          minMinutes: { type: Number, required: true },
+        },
+        { _id: false }
+      ),
+      default: undefined,
+    },
     startedAt: { type: Date },
     endedAt: { type: Date },
   },
@@ -94,6 +183,8 @@ const MeetingSchema = new Schema<IMeeting>(
 
 MeetingSchema.index({ hostId: 1, status: 1 })
 MeetingSchema.index({ status: 1, createdAt: -1 })
+MeetingSchema.index({ status: 1, scheduledAt: 1 })
+MeetingSchema.index({ "series.id": 1 })
 
 // In development, delete cached model to pick up schema changes
 if (process.env.NODE_ENV === "development" && mongoose.models.Meeting) {
@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose"
+
+export type NotificationCategory =
+  | "messages"
+  | "meetings"
+  | "courseUpdates"
+  | "reviews"
+  | "marketing"
+
+export type NotificationChannel = "inApp" | "email" | "digest"
+
+export type DigestFrequency = "daily" | "weekly"
+
+export type ChannelSettings = Record<NotificationChannel, boolean>
+
+export interface INotificationPreference extends Document {
+  _id: Types.ObjectId
+  user: Types.ObjectId
+  categories: Record<NotificationCategory, ChannelSettings>
+  digestFrequency: DigestFrequency
+  lastDigestSentAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+const channelDefaults = (inApp: boolean, email: boolean) => ({
+  inApp: { type: Boolean, default: inApp },
+  email: { type: Boolean, default: email },
+  digest: { type: Boolean, default: false },
+})
+
+const NotificationPreferenceSchema = new Schema<INotificationPreference>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      unique: true,
+    },
+    categories: {
+      messages: channelDefaults(true, false),
+      meetings: channelDefaults(true, true),
+      courseUpdates: channelDefaults(true, true),
+      reviews: channelDefaults(true, true),
+      marketing: channelDefaults(false, false),
+    },
+    digestFrequency: {
+      type: String,
+      enum: ["daily", "weekly"],
+      default: "daily",
+    },
+    lastDigestSentAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+)
+
+export const NotificationPreference: Model<INotificationPreference> =
+  mongoose.models.NotificationPreference ||
+  mongoose.model<INotificationPreference>("NotificationPreference", NotificationPreferenceSchema)
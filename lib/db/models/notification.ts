@@ -0,0 +1,87 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose"
+
+export type NotificationType =
+  | "lesson_published"
+  | "meeting_invite"
+  | "meeting_reminder"
+  | "course_review"
+  | "certificate_earned"
+  | "missed_call"
+  | "assignment_graded"
+  | "course_approval"
+
+export interface INotification extends Document {
+  _id: Types.ObjectId
+  user: Types.ObjectId
+  type: NotificationType
+  title: string
+  message: string
+  /** Where clicking the notification takes the user */
+  href: string | null
+  /** Avatar / thumbnail shown next to the notification */
+  imageUrl: string | null
+  read: boolean
+  readAt: Date | null
+  createdAt: Date
+}
+
+const NotificationSchema = new Schema<INotification>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: [
+        "lesson_published",
+        "meeting_invite",
+        "meeting_reminder",
+        "course_review",
+        "certificate_earned",
+        "missed_call",
+        "assignment_graded",
+        "course_approval",
+      ],
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      maxlength: 200,
+    },
+    message: {
+      type: String,
+      default: "",
+      maxlength: 500,
+    },
+    href: {
+      type: String,
+      default: null,
+    },
+    imageUrl: {
+      type: String,
+      default: null,
+    },
+    read: {
+      type: Boolean,
+      default: false,
+    },
+    readAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+)
+
+// Bell list (newest first) and unread count
+NotificationSchema.index({ user: 1, createdAt: -1 })
+NotificationSchema.index({ user: 1, read: 1 })
+
+export const Notification: Model<INotification> =
+  mongoose.models.Notification ||
+  mongoose.model<INotification>("Notification", NotificationSchema)
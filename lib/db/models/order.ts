@@ -0,0 +1,123 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose"
+
+export type OrderStatus = "pending" | "paid" | "failed" | "cancelled" | "refunded"
+
+export interface IOrder extends Document {
+  _id: Types.ObjectId
+  user: Types.ObjectId
+  course: Types.ObjectId
+  status: OrderStatus
+  amount: number
+  currency: string
+  // Coupon applied at checkout — amount is the discounted price
+  coupon: Types.ObjectId | null
+  couponCode: string | null
+  originalAmount: number | null
+  discount: number
+  // Payment provider details
+  provider: string
+  providerSessionId: string | null
+  transactionId: string | null
+  failureReason: string | null
+  // Set once the webhook confirms payment and the enrollment is created
+  enrollment: Types.ObjectId | null
+  paidAt: Date | null
+  // Fulfilment progress, so a retried webhook can pick up where it failed
+  couponClaimed: boolean
+  fulfillingSince: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+const OrderSchema = new Schema<IOrder>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    course: {
+      type: Schema.Types.ObjectId,
+      ref: "Course",
+      required: true,
+      index: true,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "paid", "failed", "cancelled", "refunded"],
+      default: "pending",
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      default: "USD",
+    },
+    coupon: {
+      type: Schema.Types.ObjectId,
+      ref: "Coupon",
+      default: null,
+    },
+    couponCode: {
+      type: String,
+      default: null,
+    },
+    originalAmount: {
+      type: Number,
+      default: null,
+    },
+    discount: {
+      type: Number,
+      default: 0,
+    },
+    provider: {
+      type: String,
+      required: true,
+    },
+    providerSessionId: {
+      type: String,
+      default: null,
+    },
+    transactionId: {
+      type: String,
+      default: null,
+    },
+    failureReason: {
+      type: String,
+      default: null,
+    },
+    enrollment: {
+      type: Schema.Types.ObjectId,
+      ref: "Enrollment",
+      default: null,
+    },
+    paidAt: {
+      type: Date,
+      default: null,
+    },
+    couponClaimed: {
+      type: Boolean,
+      default: false,
+    },
+    fulfillingSince: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+)
+
+// Webhook lookups by provider session
+OrderSchema.index({ provider: 1, providerSessionId: 1 })
+
+// Finding a user's orders for a course
+OrderSchema.index({ user: 1, course: 1, status: 1 })
+
+export const Order: Model<IOrder> =
+  mongoose.models.Order || mongoose.model<IOrder>("Order", OrderSchema)
@@ -0,0 +1,106 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose"
+
+export interface IQuizAnswer {
+  question: Types.ObjectId
+  selectedOptions: number[]
+  textAnswer: string | null
+  isCorrect: boolean
+  pointsAwarded: number
+}
+
+export interface IQuizAttempt extends Document {
+  _id: Types.ObjectId
+  user: Types.ObjectId
+  lesson: Types.ObjectId
+  course: Types.ObjectId
+  attemptNumber: number
+  answers: IQuizAnswer[]
+  score: number // points awarded
+  maxScore: number
+  percent: number
+  /** Pass mark at the time of the attempt, so later edits don't rewrite history */
+  passMark: number
+  passed: boolean
+  createdAt: Date
+}
+
+const QuizAnswerSchema = new Schema<IQuizAnswer>(
+  {
+    question: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    selectedOptions: [{ type: Number }],
+    textAnswer: {
+      type: String,
+      default: null,
+      maxlength: 500,
+    },
+    isCorrect: {
+      type: Boolean,
+      default: false,
+    },
+    pointsAwarded: {
+      type: Number,
+      default: 0,
+    },
+  },
+  { _id: false }
+)
+
+const QuizAttemptSchema = new Schema<IQuizAttempt>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    lesson: {
+      type: Schema.Types.ObjectId,
+      ref: "Lesson",
+      required: true,
+    },
+    course: {
+      type: Schema.Types.ObjectId,
+      ref: "Course",
+      required: true,
+      index: true,
+    },
+    attemptNumber: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    answers: [QuizAnswerSchema],
+    score: {
+      type: Number,
+      default: 0,
+    },
+    maxScore: {
+      type: Number,
+      default: 0,
+    },
+    percent: {
+      type: Number,
+      default: 0,
+    },
+    passMark: {
+      type: Number,
+      required: true,
+    },
+    passed: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+)
+
+// One document per attempt number — a double submit can't use up two attempts
+QuizAttemptSchema.index({ user: 1, lesson: 1, attemptNumber: 1 }, { unique: true })
+
+export const QuizAttempt: Model<IQuizAttempt> =
+  mongoose.models.QuizAttempt ||
+  mongoose.model<IQuizAttempt>("QuizAttempt", QuizAttemptSchema)
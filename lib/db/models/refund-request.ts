@@ -0,0 +1,105 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose"
+
+export type RefundRequestStatus = "pending" | "approved" | "rejected"
+
+export interface IRefundRequest extends Document {
+  _id: Types.ObjectId
+  enrollment: Types.ObjectId
+  user: Types.ObjectId
+  course: Types.ObjectId
+  /** Denormalised so instructors can list their queue without a join */
+  instructor: Types.ObjectId
+  amount: number
+  currency: string
+  reason: string
+  /** Snapshot of enrollment progress when the request was made */
+  progressAtRequest: number
+  status: RefundRequestStatus
+  // Review
+  reviewedBy: Types.ObjectId | null
+  reviewedAt: Date | null
+  reviewNote: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+const RefundRequestSchema = new Schema<IRefundRequest>(
+  {
+    enrollment: {
+      type: Schema.Types.ObjectId,
+      ref: "Enrollment",
+      required: true,
+      index: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    course: {
+      type: Schema.Types.ObjectId,
+      ref: "Course",
+      required: true,
+    },
+    instructor: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      default: "USD",
+    },
+    reason: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 1000,
+    },
+    progressAtRequest: {
+      type: Number,
+      default: 0,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "approved", "rejected"],
+      default: "pending",
+    },
+    reviewedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+    reviewedAt: {
+      type: Date,
+      default: null,
+    },
+    reviewNote: {
+      type: String,
+      default: null,
+      maxlength: 1000,
+    },
+  },
+  {
+    timestamps: true,
+  }
+)
+
+// Instructor / admin review queue
+RefundRequestSchema.index({ instructor: 1, status: 1, createdAt: -1 })
+RefundRequestSchema.index({ status: 1, createdAt: -1 })
+// One open request per enrollment, even when two are submitted at once
+RefundRequestSchema.index(
+  { enrollment: 1, status: 1 },
+  { unique: true, partialFilterExpression: { status: "pending" } }
+)
+
+export const RefundRequest: Model<IRefundRequest> =
+  mongoose.models.RefundRequest ||
+  mongoose.model<IRefundRequest>("RefundRequest", RefundRequestSchema)
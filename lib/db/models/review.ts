@@ -1,5 +1,22 @@
 import mongoose, { Schema, Document, Model, Types } from "mongoose"
 
+export type ReviewReportReason = "spam" | "offensive" | "off_topic" | "misleading" | "other"
+
+export interface IReviewReport {
+  reporter: Types.ObjectId
+  reason: ReviewReportReason
+  details: string | null
+  createdAt: Date
+}
+
+// The course instructor's public response, shown under the review
+export interface IReviewReply {
+  author: Types.ObjectId
+  content: string
+  createdAt: Date
+  updatedAt: Date
+}
+
 export interface IReview extends Document {
   _id: Types.ObjectId
   user: Types.ObjectId
@@ -13,11 +30,55 @@ export interface IReview extends Document {
   isHidden: boolean
   // Helpfulness
   helpfulCount: number
+  // Open reports; cleared when a moderator restores the review
+  reports: IReviewReport[]
   reportCount: number
+  reply: IReviewReply | null
   createdAt: Date
   updatedAt: Date
 }
 
+const ReviewReportSchema = new Schema<IReviewReport>(
+  {
+    reporter: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    reason: {
+      type: String,
+      enum: ["spam", "offensive", "off_topic", "misleading", "other"],
+      required: true,
+    },
+    details: {
+      type: String,
+      default: null,
+      maxlength: 500,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+)
+
+const ReviewReplySchema = new Schema<IReviewReply>(
+  {
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    content: {
+      type: String,
+      required: true,
+      maxlength: 2000,
+    },
+  },
+  { _id: false, timestamps: true }
+)
+
 const ReviewSchema = new Schema<IReview>(
   {
     user: {
@@ -64,10 +125,18 @@ const ReviewSchema = new Schema<IReview>(
       type: Number,
       default: 0,
     },
+    reports: {
+      type: [ReviewReportSchema],
+      default: [],
+    },
     reportCount: {
       type: Number,
       default: 0,
     },
+    reply: {
+      type: ReviewReplySchema,
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -80,5 +149,8 @@ ReviewSchema.index({ user: 1, course: 1 }, { unique: true })
 // For fetching course reviews sorted by helpfulness/date
 ReviewSchema.index({ course: 1, isApproved: 1, isHidden: 1, createdAt: -1 })
 
+// Moderation queue
+ReviewSchema.index({ reportCount: -1, createdAt: -1 })
+
 export const Review: Model<IReview> =
   mongoose.models.Review || mongoose.model<IReview>("Review", ReviewSchema)
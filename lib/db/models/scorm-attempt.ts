@@ -0,0 +1,146 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose"
+import type { ScormStandard } from "./lesson"
+
+/** One SCORM data model element — kept as a list since Mongoose map keys can't contain dots */
+export interface IScormCmiValue {
+  element: string
+  value: string
+}
+
+/** An xAPI state document a package saved (bookmarks, suspend data) */
+export interface IXapiState {
+  activityId: string
+  stateId: string
+  registration: string | null
+  contentType: string
+  value: string
+  updatedAt: Date
+}
+
+export interface IScormAttempt extends Document {
+  _id: Types.ObjectId
+  user: Types.ObjectId
+  lesson: Types.ObjectId
+  course: Types.ObjectId
+  standard: ScormStandard
+  /** SCORM runtime data model (cmi.*) as the package last committed it */
+  cmi: IScormCmiValue[]
+  xapiStates: IXapiState[]
+  // Outcome, normalised across SCORM 1.2, 2004 and xAPI
+  completionStatus: "not_attempted" | "incomplete" | "completed"
+  successStatus: "unknown" | "passed" | "failed"
+  scoreScaled: number | null // 0–1
+  scoreRaw: number | null
+  totalTime: number // seconds across sessions
+  completedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+const ScormCmiValueSchema = new Schema<IScormCmiValue>(
+  {
+    element: {
+      type: String,
+      required: true,
+    },
+    value: {
+      type: String,
+      default: "",
+    },
+  },
+  { _id: false }
+)
+
+const XapiStateSchema = new Schema<IXapiState>(
+  {
+    activityId: {
+      type: String,
+      required: true,
+    },
+    stateId: {
+      type: String,
+      required: true,
+    },
+    registration: {
+      type: String,
+      default: null,
+    },
+    contentType: {
+      type: String,
+      default: "application/octet-stream",
+    },
+    value: {
+      type: String,
+      default: "",
+    },
+    updatedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+)
+
+const ScormAttemptSchema = new Schema<IScormAttempt>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    lesson: {
+      type: Schema.Types.ObjectId,
+      ref: "Lesson",
+      required: true,
+    },
+    course: {
+      type: Schema.Types.ObjectId,
+      ref: "Course",
+      required: true,
+      index: true,
+    },
+    standard: {
+      type: String,
+      enum: ["scorm12", "scorm2004", "xapi"],
+      required: true,
+    },
+    cmi: [ScormCmiValueSchema],
+    xapiStates: [XapiStateSchema],
+    completionStatus: {
+      type: String,
+      enum: ["not_attempted", "incomplete", "completed"],
+      default: "not_attempted",
+    },
+    successStatus: {
+      type: String,
+      enum: ["unknown", "passed", "failed"],
+      default: "unknown",
+    },
+    scoreScaled: {
+      type: Number,
+      default: null,
+    },
+    scoreRaw: {
+      type: Number,
+      default: null,
+    },
+    totalTime: {
+      type: Number,
+      default: 0,
+    },
+    completedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+)
+
+// One runtime record per student per package lesson — it carries across sessions
+ScormAttemptSchema.index({ user: 1, lesson: 1 }, { unique: true })
+
+export const ScormAttempt: Model<IScormAttempt> =
+  mongoose.models.ScormAttempt ||
+  mongoose.model<IScormAttempt>("ScormAttempt", ScormAttemptSchema)
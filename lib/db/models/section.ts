@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose"
+
+export interface ISection extends Document {
+  _id: Types.ObjectId
+  course: Types.ObjectId
+  title: string
+  description: string | null
+  order: number
+  // Drip release — applies to every lesson in the section on top of its own rules
+  releaseAfterDays: number | null // days after the student enrolls
+  releaseAt: Date | null // fixed release date
+  requiresPreviousSection: boolean // previous section must be completed first
+  createdAt: Date
+  updatedAt: Date
+}
+
+const SectionSchema = new Schema<ISection>(
+  {
+    course: {
+      type: Schema.Types.ObjectId,
+      ref: "Course",
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 150,
+    },
+    description: {
+      type: String,
+      default: null,
+      maxlength: 1000,
+    },
+    order: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    releaseAfterDays: {
+      type: Number,
+      default: null,
+      min: 1,
+    },
+    releaseAt: {
+      type: Date,
+      default: null,
+    },
+    requiresPreviousSection: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+)
+
+// Compound index for ordering within a course
+SectionSchema.index({ course: 1, order: 1 })
+
+export const Section: Model<ISection> =
+  mongoose.models.Section || mongoose.model<ISection>("Section", SectionSchema)
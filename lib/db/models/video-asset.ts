@@ -0,0 +1,117 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose"
+
+export type VideoAssetStatus = "queued" | "processing" | "ready" | "failed"
+
+/** One HLS variant of a transcoded video */
+export interface IVideoRendition {
+  height: number
+  bandwidth: number // bits per second, as in the master playlist
+  playlistUrl: string
+}
+
+/**
+ * The streaming version of an uploaded lesson video. Keyed by the source
+ * URL rather than a lesson — course saves recreate lessons, and drafts and
+ * published versions share the same upload.
+ */
+export interface IVideoAsset extends Document {
+  _id: Types.ObjectId
+  sourceUrl: string
+  sourceKey: string // R2 key of the uploaded MP4
+  status: VideoAssetStatus
+  attempts: number
+  lockedAt: Date | null
+  error: string | null
+  hlsUrl: string | null // master playlist
+  renditions: IVideoRendition[]
+  posterUrl: string | null
+  duration: number | null // seconds
+  width: number | null
+  height: number | null
+  readyAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+const VideoRenditionSchema = new Schema<IVideoRendition>(
+  {
+    height: {
+      type: Number,
+      required: true,
+    },
+    bandwidth: {
+      type: Number,
+      required: true,
+    },
+    playlistUrl: {
+      type: String,
+      required: true,
+    },
+  },
+  { _id: false }
+)
+
+const VideoAssetSchema = new Schema<IVideoAsset>(
+  {
+    sourceUrl: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    sourceKey: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["queued", "processing", "ready", "failed"],
+      default: "queued",
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    lockedAt: {
+      type: Date,
+      default: null,
+    },
+    error: {
+      type: String,
+      default: null,
+    },
+    hlsUrl: {
+      type: String,
+      default: null,
+    },
+    renditions: [VideoRenditionSchema],
+    posterUrl: {
+      type: String,
+      default: null,
+    },
+    duration: {
+      type: Number,
+      default: null,
+    },
+    width: {
+      type: Number,
+      default: null,
+    },
+    height: {
+      type: Number,
+      default: null,
+    },
+    readyAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+)
+
+// The transcode worker claims the oldest waiting job
+VideoAssetSchema.index({ status: 1, createdAt: 1 })
+
+export const VideoAsset: Model<IVideoAsset> =
+  mongoose.models.VideoAsset || mongoose.model<IVideoAsset>("VideoAsset", VideoAssetSchema)
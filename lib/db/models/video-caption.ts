@@ -0,0 +1,110 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose"
+
+export type VideoCaptionSource = "upload" | "generated"
+export type VideoCaptionStatus = "queued" | "processing" | "ready" | "failed"
+
+/** One timed line of a caption track */
+export interface ICaptionCue {
+  start: number // seconds
+  end: number // seconds
+  text: string
+}
+
+/**
+ * A caption / subtitle track of a lesson video, one per language. Keyed by
+ * the video URL like VideoAsset — course saves recreate lessons, and drafts
+ * and published versions share the same upload.
+ */
+export interface IVideoCaption extends Document {
+  _id: Types.ObjectId
+  videoUrl: string
+  language: string // language code, e.g. "en", "zh-CN"
+  label: string
+  source: VideoCaptionSource
+  status: VideoCaptionStatus
+  cues: ICaptionCue[]
+  fileName: string | null // uploaded file
+  attempts: number
+  lockedAt: Date | null
+  error: string | null
+  createdBy: Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+const CaptionCueSchema = new Schema<ICaptionCue>(
+  {
+    start: {
+      type: Number,
+      required: true,
+    },
+    end: {
+      type: Number,
+      required: true,
+    },
+    text: {
+      type: String,
+      required: true,
+    },
+  },
+  { _id: false }
+)
+
+const VideoCaptionSchema = new Schema<IVideoCaption>(
+  {
+    videoUrl: {
+      type: String,
+      required: true,
+    },
+    language: {
+      type: String,
+      required: true,
+    },
+    label: {
+      type: String,
+      required: true,
+    },
+    source: {
+      type: String,
+      enum: ["upload", "generated"],
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["queued", "processing", "ready", "failed"],
+      default: "ready",
+    },
+    cues: [CaptionCueSchema],
+    fileName: {
+      type: String,
+      default: null,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    lockedAt: {
+      type: Date,
+      default: null,
+    },
+    error: {
+      type: String,
+      default: null,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+)
+
+VideoCaptionSchema.index({ videoUrl: 1, language: 1 }, { unique: true })
+// The caption worker claims the oldest waiting job
+VideoCaptionSchema.index({ status: 1, createdAt: 1 })
+
+export const VideoCaption: Model<IVideoCaption> =
+  mongoose.models.VideoCaption || mongoose.model<IVideoCaption>("VideoCaption", VideoCaptionSchema)
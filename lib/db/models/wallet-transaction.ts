@@ -0,0 +1,81 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose"
+
+export type WalletTransactionType = "credit" | "debit" | "refund" | "payout"
+
+export interface IWalletTransaction extends Document {
+  _id: Types.ObjectId
+  user: Types.ObjectId
+  type: WalletTransactionType
+  /** Always positive — the type decides the direction */
+  amount: number
+  currency: string
+  /** User.walletBalance right after this entry was applied */
+  balanceAfter: number
+  description: string
+  // Optional links to what caused the entry
+  order: Types.ObjectId | null
+  course: Types.ObjectId | null
+  createdAt: Date
+}
+
+const WalletTransactionSchema = new Schema<IWalletTransaction>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    type: {
+      type: String,
+      enum: ["credit", "debit", "refund", "payout"],
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      default: "USD",
+    },
+    balanceAfter: {
+      type: Number,
+      required: true,
+    },
+    description: {
+      type: String,
+      required: true,
+    },
+    order: {
+      type: Schema.Types.ObjectId,
+      ref: "Order",
+      default: null,
+    },
+    course: {
+      type: Schema.Types.ObjectId,
+      ref: "Course",
+      default: null,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+)
+
+// Transaction history, newest first
+WalletTransactionSchema.index({ user: 1, createdAt: -1 })
+
+// Ledger is append-only — entries are corrected with a new entry, never edited
+function rejectMutation() {
+  throw new Error("Wallet transactions are append-only")
+}
+WalletTransactionSchema.pre(
+  ["updateOne", "updateMany", "findOneAndUpdate", "replaceOne", "deleteOne", "deleteMany", "findOneAndDelete"],
+  rejectMutation
+)
+
+export const WalletTransaction: Model<IWalletTransaction> =
+  mongoose.models.WalletTransaction ||
+  mongoose.model<IWalletTransaction>("WalletTransaction", WalletTransactionSchema)
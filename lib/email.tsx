@@ -28,6 +28,12 @@ export type MeetingEmailData = {
   courseName?: string
   courseThumbnailUrl?: string
   scheduledAt?: string
+  /** IANA time zone the scheduled time is shown in (defaults to UTC) */
+  timeZone?: string
+  /** iCalendar event attached as invite.ics (see lib/meeting-schedule.ts) */
+  calendarFile?: string
+  /** Signed one-click unsubscribe link (see lib/notification-preferences.ts) */
+  unsubscribeUrl?: string
 }
 
 /* ─── Shared Styles ─── */
@@ -106,6 +112,59 @@ const footerText: React.CSSProperties = {
   margin: 0,
 }
 
+const footerLink: React.CSSProperties = {
+  fontSize: "11px",
+  color: "#b0b0b0",
+  textDecoration: "underline",
+}
+
+/* ─── Footer ─── */
+
+function EmailFooter({ unsubscribeUrl }: { unsubscribeUrl?: string }) {
+  return (
+    <Section style={footer}>
+      <Text style={footerText}>WorldStreet Academy</Text>
+      {unsubscribeUrl && (
+        <Text style={{ ...footerText, marginTop: "6px" }}>
+          <Link href={unsubscribeUrl} style={footerLink}>
+            Unsubscribe from these emails
+          </Link>
+        </Text>
+      )}
+    </Section>
+  )
+}
+
+/** RFC 8058 one-click unsubscribe headers, so mail clients can show their own button */
+function unsubscribeHeaders(unsubscribeUrl?: string): Record<string, string> | undefined {
+  if (!unsubscribeUrl) return undefined
+  return {
+    "List-Unsubscribe": `<${unsubscribeUrl}>`,
+    "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+  }
+}
+
+/** Attach a meeting's .ics file so mail clients offer "Add to calendar" */
+function calendarAttachments(calendarFile?: string) {
+  if (!calendarFile) return undefined
+  return [
+    {
+      filename: "invite.ics",
+      content: Buffer.from(calendarFile, "utf-8"),
+      contentType: "text/calendar; charset=utf-8; method=PUBLISH",
+    },
+  ]
+}
+
+function formatMeetingTime(scheduledAt: string, timeZone = "UTC") {
+  const time = new Date(scheduledAt).toLocaleString("en-US", {
+    dateStyle: "medium",
+    timeStyle: "short",
+    timeZone,
+  })
+  return `${time} (${timeZone.replace(/_/g, " ")})`
+}
+
 /* ─── Avatar Components ─── */
 
 function AvatarCircle({ src, initial, offset }: { src?: string; initial: string; offset?: boolean }) {
@@ -216,11 +275,7 @@ function MeetingNotificationEmail({ data }: { data: MeetingEmailData }) {
 
             {data.scheduledAt ? (
               <Text style={{ ...muted, color: "#6b7280" }}>
-                Scheduled for{" "}
-                {new Date(data.scheduledAt).toLocaleString("en-US", {
-                  dateStyle: "medium",
-                  timeStyle: "short",
-                })}
+                Scheduled for {formatMeetingTime(data.scheduledAt, data.timeZone)}
               </Text>
             ) : (
               <Text style={{ ...muted, color: "#059669", fontWeight: 500 }}>
@@ -242,9 +297,7 @@ function MeetingNotificationEmail({ data }: { data: MeetingEmailData }) {
           </Section>
         </Container>
 
-        <Section style={footer}>
-          <Text style={footerText}>WorldStreet Academy</Text>
-        </Section>
+        <EmailFooter unsubscribeUrl={data.unsubscribeUrl} />
       </Body>
     </Html>
   )
@@ -279,6 +332,12 @@ function MeetingInviteEmail({
 
             {data.courseName && <Text style={muted}>{data.courseName}</Text>}
 
+            {data.scheduledAt && (
+              <Text style={{ ...muted, color: "#6b7280" }}>
+                Scheduled for {formatMeetingTime(data.scheduledAt, data.timeZone)}
+              </Text>
+            )}
+
             <Section style={{ marginTop: "28px" }}>
               <Button href={data.meetingLink} style={cta}>
                 Join Meeting
@@ -293,9 +352,288 @@ function MeetingInviteEmail({
           </Section>
         </Container>
 
-        <Section style={footer}>
-          <Text style={footerText}>WorldStreet Academy</Text>
-        </Section>
+        <EmailFooter unsubscribeUrl={data.unsubscribeUrl} />
+      </Body>
+    </Html>
+  )
+}
+
+/* ─── Reminder Email (scheduled meeting is coming up) ─── */
+
+export type MeetingReminderEmailData = MeetingEmailData & {
+  scheduledAt: string
+  recipientName: string
+  /** "day" = 24 hours ahead, "soon" = 15 minutes ahead */
+  reminder: "day" | "soon"
+}
+
+function MeetingReminderEmail({ data }: { data: MeetingReminderEmailData }) {
+  const startsIn = data.reminder === "soon" ? "in 15 minutes" : "tomorrow"
+
+  return (
+    <Html style={base}>
+      <Head />
+      <Preview>{`${data.meetingTitle} starts ${startsIn}`}</Preview>
+      <Body style={body}>
+        <Container style={card}>
+          <Section style={contentPad}>
+            <AvatarStack hostAvatar={data.hostAvatarUrl} hostName={data.hostName} />
+
+            <Text style={heading}>{data.meetingTitle}</Text>
+            <Text style={sub}>
+              Hi {data.recipientName}, this meeting with {data.hostName} starts {startsIn}.
+            </Text>
+
+            {data.courseName && <Text style={muted}>{data.courseName}</Text>}
+
+            <Text style={{ ...muted, color: "#6b7280" }}>
+              {formatMeetingTime(data.scheduledAt, data.timeZone)}
+            </Text>
+
+            <Section style={{ marginTop: "28px" }}>
+              <Button href={data.meetingLink} style={cta}>
+                {data.reminder === "soon" ? "Join Meeting" : "View Details"}
+              </Button>
+            </Section>
+
+            <Hr style={{ borderColor: "#f0f0f0", margin: "24px 0 16px" }} />
+
+            <Link href={data.meetingLink} style={linkSmall}>
+              {data.meetingLink}
+            </Link>
+          </Section>
+        </Container>
+
+        <EmailFooter unsubscribeUrl={data.unsubscribeUrl} />
+      </Body>
+    </Html>
+  )
+}
+
+/* ─── Digest Email (summary of unread notifications) ─── */
+
+export type NotificationDigestData = {
+  recipientName: string
+  frequency: "daily" | "weekly"
+  items: { title: string; message: string; href: string | null }[]
+  settingsUrl: string
+  unsubscribeUrl: string
+}
+
+function NotificationDigestEmail({ data }: { data: NotificationDigestData }) {
+  const period = data.frequency === "daily" ? "today" : "this week"
+
+  return (
+    <Html style={base}>
+      <Head />
+      <Preview>
+        {`${data.items.length} update${data.items.length === 1 ? "" : "s"} from WorldStreet Academy ${period}`}
+      </Preview>
+      <Body style={body}>
+        <Container style={card}>
+          <Section style={contentPad}>
+            <Text style={heading}>Your {data.frequency} digest</Text>
+            <Text style={sub}>
+              Hi {data.recipientName}, here&apos;s what you missed {period}.
+            </Text>
+
+            <Section style={{ marginTop: "24px", textAlign: "left" as const }}>
+              {data.items.map((item, i) => (
+                <Section
+                  key={i}
+                  style={{ padding: "10px 0", borderTop: i === 0 ? "none" : "1px solid #f0f0f0" }}
+                >
+                  <Text style={{ ...sub, color: "#111827", fontWeight: 500 }}>
+                    {item.href ? (
+                      <Link href={item.href} style={{ color: "#111827", textDecoration: "none" }}>
+                        {item.title}
+                      </Link>
+                    ) : (
+                      item.title
+                    )}
+                  </Text>
+                  {item.message && <Text style={muted}>{item.message}</Text>}
+                </Section>
+              ))}
+            </Section>
+
+            <Section style={{ marginTop: "24px" }}>
+              <Button href={data.settingsUrl} style={cta}>
+                Notification Settings
+              </Button>
+            </Section>
+          </Section>
+        </Container>
+
+        <EmailFooter unsubscribeUrl={data.unsubscribeUrl} />
+      </Body>
+    </Html>
+  )
+}
+
+/* ─── Certificate Email (course completed) ─── */
+
+export type CertificateEmailData = {
+  studentName: string
+  courseTitle: string
+  serialNumber: string
+  imageUrl: string
+  pdfUrl: string
+  verifyUrl: string
+  unsubscribeUrl?: string
+}
+
+function CertificateEarnedEmail({ data }: { data: CertificateEmailData }) {
+  return (
+    <Html style={base}>
+      <Head />
+      <Preview>You earned your certificate for {data.courseTitle}</Preview>
+      <Body style={body}>
+        <Container style={card}>
+          <Section style={contentPad}>
+            <Text style={heading}>Congratulations, {data.studentName}!</Text>
+            <Text style={sub}>
+              You&apos;ve completed <strong>{data.courseTitle}</strong> and earned your certificate.
+            </Text>
+
+            <Img
+              src={data.imageUrl}
+              alt={`Certificate for ${data.courseTitle}`}
+              width="100%"
+              style={{ marginTop: "24px", borderRadius: "8px", border: "1px solid #f0f0f0" }}
+            />
+
+            <Section style={{ marginTop: "28px" }}>
+              <Button href={data.pdfUrl} style={cta}>
+                Download PDF
+              </Button>
+            </Section>
+
+            <Hr style={{ borderColor: "#f0f0f0", margin: "24px 0 16px" }} />
+
+            <Text style={muted}>Certificate ID {data.serialNumber}</Text>
+            <Link href={data.verifyUrl} style={linkSmall}>
+              {data.verifyUrl}
+            </Link>
+          </Section>
+        </Container>
+
+        <EmailFooter unsubscribeUrl={data.unsubscribeUrl} />
+      </Body>
+    </Html>
+  )
+}
+
+/* ─── Instructor Application Decision ─── */
+
+export type InstructorApplicationEmailData = {
+  applicantName: string
+  approved: boolean
+  /** Admin's note — shown as the reason when the application is declined */
+  note?: string | null
+  /** Instructor portal for approvals, the application page otherwise */
+  actionUrl: string
+}
+
+function InstructorApplicationEmail({ data }: { data: InstructorApplicationEmailData }) {
+  return (
+    <Html style={base}>
+      <Head />
+      <Preview>
+        {data.approved
+          ? "You're now an instructor on WorldStreet Academy"
+          : "An update on your instructor application"}
+      </Preview>
+      <Body style={body}>
+        <Container style={card}>
+          <Section style={contentPad}>
+            <Text style={heading}>
+              {data.approved ? `Welcome aboard, ${data.applicantName}!` : `Hi ${data.applicantName},`}
+            </Text>
+            <Text style={sub}>
+              {data.approved
+                ? "Your application to teach was approved. You can start building your first course right away."
+                : "Thanks for applying to teach on WorldStreet Academy. We weren't able to approve your application this time."}
+            </Text>
+
+            {data.note && (
+              <Text style={{ ...sub, marginTop: "16px", fontStyle: "italic" }}>
+                &ldquo;{data.note}&rdquo;
+              </Text>
+            )}
+
+            <Section style={{ marginTop: "28px" }}>
+              <Button href={data.actionUrl} style={cta}>
+                {data.approved ? "Open Instructor Portal" : "View application"}
+              </Button>
+            </Section>
+
+            {!data.approved && (
+              <Text style={{ ...muted, marginTop: "16px" }}>
+                You&apos;re welcome to apply again once you&apos;ve addressed the feedback.
+              </Text>
+            )}
+          </Section>
+        </Container>
+
+        <EmailFooter />
+      </Body>
+    </Html>
+  )
+}
+
+/* ─── Lessons Unlocked (drip schedule) ─── */
+
+export type LessonsUnlockedEmailData = {
+  studentName: string
+  courseTitle: string
+  lessons: { title: string; url: string }[]
+  courseUrl: string
+  unsubscribeUrl?: string
+}
+
+function LessonsUnlockedEmail({ data }: { data: LessonsUnlockedEmailData }) {
+  const count = data.lessons.length
+
+  return (
+    <Html style={base}>
+      <Head />
+      <Preview>
+        {`${count} new lesson${count === 1 ? " is" : "s are"} ready in ${data.courseTitle}`}
+      </Preview>
+      <Body style={body}>
+        <Container style={card}>
+          <Section style={contentPad}>
+            <Text style={heading}>New lessons unlocked</Text>
+            <Text style={sub}>
+              Hi {data.studentName}, {count === 1 ? "a new lesson is" : `${count} new lessons are`} now
+              available in <strong>{data.courseTitle}</strong>.
+            </Text>
+
+            <Section style={{ marginTop: "24px", textAlign: "left" as const }}>
+              {data.lessons.map((lesson, i) => (
+                <Section
+                  key={i}
+                  style={{ padding: "10px 0", borderTop: i === 0 ? "none" : "1px solid #f0f0f0" }}
+                >
+                  <Text style={{ ...sub, color: "#111827", fontWeight: 500 }}>
+                    <Link href={lesson.url} style={{ color: "#111827", textDecoration: "none" }}>
+                      {lesson.title}
+                    </Link>
+                  </Text>
+                </Section>
+              ))}
+            </Section>
+
+            <Section style={{ marginTop: "24px" }}>
+              <Button href={data.lessons[0]?.url ?? data.courseUrl} style={cta}>
+                Start Learning
+              </Button>
+            </Section>
+          </Section>
+        </Container>
+
+        <EmailFooter unsubscribeUrl={data.unsubscribeUrl} />
       </Body>
     </Html>
   )
@@ -321,6 +659,8 @@ export async function sendMeetingNotificationEmail(
       to,
       subject,
       react: React.createElement(MeetingNotificationEmail, { data }),
+      headers: unsubscribeHeaders(data.unsubscribeUrl),
+      attachments: calendarAttachments(data.calendarFile),
     })
     if (error) {
       console.error("[Email] Failed to send:", error)
@@ -348,6 +688,8 @@ export async function sendMeetingInviteEmail(
       to,
       subject,
       react: React.createElement(MeetingInviteEmail, { data }),
+      headers: unsubscribeHeaders(data.unsubscribeUrl),
+      attachments: calendarAttachments(data.calendarFile),
     })
     if (error) {
       console.error("[Email] Invite failed:", error)
@@ -359,3 +701,136 @@ export async function sendMeetingInviteEmail(
     return { success: false, error: "Failed to send invite" }
   }
 }
+
+/**
+ * Remind an invitee that a scheduled meeting is coming up
+ */
+export async function sendMeetingReminderEmail(to: string, data: MeetingReminderEmailData) {
+  const subject =
+    data.reminder === "soon"
+      ? `Starting soon: ${data.meetingTitle}`
+      : `Tomorrow: ${data.meetingTitle}`
+
+  try {
+    const { error } = await resend.emails.send({
+      from: FROM_EMAIL,
+      to,
+      subject,
+      react: React.createElement(MeetingReminderEmail, { data }),
+      headers: unsubscribeHeaders(data.unsubscribeUrl),
+    })
+    if (error) {
+      console.error("[Email] Reminder failed:", error)
+      return { success: false, error: error.message }
+    }
+    return { success: true }
+  } catch (err) {
+    console.error("[Email] Reminder error:", err)
+    return { success: false, error: "Failed to send reminder" }
+  }
+}
+
+/**
+ * Send a daily / weekly digest of unread notifications
+ */
+export async function sendNotificationDigestEmail(to: string, data: NotificationDigestData) {
+  const subject = `Your ${data.frequency} WorldStreet Academy digest`
+
+  try {
+    const { error } = await resend.emails.send({
+      from: FROM_EMAIL,
+      to,
+      subject,
+      react: React.createElement(NotificationDigestEmail, { data }),
+      headers: unsubscribeHeaders(data.unsubscribeUrl),
+    })
+    if (error) {
+      console.error("[Email] Digest failed:", error)
+      return { success: false, error: error.message }
+    }
+    return { success: true }
+  } catch (err) {
+    console.error("[Email] Digest error:", err)
+    return { success: false, error: "Failed to send digest" }
+  }
+}
+
+/**
+ * Send the certificate earned on completing a course
+ */
+export async function sendCertificateEarnedEmail(to: string, data: CertificateEmailData) {
+  const subject = `Your certificate for ${data.courseTitle}`
+
+  try {
+    const { error } = await resend.emails.send({
+      from: FROM_EMAIL,
+      to,
+      subject,
+      react: React.createElement(CertificateEarnedEmail, { data }),
+      headers: unsubscribeHeaders(data.unsubscribeUrl),
+    })
+    if (error) {
+      console.error("[Email] Certificate failed:", error)
+      return { success: false, error: error.message }
+    }
+    return { success: true }
+  } catch (err) {
+    console.error("[Email] Certificate error:", err)
+    return { success: false, error: "Failed to send certificate" }
+  }
+}
+
+/**
+ * Tell an applicant whether their instructor application was approved.
+ * Transactional — sent regardless of notification preferences.
+ */
+export async function sendInstructorApplicationEmail(to: string, data: InstructorApplicationEmailData) {
+  const subject = data.approved
+    ? "Your instructor application was approved"
+    : "An update on your instructor application"
+
+  try {
+    const { error } = await resend.emails.send({
+      from: FROM_EMAIL,
+      to,
+      subject,
+      react: React.createElement(InstructorApplicationEmail, { data }),
+    })
+    if (error) {
+      console.error("[Email] Application decision failed:", error)
+      return { success: false, error: error.message }
+    }
+    return { success: true }
+  } catch (err) {
+    console.error("[Email] Application decision error:", err)
+    return { success: false, error: "Failed to send application decision" }
+  }
+}
+
+/**
+ * Tell a student that scheduled lessons in their course have unlocked
+ */
+export async function sendLessonsUnlockedEmail(to: string, data: LessonsUnlockedEmailData) {
+  const subject =
+    data.lessons.length === 1
+      ? `New lesson unlocked: ${data.lessons[0].title}`
+      : `${data.lessons.length} new lessons unlocked in ${data.courseTitle}`
+
+  try {
+    const { error } = await resend.emails.send({
+      from: FROM_EMAIL,
+      to,
+      subject,
+      react: React.createElement(LessonsUnlockedEmail, { data }),
+      headers: unsubscribeHeaders(data.unsubscribeUrl),
+    })
+    if (error) {
+      console.error("[Email] Lessons unlocked failed:", error)
+      return { success: false, error: error.message }
+    }
+    return { success: true }
+  } catch (err) {
+    console.error("[Email] Lessons unlocked error:", err)
+    return { success: false, error: "Failed to send lessons unlocked email" }
+  }
+}
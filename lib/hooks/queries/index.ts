@@ -7,6 +7,7 @@ export {
   useMyMeetings,
   useMeetingHistory,
   useMeetingInvites,
+  useUpcomingMeetings,
   useInstructorMeetingCourses,
   useInvalidateMeetings,
 } from "./use-meetings"
@@ -16,3 +17,10 @@ export {
   useUnreadCount,
   useInvalidateMessages,
 } from "./use-messages"
+export {
+  useNotifications,
+  useMarkNotificationRead,
+  useMarkAllNotificationsRead,
+  useDeleteNotification,
+  useClearNotifications,
+} from "./use-notifications"
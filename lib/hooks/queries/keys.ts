@@ -8,13 +8,35 @@ export const queryKeys = {
 
   // ── Courses (Instructor) ──
   instructorCourses: ["instructor-courses"] as const,
+  instructorRefunds: ["instructor-refunds"] as const,
+  instructorCoupons: ["instructor-coupons"] as const,
+  instructorAssignments: (courseId?: string) =>
+    courseId ? ["instructor-assignments", courseId] as const : ["instructor-assignments"] as const,
+
+  // ── Admin ──
+  adminOverview: ["admin-overview"] as const,
+  adminUsers: (filters?: { search: string; role: string }) =>
+    filters ? ["admin-users", filters] as const : ["admin-users"] as const,
+  adminCourses: (filters?: { status: string; search: string }) =>
+    filters ? ["admin-courses", filters] as const : ["admin-courses"] as const,
+  adminApplications: (status?: string) =>
+    status ? ["admin-applications", status] as const : ["admin-applications"] as const,
+  adminLive: ["admin-live"] as const,
+
+  // ── Review moderation (instructor + admin) ──
+  reviewModeration: (filter?: string) =>
+    filter ? ["review-moderation", filter] as const : ["review-moderation"] as const,
 
   // ── Meetings ──
   meetings: ["meetings"] as const,
   meetingHistory: ["meeting-history"] as const,
   meetingInvites: ["meeting-invites"] as const,
+  upcomingMeetings: ["upcoming-meetings"] as const,
   instructorMeetingCourses: ["instructor-meeting-courses"] as const,
 
+  // ── Notifications ──
+  notifications: ["notifications"] as const,
+
   // ── Messages ──
   conversations: ["conversations"] as const,
   messages: (conversationId: string) => ["messages", conversationId] as const,
@@ -5,10 +5,12 @@ import {
   getMyMeetings,
   getMeetingHistory,
   getMyMeetingInvites,
+  getUpcomingMeetings,
   getInstructorCoursesForMeeting,
   type MeetingWithDetails,
   type MeetingHistoryEntry,
   type MeetingInviteItem,
+  type UpcomingMeeting,
 } from "@/lib/actions/meetings"
 import { queryKeys } from "./keys"
 
@@ -47,6 +49,18 @@ export function useMeetingInvites() {
   })
 }
 
+export function useUpcomingMeetings() {
+  return useQuery<UpcomingMeeting[]>({
+    queryKey: queryKeys.upcomingMeetings,
+    queryFn: async () => {
+      const r = await getUpcomingMeetings()
+      return r.success && r.meetings ? r.meetings : []
+    },
+    staleTime: 60 * 1000,
+    refetchInterval: 60 * 1000, // poll every 60s — picks up meetings opened by others
+  })
+}
+
 export function useInstructorMeetingCourses() {
   return useQuery({
     queryKey: queryKeys.instructorMeetingCourses,
@@ -65,5 +79,6 @@ export function useInvalidateMeetings() {
     qc.invalidateQueries({ queryKey: queryKeys.meetings })
     qc.invalidateQueries({ queryKey: queryKeys.meetingHistory })
     qc.invalidateQueries({ queryKey: queryKeys.meetingInvites })
+    qc.invalidateQueries({ queryKey: queryKeys.upcomingMeetings })
   }
 }
@@ -0,0 +1,72 @@
+"use client"
+
+import { useQuery, useQueryClient, useMutation } from "@tanstack/react-query"
+import {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+  deleteNotification,
+  clearNotifications,
+  type NotificationItem,
+} from "@/lib/actions/notifications"
+import { queryKeys } from "./keys"
+
+/** No polling — new notifications arrive over Ably (see useNotificationEvents) */
+export function useNotifications(enabled = true) {
+  return useQuery<NotificationItem[]>({
+    queryKey: queryKeys.notifications,
+    queryFn: () => getNotifications(),
+    staleTime: 5 * 60 * 1000,
+    enabled,
+  })
+}
+
+/** Apply an optimistic change to the cached list, rolling back on error */
+function useOptimisticNotifications<TVariables>(
+  mutationFn: (variables: TVariables) => Promise<unknown>,
+  update: (prev: NotificationItem[], variables: TVariables) => NotificationItem[]
+) {
+  const qc = useQueryClient()
+
+  return useMutation({
+    mutationFn,
+    onMutate: async (variables: TVariables) => {
+      await qc.cancelQueries({ queryKey: queryKeys.notifications })
+      const prev = qc.getQueryData<NotificationItem[]>(queryKeys.notifications)
+      if (prev) qc.setQueryData(queryKeys.notifications, update(prev, variables))
+      return { prev }
+    },
+    onError: (_err, _variables, ctx) => {
+      if (ctx?.prev) qc.setQueryData(queryKeys.notifications, ctx.prev)
+    },
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: queryKeys.notifications })
+    },
+  })
+}
+
+export function useMarkNotificationRead() {
+  return useOptimisticNotifications(markNotificationRead, (prev, id: string) =>
+    prev.map((n) => (n.id === id ? { ...n, read: true } : n))
+  )
+}
+
+export function useMarkAllNotificationsRead() {
+  return useOptimisticNotifications<void>(
+    () => markAllNotificationsRead(),
+    (prev) => prev.map((n) => ({ ...n, read: true }))
+  )
+}
+
+export function useDeleteNotification() {
+  return useOptimisticNotifications(deleteNotification, (prev, id: string) =>
+    prev.filter((n) => n.id !== id)
+  )
+}
+
+export function useClearNotifications() {
+  return useOptimisticNotifications<void>(
+    () => clearNotifications(),
+    () => []
+  )
+}
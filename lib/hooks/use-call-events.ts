@@ -2,7 +2,12 @@
 
 import { useEffect, useRef, useState, useCallback } from "react"
 import * as Ably from "ably"
-import type { CallEventPayload, MessageEventPayload, SSEEventPayload } from "@/lib/call-events"
+import type {
+  CallEventPayload,
+  MessageEventPayload,
+  NotificationEventPayload,
+  SSEEventPayload,
+} from "@/lib/call-events"
 import { getAblyTokenAction } from "@/lib/actions/ably"
 
 type RealtimeEventHandler = (event: SSEEventPayload) => void
@@ -124,3 +129,19 @@ export function useMessageEvents(
   )
   return useSSEEvents(userId, handler)
 }
+
+// Hook for notification-only consumers
+export function useNotificationEvents(
+  userId: string | null,
+  onEvent: (event: NotificationEventPayload) => void
+) {
+  const handler = useCallback(
+    (event: SSEEventPayload) => {
+      if (event.type.startsWith("notification:")) {
+        onEvent(event as NotificationEventPayload)
+      }
+    },
+    [onEvent]
+  )
+  return useSSEEvents(userId, handler)
+}
@@ -0,0 +1,222 @@
+/**
+ * Drip scheduling — lessons that open a set number of days after a student
+ * enrolls, on a fixed date, or once a named earlier lesson is complete.
+ * A section's rules apply to every lesson in it, on top of the lesson's own.
+ *
+ * Server-side only. The learn page and the lesson actions check these before
+ * handing out lesson content; lib/lesson-unlocks.ts emails students when
+ * scheduled lessons open.
+ */
+
+import { Types } from "mongoose"
+import connectDB from "@/lib/db"
+import { Course, Enrollment, Lesson, Section, type ILesson, type ISection } from "@/lib/db/models"
+import type { LessonRelease } from "@/lib/types"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const MAX_RELEASE_AFTER_DAYS = 365
+
+type DripLesson = Pick<ILesson, "isFree" | "releaseAfterDays" | "releaseAt" | "prerequisiteLesson"> & {
+  _id: Types.ObjectId
+  section?: Types.ObjectId | null
+}
+
+type DripSection = Pick<ISection, "releaseAfterDays" | "releaseAt" | "requiresPreviousSection"> & {
+  _id: Types.ObjectId
+}
+
+export type LessonLock = {
+  /** When the schedule opens the lesson — null when only a prerequisite holds it back */
+  unlocksAt: Date | null
+  /** Earlier lesson the student still has to complete — the lesson's own
+   *  prerequisite, or the first unfinished lesson of a required section */
+  prerequisiteLessonId: string | null
+}
+
+export type StudentProgress = {
+  enrolledAt: Date
+  completedLessonIds: Set<string>
+}
+
+/** Lesson fields the lock checks need */
+export const DRIP_LESSON_FIELDS = "isFree section releaseAfterDays releaseAt prerequisiteLesson"
+
+/** Section fields the lock checks need */
+export const DRIP_SECTION_FIELDS = "releaseAfterDays releaseAt requiresPreviousSection"
+
+/**
+ * Validate the schedule part of a lesson's drip rules from the course editor.
+ * The prerequisite is resolved by the caller since it refers to editor ids.
+ */
+export function parseLessonRelease(input: unknown): {
+  releaseAfterDays: number | null
+  releaseAt: Date | null
+} {
+  const raw = (input ?? {}) as Partial<LessonRelease>
+
+  const days = Math.round(Number(raw.afterDays))
+  const releaseAfterDays =
+    raw.afterDays != null && Number.isFinite(days) && days >= 1
+      ? Math.min(days, MAX_RELEASE_AFTER_DAYS)
+      : null
+
+  const date = raw.releaseAt ? new Date(raw.releaseAt) : null
+  const releaseAt = date && !Number.isNaN(date.getTime()) ? date : null
+
+  return { releaseAfterDays, releaseAt }
+}
+
+/**
+ * Shape stored drip rules for the course editor
+ */
+export function toLessonRelease(
+  lesson: Pick<ILesson, "releaseAfterDays" | "releaseAt" | "prerequisiteLesson">
+): LessonRelease {
+  return {
+    afterDays: lesson.releaseAfterDays ?? null,
+    releaseAt: lesson.releaseAt ? new Date(lesson.releaseAt).toISOString() : null,
+    prerequisiteLessonId: lesson.prerequisiteLesson?.toString() ?? null,
+  }
+}
+
+/**
+ * When a lesson's schedule — and its section's — opens it for a student who
+ * enrolled at `enrolledAt`. With several delays and dates set, the latest
+ * wins. Null when nothing is scheduled (or the lesson is a free preview).
+ */
+export function getScheduledUnlock(
+  lesson: DripLesson,
+  enrolledAt: Date,
+  section?: DripSection | null
+): Date | null {
+  if (lesson.isFree) return null
+
+  const times: number[] = []
+  for (const rules of section ? [lesson, section] : [lesson]) {
+    if (rules.releaseAfterDays) times.push(enrolledAt.getTime() + rules.releaseAfterDays * DAY_MS)
+    if (rules.releaseAt) times.push(new Date(rules.releaseAt).getTime())
+  }
+
+  return times.length > 0 ? new Date(Math.max(...times)) : null
+}
+
+/**
+ * Work out which of a course's lessons are still locked for a student.
+ * Expects lessons and sections in course order. Open lessons are left out of
+ * the map. Free previews are never locked, and a prerequisite that's no
+ * longer in the course is ignored.
+ */
+export function getLessonLocks(
+  lessons: DripLesson[],
+  sections: DripSection[],
+  progress: StudentProgress,
+  now = new Date()
+): Map<string, LessonLock> {
+  const courseLessonIds = new Set(lessons.map((l) => l._id.toString()))
+  const sectionById = new Map(sections.map((s) => [s._id.toString(), s]))
+  const locks = new Map<string, LessonLock>()
+
+  // The lesson a student has to finish next in each section
+  const firstUnfinished = new Map<string, string>()
+  for (const lesson of lessons) {
+    const sectionId = lesson.section?.toString()
+    const lessonId = lesson._id.toString()
+    if (sectionId && !firstUnfinished.has(sectionId) && !progress.completedLessonIds.has(lessonId)) {
+      firstUnfinished.set(sectionId, lessonId)
+    }
+  }
+
+  for (const lesson of lessons) {
+    if (lesson.isFree) continue
+
+    const sectionId = lesson.section?.toString() ?? null
+    const section = sectionId ? sectionById.get(sectionId) : undefined
+
+    const scheduled = getScheduledUnlock(lesson, progress.enrolledAt, section)
+    const unlocksAt = scheduled && scheduled > now ? scheduled : null
+
+    const prerequisite = lesson.prerequisiteLesson?.toString() ?? null
+    const previousSection = section?.requiresPreviousSection
+      ? sections[sections.indexOf(section) - 1]
+      : undefined
+    const prerequisiteLessonId =
+      prerequisite &&
+      courseLessonIds.has(prerequisite) &&
+      !progress.completedLessonIds.has(prerequisite)
+        ? prerequisite
+        : previousSection
+          ? (firstUnfinished.get(previousSection._id.toString()) ?? null)
+          : null
+
+    if (unlocksAt || prerequisiteLessonId) {
+      locks.set(lesson._id.toString(), { unlocksAt, prerequisiteLessonId })
+    }
+  }
+
+  return locks
+}
+
+/**
+ * A student's enrollment date and completed lessons in a course.
+ * Someone who isn't enrolled is treated as enrolling now.
+ */
+export async function getStudentProgress(userId: string, courseId: string): Promise<StudentProgress> {
+  const enrollment = await Enrollment.findOne({ user: userId, course: courseId })
+    .select("purchasedAt createdAt completedLessons")
+    .lean()
+
+  return {
+    enrolledAt: enrollment?.purchasedAt ?? enrollment?.createdAt ?? new Date(),
+    completedLessonIds: new Set((enrollment?.completedLessons ?? []).map((id) => id.toString())),
+  }
+}
+
+/**
+ * A course's sections in order, with the fields the lock checks need
+ */
+export async function getDripSections(courseId: string) {
+  return Section.find({ course: courseId }).select(DRIP_SECTION_FIELDS).sort({ order: 1 }).lean()
+}
+
+/**
+ * Whether the drip rules apply to this user — a course's instructor and
+ * admins can always open every lesson.
+ */
+export async function isDripExempt(
+  user: { id: string; role: string },
+  courseId: string
+): Promise<boolean> {
+  if (user.role === "ADMIN") return true
+  const course = await Course.findById(courseId).select("instructor").lean()
+  return course?.instructor.toString() === user.id
+}
+
+/**
+ * The lock on a single lesson for a user, or null when they can open it.
+ * Lesson actions call this so locked content can't be fetched or submitted.
+ */
+export async function getLessonLockForUser(
+  user: { id: string; role: string },
+  lessonId: string
+): Promise<LessonLock | null> {
+  if (!Types.ObjectId.isValid(lessonId)) return null
+  await connectDB()
+
+  const lesson = await Lesson.findById(lessonId).select(`course ${DRIP_LESSON_FIELDS}`).lean()
+  if (!lesson || lesson.isFree) return null
+  if (!lesson.releaseAfterDays && !lesson.releaseAt && !lesson.prerequisiteLesson && !lesson.section) {
+    return null
+  }
+
+  const courseId = lesson.course.toString()
+  if (await isDripExempt(user, courseId)) return null
+
+  const [courseLessons, sections, progress] = await Promise.all([
+    Lesson.find({ course: courseId }).select(DRIP_LESSON_FIELDS).sort({ order: 1 }).lean(),
+    getDripSections(courseId),
+    getStudentProgress(user.id, courseId),
+  ])
+
+  return getLessonLocks(courseLessons, sections, progress).get(lessonId) ?? null
+}
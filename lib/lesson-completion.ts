@@ -0,0 +1,98 @@
+/**
+ * Lesson completion — adds a lesson to a student's enrollment and works out
+ * their progress. Quiz, assignment and package lessons only count once the
+ * student has passed, been graded or finished the package.
+ *
+ * Server-side only. Deliberately NOT a "use server" module: it trusts the
+ * user id it's given, so only code that has already worked out who earned
+ * the lesson (quiz grading, package runtimes, meeting attendance) calls it.
+ * Students go through completeLesson in lib/actions/enrollments.ts.
+ */
+
+import { revalidatePath } from "next/cache"
+import { Types } from "mongoose"
+import connectDB from "@/lib/db"
+import { Enrollment, Lesson } from "@/lib/db/models"
+import { hasPassedQuiz } from "@/lib/quiz"
+import { hasGradedSubmission } from "@/lib/assignments"
+import { hasCompletedPackage } from "@/lib/scorm"
+import { getLiveLessonProgress } from "@/lib/course-versions"
+
+export type LessonCompletionResult =
+  | { success: true; data: { progress: number; isCompleted: boolean } }
+  | { success: false; error: string }
+
+/**
+ * Mark a lesson completed for a user enrolled in its course
+ */
+export async function recordLessonCompletion(
+  userId: string,
+  courseId: string,
+  lessonId: string
+): Promise<LessonCompletionResult> {
+  await connectDB()
+
+  const enrollment = await Enrollment.findOne({
+    user: userId,
+    course: courseId,
+    status: { $in: ["active", "completed"] },
+  })
+
+  if (!enrollment) {
+    return { success: false, error: "Not enrolled in this course" }
+  }
+
+  const lesson = await Lesson.findOne({ _id: lessonId, course: courseId }).select("type")
+  if (!lesson) {
+    return { success: false, error: "Lesson not found" }
+  }
+
+  // Quiz lessons only count once the student has passed
+  if (lesson.type === "quiz" && !(await hasPassedQuiz(userId, lessonId))) {
+    return { success: false, error: "Pass the quiz to complete this lesson" }
+  }
+
+  // Assignments count once the instructor has graded the submission
+  if (lesson.type === "assignment" && !(await hasGradedSubmission(userId, lessonId))) {
+    return { success: false, error: "This assignment hasn't been graded yet" }
+  }
+
+  // Packages count once they report completion (see lib/scorm.ts)
+  if (lesson.type === "scorm" && !(await hasCompletedPackage(userId, lessonId))) {
+    return { success: false, error: "Finish the package to complete this lesson" }
+  }
+
+  // Add lesson to completed if not already
+  const lessonObjectId = new Types.ObjectId(lessonId)
+  const lessonIdStr = lessonObjectId.toString()
+  const completedIds = enrollment.completedLessons.map((id: Types.ObjectId) => id.toString())
+
+  if (!completedIds.includes(lessonIdStr)) {
+    enrollment.completedLessons.push(lessonObjectId)
+  }
+
+  enrollment.lastAccessedLesson = lessonObjectId
+  enrollment.lastAccessedAt = new Date()
+
+  // Calculate progress
+  enrollment.progress = await getLiveLessonProgress(courseId, enrollment.completedLessons)
+
+  // Check if course is completed
+  if (enrollment.progress >= 100) {
+    enrollment.status = "completed"
+    enrollment.completedAt = new Date()
+  }
+
+  await enrollment.save()
+
+  revalidatePath(`/courses/${courseId}/learn/${lessonId}`)
+  revalidatePath("/dashboard/my-courses")
+
+  return {
+    success: true,
+    data: {
+      progress: enrollment.progress,
+      isCompleted: enrollment.status === "completed",
+    },
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Unlock announcements — tells enrolled students (in-app and by email) when
+ * drip-scheduled lessons open for them.
+ * Triggered by the cron route at /api/cron/lesson-unlocks.
+ */
+
+import { Types } from "mongoose"
+import connectDB from "@/lib/db"
+import { Course, Enrollment, Lesson, Section, User } from "@/lib/db/models"
+import { sendLessonsUnlockedEmail } from "@/lib/email"
+import { notifyUser } from "@/lib/notifications"
+import { buildUnsubscribeUrl, getAppUrl, wantsNotification } from "@/lib/notification-preferences"
+import {
+  DRIP_LESSON_FIELDS,
+  getDripSections,
+  getLessonLocks,
+  getScheduledUnlock,
+} from "@/lib/lesson-access"
+
+/**
+ * Announce every scheduled lesson that opened since each enrollment was
+ * last checked. Lessons still held back by a prerequisite aren't announced —
+ * the student opens those themselves by completing the earlier lesson.
+ */
+export async function sendLessonUnlockNotifications(): Promise<{
+  sent: number
+  skipped: number
+  failed: number
+}> {
+  await connectDB()
+
+  const now = new Date()
+  const result = { sent: 0, skipped: 0, failed: 0 }
+
+  const scheduled = { $or: [{ releaseAfterDays: { $ne: null } }, { releaseAt: { $ne: null } }] }
+  const [lessonCourseIds, sectionCourseIds]: Types.ObjectId[][] = await Promise.all([
+    Lesson.distinct("course", { isPublished: true, isFree: false, ...scheduled }),
+    Section.distinct("course", scheduled),
+  ])
+  const courseIds = [
+    ...new Map([...lessonCourseIds, ...sectionCourseIds].map((id) => [id.toString(), id])).values(),
+  ]
+
+  for (const courseId of courseIds) {
+    const course = await Course.findOne({ _id: courseId, status: "published" }).select("title").lean()
+    if (!course) continue
+
+    const [lessons, sections, enrollments] = await Promise.all([
+      Lesson.find({ course: courseId, isPublished: true })
+        .select(`title order ${DRIP_LESSON_FIELDS}`)
+        .sort({ order: 1 })
+        .lean(),
+      getDripSections(courseId.toString()),
+      Enrollment.find({ course: courseId, status: { $in: ["active", "completed"] } })
+        .select("user purchasedAt createdAt completedLessons unlocksNotifiedAt")
+        .lean(),
+    ])
+
+    const sectionById = new Map(sections.map((s) => [s._id.toString(), s]))
+
+    for (const enrollment of enrollments) {
+      const enrolledAt = enrollment.purchasedAt ?? enrollment.createdAt
+      const since = enrollment.unlocksNotifiedAt ?? enrolledAt
+      const locks = getLessonLocks(
+        lessons,
+        sections,
+        {
+          enrolledAt,
+          completedLessonIds: new Set(enrollment.completedLessons.map((id) => id.toString())),
+        },
+        now
+      )
+
+      const unlocked = lessons.filter((lesson) => {
+        const section = lesson.section ? sectionById.get(lesson.section.toString()) : null
+        const opensAt = getScheduledUnlock(lesson, enrolledAt, section)
+        return opensAt && opensAt > since && opensAt <= now && !locks.has(lesson._id.toString())
+      })
+
+      if (unlocked.length === 0) {
+        result.skipped++
+        continue
+      }
+
+      const userId = enrollment.user.toString()
+      const user = await User.findById(userId).select("email firstName").lean()
+      if (!user) {
+        result.skipped++
+        continue
+      }
+
+      const appUrl = getAppUrl()
+      const lessonPath = (lessonId: Types.ObjectId) =>
+        `/dashboard/courses/${courseId.toString()}/learn/${lessonId.toString()}`
+
+      if (await wantsNotification(userId, "courseUpdates", "email")) {
+        const sent = await sendLessonsUnlockedEmail(user.email, {
+          studentName: user.firstName,
+          courseTitle: course.title,
+          lessons: unlocked.map((l) => ({ title: l.title, url: `${appUrl}${lessonPath(l._id)}` })),
+          courseUrl: `${appUrl}/dashboard/courses/${courseId.toString()}`,
+          unsubscribeUrl: buildUnsubscribeUrl(userId, "courseUpdates"),
+        })
+        // Leave the enrollment as it was so the next run retries
+        if (!sent.success) {
+          result.failed++
+          continue
+        }
+      }
+
+      await notifyUser(userId, {
+        type: "lesson_published",
+        title: unlocked.length === 1 ? "New lesson unlocked" : `${unlocked.length} new lessons unlocked`,
+        message:
+          unlocked.length === 1
+            ? `${unlocked[0].title} is now available in ${course.title}`
+            : `New lessons are now available in ${course.title}`,
+        href: lessonPath(unlocked[0]._id),
+      })
+
+      await Enrollment.updateOne({ _id: enrollment._id }, { unlocksNotifiedAt: now })
+      result.sent++
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,227 @@
+/**
+ * Meeting attendance — each time someone is admitted to a meeting a session
+ * opens on their participant entry, and it closes when they leave, are
+ * removed or the meeting ends, so rejoining adds time rather than replacing
+ * it. Course meetings get an attendance report for the instructor (with a
+ * CSV export at /api/meetings/[meetingId]/attendance) and can count toward
+ * completing one of the course's live lessons (see
+ * countAttendanceTowardLesson in lib/actions/meetings.ts).
+ */
+
+import { Types } from "mongoose"
+import connectDB from "@/lib/db"
+import { Course, Enrollment, Lesson, Meeting, User, type IMeeting, type IMeetingParticipant } from "@/lib/db/models"
+
+export type AttendanceRecord = {
+  userId: string
+  name: string
+  email: string
+  avatar: string | null
+  role: IMeetingParticipant["role"] | null // null = enrolled but never joined
+  enrolled: boolean
+  joinCount: number
+  attendedMinutes: number
+  firstJoinedAt: string | null
+  lastLeftAt: string | null
+}
+
+export type AttendanceReport = {
+  meetingId: string
+  title: string
+  status: string
+  courseId: string
+  courseTitle: string
+  startedAt: string | null
+  endedAt: string | null
+  durationMinutes: number | null
+  records: AttendanceRecord[]
+  /** The course's live lessons, which attendance can count toward */
+  liveLessons: { id: string; title: string }[]
+  attendanceLesson: { lessonId: string; minMinutes: number } | null
+}
+
+type AttendanceParticipant = Pick<IMeetingParticipant, "joinedAt" | "leftAt"> & {
+  sessions?: IMeetingParticipant["sessions"]
+}
+
+// ============================================================================
+// SESSIONS
+// ============================================================================
+
+/** Start a stretch of attendance, unless one is already open */
+export function openAttendanceSession(participant: IMeetingParticipant, at = new Date()) {
+  participant.joinedAt = at
+  participant.leftAt = undefined
+  const last = participant.sessions.at(-1)
+  if (!last || last.leftAt) participant.sessions.push({ joinedAt: at })
+}
+
+/** End the open stretch of attendance, if there is one */
+export function closeAttendanceSession(participant: IMeetingParticipant, at = new Date()) {
+  participant.leftAt = at
+  const last = participant.sessions.at(-1)
+  if (last && !last.leftAt) last.leftAt = at
+}
+
+/**
+ * Every stretch someone spent in the meeting. Participants from before
+ * sessions were kept fall back to their single join / leave.
+ */
+function getSessions(participant: AttendanceParticipant) {
+  if (participant.sessions?.length) return participant.sessions
+  return participant.joinedAt ? [{ joinedAt: participant.joinedAt, leftAt: participant.leftAt }] : []
+}
+
+/** Seconds in the meeting — sessions still open count up to `until` */
+export function attendedSeconds(participant: AttendanceParticipant, until: Date) {
+  let total = 0
+  for (const session of getSessions(participant)) {
+    const end = session.leftAt ?? until
+    total += Math.max(0, end.getTime() - session.joinedAt.getTime())
+  }
+  return Math.round(total / 1000)
+}
+
+/** Participants (other than the host) who were in the meeting for at least minMinutes */
+export function getQualifyingAttendees(
+  meeting: Pick<IMeeting, "hostId" | "endedAt" | "participants">,
+  minMinutes: number
+) {
+  const until = meeting.endedAt ?? new Date()
+  return meeting.participants
+    .filter((p) => p.userId.toString() !== meeting.hostId.toString())
+    .filter((p) => attendedSeconds(p, until) >= minMinutes * 60)
+    .map((p) => p.userId.toString())
+}
+
+// ============================================================================
+// REPORT
+// ============================================================================
+
+/**
+ * Attendance for a course meeting — everyone who joined, plus enrolled
+ * students who didn't. Null unless the viewer hosted the meeting, teaches
+ * the course or is an admin.
+ */
+export async function getAttendanceReport(
+  meetingId: string,
+  viewer: { id: string; role: string }
+): Promise<AttendanceReport | null> {
+  if (!Types.ObjectId.isValid(meetingId)) return null
+  await connectDB()
+
+  const meeting = await Meeting.findById(meetingId)
+    .select("title status hostId courseId participants startedAt endedAt attendanceLesson")
+    .lean()
+  if (!meeting?.courseId) return null
+
+  const course = await Course.findById(meeting.courseId).select("title instructor").lean()
+  if (!course) return null
+  const canView =
+    viewer.role === "ADMIN" ||
+    meeting.hostId.toString() === viewer.id ||
+    course.instructor.toString() === viewer.id
+  if (!canView) return null
+
+  const hostId = meeting.hostId.toString()
+  const attendees = meeting.participants.filter(
+    (p) => p.userId.toString() !== hostId && getSessions(p).length > 0
+  )
+  const [enrollments, liveLessons] = await Promise.all([
+    Enrollment.find({ course: course._id, status: { $in: ["active", "completed"] } })
+      .select("user")
+      .lean(),
+    Lesson.find({ course: course._id, type: "live" }).select("title").sort({ order: 1 }).lean(),
+  ])
+  const enrolledIds = new Set(enrollments.map((e) => e.user.toString()))
+  const attendeeIds = new Set(attendees.map((p) => p.userId.toString()))
+  const userIds = [...new Set([...attendeeIds, ...enrolledIds])]
+  const users = await User.find({ _id: { $in: userIds } })
+    .select("firstName lastName email avatarUrl")
+    .lean()
+  const userMap = new Map(users.map((u) => [u._id.toString(), u]))
+
+  const until = meeting.endedAt ?? new Date()
+  const describe = (userId: string) => {
+    const user = userMap.get(userId)
+    return {
+      userId,
+      name: user ? `${user.firstName} ${user.lastName}`.trim() : "Unknown",
+      email: user?.email ?? "",
+      avatar: user?.avatarUrl || null,
+      enrolled: enrolledIds.has(userId),
+    }
+  }
+
+  const records: AttendanceRecord[] = [
+    ...attendees.map((p) => {
+      const sessions = getSessions(p)
+      const last = sessions[sessions.length - 1]
+      return {
+        ...describe(p.userId.toString()),
+        role: p.role,
+        joinCount: sessions.length,
+        attendedMinutes: Math.round(attendedSeconds(p, until) / 60),
+        firstJoinedAt: sessions[0].joinedAt.toISOString(),
+        lastLeftAt: (last.leftAt ?? meeting.endedAt)?.toISOString() ?? null,
+      }
+    }),
+    ...[...enrolledIds]
+      .filter((id) => !attendeeIds.has(id) && id !== hostId)
+      .map((id) => ({
+        ...describe(id),
+        role: null,
+        joinCount: 0,
+        attendedMinutes: 0,
+        firstJoinedAt: null,
+        lastLeftAt: null,
+      })),
+  ].sort((a, b) => b.attendedMinutes - a.attendedMinutes || a.name.localeCompare(b.name))
+
+  return {
+    meetingId: meeting._id.toString(),
+    title: meeting.title,
+    status: meeting.status,
+    courseId: course._id.toString(),
+    courseTitle: course.title,
+    startedAt: meeting.startedAt?.toISOString() ?? null,
+    endedAt: meeting.endedAt?.toISOString() ?? null,
+    durationMinutes: meeting.startedAt
+      ? Math.round((until.getTime() - meeting.startedAt.getTime()) / 60000)
+      : null,
+    records,
+    liveLessons: liveLessons.map((l) => ({ id: l._id.toString(), title: l.title })),
+    attendanceLesson: meeting.attendanceLesson
+      ? {
+          lessonId: meeting.attendanceLesson.lessonId.toString(),
+          minMinutes: meeting.attendanceLesson.minMinutes,
+        }
+      : null,
+  }
+}
+
+// ============================================================================
+// CSV EXPORT
+// ============================================================================
+
+function csvCell(value: string | number | null) {
+  const text = value === null ? "" : String(value)
+  // Quote anything a spreadsheet would split on, and defuse formulas
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+export function buildAttendanceCsv(report: AttendanceReport): string {
+  const header = ["Name", "Email", "Enrolled", "Role", "Joins", "Minutes attended", "First joined", "Last left"]
+  const rows = report.records.map((r) => [
+    r.name,
+    r.email,
+    r.enrolled ? "yes" : "no",
+    r.role ?? "absent",
+    r.joinCount,
+    r.attendedMinutes,
+    r.firstJoinedAt,
+    r.lastLeftAt,
+  ])
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n"
+}
@@ -0,0 +1,87 @@
+/**
+ * Meeting recordings — hosts start and stop RealtimeKit cloud recordings
+ * from the call; once the provider reports a recording uploaded (the
+ * webhook at /api/meetings/recordings/webhook) the file is copied into R2
+ * and listed in meeting history.
+ */
+
+import { Readable } from "node:stream"
+import type { ReadableStream as NodeReadableStream } from "node:stream/web"
+import connectDB from "@/lib/db"
+import { MeetingRecording, type MeetingRecordingStatus } from "@/lib/db/models"
+import { uploadToR2 } from "@/lib/r2"
+import type { RecordingWebhookEvent } from "@/lib/realtime"
+
+const RECORDINGS_PREFIX = "worldstreet-academy/recordings"
+const DOWNLOAD_TIMEOUT_MS = 10 * 60 * 1000
+// A single R2 PUT tops out at 5GB
+const MAX_RECORDING_BYTES = 5 * 1024 * 1024 * 1024
+// Files without a Content-Length are buffered in memory first
+const MAX_UNSIZED_RECORDING_BYTES = 500 * 1024 * 1024
+
+// ============================================================================
+// INGESTION
+// ============================================================================
+
+/** Download a finished recording from the provider and store it in R2 */
+async function copyRecordingToR2(downloadUrl: string, key: string) {
+  const response = await fetch(downloadUrl, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) })
+  if (!response.ok || !response.body) {
+    throw new Error(`Downloading the recording failed (HTTP ${response.status})`)
+  }
+
+  const contentType = response.headers.get("content-type")?.split(";")[0].trim() || "video/mp4"
+  const length = Number(response.headers.get("content-length"))
+
+  if (Number.isFinite(length) && length > 0) {
+    if (length > MAX_RECORDING_BYTES) throw new Error("The recording is too large")
+    const body = Readable.fromWeb(response.body as unknown as NodeReadableStream)
+    return { url: await uploadToR2(key, body, contentType, length), size: length }
+  }
+
+  const buffer = Buffer.from(await response.arrayBuffer())
+  if (buffer.length > MAX_UNSIZED_RECORDING_BYTES) throw new Error("The recording is too large")
+  return { url: await uploadToR2(key, buffer, contentType, buffer.length), size: buffer.length }
+}
+
+/**
+ * Apply a recording webhook. Safe to receive more than once — a recording
+ * already in R2 is left alone. Throws if the file couldn't be copied, so the
+ * provider retries.
+ */
+export async function ingestMeetingRecording(event: RecordingWebhookEvent): Promise<{
+  recordingId: string | null
+  status: MeetingRecordingStatus | null
+}> {
+  await connectDB()
+
+  const recording = await MeetingRecording.findOne({ providerRecordingId: event.recordingId })
+  if (!recording) return { recordingId: null, status: null }
+  if (recording.status === "ready") {
+    return { recordingId: recording._id.toString(), status: recording.status }
+  }
+
+  // Recordings stop on their own when the meeting ends
+  recording.stoppedAt ??= new Date()
+  if (event.duration) recording.duration = Math.round(event.duration)
+
+  if (event.status === "errored" || !event.downloadUrl) {
+    recording.status = "failed"
+    recording.error = "The recording couldn't be processed"
+    await recording.save()
+    return { recordingId: recording._id.toString(), status: recording.status }
+  }
+
+  const key = `${RECORDINGS_PREFIX}/${recording.meeting.toString()}/${recording._id.toString()}.mp4`
+  const { url, size } = await copyRecordingToR2(event.downloadUrl, key)
+
+  recording.status = "ready"
+  recording.videoUrl = url
+  recording.fileSize = event.fileSize ?? size
+  recording.error = null
+  recording.duration ??=
+    Math.round((recording.stoppedAt.getTime() - recording.startedAt.getTime()) / 1000) || null
+  await recording.save()
+
+  return { recordingId: recording._id.toString(), status: recording.status }
+}
@@ -0,0 +1,306 @@
+/**
+ * Scheduled meetings — weekly series in the host's time zone, iCalendar
+ * (.ics) invites and the 24-hour / 15-minute reminders.
+ * Reminders are sent by the cron route at /api/cron/meeting-reminders.
+ */
+
+import { Types } from "mongoose"
+import connectDB from "@/lib/db"
+import {
+  Course,
+  Enrollment,
+  Meeting,
+  User,
+  type IMeeting,
+  type MeetingReminder,
+} from "@/lib/db/models"
+import { sendMeetingReminderEmail } from "@/lib/email"
+import { notifyUsers } from "@/lib/notifications"
+import { buildUnsubscribeUrl, filterRecipients, getAppUrl } from "@/lib/notification-preferences"
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Longest weekly series — a half-year term of classes */
+export const MAX_SERIES_OCCURRENCES = 26
+
+export const DEFAULT_MEETING_DURATION = 60
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+
+const REMINDERS: { kind: MeetingReminder; before: number }[] = [
+  { kind: "day", before: 24 * 60 * 60 * 1000 },
+  { kind: "soon", before: 15 * 60 * 1000 },
+]
+
+// ============================================================================
+// TIME ZONES
+// ============================================================================
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** How far `timeZone`'s wall clock is ahead of UTC at `date`, in ms */
+function timeZoneOffset(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date)
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0)
+
+  const wallClock = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second")
+  )
+  return wallClock - (date.getTime() - date.getUTCMilliseconds())
+}
+
+/**
+ * Start times of a weekly series. Every occurrence keeps the first one's
+ * local time in the host's time zone, so a 9:00 class stays at 9:00 across
+ * daylight-saving changes.
+ */
+export function getWeeklyOccurrences(firstStart: Date, count: number, timeZone: string): Date[] {
+  const firstOffset = timeZoneOffset(firstStart, timeZone)
+  return Array.from({ length: count }, (_, i) => {
+    const sameUtcTime = new Date(firstStart.getTime() + i * WEEK_MS)
+    return new Date(sameUtcTime.getTime() + firstOffset - timeZoneOffset(sameUtcTime, timeZone))
+  })
+}
+
+// ============================================================================
+// REMINDERS
+// ============================================================================
+
+/**
+ * Reminders already due when a meeting is scheduled — marked as sent so a
+ * meeting booked for later today doesn't get a "tomorrow" email right after
+ * its invite.
+ */
+export function getElapsedReminders(scheduledAt: Date, now = new Date()): MeetingReminder[] {
+  return REMINDERS.filter((r) => scheduledAt.getTime() - r.before <= now.getTime()).map((r) => r.kind)
+}
+
+/**
+ * Everyone a scheduled meeting is for: the host, direct invitees and — for
+ * course sessions — the course's enrolled students
+ */
+export async function getMeetingAudience(
+  meeting: Pick<IMeeting, "hostId" | "invites" | "courseId">
+): Promise<string[]> {
+  const ids = new Set<string>([meeting.hostId.toString()])
+  for (const invite of meeting.invites ?? []) {
+    if (invite.userId) ids.add(invite.userId.toString())
+  }
+
+  if (meeting.courseId) {
+    const enrollments = await Enrollment.find({
+      course: meeting.courseId,
+      status: { $in: ["active", "completed"] },
+    })
+      .select("user")
+      .lean()
+    for (const e of enrollments) ids.add(e.user.toString())
+  }
+
+  return [...ids]
+}
+
+/**
+ * Remind everyone about scheduled meetings starting within 24 hours and
+ * within 15 minutes. Each reminder is claimed before it's sent, so
+ * overlapping runs never send it twice — a failed email isn't retried.
+ */
+export async function sendMeetingReminders(): Promise<{
+  meetings: number
+  sent: number
+  failed: number
+}> {
+  await connectDB()
+
+  const now = new Date()
+  const result = { meetings: 0, sent: 0, failed: 0 }
+
+  const upcoming = await Meeting.find({
+    status: "scheduled",
+    scheduledAt: { $gt: now, $lte: new Date(now.getTime() + REMINDERS[0].before) },
+    remindersSent: { $ne: "soon" },
+  })
+    .select("title hostId invites courseId courseThumbnailUrl scheduledAt timeZone remindersSent")
+    .lean()
+
+  for (const meeting of upcoming) {
+    const startsIn = meeting.scheduledAt!.getTime() - now.getTime()
+    const due = REMINDERS.filter(
+      (r) => startsIn <= r.before && !meeting.remindersSent.includes(r.kind)
+    )
+    if (due.length === 0) continue
+
+    // Only the closest one — a "tomorrow" email is pointless 15 minutes out
+    const reminder = due[due.length - 1].kind
+    const claimed = await Meeting.updateOne(
+      { _id: meeting._id, status: "scheduled", remindersSent: { $ne: reminder } },
+      { $addToSet: { remindersSent: { $each: due.map((r) => r.kind) } } }
+    )
+    if (claimed.modifiedCount === 0) continue
+    result.meetings++
+
+    const meetingId = meeting._id.toString()
+    const [audience, host, course] = await Promise.all([
+      getMeetingAudience(meeting),
+      User.findById(meeting.hostId).select("firstName lastName avatarUrl").lean(),
+      meeting.courseId ? Course.findById(meeting.courseId).select("title").lean() : null,
+    ])
+    const hostName = host ? `${host.firstName} ${host.lastName}`.trim() : "Your host"
+    const meetingPath = `/dashboard/meetings?join=${meetingId}`
+
+    const emailIds = await filterRecipients(audience, "meetings", "email")
+    const recipients = await User.find({ _id: { $in: emailIds } })
+      .select("email firstName")
+      .lean()
+
+    const sends = await Promise.allSettled(
+      recipients.map((user) =>
+        sendMeetingReminderEmail(user.email, {
+          meetingTitle: meeting.title,
+          hostName,
+          hostAvatarUrl: host?.avatarUrl || undefined,
+          meetingLink: `${getAppUrl()}${meetingPath}`,
+          courseName: course?.title,
+          scheduledAt: meeting.scheduledAt!.toISOString(),
+          timeZone: meeting.timeZone,
+          recipientName: user.firstName,
+          reminder,
+          unsubscribeUrl: buildUnsubscribeUrl(user._id.toString(), "meetings"),
+        })
+      )
+    )
+    for (const send of sends) {
+      if (send.status === "fulfilled" && send.value.success) result.sent++
+      else result.failed++
+    }
+
+    await notifyUsers(audience, {
+      type: "meeting_reminder",
+      title: reminder === "soon" ? "Meeting starting soon" : "Meeting tomorrow",
+      message:
+        reminder === "soon"
+          ? `${meeting.title} starts in 15 minutes`
+          : `${meeting.title} starts in 24 hours`,
+      href: meetingPath,
+      imageUrl: meeting.courseThumbnailUrl || host?.avatarUrl || null,
+    })
+  }
+
+  return result
+}
+
+// ============================================================================
+// CALENDAR INVITES
+// ============================================================================
+
+export type CalendarEvent = {
+  /** Stable across updates so calendars replace rather than duplicate */
+  uid: string
+  start: Date
+  durationMinutes: number
+  title: string
+  description?: string
+  url: string
+}
+
+/** 20261019T090000Z */
+function icsDate(date: Date) {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+}
+
+function icsText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n")
+}
+
+/** Content lines are folded at 75 octets (RFC 5545 §3.1) */
+function foldLine(line: string) {
+  const chunks: string[] = []
+  let current = ""
+  let octets = 0
+  for (const char of line) {
+    const size = Buffer.byteLength(char)
+    // Continuation lines start with a space, which counts towards their 75
+    if (octets + size > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current)
+      current = ""
+      octets = 0
+    }
+    current += char
+    octets += size
+  }
+  chunks.push(current)
+  return chunks.join("\r\n ")
+}
+
+/** The `Meeting._id`-based UID a meeting's calendar event uses */
+export function meetingEventUid(meetingId: Types.ObjectId | string) {
+  return `meeting-${meetingId.toString()}@worldstreet.academy`
+}
+
+/**
+ * An iCalendar file with one event per meeting (a weekly series is sent as
+ * all its occurrences). Times are UTC; calendars show them in local time.
+ */
+export function buildMeetingCalendar(events: CalendarEvent[]): string {
+  const stamp = icsDate(new Date())
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//WorldStreet Academy//Meetings//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+  ]
+
+  for (const event of events) {
+    const end = new Date(event.start.getTime() + event.durationMinutes * 60 * 1000)
+    const description = [event.description, `Join: ${event.url}`].filter(Boolean).join("\n\n")
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsDate(event.start)}`,
+      `DTEND:${icsDate(end)}`,
+      `SUMMARY:${icsText(event.title)}`,
+      `DESCRIPTION:${icsText(description)}`,
+      `LOCATION:${icsText(event.url)}`,
+      `URL:${event.url}`,
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `DESCRIPTION:${icsText(event.title)}`,
+      "TRIGGER:-PT15M",
+      "END:VALARM",
+      "END:VEVENT"
+    )
+  }
+
+  lines.push("END:VCALENDAR")
+  return lines.map(foldLine).join("\r\n") + "\r\n"
+}
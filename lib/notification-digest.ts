@@ -0,0 +1,105 @@
+/**
+ * Digest emails — a periodic summary of unread in-app notifications for
+ * the categories a user switched to "digest".
+ * Triggered by the cron route at /api/cron/notification-digest.
+ */
+
+import connectDB from "@/lib/db"
+import {
+  Notification,
+  NotificationPreference,
+  User,
+  type DigestFrequency,
+  type NotificationType,
+} from "@/lib/db/models"
+import { sendNotificationDigestEmail } from "@/lib/email"
+import {
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_TYPE_CATEGORY,
+  buildUnsubscribeUrl,
+  getAppUrl,
+} from "@/lib/notification-preferences"
+
+const PERIOD_MS: Record<DigestFrequency, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+}
+
+/** Most items listed in a single digest */
+const MAX_DIGEST_ITEMS = 20
+
+/**
+ * Send digests to every user on the given schedule who has unread
+ * notifications in a digest category since their last digest.
+ */
+export async function sendNotificationDigests(
+  frequency: DigestFrequency
+): Promise<{ sent: number; skipped: number; failed: number }> {
+  await connectDB()
+
+  const now = new Date()
+  const result = { sent: 0, skipped: 0, failed: 0 }
+
+  const prefs = await NotificationPreference.find({
+    digestFrequency: frequency,
+    $or: NOTIFICATION_CATEGORIES.map((c) => ({ [`categories.${c}.digest`]: true })),
+    // Don't double-send if the cron fires early or twice
+    $and: [
+      {
+        $or: [
+          { lastDigestSentAt: null },
+          { lastDigestSentAt: { $lte: new Date(now.getTime() - PERIOD_MS[frequency] / 2) } },
+        ],
+      },
+    ],
+  }).lean()
+
+  for (const pref of prefs) {
+    const types = (Object.keys(NOTIFICATION_TYPE_CATEGORY) as NotificationType[]).filter(
+      (type) => pref.categories?.[NOTIFICATION_TYPE_CATEGORY[type]]?.digest
+    )
+    const since = pref.lastDigestSentAt ?? new Date(now.getTime() - PERIOD_MS[frequency])
+
+    const [notifications, user] = await Promise.all([
+      Notification.find({
+        user: pref.user,
+        type: { $in: types },
+        read: false,
+        createdAt: { $gt: since },
+      })
+        .sort({ createdAt: -1 })
+        .limit(MAX_DIGEST_ITEMS)
+        .lean(),
+      User.findById(pref.user).select("email firstName").lean(),
+    ])
+
+    if (!user || notifications.length === 0) {
+      result.skipped++
+      continue
+    }
+
+    const appUrl = getAppUrl()
+    const userId = pref.user.toString()
+    const sent = await sendNotificationDigestEmail(user.email, {
+      recipientName: user.firstName,
+      frequency,
+      items: notifications.map((n) => ({
+        title: n.title,
+        message: n.message,
+        href: n.href ? `${appUrl}${n.href}` : null,
+      })),
+      settingsUrl: `${appUrl}/dashboard/settings`,
+      unsubscribeUrl: buildUnsubscribeUrl(userId, "digest"),
+    })
+
+    if (!sent.success) {
+      result.failed++
+      continue
+    }
+
+    await NotificationPreference.updateOne({ _id: pref._id }, { lastDigestSentAt: now })
+    result.sent++
+  }
+
+  return result
+}
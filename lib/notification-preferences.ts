@@ -0,0 +1,206 @@
+/**
+ * Notification preferences — which categories a user wants on which channel —
+ * and signed one-click unsubscribe links for emails.
+ *
+ * Server-side only. Every sender (in-app, email, digest) checks these before
+ * delivering; users edit them through lib/actions/notification-preferences.ts.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto"
+import connectDB from "@/lib/db"
+import {
+  NotificationPreference,
+  type ChannelSettings,
+  type DigestFrequency,
+  type NotificationCategory,
+  type NotificationChannel,
+  type NotificationType,
+} from "@/lib/db/models"
+
+export const NOTIFICATION_CATEGORIES: NotificationCategory[] = [
+  "messages",
+  "meetings",
+  "courseUpdates",
+  "reviews",
+  "marketing",
+]
+
+/** Which preference category each in-app notification type belongs to */
+export const NOTIFICATION_TYPE_CATEGORY: Record<NotificationType, NotificationCategory> = {
+  lesson_published: "courseUpdates",
+  certificate_earned: "courseUpdates",
+  course_review: "reviews",
+  meeting_invite: "meetings",
+  meeting_reminder: "meetings",
+  missed_call: "messages",
+  assignment_graded: "courseUpdates",
+  course_approval: "courseUpdates",
+}
+
+export type NotificationPreferences = {
+  categories: Record<NotificationCategory, ChannelSettings>
+  digestFrequency: DigestFrequency
+}
+
+/** Used for users who have never opened their notification settings */
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  categories: {
+    messages: { inApp: true, email: false, digest: false },
+    meetings: { inApp: true, email: true, digest: false },
+    courseUpdates: { inApp: true, email: true, digest: false },
+    reviews: { inApp: true, email: true, digest: false },
+    marketing: { inApp: false, email: false, digest: false },
+  },
+  digestFrequency: "daily",
+}
+
+function withDefaults(
+  doc: { categories?: Partial<Record<NotificationCategory, Partial<ChannelSettings>>>; digestFrequency?: DigestFrequency } | null
+): NotificationPreferences {
+  const categories = {} as Record<NotificationCategory, ChannelSettings>
+  for (const category of NOTIFICATION_CATEGORIES) {
+    categories[category] = {
+      ...DEFAULT_NOTIFICATION_PREFERENCES.categories[category],
+      ...doc?.categories?.[category],
+    }
+  }
+  return {
+    categories,
+    digestFrequency: doc?.digestFrequency ?? DEFAULT_NOTIFICATION_PREFERENCES.digestFrequency,
+  }
+}
+
+/**
+ * Load a user's preferences, falling back to the defaults
+ */
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  await connectDB()
+  const doc = await NotificationPreference.findOne({ user: userId }).lean()
+  return withDefaults(doc)
+}
+
+/**
+ * Keep only the users who want `category` on `channel`
+ */
+export async function filterRecipients(
+  userIds: string[],
+  category: NotificationCategory,
+  channel: NotificationChannel
+): Promise<string[]> {
+  if (userIds.length === 0) return []
+
+  await connectDB()
+  const docs = await NotificationPreference.find({ user: { $in: userIds } }).lean()
+  const byUser = new Map(docs.map((d) => [d.user.toString(), d]))
+
+  return userIds.filter(
+    (id) => withDefaults(byUser.get(id) ?? null).categories[category][channel]
+  )
+}
+
+/**
+ * Whether a single user wants `category` on `channel`
+ */
+export async function wantsNotification(
+  userId: string,
+  category: NotificationCategory,
+  channel: NotificationChannel
+): Promise<boolean> {
+  const [allowed] = await filterRecipients([userId], category, channel)
+  return !!allowed
+}
+
+/** What an unsubscribe link turns off — one category's emails, or the whole digest */
+export type UnsubscribeScope = NotificationCategory | "digest"
+
+/**
+ * Turn email and digest off for one category, or the digest for every
+ * category (one-click unsubscribe)
+ */
+export async function unsubscribeFromEmail(userId: string, scope: UnsubscribeScope) {
+  const update: Record<string, boolean> = {}
+  if (scope === "digest") {
+    for (const category of NOTIFICATION_CATEGORIES) {
+      update[`categories.${category}.digest`] = false
+    }
+  } else {
+    update[`categories.${scope}.email`] = false
+    update[`categories.${scope}.digest`] = false
+  }
+
+  await connectDB()
+  await NotificationPreference.findOneAndUpdate(
+    { user: userId },
+    { $set: update },
+    { upsert: true, setDefaultsOnInsert: true }
+  )
+}
+
+// ── Signed unsubscribe links ──
+
+const DEV_UNSUBSCRIBE_SECRET = "dev_unsubscribe_secret_do_not_use_in_production"
+
+function getUnsubscribeSecret(): string {
+  const secret = process.env.UNSUBSCRIBE_SECRET
+  if (secret) return secret
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("[Notifications] UNSUBSCRIBE_SECRET environment variable is not set")
+  }
+  return DEV_UNSUBSCRIBE_SECRET
+}
+
+function signUnsubscribe(userId: string, scope: UnsubscribeScope): string {
+  return createHmac("sha256", getUnsubscribeSecret())
+    .update(`unsubscribe.${userId}.${scope}`)
+    .digest("hex")
+}
+
+/**
+ * Check an unsubscribe link's signature
+ */
+export function verifyUnsubscribeSignature(
+  userId: string,
+  scope: string,
+  signature: string
+): scope is UnsubscribeScope {
+  if (scope !== "digest" && !NOTIFICATION_CATEGORIES.includes(scope as NotificationCategory)) {
+    return false
+  }
+  if (!/^[0-9a-f]+$/i.test(signature)) return false
+
+  const expected = Buffer.from(signUnsubscribe(userId, scope as UnsubscribeScope), "hex")
+  const received = Buffer.from(signature, "hex")
+
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+const UNSUBSCRIBE_SCOPE_NOUNS: Record<UnsubscribeScope, string> = {
+  messages: "message",
+  meetings: "meeting",
+  courseUpdates: "course update",
+  reviews: "review",
+  marketing: "marketing",
+  digest: "digest",
+}
+
+/** "meeting emails", "digest emails"… for unsubscribe pages */
+export function describeUnsubscribeScope(scope: string | undefined): string {
+  return `${UNSUBSCRIBE_SCOPE_NOUNS[scope as UnsubscribeScope] ?? "these"} emails`
+}
+
+export function getAppUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || "https://academy.worldstreetgold.com"
+}
+
+/**
+ * Absolute one-click unsubscribe URL for an email.
+ * Doesn't expire — the link can only ever turn emails off.
+ */
+export function buildUnsubscribeUrl(userId: string, scope: UnsubscribeScope): string {
+  const params = new URLSearchParams({
+    u: userId,
+    c: scope,
+    s: signUnsubscribe(userId, scope),
+  })
+  return `${getAppUrl()}/api/notifications/unsubscribe?${params.toString()}`
+}
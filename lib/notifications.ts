@@ -0,0 +1,73 @@
+/**
+ * Server-side notification helper.
+ * Stores a notification for each recipient and pushes it live over the
+ * user's Ably channel (see lib/call-events.ts) so the bell updates instantly.
+ * Users who turned the category's in-app channel off are skipped.
+ *
+ * Deliberately NOT a "use server" module — only server code may create notifications.
+ */
+
+import connectDB from "@/lib/db"
+import { Notification, type NotificationType } from "@/lib/db/models"
+import { emitEvent } from "@/lib/call-events"
+import { filterRecipients, NOTIFICATION_TYPE_CATEGORY } from "@/lib/notification-preferences"
+
+export type NotificationInput = {
+  type: NotificationType
+  title: string
+  message?: string
+  href?: string | null
+  imageUrl?: string | null
+}
+
+/**
+ * Create a notification for one user and push it to their open tabs.
+ * Never throws — a failed notification must not break the action that caused it.
+ */
+export async function notifyUser(userId: string, input: NotificationInput): Promise<void> {
+  await notifyUsers([userId], input)
+}
+
+/**
+ * Create the same notification for several users.
+ */
+export async function notifyUsers(userIds: string[], input: NotificationInput): Promise<void> {
+  try {
+    await connectDB()
+
+    const recipients = await filterRecipients(
+      [...new Set(userIds)],
+      NOTIFICATION_TYPE_CATEGORY[input.type],
+      "inApp"
+    )
+    if (recipients.length === 0) return
+
+    const docs = await Notification.insertMany(
+      recipients.map((userId) => ({
+        user: userId,
+        type: input.type,
+        title: input.title,
+        message: input.message ?? "",
+        href: input.href ?? null,
+        imageUrl: input.imageUrl ?? null,
+      }))
+    )
+
+    await Promise.allSettled(
+      docs.map((doc) =>
+        emitEvent(doc.user.toString(), {
+          type: "notification:new",
+          notificationId: doc._id.toString(),
+          notificationType: doc.type,
+          title: doc.title,
+          message: doc.message,
+          href: doc.href,
+          imageUrl: doc.imageUrl,
+          createdAt: doc.createdAt.toISOString(),
+        })
+      )
+    )
+  } catch (error) {
+    console.error(`[Notifications] Failed to create ${input.type}:`, error)
+  }
+}
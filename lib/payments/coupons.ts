@@ -0,0 +1,206 @@
+/**
+ * Coupon validation, pricing and redemption bookkeeping.
+ * Server-side only — instructors manage coupons through lib/actions/coupons.ts.
+ */
+
+import connectDB from "@/lib/db"
+import { Coupon, CouponRedemption, CouponUse, type ICoupon, type IOrder } from "@/lib/db/models"
+import type { Types } from "mongoose"
+
+export type CouponQuote = {
+  couponId: string
+  code: string
+  originalPrice: number
+  discount: number
+  amount: number
+}
+
+export type CouponQuoteResult =
+  | { success: true; quote: CouponQuote }
+  | { success: false; error: string }
+
+export function normalizeCouponCode(code: string) {
+  return code.trim().toUpperCase()
+}
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Price after applying a coupon. Never goes below zero.
+ */
+export function calculateDiscount(
+  coupon: Pick<ICoupon, "discountType" | "discountValue">,
+  price: number
+) {
+  const raw =
+    coupon.discountType === "percent"
+      ? (price * Math.min(coupon.discountValue, 100)) / 100
+      : coupon.discountValue
+  const discount = roundMoney(Math.min(raw, price))
+  return { discount, amount: roundMoney(price - discount) }
+}
+
+/**
+ * Validate a code for a user buying a course and work out the discounted price.
+ */
+export async function quoteCoupon(opts: {
+  code: string
+  userId: string
+  course: { _id: Types.ObjectId; instructor: Types.ObjectId; price: number }
+}): Promise<CouponQuoteResult> {
+  await connectDB()
+
+  const code = normalizeCouponCode(opts.code)
+  if (!code) return { success: false, error: "Enter a coupon code" }
+
+  const coupon = await Coupon.findOne({ code })
+  if (!coupon || !coupon.isActive) {
+    return { success: false, error: "This coupon code is not valid" }
+  }
+
+  const appliesToCourse = coupon.course
+    ? coupon.course.equals(opts.course._id)
+    : coupon.instructor.equals(opts.course.instructor)
+  if (!appliesToCourse) {
+    return { success: false, error: "This coupon can't be used for this course" }
+  }
+
+  if (coupon.expiresAt && coupon.expiresAt.getTime() < Date.now()) {
+    return { success: false, error: "This coupon has expired" }
+  }
+  if (coupon.maxRedemptions !== null && coupon.redemptionCount >= coupon.maxRedemptions) {
+    return { success: false, error: "This coupon has reached its usage limit" }
+  }
+
+  const userRedemptions = await CouponRedemption.countDocuments({
+    coupon: coupon._id,
+    user: opts.userId,
+  })
+  if (userRedemptions >= coupon.maxRedemptionsPerUser) {
+    return { success: false, error: "You've already used this coupon" }
+  }
+
+  const { discount, amount } = calculateDiscount(coupon, opts.course.price)
+
+  return {
+    success: true,
+    quote: {
+      couponId: coupon._id.toString(),
+      code: coupon.code,
+      originalPrice: opts.course.price,
+      discount,
+      amount,
+    },
+  }
+}
+
+/**
+ * Take one of the user's uses of a coupon, conditional on its per-user limit.
+ * The counter starts from the uses already on record, so coupons redeemed
+ * before it existed keep their limit.
+ */
+async function claimUserCouponUse(couponId: string, userId: string, limit: number) {
+  const filter = { coupon: couponId, user: userId }
+  const claim = () =>
+    CouponUse.findOneAndUpdate({ ...filter, count: { $lt: limit } }, { $inc: { count: 1 } })
+
+  if (await claim()) return true
+  if (await CouponUse.exists(filter)) return false
+
+  const used = await CouponRedemption.countDocuments(filter)
+  if (used >= limit) return false
+  try {
+    await CouponUse.create({ ...filter, count: used + 1 })
+    return true
+  } catch (error) {
+    // A concurrent checkout created the counter first — claim against it
+    if ((error as { code?: number }).code !== 11000) throw error
+    return !!(await claim())
+  }
+}
+
+/**
+ * Take one use of a coupon for a user. Conditional on the usage limits and
+ * expiry, so concurrent checkouts can't push it past maxRedemptions or
+ * maxRedemptionsPerUser. Uses are claimed before the enrollment is granted —
+ * up front for wallet purchases, when the webhook confirms card payments.
+ */
+export async function claimCouponUse(couponId: string, userId: string): Promise<boolean> {
+  await connectDB()
+
+  const coupon = await Coupon.findById(couponId).select("maxRedemptionsPerUser")
+  if (!coupon || !(await claimUserCouponUse(couponId, userId, coupon.maxRedemptionsPerUser))) {
+    return false
+  }
+
+  const claimed = await Coupon.findOneAndUpdate(
+    {
+      _id: couponId,
+      isActive: true,
+      $and: [
+        { $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }] },
+        {
+          $or: [
+            { maxRedemptions: null },
+            { $expr: { $lt: ["$redemptionCount", "$maxRedemptions"] } },
+          ],
+        },
+      ],
+    },
+    { $inc: { redemptionCount: 1 } }
+  )
+  if (!claimed) {
+    await CouponUse.findOneAndUpdate(
+      { coupon: couponId, user: userId, count: { $gt: 0 } },
+      { $inc: { count: -1 } }
+    )
+  }
+
+  return !!claimed
+}
+
+/**
+ * Give back a use taken by claimCouponUse when the purchase didn't go through.
+ */
+export async function releaseCouponUse(couponId: string, userId: string) {
+  await connectDB()
+  await Coupon.findOneAndUpdate(
+    { _id: couponId, redemptionCount: { $gt: 0 } },
+    { $inc: { redemptionCount: -1 } }
+  )
+  await CouponUse.findOneAndUpdate(
+    { coupon: couponId, user: userId, count: { $gt: 0 } },
+    { $inc: { count: -1 } }
+  )
+}
+
+/**
+ * Record the redemption for a paid order, once its use has been taken
+ * with claimCouponUse.
+ */
+export async function recordCouponRedemption(
+  order: Pick<IOrder, "_id" | "user" | "course" | "coupon" | "originalAmount" | "discount" | "amount" | "currency">
+) {
+  if (!order.coupon) return
+
+  await connectDB()
+
+  try {
+    await CouponRedemption.create({
+      coupon: order.coupon,
+      user: order.user,
+      course: order.course,
+      order: order._id,
+      originalPrice: order.originalAmount ?? order.amount + order.discount,
+      discount: order.discount,
+      amountPaid: order.amount,
+      currency: order.currency,
+    })
+  } catch (error) {
+    // Already recorded for this order (unique order index)
+    if ((error as { code?: number }).code === 11000) return
+    throw error
+  }
+}
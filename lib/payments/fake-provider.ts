@@ -0,0 +1,65 @@
+/**
+ * Local stand-in for a hosted payment provider.
+ * Redirects the buyer to /dashboard/checkout/fake-provider, where they can
+ * approve, decline or cancel. The outcome is delivered back through the
+ * same signed webhook route a real provider would call.
+ *
+ * Never enabled in production — see getPaymentProvider().
+ */
+
+import { randomBytes } from "crypto"
+import { signWebhookPayload, verifyWebhookSignature, WEBHOOK_SIGNATURE_HEADER } from "./signature"
+import type { CheckoutSessionInput, PaymentEvent, PaymentProvider } from "./types"
+
+const DEV_WEBHOOK_SECRET = "fake-provider-dev-secret"
+
+export function getFakeWebhookSecret(): string {
+  return process.env.PAYMENT_WEBHOOK_SECRET || DEV_WEBHOOK_SECRET
+}
+
+/**
+ * Build a signed webhook request body for the fake provider, exactly as a
+ * real provider would send it.
+ */
+export function buildFakeWebhook(event: PaymentEvent): { body: string; signature: string } {
+  const body = JSON.stringify(event)
+  return { body, signature: signWebhookPayload(body, getFakeWebhookSecret()) }
+}
+
+export const fakeProvider: PaymentProvider = {
+  name: "fake",
+
+  async createCheckoutSession(input: CheckoutSessionInput) {
+    const sessionId = `fake_${randomBytes(12).toString("hex")}`
+    const origin = new URL(input.successUrl).origin
+    const checkoutUrl = new URL("/dashboard/checkout/fake-provider", origin)
+    checkoutUrl.searchParams.set("orderId", input.orderId)
+    checkoutUrl.searchParams.set("session", sessionId)
+
+    return { sessionId, checkoutUrl: checkoutUrl.toString() }
+  },
+
+  parseWebhook(rawBody: string, headers: Headers) {
+    const signature = headers.get(WEBHOOK_SIGNATURE_HEADER)
+    if (!signature || !verifyWebhookSignature(rawBody, signature, getFakeWebhookSecret())) {
+      throw new Error("Invalid webhook signature")
+    }
+
+    const payload = JSON.parse(rawBody) as Partial<PaymentEvent>
+    if (
+      !payload.orderId ||
+      !payload.sessionId ||
+      !["payment.succeeded", "payment.failed", "payment.cancelled"].includes(payload.type ?? "")
+    ) {
+      throw new Error("Malformed webhook payload")
+    }
+
+    return {
+      type: payload.type as PaymentEvent["type"],
+      orderId: payload.orderId,
+      sessionId: payload.sessionId,
+      transactionId: payload.transactionId ?? null,
+      failureReason: payload.failureReason ?? null,
+    }
+  },
+}
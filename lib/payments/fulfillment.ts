@@ -0,0 +1,230 @@
+/**
+ * Order fulfillment — the only place enrollments are created for a purchase.
+ * Server-side only. Deliberately NOT a "use server" module so none of these
+ * functions can be invoked directly from the client.
+ */
+
+import { revalidatePath } from "next/cache"
+import connectDB from "@/lib/db"
+import {
+  Course,
+  Enrollment,
+  Order,
+  User,
+  WalletTransaction,
+  type IEnrollment,
+  type IOrder,
+} from "@/lib/db/models"
+import { applyWalletEntry } from "./wallet"
+import { claimCouponUse, recordCouponRedemption, releaseCouponUse } from "./coupons"
+import type { PaymentEvent } from "./types"
+
+/**
+ * Create an enrollment and bump the course / instructor counters.
+ * Returns the existing enrollment (created: false) if the user is already
+ * enrolled, so callers that took money can refund it.
+ */
+export async function grantEnrollment(opts: {
+  userId: string
+  courseId: string
+  pricePaid: number
+  currency?: string
+  transactionId?: string | null
+}): Promise<{ enrollment: IEnrollment; created: boolean }> {
+  await connectDB()
+
+  const existing = await Enrollment.findOne({ user: opts.userId, course: opts.courseId })
+  if (existing && existing.status !== "refunded") return { enrollment: existing, created: false }
+
+  const course = await Course.findById(opts.courseId).select("instructor")
+  if (!course) {
+    throw new Error("Course not found")
+  }
+
+  const purchase = {
+    pricePaid: opts.pricePaid,
+    currency: opts.currency || "USD",
+    transactionId: opts.transactionId ?? null,
+    purchasedAt: new Date(),
+  }
+
+  let enrollment: IEnrollment
+  if (existing) {
+    // Re-purchase after a refund — reactivate the same record (unique user+course)
+    const reactivated = await Enrollment.findOneAndUpdate(
+      { _id: existing._id, status: "refunded" },
+      { ...purchase, status: "active", refundedAt: null, completedAt: null },
+      { new: true }
+    )
+    if (!reactivated) return { enrollment: existing, created: false }
+    enrollment = reactivated
+  } else {
+    try {
+      enrollment = await Enrollment.create({
+        user: opts.userId,
+        course: opts.courseId,
+        ...purchase,
+      })
+    } catch (error) {
+      // Lost a race against a concurrent enrollment (unique user+course index)
+      const raced = await Enrollment.findOne({ user: opts.userId, course: opts.courseId })
+      if (raced) return { enrollment: raced, created: false }
+      throw error
+    }
+  }
+
+  await Course.findByIdAndUpdate(opts.courseId, {
+    $inc: { enrolledCount: 1 },
+  })
+
+  await User.findByIdAndUpdate(course.instructor, {
+    $inc: {
+      "instructorProfile.totalStudents": 1,
+      "instructorProfile.totalEarnings": opts.pricePaid,
+    },
+  })
+
+  revalidatePath("/dashboard/my-courses")
+  revalidatePath(`/courses/${opts.courseId}`)
+
+  return { enrollment, created: true }
+}
+
+// How long one webhook delivery may hold an order while fulfilling it
+const FULFILLMENT_LEASE_MS = 2 * 60 * 1000
+
+/**
+ * Give an order's payment back as wallet credit. Skipped when an earlier
+ * attempt at the order already did, so a retried webhook can't pay it twice.
+ */
+async function refundOrderToWallet(order: IOrder, description: string) {
+  const refunded = await WalletTransaction.exists({ order: order._id, type: "refund" })
+  if (refunded) return
+
+  const result = await applyWalletEntry({
+    userId: order.user.toString(),
+    type: "refund",
+    amount: order.amount,
+    currency: order.currency,
+    description,
+    orderId: order._id.toString(),
+    courseId: order.course.toString(),
+  })
+  if (!result.success) throw new Error(result.error)
+}
+
+/**
+ * Enroll the buyer of a paid order, or refund them when that can't happen.
+ * Every step can run again after a failure, so a retried webhook finishes
+ * the order instead of leaving it paid without an enrollment.
+ */
+async function fulfillOrder(paid: IOrder) {
+  const userId = paid.user.toString()
+  const couponId = paid.coupon?.toString() ?? null
+
+  // Coupon uses are taken once the payment is confirmed — if parallel
+  // checkouts used it up meanwhile, don't keep the money
+  if (couponId && !paid.couponClaimed) {
+    if (!(await claimCouponUse(couponId, userId))) {
+      await refundOrderToWallet(paid, "Refund — coupon no longer available")
+      paid.status = "refunded"
+      paid.failureReason = "This coupon is no longer available"
+      paid.fulfillingSince = null
+      await paid.save()
+      return
+    }
+    paid.couponClaimed = true
+    await paid.save()
+  }
+
+  const granted = await grantEnrollment({
+    userId,
+    courseId: paid.course.toString(),
+    pricePaid: paid.amount,
+    currency: paid.currency,
+    transactionId: paid.transactionId,
+  })
+  // An earlier attempt at this order may have enrolled the buyer already
+  const created =
+    granted.created || (!!paid.transactionId && granted.enrollment.transactionId === paid.transactionId)
+
+  // Enrolled some other way in the meantime — don't keep the money
+  if (!created) {
+    if (couponId && paid.couponClaimed) {
+      paid.couponClaimed = false
+      await paid.save()
+      await releaseCouponUse(couponId, userId)
+    }
+    await refundOrderToWallet(paid, "Refund — already enrolled in this course")
+  } else {
+    await recordCouponRedemption(paid)
+  }
+
+  paid.enrollment = granted.enrollment._id
+  paid.fulfillingSince = null
+  await paid.save()
+}
+
+/**
+ * Apply a verified provider event to its order.
+ * Idempotent — providers retry webhooks, so an order that has already left
+ * the "pending" state is left untouched, unless a failed delivery left it
+ * paid without an enrollment; then the retry finishes fulfilling it.
+ */
+export async function applyPaymentEvent(
+  event: PaymentEvent
+): Promise<{ applied: boolean; status: string }> {
+  await connectDB()
+
+  const order = await Order.findById(event.orderId)
+  if (!order || order.providerSessionId !== event.sessionId) {
+    throw new Error(`Order ${event.orderId} not found for session ${event.sessionId}`)
+  }
+
+  if (event.type === "payment.succeeded") {
+    const now = new Date()
+    // Atomic pending → paid transition so a retried webhook can't enroll twice
+    let paid = await Order.findOneAndUpdate(
+      { _id: order._id, status: "pending" },
+      { status: "paid", transactionId: event.transactionId, paidAt: now, fulfillingSince: now },
+      { new: true }
+    )
+    // Resume an unfinished order once no other delivery is working on it
+    paid ??= await Order.findOneAndUpdate(
+      {
+        _id: order._id,
+        status: "paid",
+        enrollment: null,
+        fulfillingSince: { $not: { $gt: new Date(now.getTime() - FULFILLMENT_LEASE_MS) } },
+      },
+      { fulfillingSince: now },
+      { new: true }
+    )
+    if (!paid) {
+      const current = await Order.findById(order._id).select("status enrollment")
+      if (current?.status === "paid" && !current.enrollment) {
+        // Still being fulfilled — fail so the provider checks back later
+        throw new Error(`Order ${order._id} is still being fulfilled`)
+      }
+      return { applied: false, status: current?.status ?? order.status }
+    }
+
+    try {
+      await fulfillOrder(paid)
+    } catch (error) {
+      // Let the provider's retry pick the order up straight away
+      await Order.updateOne({ _id: paid._id }, { fulfillingSince: null })
+      throw error
+    }
+
+    return { applied: true, status: paid.status }
+  }
+
+  const status = event.type === "payment.failed" ? "failed" : "cancelled"
+  const updated = await Order.findOneAndUpdate(
+    { _id: order._id, status: "pending" },
+    { status, failureReason: event.failureReason }
+  )
+
+  return { applied: !!updated, status: updated ? status : order.status }
+}
@@ -0,0 +1,57 @@
+/**
+ * Payment subsystem entry point.
+ * Server-side only — pick the configured provider via PAYMENT_PROVIDER.
+ * Outside production the local fake provider is used when none is set.
+ */
+
+import { fakeProvider } from "./fake-provider"
+import type { PaymentProvider, PaymentProviderName } from "./types"
+
+export type {
+  PaymentProvider,
+  PaymentProviderName,
+  PaymentEvent,
+  PaymentEventType,
+  CheckoutSession,
+  CheckoutSessionInput,
+} from "./types"
+
+export { WEBHOOK_SIGNATURE_HEADER, signWebhookPayload, verifyWebhookSignature } from "./signature"
+export { buildFakeWebhook } from "./fake-provider"
+export { grantEnrollment, applyPaymentEvent } from "./fulfillment"
+export { applyWalletEntry, type WalletEntryResult } from "./wallet"
+export { getRefundPolicy, checkRefundPolicy, revokeEnrollment } from "./refunds"
+export {
+  normalizeCouponCode,
+  calculateDiscount,
+  quoteCoupon,
+  claimCouponUse,
+  releaseCouponUse,
+  recordCouponRedemption,
+  type CouponQuote,
+  type CouponQuoteResult,
+} from "./coupons"
+
+const providers: Record<PaymentProviderName, PaymentProvider> = {
+  fake: fakeProvider,
+}
+
+export function getPaymentProvider(): PaymentProvider {
+  const name =
+    process.env.PAYMENT_PROVIDER ||
+    (process.env.NODE_ENV === "production" ? null : "fake")
+
+  if (!name) {
+    throw new Error("[Payments] PAYMENT_PROVIDER environment variable is not set")
+  }
+
+  const provider = providers[name as PaymentProviderName]
+  if (!provider) {
+    throw new Error(`[Payments] Unsupported payment provider: ${name}`)
+  }
+  if (provider.name === "fake" && process.env.NODE_ENV === "production") {
+    throw new Error("[Payments] The fake payment provider cannot be used in production")
+  }
+
+  return provider
+}
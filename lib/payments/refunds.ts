@@ -0,0 +1,104 @@
+/**
+ * Refund policy and enrollment revocation.
+ * Server-side only — approval goes through lib/actions/refunds.ts.
+ */
+
+import { revalidatePath } from "next/cache"
+import connectDB from "@/lib/db"
+import { Certificate, Course, Enrollment, Order, User, type IEnrollment } from "@/lib/db/models"
+import { applyWalletEntry } from "./wallet"
+
+/**
+ * Refund window and progress threshold.
+ * Override with REFUND_WINDOW_DAYS / REFUND_MAX_PROGRESS.
+ */
+export function getRefundPolicy() {
+  const windowDays = Number(process.env.REFUND_WINDOW_DAYS)
+  const maxProgress = Number(process.env.REFUND_MAX_PROGRESS)
+  return {
+    /** Days after purchase a student may ask for a refund */
+    windowDays: Number.isFinite(windowDays) && windowDays > 0 ? windowDays : 14,
+    /** Highest course progress (0-100) that still qualifies */
+    maxProgress: Number.isFinite(maxProgress) && maxProgress >= 0 ? maxProgress : 30,
+  }
+}
+
+/**
+ * Check an enrollment against the refund policy.
+ * Returns null when eligible, otherwise the reason it isn't.
+ */
+export function checkRefundPolicy(
+  enrollment: Pick<IEnrollment, "status" | "pricePaid" | "purchasedAt" | "progress">
+): string | null {
+  const { windowDays, maxProgress } = getRefundPolicy()
+
+  if (enrollment.status === "refunded") return "This enrollment has already been refunded"
+  if (enrollment.pricePaid <= 0) return "Free enrollments can't be refunded"
+
+  const deadline = new Date(enrollment.purchasedAt.getTime() + windowDays * 24 * 60 * 60 * 1000)
+  if (Date.now() > deadline.getTime()) {
+    return `Refunds are only available within ${windowDays} days of purchase`
+  }
+  if (enrollment.progress > maxProgress) {
+    return `Refunds are only available before completing ${maxProgress}% of the course`
+  }
+
+  return null
+}
+
+/**
+ * Move an enrollment to "refunded", reverse the counters that enrollment
+ * bumped, mark its order refunded, revoke any certificate it earned and
+ * return the money to the wallet.
+ * Safe to call twice — only the first call changes anything.
+ */
+export async function revokeEnrollment(enrollmentId: string): Promise<boolean> {
+  await connectDB()
+
+  const enrollment = await Enrollment.findOneAndUpdate(
+    { _id: enrollmentId, status: { $ne: "refunded" } },
+    { status: "refunded", refundedAt: new Date() },
+    { new: true }
+  )
+  if (!enrollment) return false
+
+  const course = await Course.findByIdAndUpdate(enrollment.course, {
+    $inc: { enrolledCount: -1 },
+  })
+
+  if (course) {
+    await User.findByIdAndUpdate(course.instructor, {
+      $inc: {
+        "instructorProfile.totalStudents": -1,
+        "instructorProfile.totalEarnings": -enrollment.pricePaid,
+      },
+    })
+  }
+
+  await Certificate.updateOne(
+    { enrollment: enrollment._id, revokedAt: null },
+    { revokedAt: new Date() }
+  )
+
+  const order = await Order.findOneAndUpdate(
+    { enrollment: enrollment._id, status: "paid" },
+    { status: "refunded" }
+  )
+
+  if (enrollment.pricePaid > 0) {
+    await applyWalletEntry({
+      userId: enrollment.user.toString(),
+      type: "refund",
+      amount: enrollment.pricePaid,
+      currency: enrollment.currency,
+      description: `Refund — ${course?.title ?? "course"}`,
+      orderId: order?._id.toString() ?? null,
+      courseId: enrollment.course.toString(),
+    })
+  }
+
+  revalidatePath("/dashboard/my-courses")
+  revalidatePath(`/dashboard/courses/${enrollment.course.toString()}`)
+
+  return true
+}
@@ -0,0 +1,48 @@
+import { createHmac, timingSafeEqual } from "crypto"
+
+export const WEBHOOK_SIGNATURE_HEADER = "x-payment-signature"
+
+/** Reject webhooks whose timestamp is older than this (replay protection) */
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60
+
+function computeSignature(timestamp: number, rawBody: string, secret: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${rawBody}`).digest("hex")
+}
+
+/**
+ * Sign a webhook body. Header format: `t=<unix seconds>,v1=<hex hmac>`
+ */
+export function signWebhookPayload(
+  rawBody: string,
+  secret: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${computeSignature(timestamp, rawBody, secret)}`
+}
+
+/**
+ * Verify a webhook signature header against the raw request body
+ */
+export function verifyWebhookSignature(
+  rawBody: string,
+  header: string,
+  secret: string
+): boolean {
+  const parts = Object.fromEntries(
+    header.split(",").map((part) => {
+      const [key, ...rest] = part.trim().split("=")
+      return [key, rest.join("=")]
+    })
+  )
+
+  const timestamp = Number(parts.t)
+  if (!Number.isFinite(timestamp) || !parts.v1) return false
+
+  const age = Math.abs(Math.floor(Date.now() / 1000) - timestamp)
+  if (age > SIGNATURE_TOLERANCE_SECONDS) return false
+
+  const expected = Buffer.from(computeSignature(timestamp, rawBody, secret), "hex")
+  const received = Buffer.from(parts.v1, "hex")
+
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
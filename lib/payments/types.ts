@@ -0,0 +1,40 @@
+export type PaymentProviderName = "fake"
+
+export type CheckoutSessionInput = {
+  orderId: string
+  amount: number
+  currency: string
+  description: string
+  customerEmail: string
+  /** Where the provider sends the buyer after a completed payment */
+  successUrl: string
+  /** Where the provider sends the buyer if they abandon the payment */
+  cancelUrl: string
+}
+
+export type CheckoutSession = {
+  sessionId: string
+  /** Hosted payment page the buyer is redirected to */
+  checkoutUrl: string
+}
+
+export type PaymentEventType = "payment.succeeded" | "payment.failed" | "payment.cancelled"
+
+/** Provider-agnostic event produced from a verified webhook */
+export type PaymentEvent = {
+  type: PaymentEventType
+  orderId: string
+  sessionId: string
+  transactionId: string | null
+  failureReason: string | null
+}
+
+export interface PaymentProvider {
+  name: PaymentProviderName
+  createCheckoutSession(input: CheckoutSessionInput): Promise<CheckoutSession>
+  /**
+   * Verify the webhook signature and normalise the payload.
+   * Throws if the signature is missing or invalid.
+   */
+  parseWebhook(rawBody: string, headers: Headers): PaymentEvent
+}
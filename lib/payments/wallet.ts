@@ -0,0 +1,66 @@
+/**
+ * Wallet ledger — the only code that changes User.walletBalance.
+ * Server-side only. Every balance change is a single conditional $inc on the
+ * user document followed by an append-only WalletTransaction entry, so the
+ * balance can never go negative even with concurrent purchases.
+ */
+
+import { Types } from "mongoose"
+import connectDB from "@/lib/db"
+import { User, WalletTransaction, type WalletTransactionType } from "@/lib/db/models"
+
+/** Entry types that take money out of the wallet */
+const OUTGOING: WalletTransactionType[] = ["debit", "payout"]
+
+export type WalletEntryResult =
+  | { success: true; balance: number; transactionId: string }
+  | { success: false; error: string }
+
+/**
+ * Apply a ledger entry to a user's wallet.
+ * Outgoing entries fail (without writing anything) if the balance is too low.
+ */
+export async function applyWalletEntry(opts: {
+  userId: string
+  type: WalletTransactionType
+  amount: number
+  description: string
+  currency?: string
+  orderId?: string | null
+  courseId?: string | null
+}): Promise<WalletEntryResult> {
+  if (!Number.isFinite(opts.amount) || opts.amount <= 0) {
+    return { success: false, error: "Invalid amount" }
+  }
+
+  await connectDB()
+
+  const outgoing = OUTGOING.includes(opts.type)
+  const delta = outgoing ? -opts.amount : opts.amount
+
+  // Conditional update — only matches when the balance covers the debit
+  const user = await User.findOneAndUpdate(
+    outgoing
+      ? { _id: opts.userId, walletBalance: { $gte: opts.amount } }
+      : { _id: opts.userId },
+    { $inc: { walletBalance: delta } },
+    { new: true, projection: { walletBalance: 1 } }
+  )
+
+  if (!user) {
+    return { success: false, error: outgoing ? "Insufficient wallet balance" : "User not found" }
+  }
+
+  const entry = await WalletTransaction.create({
+    user: opts.userId,
+    type: opts.type,
+    amount: opts.amount,
+    currency: opts.currency || "USD",
+    balanceAfter: user.walletBalance,
+    description: opts.description,
+    order: opts.orderId ? new Types.ObjectId(opts.orderId) : null,
+    course: opts.courseId ? new Types.ObjectId(opts.courseId) : null,
+  })
+
+  return { success: true, balance: user.walletBalance, transactionId: entry._id.toString() }
+}
@@ -0,0 +1,236 @@
+/**
+ * Quiz lessons — validating what the instructor authored, grading student
+ * answers, and checking whether a student has passed.
+ *
+ * Server-side only. Answers never leave the server until a student has
+ * passed or used up their attempts (see lib/actions/quizzes.ts).
+ */
+
+import { Types } from "mongoose"
+import connectDB from "@/lib/db"
+import { QuizAttempt, type ILessonQuiz, type IQuizQuestion } from "@/lib/db/models"
+import type { LessonQuiz, QuizQuestionType } from "@/lib/types"
+
+const QUESTION_TYPES: QuizQuestionType[] = [
+  "multiple_choice",
+  "multi_select",
+  "true_false",
+  "short_answer",
+]
+
+const TRUE_FALSE_OPTIONS = ["True", "False"]
+
+export const MAX_QUIZ_QUESTIONS = 100
+
+type QuizDraft = {
+  questions: {
+    _id: Types.ObjectId
+    type: QuizQuestionType
+    prompt: string
+    options: string[]
+    correctOptions: number[]
+    acceptedAnswers: string[]
+    explanation: string | null
+    points: number
+  }[]
+  passMark: number
+  maxAttempts: number | null
+}
+
+/**
+ * Validate a quiz from the course editor / lesson manager and normalise it
+ * for storage. Question ids are kept when they're existing ObjectIds so
+ * past attempts still line up with their questions.
+ */
+export function parseQuizInput(
+  input: unknown
+): { quiz: QuizDraft; error: null } | { quiz: null; error: string } {
+  const raw = (input ?? {}) as Partial<LessonQuiz>
+  const questions = Array.isArray(raw.questions) ? raw.questions : []
+
+  if (questions.length === 0) {
+    return { quiz: null, error: "Add at least one question" }
+  }
+  if (questions.length > MAX_QUIZ_QUESTIONS) {
+    return { quiz: null, error: `A quiz can have at most ${MAX_QUIZ_QUESTIONS} questions` }
+  }
+
+  const passMark = Math.round(Number(raw.passMark ?? 70))
+  if (!Number.isFinite(passMark) || passMark < 0 || passMark > 100) {
+    return { quiz: null, error: "Pass mark must be between 0 and 100" }
+  }
+
+  let maxAttempts: number | null = null
+  if (raw.maxAttempts !== null && raw.maxAttempts !== undefined && String(raw.maxAttempts) !== "") {
+    maxAttempts = Math.floor(Number(raw.maxAttempts))
+    if (!Number.isFinite(maxAttempts) || maxAttempts < 1) {
+      return { quiz: null, error: "Max attempts must be at least 1" }
+    }
+  }
+
+  const parsed: QuizDraft["questions"] = []
+
+  for (const [i, q] of questions.entries()) {
+    const label = `Question ${i + 1}`
+    const type = q?.type
+    if (!QUESTION_TYPES.includes(type)) {
+      return { quiz: null, error: `${label}: unknown question type` }
+    }
+
+    const prompt = String(q.prompt ?? "").trim()
+    if (!prompt) {
+      return { quiz: null, error: `${label}: enter the question` }
+    }
+
+    const points = q.points === undefined ? 1 : Number(q.points)
+    if (!Number.isFinite(points) || points < 0) {
+      return { quiz: null, error: `${label}: points can't be negative` }
+    }
+
+    let options: string[] = []
+    let correctOptions: number[] = []
+    let acceptedAnswers: string[] = []
+
+    if (type === "short_answer") {
+      acceptedAnswers = (Array.isArray(q.acceptedAnswers) ? q.acceptedAnswers : [])
+        .map((a) => String(a).trim())
+        .filter(Boolean)
+      if (acceptedAnswers.length === 0) {
+        return { quiz: null, error: `${label}: add at least one accepted answer` }
+      }
+    } else {
+      options =
+        type === "true_false"
+          ? TRUE_FALSE_OPTIONS
+          : (Array.isArray(q.options) ? q.options : []).map((o) => String(o).trim())
+      if (options.length < 2 || options.some((o) => !o)) {
+        return { quiz: null, error: `${label}: add at least two options and fill them all in` }
+      }
+
+      correctOptions = [...new Set(Array.isArray(q.correctOptions) ? q.correctOptions : [])]
+        .map(Number)
+        .filter((n) => Number.isInteger(n) && n >= 0 && n < options.length)
+        .sort((a, b) => a - b)
+
+      if (type === "multi_select" ? correctOptions.length === 0 : correctOptions.length !== 1) {
+        return {
+          quiz: null,
+          error:
+            type === "multi_select"
+              ? `${label}: mark at least one correct option`
+              : `${label}: mark the correct option`,
+        }
+      }
+    }
+
+    parsed.push({
+      _id: q.id && Types.ObjectId.isValid(q.id) ? new Types.ObjectId(q.id) : new Types.ObjectId(),
+      type,
+      prompt,
+      options,
+      correctOptions,
+      acceptedAnswers,
+      explanation: q.explanation ? String(q.explanation).trim() || null : null,
+      points,
+    })
+  }
+
+  return { quiz: { questions: parsed, passMark, maxAttempts }, error: null }
+}
+
+/**
+ * Stored quiz → the editor's shape
+ */
+export function toLessonQuiz(quiz: ILessonQuiz | null | undefined): LessonQuiz | null {
+  if (!quiz) return null
+  return {
+    questions: quiz.questions.map((q) => ({
+      id: q._id.toString(),
+      type: q.type,
+      prompt: q.prompt,
+      options: q.options ?? [],
+      correctOptions: q.correctOptions ?? [],
+      acceptedAnswers: q.acceptedAnswers ?? [],
+      explanation: q.explanation ?? null,
+      points: q.points ?? 1,
+    })),
+    passMark: quiz.passMark,
+    maxAttempts: quiz.maxAttempts ?? null,
+  }
+}
+
+export type QuizAnswerInput = {
+  questionId: string
+  selectedOptions?: number[]
+  textAnswer?: string | null
+}
+
+function normaliseText(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, " ")
+}
+
+function isAnswerCorrect(question: IQuizQuestion, answer: QuizAnswerInput | undefined): boolean {
+  if (!answer) return false
+
+  if (question.type === "short_answer") {
+    const text = normaliseText(answer.textAnswer ?? "")
+    return !!text && question.acceptedAnswers.some((a) => normaliseText(a) === text)
+  }
+
+  // Choice questions are all-or-nothing: the selected set must match exactly
+  const selected = [...new Set(answer.selectedOptions ?? [])].sort((a, b) => a - b)
+  const correct = [...question.correctOptions].sort((a, b) => a - b)
+  return selected.length === correct.length && selected.every((n, i) => n === correct[i])
+}
+
+/**
+ * Score a set of answers against a quiz
+ */
+export function gradeQuiz(quiz: ILessonQuiz, answers: QuizAnswerInput[]) {
+  const byQuestion = new Map(answers.map((a) => [a.questionId, a]))
+
+  let score = 0
+  let maxScore = 0
+
+  const graded = quiz.questions.map((question) => {
+    const answer = byQuestion.get(question._id.toString())
+    const isCorrect = isAnswerCorrect(question, answer)
+    const pointsAwarded = isCorrect ? question.points : 0
+    score += pointsAwarded
+    maxScore += question.points
+
+    return {
+      question: question._id,
+      selectedOptions:
+        question.type === "short_answer"
+          ? []
+          : (answer?.selectedOptions ?? []).filter(
+              (n) => Number.isInteger(n) && n >= 0 && n < question.options.length
+            ),
+      textAnswer:
+        question.type === "short_answer" ? (answer?.textAnswer ?? "").slice(0, 500) : null,
+      isCorrect,
+      pointsAwarded,
+    }
+  })
+
+  // A quiz worth no points can't be failed
+  const percent = maxScore > 0 ? Math.round((score / maxScore) * 100) : 100
+
+  return {
+    answers: graded,
+    score,
+    maxScore,
+    percent,
+    passed: percent >= quiz.passMark,
+  }
+}
+
+/**
+ * Whether the user has a passing attempt for a quiz lesson
+ */
+export async function hasPassedQuiz(userId: string, lessonId: string): Promise<boolean> {
+  await connectDB()
+  const passed = await QuizAttempt.exists({ user: userId, lesson: lessonId, passed: true })
+  return !!passed
+}
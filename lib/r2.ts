@@ -1,4 +1,12 @@
-import { S3Client, PutObjectCommand, DeleteObjectCommand } from "@aws-sdk/client-s3"
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  ListObjectsV2Command,
+  type PutObjectCommandInput,
+} from "@aws-sdk/client-s3"
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner"
 
 // R2 Client configuration
@@ -17,7 +25,7 @@ const r2Client = new S3Client({
 export const R2_BUCKET = process.env.R2_BUCKET_NAME!
 export const R2_PUBLIC_URL = process.env.R2_PUBLIC_URL!
 
-export type UploadType = "image" | "video" | "audio"
+export type UploadType = "image" | "video" | "audio" | "document" | "package"
 
 /**
  * Generate a presigned URL for uploading a file to R2
@@ -43,6 +51,28 @@ export async function generatePresignedUploadUrl(
   return { uploadUrl, publicUrl }
 }
 
+/**
+ * Upload a file to R2 from the server (imports, copies). Streams need a
+ * known length.
+ */
+export async function uploadToR2(
+  key: string,
+  body: PutObjectCommandInput["Body"],
+  contentType: string,
+  contentLength?: number
+): Promise<string> {
+  await r2Client.send(
+    new PutObjectCommand({
+      Bucket: R2_BUCKET,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+      ContentLength: contentLength,
+    })
+  )
+  return `${R2_PUBLIC_URL}/${key}`
+}
+
 /**
  * Delete a file from R2
  */
@@ -60,6 +90,68 @@ export async function deleteFromR2(key: string): Promise<boolean> {
   }
 }
 
+/**
+ * Read a file (or a byte range of one) from R2, or null if it doesn't exist
+ */
+export async function getFromR2(key: string, range?: string) {
+  try {
+    const result = await r2Client.send(new GetObjectCommand({ Bucket: R2_BUCKET, Key: key, Range: range }))
+    if (!result.Body) return null
+    return {
+      body: result.Body,
+      contentType: result.ContentType ?? null,
+      contentLength: result.ContentLength ?? null,
+      contentRange: result.ContentRange ?? null,
+      etag: result.ETag ?? null,
+    }
+  } catch (error) {
+    if ((error as { name?: string }).name === "NoSuchKey") return null
+    throw error
+  }
+}
+
+/**
+ * Delete every file under a key prefix (an unpacked package, say)
+ */
+export async function deleteR2Prefix(prefix: string): Promise<boolean> {
+  try {
+    let continuationToken: string | undefined
+    do {
+      const listed = await r2Client.send(
+        new ListObjectsV2Command({
+          Bucket: R2_BUCKET,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        })
+      )
+      const keys = (listed.Contents ?? []).flatMap((o) => (o.Key ? [{ Key: o.Key }] : []))
+      if (keys.length > 0) {
+        await r2Client.send(
+          new DeleteObjectsCommand({ Bucket: R2_BUCKET, Delete: { Objects: keys, Quiet: true } })
+        )
+      }
+      continuationToken = listed.IsTruncated ? listed.NextContinuationToken : undefined
+    } while (continuationToken)
+    return true
+  } catch (error) {
+    console.error("R2 prefix delete error:", error)
+    return false
+  }
+}
+
+/**
+ * Whether a URL points at a file in our bucket's public domain
+ */
+export function isR2PublicUrl(url: string): boolean {
+  try {
+    const base = new URL(`${R2_PUBLIC_URL.replace(/\/+$/, "")}/`)
+    const target = new URL(url)
+    return target.origin === base.origin && target.pathname.startsWith(base.pathname)
+  } catch {
+    return false
+  }
+}
+
 /**
  * Generate a unique file key for R2
  */
@@ -70,8 +162,17 @@ export function generateFileKey(
   const timestamp = Date.now()
   const randomId = Math.random().toString(36).substring(2, 10)
   const extension = originalFilename.split(".").pop()?.toLowerCase() || 
-    (type === "image" ? "webp" : type === "video" ? "mp4" : "webm")
-  const folder = type === "image" ? "thumbnails" : type === "video" ? "videos" : "audio"
+    (type === "image" ? "webp" : type === "video" ? "mp4" : type === "document" ? "bin" : type === "package" ? "zip" : "webm")
+  const folder =
+    type === "image"
+      ? "thumbnails"
+      : type === "video"
+        ? "videos"
+        : type === "document"
+          ? "documents"
+          : type === "package"
+            ? "package-uploads"
+            : "audio"
   
   return `worldstreet-academy/${folder}/${timestamp}-${randomId}.${extension}`
 }
@@ -0,0 +1,66 @@
+/**
+ * Local stand-in for RealtimeKit cloud recording.
+ * Nothing is captured — stopping a recording sends our own webhook route a
+ * signed "uploaded" event pointing at a sample video (FAKE_RECORDING_URL),
+ * so ingestion into R2 and adding recordings to courses can be tried
+ * without a RealtimeKit account.
+ *
+ * Never enabled in production — see usesFakeRecorder() in lib/realtime.ts.
+ */
+
+import { randomBytes } from "crypto"
+import { signWebhookPayload, verifyWebhookSignature } from "@/lib/payments/signature"
+import type { RecordingWebhookEvent } from "@/lib/realtime"
+
+export const FAKE_RECORDING_SIGNATURE_HEADER = "x-fake-recording-signature"
+
+const DEV_WEBHOOK_SECRET = "fake-recorder-dev-secret"
+// A short public-domain clip, used when FAKE_RECORDING_URL isn't set
+const SAMPLE_RECORDING_URL = "https://interactive-examples.mdn.mozilla.net/media/cc0-videos/flower.mp4"
+
+function getFakeWebhookSecret(): string {
+  return process.env.REALTIME_WEBHOOK_SECRET || DEV_WEBHOOK_SECRET
+}
+
+export function startFakeRecording(): string {
+  return `fake_rec_${randomBytes(12).toString("hex")}`
+}
+
+/**
+ * Build a signed webhook request body for a stopped fake recording, exactly
+ * as the real recorder would report an upload
+ */
+export function buildFakeRecordingWebhook(
+  recordingId: string,
+  duration: number
+): { body: string; signature: string } {
+  const event: RecordingWebhookEvent = {
+    recordingId,
+    status: "uploaded",
+    downloadUrl: process.env.FAKE_RECORDING_URL || SAMPLE_RECORDING_URL,
+    duration,
+    fileSize: null,
+  }
+  const body = JSON.stringify(event)
+  return { body, signature: signWebhookPayload(body, getFakeWebhookSecret()) }
+}
+
+export function parseFakeRecordingWebhook(rawBody: string, headers: Headers): RecordingWebhookEvent {
+  const signature = headers.get(FAKE_RECORDING_SIGNATURE_HEADER)
+  if (!signature || !verifyWebhookSignature(rawBody, signature, getFakeWebhookSecret())) {
+    throw new Error("Invalid webhook signature")
+  }
+
+  const payload = JSON.parse(rawBody) as Partial<RecordingWebhookEvent>
+  if (!payload.recordingId || !["uploaded", "errored"].includes(payload.status ?? "")) {
+    throw new Error("Malformed webhook payload")
+  }
+
+  return {
+    recordingId: payload.recordingId,
+    status: payload.status as RecordingWebhookEvent["status"],
+    downloadUrl: payload.downloadUrl ?? null,
+    duration: payload.duration ?? null,
+    fileSize: payload.fileSize ?? null,
+  }
+}
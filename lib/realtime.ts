@@ -3,10 +3,18 @@
  * Server-side only — uses Dyte REST API (which powers RealtimeKit) to create meetings and add participants
  * Auth: Basic Auth with OrgId:ApiKey
  * Docs: https://developers.cloudflare.com/realtime/realtimekit/
+ *
+ * Cloud recording goes through the local fake recorder (lib/realtime-fake.ts)
+ * outside production when RealtimeKit isn't configured.
  */
 
+import { createVerify } from "crypto"
+import { parseFakeRecordingWebhook, startFakeRecording } from "@/lib/realtime-fake"
+
 const REALTIME_ORG_ID = process.env.CLOUDFLARE_REALTIME_ORG_ID!
 const REALTIME_API_KEY = process.env.CLOUDFLARE_REALTIME_API_KEY!
+// PEM public key from the RealtimeKit dashboard — webhooks are RSA-signed with it
+const REALTIME_WEBHOOK_PUBLIC_KEY = process.env.CLOUDFLARE_REALTIME_WEBHOOK_PUBLIC_KEY?.replace(/\\n/g, "\n")
 
 // RealtimeKit uses Dyte's REST API under the hood
 const BASE_URL = "https://api.dyte.io/v2"
@@ -38,6 +46,22 @@ type ParticipantResponse = {
   errors?: Array<{ message: string }>
 }
 
+type RecordingResponse = {
+  success: boolean
+  result?: { id: string; status: string }
+  data?: { id: string; status: string }
+  errors?: Array<{ message: string }>
+}
+
+/** A cloud recording that finished uploading (or failed), as reported by webhook */
+export type RecordingWebhookEvent = {
+  recordingId: string
+  status: "uploaded" | "errored"
+  downloadUrl: string | null
+  duration: number | null // seconds
+  fileSize: number | null // bytes
+}
+
 async function cfFetch<T>(path: string, options: RequestInit = {}): Promise<T> {
   const res = await fetch(`${BASE_URL}${path}`, {
     ...options,
@@ -120,3 +144,85 @@ export async function endMeeting(meetingId: string): Promise<void> {
     // Meeting may already be ended — that's ok
   }
 }
+
+/**
+ * Whether recordings go through the local fake recorder — outside
+ * production, when RealtimeKit isn't configured or
+ * REALTIME_RECORDING_PROVIDER=fake
+ */
+export function usesFakeRecorder(): boolean {
+  if (process.env.NODE_ENV === "production") return false
+  return process.env.REALTIME_RECORDING_PROVIDER === "fake" || !REALTIME_ORG_ID
+}
+
+/**
+ * Start a cloud recording of a meeting and return its recording ID
+ */
+export async function startRecording(meetingId: string): Promise<string> {
+  if (usesFakeRecorder()) return startFakeRecording()
+
+  const data = await cfFetch<RecordingResponse>("/recordings", {
+    method: "POST",
+    body: JSON.stringify({ meeting_id: meetingId }),
+  })
+
+  const recording = data.result || data.data
+  if (!recording) {
+    throw new Error(data.errors?.[0]?.message || "Failed to start recording")
+  }
+
+  return recording.id
+}
+
+/**
+ * Stop a cloud recording. The file arrives later through the recording webhook.
+ */
+export async function stopRecording(recordingId: string): Promise<void> {
+  if (usesFakeRecorder()) return
+
+  await cfFetch(`/recordings/${recordingId}`, {
+    method: "PUT",
+    body: JSON.stringify({ action: "stop" }),
+  })
+}
+
+/**
+ * Verify and read a recording webhook. Returns null for events other than a
+ * recording finishing; throws if the signature doesn't check out.
+ */
+export function parseRecordingWebhook(rawBody: string, headers: Headers): RecordingWebhookEvent | null {
+  if (usesFakeRecorder()) return parseFakeRecordingWebhook(rawBody, headers)
+
+  if (!REALTIME_WEBHOOK_PUBLIC_KEY) {
+    throw new Error("CLOUDFLARE_REALTIME_WEBHOOK_PUBLIC_KEY is not set")
+  }
+  const signature = headers.get("dyte-signature")
+  const verified =
+    !!signature &&
+    createVerify("RSA-SHA256").update(rawBody).verify(REALTIME_WEBHOOK_PUBLIC_KEY, signature, "base64")
+  if (!verified) throw new Error("Invalid webhook signature")
+
+  const payload = JSON.parse(rawBody) as {
+    event?: string
+    recording?: {
+      id?: string
+      status?: string
+      downloadUrl?: string | null
+      recordingDuration?: number | null
+      fileSize?: number | null
+    }
+  }
+  const recording = payload.recording
+  if (payload.event !== "recording.statusUpdate" || !recording?.id) return null
+
+  const status = recording.status?.toUpperCase()
+  if (status !== "UPLOADED" && status !== "ERRORED") return null
+
+  return {
+    recordingId: recording.id,
+    status: status === "UPLOADED" ? "uploaded" : "errored",
+    downloadUrl: recording.downloadUrl ?? null,
+    duration: recording.recordingDuration ?? null,
+    fileSize: recording.fileSize ?? null,
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Review helpers shared by review actions and moderation (lib/actions/reviews.ts)
+ * and the admin console (lib/actions/admin.ts).
+ *
+ * Server-side only.
+ */
+
+import mongoose from "mongoose"
+import { Course, Review } from "@/lib/db/models"
+
+/**
+ * Recalculate and update course rating aggregate.
+ * Hidden and unapproved reviews don't count.
+ */
+export async function updateCourseRating(courseId: string) {
+  const objectId = new mongoose.Types.ObjectId(courseId)
+  const stats = await Review.aggregate([
+    {
+      $match: {
+        course: objectId,
+        isApproved: true,
+        isHidden: false,
+      },
+    },
+    {
+      $group: {
+        _id: "$rating",
+        count: { $sum: 1 },
+      },
+    },
+  ])
+
+  // Build distribution
+  const distribution = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 }
+  let total = 0
+  let sum = 0
+
+  for (const stat of stats) {
+    distribution[stat._id as keyof typeof distribution] = stat.count
+    total += stat.count
+    sum += stat._id * stat.count
+  }
+
+  const average = total > 0 ? Math.round((sum / total) * 10) / 10 : 0
+
+  await Course.findByIdAndUpdate(courseId, {
+    rating: {
+      average,
+      count: total,
+      distribution,
+    },
+  })
+}
+
+/**
+ * Number of reports that automatically hides a review until a moderator looks at it.
+ * Override with REVIEW_REPORT_THRESHOLD.
+ */
+export function getReviewReportThreshold() {
+  const threshold = Number(process.env.REVIEW_REPORT_THRESHOLD)
+  return Number.isInteger(threshold) && threshold > 0 ? threshold : 3
+}
@@ -0,0 +1,56 @@
+/**
+ * Allowlist sanitiser for rich text written by students (RichTextEditor
+ * output), so it can be rendered with RichTextContent in someone else's
+ * browser. Every tag in the output is rebuilt here; anything else is escaped.
+ */
+
+const ALLOWED_TAGS = new Set([
+  "p", "br", "hr", "strong", "b", "em", "i", "u", "s", "code", "pre",
+  "blockquote", "ul", "ol", "li", "h1", "h2", "h3", "h4", "a", "span",
+])
+
+const VOID_TAGS = new Set(["br", "hr"])
+
+const DROP_WITH_CONTENT = /<(script|style|iframe|object|embed|noscript|template|textarea|title)\b[\s\S]*?<\/\1\s*>/gi
+
+const TAG = /<!--[\s\S]*?-->|<\/?([a-zA-Z][a-zA-Z0-9]*)\b[^>]*>/g
+
+function escapeText(text: string): string {
+  return text.replace(/</g, "&lt;").replace(/>/g, "&gt;")
+}
+
+function safeHref(tag: string): string | null {
+  const match = tag.match(/\shref\s*=\s*("([^"]*)"|'([^']*)'|([^\s>]+))/i)
+  const href = (match?.[2] ?? match?.[3] ?? match?.[4] ?? "").trim()
+  if (!/^(https?:|mailto:)/i.test(href)) return null
+  return href.replace(/"/g, "&quot;")
+}
+
+export function sanitizeRichText(html: string): string {
+  const input = html.replace(DROP_WITH_CONTENT, "")
+  let output = ""
+  let last = 0
+
+  for (const match of input.matchAll(TAG)) {
+    output += escapeText(input.slice(last, match.index))
+    last = match.index + match[0].length
+
+    const name = match[1]?.toLowerCase()
+    if (!name || !ALLOWED_TAGS.has(name)) continue
+
+    if (match[0].startsWith("</")) {
+      if (!VOID_TAGS.has(name)) output += `</${name}>`
+      continue
+    }
+
+    if (name === "a") {
+      const href = safeHref(match[0])
+      output += href ? `<a href="${href}" target="_blank" rel="noopener noreferrer nofollow">` : "<a>"
+    } else {
+      output += `<${name}>`
+    }
+  }
+
+  output += escapeText(input.slice(last))
+  return output
+}
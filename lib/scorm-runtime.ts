@@ -0,0 +1,282 @@
+/**
+ * The SCORM runtime API (window.API / API_1484_11) a package page talks to.
+ *
+ * Packages run in a sandboxed frame on another origin, so they can't reach
+ * an API on the player's window. Instead app/api/packages injects this
+ * runtime into every HTML page it serves: it answers the package's calls
+ * synchronously from the page's own copy of the data model, and reports
+ * what the package sets, commits and finishes to the player
+ * (components/learn/scorm-player.tsx) with postMessage. The player saves it.
+ *
+ * No imports — the player shares the message types, and installScormRuntime
+ * is serialized into the page as it is.
+ */
+
+export const SCORM_RUNTIME_MESSAGE = "worldstreet:scorm-runtime"
+
+/** Package page → player */
+export type ScormRuntimeEvent =
+  | { source: typeof SCORM_RUNTIME_MESSAGE; type: "ready" }
+  | { source: typeof SCORM_RUNTIME_MESSAGE; type: "initialize" }
+  | { source: typeof SCORM_RUNTIME_MESSAGE; type: "set"; element: string; value: string }
+  | { source: typeof SCORM_RUNTIME_MESSAGE; type: "commit" }
+  | { source: typeof SCORM_RUNTIME_MESSAGE; type: "finish" }
+
+/** Player → package page: the values set so far this session, for pages loaded mid-session */
+export type ScormRuntimeState = {
+  source: typeof SCORM_RUNTIME_MESSAGE
+  type: "state"
+  values: Record<string, string>
+}
+
+type ScormRuntimeConfig = {
+  standard: "scorm12" | "scorm2004"
+  values: Record<string, string>
+  message: string
+  playerOrigin: string
+  readOnly: string[]
+  children: Record<string, string>
+  codes: (typeof ERRORS)["scorm12"]
+  errorStrings: Record<string, string>
+}
+
+// Mirrors the server's list — the package may read these but not write them
+const READ_ONLY = [
+  "cmi.core.student_id",
+  "cmi.core.student_name",
+  "cmi.core.credit",
+  "cmi.core.entry",
+  "cmi.core.total_time",
+  "cmi.core.lesson_mode",
+  "cmi.launch_data",
+  "cmi.student_data.mastery_score",
+  "cmi.learner_id",
+  "cmi.learner_name",
+  "cmi.credit",
+  "cmi.entry",
+  "cmi.total_time",
+  "cmi.mode",
+  "cmi.scaled_passing_score",
+  "cmi.completion_threshold",
+]
+
+const CHILDREN: Record<string, string> = {
+  "cmi.core._children":
+    "student_id,student_name,lesson_location,credit,lesson_status,entry,score,total_time,lesson_mode,exit,session_time",
+  "cmi.core.score._children": "raw,min,max",
+  "cmi.score._children": "scaled,raw,min,max",
+  "cmi.interactions._children":
+    "id,type,objectives,timestamp,correct_responses,weighting,learner_response,result,latency,description",
+  "cmi.objectives._children": "id,score,success_status,completion_status,progress_measure,description",
+}
+
+// Error codes differ between the two SCORM versions
+const ERRORS = {
+  scorm12: {
+    none: "0",
+    general: "101",
+    notInitialized: "301",
+    readOnly: "403",
+    writeOnly: "404",
+    invalid: "201",
+    alreadyInitialized: "101",
+    terminated: "101",
+    terminateBeforeInit: "301",
+    getBeforeInit: "301",
+    setBeforeInit: "301",
+    commitBeforeInit: "301",
+    notSet: "0",
+  },
+  scorm2004: {
+    none: "0",
+    general: "101",
+    notInitialized: "122",
+    readOnly: "404",
+    writeOnly: "405",
+    invalid: "401",
+    alreadyInitialized: "103",
+    terminated: "104",
+    terminateBeforeInit: "112",
+    getBeforeInit: "122",
+    setBeforeInit: "132",
+    commitBeforeInit: "142",
+    // SCORM 2004 reports elements nothing has set yet; 1.2 reads them as empty
+    notSet: "403",
+  },
+}
+
+const ERROR_STRINGS: Record<"scorm12" | "scorm2004", Record<string, string>> = {
+  scorm12: {
+    "0": "No error",
+    "101": "General exception",
+    "201": "Invalid argument error",
+    "301": "Not initialized",
+    "401": "Not implemented error",
+    "403": "Element is read only",
+    "404": "Element is write only",
+  },
+  scorm2004: {
+    "0": "No error",
+    "101": "General exception",
+    "103": "Already initialized",
+    "104": "Content instance terminated",
+    "112": "Termination before initialization",
+    "122": "Retrieve data before initialization",
+    "132": "Store data before initialization",
+    "142": "Commit before initialization",
+    "401": "Undefined data model element",
+    "403": "Data model element value not initialized",
+    "404": "Data model element is read only",
+    "405": "Data model element is write only",
+  },
+}
+
+/**
+ * Runs inside the package page — self-contained, since only its source
+ * reaches the page
+ */
+function installScormRuntime(config: ScormRuntimeConfig) {
+  const values = config.values
+  const codes = config.codes
+  // What this page set — a late state message from the player mustn't undo it
+  const touched: Record<string, boolean> = {}
+  let phase = "idle"
+  let lastError = "0"
+
+  function post(type: string, extra?: Record<string, string>) {
+    window.parent.postMessage(Object.assign({ source: config.message, type: type }, extra), config.playerOrigin)
+  }
+
+  function fail(code: string, result?: string) {
+    lastError = code
+    return result === undefined ? "false" : result
+  }
+
+  /** How many entries a collection (cmi.interactions, cmi.objectives…) holds */
+  function countEntries(collection: string) {
+    let count = 0
+    for (const key of Object.keys(values)) {
+      if (key.indexOf(collection + ".") !== 0) continue
+      const index = Number(key.slice(collection.length + 1).split(".")[0])
+      if (Number.isInteger(index)) count = Math.max(count, index + 1)
+    }
+    return count
+  }
+
+  function initialize() {
+    if (phase === "running") return fail(codes.alreadyInitialized)
+    if (phase === "finished") return fail(codes.terminated)
+    phase = "running"
+    post("initialize")
+    return fail(codes.none, "true")
+  }
+
+  function finish() {
+    if (phase !== "running") return fail(codes.terminateBeforeInit)
+    phase = "finished"
+    post("finish")
+    return fail(codes.none, "true")
+  }
+
+  function getValue(element: string) {
+    if (phase !== "running") return fail(codes.getBeforeInit, "")
+    if (typeof element !== "string" || !element) return fail(codes.invalid, "")
+    if (Object.prototype.hasOwnProperty.call(config.children, element)) {
+      return fail(codes.none, config.children[element])
+    }
+    if (/\._count$/.test(element)) return fail(codes.none, String(countEntries(element.slice(0, -7))))
+    if (/(^|\.)(exit|session_time)$/.test(element)) return fail(codes.writeOnly, "")
+    if (Object.prototype.hasOwnProperty.call(values, element)) return fail(codes.none, values[element])
+    return fail(codes.notSet, "")
+  }
+
+  function setValue(element: string, value: unknown) {
+    if (phase !== "running") return fail(codes.setBeforeInit)
+    if (typeof element !== "string") return fail(codes.invalid)
+    // Navigation requests (adl.nav.*) have nowhere to go in a single-package lesson
+    if (element.indexOf("adl.") === 0) return fail(codes.none, "true")
+    if (element.indexOf("cmi.") !== 0) return fail(codes.invalid)
+    if (config.readOnly.indexOf(element) !== -1 || /\.(_count|_children)$/.test(element)) {
+      return fail(codes.readOnly)
+    }
+    const text = value === null || value === undefined ? "" : String(value)
+    values[element] = text
+    touched[element] = true
+    post("set", { element: element, value: text })
+    return fail(codes.none, "true")
+  }
+
+  function commit() {
+    if (phase !== "running") return fail(codes.commitBeforeInit)
+    post("commit")
+    return fail(codes.none, "true")
+  }
+
+  function getLastError() {
+    return lastError
+  }
+  function getErrorString(code: string) {
+    return config.errorStrings[String(code)] || ""
+  }
+  function getDiagnostic(code: string) {
+    return config.errorStrings[String(code || lastError)] || ""
+  }
+
+  const target = window as unknown as Record<string, unknown>
+  if (config.standard === "scorm12") {
+    target.API = {
+      LMSInitialize: initialize,
+      LMSFinish: finish,
+      LMSGetValue: getValue,
+      LMSSetValue: setValue,
+      LMSCommit: commit,
+      LMSGetLastError: getLastError,
+      LMSGetErrorString: getErrorString,
+      LMSGetDiagnostic: getDiagnostic,
+    }
+  } else {
+    target.API_1484_11 = {
+      Initialize: initialize,
+      Terminate: finish,
+      GetValue: getValue,
+      SetValue: setValue,
+      Commit: commit,
+      GetLastError: getLastError,
+      GetErrorString: getErrorString,
+      GetDiagnostic: getDiagnostic,
+    }
+  }
+
+  window.addEventListener("message", function (event) {
+    const data = event.data
+    if (event.source !== window.parent || !data || data.source !== config.message || data.type !== "state") return
+    for (const key of Object.keys(data.values)) {
+      if (!touched[key]) values[key] = String(data.values[key])
+    }
+  })
+  post("ready")
+}
+
+/**
+ * The <script> that installs the runtime in a package page, starting from
+ * `values` and reporting to the player at `playerOrigin`
+ */
+export function buildScormRuntimeScript(
+  standard: "scorm12" | "scorm2004",
+  values: Record<string, string>,
+  playerOrigin: string
+): string {
+  const config: ScormRuntimeConfig = {
+    standard,
+    values,
+    message: SCORM_RUNTIME_MESSAGE,
+    playerOrigin,
+    readOnly: READ_ONLY,
+    children: CHILDREN,
+    codes: ERRORS[standard],
+    errorStrings: ERROR_STRINGS[standard],
+  }
+  // Nothing in the data model may close the script tag
+  const json = JSON.stringify(config).replace(/</g, "\\u003c")
+  return `<script>(${installScormRuntime.toString()})(${json})</script>`
+}
@@ -0,0 +1,916 @@
+/**
+ * SCORM 1.2 / 2004 and xAPI (Tin Can) package lessons — unpacking an
+ * uploaded zip to R2, reading its manifest, and turning what a package
+ * reports at runtime into lesson completion and a score.
+ *
+ * Server-side only. Package scripts are untrusted, so app/api/packages
+ * serves their files from a separate, cookieless origin (PACKAGES_ORIGIN)
+ * under a signed launch token, sandboxed away from the app. SCORM packages
+ * reach the player through the runtime in lib/scorm-runtime.ts;
+ * lib/actions/scorm.ts (SCORM) and app/api/xapi (xAPI) save progress
+ * through recordScormProgress.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "crypto"
+import { Types } from "mongoose"
+import { strFromU8, unzipSync, type UnzipFileInfo } from "fflate"
+import connectDB from "@/lib/db"
+import {
+  Course,
+  CourseVersion,
+  Enrollment,
+  Lesson,
+  ScormAttempt,
+  User,
+  type ILessonScorm,
+  type IScormAttempt,
+  type IScormCmiValue,
+  type ScormStandard,
+} from "@/lib/db/models"
+import { deleteFromR2, deleteR2Prefix, getFromR2, uploadToR2 } from "@/lib/r2"
+import { getLessonLockForUser } from "@/lib/lesson-access"
+import type { LessonScorm } from "@/lib/types"
+
+const PACKAGE_PREFIX = "worldstreet-academy/packages"
+const UPLOAD_PREFIX = "worldstreet-academy/package-uploads/"
+
+export const MAX_PACKAGE_BYTES = 250 * 1024 * 1024 // the uploaded zip
+const MAX_UNPACKED_BYTES = 1024 * 1024 * 1024
+const MAX_PACKAGE_FILES = 5000
+// Files are inflated a batch at a time so a large package never sits in memory whole
+const UNPACK_BATCH_BYTES = 32 * 1024 * 1024
+const UPLOAD_CONCURRENCY = 8
+
+const STANDARDS: ScormStandard[] = ["scorm12", "scorm2004", "xapi"]
+
+// Launch tokens outlive a long session; rounding the expiry keeps file URLs
+// (and so the browser cache) stable across launches within the hour
+const LAUNCH_TOKEN_TTL_SECONDS = 12 * 60 * 60
+const LAUNCH_TOKEN_ROUNDING_SECONDS = 60 * 60
+const DEV_PACKAGE_TOKEN_SECRET = "dev_package_token_secret_do_not_use_in_production"
+
+const CONTENT_TYPES: Record<string, string> = {
+  html: "text/html; charset=utf-8",
+  htm: "text/html; charset=utf-8",
+  js: "text/javascript; charset=utf-8",
+  mjs: "text/javascript; charset=utf-8",
+  css: "text/css; charset=utf-8",
+  json: "application/json",
+  xml: "application/xml",
+  xsd: "application/xml",
+  txt: "text/plain; charset=utf-8",
+  vtt: "text/vtt",
+  svg: "image/svg+xml",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  ico: "image/x-icon",
+  mp4: "video/mp4",
+  webm: "video/webm",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+  m4a: "audio/mp4",
+  woff: "font/woff",
+  woff2: "font/woff2",
+  ttf: "font/ttf",
+  otf: "font/otf",
+  eot: "application/vnd.ms-fontobject",
+  pdf: "application/pdf",
+  swf: "application/x-shockwave-flash",
+}
+
+// The package can read these but not write them
+const READ_ONLY_CMI = new Set([
+  "cmi.core.student_id",
+  "cmi.core.student_name",
+  "cmi.core.credit",
+  "cmi.core.entry",
+  "cmi.core.total_time",
+  "cmi.core.lesson_mode",
+  "cmi.launch_data",
+  "cmi.student_data.mastery_score",
+  "cmi.learner_id",
+  "cmi.learner_name",
+  "cmi.credit",
+  "cmi.entry",
+  "cmi.total_time",
+  "cmi.mode",
+  "cmi.scaled_passing_score",
+  "cmi.completion_threshold",
+])
+
+const MAX_CMI_KEYS = 1000
+const MAX_SUSPEND_DATA = 64000
+const MAX_CMI_VALUE = 4096
+
+type UnpackResult = { scorm: ILessonScorm; error: null } | { scorm: null; error: string }
+
+type ManifestInfo = Pick<ILessonScorm, "standard" | "launchPath" | "title" | "activityId" | "masteryScore">
+
+export type ScormOutcome = Pick<
+  IScormAttempt,
+  "completionStatus" | "successStatus" | "scoreScaled" | "scoreRaw"
+>
+
+// ============================================================================
+// PACKAGE FILES
+// ============================================================================
+
+/** R2 key of a file inside an unpacked package */
+export function packageFileKey(packageId: string, path: string) {
+  return `${PACKAGE_PREFIX}/${packageId}/${path}`
+}
+
+/**
+ * The origin package files are served from. It must reach this app but
+ * share no cookies with it — ideally a separate domain. Unset in
+ * development, packages load from the app's own origin (still sandboxed).
+ */
+export function getPackagesOrigin(): string | null {
+  const origin = process.env.PACKAGES_ORIGIN
+  if (origin) return new URL(origin).origin
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("[SCORM] PACKAGES_ORIGIN environment variable is not set")
+  }
+  return null
+}
+
+/** Where the player loads a package file from — the packages origin, not R2's */
+export function packageFileUrl(packageId: string, token: string, path: string) {
+  const [file, query] = splitQuery(path)
+  const encoded = file.split("/").map(encodeURIComponent).join("/")
+  return `${getPackagesOrigin() ?? ""}/api/packages/${packageId}/${token}/${encoded}${query}`
+}
+
+/** Remove an unpacked package from R2 */
+export async function deletePackageFiles(packageId: string) {
+  return deleteR2Prefix(`${PACKAGE_PREFIX}/${packageId}/`)
+}
+
+export function contentTypeFor(path: string) {
+  const ext = path.split(".").pop()?.toLowerCase() ?? ""
+  return CONTENT_TYPES[ext] ?? "application/octet-stream"
+}
+
+function splitQuery(path: string): [string, string] {
+  const idx = path.search(/[?#]/)
+  return idx === -1 ? [path, ""] : [path.slice(0, idx), path.slice(idx)]
+}
+
+/** A zip entry's path, or null for directories, Mac metadata and anything escaping the root */
+function safeEntryPath(name: string): string | null {
+  const path = name.replace(/\\/g, "/")
+  if (path.endsWith("/") || path.startsWith("/") || path.startsWith("__MACOSX/")) return null
+  const parts = path.split("/")
+  if (parts.some((p) => p === ".." || p === "." || p === "")) return null
+  return path
+}
+
+/** Resolve `./` and `../` in a manifest href against the package root */
+function normalizeHref(href: string): string | null {
+  const [file, query] = splitQuery(href.trim())
+  if (!file || /^[a-z][a-z0-9+.-]*:/i.test(file) || file.startsWith("/")) return null
+  const parts: string[] = []
+  for (const part of file.replace(/\\/g, "/").split("/")) {
+    if (part === "" || part === ".") continue
+    if (part === "..") {
+      if (parts.length === 0) return null
+      parts.pop()
+    } else {
+      parts.push(part)
+    }
+  }
+  return parts.length > 0 ? parts.join("/") + query : null
+}
+
+// ============================================================================
+// MANIFESTS
+// ============================================================================
+
+function decodeXml(text: string) {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCharCode(Number(n)))
+    .replace(/&amp;/g, "&")
+    .trim()
+}
+
+/** An attribute from an opening tag; names match case-insensitively (scormType / scormtype) */
+function xmlAttr(tag: string, name: string): string | null {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  const match = tag.match(new RegExp(`\\s${escaped}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, "i"))
+  return match ? decodeXml(match[1] ?? match[2] ?? "") : null
+}
+
+function xmlText(xml: string, tag: string): string | null {
+  const escaped = tag.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  const match = xml.match(new RegExp(`<${escaped}(?:\\s[^>]*)?>([\\s\\S]*?)</${escaped}>`, "i"))
+  return match ? decodeXml(match[1]) || null : null
+}
+
+/** Opening tags of an element, e.g. every <resource ...> */
+function openingTags(xml: string, tag: string): string[] {
+  return xml.match(new RegExp(`<${tag}\\b[^>]*>`, "gi")) ?? []
+}
+
+/**
+ * Read a SCORM imsmanifest.xml — its version, title and the first SCO of
+ * the default organization, which is where the package starts
+ */
+function parseImsManifest(xml: string): ManifestInfo | null {
+  xml = xml.replace(/<!--[\s\S]*?-->/g, "")
+
+  const schemaVersion = xmlText(xml, "schemaversion") ?? ""
+  const standard: ScormStandard =
+    /1\.2/.test(schemaVersion) || /adlcp_rootv1p2/i.test(xml)
+      ? "scorm12"
+      : /CAM 1\.3|2004/i.test(schemaVersion) || /adlcp_v1p3/i.test(xml)
+        ? "scorm2004"
+        : "scorm12"
+
+  const manifestBase = xmlAttr(openingTags(xml, "manifest")[0] ?? "", "xml:base") ?? ""
+  const resourcesBase = xmlAttr(openingTags(xml, "resources")[0] ?? "", "xml:base") ?? ""
+  const resources = openingTags(xml, "resource").map((tag) => ({
+    identifier: xmlAttr(tag, "identifier"),
+    href: xmlAttr(tag, "href"),
+    base: xmlAttr(tag, "xml:base") ?? "",
+    isSco: (xmlAttr(tag, "adlcp:scormtype") ?? "").toLowerCase() === "sco",
+  }))
+
+  // The default organization, else the first
+  const defaultOrg = xmlAttr(openingTags(xml, "organizations")[0] ?? "", "default")
+  const organizations = xml.match(/<organization\b[^>]*>[\s\S]*?<\/organization>/gi) ?? []
+  const organization =
+    organizations.find((o) => defaultOrg && xmlAttr(o.match(/^<[^>]*>/)?.[0] ?? "", "identifier") === defaultOrg) ??
+    organizations[0] ??
+    ""
+
+  let launch: { href: string; base: string; parameters: string } | null = null
+  for (const item of openingTags(organization, "item")) {
+    const ref = xmlAttr(item, "identifierref")
+    const resource = ref ? resources.find((r) => r.identifier === ref && r.href) : undefined
+    if (resource?.href) {
+      launch = { href: resource.href, base: resource.base, parameters: xmlAttr(item, "parameters") ?? "" }
+      break
+    }
+  }
+  if (!launch) {
+    const resource = resources.find((r) => r.isSco && r.href) ?? resources.find((r) => r.href)
+    if (resource?.href) launch = { href: resource.href, base: resource.base, parameters: "" }
+  }
+  if (!launch) return null
+
+  let launchPath = normalizeHref(manifestBase + resourcesBase + launch.base + launch.href)
+  if (!launchPath) return null
+  if (launch.parameters) {
+    const params = launch.parameters.replace(/^[?&]/, "")
+    launchPath += (launchPath.includes("?") ? "&" : "?") + params
+  }
+
+  const mastery = Number(xmlText(organization, "adlcp:masteryscore"))
+
+  return {
+    standard,
+    launchPath,
+    title: (organization && xmlText(organization, "title")) || null,
+    activityId: null,
+    masteryScore: standard === "scorm12" && Number.isFinite(mastery) && mastery > 0 ? mastery : null,
+  }
+}
+
+/** Read an xAPI tincan.xml — the course activity and where it launches */
+function parseTincanXml(xml: string): ManifestInfo | null {
+  xml = xml.replace(/<!--[\s\S]*?-->/g, "")
+  const activities = xml.match(/<activity\b[^>]*>[\s\S]*?<\/activity>/gi) ?? []
+  const activity =
+    activities.find((a) => /activities\/course/i.test(xmlAttr(a.match(/^<[^>]*>/)?.[0] ?? "", "type") ?? "")) ??
+    activities.find((a) => /<launch\b/i.test(a))
+  if (!activity) return null
+
+  const launch = xmlText(activity, "launch")
+  const launchPath = launch ? normalizeHref(launch) : null
+  const activityId = xmlAttr(activity.match(/^<[^>]*>/)?.[0] ?? "", "id")
+  if (!launchPath || !activityId) return null
+
+  return {
+    standard: "xapi",
+    launchPath,
+    title: xmlText(activity, "name"),
+    activityId,
+    masteryScore: null,
+  }
+}
+
+// ============================================================================
+// UNPACKING
+// ============================================================================
+
+/**
+ * Unpack a zip the instructor uploaded (see getPackageUploadUrl) into its
+ * own folder on R2 and read its manifest. The uploaded zip is removed
+ * either way.
+ */
+export async function unpackScormPackage(uploadKey: string): Promise<UnpackResult> {
+  if (!uploadKey.startsWith(UPLOAD_PREFIX) || uploadKey.includes("..")) {
+    return { scorm: null, error: "Upload not found" }
+  }
+
+  try {
+    const upload = await getFromR2(uploadKey)
+    if (!upload) return { scorm: null, error: "Upload not found — please upload the package again" }
+    if ((upload.contentLength ?? 0) > MAX_PACKAGE_BYTES) {
+      return { scorm: null, error: `Packages can be at most ${MAX_PACKAGE_BYTES / 1024 / 1024}MB` }
+    }
+    const zip = await upload.body.transformToByteArray()
+
+    // List the entries without inflating anything
+    const entries: UnzipFileInfo[] = []
+    try {
+      unzipSync(zip, {
+        filter: (file) => {
+          entries.push(file)
+          return false
+        },
+      })
+    } catch {
+      return { scorm: null, error: "That file isn't a valid zip archive" }
+    }
+
+    const files = entries.flatMap((e) => {
+      const path = safeEntryPath(e.name)
+      return path ? [{ name: e.name, path, size: e.originalSize }] : []
+    })
+
+    // Packages zipped as a folder keep their manifest one level down
+    const manifest = [...files]
+      .filter((f) => /(^|\/)(imsmanifest|tincan)\.xml$/i.test(f.path))
+      .sort((a, b) => a.path.split("/").length - b.path.split("/").length || (/tincan/i.test(a.path) ? 1 : -1))[0]
+    if (!manifest) {
+      return {
+        scorm: null,
+        error: "No imsmanifest.xml (SCORM) or tincan.xml (xAPI) found in the package",
+      }
+    }
+    const root = manifest.path.slice(0, manifest.path.lastIndexOf("/") + 1)
+
+    const manifestXml = strFromU8(unzipSync(zip, { filter: (f) => f.name === manifest.name })[manifest.name])
+    const info = /tincan\.xml$/i.test(manifest.path)
+      ? parseTincanXml(manifestXml)
+      : parseImsManifest(manifestXml)
+    if (!info) {
+      return { scorm: null, error: "The package manifest doesn't say which file to launch" }
+    }
+
+    const packageFiles = files
+      .filter((f) => f.path.startsWith(root))
+      .map((f) => ({ ...f, path: f.path.slice(root.length) }))
+    const launchFile = splitQuery(info.launchPath)[0]
+    if (!packageFiles.some((f) => f.path === launchFile)) {
+      return { scorm: null, error: `The package's launch file (${launchFile}) is missing` }
+    }
+    if (packageFiles.length > MAX_PACKAGE_FILES) {
+      return { scorm: null, error: `Packages can have at most ${MAX_PACKAGE_FILES} files` }
+    }
+    const size = packageFiles.reduce((sum, f) => sum + f.size, 0)
+    if (size > MAX_UNPACKED_BYTES) {
+      return { scorm: null, error: "The package is too large once unpacked" }
+    }
+
+    const packageId = new Types.ObjectId().toString()
+    try {
+      let batch: typeof packageFiles = []
+      let batchBytes = 0
+      const flush = async () => {
+        const names = new Set(batch.map((f) => f.name))
+        const inflated = unzipSync(zip, { filter: (f) => names.has(f.name) })
+        for (let i = 0; i < batch.length; i += UPLOAD_CONCURRENCY) {
+          await Promise.all(
+            batch.slice(i, i + UPLOAD_CONCURRENCY).map((f) => {
+              const data = inflated[f.name]
+              return uploadToR2(packageFileKey(packageId, f.path), data, contentTypeFor(f.path), data.length)
+            })
+          )
+        }
+        batch = []
+        batchBytes = 0
+      }
+      for (const file of packageFiles) {
+        if (batch.length > 0 && batchBytes + file.size > UNPACK_BATCH_BYTES) await flush()
+        batch.push(file)
+        batchBytes += file.size
+      }
+      if (batch.length > 0) await flush()
+    } catch (error) {
+      await deletePackageFiles(packageId)
+      throw error
+    }
+
+    return {
+      scorm: { ...info, packageId, fileCount: packageFiles.length, size },
+      error: null,
+    }
+  } finally {
+    await deleteFromR2(uploadKey)
+  }
+}
+
+/**
+ * Validate a package from the course editor / lesson manager. The package
+ * itself was checked when it was unpacked.
+ */
+export function parseScormInput(
+  input: unknown
+): { scorm: ILessonScorm; error: null } | { scorm: null; error: string } {
+  const raw = (input ?? {}) as Partial<LessonScorm>
+  if (!raw.packageId || !/^[a-f0-9]{24}$/.test(raw.packageId) || !STANDARDS.includes(raw.standard!)) {
+    return { scorm: null, error: "Upload a SCORM or xAPI package" }
+  }
+  const launchPath = raw.launchPath ? normalizeHref(String(raw.launchPath)) : null
+  if (!launchPath) {
+    return { scorm: null, error: "The package's launch file is invalid" }
+  }
+  const masteryScore = Number(raw.masteryScore)
+
+  return {
+    scorm: {
+      standard: raw.standard!,
+      packageId: raw.packageId,
+      launchPath,
+      title: raw.title ? String(raw.title).slice(0, 200) : null,
+      activityId: raw.standard === "xapi" && raw.activityId ? String(raw.activityId) : null,
+      masteryScore: Number.isFinite(masteryScore) && masteryScore > 0 ? Math.min(masteryScore, 100) : null,
+      fileCount: Math.max(0, Math.floor(Number(raw.fileCount) || 0)),
+      size: Math.max(0, Math.floor(Number(raw.size) || 0)),
+    },
+    error: null,
+  }
+}
+
+/**
+ * Stored package → the editor's shape
+ */
+export function toLessonScorm(scorm: ILessonScorm | null | undefined): LessonScorm | null {
+  if (!scorm) return null
+  return {
+    standard: scorm.standard,
+    packageId: scorm.packageId,
+    launchPath: scorm.launchPath,
+    title: scorm.title ?? null,
+    activityId: scorm.activityId ?? null,
+    masteryScore: scorm.masteryScore ?? null,
+    fileCount: scorm.fileCount,
+    size: scorm.size,
+  }
+}
+
+// ============================================================================
+// ACCESS
+// ============================================================================
+
+/**
+ * Whether a user may open a package — its course's instructor or an admin
+ * (drafts included), otherwise a student enrolled in the live course, or
+ * anyone for a free preview lesson.
+ *
+ * Checked, with drip locks, before a launch token is issued
+ * (getScormLaunch); files the package loads only need the token.
+ */
+export async function canOpenPackage(
+  user: { id: string; role: string } | null,
+  packageId: string
+): Promise<boolean> {
+  if (!/^[a-f0-9]{24}$/.test(packageId)) return false
+  await connectDB()
+
+  const lesson = await Lesson.findOne({ "scorm.packageId": packageId }).select("course isFree isPublished").lean()
+  const courseId =
+    lesson?.course ??
+    (await CourseVersion.findOne({ "snapshot.lessons.scorm.packageId": packageId }).select("course").lean())?.course
+  if (!courseId) return false
+
+  if (user) {
+    if (user.role === "ADMIN") return true
+    if (await Course.exists({ _id: courseId, instructor: user.id })) return true
+  }
+  if (!lesson?.isPublished) return false
+  if (lesson.isFree) return true
+  if (!user) return false
+
+  return !!(await Enrollment.exists({
+    user: user.id,
+    course: courseId,
+    status: { $in: ["active", "completed"] },
+  }))
+}
+
+/**
+ * The user an xAPI request's credentials name — packages send the `auth`
+ * the player launched them with (Basic learnerId:launchToken, see
+ * getScormLaunch). Null unless the token is valid and for this lesson.
+ */
+export function readXapiCredentials(authorization: string | null, lessonId: string) {
+  const match = authorization?.match(/^Basic\s+(\S+)$/i)
+  if (!match) return null
+  const decoded = Buffer.from(match[1], "base64").toString("utf8")
+  const claims = readPackageToken(decoded.slice(decoded.indexOf(":") + 1))
+  if (!claims || claims.lessonId !== lessonId) return null
+  return { id: claims.userId, role: claims.role }
+}
+
+/**
+ * The xAPI package lesson a request reports against, for the user its
+ * launch token names (null when they can't open it). `tracked` is false when they can run the package but its progress
+ * isn't saved (previews, instructors, lessons still locked).
+ */
+export async function getXapiContext(user: { id: string; role: string } | null, lessonId: string) {
+  if (!Types.ObjectId.isValid(lessonId)) return null
+  await connectDB()
+
+  const lesson = await Lesson.findById(lessonId).select("course type scorm").lean()
+  if (!user || !lesson || lesson.type !== "scorm" || lesson.scorm?.standard !== "xapi") return null
+  if (!(await canOpenPackage(user, lesson.scorm.packageId))) return null
+
+  const enrolled = await Enrollment.exists({
+    user: user.id,
+    course: lesson.course,
+    status: { $in: ["active", "completed"] },
+  })
+  const tracked = !!enrolled && !(await getLessonLockForUser(user, lessonId))
+
+  return { lesson: { _id: lesson._id, course: lesson.course, scorm: lesson.scorm }, tracked }
+}
+
+// ============================================================================
+// LAUNCH TOKENS
+// ============================================================================
+
+export type PackageLaunchClaims = {
+  packageId: string
+  lessonId: string
+  userId: string
+  role: string
+}
+
+function getPackageTokenSecret(): string {
+  const secret = process.env.PACKAGE_TOKEN_SECRET
+  if (secret) return secret
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("[SCORM] PACKAGE_TOKEN_SECRET environment variable is not set")
+  }
+  return DEV_PACKAGE_TOKEN_SECRET
+}
+
+function signLaunchToken(payload: string) {
+  return createHmac("sha256", getPackageTokenSecret()).update(`package.${payload}`).digest("base64url")
+}
+
+/**
+ * A token granting one user's run of a package lesson. Package files load
+ * without cookies, so it rides in their URL path and, for xAPI, in the
+ * LRS credentials. Issued once the user may open the lesson (getScormLaunch).
+ */
+export function createPackageToken(claims: PackageLaunchClaims): string {
+  const expiresAt =
+    Math.ceil((Date.now() / 1000 + LAUNCH_TOKEN_TTL_SECONDS) / LAUNCH_TOKEN_ROUNDING_SECONDS) *
+    LAUNCH_TOKEN_ROUNDING_SECONDS
+  const payload = [claims.packageId, claims.lessonId, claims.userId, claims.role, expiresAt].join(".")
+  return `${payload}.${signLaunchToken(payload)}`
+}
+
+/** The claims of an unexpired, correctly signed launch token, else null */
+export function readPackageToken(token: string): PackageLaunchClaims | null {
+  const parts = token.split(".")
+  if (parts.length !== 6) return null
+  const [packageId, lessonId, userId, role, expiresAt, signature] = parts
+  if (!(Number(expiresAt) > Date.now() / 1000)) return null
+
+  const expected = Buffer.from(signLaunchToken(parts.slice(0, 5).join(".")))
+  const received = Buffer.from(signature)
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return null
+
+  return { packageId, lessonId, userId, role }
+}
+
+/**
+ * The data model a SCORM package page starts from, embedded in each page
+ * the package loads (see lib/scorm-runtime.ts). Null for xAPI packages.
+ */
+export async function getPackageRuntimeCmi(
+  claims: PackageLaunchClaims
+): Promise<{ standard: Exclude<ScormStandard, "xapi">; cmi: Record<string, string> } | null> {
+  await connectDB()
+  const [lesson, user, attempt] = await Promise.all([
+    Lesson.findById(claims.lessonId).select("scorm").lean(),
+    User.findById(claims.userId).select("firstName lastName").lean(),
+    ScormAttempt.findOne({ user: claims.userId, lesson: claims.lessonId }).select("cmi totalTime").lean(),
+  ])
+  const scorm = lesson?.scorm
+  if (!scorm || !user || scorm.standard === "xapi" || scorm.packageId !== claims.packageId) return null
+
+  return {
+    standard: scorm.standard,
+    cmi: buildLaunchCmi(
+      scorm,
+      attempt?.cmi ?? null,
+      { id: claims.userId, firstName: user.firstName, lastName: user.lastName },
+      attempt?.totalTime ?? 0
+    ),
+  }
+}
+
+// ============================================================================
+// RUNTIME
+// ============================================================================
+
+/**
+ * Keep the cmi.* values a package may write, within the sizes SCORM allows
+ */
+export function sanitizeCmiValues(input: unknown): Map<string, string> {
+  const values = new Map<string, string>()
+  if (!input || typeof input !== "object") return values
+
+  for (const [key, value] of Object.entries(input as Record<string, unknown>)) {
+    if (values.size >= MAX_CMI_KEYS) break
+    if (!/^cmi\.[a-z0-9_.]{1,250}$/i.test(key) || READ_ONLY_CMI.has(key)) continue
+    if (key.endsWith("._count") || key.endsWith("._children")) continue
+    const max = key.endsWith("suspend_data") ? MAX_SUSPEND_DATA : MAX_CMI_VALUE
+    values.set(key, String(value ?? "").slice(0, max))
+  }
+  return values
+}
+
+function toScore(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === "") return null
+  const n = Number(value)
+  return Number.isFinite(n) ? n : null
+}
+
+/**
+ * What a SCORM package's data model says about completion and score
+ */
+export function readScormOutcome(
+  standard: Exclude<ScormStandard, "xapi">,
+  cmi: Map<string, string>,
+  masteryScore: number | null
+): ScormOutcome {
+  if (standard === "scorm12") {
+    const status = cmi.get("cmi.core.lesson_status") ?? "not attempted"
+    const raw = toScore(cmi.get("cmi.core.score.raw"))
+    const min = toScore(cmi.get("cmi.core.score.min")) ?? 0
+    const max = toScore(cmi.get("cmi.core.score.max")) ?? 100
+    const scoreScaled = raw !== null && max > min ? Math.min(1, Math.max(0, (raw - min) / (max - min))) : null
+
+    let successStatus: ScormOutcome["successStatus"] =
+      status === "passed" ? "passed" : status === "failed" ? "failed" : "unknown"
+    // With a mastery score the LMS decides pass/fail from the score (SCORM 1.2 RTE 3.4.4)
+    if (masteryScore !== null && raw !== null) {
+      successStatus = raw >= masteryScore ? "passed" : "failed"
+    }
+
+    return {
+      completionStatus: ["completed", "passed", "failed"].includes(status)
+        ? "completed"
+        : status === "not attempted"
+          ? "not_attempted"
+          : "incomplete",
+      successStatus,
+      scoreScaled,
+      scoreRaw: raw,
+    }
+  }
+
+  const completion = cmi.get("cmi.completion_status") ?? "unknown"
+  const success = cmi.get("cmi.success_status") ?? "unknown"
+  const scaled = toScore(cmi.get("cmi.score.scaled"))
+  return {
+    completionStatus:
+      completion === "completed" ? "completed" : completion === "incomplete" ? "incomplete" : "not_attempted",
+    successStatus: success === "passed" ? "passed" : success === "failed" ? "failed" : "unknown",
+    scoreScaled: scaled !== null ? Math.min(1, Math.max(-1, scaled)) : null,
+    scoreRaw: toScore(cmi.get("cmi.score.raw")),
+  }
+}
+
+type XapiStatement = {
+  verb?: { id?: string }
+  object?: { id?: string }
+  result?: {
+    completion?: boolean
+    success?: boolean
+    score?: { scaled?: number; raw?: number }
+  }
+}
+
+/**
+ * What an xAPI statement about the package's own activity says about
+ * completion and score — null for statements about anything else
+ */
+export function readXapiStatement(
+  statement: unknown,
+  activityId: string | null
+): Partial<ScormOutcome> | null {
+  const s = statement as XapiStatement
+  if (!s || typeof s !== "object") return null
+  if (activityId && s.object?.id !== activityId) return null
+
+  const verb = s.verb?.id?.split("/").pop() ?? ""
+  const outcome: Partial<ScormOutcome> = {}
+
+  if (verb === "completed" || verb === "passed" || s.result?.completion === true) {
+    outcome.completionStatus = "completed"
+  } else if (verb === "attempted" || verb === "initialized" || verb === "progressed") {
+    outcome.completionStatus = "incomplete"
+  }
+  if (verb === "passed" || s.result?.success === true) outcome.successStatus = "passed"
+  if (verb === "failed" || s.result?.success === false) outcome.successStatus = "failed"
+
+  const scaled = s.result?.score?.scaled
+  if (typeof scaled === "number" && Number.isFinite(scaled)) outcome.scoreScaled = Math.min(1, Math.max(-1, scaled))
+  const raw = s.result?.score?.raw
+  if (typeof raw === "number" && Number.isFinite(raw)) outcome.scoreRaw = raw
+
+  return Object.keys(outcome).length > 0 ? outcome : null
+}
+
+/**
+ * Seconds in a SCORM session time — 1.2's HHHH:MM:SS.SS or 2004's ISO 8601 duration
+ */
+export function parseSessionTime(value: string | undefined): number {
+  if (!value) return 0
+  const clock = value.match(/^(\d{1,4}):(\d{2}):(\d{2}(?:\.\d{1,2})?)$/)
+  if (clock) return Number(clock[1]) * 3600 + Number(clock[2]) * 60 + Number(clock[3])
+
+  const iso = value.match(/^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/)
+  if (!iso) return 0
+  const [, y, mo, d, h, m, s] = iso.map((p) => Number(p) || 0)
+  return ((y * 365 + mo * 30 + d) * 24 + h) * 3600 + m * 60 + s
+}
+
+/** Total time in the format the package's standard reads it back in */
+export function formatTotalTime(standard: ScormStandard, seconds: number): string {
+  const total = Math.max(0, Math.round(seconds))
+  const h = Math.floor(total / 3600)
+  const m = Math.floor((total % 3600) / 60)
+  const s = total % 60
+  if (standard === "scorm12") {
+    return `${String(h).padStart(4, "0")}:${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`
+  }
+  return `PT${h}H${m}M${s}S`
+}
+
+/**
+ * The data model a package starts a session with — what it saved last
+ * time, plus the values the LMS supplies (who the learner is, whether
+ * they're resuming, time spent so far)
+ */
+export function buildLaunchCmi(
+  scorm: Pick<ILessonScorm, "standard" | "masteryScore">,
+  saved: IScormCmiValue[] | null,
+  learner: { id: string; firstName: string; lastName: string },
+  totalTime: number
+): Record<string, string> {
+  const values: Record<string, string> = {}
+  for (const { element, value } of saved ?? []) {
+    // Write-only elements never come back
+    if (/(^|\.)(exit|session_time)$/.test(element)) continue
+    values[element] = value
+  }
+  const resuming = Object.keys(values).some((k) => /suspend_data|location/.test(k))
+
+  if (scorm.standard === "scorm12") {
+    return {
+      "cmi.core.lesson_status": "not attempted",
+      "cmi.core.lesson_location": "",
+      "cmi.suspend_data": "",
+      ...values,
+      "cmi.core.student_id": learner.id,
+      "cmi.core.student_name": [learner.lastName, learner.firstName].filter(Boolean).join(", "),
+      "cmi.core.credit": "credit",
+      "cmi.core.lesson_mode": "normal",
+      "cmi.core.entry": resuming ? "resume" : "ab-initio",
+      "cmi.core.total_time": formatTotalTime("scorm12", totalTime),
+      "cmi.launch_data": "",
+      "cmi.student_data.mastery_score": scorm.masteryScore !== null ? String(scorm.masteryScore) : "",
+    }
+  }
+
+  return {
+    "cmi.completion_status": "unknown",
+    "cmi.success_status": "unknown",
+    "cmi.location": "",
+    "cmi.suspend_data": "",
+    ...values,
+    "cmi.learner_id": learner.id,
+    "cmi.learner_name": [learner.lastName, learner.firstName].filter(Boolean).join(", "),
+    "cmi.credit": "credit",
+    "cmi.mode": "normal",
+    "cmi.entry": resuming ? "resume" : "ab-initio",
+    "cmi.total_time": formatTotalTime("scorm2004", totalTime),
+    "cmi.launch_data": "",
+  }
+}
+
+/**
+ * A stable xAPI registration (a UUID) for one student's run through a package
+ */
+export function xapiRegistration(userId: string, lessonId: string) {
+  const hex = createHash("sha256").update(`${userId}:${lessonId}`).digest("hex")
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-a${hex.slice(17, 20)}-${hex.slice(20, 32)}`
+}
+
+export function isOutcomeComplete(outcome: Pick<ScormOutcome, "completionStatus" | "successStatus">) {
+  return outcome.completionStatus === "completed" && outcome.successStatus !== "failed"
+}
+
+/**
+ * Merge what a package reported into the student's runtime record. Returns
+ * whether the package is now complete, and whether it just became so —
+ * callers mark the lesson complete then.
+ */
+export async function recordScormProgress(
+  userId: string,
+  lesson: { _id: Types.ObjectId; course: Types.ObjectId; scorm: ILessonScorm },
+  update: {
+    cmi?: Map<string, string>
+    outcome?: Partial<ScormOutcome>
+    sessionSeconds?: number
+  }
+): Promise<{ completed: boolean; newlyCompleted: boolean }> {
+  await connectDB()
+
+  try {
+    return await applyScormProgress(userId, lesson, update)
+  } catch (error) {
+    // Unique (user, lesson) — a concurrent first save created the record; merge into it
+    if ((error as { code?: number }).code === 11000) return applyScormProgress(userId, lesson, update)
+    throw error
+  }
+}
+
+async function applyScormProgress(
+  userId: string,
+  lesson: Parameters<typeof recordScormProgress>[1],
+  update: Parameters<typeof recordScormProgress>[2]
+) {
+  const attempt =
+    (await ScormAttempt.findOne({ user: userId, lesson: lesson._id })) ??
+    new ScormAttempt({
+      user: userId,
+      lesson: lesson._id,
+      course: lesson.course,
+      standard: lesson.scorm.standard,
+    })
+
+  const cmi = new Map(attempt.cmi.map((c) => [c.element, c.value]))
+  if (update.cmi) {
+    for (const [key, value] of update.cmi) {
+      if (cmi.size >= MAX_CMI_KEYS && !cmi.has(key)) break
+      cmi.set(key, value)
+    }
+    attempt.cmi = [...cmi].map(([element, value]) => ({ element, value }))
+  }
+
+  const outcome: Partial<ScormOutcome> =
+    update.outcome ??
+    (lesson.scorm.standard === "xapi"
+      ? {}
+      : readScormOutcome(lesson.scorm.standard, cmi, lesson.scorm.masteryScore))
+
+  // A finished package stays finished if a later session reports less
+  if (attempt.completionStatus !== "completed" && outcome.completionStatus) {
+    attempt.completionStatus = outcome.completionStatus
+  }
+  if (attempt.successStatus !== "passed" && outcome.successStatus && outcome.successStatus !== "unknown") {
+    attempt.successStatus = outcome.successStatus
+  }
+  if (outcome.scoreScaled !== undefined && outcome.scoreScaled !== null) attempt.scoreScaled = outcome.scoreScaled
+  if (outcome.scoreRaw !== undefined && outcome.scoreRaw !== null) attempt.scoreRaw = outcome.scoreRaw
+  if (update.sessionSeconds) attempt.totalTime += update.sessionSeconds
+
+  const completed = isOutcomeComplete(attempt)
+  const newlyCompleted = completed && !attempt.completedAt
+  if (newlyCompleted) attempt.completedAt = new Date()
+
+  await attempt.save()
+  return { completed, newlyCompleted }
+}
+
+/**
+ * Whether the user has finished a package lesson
+ */
+export async function hasCompletedPackage(userId: string, lessonId: string): Promise<boolean> {
+  await connectDB()
+  const completed = await ScormAttempt.exists({
+    user: userId,
+    lesson: lessonId,
+    completedAt: { $ne: null },
+  })
+  return !!completed
+}
@@ -0,0 +1,184 @@
+/**
+ * Course sections — named, ordered groups of lessons with optional drip
+ * rules of their own (see lib/lesson-access.ts).
+ *
+ * Lesson `order` stays course-wide so everything that walks a course's
+ * lessons in order keeps working; it's rewritten to follow the section order
+ * whenever the curriculum changes. Lessons without a section come first.
+ * The layout helpers are pure so they work on draft snapshots too
+ * (lib/course-versions.ts).
+ *
+ * Server-side only.
+ */
+
+import { Types } from "mongoose"
+import { Lesson, Section, type ISection } from "@/lib/db/models"
+import type { CourseSection } from "@/lib/types"
+
+/** Sections and the lessons in each, in course order */
+export type CurriculumLayout = {
+  /** null = lessons before the first section */
+  sectionId: string | null
+  lessonIds: string[]
+}[]
+
+type OrderedLesson = { _id: Types.ObjectId; section?: Types.ObjectId | null }
+
+/**
+ * Shape a stored section for the instructor UI
+ */
+export function toCourseSection(
+  section: Pick<
+    ISection,
+    "_id" | "title" | "description" | "order" | "releaseAfterDays" | "releaseAt" | "requiresPreviousSection"
+  >,
+  courseId: string
+): CourseSection {
+  return {
+    id: section._id.toString(),
+    courseId,
+    title: section.title,
+    description: section.description ?? null,
+    order: section.order,
+    release: {
+      afterDays: section.releaseAfterDays ?? null,
+      releaseAt: section.releaseAt ? new Date(section.releaseAt).toISOString() : null,
+      requiresPreviousSection: section.requiresPreviousSection ?? false,
+    },
+  }
+}
+
+/**
+ * The layout of a stored curriculum. Expects sections and lessons sorted by
+ * order; a lesson whose section is gone counts as unsectioned.
+ */
+export function getCurriculumLayout(
+  sections: { _id: Types.ObjectId }[],
+  lessons: OrderedLesson[]
+): CurriculumLayout {
+  const sectionIds = new Set(sections.map((s) => s._id.toString()))
+  const lessonsIn = (sectionId: string | null) =>
+    lessons
+      .filter((l) => {
+        const id = l.section?.toString() ?? null
+        return sectionId === null ? id === null || !sectionIds.has(id) : id === sectionId
+      })
+      .map((l) => l._id.toString())
+
+  return [
+    { sectionId: null, lessonIds: lessonsIn(null) },
+    ...sections.map((s) => ({ sectionId: s._id.toString(), lessonIds: lessonsIn(s._id.toString()) })),
+  ]
+}
+
+/**
+ * Check a layout from the lesson manager against the curriculum: it must
+ * list every section and lesson exactly once.
+ */
+export function checkCurriculumLayout(
+  layout: CurriculumLayout,
+  sectionIds: string[],
+  lessonIds: string[]
+): string | null {
+  const listedSections = layout.map((g) => g.sectionId).filter((id): id is string => id !== null)
+  const listedLessons = layout.flatMap((g) => g.lessonIds)
+
+  const sameIds = (listed: string[], stored: string[]) => {
+    const unique = new Set(listed)
+    return unique.size === listed.length && unique.size === stored.length && stored.every((id) => unique.has(id))
+  }
+
+  if (layout.filter((g) => g.sectionId === null).length > 1 || !sameIds(listedSections, sectionIds)) {
+    return "The section list is out of date. Refresh and try again."
+  }
+  if (!sameIds(listedLessons, lessonIds)) {
+    return "The lesson list is out of date. Refresh and try again."
+  }
+  return null
+}
+
+/**
+ * Section order, each lesson's section and the course-wide lesson order a
+ * layout works out to. Unsectioned lessons always go first.
+ */
+export function orderCurriculum(layout: CurriculumLayout) {
+  const ordered = [
+    ...layout.filter((g) => g.sectionId === null),
+    ...layout.filter((g) => g.sectionId !== null),
+  ]
+
+  let lessonOrder = 0
+  return {
+    lessons: ordered.flatMap((group) =>
+      group.lessonIds.map((id) => ({ id, sectionId: group.sectionId, order: lessonOrder++ }))
+    ),
+    sections: ordered
+      .filter((g) => g.sectionId !== null)
+      .map((group, idx) => ({ id: group.sectionId!, order: idx })),
+  }
+}
+
+/**
+ * Check a layout against a live course's curriculum
+ */
+export async function validateCurriculumLayout(
+  courseId: string,
+  layout: CurriculumLayout
+): Promise<string | null> {
+  const [sectionIds, lessonIds]: Types.ObjectId[][] = await Promise.all([
+    Section.distinct("_id", { course: courseId }),
+    Lesson.distinct("_id", { course: courseId }),
+  ])
+
+  return checkCurriculumLayout(
+    layout,
+    sectionIds.map((id) => id.toString()),
+    lessonIds.map((id) => id.toString())
+  )
+}
+
+/**
+ * Save a curriculum layout to a live course
+ */
+export async function applyCurriculumLayout(courseId: string, layout: CurriculumLayout) {
+  const { lessons, sections } = orderCurriculum(layout)
+  const course = new Types.ObjectId(courseId)
+
+  await Promise.all([
+    lessons.length > 0
+      ? Lesson.bulkWrite(
+          lessons.map((l) => ({
+            updateOne: {
+              filter: { _id: new Types.ObjectId(l.id), course },
+              update: { section: l.sectionId ? new Types.ObjectId(l.sectionId) : null, order: l.order },
+            },
+          }))
+        )
+      : null,
+    sections.length > 0
+      ? Section.bulkWrite(
+          sections.map((s) => ({
+            updateOne: {
+              filter: { _id: new Types.ObjectId(s.id), course },
+              update: { order: s.order },
+            },
+          }))
+        )
+      : null,
+  ])
+}
+
+/**
+ * Rewrite a live course's lesson order so it follows the section order
+ * again, keeping each lesson's place within its section. Run after lessons
+ * are added or saved without a layout (the course editor, adding a lesson
+ * to a section).
+ */
+export async function resequenceLessons(courseId: string) {
+  const [sections, lessons] = await Promise.all([
+    Section.find({ course: courseId }).select("_id").sort({ order: 1 }).lean(),
+    Lesson.find({ course: courseId }).select("section").sort({ order: 1 }).lean(),
+  ])
+
+  await applyCurriculumLayout(courseId, getCurriculumLayout(sections, lessons))
+}
@@ -0,0 +1,40 @@
+/**
+ * Local stand-in for a hosted speech-to-text provider.
+ * Doesn't listen to the video — it returns placeholder lines spaced over the
+ * video's length, so the caption menu and transcript can be tried out
+ * without an account anywhere.
+ *
+ * Never enabled in production — see getSpeechToTextProvider().
+ */
+
+import type { SpeechToTextProvider, TranscriptionInput, TranscriptSegment } from "./types"
+
+const SEGMENT_SECONDS = 5
+// Used when the video's length isn't known yet
+const FALLBACK_DURATION = 60
+
+function timestamp(seconds: number) {
+  const m = Math.floor(seconds / 60)
+  const s = Math.floor(seconds % 60)
+  return `${m}:${s.toString().padStart(2, "0")}`
+}
+
+export const fakeProvider: SpeechToTextProvider = {
+  name: "fake",
+
+  async transcribe(input: TranscriptionInput) {
+    const duration = input.durationSeconds || FALLBACK_DURATION
+    const segments: TranscriptSegment[] = []
+
+    for (let start = 0; start < duration; start += SEGMENT_SECONDS) {
+      const end = Math.min(start + SEGMENT_SECONDS, duration)
+      segments.push({
+        start,
+        end,
+        text: `[${input.language}] Sample caption ${segments.length + 1} at ${timestamp(start)}`,
+      })
+    }
+
+    return segments
+  },
+}
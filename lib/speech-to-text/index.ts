@@ -0,0 +1,49 @@
+/**
+ * Speech-to-text entry point for generated lesson captions.
+ * Server-side only — pick the configured provider via SPEECH_TO_TEXT_PROVIDER.
+ * Outside production the local fake provider is used when none is set.
+ */
+
+import { fakeProvider } from "./fake-provider"
+import type { SpeechToTextProvider, SpeechToTextProviderName } from "./types"
+
+export type {
+  SpeechToTextProvider,
+  SpeechToTextProviderName,
+  TranscriptionInput,
+  TranscriptSegment,
+} from "./types"
+
+const providers: Record<SpeechToTextProviderName, SpeechToTextProvider> = {
+  fake: fakeProvider,
+}
+
+export function getSpeechToTextProvider(): SpeechToTextProvider {
+  const name =
+    process.env.SPEECH_TO_TEXT_PROVIDER ||
+    (process.env.NODE_ENV === "production" ? null : "fake")
+
+  if (!name) {
+    throw new Error("[Speech-to-text] SPEECH_TO_TEXT_PROVIDER environment variable is not set")
+  }
+
+  const provider = providers[name as SpeechToTextProviderName]
+  if (!provider) {
+    throw new Error(`[Speech-to-text] Unsupported speech-to-text provider: ${name}`)
+  }
+  if (provider.name === "fake" && process.env.NODE_ENV === "production") {
+    throw new Error("[Speech-to-text] The fake speech-to-text provider cannot be used in production")
+  }
+
+  return provider
+}
+
+/** Whether captions can be generated here — the UI hides the option otherwise */
+export function isSpeechToTextConfigured(): boolean {
+  try {
+    getSpeechToTextProvider()
+    return true
+  } catch {
+    return false
+  }
+}
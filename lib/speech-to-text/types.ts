@@ -0,0 +1,26 @@
+export type SpeechToTextProviderName = "fake"
+
+export type TranscriptionInput = {
+  /** Public URL of the video (or its audio) to transcribe */
+  mediaUrl: string
+  /** Language spoken in the video, e.g. "en" or "zh-CN" */
+  language: string
+  /** Length of the video in seconds, when known */
+  durationSeconds: number | null
+}
+
+/** One timed line of the transcript, in seconds */
+export type TranscriptSegment = {
+  start: number
+  end: number
+  text: string
+}
+
+export interface SpeechToTextProvider {
+  name: SpeechToTextProviderName
+  /**
+   * Transcribe the video's speech into timed segments.
+   * Throws if the provider can't transcribe it.
+   */
+  transcribe(input: TranscriptionInput): Promise<TranscriptSegment[]>
+}
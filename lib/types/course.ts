@@ -25,20 +25,138 @@ export type Course = {
   updatedAt: string
 }
 
+/** What a student must do before a course issues them a certificate */
+export type CertificateRules = {
+  requireAllLessons: boolean
+  requireQuizzesPassed: boolean
+  /** 0–100, across all video lessons; 0 turns the check off */
+  minWatchPercent: number
+}
+
 export type CourseWithLessons = Course & {
   lessons: Lesson[]
 }
 
+export type LessonType = "video" | "live" | "text" | "quiz" | "assignment" | "scorm"
+
 export type Lesson = {
   id: string
   courseId: string
   title: string
   description: string | null
-  type: "video" | "live" | "text"
+  type: LessonType
   videoUrl: string | null
   thumbnailUrl: string | null
   content: string | null
   duration: number | null // in seconds
   order: number
   isFree: boolean
+  quiz?: LessonQuiz | null
+  assignment?: LessonAssignment | null
+  scorm?: LessonScorm | null
+  release?: LessonRelease
+  /** Section the lesson belongs to; null = before the first section */
+  sectionId?: string | null
+}
+
+/** A named, ordered group of lessons in a course's curriculum */
+export type CourseSection = {
+  id: string
+  courseId: string
+  title: string
+  description: string | null
+  order: number
+  release: SectionRelease
+}
+
+/** Drip rules that apply to every lesson in a section */
+export type SectionRelease = {
+  /** Days after enrollment; null = no delay */
+  afterDays: number | null
+  /** Fixed release date (ISO); null = no date */
+  releaseAt: string | null
+  /** The previous section must be completed first */
+  requiresPreviousSection: boolean
+}
+
+/** Drip rules — when an enrolled student can open a lesson */
+export type LessonRelease = {
+  /** Days after enrollment; null = no delay */
+  afterDays: number | null
+  /** Fixed release date (ISO); null = no date */
+  releaseAt: string | null
+  /** Earlier lesson that must be completed first */
+  prerequisiteLessonId: string | null
+}
+
+export type QuizQuestionType = "multiple_choice" | "multi_select" | "true_false" | "short_answer"
+
+/** A quiz question as authored by the instructor (includes the answers) */
+export type QuizQuestion = {
+  id: string
+  type: QuizQuestionType
+  prompt: string
+  options: string[]
+  correctOptions: number[]
+  acceptedAnswers: string[]
+  explanation: string | null
+  points: number
+}
+
+export type LessonQuiz = {
+  questions: QuizQuestion[]
+  passMark: number // percent
+  maxAttempts: number | null // null = unlimited
+}
+
+export type RubricCriterion = {
+  id: string
+  title: string
+  description: string | null
+  maxPoints: number
+}
+
+export type LessonAssignment = {
+  allowFiles: boolean
+  allowText: boolean
+  rubric: RubricCriterion[]
+}
+
+export type ScormStandard = "scorm12" | "scorm2004" | "xapi"
+
+/** An unpacked SCORM / xAPI package as the editor holds it */
+export type LessonScorm = {
+  standard: ScormStandard
+  packageId: string
+  launchPath: string
+  title: string | null
+  activityId: string | null
+  masteryScore: number | null
+  fileCount: number
+  size: number // unpacked bytes
+}
+
+/** A caption / subtitle track of a lesson video, as the player loads it */
+export type CaptionTrack = {
+  id: string
+  language: string // language code, e.g. "en", "zh-CN"
+  label: string
+  /** WebVTT, served by app/api/captions */
+  src: string
+}
+
+/** A caption track as the instructor manages it */
+export type ManagedCaptionTrack = CaptionTrack & {
+  source: "upload" | "generated"
+  status: "queued" | "processing" | "ready" | "failed"
+  fileName: string | null
+  cueCount: number
+  error: string | null
+}
+
+/** One timed line of a transcript, in seconds */
+export type TranscriptCue = {
+  start: number
+  end: number
+  text: string
 }
@@ -1,4 +1,4 @@
-export type EnrollmentStatus = "active" | "completed" | "expired"
+export type EnrollmentStatus = "active" | "completed" | "expired" | "refunded"
 
 export type Enrollment = {
   id: string
@@ -3,6 +3,21 @@ export type {
   Course,
   CourseWithLessons,
   Lesson,
+  LessonType,
+  LessonRelease,
+  CourseSection,
+  SectionRelease,
+  LessonQuiz,
+  QuizQuestion,
+  QuizQuestionType,
+  LessonAssignment,
+  RubricCriterion,
+  LessonScorm,
+  ScormStandard,
+  CaptionTrack,
+  ManagedCaptionTrack,
+  TranscriptCue,
+  CertificateRules,
   CourseLevel,
   CoursePricing,
   CourseStatus,
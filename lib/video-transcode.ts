@@ -0,0 +1,426 @@
+/**
+ * Lesson video transcoding — turns uploaded MP4s into adaptive HLS streams
+ * (a master playlist over several renditions), a poster frame and duration
+ * metadata. Saving a course or lesson queues its videos
+ * (queueVideoTranscodes); the cron route at /api/cron/video-transcodes works
+ * through the queue with ffmpeg, which must be installed on the host
+ * (FFMPEG_PATH / FFPROBE_PATH point at other binaries).
+ */
+
+import { spawn } from "node:child_process"
+import { createWriteStream } from "node:fs"
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import type { Readable } from "node:stream"
+import { pipeline } from "node:stream/promises"
+import type { Types } from "mongoose"
+import connectDB from "@/lib/db"
+import {
+  Course,
+  CourseVersion,
+  Lesson,
+  VideoAsset,
+  type IVideoAsset,
+  type IVideoRendition,
+} from "@/lib/db/models"
+import { deleteR2Prefix, getFromR2, R2_PUBLIC_URL, uploadToR2 } from "@/lib/r2"
+
+const HLS_PREFIX = "worldstreet-academy/videos-hls"
+const FFMPEG = process.env.FFMPEG_PATH || "ffmpeg"
+const FFPROBE = process.env.FFPROBE_PATH || "ffprobe"
+
+const MAX_ATTEMPTS = 3
+// A job still processing after this long was left behind by a run that died
+const STALE_LOCK_MS = 2 * 60 * 60 * 1000
+const SEGMENT_SECONDS = 6
+const UPLOAD_CONCURRENCY = 6
+
+// Rungs taller than the source are skipped — nothing is upscaled
+const LADDER = [
+  { height: 1080, videoKbps: 5000, audioKbps: 128 },
+  { height: 720, videoKbps: 2800, audioKbps: 128 },
+  { height: 480, videoKbps: 1400, audioKbps: 96 },
+  { height: 360, videoKbps: 800, audioKbps: 64 },
+]
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".m3u8": "application/vnd.apple.mpegurl",
+  ".ts": "video/mp2t",
+  ".jpg": "image/jpeg",
+}
+
+type TranscodeOutput = Pick<
+  IVideoAsset,
+  "hlsUrl" | "renditions" | "posterUrl" | "duration" | "width" | "height"
+>
+
+function assetPrefix(assetId: Types.ObjectId | string) {
+  return `${HLS_PREFIX}/${assetId}/`
+}
+
+/** The R2 key behind one of our public URLs — other hosts aren't transcoded */
+function r2KeyFromUrl(url: string): string | null {
+  if (!R2_PUBLIC_URL || !url.startsWith(`${R2_PUBLIC_URL}/`)) return null
+  const key = url.slice(R2_PUBLIC_URL.length + 1).split(/[?#]/)[0]
+  return key && !key.startsWith(`${HLS_PREFIX}/`) ? key : null
+}
+
+// ============================================================================
+// QUEUE
+// ============================================================================
+
+/**
+ * Queue lesson videos for transcoding. Videos already queued or done are
+ * left alone, except that a finished one fills in the duration and poster
+ * of lessons that just started using it. Never throws — the lesson save
+ * that called it matters more.
+ */
+export async function queueVideoTranscodes(videoUrls: (string | null | undefined)[]) {
+  try {
+    const sources = [...new Set(videoUrls.filter((u): u is string => !!u))].flatMap((url) => {
+      const key = r2KeyFromUrl(url)
+      return key ? [{ url, key }] : []
+    })
+    if (sources.length === 0) return
+
+    await connectDB()
+    await VideoAsset.bulkWrite(
+      sources.map((s) => ({
+        updateOne: {
+          filter: { sourceUrl: s.url },
+          update: { $setOnInsert: { sourceKey: s.key, status: "queued" } },
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    )
+
+    const ready = await VideoAsset.find({
+      sourceUrl: { $in: sources.map((s) => s.url) },
+      status: "ready",
+    })
+      .select("sourceUrl duration posterUrl")
+      .lean()
+    for (const asset of ready) {
+      await applyVideoMetadata(asset)
+    }
+  } catch (error) {
+    console.error("[Video transcode] Failed to queue videos:", error)
+  }
+}
+
+/**
+ * The HLS master playlist for each video that has finished transcoding
+ */
+export async function getVideoStreams(
+  videoUrls: (string | null | undefined)[]
+): Promise<Map<string, string>> {
+  const urls = [...new Set(videoUrls.filter((u): u is string => !!u))]
+  if (urls.length === 0) return new Map()
+
+  await connectDB()
+  const assets = await VideoAsset.find({ sourceUrl: { $in: urls }, status: "ready" })
+    .select("sourceUrl hlsUrl")
+    .lean()
+  return new Map(assets.flatMap((a) => (a.hlsUrl ? [[a.sourceUrl, a.hlsUrl] as const] : [])))
+}
+
+/**
+ * Remove the streams made from these videos (when their course is deleted)
+ */
+export async function deleteVideoAssets(videoUrls: (string | null | undefined)[]) {
+  const urls = [...new Set(videoUrls.filter((u): u is string => !!u))]
+  if (urls.length === 0) return
+
+  await connectDB()
+  const assets = await VideoAsset.find({ sourceUrl: { $in: urls } }).select("_id").lean()
+  for (const asset of assets) {
+    await deleteR2Prefix(assetPrefix(asset._id))
+  }
+  await VideoAsset.deleteMany({ _id: { $in: assets.map((a) => a._id) } })
+}
+
+// ============================================================================
+// WORKER
+// ============================================================================
+
+/**
+ * Transcode queued videos, oldest first. A failed video is retried on later
+ * runs, up to MAX_ATTEMPTS; lessons keep playing the MP4 meanwhile.
+ */
+export async function runVideoTranscodes(maxJobs = 1): Promise<{
+  ready: number
+  retrying: number
+  failed: number
+}> {
+  await connectDB()
+  const result = { ready: 0, retrying: 0, failed: 0 }
+
+  // Runs that died at their last attempt won't be picked up again
+  const stale = new Date(Date.now() - STALE_LOCK_MS)
+  await VideoAsset.updateMany(
+    { status: "processing", lockedAt: { $lt: stale }, attempts: { $gte: MAX_ATTEMPTS } },
+    { $set: { status: "failed", lockedAt: null, error: "Transcoding did not finish" } }
+  )
+
+  for (let i = 0; i < maxJobs; i++) {
+    const asset = await VideoAsset.findOneAndUpdate(
+      {
+        attempts: { $lt: MAX_ATTEMPTS },
+        $or: [{ status: "queued" }, { status: "processing", lockedAt: { $lt: stale } }],
+      },
+      { $set: { status: "processing", lockedAt: new Date() }, $inc: { attempts: 1 } },
+      { sort: { createdAt: 1 }, new: true }
+    ).lean()
+    if (!asset) break
+
+    try {
+      const output = await transcodeVideo(asset)
+      await VideoAsset.updateOne(
+        { _id: asset._id },
+        { $set: { ...output, status: "ready", readyAt: new Date(), lockedAt: null, error: null } }
+      )
+      await applyVideoMetadata({ sourceUrl: asset.sourceUrl, ...output })
+      result.ready++
+    } catch (error) {
+      console.error(`[Video transcode] ${asset.sourceUrl} failed:`, error)
+      const giveUp = asset.attempts >= MAX_ATTEMPTS
+      await deleteR2Prefix(assetPrefix(asset._id))
+      await VideoAsset.updateOne(
+        { _id: asset._id },
+        {
+          $set: {
+            status: giveUp ? "failed" : "queued",
+            lockedAt: null,
+            error: (error instanceof Error ? error.message : String(error)).slice(0, 1000),
+          },
+        }
+      )
+      if (giveUp) result.failed++
+      else result.retrying++
+    }
+  }
+
+  return result
+}
+
+/**
+ * Write a finished video's duration to every lesson using it, and its
+ * poster to those without a thumbnail. Course drafts get it too; published
+ * versions are left as they were published.
+ */
+async function applyVideoMetadata(asset: Pick<IVideoAsset, "sourceUrl" | "duration" | "posterUrl">) {
+  const url = asset.sourceUrl
+  const duration = asset.duration ? Math.round(asset.duration) : null
+
+  if (duration) {
+    await Lesson.updateMany({ videoUrl: url }, { $set: { videoDuration: duration } })
+    await CourseVersion.updateMany(
+      { status: "draft", "snapshot.lessons.videoUrl": url },
+      { $set: { "snapshot.lessons.$[l].videoDuration": duration } },
+      { arrayFilters: [{ "l.videoUrl": url }] }
+    )
+  }
+
+  if (asset.posterUrl) {
+    await Lesson.updateMany(
+      { videoUrl: url, videoThumbnailUrl: null },
+      { $set: { videoThumbnailUrl: asset.posterUrl } }
+    )
+    await CourseVersion.updateMany(
+      { status: "draft", "snapshot.lessons.videoUrl": url },
+      { $set: { "snapshot.lessons.$[l].videoThumbnailUrl": asset.posterUrl } },
+      { arrayFilters: [{ "l.videoUrl": url, "l.videoThumbnailUrl": null }] }
+    )
+  }
+
+  // Course lengths are the sum of their published lessons
+  if (duration) {
+    const courseIds: Types.ObjectId[] = await Lesson.distinct("course", { videoUrl: url })
+    for (const courseId of courseIds) {
+      const [stats] = await Lesson.aggregate<{ total: number }>([
+        { $match: { course: courseId, isPublished: true } },
+        { $group: { _id: null, total: { $sum: { $ifNull: ["$videoDuration", 0] } } } },
+      ])
+      await Course.updateOne({ _id: courseId }, { totalDuration: Math.ceil((stats?.total ?? 0) / 60) })
+    }
+  }
+}
+
+// ============================================================================
+// FFMPEG
+// ============================================================================
+
+function run(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ["ignore", "pipe", "pipe"] })
+    let stdout = ""
+    let stderr = ""
+    child.stdout.on("data", (chunk) => (stdout += chunk))
+    child.stderr.on("data", (chunk) => (stderr = (stderr + chunk).slice(-4000)))
+    child.on("error", reject)
+    child.on("close", (code) => {
+      if (code === 0) resolve(stdout)
+      else reject(new Error(`${path.basename(command)} exited with ${code}: ${stderr.trim()}`))
+    })
+  })
+}
+
+type ProbeStream = {
+  codec_type?: string
+  width?: number
+  height?: number
+  tags?: { rotate?: string }
+  side_data_list?: { rotation?: number }[]
+}
+
+/** Duration, display size (after rotation) and whether there's audio */
+async function probeVideo(file: string) {
+  const output = await run(FFPROBE, [
+    "-v", "error",
+    "-print_format", "json",
+    "-show_format",
+    "-show_streams",
+    file,
+  ])
+  const probe = JSON.parse(output) as { streams?: ProbeStream[]; format?: { duration?: string } }
+  const video = probe.streams?.find((s) => s.codec_type === "video")
+  if (!video?.width || !video.height) throw new Error("No video stream found")
+
+  const rotation = Number(video.side_data_list?.find((d) => d.rotation !== undefined)?.rotation ?? video.tags?.rotate ?? 0)
+  const sideways = Math.abs(rotation) % 180 === 90
+  const duration = Number(probe.format?.duration)
+
+  return {
+    width: sideways ? video.height : video.width,
+    height: sideways ? video.width : video.height,
+    duration: Number.isFinite(duration) && duration > 0 ? duration : null,
+    hasAudio: probe.streams?.some((s) => s.codec_type === "audio") ?? false,
+  }
+}
+
+/** BANDWIDTH and playlist of each variant in the master playlist ffmpeg wrote */
+function readMasterPlaylist(master: string, baseUrl: string): IVideoRendition[] {
+  const lines = master.split(/\r?\n/)
+  const renditions: IVideoRendition[] = []
+  lines.forEach((line, idx) => {
+    if (!line.startsWith("#EXT-X-STREAM-INF:")) return
+    const bandwidth = Number(line.match(/[:,]BANDWIDTH=(\d+)/)?.[1] ?? 0)
+    const resolution = line.match(/RESOLUTION=(\d+)x(\d+)/)
+    const uri = lines[idx + 1]?.trim()
+    if (!uri) return
+    renditions.push({
+      height: resolution ? Math.min(Number(resolution[1]), Number(resolution[2])) : 0,
+      bandwidth,
+      playlistUrl: `${baseUrl}${uri}`,
+    })
+  })
+  return renditions.sort((a, b) => b.height - a.height)
+}
+
+async function listFiles(dir: string, prefix = ""): Promise<string[]> {
+  const entries = await readdir(path.join(dir, prefix), { withFileTypes: true })
+  const files: string[] = []
+  for (const entry of entries) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name
+    if (entry.isDirectory()) files.push(...(await listFiles(dir, relative)))
+    else files.push(relative)
+  }
+  return files
+}
+
+/**
+ * Download the source, encode every rendition in one ffmpeg pass (segments
+ * cut on shared keyframes so players can switch between them), grab a
+ * poster frame and upload the lot to R2
+ */
+async function transcodeVideo(asset: Pick<IVideoAsset, "_id" | "sourceKey">): Promise<TranscodeOutput> {
+  const dir = await mkdtemp(path.join(tmpdir(), "lesson-video-"))
+  try {
+    const source = await getFromR2(asset.sourceKey)
+    if (!source) throw new Error("Source video not found")
+    const sourcePath = path.join(dir, "source")
+    // In Node the SDK's body is a Readable
+    await pipeline(source.body as Readable, createWriteStream(sourcePath))
+
+    const info = await probeVideo(sourcePath)
+    const portrait = info.height > info.width
+    const shortSide = Math.min(info.width, info.height)
+    const fitting = LADDER.filter((r) => r.height <= shortSide)
+    // Small sources get one rendition at their own size
+    const rungs = fitting.length > 0 ? fitting : [{ ...LADDER[LADDER.length - 1], height: shortSide - (shortSide % 2) }]
+
+    const outDir = path.join(dir, "hls")
+    const filters = [
+      `[0:v]split=${rungs.length}${rungs.map((_, i) => `[s${i}]`).join("")}`,
+      ...rungs.map((r, i) => `[s${i}]scale=${portrait ? `${r.height}:-2` : `-2:${r.height}`}[v${i}]`),
+    ].join(";")
+
+    const args = ["-hide_banner", "-loglevel", "error", "-y", "-i", sourcePath, "-filter_complex", filters]
+    rungs.forEach((r, i) => {
+      args.push(
+        "-map", `[v${i}]`,
+        `-c:v:${i}`, "libx264",
+        `-b:v:${i}`, `${r.videoKbps}k`,
+        `-maxrate:v:${i}`, `${Math.round(r.videoKbps * 1.07)}k`,
+        `-bufsize:v:${i}`, `${Math.round(r.videoKbps * 1.5)}k`
+      )
+      if (info.hasAudio) {
+        args.push("-map", "0:a:0", `-c:a:${i}`, "aac", `-b:a:${i}`, `${r.audioKbps}k`, `-ac:a:${i}`, "2")
+      }
+    })
+    args.push(
+      "-preset", "veryfast",
+      "-profile:v", "main",
+      "-pix_fmt", "yuv420p",
+      "-sc_threshold", "0",
+      "-force_key_frames", `expr:gte(t,n_forced*${SEGMENT_SECONDS})`,
+      "-f", "hls",
+      "-hls_time", String(SEGMENT_SECONDS),
+      "-hls_playlist_type", "vod",
+      "-hls_flags", "independent_segments",
+      "-hls_segment_filename", path.join(outDir, "v%v", "segment_%04d.ts"),
+      "-master_pl_name", "master.m3u8",
+      "-var_stream_map", rungs.map((_, i) => (info.hasAudio ? `v:${i},a:${i}` : `v:${i}`)).join(" "),
+      path.join(outDir, "v%v", "index.m3u8")
+    )
+    await run(FFMPEG, args)
+
+    const posterAt = info.duration ? Math.min(info.duration * 0.1, 10) : 0
+    await run(FFMPEG, [
+      "-hide_banner", "-loglevel", "error", "-y",
+      "-ss", posterAt.toFixed(2),
+      "-i", sourcePath,
+      "-frames:v", "1",
+      "-vf", "scale='min(1280,iw)':-2",
+      "-q:v", "3",
+      path.join(outDir, "poster.jpg"),
+    ])
+
+    // Upload segments first so the master playlist never points at missing files
+    const prefix = assetPrefix(asset._id)
+    const queue = (await listFiles(outDir)).filter((f) => f !== "master.m3u8")
+    await Promise.all(
+      Array.from({ length: UPLOAD_CONCURRENCY }, async () => {
+        for (let file = queue.shift(); file; file = queue.shift()) {
+          const body = await readFile(path.join(outDir, file))
+          await uploadToR2(`${prefix}${file}`, body, CONTENT_TYPES[path.extname(file)] ?? "application/octet-stream", body.length)
+        }
+      })
+    )
+    const master = await readFile(path.join(outDir, "master.m3u8"))
+    const hlsUrl = await uploadToR2(`${prefix}master.m3u8`, master, CONTENT_TYPES[".m3u8"], master.length)
+
+    return {
+      hlsUrl,
+      renditions: readMasterPlaylist(master.toString("utf8"), `${R2_PUBLIC_URL}/${prefix}`),
+      posterUrl: `${R2_PUBLIC_URL}/${prefix}poster.jpg`,
+      duration: info.duration,
+      width: info.width,
+      height: info.height,
+    }
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+}
@@ -2,6 +2,7 @@
 
 import { Course, Enrollment, Lesson } from "@/lib/db/models"
 import { Types } from "mongoose"
+import { grantEnrollment } from "@/lib/payments"
 import { initAction, type Doc } from "./helpers"
 
 export async function vividSearchCourses(p: {
@@ -204,14 +205,7 @@ export async function vividEnrollInCourse(p: { courseId: string }) {
     if (existing) return { success: true, already: true, message: "Already enrolled" }
 
     if (course.pricing === "free") {
-      await Enrollment.create({
-        user: currentUser.id,
-        course: course._id,
-        status: "active",
-        progress: 0,
-        completedLessons: [],
-      })
-      await Course.findByIdAndUpdate(course._id, { $inc: { enrolledCount: 1 } })
+      await grantEnrollment({ userId: currentUser.id, courseId: course._id.toString(), pricePaid: 0 })
       return { success: true, enrolled: true, message: "Enrolled successfully!" }
     }
 
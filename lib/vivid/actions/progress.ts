@@ -10,7 +10,8 @@ export async function vividMarkLessonComplete(p: { courseId: string; lessonId: s
     if (!currentUser) return { success: false, error: "Not authenticated" }
 
     const { markLessonComplete } = await import("@/lib/actions/student")
-    await markLessonComplete(p.courseId, p.lessonId)
+    const result = await markLessonComplete(p.courseId, p.lessonId)
+    if (!result.success) return { success: false, error: result.error || "Failed to mark lesson complete" }
     return { success: true, message: "Lesson marked as complete!" }
   } catch (error) {
     console.error("[Vivid] markLessonComplete error:", error)
@@ -24,7 +25,15 @@ export async function vividMarkCourseComplete(p: { courseId: string }) {
     if (!currentUser) return { success: false, error: "Not authenticated" }
 
     const { markCourseComplete } = await import("@/lib/actions/student")
-    await markCourseComplete(p.courseId)
+    const result = await markCourseComplete(p.courseId)
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.unmet?.length
+          ? `Not quite done yet: ${result.unmet.join("; ")}`
+          : "Failed to mark course complete",
+      }
+    }
     return { success: true, message: "Course completed! Your certificate is ready." }
   } catch (error) {
     console.error("[Vivid] markCourseComplete error:", error)
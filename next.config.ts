@@ -2,6 +2,24 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   reactStrictMode: false,
+  async headers() {
+    return [
+      {
+        // xAPI packages report from their sandboxed frame on another origin,
+        // authenticated by their launch token rather than cookies
+        source: "/api/xapi/:path*",
+        headers: [
+          { key: "Access-Control-Allow-Origin", value: "*" },
+          { key: "Access-Control-Allow-Methods", value: "GET, POST, PUT, DELETE, OPTIONS" },
+          {
+            key: "Access-Control-Allow-Headers",
+            value: "Authorization, Content-Type, X-Experience-API-Version",
+          },
+          { key: "Access-Control-Expose-Headers", value: "X-Experience-API-Version" },
+        ],
+      },
+    ]
+  },
   images: {
     dangerouslyAllowSVG: true,
     contentDispositionType: "attachment",
@@ -0,0 +1,105 @@
+/**
+ * Migration: turn each lesson's free-text `sectionTitle` into Section documents.
+ *
+ * Lessons in a course with the same title go into one section, and sections
+ * are ordered by where they first appear. Safe to run again — a section that
+ * already exists is reused, and `sectionTitle` is removed once migrated.
+ *
+ * Usage:
+ *   npx tsx scripts/migrate-sections.ts             # Migrate every course
+ *   npx tsx scripts/migrate-sections.ts --dry-run   # Only report what would change
+ */
+
+import dotenv from "dotenv"
+import type { Types } from "mongoose"
+
+// Load environment variables (MUST be before any imports that connect)
+dotenv.config({ path: ".env.local" })
+
+type LegacyLesson = {
+  _id: Types.ObjectId
+  course: Types.ObjectId
+  section?: Types.ObjectId | null
+  sectionTitle?: string | null
+}
+
+async function main() {
+  // Dynamic imports after env vars are loaded
+  const { default: connectDB } = await import("@/lib/db")
+  const { Lesson, Section } = await import("@/lib/db/models")
+  const { resequenceLessons } = await import("@/lib/sections")
+
+  const dryRun = process.argv.slice(2).includes("--dry-run")
+
+  await connectDB()
+
+  // sectionTitle is gone from the Lesson schema, so read the raw documents
+  const lessons = (await Lesson.collection
+    .find({ sectionTitle: { $exists: true } })
+    .project({ course: 1, section: 1, sectionTitle: 1 })
+    .sort({ course: 1, order: 1 })
+    .toArray()) as unknown as LegacyLesson[]
+
+  const byCourse = new Map<string, LegacyLesson[]>()
+  for (const lesson of lessons) {
+    const courseId = lesson.course.toString()
+    byCourse.set(courseId, [...(byCourse.get(courseId) ?? []), lesson])
+  }
+
+  console.log(`\n🔍 Found ${lessons.length} lessons with a sectionTitle in ${byCourse.size} courses\n`)
+
+  if (lessons.length === 0) {
+    console.log("✨ Nothing to migrate!")
+    process.exit(0)
+  }
+
+  let sectionsCreated = 0
+  let lessonsMoved = 0
+
+  for (const [courseId, courseLessons] of byCourse) {
+    const existing = await Section.find({ course: courseId }).select("title order").sort({ order: 1 }).lean()
+    const sectionByTitle = new Map(existing.map((s) => [s.title, s._id]))
+    let nextOrder = existing.length > 0 ? existing[existing.length - 1].order + 1 : 0
+
+    const titles: string[] = []
+    for (const lesson of courseLessons) {
+      const title = lesson.sectionTitle?.trim().slice(0, 150)
+      if (title && !lesson.section && !titles.includes(title)) titles.push(title)
+    }
+
+    console.log(`  📚 Course ${courseId}: ${titles.length ? titles.join(", ") : "no sections to create"}`)
+    if (dryRun) continue
+
+    for (const title of titles) {
+      if (sectionByTitle.has(title)) continue
+      const section = await Section.create({ course: courseId, title, order: nextOrder++ })
+      sectionByTitle.set(title, section._id)
+      sectionsCreated++
+    }
+
+    for (const lesson of courseLessons) {
+      const title = lesson.sectionTitle?.trim().slice(0, 150)
+      const sectionId = !lesson.section && title ? sectionByTitle.get(title) : undefined
+
+      await Lesson.collection.updateOne(
+        { _id: lesson._id },
+        sectionId ? { $set: { section: sectionId }, $unset: { sectionTitle: "" } } : { $unset: { sectionTitle: "" } }
+      )
+      if (sectionId) lessonsMoved++
+    }
+
+    await resequenceLessons(courseId)
+  }
+
+  if (dryRun) {
+    console.log("\n🧪 Dry run — nothing was changed.\n")
+  } else {
+    console.log(`\n✅ Done! Created ${sectionsCreated} sections and moved ${lessonsMoved} lessons into them.\n`)
+  }
+  process.exit(0)
+}
+
+main().catch((err) => {
+  console.error("❌ Migration failed:", err)
+  process.exit(1)
+})